@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/services/userService';
+import { safeRedirectPath, setSessionCookie, verifySignInLink } from '@/lib/auth';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/auth/callback - Where sign-in links land: start a session, then go to ?next= (or /me)
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  try {
+    const email = await verifySignInLink(searchParams);
+    if (!email) {
+      return NextResponse.redirect(new URL('/sign-in?error=expired', request.nextUrl.origin));
+    }
+
+    const user = await UserService.findOrCreateUserByEmail(email);
+    const { token, expiresAt } = await UserService.createSession(user.id);
+
+    const response = NextResponse.redirect(
+      new URL(safeRedirectPath(searchParams.get('next')), request.nextUrl.origin)
+    );
+    setSessionCookie(response, token, expiresAt);
+    console.log(`[API] Signed in user ${user.id}`);
+    return response;
+  } catch (error) {
+    console.error('[API] Error completing sign-in:', error);
+    return NextResponse.redirect(new URL('/sign-in?error=failed', request.nextUrl.origin));
+  }
+}
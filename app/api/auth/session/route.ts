@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthStatus } from '@/types';
+import { getAuthProvider, getSignedInUser } from '@/lib/auth';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/auth/session - Whether sign-in is available, and who is signed in
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getAuthProvider();
+    const status: AuthStatus = {
+      enabled: provider !== null,
+      provider,
+      user: await getSignedInUser(request),
+    };
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('[API] Error fetching auth session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch auth session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, sendSignInLink } from '@/lib/auth';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Simple in-memory rate limiting so a form can't be used to flood someone's inbox
+const signInTimestamps = new Map<string, number>();
+const RATE_LIMIT_MS = 60 * 1000; // 1 minute between sign-in links per email
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// POST /api/auth/sign-in - Send a sign-in link ({ email, next? })
+// The local (development) provider returns the link as devLink instead of emailing it
+export async function POST(request: NextRequest) {
+  try {
+    if (!getAuthProvider()) {
+      return NextResponse.json(
+        { error: 'Sign-in is not enabled' },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+
+    if (!EMAIL_PATTERN.test(email) || email.length > 255) {
+      return NextResponse.json(
+        { error: 'Please enter a valid email address' },
+        { status: 400 }
+      );
+    }
+
+    const lastSent = signInTimestamps.get(email);
+    const now = Date.now();
+    if (lastSent && now - lastSent < RATE_LIMIT_MS) {
+      const waitMinutes = Math.ceil((RATE_LIMIT_MS - (now - lastSent)) / 60000);
+      return NextResponse.json(
+        {
+          error: `Rate limited. Please wait ${waitMinutes} minute(s) before requesting another link.`,
+          retryAfter: waitMinutes * 60
+        },
+        { status: 429 }
+      );
+    }
+    signInTimestamps.set(email, now);
+
+    const callbackUrl = new URL('/api/auth/callback', request.nextUrl.origin);
+    if (typeof body.next === 'string' && body.next) {
+      callbackUrl.searchParams.set('next', body.next);
+    }
+
+    const { devLink } = await sendSignInLink(email, callbackUrl.toString());
+    return NextResponse.json({ success: true, devLink });
+  } catch (error) {
+    console.error('[API] Error sending sign-in link:', error);
+    return NextResponse.json(
+      { error: 'Failed to send sign-in link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/services/userService';
+import { SESSION_COOKIE, clearSessionCookie } from '@/lib/auth';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/auth/sign-out - End this browser's session
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await UserService.deleteSession(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('[API] Error signing out:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
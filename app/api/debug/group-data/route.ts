@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
 
 // GET /api/debug/group-data?groupId=xxx - Check all data for a group
 export async function GET(request: NextRequest) {
@@ -14,13 +14,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     
     // Check all tables for data related to this group
     const results: Record<string, any> = {};
 
     // 1. Check if group exists
-    const { data: group, error: groupError } = await supabase
+    const { data: group, error: groupError } = await db
       .from('groups')
       .select('*')
       .eq('id', groupId)
@@ -29,7 +29,7 @@ export async function GET(request: NextRequest) {
     results.group = { exists: !!group, data: group, error: groupError?.message };
 
     // 2. Check group_players
-    const { data: groupPlayers, error: gpError } = await supabase
+    const { data: groupPlayers, error: gpError } = await db
       .from('group_players')
       .select('id, name, is_active')
       .eq('group_id', groupId);
@@ -41,7 +41,7 @@ export async function GET(request: NextRequest) {
     };
 
     // 3. Check sessions
-    const { data: sessions, error: sessionsError } = await supabase
+    const { data: sessions, error: sessionsError } = await db
       .from('sessions')
       .select('id, name, date')
       .eq('group_id', groupId);
@@ -53,7 +53,7 @@ export async function GET(request: NextRequest) {
     };
 
     // 4. Check partner_stats
-    const { data: partnerStats, error: psError } = await supabase
+    const { data: partnerStats, error: psError } = await db
       .from('partner_stats')
       .select('id, player1_id, player2_id, wins, losses')
       .eq('group_id', groupId);
@@ -65,7 +65,7 @@ export async function GET(request: NextRequest) {
     };
 
     // 5. Check pairing_matchups
-    const { data: pairingMatchups, error: pmError } = await supabase
+    const { data: pairingMatchups, error: pmError } = await db
       .from('pairing_matchups')
       .select('id, team1_player1_id, team1_player2_id, team1_wins, team2_wins')
       .eq('group_id', groupId);
@@ -79,7 +79,7 @@ export async function GET(request: NextRequest) {
     // 6. Check players in sessions belonging to this group
     if (sessions && sessions.length > 0) {
       const sessionIds = sessions.map(s => s.id);
-      const { data: players, error: playersError } = await supabase
+      const { data: players, error: playersError } = await db
         .from('players')
         .select('id, name, session_id, group_player_id')
         .in('session_id', sessionIds);
@@ -91,7 +91,7 @@ export async function GET(request: NextRequest) {
       };
 
       // 7. Check games in those sessions
-      const { data: games, error: gamesError } = await supabase
+      const { data: games, error: gamesError } = await db
         .from('games')
         .select('id, game_number, session_id, winning_team')
         .in('session_id', sessionIds);
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
 
 /**
  * Debug endpoint for investigating group stats issues
@@ -14,10 +14,10 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'groupId is required' }, { status: 400 });
     }
 
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     // Get all sessions for this group
-    const { data: sessions, error: sessionsError } = await supabase
+    const { data: sessions, error: sessionsError } = await db
       .from('sessions')
       .select('id, name, date')
       .eq('group_id', groupId);
@@ -29,7 +29,7 @@ export async function GET(request: Request) {
     const sessionIds = (sessions || []).map(s => s.id);
 
     // Get all games for these sessions
-    const { data: games, error: gamesError } = await supabase
+    const { data: games, error: gamesError } = await db
       .from('games')
       .select('id, session_id, winning_team, game_number')
       .in('session_id', sessionIds);
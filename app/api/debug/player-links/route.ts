@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
 
 // GET /api/debug/player-links?groupId=xxx - Check player linking status
 export async function GET(request: NextRequest) {
@@ -11,16 +11,16 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'groupId required' }, { status: 400 });
     }
 
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     // 1. Get all group players (including inactive for debugging)
-    const { data: groupPlayers } = await supabase
+    const { data: groupPlayers } = await db
       .from('group_players')
       .select('id, name, elo_rating, wins, losses, total_games, is_active')
       .eq('group_id', groupId);
 
     // 2. Get all sessions for this group
-    const { data: sessions } = await supabase
+    const { data: sessions } = await db
       .from('sessions')
       .select('id, name')
       .eq('group_id', groupId);
@@ -28,13 +28,13 @@ export async function GET(request: NextRequest) {
     const sessionIds = (sessions || []).map(s => s.id);
 
     // 3. Get all session players and their group_player_id links
-    const { data: sessionPlayers } = await supabase
+    const { data: sessionPlayers } = await db
       .from('players')
       .select('id, name, session_id, group_player_id')
       .in('session_id', sessionIds.length > 0 ? sessionIds : ['__none__']);
 
     // 4. Get all games
-    const { data: games } = await supabase
+    const { data: games } = await db
       .from('games')
       .select('id, session_id, team_a, team_b, winning_team, created_at')
       .in('session_id', sessionIds.length > 0 ? sessionIds : ['__none__'])
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
 
 // GET /api/debug/sessions - Debug endpoint to see all sessions and their group_ids
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     
     // Get all sessions with their group_ids
-    const { data: sessions, error } = await supabase
+    const { data: sessions, error } = await db
       .from('sessions')
       .select('id, name, group_id, created_at, date')
       .order('created_at', { ascending: false })
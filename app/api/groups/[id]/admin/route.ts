@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { hashAdminPin, requireGroupAdmin } from '@/lib/groupAccess';
+import { isValidAdminPin } from '@/lib/adminPins';
+import { withAuditActor } from '@/lib/audit';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/groups/[id]/admin - Check an admin PIN (X-Group-Admin-Pin header) before saving it on a device
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error checking admin PIN:', error);
+    return NextResponse.json(
+      { error: 'Failed to check admin PIN' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/groups/[id]/admin - Set or change the group's admin PIN
+// Changing it needs the current PIN; a group without one can have it set by anyone with the link
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const body = await request.json();
+    const { pin } = body;
+
+    if (!isValidAdminPin(pin)) {
+      return NextResponse.json(
+        { error: 'Admin PIN must be 4-8 digits' },
+        { status: 400 }
+      );
+    }
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const group = await withAuditActor(request, async () => GroupService.setAdminPinHash(groupId, await hashAdminPin(pin)));
+    console.log(`[API] Admin PIN set for group ${groupId}`);
+    return NextResponse.json({ success: true, group });
+  } catch (error) {
+    console.error('[API] Error setting admin PIN:', error);
+    return NextResponse.json(
+      { error: 'Failed to set admin PIN' },
+      { status: 500 }
+    );
+  }
+}
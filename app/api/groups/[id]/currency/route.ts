@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { validateCurrencySettings } from '@/lib/currency';
+import { CurrencySettings } from '@/types';
+import { withAuditActor } from '@/lib/audit';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+
+// PUT /api/groups/[id]/currency - Update the group's default currency for new sessions (admin PIN)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const body = await request.json();
+    const settings = body.currencySettings as Partial<CurrencySettings> | undefined;
+
+    const validationError = validateCurrencySettings(settings);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const existing = await GroupService.getGroupById(groupId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const group = await withAuditActor(request, () => GroupService.updateCurrencySettings(groupId, settings as CurrencySettings));
+
+    return NextResponse.json({ group });
+  } catch (error) {
+    console.error('[API] Error updating currency settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update currency settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createEventStream } from '@/lib/eventStream';
+import { GroupService } from '@/lib/services/groupService';
+import { LiveUpdateService } from '@/lib/services/liveUpdateService';
+import { GroupLiveEvent } from '@/types';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Group pages only refetch on a change, so the group is checked less often than a session
+const GROUP_POLL_INTERVAL_MS = 5000;
+
+// GET /api/groups/[id]/events - Server-Sent Events stream that fires when the group's sessions or games change
+// Sends the current version first, then a new one after each change
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const group = await GroupService.getGroupById(groupId);
+
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    let previousVersion: string | null = null;
+    return createEventStream<GroupLiveEvent>(request, {
+      intervalMs: GROUP_POLL_INTERVAL_MS,
+      subscribe: (wake) => LiveUpdateService.subscribe(`group:${groupId}`, wake),
+      poll: async () => {
+        const version = await LiveUpdateService.getGroupVersion(groupId);
+        if (version === previousVersion) {
+          return [];
+        }
+        previousVersion = version;
+        return [{ type: 'group_changed', groupId, version }];
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error opening group event stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to open group event stream' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ExportService } from '@/lib/services/exportService';
+import { createZip } from '@/lib/zip';
+import { GroupExportFormat } from '@/types';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const EXPORT_FORMATS: GroupExportFormat[] = ['json', 'csv'];
+
+/**
+ * "Tuesday Club" exported today -> tuesday-club-2025-01-14
+ */
+function exportFileName(groupName: string, exportedAt: string): string {
+  const slug = groupName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'group';
+  return `${slug}-${exportedAt.slice(0, 10)}`;
+}
+
+// GET /api/groups/[id]/export - Download the whole group
+// ?format=json (default) is the versioned archive; ?format=csv is a ZIP of spreadsheets
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'json') as GroupExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Format must be json or csv' },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await ExportService.getGroupExport(groupId);
+    if (!bundle) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const fileName = exportFileName(bundle.group.name, bundle.exportedAt);
+
+    if (format === 'csv') {
+      const zip = createZip(await ExportService.getGroupExportCsvFiles(bundle), new Date(bundle.exportedAt));
+      return new NextResponse(new Uint8Array(zip), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${fileName}.zip"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error exporting group:', error);
+    return NextResponse.json(
+      { error: 'Failed to export group' },
+      { status: 500 }
+    );
+  }
+}
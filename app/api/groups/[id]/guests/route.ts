@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
+import { AuditService } from '@/lib/services/auditService';
+import { withAuditActor } from '@/lib/audit';
 
 // GET /api/groups/[id]/guests - Get unlinked players (guests) from recent sessions
 export async function GET(
@@ -8,13 +10,13 @@ export async function GET(
 ) {
   try {
     const { id: groupId } = await params;
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     // Get sessions for this group (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     
-    const { data: sessions, error: sessionsError } = await supabase
+    const { data: sessions, error: sessionsError } = await db
       .from('sessions')
       .select('id, name, date')
       .eq('group_id', groupId)
@@ -31,7 +33,7 @@ export async function GET(
     }
 
     // Get unlinked players from these sessions
-    const { data: players, error: playersError } = await supabase
+    const { data: players, error: playersError } = await db
       .from('players')
       .select('id, name, session_id, group_player_id')
       .in('session_id', sessionIds)
@@ -42,7 +44,7 @@ export async function GET(
     }
 
     // Get existing group players to filter out guests that are already in the group
-    const { data: existingGroupPlayers } = await supabase
+    const { data: existingGroupPlayers } = await db
       .from('group_players')
       .select('name')
       .eq('group_id', groupId);
@@ -122,10 +124,10 @@ export async function POST(
       );
     }
 
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     // Check if player with this name already exists in group
-    const { data: existing } = await supabase
+    const { data: existing } = await db
       .from('group_players')
       .select('id, name')
       .eq('group_id', groupId)
@@ -142,7 +144,7 @@ export async function POST(
     // Create new group player
     const groupPlayerId = `gp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
-    const { data: newPlayer, error: createError } = await supabase
+    const { data: newPlayer, error: createError } = await db
       .from('group_players')
       .insert({
         id: groupPlayerId,
@@ -160,9 +162,11 @@ export async function POST(
       throw createError;
     }
 
+    await withAuditActor(request, () => AuditService.recordGroupPlayerChange(null, newPlayer));
+
     // Link all past session players with matching name to this group player
     // This allows future stats to be computed from past games
-    const { data: sessions } = await supabase
+    const { data: sessions } = await db
       .from('sessions')
       .select('id')
       .eq('group_id', groupId);
@@ -171,7 +175,7 @@ export async function POST(
     
     if (sessionIds.length > 0) {
       // First get all players that should be linked (for logging)
-      const { data: playersToLink } = await supabase
+      const { data: playersToLink } = await db
         .from('players')
         .select('id, name, session_id')
         .in('session_id', sessionIds)
@@ -187,7 +191,7 @@ export async function POST(
       // Update matching players by their IDs
       if (matchingPlayers.length > 0) {
         const playerIds = matchingPlayers.map(p => p.id);
-        const { error: linkError, count } = await supabase
+        const { error: linkError, count } = await db
           .from('players')
           .update({ group_player_id: groupPlayerId })
           .in('id', playerIds);
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditService } from '@/lib/services/auditService';
+import { LiveUpdateService } from '@/lib/services/liveUpdateService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+import { withAuditActor } from '@/lib/audit';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const REVERT_ERRORS = {
+  not_found: { error: 'Change not found', status: 404 },
+  not_revertable: { error: 'This change can\'t be reverted', status: 400 },
+  already_reverted: { error: 'This change has already been reverted', status: 409 },
+  changed_since: { error: 'This changed again since - revert the later change first', status: 409 },
+  in_tournament: { error: 'Tournament games can\'t be reverted - change the game on the session page so the bracket follows', status: 409 },
+};
+
+// POST /api/groups/[id]/history/[auditId]/revert - Undo one change and recalculate stats
+// Needs the group's admin PIN (X-Group-Admin-Pin header)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; auditId: string }> }
+) {
+  try {
+    const { id: groupId, auditId } = await params;
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const { result, entry } = await withAuditActor(request, () => AuditService.revertChange(groupId, auditId));
+    if (result !== 'reverted') {
+      const { error, status } = REVERT_ERRORS[result];
+      return NextResponse.json({ error }, { status });
+    }
+
+    if (entry?.sessionId) {
+      LiveUpdateService.publish(entry.sessionId, groupId);
+    }
+
+    console.log(`[API] Reverted change ${auditId} in group ${groupId}`);
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('[API] Error reverting change:', error);
+    return NextResponse.json(
+      { error: 'Failed to revert change' },
+      { status: 500 }
+    );
+  }
+}
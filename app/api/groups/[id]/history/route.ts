@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { AuditService } from '@/lib/services/auditService';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const MAX_HISTORY_LIMIT = 100;
+
+// GET /api/groups/[id]/history - Get the group's change history, newest first
+// ?before=<ISO timestamp> pages back through older changes, ?limit= caps the page size
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const group = await GroupService.getGroupById(groupId);
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const before = searchParams.get('before');
+    if (before && isNaN(new Date(before).getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid before timestamp' },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_HISTORY_LIMIT);
+
+    const entries = await AuditService.getGroupHistory(groupId, { limit, before: before || undefined });
+
+    return NextResponse.json({ entries, hasMore: entries.length === limit });
+  } catch (error) {
+    console.error('[API] Error fetching group history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch group history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { ImportService } from '@/lib/services/importService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+import { withAuditActor } from '@/lib/audit';
+import { GroupImportFormat } from '@/types';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const IMPORT_FORMATS: GroupImportFormat[] = ['csv', 'json'];
+const MAX_IMPORT_LENGTH = 5 * 1024 * 1024; // Characters - years of games fit comfortably
+
+// POST /api/groups/[id]/import - Import sessions and games from a CSV or a JSON export
+// Body: { format: 'csv' | 'json', content: string }
+// ?dryRun=true only checks the file and returns the preview; importing needs the admin PIN
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+    const body = await request.json();
+    const { format, content } = body as { format: GroupImportFormat; content: string };
+
+    if (!IMPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Format must be csv or json' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'File is empty' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_IMPORT_LENGTH) {
+      return NextResponse.json(
+        { error: 'File is too large (5 MB max)' },
+        { status: 413 }
+      );
+    }
+
+    if (dryRun) {
+      const group = await GroupService.getGroupById(groupId);
+      if (!group) {
+        return NextResponse.json(
+          { error: 'Group not found' },
+          { status: 404 }
+        );
+      }
+      const preview = await ImportService.previewImport(groupId, format, content);
+      return NextResponse.json({ preview });
+    }
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const result = await withAuditActor(request, () => ImportService.importGroupData(groupId, format, content));
+    if (!result.preview.canImport) {
+      return NextResponse.json(
+        { error: 'The file has problems - nothing was imported', preview: result.preview },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[API] Imported ${result.sessionsCreated} sessions and ${result.gamesCreated} games into group ${groupId}`);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[API] Error importing group data:', error);
+    return NextResponse.json(
+      { error: 'Failed to import group data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { LedgerService } from '@/lib/services/ledgerService';
+import { LedgerObligationKey } from '@/lib/ledger';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+
+/**
+ * Validate a mark-paid payload
+ * Returns an error message, or null if the payload is usable
+ */
+function validateLedgerUpdate(obligations: unknown, paid: unknown): string | null {
+  if (!Array.isArray(obligations) || obligations.length === 0) {
+    return 'At least one obligation is required';
+  }
+  const isKey = (o: any) =>
+    !!o && typeof o.sessionId === 'string' && typeof o.fromPlayerId === 'string' && typeof o.toPlayerId === 'string';
+  if (!obligations.every(isKey)) {
+    return 'Each obligation needs a sessionId, fromPlayerId and toPlayerId';
+  }
+  if (typeof paid !== 'boolean') {
+    return 'Paid must be true or false';
+  }
+
+  return null;
+}
+
+// GET /api/groups/[id]/ledger - Get what everyone owes across the group's sessions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+
+    const group = await GroupService.getGroupById(groupId);
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const ledger = await LedgerService.getGroupLedger(groupId);
+
+    // No caching - balances change as soon as a payment is marked
+    const response = NextResponse.json(ledger);
+    response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate');
+
+    return response;
+  } catch (error) {
+    console.error('[API] Error fetching group ledger:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch group ledger' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/groups/[id]/ledger - Mark obligations as paid or unpaid (admin PIN)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const body = await request.json();
+
+    const validationError = validateLedgerUpdate(body.obligations, body.paid);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const group = await GroupService.getGroupById(groupId);
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const obligations = (body.obligations as LedgerObligationKey[]).map((o) => ({
+      sessionId: o.sessionId,
+      fromPlayerId: o.fromPlayerId,
+      toPlayerId: o.toPlayerId,
+    }));
+    const ledger = await LedgerService.setObligationsPaid(groupId, obligations, body.paid);
+    if (!ledger) {
+      return NextResponse.json(
+        { error: 'Obligation not found - the session may have changed, refresh and try again' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ledger });
+  } catch (error) {
+    console.error('[API] Error updating group ledger:', error);
+    return NextResponse.json(
+      { error: 'Failed to update group ledger' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { GroupService } from '@/lib/services/groupService';
+import { SeasonService } from '@/lib/services/seasonService';
+import { getRequestStatsWindow } from '@/lib/statsWindow';
 
 // Force dynamic rendering - prevent caching stale stats
 export const dynamic = 'force-dynamic';
@@ -8,15 +10,23 @@ export const revalidate = 0;
 /**
  * GET /api/groups/[id]/overview
  * Get group overview statistics (total games, sessions, most active player, closest matchup)
+ * Optional window: ?season=<id>|current, or ?from=YYYY-MM-DD&to=YYYY-MM-DD (default all time)
  */
 export async function GET(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id: groupId } = await params;
 
-    const stats = await GroupService.getGroupStats(groupId);
+    const { window, errorResponse } = await getRequestStatsWindow(request, groupId);
+    if (errorResponse) {
+      return errorResponse;
+    }
+
+    const stats = window
+      ? await SeasonService.getWindowOverview(groupId, window)
+      : await GroupService.getGroupStats(groupId);
 
     // No caching for overview stats - they should always be fresh
     const response = NextResponse.json(stats);
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PairingStatsService } from '@/lib/services/pairingStatsService';
+import { SeasonService } from '@/lib/services/seasonService';
+import { getRequestStatsWindow } from '@/lib/statsWindow';
 
 // GET /api/groups/[id]/pairings - Get all pairing stats (leaderboard of best pairs)
+// Optional window: ?season=<id>|current, or ?from=YYYY-MM-DD&to=YYYY-MM-DD (default all time)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -16,7 +19,14 @@ export async function GET(
       );
     }
 
-    const pairings = await PairingStatsService.getPairingLeaderboard(groupId);
+    const { window, errorResponse } = await getRequestStatsWindow(request, groupId);
+    if (errorResponse) {
+      return errorResponse;
+    }
+
+    const pairings = window
+      ? await SeasonService.getWindowPairings(groupId, window)
+      : await PairingStatsService.getPairingLeaderboard(groupId);
 
     // No caching - stats should always be fresh after score edits
     const response = NextResponse.json(pairings);
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { getSignedInUser } from '@/lib/auth';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+import { ADMIN_PIN_HEADER } from '@/lib/adminPins';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const CLAIM_ERRORS = {
+  not_found: { error: 'Player not found', status: 404 },
+  claimed_by_other: { error: 'This player has already been claimed by someone else', status: 409 },
+  already_has_player: { error: 'You have already claimed a player in this group', status: 409 },
+};
+
+// POST /api/groups/[id]/players/[playerId]/claim - Claim this player as the signed-in user
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; playerId: string }> }
+) {
+  try {
+    const { id: groupId, playerId } = await params;
+
+    const user = await getSignedInUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Sign in to claim a player' },
+        { status: 401 }
+      );
+    }
+
+    const result = await GroupService.claimGroupPlayer(groupId, playerId, user.id);
+    if (result !== 'claimed') {
+      const { error, status } = CLAIM_ERRORS[result];
+      return NextResponse.json({ error }, { status });
+    }
+
+    console.log(`[API] User ${user.id} claimed group player ${playerId}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error claiming player:', error);
+    return NextResponse.json(
+      { error: 'Failed to claim player' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[id]/players/[playerId]/claim - Release a claim
+// The signed-in user can release their own; with the admin PIN header any claim can be released
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; playerId: string }> }
+) {
+  try {
+    const { id: groupId, playerId } = await params;
+
+    let userId: string | null = null;
+    if (request.headers.get(ADMIN_PIN_HEADER)) {
+      const accessError = await requireGroupAdmin(request, groupId);
+      if (accessError) {
+        return accessError;
+      }
+    } else {
+      const user = await getSignedInUser(request);
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Sign in to release your claim' },
+          { status: 401 }
+        );
+      }
+      userId = user.id;
+    }
+
+    const released = await GroupService.releaseGroupPlayer(groupId, playerId, userId);
+    if (!released) {
+      return NextResponse.json(
+        { error: 'No claim to release' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error releasing player claim:', error);
+    return NextResponse.json(
+      { error: 'Failed to release claim' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EloService } from '@/lib/services/eloService';
+
+// GET /api/groups/[id]/players/[playerId]/elo-history - Get a player's rating timeline
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; playerId: string }> }
+) {
+  try {
+    const { id: groupId, playerId } = await params;
+
+    if (!groupId || !playerId) {
+      return NextResponse.json(
+        { error: 'Group ID and Player ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const history = await EloService.getEloHistory(groupId, playerId);
+
+    // No caching - history changes with every recorded game
+    const response = NextResponse.json(history);
+    response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate');
+
+    return response;
+  } catch (error) {
+    console.error('[API] Error fetching ELO history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ELO history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GroupService } from '@/lib/services/groupService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+import { withAuditActor } from '@/lib/audit';
 
 // GET /api/groups/[id]/players - Get all players in a group's pool
 export async function GET(
@@ -31,10 +33,10 @@ export async function POST(
 
     // Support both single name and multiple names
     if (names && Array.isArray(names)) {
-      const players = await GroupService.addGroupPlayers(groupId, names);
+      const players = await withAuditActor(request, () => GroupService.addGroupPlayers(groupId, names));
       return NextResponse.json({ success: true, players });
     } else if (name && typeof name === 'string') {
-      const player = await GroupService.addGroupPlayer(groupId, name);
+      const player = await withAuditActor(request, () => GroupService.addGroupPlayer(groupId, name));
       return NextResponse.json({ success: true, player });
     } else {
       return NextResponse.json(
@@ -52,12 +54,19 @@ export async function POST(
 }
 
 // DELETE /api/groups/[id]/players - Remove a player from a group's pool
+// Needs the group's admin PIN (X-Group-Admin-Pin header)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id: groupId } = await params;
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
     const body = await request.json();
     const { playerId } = body;
 
@@ -69,7 +78,7 @@ export async function DELETE(
     }
 
     console.log(`[API] Removing player ${playerId} from group ${groupId}`);
-    await GroupService.removeGroupPlayer(playerId);
+    await withAuditActor(request, () => GroupService.removeGroupPlayer(groupId, playerId));
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('[API] Error removing group player:', error);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { StatsRebuildService } from '@/lib/services/statsRebuildService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+
+// Simple in-memory rate limiting for rebuilds that write (dry runs are read-only)
+const rebuildTimestamps = new Map<string, number>();
+const RATE_LIMIT_MS = 5 * 60 * 1000; // 5 minutes between rebuilds per group
+
+// POST /api/groups/[id]/rebuild - Replay every game to rebuild ratings, records, streaks and pairing stats
+// ?dryRun=true only reports what would change (drift detection) without writing; rebuilding needs the admin PIN
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+
+    const group = await GroupService.getGroupById(groupId);
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!dryRun) {
+      const accessError = await requireGroupAdmin(request, groupId);
+      if (accessError) {
+        return accessError;
+      }
+
+      const lastRebuild = rebuildTimestamps.get(groupId);
+      const now = Date.now();
+      if (lastRebuild && now - lastRebuild < RATE_LIMIT_MS) {
+        const waitMinutes = Math.ceil((RATE_LIMIT_MS - (now - lastRebuild)) / 60000);
+        return NextResponse.json(
+          {
+            error: `Rate limited. Please wait ${waitMinutes} minute(s) before rebuilding again.`,
+            retryAfter: waitMinutes * 60
+          },
+          { status: 429 }
+        );
+      }
+      rebuildTimestamps.set(groupId, now);
+    }
+
+    console.log(`[API] ${dryRun ? 'Checking' : 'Rebuilding'} derived stats for group ${groupId}`);
+    const rebuild = await StatsRebuildService.rebuildGroupStats(groupId, { dryRun });
+
+    return NextResponse.json(rebuild);
+  } catch (error) {
+    console.error('[API] Error rebuilding group stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to rebuild group stats' },
+      { status: 500 }
+    );
+  }
+}
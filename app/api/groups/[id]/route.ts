@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GroupService } from '@/lib/services/groupService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
 
 // GET /api/groups/[id] - Get a specific group
 export async function GET(
@@ -39,12 +40,19 @@ export async function GET(
 export const revalidate = 30; // Revalidate every 30 seconds
 
 // DELETE /api/groups/[id] - Delete a group
+// Needs the group's admin PIN (X-Group-Admin-Pin header)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id: groupId } = await params;
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
     await GroupService.deleteGroup(groupId);
     return NextResponse.json({ success: true });
   } catch (error) {
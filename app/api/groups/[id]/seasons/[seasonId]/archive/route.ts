@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SeasonService } from '@/lib/services/seasonService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const ARCHIVE_ERRORS = {
+  not_found: { error: 'Season not found', status: 404 },
+  not_ended: { error: 'A season can only be archived after its end date', status: 400 },
+};
+
+// POST /api/groups/[id]/seasons/[seasonId]/archive - Snapshot a finished season's final standings
+// Needs the group's admin PIN (X-Group-Admin-Pin header); archiving again retakes the snapshot
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; seasonId: string }> }
+) {
+  try {
+    const { id: groupId, seasonId } = await params;
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const archived = await SeasonService.archiveSeason(groupId, seasonId);
+    if (archived.result !== 'archived') {
+      const { error, status } = ARCHIVE_ERRORS[archived.result];
+      return NextResponse.json({ error }, { status });
+    }
+
+    console.log(`[API] Archived season ${seasonId} in group ${groupId}`);
+    return NextResponse.json(archived.season);
+  } catch (error) {
+    console.error('[API] Error archiving season:', error);
+    return NextResponse.json(
+      { error: 'Failed to archive season' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SeasonService } from '@/lib/services/seasonService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+import { validateSeasonInput } from '@/lib/seasons';
+import { SeasonInput } from '@/types';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// PUT /api/groups/[id]/seasons/[seasonId] - Update a season's name, dates or rating rule
+// Changing the dates or rule clears its archived standings
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; seasonId: string }> }
+) {
+  try {
+    const { id: groupId, seasonId } = await params;
+    const input = (await request.json()) as SeasonInput;
+
+    const validationError = validateSeasonInput(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const updated = await SeasonService.updateSeason(groupId, seasonId, input);
+    if (updated.result === 'not_found') {
+      return NextResponse.json(
+        { error: 'Season not found' },
+        { status: 404 }
+      );
+    }
+    if (updated.result === 'overlaps') {
+      return NextResponse.json(
+        { error: `Dates overlap "${updated.conflict.name}"` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(updated.season);
+  } catch (error) {
+    console.error('[API] Error updating season:', error);
+    return NextResponse.json(
+      { error: 'Failed to update season' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[id]/seasons/[seasonId] - Delete a season and its archived standings (games are kept)
+// Needs the group's admin PIN (X-Group-Admin-Pin header)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; seasonId: string }> }
+) {
+  try {
+    const { id: groupId, seasonId } = await params;
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const deleted = await SeasonService.deleteSeason(groupId, seasonId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Season not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error deleting season:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete season' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { SeasonService } from '@/lib/services/seasonService';
+import { validateSeasonInput } from '@/lib/seasons';
+import { SeasonInput } from '@/types';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/groups/[id]/seasons - List the group's seasons, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+
+    const seasons = await SeasonService.getSeasons(groupId);
+    return NextResponse.json(seasons);
+  } catch (error) {
+    console.error('[API] Error fetching seasons:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch seasons' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[id]/seasons - Create a season
+// Body: { name, startDate, endDate (null = no planned end), ratingMode: 'carry_over' | 'reset' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const input = (await request.json()) as SeasonInput;
+
+    const validationError = validateSeasonInput(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const group = await GroupService.getGroupById(groupId);
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const created = await SeasonService.createSeason(groupId, input);
+    if (created.result === 'overlaps') {
+      return NextResponse.json(
+        { error: `Dates overlap "${created.conflict.name}"` },
+        { status: 409 }
+      );
+    }
+    if (created.result !== 'saved') {
+      return NextResponse.json(
+        { error: 'Failed to create season' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(created.season, { status: 201 });
+  } catch (error) {
+    console.error('[API] Error creating season:', error);
+    return NextResponse.json(
+      { error: 'Failed to create season' },
+      { status: 500 }
+    );
+  }
+}
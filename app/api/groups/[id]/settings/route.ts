@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { EloService } from '@/lib/services/eloService';
+import { GroupRatingSettings } from '@/types';
+import { withAuditActor } from '@/lib/audit';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+
+/**
+ * Validate a rating settings payload
+ * Returns an error message, or null if the settings are usable
+ */
+function validateRatingSettings(settings: Partial<GroupRatingSettings> | undefined): string | null {
+  if (!settings) {
+    return 'Rating settings are required';
+  }
+
+  const { engine, kFactor, startingRating, ratingFloor, marginOfVictory } = settings;
+
+  if (engine !== 'elo' && engine !== 'glicko2') {
+    return "Rating engine must be 'elo' or 'glicko2'";
+  }
+  if (!Number.isInteger(kFactor) || kFactor! < 1 || kFactor! > 200) {
+    return 'K-factor must be a whole number between 1 and 200';
+  }
+  if (!Number.isInteger(startingRating) || startingRating! < 100 || startingRating! > 3000) {
+    return 'Starting rating must be a whole number between 100 and 3000';
+  }
+  if (!Number.isInteger(ratingFloor) || ratingFloor! < 0 || ratingFloor! > startingRating!) {
+    return 'Rating floor must be a whole number between 0 and the starting rating';
+  }
+  if (typeof marginOfVictory !== 'boolean') {
+    return 'Margin of victory must be true or false';
+  }
+
+  return null;
+}
+
+// PUT /api/groups/[id]/settings - Update rating settings and recalculate the group's ELO (admin PIN)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: groupId } = await params;
+    const body = await request.json();
+    const settings = body.ratingSettings as Partial<GroupRatingSettings> | undefined;
+
+    const validationError = validateRatingSettings(settings);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const existing = await GroupService.getGroupById(groupId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const accessError = await requireGroupAdmin(request, groupId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const group = await withAuditActor(request, () => GroupService.updateRatingSettings(groupId, settings as GroupRatingSettings));
+
+    // Ratings depend on every game played so far, so replay the whole history with the new settings
+    console.log(`[API] Rating settings changed for group ${groupId}, recalculating ELO`);
+    const recalculation = await EloService.recalculateGroupElo(groupId);
+
+    return NextResponse.json({ group, recalculation });
+  } catch (error) {
+    console.error('[API] Error updating rating settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update rating settings' },
+      { status: 500 }
+    );
+  }
+}
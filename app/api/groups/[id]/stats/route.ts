@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { StatsService } from '@/lib/services/statsService';
 import { EloService } from '@/lib/services/eloService';
 import { PairingStatsService } from '@/lib/services/pairingStatsService';
+import { SeasonService } from '@/lib/services/seasonService';
+import { getRequestStatsWindow } from '@/lib/statsWindow';
 
 // Allow caching with short TTL - data refreshes every few seconds
 export const revalidate = 5; // ISR: revalidate every 5 seconds
@@ -11,6 +13,7 @@ const recalculationTimestamps = new Map<string, number>();
 const RATE_LIMIT_MS = 5 * 60 * 1000; // 5 minutes between recalculations per group
 
 // GET /api/groups/[id]/stats - Get leaderboard data for a group
+// Optional window: ?season=<id>|current, or ?from=YYYY-MM-DD&to=YYYY-MM-DD (default all time)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -25,7 +28,14 @@ export async function GET(
       );
     }
 
-    const leaderboard = await StatsService.getLeaderboard(groupId);
+    const { window, errorResponse } = await getRequestStatsWindow(request, groupId);
+    if (errorResponse) {
+      return errorResponse;
+    }
+
+    const leaderboard = window
+      ? await SeasonService.getWindowLeaderboard(groupId, window)
+      : await StatsService.getLeaderboard(groupId);
 
     // Cache for 5 seconds, serve stale while revalidating for up to 30 seconds
     const response = NextResponse.json(leaderboard);
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GroupService } from '@/lib/services/groupService';
 import { runMigration } from '@/lib/migration';
+import { validateCurrencySettings } from '@/lib/currency';
+import { isValidAdminPin } from '@/lib/adminPins';
+import { hashAdminPin } from '@/lib/groupAccess';
 
 // Force dynamic rendering - never cache this route
 export const dynamic = 'force-dynamic';
@@ -66,10 +69,11 @@ export async function GET() {
 }
 
 // POST /api/groups - Create a new group
+// adminPin (4-8 digits) protects deleting the group, removing players and changing recorded games
 export async function POST(request: NextRequest) {
   // Read request body once
   const body = await request.json();
-  const { name } = body;
+  const { name, currencySettings, adminPin } = body;
 
   if (!name || typeof name !== 'string') {
     return NextResponse.json(
@@ -78,8 +82,26 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const currencyError = currencySettings ? validateCurrencySettings(currencySettings) : null;
+  if (currencyError) {
+    return NextResponse.json(
+      { error: currencyError },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidAdminPin(adminPin)) {
+    return NextResponse.json(
+      { error: 'Admin PIN must be 4-8 digits' },
+      { status: 400 }
+    );
+  }
+
+  // Hashed once - the retry after an auto-migration reuses it
+  const adminPinHash = await hashAdminPin(adminPin);
+
   try {
-    const group = await GroupService.createGroup(name);
+    const group = await GroupService.createGroup(name, currencySettings, adminPinHash);
     return NextResponse.json({ success: true, group });
   } catch (error: any) {
     console.error('[API] Error creating group:', error);
@@ -117,7 +139,7 @@ export async function POST(request: NextRequest) {
       
       // Retry creating group after migration (use the name we already read)
       try {
-        const group = await GroupService.createGroup(name);
+        const group = await GroupService.createGroup(name, currencySettings, adminPinHash);
         return NextResponse.json({ success: true, group });
       } catch (retryError: any) {
         return NextResponse.json(
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { StatsService } from '@/lib/services/statsService';
+import { GroupSpectatorView } from '@/types';
+
+// Sessions listed on the spectator page
+const RECENT_SESSIONS_LIMIT = 10;
+
+// GET /api/groups/spectate/[link] - Read-only view of a group for its spectator link
+// Leaves out the group ID, session IDs and shareable link so spectators can't reach anything that writes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ link: string }> }
+) {
+  try {
+    const { link } = await params;
+    const group = await GroupService.getGroupBySpectatorLink(link);
+
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const [leaderboard, sessions] = await Promise.all([
+      StatsService.getLeaderboard(group.id),
+      GroupService.getGroupSessions(group.id),
+    ]);
+
+    const view: GroupSpectatorView = {
+      name: group.name,
+      ratingSettings: group.ratingSettings,
+      leaderboard,
+      recentSessions: sessions.slice(0, RECENT_SESSIONS_LIMIT).map((session) => ({
+        name: session.name,
+        date: session.date,
+        gameMode: session.gameMode,
+        playerCount: session.players.length,
+      })),
+    };
+
+    // Same short cache as the leaderboard
+    const response = NextResponse.json(view);
+    response.headers.set(
+      'Cache-Control',
+      'public, s-maxage=5, stale-while-revalidate=30'
+    );
+
+    return response;
+  } catch (error) {
+    console.error('[API] Error fetching group by spectator link:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch group' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,13 @@
 import { NextResponse } from 'next/server';
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
 
-// Simple DB connectivity check using Supabase REST API
+// Simple DB connectivity check against the configured backend (DATABASE_BACKEND)
 export async function GET() {
   try {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     
     // Test connection by querying sessions count
-    const { count, error } = await supabase
+    const { count, error } = await db
       .from('sessions')
       .select('*', { count: 'exact', head: true });
 
@@ -18,6 +18,7 @@ export async function GET() {
     return NextResponse.json({
       ok: true,
       db: 'connected',
+      backend: db.backend,
       sessionsCount: count ?? 0,
     });
   } catch (error) {
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -11,10 +11,10 @@ import { join } from 'path';
  */
 export async function POST() {
   try {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     
     // Check if groups table exists
-    const { data: groupsCheck, error: groupsError } = await supabase
+    const { data: groupsCheck, error: groupsError } = await db
       .from('groups')
       .select('id')
       .limit(1);
@@ -28,7 +28,7 @@ export async function POST() {
        groupsError.code !== '42P01');
     
     // Check if sessions table exists (to determine if this is a new or existing DB)
-    const { data: sessionsCheck, error: sessionsError } = await supabase
+    const { data: sessionsCheck, error: sessionsError } = await db
       .from('sessions')
       .select('id')
       .limit(1);
@@ -104,12 +104,12 @@ export async function POST() {
  */
 export async function GET() {
   try {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     
     // Check tables
     const [groupsCheck, sessionsCheck] = await Promise.all([
-      supabase.from('groups').select('id').limit(1),
-      supabase.from('sessions').select('id').limit(1)
+      db.from('groups').select('id').limit(1),
+      db.from('sessions').select('id').limit(1)
     ]);
     
     // More accurate table existence check
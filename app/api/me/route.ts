@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/services/userService';
+import { getSignedInUser } from '@/lib/auth';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/me - The signed-in user's groups and their stats across them
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSignedInUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    const dashboard = await UserService.getUserDashboard(user);
+    return NextResponse.json(dashboard);
+  } catch (error) {
+    console.error('[API] Error fetching user dashboard:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dashboard' },
+      { status: 500 }
+    );
+  }
+}
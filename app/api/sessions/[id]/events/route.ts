@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createEventStream } from '@/lib/eventStream';
+import { LiveUpdateService } from '@/lib/services/liveUpdateService';
+import { SessionService } from '@/lib/services/sessionService';
+import { Game, SessionLiveEvent } from '@/types';
+
+// Force dynamic rendering - never cache this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/sessions/[id]/events - Server-Sent Events stream of game inserts, updates and deletes
+// Sends a snapshot of the session's games first, then one event per change
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const session = await SessionService.getSessionById(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    let previousGames: Game[] | null = null;
+    return createEventStream<SessionLiveEvent>(request, {
+      subscribe: (wake) => LiveUpdateService.subscribe(`session:${sessionId}`, wake),
+      poll: async () => {
+        const games = await LiveUpdateService.getSessionGames(sessionId);
+        const events = LiveUpdateService.diffSessionGames(sessionId, previousGames, games);
+        previousGames = games;
+        return events;
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error opening session event stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to open session event stream' },
+      { status: 500 }
+    );
+  }
+}
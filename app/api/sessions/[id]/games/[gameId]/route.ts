@@ -1,8 +1,180 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GameService } from '@/lib/services/gameService';
+import { SessionService } from '@/lib/services/sessionService';
+import { TournamentService } from '@/lib/services/tournamentService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
 import { Game } from '@/types';
+import { withAuditActor } from '@/lib/audit';
+import { getScoringRule, resolveGameResult } from '@/lib/scoring';
+import { getRallyLogScores } from '@/lib/liveScoring';
 
-// PUT /api/sessions/[id]/games/[gameId] - Update a game
+/**
+ * Changing a recorded result or deleting a game needs the group's admin PIN
+ * Filling in an unplayed game (round robin) doesn't - that's how its result gets recorded.
+ * Standalone sessions have no admin. Returns an error response, or null to go ahead.
+ */
+async function checkGameAdmin(
+  request: NextRequest,
+  sessionId: string,
+  gameId: string,
+  allowUnplayed: boolean
+): Promise<NextResponse | null> {
+  const groupId = await SessionService.getSessionGroupId(sessionId);
+  if (!groupId) {
+    return null;
+  }
+
+  if (allowUnplayed) {
+    const game = await GameService.getGame(sessionId, gameId);
+    if (game && game.winningTeam === null) {
+      return null;
+    }
+  }
+
+  return requireGroupAdmin(request, groupId);
+}
+
+/**
+ * Check an offline edit against the game's current version
+ * ?expectedUpdatedAt is the updatedAt the device last saw; a different one means another
+ * device changed the game since. Returns an error response, or null to go ahead.
+ */
+async function checkGameVersion(
+  request: NextRequest,
+  sessionId: string,
+  gameId: string
+): Promise<NextResponse | null> {
+  const expectedUpdatedAt = request.nextUrl.searchParams.get('expectedUpdatedAt');
+  if (!expectedUpdatedAt) {
+    return null;
+  }
+
+  const expected = new Date(expectedUpdatedAt);
+  if (isNaN(expected.getTime())) {
+    return NextResponse.json(
+      { error: 'Invalid expectedUpdatedAt' },
+      { status: 400 }
+    );
+  }
+
+  const current = await GameService.getGame(sessionId, gameId);
+  if (!current) {
+    return NextResponse.json(
+      { error: 'Game not found' },
+      { status: 404 }
+    );
+  }
+  if (current.updatedAt && current.updatedAt.getTime() !== expected.getTime()) {
+    return NextResponse.json(
+      { error: 'Game was changed on another device', game: current },
+      { status: 409 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Check a change to a tournament game against the bracket (updates null for a delete)
+ * The bracket picks who plays, and a result can't change once a later match it decided has
+ * been played. Returns an error response, or null to go ahead.
+ */
+async function checkTournamentGame(
+  sessionId: string,
+  gameId: string,
+  updates: Partial<Game> | null
+): Promise<NextResponse | null> {
+  const error = await TournamentService.getGameEditError(sessionId, gameId, updates);
+  if (!error) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error },
+    { status: 409 }
+  );
+}
+
+/**
+ * Check a result change against the session's scoring rule, with the game's other fields as stored
+ * Returns the updates with the winner taken from the scores (and a match's totals from its
+ * sets), or an error response. sets: [] turns a match back into a single game.
+ * A new rally log sets the scores; scores changed by hand drop the old log, which no longer matches.
+ * Clearing a result (winningTeam: null) and changes that don't touch the result aren't checked.
+ */
+async function checkGameResult(
+  sessionId: string,
+  gameId: string,
+  updates: Partial<Game>
+): Promise<{ updates: Partial<Game> } | { errorResponse: NextResponse }> {
+  const rule = getScoringRule(await SessionService.getSessionScoringRule(sessionId));
+  if (updates.rallies?.length) {
+    const logged = getRallyLogScores(rule, updates.rallies);
+    if ('error' in logged) {
+      return {
+        errorResponse: NextResponse.json(
+          { error: logged.error },
+          { status: 400 }
+        ),
+      };
+    }
+    updates = { ...updates, ...logged, sets: logged.sets ?? [] };
+  }
+
+  const touchesResult =
+    updates.winningTeam !== undefined ||
+    updates.teamAScore !== undefined ||
+    updates.teamBScore !== undefined ||
+    updates.sets !== undefined;
+  if (!touchesResult || updates.winningTeam === null) {
+    return { updates };
+  }
+
+  const current = await GameService.getGame(sessionId, gameId);
+  if (!current) {
+    return {
+      errorResponse: NextResponse.json(
+        { error: 'Game not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const sets = updates.sets !== undefined ? updates.sets : current.sets;
+  // The stored scores of a match being turned back into a game are its totals - they're cleared
+  const keepScores = !(current.sets && updates.sets !== undefined && updates.sets.length === 0);
+  const result = resolveGameResult(rule, {
+    winningTeam: updates.winningTeam ?? null,
+    sets,
+    teamAScore: updates.teamAScore !== undefined ? updates.teamAScore : keepScores ? current.teamAScore : undefined,
+    teamBScore: updates.teamBScore !== undefined ? updates.teamBScore : keepScores ? current.teamBScore : undefined,
+  });
+  if ('error' in result) {
+    return {
+      errorResponse: NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const scoresChanged = updates.teamAScore !== undefined || updates.teamBScore !== undefined || updates.sets !== undefined;
+  const dropsRallies = current.rallies && updates.rallies === undefined && scoresChanged;
+  // Nothing left to decide the winner (like a match turned back into a game without scores) - it stays
+  return {
+    updates: {
+      ...updates,
+      ...result,
+      winningTeam: result.winningTeam ?? current.winningTeam,
+      ...(dropsRallies ? { rallies: [] } : {}),
+    },
+  };
+}
+
+// PUT /api/sessions/[id]/games/[gameId] - Update a game (?expectedUpdatedAt=... rejects edits to a stale version)
+// Changing a recorded result needs the group's admin PIN (X-Group-Admin-Pin header)
+// New scores are checked against the session's scoring rule (400 if they can't happen)
+// Tournament games keep the sides the bracket drew, and their results are fixed once a later round is played (409)
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; gameId: string }> }
@@ -11,7 +183,27 @@ export async function PUT(
     const { id: sessionId, gameId } = await params;
     const updates: Partial<Game> = await request.json();
 
-    const updatedGame = await GameService.updateGame(sessionId, gameId, updates);
+    const accessError = await checkGameAdmin(request, sessionId, gameId, true);
+    if (accessError) {
+      return accessError;
+    }
+
+    const versionError = await checkGameVersion(request, sessionId, gameId);
+    if (versionError) {
+      return versionError;
+    }
+
+    const checked = await checkGameResult(sessionId, gameId, updates);
+    if ('errorResponse' in checked) {
+      return checked.errorResponse;
+    }
+
+    const tournamentError = await checkTournamentGame(sessionId, gameId, checked.updates);
+    if (tournamentError) {
+      return tournamentError;
+    }
+
+    const updatedGame = await withAuditActor(request, () => GameService.updateGame(sessionId, gameId, checked.updates));
     return NextResponse.json(updatedGame);
   } catch (error) {
     console.error('[API] Error updating game:', error);
@@ -28,7 +220,8 @@ export async function PUT(
   }
 }
 
-// DELETE /api/sessions/[id]/games/[gameId] - Delete a game
+// DELETE /api/sessions/[id]/games/[gameId] - Delete a game (?expectedUpdatedAt=... as for PUT)
+// Needs the group's admin PIN; tournament games can't be deleted (409)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; gameId: string }> }
@@ -36,7 +229,22 @@ export async function DELETE(
   try {
     const { id: sessionId, gameId } = await params;
 
-    await GameService.deleteGame(sessionId, gameId);
+    const accessError = await checkGameAdmin(request, sessionId, gameId, false);
+    if (accessError) {
+      return accessError;
+    }
+
+    const versionError = await checkGameVersion(request, sessionId, gameId);
+    if (versionError) {
+      return versionError;
+    }
+
+    const tournamentError = await checkTournamentGame(sessionId, gameId, null);
+    if (tournamentError) {
+      return tournamentError;
+    }
+
+    await withAuditActor(request, () => GameService.deleteGame(sessionId, gameId));
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('[API] Error deleting game:', error);
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GameService } from '@/lib/services/gameService';
+import { SessionService } from '@/lib/services/sessionService';
 import { Game } from '@/types';
+import { withAuditActor } from '@/lib/audit';
+import { getScoringRule, resolveGameResult } from '@/lib/scoring';
+import { getRallyLogScores } from '@/lib/liveScoring';
 
 // GET /api/sessions/[id]/games - Get all games for a session
 export async function GET(
@@ -20,7 +24,14 @@ export async function GET(
   }
 }
 
+// Client-generated game IDs (games recorded offline) - safe to use in URLs and as a primary key
+const CLIENT_GAME_ID_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
 // POST /api/sessions/[id]/games - Add a new game
+// An optional client-generated gameId makes the request idempotent (offline replays)
+// Scores are checked against the session's scoring rule; the winner is taken from them if not given
+// A match sends its set scores (sets) and is stored with the points won across it
+// A game scored live sends its rally log (rallies), and its scores are taken from the log
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -30,8 +41,36 @@ export async function POST(
     const body = await request.json();
     const game: Omit<Game, 'id' | 'sessionId' | 'gameNumber'> = body.game;
     const gameNumber = body.gameNumber;
+    const gameId = body.gameId;
+
+    if (gameId !== undefined && (typeof gameId !== 'string' || !CLIENT_GAME_ID_PATTERN.test(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const rule = getScoringRule(await SessionService.getSessionScoringRule(sessionId));
+    const logged = game.rallies?.length ? getRallyLogScores(rule, game.rallies) : null;
+    if (logged && 'error' in logged) {
+      return NextResponse.json(
+        { error: logged.error },
+        { status: 400 }
+      );
+    }
 
-    const createdGame = await GameService.createGame(sessionId, game, gameNumber);
+    const scored = { ...game, ...logged };
+    const result = resolveGameResult(rule, scored);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const createdGame = await withAuditActor(request, () =>
+      GameService.createGame(sessionId, { ...scored, ...result }, gameNumber, gameId)
+    );
     return NextResponse.json(createdGame);
   } catch (error) {
     console.error('[API] Error creating game:', error);
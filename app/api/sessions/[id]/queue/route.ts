@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/lib/services/sessionService';
+import { CourtQueue } from '@/types';
+
+const MAX_COURTS = 10;
+
+/**
+ * Validate a court queue payload against the session's players
+ * Returns an error message, or null if the queue is usable
+ */
+function validateCourtQueue(queue: CourtQueue, sessionPlayerIds: Set<string>): string | null {
+  if (queue.rule !== 'winners_stay' && queue.rule !== 'losers_stay' && queue.rule !== 'everyone_off') {
+    return "Queue rule must be 'winners_stay', 'losers_stay' or 'everyone_off'";
+  }
+  if (!Number.isInteger(queue.courtCount) || queue.courtCount < 1 || queue.courtCount > MAX_COURTS) {
+    return `Court count must be a whole number between 1 and ${MAX_COURTS}`;
+  }
+  if (!Number.isInteger(queue.maxConsecutiveGames) || queue.maxConsecutiveGames < 0) {
+    return 'Max consecutive games must be a whole number (0 for no limit)';
+  }
+  if (!Array.isArray(queue.courts) || queue.courts.length !== queue.courtCount) {
+    return 'Queue must have one entry per court';
+  }
+  if (!Array.isArray(queue.waiting)) {
+    return 'Queue waiting list is required';
+  }
+
+  // Every player must belong to the session and appear at most once
+  const seen = new Set<string>();
+  const playerIds = [
+    ...queue.waiting.map((p) => p.playerId),
+    ...queue.courts.flatMap((court) => (court ? [...court.teamA, ...court.teamB] : [])),
+  ];
+  for (const playerId of playerIds) {
+    if (!sessionPlayerIds.has(playerId)) {
+      return 'Queue contains a player who is not in this session';
+    }
+    if (seen.has(playerId)) {
+      return 'A player can only be in the queue once';
+    }
+    seen.add(playerId);
+  }
+
+  return null;
+}
+
+// PUT /api/sessions/[id]/queue - Save the session's live court queue (null ends the queue)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const body = await request.json();
+    const queue = (body.queue ?? null) as CourtQueue | null;
+
+    const session = await SessionService.getSessionById(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (queue) {
+      const validationError = validateCourtQueue(queue, new Set(session.players.map((p) => p.id)));
+      if (validationError) {
+        return NextResponse.json(
+          { error: validationError },
+          { status: 400 }
+        );
+      }
+    }
+
+    await SessionService.updateCourtQueue(sessionId, queue);
+
+    return NextResponse.json({ success: true, queue });
+  } catch (error) {
+    console.error('[API] Error updating court queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to update court queue' },
+      { status: 500 }
+    );
+  }
+}
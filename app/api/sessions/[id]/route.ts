@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SessionService } from '@/lib/services/sessionService';
+import { validateSessionExpenses, validateCostSplit } from '@/lib/calculations';
+import { validateScoringRule } from '@/lib/scoring';
+import { validateCurrencySettings } from '@/lib/currency';
 import { Session } from '@/types';
+import { withAuditActor } from '@/lib/audit';
+import { requireGroupAdmin } from '@/lib/groupAccess';
 
 // Force dynamic rendering - never cache this route
 export const dynamic = 'force-dynamic';
@@ -33,6 +38,7 @@ export async function GET(
 }
 
 // PUT /api/sessions/[id] - Update a session (including players)
+// Group sessions need the group's admin PIN (and the new group's, when moving a session)
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -44,6 +50,18 @@ export async function PUT(
     
     // Get existing session to preserve groupId if not provided
     const existingSession = await SessionService.getSessionById(sessionId);
+
+    const groupIds = [existingSession?.groupId, sessionData?.groupId].filter(
+      (id, index, ids): id is string => !!id && ids.indexOf(id) === index
+    );
+    if (existingSession) {
+      for (const groupId of groupIds) {
+        const accessError = await requireGroupAdmin(request, groupId);
+        if (accessError) {
+          return accessError;
+        }
+      }
+    }
     
     // Parse date string back to Date object
     const session: Session = {
@@ -53,6 +71,8 @@ export async function PUT(
       // Preserve groupId from existing session if not provided in update
       groupId: sessionData.groupId || existingSession?.groupId || undefined,
       bettingEnabled: sessionData.bettingEnabled ?? true,
+      // Keep the scoring rule when an older client leaves it out
+      scoringRule: sessionData.scoringRule ?? existingSession?.scoringRule,
     };
 
     // Validate that session has players
@@ -73,8 +93,21 @@ export async function PUT(
       );
     }
 
+    // Validate currency, itemised expenses (payers and sharers must be session players), cost split and scoring rule
+    const expensesError =
+      (session.currencySettings ? validateCurrencySettings(session.currencySettings) : null) ||
+      validateSessionExpenses(session) ||
+      validateCostSplit(session) ||
+      validateScoringRule(session.scoringRule);
+    if (expensesError) {
+      return NextResponse.json(
+        { error: expensesError },
+        { status: 400 }
+      );
+    }
+
     // Update session (createSession uses upsert, so it will update if exists)
-    await SessionService.createSession(session);
+    await withAuditActor(request, () => SessionService.createSession(session));
     
     return NextResponse.json({ success: true, session });
   } catch (error) {
@@ -86,7 +119,7 @@ export async function PUT(
   }
 }
 
-// DELETE /api/sessions/[id] - Delete a session
+// DELETE /api/sessions/[id] - Delete a session and its games (admin PIN for group sessions)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -100,9 +133,16 @@ export async function DELETE(
       // Session doesn't exist - return success (idempotent delete)
       return NextResponse.json({ success: true, message: 'Session already deleted' });
     }
+
+    if (existingSession.groupId) {
+      const accessError = await requireGroupAdmin(request, existingSession.groupId);
+      if (accessError) {
+        return accessError;
+      }
+    }
     
     // Delete the session
-    await SessionService.deleteSession(sessionId);
+    await withAuditActor(request, () => SessionService.deleteSession(sessionId));
     
     // Verify deletion succeeded by checking if session still exists
     const verifySession = await SessionService.getSessionById(sessionId);
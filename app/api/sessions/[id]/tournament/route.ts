@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/lib/services/sessionService';
+import { TournamentService } from '@/lib/services/tournamentService';
+import { requireGroupAdmin } from '@/lib/groupAccess';
+import { withAuditActor } from '@/lib/audit';
+import { validateTournamentInput } from '@/lib/tournament';
+import { TournamentInput } from '@/types';
+
+// POST /api/sessions/[id]/tournament - Seed and start a tournament on the session
+// Body: { format, entries? (player ID lists - pairs in doubles), poolCount?, advancePerPool? }
+// Entries are seeded by group rating and the first round's games are created; later rounds follow results
+// ?dryRun=true returns the seeded bracket without saving it
+// A tournament with no results yet is replaced; one under way can't be (409)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+    const input = (await request.json()) as TournamentInput;
+
+    const session = await SessionService.getSessionById(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const validationError = validateTournamentInput(input, session);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const started = await withAuditActor(request, () => TournamentService.startTournament(session, input, { dryRun }));
+    if (started.result === 'in_progress') {
+      return NextResponse.json(
+        { error: 'This session already has a tournament under way - end it first' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ tournament: started.tournament }, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error('[API] Error starting tournament:', error);
+    return NextResponse.json(
+      { error: 'Failed to start tournament' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sessions/[id]/tournament - End the session's tournament
+// Games not played yet are removed; played games stay as ordinary games
+// Needs the group's admin PIN once any tournament game has a result
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    const session = await SessionService.getSessionById(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (session.groupId && (await TournamentService.hasResults(session))) {
+      const accessError = await requireGroupAdmin(request, session.groupId);
+      if (accessError) {
+        return accessError;
+      }
+    }
+
+    const ended = await withAuditActor(request, () => TournamentService.endTournament(session));
+    if (!ended) {
+      return NextResponse.json(
+        { error: 'This session has no tournament' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API] Error ending tournament:', error);
+    return NextResponse.json(
+      { error: 'Failed to end tournament' },
+      { status: 500 }
+    );
+  }
+}
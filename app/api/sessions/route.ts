@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SessionService } from '@/lib/services/sessionService';
+import { validateSessionExpenses, validateCostSplit } from '@/lib/calculations';
+import { validateScoringRule } from '@/lib/scoring';
+import { validateCurrencySettings } from '@/lib/currency';
+import { GroupService } from '@/lib/services/groupService';
 import { GameService } from '@/lib/services/gameService';
 import { Session } from '@/types';
 import { Game } from '@/types';
+import { withAuditActor } from '@/lib/audit';
 
 // Force dynamic rendering - never cache this route
 export const dynamic = 'force-dynamic';
@@ -55,12 +60,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Group sessions are played in the group's currency unless the client chose one
+    if (session.groupId && !session.currencySettings) {
+      const group = await GroupService.getGroupById(session.groupId);
+      session.currencySettings = group?.currencySettings;
+    }
+
+    // Validate currency, itemised expenses (payers and sharers must be session players), cost split and scoring rule
+    const expensesError =
+      (session.currencySettings ? validateCurrencySettings(session.currencySettings) : null) ||
+      validateSessionExpenses(session) ||
+      validateCostSplit(session) ||
+      validateScoringRule(session.scoringRule);
+    if (expensesError) {
+      return NextResponse.json(
+        { error: expensesError },
+        { status: 400 }
+      );
+    }
+
     // Create session
-    await SessionService.createSession(session, roundRobinCount);
+    await withAuditActor(request, () => SessionService.createSession(session, roundRobinCount));
 
     // Create initial games if provided
     if (initialGames.length > 0) {
-      await GameService.createGames(session.id, initialGames);
+      await withAuditActor(request, () => GameService.createGames(session.id, initialGames));
     }
 
     return NextResponse.json({ success: true, session });
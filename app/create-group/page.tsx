@@ -4,15 +4,20 @@ import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { ApiClient } from "@/lib/api/client";
-import { Group } from "@/types";
+import { CurrencySettings, Group } from "@/types";
+import { DEFAULT_CURRENCY_SETTINGS } from "@/lib/currency";
+import { isValidAdminPin, saveAdminPin } from "@/lib/adminPins";
+import CurrencySelect from "@/components/CurrencySelect";
 
 export default function CreateGroup() {
   const router = useRouter();
   const [groupName, setGroupName] = useState("");
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+  const [adminPin, setAdminPin] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [createdGroup, setCreatedGroup] = useState<Group | null>(null);
-  const [copied, setCopied] = useState(false);
+  const [copied, setCopied] = useState<"shareable" | "spectator" | null>(null);
   const [migrating, setMigrating] = useState(false);
   const [migrationAvailable, setMigrationAvailable] = useState(false);
   const copiedTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -26,13 +31,14 @@ export default function CreateGroup() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!groupName.trim()) return;
+    if (!groupName.trim() || !isValidAdminPin(adminPin)) return;
 
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = await ApiClient.createGroup(groupName.trim());
+      const result = await ApiClient.createGroup(groupName.trim(), currencySettings, adminPin);
+      saveAdminPin(result.group.id, adminPin);
       setCreatedGroup(result.group);
     } catch (err: any) {
       // Check if it's a migration needed error
@@ -74,7 +80,8 @@ export default function CreateGroup() {
         // Retry creating the group
         const groupNameToCreate = groupName.trim();
         if (groupNameToCreate) {
-          const createResult = await ApiClient.createGroup(groupNameToCreate);
+          const createResult = await ApiClient.createGroup(groupNameToCreate, currencySettings, adminPin);
+          saveAdminPin(createResult.group.id, adminPin);
           setCreatedGroup(createResult.group);
         }
       } else {
@@ -95,15 +102,21 @@ export default function CreateGroup() {
     return `${baseUrl}/group/shareable/${createdGroup.shareableLink}`;
   };
 
-  const handleCopyLink = async () => {
+  const getSpectatorUrl = () => {
+    if (!createdGroup?.spectatorLink) return "";
+    const baseUrl = typeof window !== "undefined" ? window.location.origin : "";
+    return `${baseUrl}/group/spectate/${createdGroup.spectatorLink}`;
+  };
+
+  const handleCopyLink = async (link: "shareable" | "spectator") => {
     try {
-      await navigator.clipboard.writeText(getShareableUrl());
-      setCopied(true);
+      await navigator.clipboard.writeText(link === "shareable" ? getShareableUrl() : getSpectatorUrl());
+      setCopied(link);
       // Clear any existing timer
       if (copiedTimerRef.current) {
         clearTimeout(copiedTimerRef.current);
       }
-      copiedTimerRef.current = setTimeout(() => setCopied(false), 2000);
+      copiedTimerRef.current = setTimeout(() => setCopied(null), 2000);
     } catch {
       // Fallback for older browsers
     }
@@ -149,6 +162,40 @@ export default function CreateGroup() {
               />
             </div>
 
+            <div>
+              <label className="block text-base font-medium text-japandi-text-primary mb-3">
+                Currency
+              </label>
+              <CurrencySelect
+                value={currencySettings}
+                onChange={setCurrencySettings}
+                disabled={isLoading}
+                className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+              />
+              <p className="mt-2 text-sm text-japandi-text-muted">
+                Court costs, bets and settlements are shown in this currency
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-base font-medium text-japandi-text-primary mb-3">
+                Admin PIN
+              </label>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={adminPin}
+                onChange={(e) => setAdminPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+                placeholder="4-8 digits"
+                className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+                disabled={isLoading}
+              />
+              <p className="mt-2 text-sm text-japandi-text-muted">
+                Needed to delete the group, remove players or change recorded games. This device remembers it.
+              </p>
+            </div>
+
             {error && (
               <div className="bg-red-50 border border-red-200 rounded-card p-4 text-sm">
                 <div className="text-red-800 font-semibold mb-2">Error: {error}</div>
@@ -182,7 +229,7 @@ export default function CreateGroup() {
 
             <button
               type="submit"
-              disabled={!groupName.trim() || isLoading}
+              disabled={!groupName.trim() || !isValidAdminPin(adminPin) || isLoading}
               className="w-full px-6 py-4 bg-japandi-accent-primary hover:bg-japandi-accent-hover active:scale-95 disabled:bg-japandi-text-muted disabled:cursor-not-allowed disabled:active:scale-100 text-white font-semibold rounded-full transition-all shadow-button touch-manipulation"
             >
               {isLoading ? "Creating..." : "Create Group"}
@@ -227,14 +274,39 @@ export default function CreateGroup() {
                       className="flex-1 px-4 py-2 border border-japandi-border-light rounded-card bg-japandi-background-primary text-japandi-text-primary text-sm"
                     />
                     <button
-                      onClick={handleCopyLink}
+                      onClick={() => handleCopyLink("shareable")}
                       className="px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover active:scale-95 text-white text-sm font-semibold rounded-card transition-all"
                     >
-                      {copied ? "Copied!" : "Copy"}
+                      {copied === "shareable" ? "Copied!" : "Copy"}
                     </button>
                   </div>
                 </div>
 
+                {createdGroup.spectatorLink && (
+                  <div>
+                    <label className="block text-sm font-medium text-japandi-text-secondary mb-2">
+                      Spectator Link (read-only)
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={getSpectatorUrl()}
+                        readOnly
+                        className="flex-1 px-4 py-2 border border-japandi-border-light rounded-card bg-japandi-background-primary text-japandi-text-primary text-sm"
+                      />
+                      <button
+                        onClick={() => handleCopyLink("spectator")}
+                        className="px-4 py-2 bg-japandi-background-card hover:bg-japandi-background-primary active:scale-95 text-japandi-text-primary border border-japandi-border-light text-sm font-semibold rounded-card transition-all"
+                      >
+                        {copied === "spectator" ? "Copied!" : "Copy"}
+                      </button>
+                    </div>
+                    <p className="mt-2 text-xs text-japandi-text-muted">
+                      Shows the leaderboard and sessions without letting anyone record or change games.
+                    </p>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-japandi-text-secondary mb-2">
                     Short Code
@@ -1,12 +1,43 @@
 "use client";
 
-import { useState, useEffect, Suspense } from "react";
+import { useState, useEffect, useMemo, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useSession } from "@/contexts/SessionContext";
-import { Session, Player, Game, Group, GroupPlayer } from "@/types";
+import { Session, Player, Game, Group, GroupPlayer, SessionExpense, CostSplitMode, CurrencySettings, ScoringRuleName } from "@/types";
 import Link from "next/link";
-import { generateRoundRobinGames } from "@/lib/roundRobin";
+import {
+  MAX_ROUND_ROBIN_GAMES,
+  estimateRoundRobinWork,
+  generateRoundRobinGames,
+  generateBalancedGames,
+  getRoundRobinFairness,
+} from "@/lib/roundRobin";
+import { DEFAULT_SCORING_RULE, getMatchMaxSets, SCORING_RULE_NAMES, SCORING_RULES } from "@/lib/scoring";
 import { ApiClient } from "@/lib/api/client";
+import {
+  DEFAULT_CURRENCY_SETTINGS,
+  getAmountInputStep,
+  getCurrencySettings,
+  getCurrencySymbol,
+  getMinorUnits,
+  hasValidMinorUnits,
+} from "@/lib/currency";
+import CurrencySelect from "@/components/CurrencySelect";
+
+// The schedule preview waits for typing to pause. The scheduler runs on the page's main thread,
+// so neither the preview nor starting the session may weigh more team splits than this
+// (roughly half a second of work - see estimateRoundRobinWork)
+const PREVIEW_DELAY_MS = 300;
+const MAX_SCHEDULE_WORK = 400_000;
+
+// An extra cost entered on the form (drinks, equipment...) - amount kept as typed
+interface ExpenseDraft {
+  id: string;
+  description: string;
+  amount: string;
+  paidBy: string; // "" = organizer
+  excludedPlayerIds: string[]; // Players who don't share this cost
+}
 
 function CreateSessionContent() {
   const router = useRouter();
@@ -98,6 +129,7 @@ function CreateSessionContent() {
   );
   const [sessionName, setSessionName] = useState("");
   const [gameMode, setGameMode] = useState<"doubles" | "singles">("doubles");
+  const [scoringRule, setScoringRule] = useState<ScoringRuleName>(DEFAULT_SCORING_RULE);
   
   // Generate unique player IDs to prevent conflicts when creating multiple sessions
   // Using a function to generate IDs ensures each session gets unique player IDs
@@ -114,6 +146,20 @@ function CreateSessionContent() {
   const [selectedGroupId, setSelectedGroupId] = useState<string>(initialGroupId || "");
   const [groupPlayers, setGroupPlayers] = useState<GroupPlayer[]>([]);
   const [selectedGroupPlayerIds, setSelectedGroupPlayerIds] = useState<Set<string>>(new Set());
+  // Standalone sessions pick their own currency; group sessions use the group's
+  const [standaloneCurrency, setStandaloneCurrency] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+  const currencyGroup = selectedGroupId
+    ? availableGroups.find((g) => g.id === selectedGroupId) || (selectedGroup?.id === selectedGroupId ? selectedGroup : null)
+    : null;
+  const currencySettings = selectedGroupId ? getCurrencySettings(currencyGroup) : standaloneCurrency;
+  const currencySymbol = getCurrencySymbol(currencySettings);
+  const amountStep = getAmountInputStep(currencySettings.currency);
+  const amountDecimals = getMinorUnits(currencySettings.currency);
+  // Wider symbols such as "NT$" need more room in front of the amount
+  const amountPadding = currencySymbol.length > 1 ? "pl-12" : "pl-8";
+  const amountError = amountDecimals === 0
+    ? `Please enter a whole number of ${currencySettings.currency} (0 or greater)`
+    : `Please enter a valid amount (0 or greater, up to ${amountDecimals} decimal places)`;
   const [bettingEnabled, setBettingEnabled] = useState(false);
   
   // Guest prompt state
@@ -175,16 +221,22 @@ function CreateSessionContent() {
   const [courtCostValue, setCourtCostValue] = useState("");
   const [birdCostTotal, setBirdCostTotal] = useState("");
   const [betPerPlayer, setBetPerPlayer] = useState("");
+  // Who prepaid each cost ("" = organizer)
+  const [courtPaidBy, setCourtPaidBy] = useState("");
+  const [birdsPaidBy, setBirdsPaidBy] = useState("");
+  const [extraExpenses, setExtraExpenses] = useState<ExpenseDraft[]>([]);
+  const [costSplitMode, setCostSplitMode] = useState<CostSplitMode>("even");
   const [enableRoundRobin, setEnableRoundRobin] = useState(false);
   const [roundRobinGameCount, setRoundRobinGameCount] = useState("");
+  // "balanced" uses group ELO to even out matchups - only available for group sessions
+  const [roundRobinMode, setRoundRobinMode] = useState<"rotate" | "balanced">("rotate");
+  const [roundRobinCourts, setRoundRobinCourts] = useState("1");
 
   const addPlayer = () => {
-    if (players.length < 6) {
-      setPlayers([
-        ...players,
-        { id: generatePlayerId(), name: "" },
-      ]);
-    }
+    setPlayers([
+      ...players,
+      { id: generatePlayerId(), name: "" },
+    ]);
   };
 
   const removePlayer = (index: number) => {
@@ -197,6 +249,45 @@ function CreateSessionContent() {
     }
   };
 
+  const addExpense = () => {
+    setExtraExpenses([
+      ...extraExpenses,
+      { id: `expense-${Date.now()}`, description: "", amount: "", paidBy: "", excludedPlayerIds: [] },
+    ]);
+  };
+
+  const updateExpense = (id: string, updates: Partial<ExpenseDraft>) => {
+    setExtraExpenses(extraExpenses.map((e) => (e.id === id ? { ...e, ...updates } : e)));
+  };
+
+  const removeExpense = (id: string) => {
+    setExtraExpenses(extraExpenses.filter((e) => e.id !== id));
+  };
+
+  const toggleExpenseSharer = (expense: ExpenseDraft, playerId: string) => {
+    updateExpense(expense.id, {
+      excludedPlayerIds: expense.excludedPlayerIds.includes(playerId)
+        ? expense.excludedPlayerIds.filter((id) => id !== playerId)
+        : [...expense.excludedPlayerIds, playerId],
+    });
+  };
+
+  // "Paid by" picker shared by the court, bird and extra expense inputs
+  const renderPayerSelect = (value: string, onChange: (playerId: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-sm focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+    >
+      <option value="">Organizer</option>
+      {players.map((player, index) => (
+        <option key={player.id} value={player.id}>
+          {player.name.trim() || `Player ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  );
+
   const updatePlayerName = (index: number, name: string) => {
     const updated = [...players];
     updated[index].name = name;
@@ -299,36 +390,90 @@ function CreateSessionContent() {
     } else {
       newSelected.add(groupPlayer.id);
       // Add to players list
-      if (players.length < 6) {
-        const newPlayer: Player = {
-          id: generatePlayerId(),
-          name: groupPlayer.name,
-          groupPlayerId: groupPlayer.id,
-        };
-        // Replace empty player slot or add new
-        const emptyIndex = players.findIndex(p => p.name.trim() === "" && !p.groupPlayerId);
-        if (emptyIndex !== -1) {
-          const updated = [...players];
-          updated[emptyIndex] = newPlayer;
-          setPlayers(updated);
-        } else {
-          setPlayers([...players, newPlayer]);
-        }
+      const newPlayer: Player = {
+        id: generatePlayerId(),
+        name: groupPlayer.name,
+        groupPlayerId: groupPlayer.id,
+      };
+      // Replace empty player slot or add new
+      const emptyIndex = players.findIndex(p => p.name.trim() === "" && !p.groupPlayerId);
+      if (emptyIndex !== -1) {
+        const updated = [...players];
+        updated[emptyIndex] = newPlayer;
+        setPlayers(updated);
+      } else {
+        setPlayers([...players, newPlayer]);
       }
     }
     setSelectedGroupPlayerIds(newSelected);
   };
 
+  // Current ELO for each session player linked to a group player
+  const playerRatings = useMemo(() => {
+    const ratings = new Map<string, number>();
+    players.forEach((p) => {
+      const groupPlayer = p.groupPlayerId ? groupPlayers.find((gp) => gp.id === p.groupPlayerId) : undefined;
+      if (groupPlayer?.eloRating !== undefined) {
+        ratings.set(p.id, groupPlayer.eloRating);
+      }
+    });
+    return ratings;
+  }, [players, groupPlayers]);
+  const isBalancedMode = roundRobinMode === "balanced" && !!selectedGroupId;
+  const courtCount = Math.max(1, parseInt(roundRobinCourts) || 1);
+
   const minPlayersRequired = gameMode === "singles" ? 2 : 4;
   // Check that we have enough player slots (names will be assigned defaults if empty)
   const hasEnoughPlayers = players.length >= minPlayersRequired;
   // Organizer is valid if selected, or if we have enough players (we'll default to first player)
   const hasValidOrganizer = organizerId !== "" || hasEnoughPlayers;
-  const isValidCourtCost = courtCostValue === "" || (!isNaN(parseFloat(courtCostValue)) && parseFloat(courtCostValue) >= 0);
-  const isValidBirdCost = birdCostTotal === "" || (!isNaN(parseFloat(birdCostTotal)) && parseFloat(birdCostTotal) >= 0);
-  const isValidBet = betPerPlayer === "" || (!isNaN(parseFloat(betPerPlayer)) && parseFloat(betPerPlayer) >= 0);
+  // Amounts can't be finer than the currency's smallest unit (cents, or whole TWD)
+  const isValidExpenseAmount = (amount: string) =>
+    amount === "" ||
+    (!isNaN(parseFloat(amount)) && parseFloat(amount) >= 0 && hasValidMinorUnits(parseFloat(amount), currencySettings.currency));
+  const isValidCourtCost = isValidExpenseAmount(courtCostValue);
+  const isValidBirdCost = isValidExpenseAmount(birdCostTotal);
+  const isValidBet = isValidExpenseAmount(betPerPlayer);
+  const areExtraExpensesValid = extraExpenses.every(
+    (e) => isValidExpenseAmount(e.amount) && players.some((p) => !e.excludedPlayerIds.includes(p.id))
+  );
   const isValidRoundRobinCount = !enableRoundRobin || 
-    (roundRobinGameCount === "" || (!isNaN(parseInt(roundRobinGameCount)) && parseInt(roundRobinGameCount) > 0));
+    (roundRobinGameCount === "" ||
+      (!isNaN(parseInt(roundRobinGameCount)) && parseInt(roundRobinGameCount) > 0 && parseInt(roundRobinGameCount) <= MAX_ROUND_ROBIN_GAMES));
+  const isValidCourtCount = !enableRoundRobin ||
+    (!isNaN(parseInt(roundRobinCourts)) && parseInt(roundRobinCourts) > 0);
+  // The most games the scheduler can build for this many players within MAX_SCHEDULE_WORK
+  const gameWork = estimateRoundRobinWork(players.length, 1, gameMode, courtCount);
+  const maxSchedulableGames = gameWork > 0 ? Math.floor(MAX_SCHEDULE_WORK / gameWork) : Infinity;
+  const isScheduleWithinLimit = !enableRoundRobin ||
+    estimateRoundRobinWork(players.length, parseInt(roundRobinGameCount) || undefined, gameMode, courtCount) <= MAX_SCHEDULE_WORK;
+
+  // Preview the schedule so the organiser can see how fair it is before starting
+  // The schedule only depends on who is playing, not their names, and follows the counts once typing pauses
+  const playerIdsKey = players.map((p) => p.id).join(",");
+  const [previewCounts, setPreviewCounts] = useState({ games: roundRobinGameCount, courts: courtCount });
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewCounts({ games: roundRobinGameCount, courts: courtCount }), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [roundRobinGameCount, courtCount]);
+
+  const roundRobinPreview = useMemo(() => {
+    if (!enableRoundRobin || !hasEnoughPlayers) return null;
+    const previewPlayers = playerIdsKey.split(",").map((id) => ({ id, name: id }));
+    const maxGames = parseInt(previewCounts.games) > 0 ? parseInt(previewCounts.games) : undefined;
+    if (maxGames !== undefined && maxGames > MAX_ROUND_ROBIN_GAMES) return null;
+    if (estimateRoundRobinWork(previewPlayers.length, maxGames, gameMode, previewCounts.courts) > MAX_SCHEDULE_WORK) {
+      return { tooLarge: true as const };
+    }
+    const schedule = isBalancedMode
+      ? generateBalancedGames(previewPlayers, playerRatings, maxGames, gameMode, previewCounts.courts)
+      : generateRoundRobinGames(previewPlayers, maxGames, gameMode, previewCounts.courts);
+    return {
+      tooLarge: false as const,
+      gameCount: schedule.length,
+      fairness: getRoundRobinFairness(schedule, previewPlayers, gameMode),
+    };
+  }, [enableRoundRobin, hasEnoughPlayers, playerIdsKey, previewCounts, isBalancedMode, playerRatings, gameMode]);
 
   const canSubmit =
     hasEnoughPlayers &&
@@ -336,7 +481,10 @@ function CreateSessionContent() {
     isValidCourtCost &&
     isValidBirdCost &&
     isValidBet &&
-    isValidRoundRobinCount;
+    areExtraExpensesValid &&
+    isValidRoundRobinCount &&
+    isValidCourtCount &&
+    isScheduleWithinLimit;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -369,6 +517,32 @@ function CreateSessionContent() {
       ? parseFloat(betPerPlayer) || DEFAULT_BET_PER_PLAYER 
       : DEFAULT_BET_PER_PLAYER;
     
+    // Itemise every cost with who paid it so settlement can route money to the right people
+    const getPayerId = (playerId: string) =>
+      allPlayers.some((p) => p.id === playerId) ? playerId : finalOrganizerId;
+    const courtCostTotal = courtCostType === "per_person"
+      ? finalCourtCostValue * allPlayers.length
+      : finalCourtCostValue;
+    const expenses: SessionExpense[] = [];
+    if (courtCostTotal > 0) {
+      expenses.push({ id: "court", description: "Court", amount: courtCostTotal, paidBy: getPayerId(courtPaidBy) });
+    }
+    if (finalBirdCostTotal > 0) {
+      expenses.push({ id: "birds", description: "Birds/Shuttles", amount: finalBirdCostTotal, paidBy: getPayerId(birdsPaidBy) });
+    }
+    extraExpenses.forEach((expense, index) => {
+      const amount = parseFloat(expense.amount) || 0;
+      if (amount <= 0) return;
+      const sharedBy = allPlayers.filter((p) => !expense.excludedPlayerIds.includes(p.id)).map((p) => p.id);
+      expenses.push({
+        id: expense.id,
+        description: expense.description.trim() || `Expense ${index + 1}`,
+        amount,
+        paidBy: getPayerId(expense.paidBy),
+        sharedBy: sharedBy.length < allPlayers.length ? sharedBy : undefined,
+      });
+    });
+
     // Combine date and time for the session date
     const sessionDateTime = new Date(`${sessionDate}T${sessionTime}`);
     
@@ -392,6 +566,10 @@ function CreateSessionContent() {
       gameMode,
       groupId: finalGroupId || undefined,
       bettingEnabled,
+      expenses: expenses.length > 0 ? expenses : undefined,
+      costSplitMode,
+      currencySettings,
+      scoringRule,
     };
     
     // If round robin is enabled, generate games first
@@ -400,7 +578,9 @@ function CreateSessionContent() {
       const maxGames = roundRobinGameCount === "" 
         ? undefined 
         : (isNaN(parseInt(roundRobinGameCount)) ? undefined : parseInt(roundRobinGameCount));
-      const roundRobinGames = generateRoundRobinGames(allPlayers, maxGames, gameMode);
+      const roundRobinGames = isBalancedMode
+        ? generateBalancedGames(allPlayers, playerRatings, maxGames, gameMode, courtCount)
+        : generateRoundRobinGames(allPlayers, maxGames, gameMode, courtCount);
       if (roundRobinGames.length > 0) {
         roundRobinGamesToAdd = roundRobinGames.map((game) => ({
           teamA: game.teamA,
@@ -491,6 +671,24 @@ function CreateSessionContent() {
             </div>
           )}
 
+          {/* Currency - standalone sessions choose, group sessions use the group's */}
+          <div>
+            <label className="block text-base font-medium text-japandi-text-primary mb-3">
+              Currency
+            </label>
+            {selectedGroupId ? (
+              <p className="text-sm text-japandi-text-secondary">
+                {currencySettings.currency} ({currencySymbol}) - set by the group
+              </p>
+            ) : (
+              <CurrencySelect
+                value={standaloneCurrency}
+                onChange={setStandaloneCurrency}
+                className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+              />
+            )}
+          </div>
+
           {/* Session Name */}
           <div>
             <label className="block text-base font-medium text-japandi-text-primary mb-3">
@@ -562,6 +760,34 @@ function CreateSessionContent() {
             </div>
           </div>
 
+          {/* Scoring Rule - scores entered for this session's games are checked against it */}
+          <div>
+            <label className="block text-base font-medium text-japandi-text-primary mb-3">
+              Scoring
+            </label>
+            <div className="flex gap-2">
+              {SCORING_RULE_NAMES.map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setScoringRule(name)}
+                  className={`flex-1 px-3 py-2.5 rounded-full text-sm font-medium transition-all active:scale-95 touch-manipulation ${
+                    scoringRule === name
+                      ? "bg-japandi-accent-primary text-white shadow-button"
+                      : "bg-japandi-background-card text-japandi-text-primary border border-japandi-border-light hover:bg-japandi-background-primary"
+                  }`}
+                >
+                  {SCORING_RULES[name].shortLabel}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-sm text-japandi-text-muted">
+              Rally scoring to {SCORING_RULES[scoringRule].pointsToWin}, win by 2, capped at {SCORING_RULES[scoringRule].cap}
+              {" - matches are best of "}
+              {getMatchMaxSets(SCORING_RULES[scoringRule])}
+            </p>
+          </div>
+
           {/* Group Player Suggestions */}
           {selectedGroupId && groupPlayers.length > 0 && (
             <div>
@@ -594,17 +820,15 @@ function CreateSessionContent() {
           <div>
             <div className="flex items-center justify-between mb-3">
               <label className="block text-base font-medium text-japandi-text-primary">
-                Players ({gameMode === "singles" ? "2-6" : "4-6"} players)
+                Players (at least {gameMode === "singles" ? "2" : "4"})
               </label>
-              {players.length < 6 && (
-                <button
-                  type="button"
-                  onClick={addPlayer}
-                  className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover active:scale-95 transition-all touch-manipulation"
-                >
-                  + Add Player
-                </button>
-              )}
+              <button
+                type="button"
+                onClick={addPlayer}
+                className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover active:scale-95 transition-all touch-manipulation"
+              >
+                + Add Player
+              </button>
             </div>
             <div className="space-y-3">
               {players.map((player, index) => (
@@ -664,6 +888,9 @@ function CreateSessionContent() {
             <label className="block text-base font-medium text-japandi-text-primary mb-3">
               Organizer (who prepaid costs)
             </label>
+            <p className="-mt-2 mb-3 text-sm text-japandi-text-muted">
+              Pays any cost that isn&apos;t assigned to someone else below
+            </p>
             <select
               value={organizerId}
               onChange={(e) => setOrganizerId(e.target.value)}
@@ -716,25 +943,29 @@ function CreateSessionContent() {
             </div>
             <div className="relative">
               <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-japandi-text-secondary">
-                $
+                {currencySymbol}
               </span>
               <input
                 type="number"
-                step="0.01"
+                step={amountStep}
                 min="0"
                 value={courtCostValue}
                 onChange={(e) => setCourtCostValue(e.target.value)}
-                placeholder={courtCostType === "per_person" ? `${DEFAULT_COURT_COST_PER_PERSON.toFixed(2)} (default)` : `${DEFAULT_COURT_COST_TOTAL.toFixed(2)} (default)`}
-                className={`w-full pl-8 pr-4 py-3 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
+                placeholder={courtCostType === "per_person" ? `${DEFAULT_COURT_COST_PER_PERSON.toFixed(amountDecimals)} (default)` : `${DEFAULT_COURT_COST_TOTAL.toFixed(amountDecimals)} (default)`}
+                className={`w-full ${amountPadding} pr-4 py-3 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
                   !isValidCourtCost ? "border-red-300" : "border-japandi-border-light"
                 }`}
               />
             </div>
             {!isValidCourtCost && (
               <p className="mt-2 text-sm text-red-600">
-                Please enter a valid number (0 or greater)
+                {amountError}
               </p>
             )}
+            <div className="mt-3 flex items-center gap-2 text-sm text-japandi-text-secondary">
+              <span>Paid by</span>
+              {renderPayerSelect(courtPaidBy, setCourtPaidBy)}
+            </div>
           </div>
 
           {/* Bird Cost */}
@@ -744,23 +975,156 @@ function CreateSessionContent() {
             </label>
             <div className="relative">
               <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-japandi-text-secondary">
-                $
+                {currencySymbol}
               </span>
               <input
                 type="number"
-                step="0.01"
+                step={amountStep}
                 min="0"
                 value={birdCostTotal}
                 onChange={(e) => setBirdCostTotal(e.target.value)}
-                placeholder={`${DEFAULT_BIRD_COST.toFixed(2)} (default)`}
-                className={`w-full pl-8 pr-4 py-3 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
+                placeholder={`${DEFAULT_BIRD_COST.toFixed(amountDecimals)} (default)`}
+                className={`w-full ${amountPadding} pr-4 py-3 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
                   !isValidBirdCost ? "border-red-300" : "border-japandi-border-light"
                 }`}
               />
             </div>
             {!isValidBirdCost && (
               <p className="mt-2 text-sm text-red-600">
-                Please enter a valid number (0 or greater)
+                {amountError}
+              </p>
+            )}
+            <div className="mt-3 flex items-center gap-2 text-sm text-japandi-text-secondary">
+              <span>Paid by</span>
+              {renderPayerSelect(birdsPaidBy, setBirdsPaidBy)}
+            </div>
+          </div>
+
+          {/* Other Expenses */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <label className="block text-base font-medium text-japandi-text-primary">
+                Other Expenses
+              </label>
+              <button
+                type="button"
+                onClick={addExpense}
+                className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors"
+              >
+                + Add Expense
+              </button>
+            </div>
+            {extraExpenses.length === 0 ? (
+              <p className="text-sm text-japandi-text-muted">
+                Drinks, equipment or anything else someone paid for
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {extraExpenses.map((expense) => (
+                  <div
+                    key={expense.id}
+                    className="p-3 bg-japandi-background-card border border-japandi-border-light rounded-card space-y-3"
+                  >
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={expense.description}
+                        onChange={(e) => updateExpense(expense.id, { description: e.target.value })}
+                        placeholder="Description"
+                        className="flex-1 min-w-0 px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+                      />
+                      <div className="relative w-28">
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-japandi-text-secondary">
+                          {currencySymbol}
+                        </span>
+                        <input
+                          type="number"
+                          step={amountStep}
+                          min="0"
+                          value={expense.amount}
+                          onChange={(e) => updateExpense(expense.id, { amount: e.target.value })}
+                          placeholder={(0).toFixed(amountDecimals)}
+                          className={`w-full ${currencySymbol.length > 1 ? "pl-11" : "pl-7"} pr-2 py-2 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
+                            !isValidExpenseAmount(expense.amount) ? "border-red-300" : "border-japandi-border-light"
+                          }`}
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeExpense(expense.id)}
+                        className="px-2 text-japandi-text-muted hover:text-red-500 transition-colors"
+                        aria-label="Remove expense"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-japandi-text-secondary">
+                      <span>Paid by</span>
+                      {renderPayerSelect(expense.paidBy, (playerId) => updateExpense(expense.id, { paidBy: playerId }))}
+                    </div>
+                    <div>
+                      <span className="block text-xs text-japandi-text-muted mb-2">Split between</span>
+                      <div className="flex flex-wrap gap-2">
+                        {players.map((player, index) => {
+                          const isSharing = !expense.excludedPlayerIds.includes(player.id);
+                          return (
+                            <button
+                              key={player.id}
+                              type="button"
+                              onClick={() => toggleExpenseSharer(expense, player.id)}
+                              className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${
+                                isSharing
+                                  ? "bg-japandi-accent-primary text-white"
+                                  : "bg-japandi-background-primary text-japandi-text-muted border border-japandi-border-light"
+                              }`}
+                            >
+                              {player.name.trim() || `Player ${index + 1}`}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      {!players.some((p) => !expense.excludedPlayerIds.includes(p.id)) && (
+                        <p className="mt-2 text-sm text-red-600">
+                          At least one player must share this expense
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Cost Split */}
+          <div>
+            <label className="block text-base font-medium text-japandi-text-primary mb-3">
+              Split Costs
+            </label>
+            <div className="flex gap-2">
+              {([
+                ["even", "Evenly"],
+                ["attendance", "By attendance"],
+                ["games", "By games played"],
+              ] as [CostSplitMode, string][]).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setCostSplitMode(mode)}
+                  className={`flex-1 px-3 py-2.5 rounded-full text-sm font-medium transition-all active:scale-95 touch-manipulation ${
+                    costSplitMode === mode
+                      ? "bg-japandi-accent-primary text-white shadow-button"
+                      : "bg-japandi-background-card text-japandi-text-primary border border-japandi-border-light hover:bg-japandi-background-primary"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {costSplitMode !== "even" && (
+              <p className="mt-2 text-sm text-japandi-text-muted">
+                {costSplitMode === "attendance"
+                  ? "Set how much of the session each player attended on the summary page"
+                  : "Players pay in proportion to the games they played"}
               </p>
             )}
           </div>
@@ -793,23 +1157,23 @@ function CreateSessionContent() {
               </label>
               <div className="relative">
                 <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-japandi-text-secondary">
-                  $
+                  {currencySymbol}
                 </span>
                 <input
                   type="number"
-                  step="0.01"
+                  step={amountStep}
                   min="0"
                   value={betPerPlayer}
                   onChange={(e) => setBetPerPlayer(e.target.value)}
-                  placeholder={`${DEFAULT_BET_PER_PLAYER.toFixed(2)} (default)`}
-                  className={`w-full pl-8 pr-4 py-3 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
+                  placeholder={`${DEFAULT_BET_PER_PLAYER.toFixed(amountDecimals)} (default)`}
+                  className={`w-full ${amountPadding} pr-4 py-3 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
                     !isValidBet ? "border-red-300" : "border-japandi-border-light"
                   }`}
                 />
               </div>
               {!isValidBet && (
                 <p className="mt-2 text-sm text-red-600">
-                  Please enter a valid number (0 or greater)
+                  {amountError}
                 </p>
               )}
             </div>
@@ -836,12 +1200,42 @@ function CreateSessionContent() {
             
             {enableRoundRobin && (
               <div className="mt-4 ml-8">
+                {selectedGroupId && (
+                  <div className="mb-4">
+                    <div className="flex gap-2">
+                      {([
+                        ["rotate", "Rotate Partners"],
+                        ["balanced", "Balanced by ELO"],
+                      ] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => setRoundRobinMode(mode)}
+                          className={`flex-1 px-4 py-2 text-sm font-medium rounded-full border transition-all ${
+                            roundRobinMode === mode
+                              ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                              : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary"
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    {roundRobinMode === "balanced" && (
+                      <p className="mt-2 text-sm text-japandi-text-muted">
+                        Picks teams with the closest predicted win chances from current ELO, while still
+                        rotating partners and sit-outs. Guests count as 1500.
+                      </p>
+                    )}
+                  </div>
+                )}
                 <label className="block text-sm font-medium text-japandi-text-primary mb-2">
-                  Number of Games (leave empty for all possible games)
+                  Number of Games (leave empty for all possible games, up to {MAX_ROUND_ROBIN_GAMES})
                 </label>
                 <input
                   type="number"
                   min="1"
+                  max={MAX_ROUND_ROBIN_GAMES}
                   value={roundRobinGameCount}
                   onChange={(e) => setRoundRobinGameCount(e.target.value)}
                   placeholder="Auto"
@@ -849,18 +1243,63 @@ function CreateSessionContent() {
                     !isValidRoundRobinCount ? "border-red-300" : "border-japandi-border-light"
                   }`}
                 />
-                {hasEnoughPlayers && (
-                  <p className="mt-2 text-sm text-japandi-text-muted">
-                    {roundRobinGameCount 
-                      ? `Will generate up to ${parseInt(roundRobinGameCount) || 0} games`
-                      : `Will generate ${generateRoundRobinGames(players.map((p, i) => ({ ...p, name: p.name.trim() || `Player ${i + 1}` })), undefined, gameMode).length} games (all possible)`}
+                {!isValidRoundRobinCount && (
+                  <p className="mt-2 text-sm text-red-600">
+                    Please enter a number from 1 to {MAX_ROUND_ROBIN_GAMES}
                   </p>
                 )}
-                {!isValidRoundRobinCount && (
+
+                <label className="block text-sm font-medium text-japandi-text-primary mt-4 mb-2">
+                  Courts (games played at the same time)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={roundRobinCourts}
+                  onChange={(e) => setRoundRobinCourts(e.target.value)}
+                  className={`w-full px-4 py-3 border rounded-card bg-japandi-background-card text-japandi-text-primary focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all ${
+                    !isValidCourtCount ? "border-red-300" : "border-japandi-border-light"
+                  }`}
+                />
+                {!isValidCourtCount && (
                   <p className="mt-2 text-sm text-red-600">
                     Please enter a valid number (1 or greater)
                   </p>
                 )}
+
+                {!isScheduleWithinLimit && isValidRoundRobinCount && isValidCourtCount && (
+                  <p className="mt-3 text-sm text-red-600">
+                    {maxSchedulableGames > 0
+                      ? `Too many games to schedule for ${players.length} players - enter ${maxSchedulableGames} or fewer`
+                      : `Too many players to schedule a round robin - turn it off and add games as you play`}
+                  </p>
+                )}
+                {roundRobinPreview && !roundRobinPreview.tooLarge && isScheduleWithinLimit && isValidRoundRobinCount && isValidCourtCount && (
+                  <div className="mt-3 p-3 bg-japandi-background-card border border-japandi-border-light rounded-card text-sm text-japandi-text-muted space-y-1">
+                    <p className="text-japandi-text-primary font-medium">
+                      Will generate {roundRobinPreview.gameCount} games
+                      {roundRobinPreview.fairness.rounds !== roundRobinPreview.gameCount &&
+                        ` over ${roundRobinPreview.fairness.rounds} rounds`}
+                      {!roundRobinGameCount && " (all possible)"}
+                    </p>
+                    <p>
+                      Games per player:{" "}
+                      {roundRobinPreview.fairness.minGamesPerPlayer === roundRobinPreview.fairness.maxGamesPerPlayer
+                        ? roundRobinPreview.fairness.minGamesPerPlayer
+                        : `${roundRobinPreview.fairness.minGamesPerPlayer}-${roundRobinPreview.fairness.maxGamesPerPlayer}`}
+                      {roundRobinPreview.fairness.maxSitOutsInARow > 0 &&
+                        ` • Longest sit-out: ${roundRobinPreview.fairness.maxSitOutsInARow} round${roundRobinPreview.fairness.maxSitOutsInARow !== 1 ? "s" : ""}`}
+                    </p>
+                    {gameMode === "doubles" && (
+                      <p>
+                        Partner repeats: {roundRobinPreview.fairness.partnerRepeats}
+                        {roundRobinPreview.fairness.unplayedPartnerships > 0 &&
+                          ` • Pairs never partnered: ${roundRobinPreview.fairness.unplayedPartnerships}`}
+                      </p>
+                    )}
+                    <p>Most times facing the same opponent: {roundRobinPreview.fairness.maxTimesFacingSameOpponent}</p>
+                  </div>
+                )}
               </div>
             )}
           </div>
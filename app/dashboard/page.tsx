@@ -6,6 +6,8 @@ import { useEffect, useState, useRef } from "react";
 import { usePathname } from "next/navigation";
 import { ApiClient } from "@/lib/api/client";
 import { Group } from "@/types";
+import { getCurrencySettings } from "@/lib/currency";
+import { forgetAdminPin, getSavedAdminPin, saveAdminPin } from "@/lib/adminPins";
 
 type SessionSummary = {
   id: string;
@@ -219,6 +221,13 @@ export default function Dashboard() {
       return;
     }
 
+    // Groups with an admin PIN need it - asked for here unless this device has it saved
+    if (group?.hasAdminPin && !getSavedAdminPin(groupId)) {
+      const pin = prompt(`Enter the admin PIN for "${group.name}":`);
+      if (!pin) return;
+      saveAdminPin(groupId, pin);
+    }
+
     setIsDeletingGroup(prev => ({ ...prev, [groupId]: true }));
     
     // OPTIMISTIC UPDATE: Immediately remove from UI
@@ -258,7 +267,15 @@ export default function Dashboard() {
         console.warn('Background refresh after group delete failed');
       }
     } catch (error) {
-      alert('Failed to delete group. Please try again.');
+      const status = (error as { status?: number }).status;
+      if (status === 401 || status === 403) {
+        forgetAdminPin(groupId);
+        alert('Incorrect admin PIN. The group was not deleted.');
+      } else if (status === 429) {
+        alert(error instanceof Error ? error.message : 'Too many incorrect PINs. Please try again later.');
+      } else {
+        alert('Failed to delete group. Please try again.');
+      }
       // Reload data to restore state
       handleRefresh();
     } finally {
@@ -291,7 +308,7 @@ export default function Dashboard() {
     
     try {
       // Delete from API and verify response
-      const result = await ApiClient.deleteSession(sessionId);
+      const result = await ApiClient.deleteSession(sessionId, deletedSession?.groupId);
       if (!result.success) {
         throw new Error('Deletion failed: API returned unsuccessful response');
       }
@@ -451,7 +468,7 @@ export default function Dashboard() {
                     </div>
                   </div>
                   <div className="text-sm text-japandi-text-muted">
-                    Share link: {group.shareableLink}
+                    Share link: {group.shareableLink} • {getCurrencySettings(group).currency}
                   </div>
                 </Link>
                 {adminMode && (
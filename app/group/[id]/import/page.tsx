@@ -0,0 +1,290 @@
+"use client";
+
+import { useParams, useRouter } from "next/navigation";
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { ApiClient } from "@/lib/api/client";
+import { getSavedAdminPin } from "@/lib/adminPins";
+import { Group, GroupImportFormat, GroupImportPreview } from "@/types";
+
+const cardClassName = "bg-japandi-background-card border border-japandi-border-light rounded-xl p-4 shadow-soft";
+
+const CSV_EXAMPLE = `date,team_a,team_b,score
+2024-03-05,Alice & Bob,Carol & Dan,21-15
+2024-03-05,Alice & Carol,Bob & Dan,18-21`;
+
+function formatSessionDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Import sessions and games into a group from a spreadsheet (CSV) or another group's JSON export
+ * The file is checked first; nothing is written until the preview is confirmed
+ */
+export default function GroupImportPage() {
+  const params = useParams();
+  const router = useRouter();
+  const groupId = params.id as string;
+
+  const [group, setGroup] = useState<Group | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [format, setFormat] = useState<GroupImportFormat>("csv");
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<GroupImportPreview | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [canImport, setCanImport] = useState(false);
+
+  useEffect(() => {
+    ApiClient.getGroup(groupId)
+      .then((loaded) => {
+        setGroup(loaded);
+        // Importing needs the admin PIN once the group has one
+        setCanImport(!loaded.hasAdminPin || getSavedAdminPin(groupId) !== null);
+      })
+      .catch(() => setNotFound(true));
+  }, [groupId]);
+
+  const resetPreview = () => {
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    resetPreview();
+    if (!file) return;
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+    setContent(await file.text());
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    resetPreview();
+    try {
+      const result = await ApiClient.previewGroupImport(groupId, format, content);
+      setPreview(result.preview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to check file");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    if (!confirm(`Import ${preview.sessions.length} session${preview.sessions.length !== 1 ? "s" : ""} and ${preview.gameCount} game${preview.gameCount !== 1 ? "s" : ""}?\n\nRatings and stats will be recalculated.`)) {
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      await ApiClient.importGroupData(groupId, format, content);
+      router.push(`/group/${groupId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import");
+      setIsImporting(false);
+    }
+  };
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-japandi-background-primary gap-4">
+        <p className="text-japandi-text-secondary">Group not found</p>
+        <Link href="/" className="text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors">
+          Back to Home
+        </Link>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-japandi-background-primary">
+        <p className="text-japandi-text-secondary">Loading group...</p>
+      </div>
+    );
+  }
+
+  const newPlayers = preview?.players.filter((p) => p.isNew) ?? [];
+  const matchedPlayers = preview?.players.filter((p) => !p.isNew) ?? [];
+
+  return (
+    <div className="min-h-screen bg-japandi-background-primary py-4 sm:py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 space-y-6">
+        <div>
+          <Link
+            href={`/group/${groupId}`}
+            className="text-japandi-accent-primary hover:text-japandi-accent-hover text-sm transition-colors"
+          >
+            ← Back to {group.name}
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold text-japandi-text-primary mt-4 sm:mt-6">
+            Import Games
+          </h1>
+          <p className="text-japandi-text-secondary mt-2">
+            Bring in history from a spreadsheet or another group&apos;s JSON export. Names are matched to the group&apos;s players; anyone new is added.
+          </p>
+        </div>
+
+        <div className={`${cardClassName} space-y-4`}>
+          <div className="flex gap-2">
+            {(["csv", "json"] as GroupImportFormat[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setFormat(option);
+                  resetPreview();
+                }}
+                className={`px-3 py-1 text-sm font-medium rounded-full border transition-all ${
+                  format === option
+                    ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                    : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary hover:bg-japandi-background-primary"
+                }`}
+              >
+                {option === "csv" ? "CSV" : "JSON export"}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              className="block w-full text-sm text-japandi-text-secondary"
+            />
+            {fileName && <p className="text-xs text-japandi-text-muted mt-1">{fileName}</p>}
+          </div>
+
+          <textarea
+            value={content}
+            onChange={(e) => {
+              setContent(e.target.value);
+              setFileName(null);
+              resetPreview();
+            }}
+            rows={8}
+            placeholder={format === "csv" ? CSV_EXAMPLE : "Paste a group export (.json)"}
+            className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary font-mono text-xs focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+          />
+
+          {format === "csv" && (
+            <p className="text-xs text-japandi-text-muted">
+              One game per row with columns <code>date</code>, <code>team_a</code>, <code>team_b</code> and <code>score</code> (like 21-15).
+              Separate partners with &amp;. Add a <code>session</code> column to split a day into more than one session.
+            </p>
+          )}
+
+          <button
+            onClick={handleCheck}
+            disabled={!content.trim() || isChecking || isImporting}
+            className="w-full px-4 py-2 bg-japandi-background-card hover:bg-japandi-background-primary disabled:opacity-50 text-japandi-text-primary font-semibold rounded-full border border-japandi-border-light transition-all"
+          >
+            {isChecking ? "Checking..." : "Check file"}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {preview && (
+          <div className="space-y-4">
+            <div className={cardClassName}>
+              <h2 className="text-lg font-semibold text-japandi-text-primary">Preview</h2>
+              <p className="text-sm text-japandi-text-secondary mt-1">
+                {preview.sessions.length} session{preview.sessions.length !== 1 ? "s" : ""} • {preview.gameCount} game{preview.gameCount !== 1 ? "s" : ""} •{" "}
+                {newPlayers.length} new player{newPlayers.length !== 1 ? "s" : ""} • {matchedPlayers.length} matched
+                {preview.guestCount > 0 && ` • ${preview.guestCount} guest appearance${preview.guestCount !== 1 ? "s" : ""}`}
+              </p>
+            </div>
+
+            {preview.errors.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-card p-4 text-sm">
+                <div className="text-red-800 font-semibold mb-2">Fix these before importing</div>
+                <ul className="text-red-700 space-y-1">
+                  {preview.errors.map((issue, index) => (
+                    <li key={index}>{issue.row ? `Row ${issue.row}: ` : ""}{issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-card p-4 text-sm">
+                <ul className="text-yellow-800 space-y-1">
+                  {preview.warnings.map((issue, index) => (
+                    <li key={index}>{issue.row ? `Row ${issue.row}: ` : ""}{issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview.players.length > 0 && (
+              <div className={cardClassName}>
+                <h3 className="font-semibold text-japandi-text-primary mb-2">Players</h3>
+                <div className="divide-y divide-japandi-border-light">
+                  {preview.players.map((player) => (
+                    <div key={player.name} className="flex items-center justify-between py-2 first:pt-0 last:pb-0 text-sm">
+                      <span className="text-japandi-text-primary">{player.name}</span>
+                      <span className="flex items-center gap-2 text-japandi-text-muted">
+                        {player.gameCount} game{player.gameCount !== 1 ? "s" : ""}
+                        <span
+                          className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                            player.isNew ? "bg-green-100 text-green-700" : "bg-japandi-background-primary text-japandi-text-muted"
+                          }`}
+                        >
+                          {player.isNew ? "New" : "Matched"}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview.sessions.length > 0 && (
+              <div className={cardClassName}>
+                <h3 className="font-semibold text-japandi-text-primary mb-2">Sessions</h3>
+                <div className="divide-y divide-japandi-border-light">
+                  {preview.sessions.map((session, index) => (
+                    <div key={index} className="flex items-center justify-between py-2 first:pt-0 last:pb-0 text-sm">
+                      <span className="text-japandi-text-primary">
+                        {formatSessionDate(session.date)}
+                        {session.name && <span className="text-japandi-text-muted"> • {session.name}</span>}
+                      </span>
+                      <span className="text-japandi-text-muted">
+                        {session.gameMode === "singles" ? "Singles" : "Doubles"} • {session.playerCount} players • {session.gameCount} game{session.gameCount !== 1 ? "s" : ""}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {!canImport && (
+              <p className="text-sm text-japandi-text-muted">
+                This group has an admin PIN - unlock it on the group page to import.
+              </p>
+            )}
+
+            <button
+              onClick={handleImport}
+              disabled={!preview.canImport || !canImport || isImporting}
+              className="w-full px-6 py-4 bg-japandi-accent-primary hover:bg-japandi-accent-hover active:scale-95 disabled:bg-japandi-text-muted disabled:cursor-not-allowed disabled:active:scale-100 text-white font-semibold rounded-full transition-all shadow-button touch-manipulation"
+            >
+              {isImporting ? "Importing..." : "Import"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,18 +3,32 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useRouter, usePathname } from "next/navigation";
 import Link from "next/link";
-import { Group, GroupPlayer, Session, LeaderboardEntry, PlayerDetailedStats, PairingStats, PairingDetailedStats } from "@/types";
+import { Group, GroupPlayer, GroupRatingSettings, CurrencySettings, Session, LeaderboardEntry, PlayerDetailedStats, PairingStats, PairingDetailedStats, EloHistoryEntry, Season, SeasonInput } from "@/types";
 import { ApiClient } from "@/lib/api/client";
 import { formatPercentage } from "@/lib/calculations";
 import { PlayerProfileSheet } from "@/components/PlayerProfileSheet";
 import { PairingProfileSheet } from "@/components/PairingProfileSheet";
+import { RatingSettingsCard } from "@/components/RatingSettingsCard";
+import { CurrencySettingsCard } from "@/components/CurrencySettingsCard";
+import { AdminAccessCard } from "@/components/AdminAccessCard";
+import { SeasonsCard } from "@/components/SeasonsCard";
+import SeasonPicker from "@/components/SeasonPicker";
+import GroupLedgerPanel from "@/components/GroupLedgerPanel";
+import GroupHistoryPanel from "@/components/GroupHistoryPanel";
 import { saveRecentGroup } from "@/lib/recentGroups";
+import { isSeasonActive } from "@/lib/seasons";
+import { forgetAdminPin, getSavedAdminPin, saveAdminPin } from "@/lib/adminPins";
+import { useAuth } from "@/contexts/AuthContext";
+
+// Wait after a live change before refetching, so a burst of games refreshes once
+const LIVE_REFRESH_DELAY_MS = 1000;
 
 export default function GroupPage() {
   const params = useParams();
   const router = useRouter();
   const pathname = usePathname();
   const groupId = params.id as string;
+  const { user } = useAuth();
 
   const [group, setGroup] = useState<Group | null>(null);
   const [players, setPlayers] = useState<GroupPlayer[]>([]);
@@ -63,11 +77,14 @@ export default function GroupPage() {
   const [actionError, setActionError] = useState<string | null>(null); // For non-fatal errors (remove player, etc)
   const [newPlayerName, setNewPlayerName] = useState("");
   const [isAddingPlayer, setIsAddingPlayer] = useState(false);
-  const [copied, setCopied] = useState(false);
-  const [activeTab, setActiveTab] = useState<"sessions" | "leaderboard" | "players" | "pairings">("sessions");
+  const [copied, setCopied] = useState<"shareable" | "spectator" | null>(null);
+  // Admin PIN saved on this device (null = locked)
+  const [adminPin, setAdminPin] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<"sessions" | "leaderboard" | "players" | "pairings" | "ledger" | "history">("sessions");
   
   // Player profile modal state
   const [selectedPlayerStats, setSelectedPlayerStats] = useState<PlayerDetailedStats | null>(null);
+  const [selectedPlayerEloHistory, setSelectedPlayerEloHistory] = useState<EloHistoryEntry[] | undefined>(undefined);
   const [isLoadingPlayerStats, setIsLoadingPlayerStats] = useState(false);
   
   // Pairing profile modal state
@@ -86,6 +103,11 @@ export default function GroupPage() {
   const [promotingGuest, setPromotingGuest] = useState<string | null>(null);
   const guestsLoadedRef = useRef<boolean>(false);
 
+  // Seasons - the leaderboard, pairings and overview show statsSeason ("" all time, "current", or a season ID)
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [statsSeason, setStatsSeason] = useState("");
+  const seasonsLoadedRef = useRef<boolean>(false);
+
   // Timer refs for cleanup (prevent memory leaks)
   const actionErrorTimerRef = useRef<NodeJS.Timeout | null>(null);
   const copiedTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -116,6 +138,10 @@ export default function GroupPage() {
     }
   }, [groupId]);
 
+  useEffect(() => {
+    setAdminPin(getSavedAdminPin(groupId));
+  }, [groupId]);
+
   // Lazy load players only when Players tab is clicked
   const loadPlayers = useCallback(async () => {
     if (playersLoadedRef.current) return;
@@ -140,7 +166,7 @@ export default function GroupPage() {
     leaderboardLoadedRef.current = true;
     setIsLoadingLeaderboard(true);
     try {
-      const fetchedLeaderboard = await ApiClient.getGroupLeaderboard(groupId);
+      const fetchedLeaderboard = await ApiClient.getGroupLeaderboard(groupId, { season: statsSeason });
       setLeaderboard(fetchedLeaderboard || []);
     } catch (err) {
       console.error('[GroupPage] Error fetching leaderboard:', err);
@@ -148,13 +174,18 @@ export default function GroupPage() {
     } finally {
       setIsLoadingLeaderboard(false);
     }
-  }, [groupId]);
+  }, [groupId, statsSeason]);
 
   // Load player detailed stats
   const loadPlayerStats = async (playerId: string) => {
     setIsLoadingPlayerStats(true);
     try {
-      const stats = await ApiClient.getPlayerDetailedStats(groupId, playerId);
+      // History is optional - the profile still opens if it fails to load
+      const [stats, eloHistory] = await Promise.all([
+        ApiClient.getPlayerDetailedStats(groupId, playerId),
+        ApiClient.getPlayerEloHistory(groupId, playerId).catch(() => undefined),
+      ]);
+      setSelectedPlayerEloHistory(eloHistory);
       setSelectedPlayerStats(stats);
     } catch (err) {
       console.error('[GroupPage] Error fetching player stats:', err);
@@ -170,7 +201,7 @@ export default function GroupPage() {
     pairingsLoadedRef.current = true;
     setIsLoadingPairings(true);
     try {
-      const fetchedPairings = await ApiClient.getPairingLeaderboard(groupId);
+      const fetchedPairings = await ApiClient.getPairingLeaderboard(groupId, { season: statsSeason });
       setPairings(fetchedPairings || []);
     } catch (err) {
       console.error('[GroupPage] Error fetching pairings:', err);
@@ -178,6 +209,20 @@ export default function GroupPage() {
     } finally {
       setIsLoadingPairings(false);
     }
+  }, [groupId, statsSeason]);
+
+  // Lazy load seasons with the leaderboard and pairings tabs (they drive the season picker)
+  const loadSeasons = useCallback(async () => {
+    if (seasonsLoadedRef.current) return;
+
+    seasonsLoadedRef.current = true;
+    try {
+      const fetchedSeasons = await ApiClient.getSeasons(groupId);
+      setSeasons(fetchedSeasons || []);
+    } catch (err) {
+      console.error('[GroupPage] Error fetching seasons:', err);
+      setSeasons([]);
+    }
   }, [groupId]);
 
   // Load pairing detailed stats
@@ -258,14 +303,14 @@ export default function GroupPage() {
     overviewStatsLoadedRef.current = true;
     setIsLoadingOverviewStats(true);
     try {
-      const fetchedStats = await ApiClient.getGroupOverviewStats(groupId);
+      const fetchedStats = await ApiClient.getGroupOverviewStats(groupId, { season: statsSeason });
       setGroupStats(fetchedStats);
     } catch (err) {
       console.error('[GroupPage] Error fetching overview stats:', err);
     } finally {
       setIsLoadingOverviewStats(false);
     }
-  }, [groupId]);
+  }, [groupId, statsSeason]);
 
   // Handle overview accordion toggle
   const handleOverviewToggle = useCallback(() => {
@@ -276,6 +321,55 @@ export default function GroupPage() {
     }
   }, [isStatsExpanded, loadOverviewStats]);
 
+  // Quietly refetch what's already loaded after games change in one of the group's sessions
+  const refreshLiveData = useCallback(async () => {
+    const refreshes: Promise<void>[] = [
+      ApiClient.getGroupSessions(groupId).then((fetchedSessions) => setSessions(fetchedSessions || [])),
+    ];
+    if (leaderboardLoadedRef.current) {
+      refreshes.push(ApiClient.getGroupLeaderboard(groupId, { season: statsSeason }).then((fetched) => setLeaderboard(fetched || [])));
+    }
+    if (pairingsLoadedRef.current) {
+      refreshes.push(ApiClient.getPairingLeaderboard(groupId, { season: statsSeason }).then((fetched) => setPairings(fetched || [])));
+    }
+    if (playersLoadedRef.current) {
+      refreshes.push(ApiClient.getGroupPlayers(groupId).then((fetched) => setPlayers(fetched || [])));
+    }
+    if (overviewStatsLoadedRef.current) {
+      refreshes.push(ApiClient.getGroupOverviewStats(groupId, { season: statsSeason }).then((fetched) => setGroupStats(fetched)));
+    }
+
+    const results = await Promise.allSettled(refreshes);
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        console.error('[GroupPage] Error refreshing live data:', result.reason);
+      }
+    });
+  }, [groupId, statsSeason]);
+
+  // Live updates: the group stream sends a new version whenever a session or game changes
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    let lastVersion: string | null = null;
+    let refreshTimer: NodeJS.Timeout | null = null;
+    const unsubscribe = ApiClient.subscribeToGroup(groupId, (event) => {
+      const previousVersion = lastVersion;
+      lastVersion = event.version;
+      // The first version only sets the baseline - the page just loaded
+      if (previousVersion === null || previousVersion === event.version) return;
+
+      // Several courts often finish together - refresh once they settle
+      if (refreshTimer) clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(refreshLiveData, LIVE_REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [groupId, refreshLiveData]);
+
   // Single effect to load data on mount and when groupId changes
   useEffect(() => {
     let refreshTimer: NodeJS.Timeout | null = null;
@@ -311,10 +405,12 @@ export default function GroupPage() {
       loadRecentGuests(); // Also load guests on players tab
     } else if (activeTab === 'leaderboard') {
       loadLeaderboard();
+      loadSeasons();
     } else if (activeTab === 'pairings') {
       loadPairings();
+      loadSeasons();
     }
-  }, [activeTab, loadPlayers, loadLeaderboard, loadPairings, loadRecentGuests]);
+  }, [activeTab, loadPlayers, loadLeaderboard, loadPairings, loadRecentGuests, loadSeasons]);
 
   // Cleanup all timers and heavy state on unmount to prevent memory leaks
   useEffect(() => {
@@ -332,6 +428,7 @@ export default function GroupPage() {
       setPlayers([]);
       setSessions([]);
       setSelectedPlayerStats(null);
+      setSelectedPlayerEloHistory(undefined);
       setSelectedPairingStats(null);
       setRecentGuests([]);
       
@@ -341,6 +438,7 @@ export default function GroupPage() {
       pairingsLoadedRef.current = false;
       overviewStatsLoadedRef.current = false;
       guestsLoadedRef.current = false;
+      seasonsLoadedRef.current = false;
     };
   }, []);
 
@@ -427,11 +525,118 @@ export default function GroupPage() {
     }
   };
 
+  // Signed-in users claim the player that is them, so their stats show on their dashboard
+  const handleClaimPlayer = async (playerId: string, claim: boolean) => {
+    if (!user) return;
+    try {
+      setActionError(null);
+      if (actionErrorTimerRef.current) {
+        clearTimeout(actionErrorTimerRef.current);
+        actionErrorTimerRef.current = null;
+      }
+      if (claim) {
+        await ApiClient.claimGroupPlayer(groupId, playerId);
+      } else {
+        await ApiClient.releaseGroupPlayerClaim(groupId, playerId);
+      }
+      setPlayers((prev) =>
+        prev.map((p) => (p.id === playerId ? { ...p, userId: claim ? user.id : undefined } : p))
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to update claim";
+      setActionError(message);
+      actionErrorTimerRef.current = setTimeout(() => setActionError(null), 5000);
+    }
+  };
+
   const handleRefreshLeaderboard = () => {
     leaderboardLoadedRef.current = false;
     loadLeaderboard();
   };
 
+  // Saving settings recalculates every rating server-side, so reload anything showing ELO
+  const handleSaveRatingSettings = async (ratingSettings: GroupRatingSettings) => {
+    const result = await ApiClient.updateGroupRatingSettings(groupId, ratingSettings);
+    setGroup(result.group);
+    playersLoadedRef.current = false;
+    leaderboardLoadedRef.current = false;
+    loadLeaderboard();
+  };
+
+  // Switching season refetches the leaderboard and pairings (the tab effect reloads whichever is open)
+  const handleStatsSeasonChange = (season: string) => {
+    setStatsSeason(season);
+    leaderboardLoadedRef.current = false;
+    pairingsLoadedRef.current = false;
+    overviewStatsLoadedRef.current = false;
+    setGroupStats(null);
+    setIsStatsExpanded(false);
+  };
+
+  // After a season changes, reload the list and whatever window is showing
+  // (a deleted season, or "this season" once none is running, falls back to all time)
+  const reloadSeasons = async () => {
+    const fetchedSeasons = await ApiClient.getSeasons(groupId);
+    setSeasons(fetchedSeasons);
+    const stillShown =
+      statsSeason === "" ||
+      (statsSeason === "current" ? fetchedSeasons.some((season) => isSeasonActive(season)) : fetchedSeasons.some((season) => season.id === statsSeason));
+    handleStatsSeasonChange(stillShown ? statsSeason : "");
+  };
+
+  const handleCreateSeason = async (input: SeasonInput) => {
+    await ApiClient.createSeason(groupId, input);
+    await reloadSeasons();
+  };
+
+  const handleUpdateSeason = async (seasonId: string, input: SeasonInput) => {
+    await ApiClient.updateSeason(groupId, seasonId, input);
+    await reloadSeasons();
+  };
+
+  const handleDeleteSeason = async (seasonId: string) => {
+    await ApiClient.deleteSeason(groupId, seasonId);
+    await reloadSeasons();
+  };
+
+  const handleArchiveSeason = async (seasonId: string) => {
+    await ApiClient.archiveSeason(groupId, seasonId);
+    await reloadSeasons();
+  };
+
+  const handleSaveCurrencySettings = async (currencySettings: CurrencySettings) => {
+    const result = await ApiClient.updateGroupCurrencySettings(groupId, currencySettings);
+    setGroup(result.group);
+  };
+
+  const handleUnlockAdmin = async (pin: string) => {
+    await ApiClient.checkAdminPin(groupId, pin);
+    saveAdminPin(groupId, pin);
+    setAdminPin(pin);
+  };
+
+  const handleSetAdminPin = async (pin: string) => {
+    const result = await ApiClient.setAdminPin(groupId, pin);
+    saveAdminPin(groupId, pin);
+    setAdminPin(pin);
+    setGroup(result.group);
+  };
+
+  // A revert can touch games, players or settings - reload the group and whatever is showing
+  const handleReverted = async () => {
+    try {
+      setGroup(await ApiClient.getGroup(groupId));
+    } catch (err) {
+      console.error('[GroupPage] Error reloading group after revert:', err);
+    }
+    await refreshLiveData();
+  };
+
+  const handleLockAdmin = () => {
+    forgetAdminPin(groupId);
+    setAdminPin(null);
+  };
+
   const handleRefreshPairings = () => {
     pairingsLoadedRef.current = false;
     loadPairings();
@@ -443,15 +648,21 @@ export default function GroupPage() {
     return `${baseUrl}/group/shareable/${group.shareableLink}`;
   };
 
-  const handleCopyLink = async () => {
+  const getSpectatorUrl = () => {
+    if (!group?.spectatorLink) return "";
+    const baseUrl = typeof window !== "undefined" ? window.location.origin : "";
+    return `${baseUrl}/group/spectate/${group.spectatorLink}`;
+  };
+
+  const handleCopyLink = async (link: "shareable" | "spectator") => {
     try {
-      await navigator.clipboard.writeText(getShareableUrl());
-      setCopied(true);
+      await navigator.clipboard.writeText(link === "shareable" ? getShareableUrl() : getSpectatorUrl());
+      setCopied(link);
       // Clear any existing timer
       if (copiedTimerRef.current) {
         clearTimeout(copiedTimerRef.current);
       }
-      copiedTimerRef.current = setTimeout(() => setCopied(false), 2000);
+      copiedTimerRef.current = setTimeout(() => setCopied(null), 2000);
     } catch {
       // Fallback
     }
@@ -592,6 +803,15 @@ export default function GroupPage() {
     );
   }
 
+  // Removing players needs the admin PIN once the group has one
+  const canManageGroup = !group.hasAdminPin || adminPin !== null;
+  // The overview follows the season picked on the leaderboard or pairings tab
+  const statsSeasonName =
+    (statsSeason === "current"
+      ? seasons.find((season) => isSeasonActive(season))
+      : seasons.find((season) => season.id === statsSeason))?.name ?? null;
+  const hasClaimedPlayer = !!user && players.some((p) => p.userId === user.id);
+
   return (
     <div className="min-h-screen bg-japandi-background-primary pb-24">
       {/* Header */}
@@ -614,12 +834,47 @@ export default function GroupPage() {
                   {group.shareableLink}
                 </code>
                 <button
-                  onClick={handleCopyLink}
+                  onClick={() => handleCopyLink("shareable")}
                   className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors"
                 >
-                  {copied ? "Copied!" : "Copy link"}
+                  {copied === "shareable" ? "Copied!" : "Copy link"}
                 </button>
               </div>
+              {group.spectatorLink && (
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-sm text-japandi-text-muted">Spectators (read-only):</span>
+                  <button
+                    onClick={() => handleCopyLink("spectator")}
+                    className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors"
+                  >
+                    {copied === "spectator" ? "Copied!" : "Copy link"}
+                  </button>
+                </div>
+              )}
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-sm text-japandi-text-muted">Download:</span>
+                <a
+                  href={ApiClient.getGroupExportUrl(groupId, "json")}
+                  download
+                  className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors"
+                >
+                  JSON
+                </a>
+                <a
+                  href={ApiClient.getGroupExportUrl(groupId, "csv")}
+                  download
+                  className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors"
+                >
+                  CSV (ZIP)
+                </a>
+                <span className="text-sm text-japandi-text-muted">•</span>
+                <Link
+                  href={`/group/${groupId}/import`}
+                  className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors"
+                >
+                  Import
+                </Link>
+              </div>
             </div>
           </div>
         </div>
@@ -627,10 +882,10 @@ export default function GroupPage() {
 
       {/* Tabs */}
       <div className="bg-japandi-background-card border-b border-japandi-border-light">
-        <div className="max-w-2xl mx-auto px-4 flex">
+        <div className="max-w-2xl mx-auto px-4 flex overflow-x-auto">
           <button
             onClick={() => setActiveTab("sessions")}
-            className={`py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+            className={`py-3 px-4 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
               activeTab === "sessions"
                 ? "border-japandi-accent-primary text-japandi-accent-primary"
                 : "border-transparent text-japandi-text-muted hover:text-japandi-text-primary"
@@ -640,7 +895,7 @@ export default function GroupPage() {
           </button>
           <button
             onClick={() => setActiveTab("leaderboard")}
-            className={`py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+            className={`py-3 px-4 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
               activeTab === "leaderboard"
                 ? "border-japandi-accent-primary text-japandi-accent-primary"
                 : "border-transparent text-japandi-text-muted hover:text-japandi-text-primary"
@@ -653,7 +908,7 @@ export default function GroupPage() {
               setActiveTab("players");
               loadRecentGuests(); // Load guests when players tab is clicked
             }}
-            className={`py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+            className={`py-3 px-4 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
               activeTab === "players"
                 ? "border-japandi-accent-primary text-japandi-accent-primary"
                 : "border-transparent text-japandi-text-muted hover:text-japandi-text-primary"
@@ -663,7 +918,7 @@ export default function GroupPage() {
           </button>
           <button
             onClick={() => setActiveTab("pairings")}
-            className={`py-3 px-4 text-sm font-medium border-b-2 transition-colors ${
+            className={`py-3 px-4 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
               activeTab === "pairings"
                 ? "border-japandi-accent-primary text-japandi-accent-primary"
                 : "border-transparent text-japandi-text-muted hover:text-japandi-text-primary"
@@ -671,6 +926,26 @@ export default function GroupPage() {
           >
             Pairings
           </button>
+          <button
+            onClick={() => setActiveTab("ledger")}
+            className={`py-3 px-4 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
+              activeTab === "ledger"
+                ? "border-japandi-accent-primary text-japandi-accent-primary"
+                : "border-transparent text-japandi-text-muted hover:text-japandi-text-primary"
+            }`}
+          >
+            Ledger
+          </button>
+          <button
+            onClick={() => setActiveTab("history")}
+            className={`py-3 px-4 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
+              activeTab === "history"
+                ? "border-japandi-accent-primary text-japandi-accent-primary"
+                : "border-transparent text-japandi-text-muted hover:text-japandi-text-primary"
+            }`}
+          >
+            History
+          </button>
         </div>
       </div>
 
@@ -687,7 +962,7 @@ export default function GroupPage() {
                   className="w-full p-4 text-left hover:bg-japandi-background-primary/50 transition-colors"
                 >
                   <div className="flex items-center justify-between">
-                    <h3 className="text-sm font-semibold text-japandi-text-primary">Group Overview</h3>
+                    <h3 className="text-sm font-semibold text-japandi-text-primary">Group Overview{statsSeasonName && ` • ${statsSeasonName}`}</h3>
                     <span className="text-japandi-accent-primary text-xs font-medium">
                       Tap to view →
                     </span>
@@ -702,7 +977,7 @@ export default function GroupPage() {
               {isLoadingOverviewStats && (
                 <div className="p-4">
                   <div className="flex items-center justify-between mb-3">
-                    <h3 className="text-sm font-semibold text-japandi-text-primary">Group Overview</h3>
+                    <h3 className="text-sm font-semibold text-japandi-text-primary">Group Overview{statsSeasonName && ` • ${statsSeasonName}`}</h3>
                     <span className="text-japandi-text-muted text-xs">Loading...</span>
                   </div>
                   <div className="grid grid-cols-3 gap-4">
@@ -725,7 +1000,7 @@ export default function GroupPage() {
                     className="w-full p-4 text-left hover:bg-japandi-background-primary/50 transition-colors"
                   >
                     <div className="flex items-center justify-between mb-3">
-                      <h3 className="text-sm font-semibold text-japandi-text-primary">Group Overview</h3>
+                      <h3 className="text-sm font-semibold text-japandi-text-primary">Group Overview{statsSeasonName && ` • ${statsSeasonName}`}</h3>
                       <span className="text-japandi-text-muted text-xs">
                         {isStatsExpanded ? '▲ Less' : '▼ More'}
                       </span>
@@ -1008,7 +1283,7 @@ export default function GroupPage() {
                 </>
               ) : groupStats && (groupStats.totalGames === 0 && groupStats.totalSessions === 0) ? (
                 <div className="p-4">
-                  <h3 className="text-sm font-semibold text-japandi-text-primary mb-3">Group Overview</h3>
+                  <h3 className="text-sm font-semibold text-japandi-text-primary mb-3">Group Overview{statsSeasonName && ` • ${statsSeasonName}`}</h3>
                   <div className="grid grid-cols-3 gap-4">
                     <div>
                       <div className="text-2xl font-bold text-japandi-text-muted">0</div>
@@ -1101,6 +1376,8 @@ export default function GroupPage() {
               </button>
             </div>
 
+            <SeasonPicker seasons={seasons} value={statsSeason} onChange={handleStatsSeasonChange} />
+
             {isLoadingLeaderboard ? (
               <div className="space-y-2">
                 {/* Skeleton rows that match actual leaderboard item height */}
@@ -1161,7 +1438,14 @@ export default function GroupPage() {
                           {renderTrend(entry.trend)}
                         </div>
                         <div className="text-sm text-japandi-text-muted">
-                          {entry.wins}-{entry.losses} • {formatPercentage(entry.winRate)}
+                          <span className="font-medium text-japandi-text-primary">{entry.eloRating}</span>
+                          {/* 95% confidence band (±2 RD) - Glicko-2 groups only */}
+                          {entry.ratingDeviation !== undefined && (
+                            <span title="95% confidence range - widens when a player hasn't played for a while">
+                              {" "}±{entry.ratingDeviation * 2}
+                            </span>
+                          )}
+                          {" • "}{entry.wins}-{entry.losses} • {formatPercentage(entry.winRate)}
                         </div>
                       </div>
                       
@@ -1213,6 +1497,22 @@ export default function GroupPage() {
             <p className="text-center text-xs text-japandi-text-muted pt-4">
               Tap a player to see detailed stats
             </p>
+
+            {group.ratingSettings && (
+              <RatingSettingsCard
+                settings={group.ratingSettings}
+                onSave={handleSaveRatingSettings}
+              />
+            )}
+
+            <SeasonsCard
+              seasons={seasons}
+              canManage={canManageGroup}
+              onCreate={handleCreateSeason}
+              onUpdate={handleUpdateSeason}
+              onDelete={handleDeleteSeason}
+              onArchive={handleArchiveSeason}
+            />
           </div>
         )}
 
@@ -1292,12 +1592,34 @@ export default function GroupPage() {
                         <span className="text-xs text-japandi-text-muted">No games yet</span>
                       )}
                     </button>
-                    <button
-                      onClick={() => handleRemovePlayer(player.id)}
-                      className="text-red-500 hover:text-red-700 text-sm transition-colors ml-2"
-                    >
-                      Remove
-                    </button>
+                    {user && player.userId === user.id ? (
+                      <button
+                        onClick={() => handleClaimPlayer(player.id, false)}
+                        title="Tap to unclaim"
+                        className="text-xs px-2 py-0.5 bg-japandi-accent-primary text-white rounded-full ml-2"
+                      >
+                        You
+                      </button>
+                    ) : player.userId ? (
+                      <span className="text-xs px-2 py-0.5 bg-japandi-background-primary text-japandi-text-muted border border-japandi-border-light rounded-full ml-2">
+                        Claimed
+                      </span>
+                    ) : user && !hasClaimedPlayer ? (
+                      <button
+                        onClick={() => handleClaimPlayer(player.id, true)}
+                        className="text-japandi-accent-primary hover:text-japandi-accent-hover text-sm transition-colors ml-2"
+                      >
+                        This is me
+                      </button>
+                    ) : null}
+                    {canManageGroup && (
+                      <button
+                        onClick={() => handleRemovePlayer(player.id)}
+                        className="text-red-500 hover:text-red-700 text-sm transition-colors ml-2"
+                      >
+                        Remove
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -1374,6 +1696,14 @@ export default function GroupPage() {
                 )}
               </div>
             )}
+
+            <AdminAccessCard
+              hasAdminPin={!!group.hasAdminPin}
+              isUnlocked={adminPin !== null}
+              onUnlock={handleUnlockAdmin}
+              onSetPin={handleSetAdminPin}
+              onLock={handleLockAdmin}
+            />
           </div>
         )}
 
@@ -1396,6 +1726,8 @@ export default function GroupPage() {
               </button>
             </div>
 
+            <SeasonPicker seasons={seasons} value={statsSeason} onChange={handleStatsSeasonChange} />
+
             {isLoadingPairings ? (
               <div className="space-y-2">
                 {/* Skeleton rows that match actual pairing item height */}
@@ -1483,13 +1815,35 @@ export default function GroupPage() {
             </p>
           </div>
         )}
+
+        {/* Ledger Tab */}
+        {activeTab === "ledger" && (
+          <div className="space-y-4">
+            <GroupLedgerPanel groupId={groupId} currencySettings={group.currencySettings} />
+            {group.currencySettings && (
+              <CurrencySettingsCard
+                settings={group.currencySettings}
+                onSave={handleSaveCurrencySettings}
+              />
+            )}
+          </div>
+        )}
+
+        {/* History Tab */}
+        {activeTab === "history" && (
+          <GroupHistoryPanel groupId={groupId} canRevert={canManageGroup} onReverted={handleReverted} />
+        )}
       </div>
 
       {/* Player Profile Sheet */}
       {selectedPlayerStats && (
         <PlayerProfileSheet
           stats={selectedPlayerStats}
-          onClose={() => setSelectedPlayerStats(null)}
+          eloHistory={selectedPlayerEloHistory}
+          onClose={() => {
+            setSelectedPlayerStats(null);
+            setSelectedPlayerEloHistory(undefined);
+          }}
         />
       )}
 
@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { ApiClient } from "@/lib/api/client";
+import { formatPercentage } from "@/lib/calculations";
+import { GroupSpectatorView } from "@/types";
+
+// The view has no live stream (that needs the group ID), so it re-checks every so often
+const REFRESH_INTERVAL_MS = 30_000;
+
+/**
+ * Read-only group page for the spectator link
+ * Shows the leaderboard and recent sessions; nothing here can record or change games
+ */
+export default function SpectatorPage() {
+  const params = useParams();
+  const link = params.link as string;
+
+  const [view, setView] = useState<GroupSpectatorView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadView = async () => {
+      try {
+        const fetchedView = await ApiClient.getGroupBySpectatorLink(link);
+        if (cancelled) return;
+        setView(fetchedView);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        // Keep showing the last copy if a refresh fails
+        setError((prev) => prev ?? "Group not found or link is invalid.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadView();
+    const timer = window.setInterval(loadView, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [link]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-japandi-background-primary flex items-center justify-center">
+        <div className="text-japandi-text-secondary">Loading group...</div>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen bg-japandi-background-primary py-8">
+        <div className="max-w-2xl mx-auto px-4 text-center">
+          <h1 className="text-2xl font-bold text-japandi-text-primary mb-4">Group Not Found</h1>
+          <p className="text-japandi-text-secondary mb-6">{error || "This group does not exist."}</p>
+          <Link
+            href="/"
+            className="inline-block px-6 py-3 bg-japandi-accent-primary hover:bg-japandi-accent-hover text-white font-semibold rounded-full transition-all"
+          >
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-japandi-background-primary pb-12">
+      {/* Header */}
+      <div className="bg-japandi-background-card border-b border-japandi-border-light py-4 sm:py-6 px-4">
+        <div className="max-w-2xl mx-auto">
+          <h1 className="text-2xl sm:text-3xl font-bold text-japandi-text-primary">{view.name}</h1>
+          <span className="inline-block mt-2 text-xs px-2 py-0.5 bg-japandi-background-primary text-japandi-text-muted border border-japandi-border-light rounded-full">
+            Spectator view (read-only)
+          </span>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto px-4 py-6 space-y-8">
+        {/* Leaderboard */}
+        <div>
+          <h2 className="text-lg font-semibold text-japandi-text-primary mb-3">Leaderboard</h2>
+          {view.leaderboard.length === 0 ? (
+            <div className="text-center py-8 text-japandi-text-muted">No games played yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {view.leaderboard.map((entry, index) => (
+                <div
+                  key={entry.groupPlayerId}
+                  className="bg-japandi-background-card border border-japandi-border-light rounded-xl p-4 shadow-soft"
+                >
+                  <div className="flex items-center gap-4">
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0 ${
+                      index === 0 ? 'bg-yellow-100 text-yellow-700' :
+                      index === 1 ? 'bg-gray-100 text-gray-600' :
+                      index === 2 ? 'bg-orange-100 text-orange-700' :
+                      'bg-japandi-background-primary text-japandi-text-muted'
+                    }`}>
+                      #{entry.rank}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-japandi-text-primary truncate">{entry.playerName}</div>
+                      <div className="text-sm text-japandi-text-muted">
+                        <span className="font-medium text-japandi-text-primary">{entry.eloRating}</span>
+                        {" • "}{entry.wins}-{entry.losses} • {formatPercentage(entry.winRate)}
+                      </div>
+                    </div>
+                    {entry.recentForm.length > 0 && (
+                      <div className="flex gap-1 flex-shrink-0">
+                        {entry.recentForm.slice(0, 5).map((result, i) => (
+                          <div
+                            key={i}
+                            className={`w-6 h-6 rounded text-xs font-bold flex items-center justify-center ${
+                              result === 'W' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                            }`}
+                          >
+                            {result}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Recent sessions */}
+        <div>
+          <h2 className="text-lg font-semibold text-japandi-text-primary mb-3">Recent Sessions</h2>
+          {view.recentSessions.length === 0 ? (
+            <div className="text-center py-8 text-japandi-text-muted">No sessions yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {view.recentSessions.map((session, index) => (
+                <div
+                  key={index}
+                  className="flex items-center justify-between bg-japandi-background-card border border-japandi-border-light rounded-card p-3"
+                >
+                  <div className="min-w-0">
+                    <div className="text-japandi-text-primary font-medium truncate">
+                      {session.name || "Session"}
+                    </div>
+                    <div className="text-xs text-japandi-text-muted">
+                      {new Date(session.date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                    </div>
+                  </div>
+                  <div className="text-sm text-japandi-text-muted flex-shrink-0 ml-3">
+                    {session.playerCount} players • {session.gameMode}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ApiClient } from "@/lib/api/client";
+import { formatPercentage } from "@/lib/calculations";
+import { useAuth } from "@/contexts/AuthContext";
+import { UserDashboard } from "@/types";
+
+/**
+ * Personal dashboard for a signed-in user
+ * Lists the groups they have claimed a player in, with their record added up across groups
+ */
+export default function MyDashboardPage() {
+  const router = useRouter();
+  const { user, isLoading: isAuthLoading, signOut } = useAuth();
+
+  const [dashboard, setDashboard] = useState<UserDashboard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (isAuthLoading) return;
+    if (!user) {
+      router.replace("/sign-in?next=/me");
+      return;
+    }
+
+    ApiClient.getMyDashboard()
+      .then(setDashboard)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load dashboard"))
+      .finally(() => setIsLoading(false));
+  }, [user, isAuthLoading, router]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.push("/");
+  };
+
+  if (isAuthLoading || isLoading) {
+    return (
+      <div className="min-h-screen bg-japandi-background-primary flex items-center justify-center">
+        <div className="text-japandi-text-secondary">Loading dashboard...</div>
+      </div>
+    );
+  }
+
+  if (!dashboard) {
+    return (
+      <div className="min-h-screen bg-japandi-background-primary py-8">
+        <div className="max-w-2xl mx-auto px-4 text-center">
+          <p className="text-japandi-text-secondary mb-6">{error || "Failed to load dashboard"}</p>
+          <Link
+            href="/"
+            className="inline-block px-6 py-3 bg-japandi-accent-primary hover:bg-japandi-accent-hover text-white font-semibold rounded-full transition-all"
+          >
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { totals } = dashboard;
+
+  return (
+    <div className="min-h-screen bg-japandi-background-primary pb-12">
+      {/* Header */}
+      <div className="bg-japandi-background-card border-b border-japandi-border-light py-4 sm:py-6 px-4">
+        <div className="max-w-2xl mx-auto flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <Link href="/" className="text-sm text-japandi-text-secondary hover:text-japandi-text-primary">
+              ← Home
+            </Link>
+            <h1 className="text-2xl sm:text-3xl font-bold text-japandi-text-primary mt-1">My Dashboard</h1>
+            <p className="text-sm text-japandi-text-muted truncate">{dashboard.user.email}</p>
+          </div>
+          <button
+            onClick={handleSignOut}
+            className="text-sm text-japandi-text-secondary hover:text-japandi-text-primary transition-colors flex-shrink-0"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto px-4 py-6 space-y-8">
+        {/* Totals across groups */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            { label: "Groups", value: totals.groups },
+            { label: "Games", value: totals.totalGames },
+            { label: "Record", value: `${totals.wins}-${totals.losses}` },
+            { label: "Win Rate", value: formatPercentage(totals.winRate) },
+          ].map((stat) => (
+            <div
+              key={stat.label}
+              className="bg-japandi-background-card border border-japandi-border-light rounded-card p-4 text-center shadow-soft"
+            >
+              <div className="text-xl font-bold text-japandi-text-primary">{stat.value}</div>
+              <div className="text-xs text-japandi-text-muted uppercase tracking-wide">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+        {totals.bestRating !== null && (
+          <p className="text-sm text-japandi-text-secondary -mt-4">
+            Best rating: <span className="font-medium text-japandi-text-primary">{totals.bestRating}</span>
+          </p>
+        )}
+
+        {/* My groups */}
+        <div>
+          <h2 className="text-lg font-semibold text-japandi-text-primary mb-3">My Groups</h2>
+          {dashboard.groups.length === 0 ? (
+            <div className="text-center py-8 text-japandi-text-muted">
+              You haven&apos;t claimed a player yet. Open a group and tap &quot;This is me&quot; next to your name on the Players tab.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {dashboard.groups.map((membership) => (
+                <Link
+                  key={membership.groupId}
+                  href={`/group/${membership.groupId}`}
+                  className="block bg-japandi-background-card hover:bg-japandi-background-primary border border-japandi-border-light rounded-xl p-4 shadow-soft transition-all"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="font-semibold text-japandi-text-primary truncate">{membership.groupName}</div>
+                      <div className="text-sm text-japandi-text-muted truncate">
+                        as {membership.player.name}
+                        {" • "}{membership.player.wins || 0}-{membership.player.losses || 0}
+                        {" • "}{formatPercentage(membership.winRate)}
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="font-medium text-japandi-text-primary">{membership.player.eloRating}</div>
+                      <div className="text-xs text-japandi-text-muted">
+                        {membership.rank !== null ? `#${membership.rank}` : "Unranked"}
+                      </div>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { loadRecentGroups, RecentGroup } from "@/lib/recentGroups";
+import { ApiClient } from "@/lib/api/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { UserGroupMembership } from "@/types";
 
 export default function Home() {
   const router = useRouter();
@@ -11,12 +14,25 @@ export default function Home() {
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [recentGroups, setRecentGroups] = useState<RecentGroup[]>([]);
+  const { user, isEnabled } = useAuth();
+  const [myGroups, setMyGroups] = useState<UserGroupMembership[]>([]);
 
   // Load recent groups from localStorage on mount
   useEffect(() => {
     setRecentGroups(loadRecentGroups());
   }, []);
 
+  // Signed in: list the groups this account has claimed a player in (any device)
+  useEffect(() => {
+    if (!user) {
+      setMyGroups([]);
+      return;
+    }
+    ApiClient.getMyDashboard()
+      .then((dashboard) => setMyGroups(dashboard.groups))
+      .catch((err) => console.error("Failed to load my groups:", err));
+  }, [user]);
+
   const handleJoinGroup = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -83,8 +99,38 @@ export default function Home() {
           </form>
         </div>
 
-        {/* Recent Groups */}
-        {recentGroups.length > 0 && (
+        {/* My Groups (signed in) */}
+        {myGroups.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-japandi-text-muted uppercase tracking-wide">
+                My Groups
+              </h3>
+              <Link href="/me" className="text-sm text-japandi-accent-primary hover:text-japandi-accent-hover">
+                My stats →
+              </Link>
+            </div>
+            <div className="space-y-2">
+              {myGroups.map((membership) => (
+                <button
+                  key={membership.groupId}
+                  onClick={() => router.push(`/group/${membership.groupId}`)}
+                  className="w-full flex items-center justify-between px-4 py-3 bg-japandi-background-card hover:bg-japandi-background-primary border border-japandi-border-light rounded-xl transition-all touch-manipulation"
+                >
+                  <span className="font-medium text-japandi-text-primary truncate">
+                    {membership.groupName}
+                  </span>
+                  <span className="text-xs text-japandi-text-muted ml-2 truncate">
+                    {membership.player.name}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Recent Groups (this device) */}
+        {myGroups.length === 0 && recentGroups.length > 0 && (
           <div className="space-y-2">
             <h3 className="text-sm font-medium text-japandi-text-muted uppercase tracking-wide">
               Recent Groups
@@ -130,6 +176,16 @@ export default function Home() {
             Quick Session (No Group)
           </Link>
         </div>
+
+        {/* Optional sign-in */}
+        {isEnabled && (
+          <Link
+            href={user ? "/me" : "/sign-in"}
+            className="inline-block text-sm text-japandi-text-secondary hover:text-japandi-text-primary transition-colors"
+          >
+            {user ? `Signed in as ${user.email}` : "Sign in to see your stats across groups"}
+          </Link>
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,164 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useSession } from "@/contexts/SessionContext";
+import TournamentSetup from "@/components/TournamentSetup";
+import TournamentBracket from "@/components/TournamentBracket";
+import { TOURNAMENT_FORMAT_LABELS } from "@/lib/tournament";
+
+export default function BracketPage() {
+  const params = useParams();
+  const { session, games, loadSession, endTournament, isLive } = useSession();
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isLoadingRef = useRef(false);
+  const copiedTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (copiedTimerRef.current) clearTimeout(copiedTimerRef.current);
+    };
+  }, []);
+
+  // Load session on mount - always fetches fresh from API, so a shared link shows the latest bracket
+  useEffect(() => {
+    const sessionId = params.id as string;
+    if (!sessionId) {
+      setNotFound(true);
+      setIsLoading(false);
+      return;
+    }
+    if (isLoadingRef.current) return;
+
+    const loadData = async () => {
+      isLoadingRef.current = true;
+      try {
+        await loadSession(sessionId);
+      } catch (err) {
+        console.warn('[BracketPage] Failed to load session:', err);
+        setNotFound(true);
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    };
+
+    loadData();
+  }, [params.id, loadSession]);
+
+  const currentSession = session && session.id === params.id ? session : null;
+
+  if (isLoading && !currentSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-japandi-background-primary">
+        <p className="text-japandi-text-secondary">Loading bracket...</p>
+      </div>
+    );
+  }
+
+  if (notFound || !currentSession) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-japandi-background-primary gap-4">
+        <p className="text-japandi-text-secondary">Session not found</p>
+        <Link href="/create-session" className="text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors">
+          Create New Session
+        </Link>
+      </div>
+    );
+  }
+
+  const tournament = currentSession.tournament;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/session/${currentSession.id}/bracket`);
+      setCopied(true);
+      if (copiedTimerRef.current) clearTimeout(copiedTimerRef.current);
+      copiedTimerRef.current = setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      // Clipboard API may not be available - the address bar still has the link
+    }
+  };
+
+  const handleEnd = async () => {
+    const confirmed = window.confirm(
+      "End this tournament? Games already played are kept as ordinary games; games still to play are removed."
+    );
+    if (!confirmed) return;
+    setError(null);
+    try {
+      await endTournament();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to end the tournament");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-japandi-background-primary">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-4 sm:py-8">
+        <Link
+          href={`/session/${currentSession.id}`}
+          className="text-japandi-accent-primary hover:text-japandi-accent-hover active:opacity-70 text-sm transition-all flex items-center gap-1 mb-4 inline-block touch-manipulation"
+        >
+          ← Back to Session
+        </Link>
+
+        <div className="flex items-start justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-japandi-text-primary">
+              {currentSession.name || "Badminton Session"}
+            </h1>
+            <p className="text-sm text-japandi-text-secondary mt-1">
+              {tournament ? TOURNAMENT_FORMAT_LABELS[tournament.format] : "Tournament"}
+              {tournament && (
+                <span className="ml-2 inline-flex items-center gap-1.5 text-xs text-japandi-text-muted">
+                  <span className={`w-2 h-2 rounded-full ${isLive ? "bg-green-500" : "bg-japandi-text-muted animate-pulse"}`} />
+                  {isLive ? "Live" : "Connecting..."}
+                </span>
+              )}
+            </p>
+          </div>
+          {tournament && (
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className="px-4 py-2 text-xs sm:text-sm bg-japandi-background-card text-japandi-text-primary border border-japandi-border-light rounded-full active:scale-95 transition-all whitespace-nowrap touch-manipulation"
+            >
+              {copied ? "Link copied" : "Share Link"}
+            </button>
+          )}
+        </div>
+
+        {!tournament ? (
+          <TournamentSetup />
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-japandi-text-secondary">
+              Record results on the session page as usual - the next games appear as soon as both sides are known.
+            </p>
+            <TournamentBracket
+              sessionId={currentSession.id}
+              tournament={tournament}
+              players={currentSession.players}
+              games={games}
+            />
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-card text-sm text-red-700">{error}</div>
+            )}
+            <button
+              type="button"
+              onClick={handleEnd}
+              className="text-sm text-red-600 hover:text-red-700 active:opacity-70 transition-all touch-manipulation"
+            >
+              End Tournament
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,19 +8,25 @@ import LiveStatsCard from "@/components/LiveStatsCard";
 import QuickGameForm from "@/components/QuickGameForm";
 import GameHistoryList from "@/components/GameHistoryList";
 import BottomTabNav from "@/components/BottomTabNav";
+import CourtQueuePanel from "@/components/CourtQueuePanel";
 import { calculatePlayerStats, calculateNonBettingStats } from "@/lib/calculations";
+import { predictWinProbability } from "@/lib/roundRobin";
+import { formatGameScore } from "@/lib/scoring";
+import { getTournamentMatch, getTournamentRoundName } from "@/lib/tournament";
 import { Game, Session, Player } from "@/types";
 import Link from "next/link";
 import { ApiClient } from "@/lib/api/client";
 
-type Tab = "stats" | "record" | "history";
+type Tab = "stats" | "queue" | "record" | "history";
 
 export default function SessionPage() {
   const params = useParams();
   const router = useRouter();
-  const { session, games, loadSession, setSession } = useSession();
+  const { session, games, loadSession, setSession, isLive } = useSession();
   const [activeTab, setActiveTab] = useState<Tab>("stats");
   const [prefillGame, setPrefillGame] = useState<Game | null>(null);
+  // Teams on a queue court whose result is being recorded
+  const [queueCourtTeams, setQueueCourtTeams] = useState<{ teamA: string[]; teamB: string[] } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
   const [localSession, setLocalSession] = useState<Session | null>(null);
@@ -28,8 +34,8 @@ export default function SessionPage() {
   const [showAllUpcoming, setShowAllUpcoming] = useState(false);
   const [editingGame, setEditingGame] = useState<Game | null>(null);
   const [showEditGameModal, setShowEditGameModal] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [lastRefreshed, setLastRefreshed] = useState<Date | null>(null);
+  // Current ELO per session player (group sessions only) for upcoming game predictions
+  const [playerRatings, setPlayerRatings] = useState<Map<string, number> | null>(null);
   
   // Track loading state to prevent duplicate calls
   const isLoadingRef = useRef(false);
@@ -81,22 +87,40 @@ export default function SessionPage() {
     }
   }, [session, games, params.id]);
 
-  // Manual refresh function to sync with other users' game recordings
-  const handleRefresh = async () => {
-    const sessionId = params.id as string;
-    if (!sessionId || isRefreshing) return;
-    
-    setIsRefreshing(true);
-    try {
-      // Reload session and games from API
-      await loadSession(sessionId);
-      setLastRefreshed(new Date());
-    } catch (error) {
-      console.error('[SessionPage] Failed to refresh:', error);
-    } finally {
-      setIsRefreshing(false);
+  // Load group ratings so upcoming games can show a predicted win probability
+  // Re-runs when games change so predictions follow rating updates
+  const ratingsGroupId = localSession?.groupId;
+  const ratingsPlayers = localSession?.players;
+  const playedGameCount = localGames.filter((g) => g.winningTeam !== null).length;
+  useEffect(() => {
+    if (!ratingsGroupId || !ratingsPlayers) {
+      setPlayerRatings(null);
+      return;
     }
-  };
+
+    let cancelled = false;
+    ApiClient.getGroupPlayers(ratingsGroupId)
+      .then((groupPlayers) => {
+        if (cancelled) return;
+        const ratings = new Map<string, number>();
+        ratingsPlayers.forEach((p) => {
+          const groupPlayer = groupPlayers.find((gp) => gp.id === p.groupPlayerId);
+          if (groupPlayer?.eloRating !== undefined) {
+            ratings.set(p.id, groupPlayer.eloRating);
+          }
+        });
+        setPlayerRatings(ratings);
+      })
+      .catch(() => {
+        // Predictions are optional - hide them if ratings can't be loaded
+        if (!cancelled) setPlayerRatings(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ratingsGroupId, ratingsPlayers, playedGameCount]);
+
 
   if (isLoading) {
     return (
@@ -135,6 +159,7 @@ export default function SessionPage() {
     // Switch to stats tab to show updated stats
     setActiveTab("stats");
     setPrefillGame(null); // Clear prefill
+    setQueueCourtTeams(null);
     setEditingGame(null);
     setShowEditGameModal(false);
   };
@@ -155,6 +180,13 @@ export default function SessionPage() {
   const upcomingGames = showAllUpcoming ? allUpcomingGames : allUpcomingGames.slice(0, 3);
   const hasMoreUpcoming = allUpcomingGames.length > 3;
   
+  // Round of a tournament game, e.g. "Semifinals" - null for other games
+  const getRoundLabel = (game: Game): string | null => {
+    const tournament = currentSession.tournament;
+    const match = tournament ? getTournamentMatch(currentSession.id, tournament, game.id) : null;
+    return tournament && match ? getTournamentRoundName(tournament, match) : null;
+  };
+
   // Get only played games for Recent Games section
   const playedGames = currentGames.filter(game => game.winningTeam !== null);
 
@@ -170,28 +202,15 @@ export default function SessionPage() {
               <h2 className="text-xl sm:text-2xl font-bold text-japandi-text-primary">
                 Live Stats
               </h2>
-              <button
-                onClick={handleRefresh}
-                disabled={isRefreshing}
-                className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm font-medium text-japandi-text-secondary hover:text-japandi-text-primary border border-japandi-border-light hover:border-japandi-border rounded-full transition-all active:scale-95 touch-manipulation disabled:opacity-50"
-                title="Refresh to see games recorded by others"
+              {/* Games recorded on other phones arrive over the live stream */}
+              <span
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm font-medium text-japandi-text-secondary border border-japandi-border-light rounded-full"
+                title={isLive ? "Games recorded by others appear automatically" : "Reconnecting to see games recorded by others"}
               >
-                <svg 
-                  className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} 
-                  fill="none" 
-                  viewBox="0 0 24 24" 
-                  stroke="currentColor"
-                >
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                </svg>
-                {isRefreshing ? 'Syncing...' : 'Sync'}
-              </button>
+                <span className={`w-2 h-2 rounded-full ${isLive ? 'bg-green-500' : 'bg-japandi-text-muted animate-pulse'}`} />
+                {isLive ? 'Live' : 'Connecting...'}
+              </span>
             </div>
-            {lastRefreshed && (
-              <p className="text-xs text-japandi-text-muted -mt-2">
-                Last synced: {lastRefreshed.toLocaleTimeString()}
-              </p>
-            )}
             <div className="space-y-4">
               {currentSession.players.length === 0 ? (
                 <div className="bg-japandi-background-card border border-japandi-border-light rounded-card p-6 text-center">
@@ -216,6 +235,7 @@ export default function SessionPage() {
                       bettingEnabled={bettingEnabled}
                       pointsScored={extendedStats?.pointsScored}
                       pointsConceded={extendedStats?.pointsConceded}
+                      currencySettings={session?.currencySettings}
                     />
                   );
                 })
@@ -233,6 +253,7 @@ export default function SessionPage() {
                     <div className="flex-1 min-w-0">
                       <div className="text-base sm:text-lg font-semibold text-japandi-text-primary mb-1">
                         Game {nextUnplayedGame.gameNumber}
+                        {getRoundLabel(nextUnplayedGame) && ` • ${getRoundLabel(nextUnplayedGame)}`}
                       </div>
                       <div className="text-sm sm:text-base text-japandi-text-secondary break-words">
                         {currentSession.gameMode === "singles" ? (
@@ -291,6 +312,9 @@ export default function SessionPage() {
                       const teamB = currentSession.gameMode === "singles"
                         ? getPlayerName(game.teamB[0])
                         : game.teamB.map(getPlayerName).join(" & ");
+                      const teamAWinProbability = playerRatings && playerRatings.size > 0
+                        ? predictWinProbability(game.teamA, game.teamB, playerRatings)
+                        : null;
 
                       return (
                         <div
@@ -303,10 +327,18 @@ export default function SessionPage() {
                                 <span className="text-xs sm:text-sm font-medium text-japandi-text-primary whitespace-nowrap">
                                   Game {game.gameNumber}
                                 </span>
+                                {getRoundLabel(game) && (
+                                  <span className="text-xs text-japandi-text-muted whitespace-nowrap">{getRoundLabel(game)}</span>
+                                )}
                               </div>
                               <div className="text-xs sm:text-sm text-japandi-text-secondary break-words">
                                 {teamA} vs {teamB}
                               </div>
+                              {teamAWinProbability !== null && (
+                                <div className="text-xs text-japandi-text-muted mt-0.5">
+                                  Predicted win: {Math.round(teamAWinProbability * 100)}% – {100 - Math.round(teamAWinProbability * 100)}%
+                                </div>
+                              )}
                             </div>
                             <button
                               onClick={() => {
@@ -352,9 +384,7 @@ export default function SessionPage() {
                       const winner = game.winningTeam === "A" ? teamA : teamB;
 
                       const loser = game.winningTeam === "A" ? teamB : teamA;
-                      const winnerScore = game.winningTeam === "A" ? game.teamAScore : game.teamBScore;
-                      const loserScore = game.winningTeam === "A" ? game.teamBScore : game.teamAScore;
-                      const hasScore = winnerScore !== undefined && loserScore !== undefined;
+                      const score = formatGameScore(game);
 
                       return (
                         <div
@@ -366,9 +396,9 @@ export default function SessionPage() {
                               Game {game.gameNumber}
                             </span>
                             <div className="flex items-center gap-2">
-                              {hasScore && (
+                              {score && (
                                 <span className="text-xs sm:text-sm font-semibold text-japandi-accent-primary">
-                                  {winnerScore}-{loserScore}
+                                  {score}
                                 </span>
                               )}
                             </div>
@@ -402,6 +432,18 @@ export default function SessionPage() {
           </div>
         )}
 
+        {/* Queue Tab */}
+        {activeTab === "queue" && (
+          <CourtQueuePanel
+            players={currentSession.players}
+            onRecordCourt={(teamA, teamB) => {
+              setPrefillGame(null);
+              setQueueCourtTeams({ teamA, teamB });
+              setActiveTab("record");
+            }}
+          />
+        )}
+
         {/* Record Tab */}
         {activeTab === "record" && (
           <div>
@@ -442,7 +484,10 @@ export default function SessionPage() {
                             </div>
                           </div>
                           <button
-                            onClick={() => setPrefillGame(game)}
+                            onClick={() => {
+                              setPrefillGame(game);
+                              setQueueCourtTeams(null);
+                            }}
                             className={`w-full sm:w-auto ml-0 sm:ml-4 px-4 py-2 text-sm font-medium rounded-full transition-all active:scale-95 touch-manipulation ${
                               isPrefilled
                                 ? "bg-japandi-accent-primary text-white"
@@ -462,8 +507,8 @@ export default function SessionPage() {
             <QuickGameForm
               players={currentSession.players}
               onGameSaved={handleGameSaved}
-              initialTeamA={editingGame?.teamA || prefillGame?.teamA}
-              initialTeamB={editingGame?.teamB || prefillGame?.teamB}
+              initialTeamA={editingGame?.teamA || prefillGame?.teamA || queueCourtTeams?.teamA as [string, string] | [string] | undefined}
+              initialTeamB={editingGame?.teamB || prefillGame?.teamB || queueCourtTeams?.teamB as [string, string] | [string] | undefined}
               gameToUpdate={editingGame || prefillGame || undefined}
             />
           </div>
@@ -516,6 +561,7 @@ export default function SessionPage() {
         activeTab={activeTab}
         onTabChange={setActiveTab}
         gameCount={currentGames.length}
+        waitingCount={currentSession.courtQueue?.waiting.length ?? 0}
       />
     </div>
   );
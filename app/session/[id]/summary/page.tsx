@@ -5,18 +5,22 @@ import { useState, useEffect, useRef } from "react";
 import { useSession } from "@/contexts/SessionContext";
 import {
   calculateFinalSettlement,
+  calculateSettlementTransfers,
+  getSessionExpenses,
   formatCurrency,
   generateShareableText,
   formatPercentage,
 } from "@/lib/calculations";
+import { getCurrencySettings, toMinorUnits } from "@/lib/currency";
 import Link from "next/link";
+import CostSplitCard from "@/components/CostSplitCard";
 import { Session, Game } from "@/types";
 import { ApiClient } from "@/lib/api/client";
 
 export default function SummaryPage() {
   const params = useParams();
   const router = useRouter();
-  const { session, games, loadSession } = useSession();
+  const { session, games, loadSession, updateSessionDetails } = useSession();
   const [copied, setCopied] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
@@ -142,10 +146,22 @@ export default function SummaryPage() {
     ? `${window.location.origin}/session/${currentSession.id}/summary`
     : null;
 
+  const currencySettings = getCurrencySettings(currentSession);
   const settlement = calculateFinalSettlement(currentSession, currentGames);
+  const transfers = calculateSettlementTransfers(settlement, currencySettings.currency);
+  const expenses = getSessionExpenses(currentSession);
+  const getPlayerName = (playerId: string) =>
+    currentSession.players.find((p) => p.id === playerId)?.name || "Unknown";
   
-  // Calculate cost per person for non-betting mode
-  const costPerPerson = settlement.length > 0 ? settlement[0].evenSharePerPlayer : 0;
+  // Calculate cost per person for non-betting mode (only meaningful when everyone shares every expense)
+  const hasEvenShares = settlement.every(
+    (s) =>
+      Math.abs(
+        toMinorUnits(s.expenseShare, currencySettings.currency) -
+          toMinorUnits(settlement[0]?.expenseShare ?? 0, currencySettings.currency)
+      ) <= 1
+  );
+  const costPerPerson = settlement.length > 0 && hasEvenShares ? settlement[0].evenSharePerPlayer : 0;
   
   const shareableText = generateShareableText(settlement, bettingEnabled, {
     sessionName: currentSession.name || 'Badminton Session',
@@ -154,6 +170,7 @@ export default function SummaryPage() {
     games: currentGames,
     players: currentSession.players,
     costPerPerson: costPerPerson,
+    currencySettings,
   });
 
   const handleCopy = async () => {
@@ -234,7 +251,7 @@ export default function SummaryPage() {
                         Net
                       </th>
                       <th className="px-3 sm:px-4 py-3 sm:py-4 text-right text-xs font-semibold text-japandi-text-primary uppercase tracking-wider">
-                        Pay
+                        Balance
                       </th>
                     </>
                   )}
@@ -289,10 +306,16 @@ export default function SummaryPage() {
                           }`}
                         >
                           {s.gamblingNet > 0 && "+"}
-                          {formatCurrency(s.gamblingNet)}
+                          {formatCurrency(s.gamblingNet, currencySettings)}
                         </td>
-                        <td className="px-3 sm:px-4 py-3 sm:py-4 text-sm sm:text-base text-right font-semibold text-japandi-text-primary">
-                          {formatCurrency(s.amountToPayOrganizer)}
+                        <td
+                          className={`px-3 sm:px-4 py-3 sm:py-4 text-sm sm:text-base text-right font-semibold ${
+                            s.netBalance > 0 ? "text-green-700" : "text-japandi-text-primary"
+                          }`}
+                          title={s.netBalance > 0 ? "Gets back" : s.netBalance < 0 ? "Owes" : "Square"}
+                        >
+                          {s.netBalance > 0 && "+"}
+                          {formatCurrency(s.netBalance, currencySettings)}
                         </td>
                       </>
                     )}
@@ -303,35 +326,82 @@ export default function SummaryPage() {
           </div>
         </div>
 
+        {/* Payments - who pays whom, with as few transfers as possible */}
+        {transfers.length > 0 && (
+          <div className="bg-japandi-background-card rounded-card border border-japandi-border-light p-5 mb-6 shadow-soft">
+            <h2 className="text-lg font-semibold text-japandi-text-primary mb-4">
+              Payments
+            </h2>
+            <div className="space-y-2 text-sm">
+              {transfers.map((t) => (
+                <div key={`${t.fromPlayerId}-${t.toPlayerId}`} className="flex justify-between gap-3">
+                  <span className="text-japandi-text-secondary break-words">
+                    <span className="font-medium text-japandi-text-primary">{t.fromPlayerName}</span>
+                    {" → "}
+                    <span className="font-medium text-japandi-text-primary">{t.toPlayerName}</span>
+                  </span>
+                  <span className="text-japandi-text-primary font-semibold whitespace-nowrap">{formatCurrency(t.amount, currencySettings)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Cost Summary (only when betting enabled or when there are costs) */}
-        {(bettingEnabled || currentSession.courtCostValue > 0 || currentSession.birdCostTotal > 0) && (
+        {(bettingEnabled || expenses.length > 0) && (
           <div className="bg-japandi-background-card rounded-card border border-japandi-border-light p-5 mb-6 shadow-soft">
             <h2 className="text-lg font-semibold text-japandi-text-primary mb-4">
               Cost Breakdown
             </h2>
             <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-japandi-text-secondary">Court Cost ({currentSession.courtCostType === "per_person" ? "per person" : "total"}):</span>
-                <span className="text-japandi-text-primary font-medium">{formatCurrency(currentSession.courtCostValue)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-japandi-text-secondary">Bird/Shuttle Cost:</span>
-                <span className="text-japandi-text-primary font-medium">{formatCurrency(currentSession.birdCostTotal)}</span>
-              </div>
+              {expenses.map((expense) => (
+                <div key={expense.id} className="flex justify-between gap-3">
+                  <span className="text-japandi-text-secondary">
+                    {expense.description}
+                    <span className="block text-xs text-japandi-text-muted">
+                      Paid by {getPlayerName(expense.paidBy)}
+                      {expense.sharedBy && expense.sharedBy.length > 0 && expense.sharedBy.length < currentSession.players.length
+                        ? ` • Split by ${expense.sharedBy.map(getPlayerName).join(", ")}`
+                        : " • Split by everyone"}
+                    </span>
+                  </span>
+                  <span className="text-japandi-text-primary font-medium whitespace-nowrap">{formatCurrency(expense.amount, currencySettings)}</span>
+                </div>
+              ))}
               {bettingEnabled && (
                 <div className="flex justify-between">
                   <span className="text-japandi-text-secondary">Bet Per Player:</span>
-                  <span className="text-japandi-text-primary font-medium">{formatCurrency(currentSession.betPerPlayer)}/game</span>
+                  <span className="text-japandi-text-primary font-medium">{formatCurrency(currentSession.betPerPlayer, currencySettings)}/game</span>
+                </div>
+              )}
+              {hasEvenShares ? (
+                <div className="border-t border-japandi-border-light pt-2 mt-2 flex justify-between">
+                  <span className="text-japandi-text-primary font-medium">Per Person Share:</span>
+                  <span className="text-japandi-text-primary font-semibold">{formatCurrency(settlement[0]?.evenSharePerPlayer || 0, currencySettings)}</span>
+                </div>
+              ) : (
+                <div className="border-t border-japandi-border-light pt-2 mt-2 flex justify-between">
+                  <span className="text-japandi-text-primary font-medium">Total:</span>
+                  <span className="text-japandi-text-primary font-semibold">
+                    {formatCurrency(expenses.reduce((sum, e) => sum + e.amount, 0), currencySettings)}
+                  </span>
                 </div>
               )}
-              <div className="border-t border-japandi-border-light pt-2 mt-2 flex justify-between">
-                <span className="text-japandi-text-primary font-medium">Per Person Share:</span>
-                <span className="text-japandi-text-primary font-semibold">{formatCurrency(settlement[0]?.evenSharePerPlayer || 0)}</span>
-              </div>
             </div>
           </div>
         )}
 
+        {/* Cost Split - how each player's share was worked out */}
+        {expenses.length > 0 && (
+          <CostSplitCard
+            players={currentSession.players}
+            mode={currentSession.costSplitMode ?? "even"}
+            settlement={settlement}
+            currencySettings={currencySettings}
+            onChange={(costSplitMode, players) => updateSessionDetails({ costSplitMode, players })}
+          />
+        )}
+
         {/* Shareable Text */}
         <div className="bg-japandi-background-card rounded-card border border-japandi-border-light p-5 mb-6 shadow-soft">
           <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { ApiClient } from "@/lib/api/client";
+import { useAuth } from "@/contexts/AuthContext";
+
+const CALLBACK_ERRORS: Record<string, string> = {
+  expired: "That sign-in link has expired or was already used. Please request a new one.",
+  failed: "Something went wrong signing you in. Please try again.",
+};
+
+function SignInContent() {
+  const searchParams = useSearchParams();
+  const next = searchParams.get("next") || undefined;
+  const callbackError = searchParams.get("error");
+
+  const { user, isEnabled, isLoading, signOut } = useAuth();
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [devLink, setDevLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(
+    callbackError ? CALLBACK_ERRORS[callbackError] || CALLBACK_ERRORS.failed : null
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    try {
+      const result = await ApiClient.requestSignInLink(email.trim(), next);
+      setSentTo(email.trim());
+      setDevLink(result.devLink ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send sign-in link");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-japandi-background-primary flex items-center justify-center">
+        <p className="text-japandi-text-secondary">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <div>
+          <h1 className="text-3xl font-bold text-japandi-text-primary">Sign In</h1>
+          <p className="text-base text-japandi-text-secondary mt-2">
+            Optional - claim your player in each group and see your stats across all of them
+          </p>
+        </div>
+
+        <div className="bg-japandi-background-card rounded-card border border-japandi-border-light p-6 shadow-soft text-left">
+          {user ? (
+            <div className="space-y-4 text-center">
+              <p className="text-japandi-text-secondary">
+                Signed in as <span className="font-medium text-japandi-text-primary">{user.email}</span>
+              </p>
+              <Link
+                href="/me"
+                className="inline-block w-full bg-japandi-accent-primary hover:bg-japandi-accent-hover text-white font-semibold py-3 px-6 rounded-full transition-all shadow-button"
+              >
+                My Dashboard
+              </Link>
+              <button
+                onClick={signOut}
+                className="text-sm text-japandi-text-secondary hover:text-japandi-text-primary transition-colors"
+              >
+                Sign out
+              </button>
+            </div>
+          ) : !isEnabled ? (
+            <p className="text-japandi-text-secondary text-center">
+              Sign-in isn&apos;t set up on this server. Groups and sessions work without an account.
+            </p>
+          ) : sentTo ? (
+            <div className="space-y-3 text-center">
+              <p className="text-japandi-text-primary">
+                Check <span className="font-medium">{sentTo}</span> for a sign-in link.
+              </p>
+              {devLink && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-card text-sm text-left">
+                  <p className="text-yellow-800 mb-1">Development sign-in (no email is sent):</p>
+                  <a href={devLink} className="text-japandi-accent-primary break-all underline">
+                    Open sign-in link
+                  </a>
+                </div>
+              )}
+              <button
+                onClick={() => {
+                  setSentTo(null);
+                  setDevLink(null);
+                }}
+                className="text-sm text-japandi-text-secondary hover:text-japandi-text-primary transition-colors"
+              >
+                Use a different email
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setError(null);
+                }}
+                placeholder="you@example.com"
+                autoComplete="email"
+                className="w-full px-4 py-3 border border-japandi-border-light rounded-xl bg-japandi-background-primary text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+              />
+              <button
+                type="submit"
+                disabled={isSending || !email.trim()}
+                className="w-full bg-japandi-accent-primary hover:bg-japandi-accent-hover active:scale-95 disabled:bg-japandi-text-muted disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-full transition-all shadow-button touch-manipulation"
+              >
+                {isSending ? "Sending..." : "Email Me a Sign-In Link"}
+              </button>
+            </form>
+          )}
+
+          {error && <p className="text-sm text-red-600 mt-3 text-center">{error}</p>}
+        </div>
+
+        <Link href="/" className="inline-block text-sm text-japandi-text-secondary hover:text-japandi-text-primary">
+          ← Back to home
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+// Wrapper component with Suspense boundary for useSearchParams
+export default function SignIn() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-japandi-background-primary flex items-center justify-center">
+        <p className="text-japandi-text-secondary">Loading...</p>
+      </div>
+    }>
+      <SignInContent />
+    </Suspense>
+  );
+}
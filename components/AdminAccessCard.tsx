@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { isValidAdminPin } from "@/lib/adminPins";
+
+interface AdminAccessCardProps {
+  hasAdminPin: boolean;
+  isUnlocked: boolean; // This device has the group's PIN saved
+  onUnlock: (pin: string) => Promise<void>;
+  onSetPin: (pin: string) => Promise<void>;
+  onLock: () => void;
+}
+
+const inputClassName =
+  "flex-1 px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all";
+
+/**
+ * Collapsible card for the group's admin PIN
+ * Unlocks this device (removing players, changing recorded games), or sets/changes the PIN
+ */
+export function AdminAccessCard({ hasAdminPin, isUnlocked, onUnlock, onSetPin, onLock }: AdminAccessCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [pin, setPin] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Without a PIN, or once unlocked, the form sets a (new) PIN instead of unlocking
+  const isSettingPin = !hasAdminPin || isUnlocked;
+
+  const status = !hasAdminPin
+    ? "No PIN set - anyone with the link can remove players and change games"
+    : isUnlocked
+      ? "Unlocked on this device"
+      : "Locked - enter the PIN to remove players or change recorded games";
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await (isSettingPin ? onSetPin(pin) : onUnlock(pin));
+      setPin("");
+      setIsExpanded(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update admin PIN");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-japandi-background-card border border-japandi-border-light rounded-xl shadow-soft">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <h3 className="font-semibold text-japandi-text-primary">Admin PIN</h3>
+          <p className="text-xs text-japandi-text-muted">{status}</p>
+        </div>
+        <span className="text-japandi-text-muted">{isExpanded ? "▲" : "▼"}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete={isSettingPin ? "new-password" : "current-password"}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+              placeholder={isSettingPin ? (hasAdminPin ? "New PIN (4-8 digits)" : "PIN (4-8 digits)") : "Admin PIN"}
+              className={inputClassName}
+              onKeyDown={(e) => e.key === "Enter" && isValidAdminPin(pin) && handleSubmit()}
+            />
+            <button
+              onClick={handleSubmit}
+              disabled={!isValidAdminPin(pin) || isSaving}
+              className="px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover disabled:bg-japandi-text-muted text-white text-sm font-semibold rounded-card transition-all"
+            >
+              {isSaving ? "..." : isSettingPin ? (hasAdminPin ? "Change" : "Set PIN") : "Unlock"}
+            </button>
+          </div>
+          <p className="text-xs text-japandi-text-muted">
+            Deleting the group, removing players and changing recorded games need the PIN. Recording new games doesn&apos;t.
+          </p>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {hasAdminPin && isUnlocked && (
+            <button
+              onClick={onLock}
+              className="text-sm text-japandi-text-secondary hover:text-japandi-text-primary transition-colors"
+            >
+              Lock this device
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
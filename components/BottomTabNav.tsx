@@ -1,20 +1,22 @@
 "use client";
 
 interface BottomTabNavProps {
-  activeTab: "stats" | "record" | "history";
-  onTabChange: (tab: "stats" | "record" | "history") => void;
+  activeTab: "stats" | "queue" | "record" | "history";
+  onTabChange: (tab: "stats" | "queue" | "record" | "history") => void;
   gameCount?: number;
+  waitingCount?: number;
 }
 
 export default function BottomTabNav({
   activeTab,
   onTabChange,
   gameCount = 0,
+  waitingCount = 0,
 }: BottomTabNavProps) {
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-japandi-background-card border-t border-japandi-border-light z-20 shadow-soft safe-area-inset-bottom">
       <div className="max-w-2xl mx-auto">
-        <div className="grid grid-cols-3">
+        <div className="grid grid-cols-4">
           <button
             onClick={() => onTabChange("stats")}
             className={`flex flex-col items-center justify-center py-3 sm:py-4 px-2 transition-colors touch-manipulation ${
@@ -40,6 +42,36 @@ export default function BottomTabNav({
             <span className="text-xs font-medium">Stats</span>
           </button>
 
+          <button
+            onClick={() => onTabChange("queue")}
+            className={`flex flex-col items-center justify-center py-3 sm:py-4 px-2 transition-colors relative touch-manipulation ${
+              activeTab === "queue"
+                ? "text-japandi-accent-primary"
+                : "text-japandi-text-muted"
+            }`}
+            aria-label="Court queue"
+          >
+            <svg
+              className="w-5 h-5 sm:w-6 sm:h-6 mb-1"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
+              />
+            </svg>
+            <span className="text-xs font-medium">Queue</span>
+            {waitingCount > 0 && (
+              <span className="absolute top-0.5 right-1 sm:top-1 sm:right-2 bg-japandi-accent-primary text-white text-xs rounded-full w-4 h-4 sm:w-5 sm:h-5 flex items-center justify-center text-[10px] sm:text-xs">
+                {waitingCount > 99 ? "99+" : waitingCount}
+              </span>
+            )}
+          </button>
+
           <button
             onClick={() => onTabChange("record")}
             className={`flex flex-col items-center justify-center py-3 sm:py-4 px-2 transition-colors touch-manipulation ${
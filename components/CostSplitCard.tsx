@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { CostSplitMode, CurrencySettings, Player } from "@/types";
+import { FinalSettlement, formatCurrency } from "@/lib/calculations";
+
+interface CostSplitCardProps {
+  players: Player[];
+  mode: CostSplitMode;
+  settlement: FinalSettlement[];
+  currencySettings: CurrencySettings;
+  onChange: (mode: CostSplitMode, players: Player[]) => Promise<void>;
+}
+
+const MODE_LABELS: Record<CostSplitMode, string> = {
+  even: "Even",
+  attendance: "By attendance",
+  games: "By games played",
+};
+
+const ATTENDANCE_OPTIONS = [1, 0.75, 0.5, 0.25, 0];
+
+/**
+ * Explains how the session's costs were split and lets the organizer switch
+ * between an even split, attendance (for late arrivals / early leavers) and games played
+ */
+export default function CostSplitCard({ players, mode, settlement, currencySettings, onChange }: CostSplitCardProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalWeight = Math.round(settlement.reduce((sum, s) => sum + s.costWeight, 0) * 100) / 100;
+
+  const save = async (nextMode: CostSplitMode, nextPlayers: Player[]) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onChange(nextMode, nextPlayers);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update cost split");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setAttendance = (playerId: string, attendanceWeight: number) => {
+    save(
+      mode,
+      players.map((p) => (p.id === playerId ? { ...p, attendanceWeight } : p))
+    );
+  };
+
+  // One line per player explaining where their share comes from
+  const explainShare = (s: FinalSettlement): string => {
+    if (mode === "even" || totalWeight === 0) {
+      return "Even split";
+    }
+    if (mode === "games") {
+      if (s.costWeight === 0) return "No games played - pays nothing";
+      return `${s.costWeight} game${s.costWeight !== 1 ? "s" : ""} of ${totalWeight} player-games`;
+    }
+    if (s.costWeight === 0) return "Didn't attend - pays nothing";
+    return `Attended ${Math.round(s.costWeight * 100)}% • ${s.costWeight} of ${totalWeight} shares`;
+  };
+
+  return (
+    <div className="bg-japandi-background-card rounded-card border border-japandi-border-light p-5 mb-6 shadow-soft">
+      <h2 className="text-lg font-semibold text-japandi-text-primary mb-1">
+        Cost Split
+      </h2>
+      <p className="text-xs text-japandi-text-muted mb-4">
+        Split costs by time for anyone who arrived late or left early, or by games played
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(MODE_LABELS) as CostSplitMode[]).map((m) => (
+          <button
+            key={m}
+            onClick={() => m !== mode && save(m, players)}
+            disabled={isSaving}
+            className={`flex-1 px-3 py-2 text-xs sm:text-sm font-medium rounded-card border transition-all ${
+              mode === m
+                ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary"
+            }`}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {settlement.map((s) => {
+          const player = players.find((p) => p.id === s.playerId);
+          return (
+            <div key={s.playerId} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <span className="block font-medium text-japandi-text-primary break-words">{s.playerName}</span>
+                <span className="block text-xs text-japandi-text-muted">{explainShare(s)}</span>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {mode === "attendance" && (
+                  <select
+                    value={player?.attendanceWeight ?? 1}
+                    onChange={(e) => setAttendance(s.playerId, parseFloat(e.target.value))}
+                    disabled={isSaving}
+                    className="px-2 py-1 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-xs"
+                    aria-label={`Attendance for ${s.playerName}`}
+                  >
+                    {ATTENDANCE_OPTIONS.map((weight) => (
+                      <option key={weight} value={weight}>
+                        {Math.round(weight * 100)}%
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <span className="text-japandi-text-primary font-semibold whitespace-nowrap">
+                  {formatCurrency(s.expenseShare, currencySettings)}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CourtQueue, CourtQueueRule, Player } from "@/types";
+import { useSession } from "@/contexts/SessionContext";
+import {
+  COURT_QUEUE_RULE_LABELS,
+  DEFAULT_MAX_CONSECUTIVE_GAMES,
+  checkInPlayer,
+  checkOutPlayer,
+  clearCourt,
+  createCourtQueue,
+  getPlayersOnCourt,
+  isCourtReady,
+  updateCourtQueueSettings,
+} from "@/lib/courtQueue";
+
+interface CourtQueuePanelProps {
+  players: Player[];
+  onRecordCourt: (teamA: string[], teamB: string[]) => void;
+}
+
+const selectClassName =
+  "w-full px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all";
+
+// Minutes between two timestamps, for "waiting 12 min"
+function minutesSince(isoTimestamp: string, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(isoTimestamp).getTime()) / 60000));
+}
+
+/**
+ * Live court queue ("who's up next")
+ * Players check in, free courts are filled from the waiting list in order of longest wait,
+ * and recording a court's result through the Record tab advances the queue
+ */
+export default function CourtQueuePanel({ players, onRecordCourt }: CourtQueuePanelProps) {
+  const { session, updateCourtQueue } = useSession();
+  const gameMode = session?.gameMode || "doubles";
+  const isSingles = gameMode === "singles";
+  const queue = session?.courtQueue;
+
+  const [courtCount, setCourtCount] = useState(queue?.courtCount ?? 1);
+  const [rule, setRule] = useState<CourtQueueRule>(queue?.rule ?? "winners_stay");
+  const [maxConsecutiveGames, setMaxConsecutiveGames] = useState(
+    queue?.maxConsecutiveGames ?? DEFAULT_MAX_CONSECUTIVE_GAMES
+  );
+  const [showSettings, setShowSettings] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep wait times fresh while the tab is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const getPlayerName = (playerId: string): string => {
+    return players.find((p) => p.id === playerId)?.name || "Unknown";
+  };
+
+  const getTeamName = (team: string[]): string => team.map(getPlayerName).join(" & ");
+
+  const saveQueue = async (nextQueue: CourtQueue | null) => {
+    setError(null);
+    try {
+      await updateCourtQueue(nextQueue);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update queue");
+    }
+  };
+
+  const settingsForm = (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-japandi-text-muted space-y-1">
+          <span>Courts</span>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={courtCount}
+            onChange={(e) => setCourtCount(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+            className={selectClassName}
+          />
+        </label>
+        <label className="text-xs text-japandi-text-muted space-y-1">
+          <span>Max games in a row</span>
+          <input
+            type="number"
+            min={0}
+            value={maxConsecutiveGames}
+            onChange={(e) => setMaxConsecutiveGames(Math.max(0, parseInt(e.target.value) || 0))}
+            disabled={rule === "everyone_off"}
+            className={`${selectClassName} disabled:opacity-50`}
+          />
+        </label>
+      </div>
+      <label className="block text-xs text-japandi-text-muted space-y-1">
+        <span>When a game finishes</span>
+        <select
+          value={rule}
+          onChange={(e) => setRule(e.target.value as CourtQueueRule)}
+          className={selectClassName}
+        >
+          {(Object.keys(COURT_QUEUE_RULE_LABELS) as CourtQueueRule[]).map((r) => (
+            <option key={r} value={r}>
+              {COURT_QUEUE_RULE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {rule !== "everyone_off" && (
+        <p className="text-xs text-japandi-text-muted">
+          {maxConsecutiveGames > 0
+            ? `The staying team comes off after ${maxConsecutiveGames} game${maxConsecutiveGames !== 1 ? "s" : ""} in a row.`
+            : "The staying team never has to come off."}
+        </p>
+      )}
+    </div>
+  );
+
+  // Queue not started yet - show setup
+  if (!queue) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-xl sm:text-2xl font-bold text-japandi-text-primary">Court Queue</h2>
+        <div className="bg-japandi-background-card border border-japandi-border-light rounded-card p-4 sm:p-5 shadow-soft space-y-4">
+          <p className="text-sm text-japandi-text-secondary">
+            Players check in as they arrive. Free courts are filled with whoever has waited longest,
+            and finished games send players back to the queue.
+          </p>
+          {settingsForm}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <button
+            onClick={() => saveQueue(createCourtQueue(courtCount, rule, maxConsecutiveGames))}
+            className="w-full px-5 py-2.5 bg-japandi-accent-primary hover:bg-japandi-accent-hover active:scale-95 text-white font-semibold rounded-full transition-all shadow-button touch-manipulation"
+          >
+            Start Queue
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const onCourt = getPlayersOnCourt(queue);
+  const waitingIds = new Set(queue.waiting.map((p) => p.playerId));
+  const notCheckedIn = players.filter((p) => !onCourt.has(p.id) && !waitingIds.has(p.id));
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl sm:text-2xl font-bold text-japandi-text-primary">Court Queue</h2>
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className="text-xs sm:text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors touch-manipulation"
+        >
+          {showSettings ? "Hide Settings" : COURT_QUEUE_RULE_LABELS[queue.rule]}
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="bg-japandi-background-card border border-japandi-border-light rounded-card p-4 shadow-soft space-y-3">
+          {settingsForm}
+          <div className="flex gap-2">
+            <button
+              onClick={async () => {
+                await saveQueue(updateCourtQueueSettings(queue, { courtCount, rule, maxConsecutiveGames }, gameMode));
+                setShowSettings(false);
+              }}
+              className="px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover text-white text-sm font-semibold rounded-card transition-all"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => {
+                if (confirm("End the queue? Everyone will be checked out.")) {
+                  saveQueue(null);
+                }
+              }}
+              className="px-4 py-2 text-sm text-red-500 hover:text-red-600 transition-colors"
+            >
+              End Queue
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {/* Courts */}
+      <div className="space-y-3">
+        {queue.courts.map((court, index) => (
+          <div
+            key={index}
+            className={`bg-japandi-background-card rounded-card p-4 shadow-soft ${
+              isCourtReady(court, gameMode) ? "border-2 border-japandi-accent-primary" : "border border-japandi-border-light"
+            }`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-semibold text-japandi-text-primary">Court {index + 1}</span>
+              {court && (
+                <span className="text-xs text-japandi-text-muted">
+                  {court.consecutiveGames > 0 && `Game ${court.consecutiveGames + 1} in a row for ${getTeamName(court.teamA)} • `}
+                  {minutesSince(court.startedAt, now)} min
+                </span>
+              )}
+            </div>
+            {court && isCourtReady(court, gameMode) ? (
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+                <div className="text-sm sm:text-base text-japandi-text-secondary break-words">
+                  {getTeamName(court.teamA)} vs {getTeamName(court.teamB)}
+                </div>
+                <div className="flex gap-2 w-full sm:w-auto">
+                  <button
+                    onClick={() => onRecordCourt(court.teamA, court.teamB)}
+                    className="flex-1 sm:flex-none px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover active:scale-95 text-white text-sm font-semibold rounded-full transition-all touch-manipulation"
+                  >
+                    Record Result
+                  </button>
+                  <button
+                    onClick={() => saveQueue(clearCourt(queue, index, gameMode))}
+                    className="px-3 py-2 text-xs text-japandi-text-muted hover:text-japandi-text-primary border border-japandi-border-light rounded-full transition-all touch-manipulation"
+                    title="Send these players back to the front of the queue"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-japandi-text-muted">
+                {court
+                  ? `${getTeamName(court.teamA)} waiting for challengers`
+                  : `Free - needs ${isSingles ? 2 : 4} players in the queue`}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Waiting list */}
+      <div>
+        <h3 className="text-base font-semibold text-japandi-text-primary mb-3">
+          Up Next ({queue.waiting.length})
+        </h3>
+        {queue.waiting.length === 0 ? (
+          <p className="text-sm text-japandi-text-muted">Nobody is waiting.</p>
+        ) : (
+          <div className="space-y-2">
+            {queue.waiting.map((queued, index) => (
+              <div
+                key={queued.playerId}
+                className="flex items-center justify-between bg-japandi-background-card border border-japandi-border-light rounded-card px-3 py-2"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-xs font-semibold text-japandi-text-muted w-5">{index + 1}</span>
+                  <span className="text-sm text-japandi-text-primary truncate">{getPlayerName(queued.playerId)}</span>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-xs text-japandi-text-muted">
+                    waiting {minutesSince(queued.waitingSince, now)} min
+                  </span>
+                  <button
+                    onClick={() => saveQueue(checkOutPlayer(queue, queued.playerId))}
+                    className="text-xs text-japandi-text-muted hover:text-red-500 transition-colors touch-manipulation"
+                    aria-label={`Check out ${getPlayerName(queued.playerId)}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Check in */}
+      {notCheckedIn.length > 0 && (
+        <div>
+          <h3 className="text-base font-semibold text-japandi-text-primary mb-3">Check In</h3>
+          <div className="flex flex-wrap gap-2">
+            {notCheckedIn.map((player) => (
+              <button
+                key={player.id}
+                onClick={() => saveQueue(checkInPlayer(queue, player.id, gameMode))}
+                className="px-4 py-2 text-sm font-medium bg-japandi-background-primary text-japandi-text-primary border border-japandi-border-light hover:bg-japandi-background-card active:scale-95 rounded-full transition-all touch-manipulation"
+              >
+                + {player.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { CurrencySettings } from "@/types";
+import { CURRENCY_OPTIONS } from "@/lib/currency";
+import { formatCurrency } from "@/lib/calculations";
+
+interface CurrencySelectProps {
+  value: CurrencySettings;
+  onChange: (settings: CurrencySettings) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Currency picker showing each option's formatting, e.g. "TWD - New Taiwan Dollar ($1,235)"
+ */
+export default function CurrencySelect({ value, onChange, className, disabled }: CurrencySelectProps) {
+  // Keep a currency that isn't in the list (e.g. set through the API) selectable
+  const options = CURRENCY_OPTIONS.some((o) => o.currency === value.currency && o.locale === value.locale)
+    ? CURRENCY_OPTIONS
+    : [...CURRENCY_OPTIONS, { ...value, label: value.currency }];
+
+  return (
+    <select
+      value={`${value.currency}|${value.locale}`}
+      onChange={(e) => {
+        const [currency, locale] = e.target.value.split("|");
+        onChange({ currency, locale });
+      }}
+      disabled={disabled}
+      className={className}
+      aria-label="Currency"
+    >
+      {options.map((o) => (
+        <option key={`${o.currency}|${o.locale}`} value={`${o.currency}|${o.locale}`}>
+          {o.currency} - {o.label} ({formatCurrency(1234.5, o)})
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CurrencySettings } from "@/types";
+import { formatCurrency } from "@/lib/calculations";
+import CurrencySelect from "@/components/CurrencySelect";
+
+interface CurrencySettingsCardProps {
+  settings: CurrencySettings;
+  onSave: (settings: CurrencySettings) => Promise<void>;
+}
+
+const selectClassName =
+  "w-full px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all";
+
+/**
+ * Collapsible editor for a group's default currency
+ * New sessions copy it; sessions already played keep the currency they were recorded in
+ */
+export function CurrencySettingsCard({ settings, onSave }: CurrencySettingsCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState<CurrencySettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the form in sync when the saved settings change
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const isDirty = draft.currency !== settings.currency || draft.locale !== settings.locale;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      setIsExpanded(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update currency");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-japandi-background-card border border-japandi-border-light rounded-xl shadow-soft">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <h3 className="font-semibold text-japandi-text-primary">Currency</h3>
+          <p className="text-xs text-japandi-text-muted">
+            {settings.currency} • {formatCurrency(1234.5, settings)}
+          </p>
+        </div>
+        <span className="text-japandi-text-muted">{isExpanded ? "▲" : "▼"}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <CurrencySelect value={draft} onChange={setDraft} className={selectClassName} />
+          <p className="text-xs text-japandi-text-muted">
+            New sessions use this currency. Sessions already played keep the currency they were recorded in.
+          </p>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover disabled:bg-japandi-text-muted text-white text-sm font-semibold rounded-card transition-all"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
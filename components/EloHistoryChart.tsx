@@ -0,0 +1,77 @@
+"use client";
+
+import { EloHistoryEntry } from "@/types";
+
+interface EloHistoryChartProps {
+  history: EloHistoryEntry[];
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+const PADDING = 6;
+
+/**
+ * Simple SVG line chart of a player's ELO over time
+ * First point is the rating before the first recorded change
+ */
+export function EloHistoryChart({ history }: EloHistoryChartProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-japandi-text-muted">
+        No rating history yet. History is recorded from now on for every game.
+      </p>
+    );
+  }
+
+  const ratings = [history[0].oldRating, ...history.map((h) => h.newRating)];
+  const minRating = Math.min(...ratings);
+  const maxRating = Math.max(...ratings);
+  const range = Math.max(maxRating - minRating, 1);
+  const netChange = ratings[ratings.length - 1] - ratings[0];
+
+  const points = ratings.map((rating, i) => {
+    const x = ratings.length === 1
+      ? CHART_WIDTH / 2
+      : PADDING + (i / (ratings.length - 1)) * (CHART_WIDTH - PADDING * 2);
+    const y = PADDING + (1 - (rating - minRating) / range) * (CHART_HEIGHT - PADDING * 2);
+    return { x, y };
+  });
+  const path = points.map((p, i) => `${i === 0 ? "M" : "L"}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(" ");
+  const lastPoint = points[points.length - 1];
+
+  const firstDate = new Date(history[0].createdAt).toLocaleDateString();
+  const lastDate = new Date(history[history.length - 1].createdAt).toLocaleDateString();
+
+  return (
+    <div className="bg-japandi-background-primary rounded-xl p-4">
+      <div className="flex items-center justify-between text-xs text-japandi-text-muted mb-2">
+        <span>High {maxRating} • Low {minRating}</span>
+        <span className={`font-semibold ${netChange >= 0 ? "text-green-600" : "text-red-500"}`}>
+          {netChange >= 0 ? "+" : ""}{netChange}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-24"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`ELO history from ${ratings[0]} to ${ratings[ratings.length - 1]}`}
+      >
+        <path
+          d={path}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="text-japandi-accent-primary"
+        />
+        <circle cx={lastPoint.x} cy={lastPoint.y} r={3} className="fill-japandi-accent-primary" />
+      </svg>
+      <div className="flex items-center justify-between text-xs text-japandi-text-muted mt-2">
+        <span>{firstDate}</span>
+        <span>{history.length} change{history.length !== 1 ? "s" : ""}</span>
+        <span>{lastDate}</span>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,16 @@
 
 import { Game, Player } from "@/types";
 import { useSession } from "@/contexts/SessionContext";
+import {
+  countSetsWon,
+  findScoringIssue,
+  formatGameScore,
+  getMatchMaxSets,
+  getScoringRule,
+  SCORING_RULE_NAMES,
+  SCORING_RULES,
+} from "@/lib/scoring";
+import { COMEBACK_MIN_DEFICIT, getRallyStats } from "@/lib/liveScoring";
 
 interface GameHistoryListProps {
   games: Game[];
@@ -14,13 +24,21 @@ export default function GameHistoryList({
   players,
   onEditGame,
 }: GameHistoryListProps) {
-  const { removeLastGame, session } = useSession();
+  const { removeLastGame, session, canChangeGames, updateSessionDetails } = useSession();
   const gameMode = session?.gameMode || "doubles";
   const isSingles = gameMode === "singles";
+  const scoringRule = getScoringRule(session?.scoringRule);
   
   // Only show played games in history (filter out unplayed round robin games)
   const playedGames = games.filter(game => game.winningTeam !== null);
 
+  // Games recorded before scores were checked can break the session's rule
+  const scoringIssues = new Map<string, string>();
+  playedGames.forEach((game) => {
+    const issue = findScoringIssue(scoringRule, game);
+    if (issue) scoringIssues.set(game.id, issue);
+  });
+
   const getPlayerName = (playerId: string): string => {
     return players.find((p) => p.id === playerId)?.name || "Unknown";
   };
@@ -42,6 +60,14 @@ export default function GameHistoryList({
     const loserNames = game.winningTeam === "A" ? teamBNames : teamANames;
 
     let result = `${winnerNames} def. ${loserNames}`;
+
+    // A match shows the sets won here and each set's score underneath
+    if (game.sets && game.sets.length > 0) {
+      const setsWon = countSetsWon(game.sets);
+      const [winnerSets, loserSets] =
+        game.winningTeam === "A" ? [setsWon.teamA, setsWon.teamB] : [setsWon.teamB, setsWon.teamA];
+      return `${result} (${winnerSets} sets to ${loserSets})`;
+    }
     
     // Add scores if available
     if (game.teamAScore !== undefined && game.teamBScore !== undefined) {
@@ -53,6 +79,20 @@ export default function GameHistoryList({
     return result;
   };
 
+  // Games scored live: the longest run of rallies, and a comeback if the winners were well behind
+  const formatRallyStats = (game: Game): string | null => {
+    if (!game.rallies || game.rallies.length === 0) return null;
+    const { longestRun, comebackDeficit } = getRallyStats(game.rallies, game.winningTeam);
+    if (!longestRun) return null;
+
+    const runTeam = longestRun.team === "A" ? game.teamA : game.teamB;
+    const parts = [`Longest run ${longestRun.length} (${runTeam.map(getPlayerName).join(" & ")})`];
+    if (comebackDeficit >= COMEBACK_MIN_DEFICIT) {
+      parts.push(`Came back from ${comebackDeficit} down`);
+    }
+    return parts.join(" • ");
+  };
+
   const formatTimestamp = (date: Date | undefined): string => {
     if (!date) return "";
     const d = new Date(date);
@@ -83,12 +123,43 @@ export default function GameHistoryList({
           <h3 className="text-lg sm:text-xl font-semibold text-japandi-text-primary">
             Game History ({playedGames.length})
           </h3>
-          <button
-            onClick={removeLastGame}
-            className="px-4 py-2 text-sm bg-japandi-background-card text-japandi-text-secondary hover:bg-japandi-background-primary active:scale-95 border border-japandi-border-light rounded-full transition-all touch-manipulation"
-          >
-            Undo Last Game
-          </button>
+          {canChangeGames && (
+            <button
+              onClick={removeLastGame}
+              className="px-4 py-2 text-sm bg-japandi-background-card text-japandi-text-secondary hover:bg-japandi-background-primary active:scale-95 border border-japandi-border-light rounded-full transition-all touch-manipulation"
+            >
+              Undo Last Game
+            </button>
+          )}
+        </div>
+      )}
+
+      {playedGames.length > 0 && !canChangeGames && (
+        <p className="text-xs text-japandi-text-muted -mt-2">
+          Recorded games can only be changed with the group&apos;s admin PIN - unlock it from the group&apos;s Players tab.
+        </p>
+      )}
+
+      {scoringIssues.size > 0 && (
+        <div className="px-4 py-3 bg-yellow-50 border border-yellow-200 rounded-xl text-sm text-yellow-800 space-y-2">
+          <p>
+            {scoringIssues.size} game{scoringIssues.size !== 1 ? "s don't" : " doesn't"} fit {scoringRule.label}.
+            {canChangeGames ? " Edit the scores, or switch the session's scoring if you played shorter games:" : ""}
+          </p>
+          {canChangeGames && (
+            <div className="flex flex-wrap gap-2">
+              {SCORING_RULE_NAMES.map((name) => (
+                <button
+                  key={name}
+                  onClick={() => updateSessionDetails({ scoringRule: name })}
+                  disabled={SCORING_RULES[name] === scoringRule}
+                  className="px-3 py-1 text-xs font-medium rounded-full border border-yellow-300 bg-white hover:bg-yellow-100 disabled:opacity-50 transition-all"
+                >
+                  {SCORING_RULES[name].label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -110,6 +181,11 @@ export default function GameHistoryList({
                     <div className="text-base sm:text-lg font-semibold text-japandi-text-primary">
                       Game {game.gameNumber}
                     </div>
+                    {game.sets && game.sets.length > 0 && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-japandi-background-primary text-japandi-text-muted">
+                        Best of {getMatchMaxSets(scoringRule)}
+                      </span>
+                    )}
                     {game.createdAt && (
                       <span className="text-xs text-japandi-text-muted">
                         {formatTimestamp(game.createdAt)}
@@ -119,8 +195,21 @@ export default function GameHistoryList({
                   <div className="text-sm sm:text-base text-japandi-text-secondary mt-2 break-words">
                     {formatGameResult(game)}
                   </div>
+                  {game.sets && game.sets.length > 0 && (
+                    <div className="text-xs sm:text-sm text-japandi-text-muted mt-1">
+                      {game.sets
+                        .map((set, index) => `Set ${index + 1} ${formatGameScore({ winningTeam: game.winningTeam, ...set })}`)
+                        .join(" • ")}
+                    </div>
+                  )}
+                  {formatRallyStats(game) && (
+                    <div className="text-xs text-japandi-text-muted mt-1">🏸 {formatRallyStats(game)}</div>
+                  )}
+                  {scoringIssues.has(game.id) && (
+                    <div className="text-xs text-yellow-700 mt-1">⚠ {scoringIssues.get(game.id)}</div>
+                  )}
                 </div>
-                {onEditGame && (
+                {onEditGame && canChangeGames && (
                   <button
                     onClick={() => onEditGame(game)}
                     className="px-3 py-1.5 text-xs sm:text-sm bg-japandi-background-primary text-japandi-text-secondary hover:bg-japandi-background-card hover:text-japandi-text-primary active:scale-95 border border-japandi-border-light rounded-full transition-all touch-manipulation whitespace-nowrap"
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { AuditEntry } from "@/types";
+import { ApiClient } from "@/lib/api/client";
+import { getDeviceId } from "@/lib/deviceId";
+
+interface GroupHistoryPanelProps {
+  groupId: string;
+  canRevert: boolean; // No admin PIN on the group, or it's unlocked on this device
+  onReverted: () => void; // Reload anything showing games, players, ratings or settings
+}
+
+const cardClassName = "bg-japandi-background-card border border-japandi-border-light rounded-xl p-4 shadow-soft";
+
+function formatChangeTime(date: Date): string {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function describeActor(entry: AuditEntry, deviceId: string | null): string {
+  if (entry.actor.userEmail) return entry.actor.userEmail;
+  if (deviceId && entry.actor.deviceId === deviceId) return "This device";
+  return entry.actor.deviceLabel || "Unknown device";
+}
+
+/**
+ * Group history tab
+ * Every change to games, sessions, players and settings, newest first, with who made it
+ * A change can be reverted while nothing has changed it again since - stats are recalculated
+ */
+export default function GroupHistoryPanel({ groupId, canRevert, onReverted }: GroupHistoryPanelProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDeviceId(getDeviceId());
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await ApiClient.getGroupHistory(groupId);
+      setEntries(result.entries);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const loadMore = async () => {
+    const oldest = entries[entries.length - 1];
+    if (!oldest) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await ApiClient.getGroupHistory(groupId, new Date(oldest.createdAt).toISOString());
+      setEntries((prev) => [...prev, ...result.entries]);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevert = async (entry: AuditEntry) => {
+    if (!confirm(`Revert this change?\n\n${entry.summary}\n\nRatings and stats will be recalculated.`)) {
+      return;
+    }
+
+    setRevertingId(entry.id);
+    setError(null);
+    try {
+      await ApiClient.revertGroupChange(groupId, entry.id);
+      await loadHistory();
+      onReverted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revert change");
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className={cardClassName}>
+            <div className="h-5 w-48 bg-japandi-background-primary rounded animate-pulse" />
+            <div className="h-4 w-28 bg-japandi-background-primary rounded animate-pulse mt-2" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-japandi-text-primary">History</h2>
+          <p className="text-sm text-japandi-text-muted mt-1">
+            {canRevert ? "Every change to the group - revert one if it was a mistake" : "Every change to the group - unlock with the admin PIN to revert"}
+          </p>
+        </div>
+        <button
+          onClick={loadHistory}
+          disabled={isLoading}
+          className="px-3 py-2 bg-japandi-background-card hover:bg-japandi-background-primary text-japandi-text-primary text-sm font-medium rounded-full border border-japandi-border-light transition-all"
+          title="Refresh history"
+        >
+          ↻ Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-12 text-japandi-text-muted">
+          <p className="mb-2">No changes yet</p>
+          <p className="text-sm">Games, sessions, players and settings changes will show up here.</p>
+        </div>
+      ) : (
+        <div className={cardClassName}>
+          <div className="divide-y divide-japandi-border-light">
+            {entries.map((entry) => {
+              const isReverted = !!entry.revertedByAuditId;
+              return (
+                <div key={entry.id} className="flex items-start justify-between gap-3 py-3 first:pt-0 last:pb-0">
+                  <div className="min-w-0">
+                    <p className={`text-sm break-words ${isReverted ? "text-japandi-text-muted line-through" : "text-japandi-text-primary"}`}>
+                      {entry.summary}
+                    </p>
+                    <p className="text-xs text-japandi-text-muted mt-1">
+                      {formatChangeTime(entry.createdAt)} • {describeActor(entry, deviceId)}
+                    </p>
+                  </div>
+                  {isReverted ? (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-japandi-background-primary text-japandi-text-muted whitespace-nowrap">
+                      Reverted
+                    </span>
+                  ) : (
+                    entry.canRevert &&
+                    canRevert && (
+                      <button
+                        onClick={() => handleRevert(entry)}
+                        disabled={revertingId !== null}
+                        className="px-3 py-1 text-xs font-medium rounded-full border bg-japandi-background-card border-japandi-border-light text-japandi-text-primary hover:bg-japandi-background-primary disabled:opacity-50 transition-all whitespace-nowrap"
+                      >
+                        {revertingId === entry.id ? "Reverting..." : "Revert"}
+                      </button>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={loadMore}
+          disabled={isLoading}
+          className="w-full px-4 py-2 text-sm font-medium text-japandi-text-secondary hover:text-japandi-text-primary transition-colors"
+        >
+          {isLoading ? "Loading..." : "Load older changes"}
+        </button>
+      )}
+    </div>
+  );
+}
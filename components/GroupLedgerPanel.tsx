@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { CurrencySettings, GroupLedger, LedgerObligation } from "@/types";
+import { ApiClient } from "@/lib/api/client";
+import { formatCurrency } from "@/lib/calculations";
+import { getSettingsForCurrency } from "@/lib/currency";
+
+interface GroupLedgerPanelProps {
+  groupId: string;
+  currencySettings?: CurrencySettings;
+}
+
+const cardClassName = "bg-japandi-background-card border border-japandi-border-light rounded-xl p-4 shadow-soft";
+
+function formatSessionDate(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Group debt ledger tab
+ * Shows what's still owed from every session, a running balance per player, and the
+ * fewest payments that settle everyone up across all sessions
+ */
+export default function GroupLedgerPanel({ groupId, currencySettings }: GroupLedgerPanelProps) {
+  const [ledger, setLedger] = useState<GroupLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showSettled, setShowSettled] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setLedger(await ApiClient.getGroupLedger(groupId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load ledger");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const setPaid = async (obligations: LedgerObligation[], paid: boolean) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await ApiClient.setLedgerObligationsPaid(
+        groupId,
+        obligations.map(({ sessionId, fromPlayerId, toPlayerId }) => ({ sessionId, fromPlayerId, toPlayerId })),
+        paid
+      );
+      setLedger(result.ledger);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update ledger");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && !ledger) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className={cardClassName}>
+            <div className="h-5 w-40 bg-japandi-background-primary rounded animate-pulse" />
+            <div className="h-4 w-28 bg-japandi-background-primary rounded animate-pulse mt-2" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const obligations = ledger?.obligations || [];
+  const outstanding = obligations.filter((o) => o.outstanding > 0);
+  const hasSeveralCurrencies = new Set(outstanding.map((o) => o.currency)).size > 1;
+
+  // Each amount in the currency of the sessions it came from
+  const formatAmount = (amount: number, currency: string) =>
+    formatCurrency(amount, getSettingsForCurrency(currency, currencySettings));
+  const visible = showSettled ? obligations : outstanding;
+
+  // Group obligations by session, keeping the newest-first order
+  const sessions: Array<{ sessionId: string; label: string; obligations: LedgerObligation[] }> = [];
+  visible.forEach((o) => {
+    let entry = sessions.find((s) => s.sessionId === o.sessionId);
+    if (!entry) {
+      const date = formatSessionDate(o.sessionDate);
+      entry = { sessionId: o.sessionId, label: o.sessionName ? `${o.sessionName} • ${date}` : date, obligations: [] };
+      sessions.push(entry);
+    }
+    entry.obligations.push(o);
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-japandi-text-primary">Debt Ledger</h2>
+          <p className="text-sm text-japandi-text-muted mt-1">
+            What everyone still owes across sessions
+          </p>
+        </div>
+        <button
+          onClick={loadLedger}
+          disabled={isLoading}
+          className="px-3 py-2 bg-japandi-background-card hover:bg-japandi-background-primary text-japandi-text-primary text-sm font-medium rounded-full border border-japandi-border-light transition-all"
+          title="Refresh ledger"
+        >
+          ↻ Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {obligations.length === 0 ? (
+        <div className="text-center py-12 text-japandi-text-muted">
+          <p className="mb-2">Nothing owed yet</p>
+          <p className="text-sm">Sessions with costs or bets will show who pays whom here.</p>
+        </div>
+      ) : (
+        <>
+          {/* Settle up - outstanding balances netted across every session */}
+          <div className={cardClassName}>
+            <h3 className="font-semibold text-japandi-text-primary mb-1">Settle Up</h3>
+            {ledger!.netTransfers.length === 0 ? (
+              <p className="text-sm text-japandi-text-muted">Everyone is square.</p>
+            ) : (
+              <>
+                <p className="text-xs text-japandi-text-muted mb-3">
+                  {ledger!.netTransfers.length} payment{ledger!.netTransfers.length !== 1 ? "s" : ""} clear{" "}
+                  {outstanding.length} outstanding obligation{outstanding.length !== 1 ? "s" : ""}
+                  {hasSeveralCurrencies && " - sessions in different currencies are settled separately"}
+                </p>
+                <div className="space-y-2 text-sm">
+                  {ledger!.netTransfers.map((t) => (
+                    <div key={`${t.currency}-${t.fromPlayerId}-${t.toPlayerId}`} className="flex justify-between gap-3">
+                      <span className="text-japandi-text-secondary break-words">
+                        <span className="font-medium text-japandi-text-primary">{t.fromPlayerName}</span>
+                        {" → "}
+                        <span className="font-medium text-japandi-text-primary">{t.toPlayerName}</span>
+                      </span>
+                      <span className="text-japandi-text-primary font-semibold whitespace-nowrap">{formatAmount(t.amount, t.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => {
+                    if (confirm("Mark every outstanding obligation as paid? Do this once the payments above have been made.")) {
+                      setPaid(outstanding, true);
+                    }
+                  }}
+                  disabled={isSaving}
+                  className="mt-4 w-full px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover disabled:bg-japandi-text-muted text-white text-sm font-semibold rounded-full transition-all"
+                >
+                  {isSaving ? "Saving..." : "Mark All Settled"}
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* Running balances */}
+          {ledger!.balances.length > 0 && (
+            <div className={cardClassName}>
+              <h3 className="font-semibold text-japandi-text-primary mb-3">Balances</h3>
+              <div className="space-y-2 text-sm">
+                {ledger!.balances.map((b) => (
+                  <div key={`${b.currency}-${b.ledgerPlayerId}`} className="flex justify-between gap-3">
+                    <span className="min-w-0">
+                      <span className="block font-medium text-japandi-text-primary break-words">
+                        {b.playerName}
+                        {!b.groupPlayerId && <span className="ml-1 text-xs text-japandi-text-muted">(guest)</span>}
+                      </span>
+                      <span className="block text-xs text-japandi-text-muted">
+                        {b.sessionCount} session{b.sessionCount !== 1 ? "s" : ""} outstanding
+                      </span>
+                    </span>
+                    <span
+                      className={`font-semibold whitespace-nowrap ${b.balance > 0 ? "text-green-700" : "text-japandi-text-primary"}`}
+                      title={b.balance > 0 ? "Is owed" : "Owes"}
+                    >
+                      {b.balance > 0 && "+"}
+                      {formatAmount(b.balance, b.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Obligations per session */}
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-japandi-text-primary">By Session</h3>
+            <label className="flex items-center gap-2 text-xs text-japandi-text-muted">
+              <input type="checkbox" checked={showSettled} onChange={(e) => setShowSettled(e.target.checked)} />
+              Show settled
+            </label>
+          </div>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-japandi-text-muted">All sessions are settled.</p>
+          ) : (
+            sessions.map((s) => (
+              <div key={s.sessionId} className={cardClassName}>
+                <p className="text-xs font-medium text-japandi-text-muted mb-2">{s.label}</p>
+                <div className="space-y-2 text-sm">
+                  {s.obligations.map((o) => {
+                    const isSettled = o.outstanding === 0;
+                    return (
+                      <div key={`${o.fromPlayerId}-${o.toPlayerId}`} className="flex items-center justify-between gap-3">
+                        <span className={`break-words ${isSettled ? "text-japandi-text-muted line-through" : "text-japandi-text-secondary"}`}>
+                          <span className="font-medium">{o.fromPlayerName}</span>
+                          {" → "}
+                          <span className="font-medium">{o.toPlayerName}</span>
+                          {o.amountPaid > 0 && !isSettled && (
+                            <span className="block text-xs text-japandi-text-muted no-underline">
+                              {formatAmount(o.amountPaid, o.currency)} paid, {formatAmount(o.outstanding, o.currency)} left after the session changed
+                            </span>
+                          )}
+                        </span>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <span className="text-japandi-text-primary font-semibold whitespace-nowrap">{formatAmount(o.amount, o.currency)}</span>
+                          <button
+                            onClick={() => setPaid([o], !isSettled)}
+                            disabled={isSaving}
+                            className={`px-3 py-1 text-xs font-medium rounded-full border transition-all ${
+                              isSettled
+                                ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                                : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary"
+                            }`}
+                            title={isSettled ? "Mark as unpaid" : "Mark as paid"}
+                          >
+                            {isSettled ? "Paid ✓" : "Mark paid"}
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Game, Player, RallyWinner } from "@/types";
+import { getMatchMaxSets, ScoringRule } from "@/lib/scoring";
+import {
+  clearLiveScore,
+  COMEBACK_MIN_DEFICIT,
+  getLiveScoreResult,
+  getRallyStats,
+  LiveScore,
+  LiveScoreSetup,
+  replayLiveScore,
+  saveLiveScore,
+} from "@/lib/liveScoring";
+
+interface LiveScoreboardProps {
+  sessionId: string;
+  players: Player[];
+  teamA: string[];
+  teamB: string[];
+  isMatch: boolean;
+  scoringRule: ScoringRule;
+  gameId?: string; // Unplayed game being filled in
+  resumeFrom?: LiveScore | null;
+  onFinish: (
+    result: Pick<Game, "teamAScore" | "teamBScore" | "sets" | "rallies"> & { winningTeam: RallyWinner },
+    setup: LiveScoreSetup
+  ) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen courtside scoreboard: tap the side that won each rally
+ * Tracks the serve and service courts, the interval, and game and match point. The game
+ * in progress is kept on this device, so closing the screen or reloading doesn't lose it.
+ */
+export default function LiveScoreboard({
+  sessionId,
+  players,
+  teamA,
+  teamB,
+  isMatch,
+  scoringRule,
+  gameId,
+  resumeFrom,
+  onFinish,
+  onClose,
+}: LiveScoreboardProps) {
+  const [live, setLive] = useState<LiveScore | null>(resumeFrom ?? null);
+  const [firstServer, setFirstServer] = useState<string | null>(null);
+  const isSingles = teamA.length === 1;
+
+  useEffect(() => {
+    if (live) {
+      saveLiveScore(sessionId, live);
+    }
+  }, [sessionId, live]);
+
+  const getPlayerName = (playerId: string): string => players.find((p) => p.id === playerId)?.name || "Unknown";
+  const getTeamName = (team: string[]): string => team.map(getPlayerName).join(" & ");
+
+  const start = (server: string, receiver: string) => {
+    setLive({ setup: { teamA, teamB, isMatch, firstServer: server, firstReceiver: receiver, gameId }, rallies: [] });
+  };
+
+  const handleChooseServer = (playerId: string) => {
+    if (isSingles) {
+      start(playerId, teamA.includes(playerId) ? teamB[0] : teamA[0]);
+    } else {
+      setFirstServer(playerId);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (live && live.rallies.length > 0 && !confirm("Discard this live game?")) {
+      return;
+    }
+    clearLiveScore(sessionId);
+    onClose();
+  };
+
+  const choiceButtonClassName =
+    "px-4 py-4 rounded-xl text-base font-medium bg-japandi-background-card text-japandi-text-primary border border-japandi-border-light hover:border-japandi-accent-primary active:scale-95 transition-all touch-manipulation";
+
+  // Setup: who serves first, and in doubles who receives
+  if (!live) {
+    const receivers = firstServer ? (teamA.includes(firstServer) ? teamB : teamA) : [];
+    return (
+      <div className="fixed inset-0 z-50 bg-japandi-background-primary overflow-y-auto">
+        <div className="max-w-md mx-auto p-4 sm:p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-japandi-text-primary">Live Scoring</h2>
+            <button onClick={onClose} className="text-sm text-japandi-text-secondary hover:text-japandi-text-primary">
+              Cancel
+            </button>
+          </div>
+          <p className="text-sm text-japandi-text-secondary">
+            {getTeamName(teamA)} vs {getTeamName(teamB)} • {isMatch ? `Best of ${getMatchMaxSets(scoringRule)}` : "Single game"} • {scoringRule.label}
+          </p>
+          {!firstServer ? (
+            <div className="space-y-3">
+              <h3 className="text-base font-semibold text-japandi-text-primary">Who serves first?</h3>
+              <div className="grid grid-cols-2 gap-3">
+                {teamA.concat(teamB).map((playerId) => (
+                  <button key={playerId} onClick={() => handleChooseServer(playerId)} className={choiceButtonClassName}>
+                    {getPlayerName(playerId)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <h3 className="text-base font-semibold text-japandi-text-primary">
+                Who receives {getPlayerName(firstServer)}&apos;s first serve?
+              </h3>
+              <div className="grid grid-cols-2 gap-3">
+                {receivers.map((playerId) => (
+                  <button key={playerId} onClick={() => start(firstServer, playerId)} className={choiceButtonClassName}>
+                    {getPlayerName(playerId)}
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => setFirstServer(null)} className="text-sm text-japandi-text-secondary hover:text-japandi-text-primary">
+                ← Change server
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const board = replayLiveScore(scoringRule, live);
+  const setNumber = board.sets.length;
+  const stats = board.winningTeam ? getRallyStats(board.rallies, board.winningTeam) : null;
+
+  const handleRally = (team: RallyWinner) => {
+    if (board.winningTeam) return;
+    setLive({ ...live, rallies: live.rallies.concat([team]) });
+  };
+
+  const handleUndo = () => {
+    setLive({ ...live, rallies: live.rallies.slice(0, -1) });
+  };
+
+  const handleSave = () => {
+    onFinish(getLiveScoreResult(board), live.setup);
+    clearLiveScore(sessionId);
+  };
+
+  const SideButton = ({ team }: { team: RallyWinner }) => {
+    const members = team === "A" ? live.setup.teamA : live.setup.teamB;
+    const score = team === "A" ? board.score.teamAScore : board.score.teamBScore;
+    const setsWon = team === "A" ? board.setsWon.teamA : board.setsWon.teamB;
+    const serving = !board.winningTeam && board.servingTeam === team;
+    const flag = board.matchPoint === team ? "Match point" : board.gamePoint === team ? "Game point" : null;
+
+    return (
+      <button
+        type="button"
+        onClick={() => handleRally(team)}
+        disabled={!!board.winningTeam}
+        className={`flex-1 min-h-[35vh] sm:min-h-[60vh] flex flex-col items-center justify-center gap-2 rounded-card border-4 p-4 transition-all active:scale-[0.98] touch-manipulation select-none ${
+          serving ? "border-japandi-accent-primary bg-japandi-background-card" : "border-japandi-border-light bg-japandi-background-card"
+        } ${board.winningTeam && board.winningTeam !== team ? "opacity-50" : ""}`}
+        aria-label={`Rally to ${getTeamName(members)}`}
+      >
+        <span className="text-base sm:text-lg font-semibold text-japandi-text-primary text-center">
+          {members.map((id) => (
+            <span key={id} className="block">
+              {serving && board.server === id ? "🏸 " : ""}
+              {getPlayerName(id)}
+            </span>
+          ))}
+        </span>
+        <span className="text-8xl sm:text-9xl font-bold text-japandi-text-primary tabular-nums">{score}</span>
+        {isMatch && (
+          <span className="text-sm text-japandi-text-muted">
+            {setsWon} set{setsWon !== 1 ? "s" : ""}
+          </span>
+        )}
+        {flag && (
+          <span className="px-3 py-1 text-sm font-semibold rounded-full bg-yellow-100 text-yellow-800">{flag}</span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-japandi-background-primary flex flex-col p-3 sm:p-6 gap-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-japandi-text-secondary">
+          {isMatch ? `Set ${setNumber}` : "Game"} • {scoringRule.label}
+          {board.sets.length > 1 &&
+            ` • ${board.sets
+              .slice(0, -1)
+              .map((set) => `${set.teamAScore}-${set.teamBScore}`)
+              .join(", ")}`}
+        </span>
+        <button onClick={onClose} className="text-japandi-text-secondary hover:text-japandi-text-primary">
+          Close
+        </button>
+      </div>
+
+      {board.winningTeam ? (
+        <div className="px-4 py-3 bg-green-50 border border-green-200 rounded-xl text-sm text-green-800 text-center">
+          <div className="font-semibold">
+            {getTeamName(board.winningTeam === "A" ? live.setup.teamA : live.setup.teamB)} win
+            {isMatch && ` ${Math.max(board.setsWon.teamA, board.setsWon.teamB)}-${Math.min(board.setsWon.teamA, board.setsWon.teamB)}`}
+          </div>
+          {stats?.longestRun && (
+            <div className="mt-1">
+              Longest run: {stats.longestRun.length} by {getTeamName(stats.longestRun.team === "A" ? live.setup.teamA : live.setup.teamB)}
+              {stats.comebackDeficit >= COMEBACK_MIN_DEFICIT && ` • Came back from ${stats.comebackDeficit} down`}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center text-sm sm:text-base text-japandi-text-secondary">
+          {getPlayerName(board.server)} serves from the {board.serviceCourt} to {getPlayerName(board.receiver)}
+          {board.interval && (
+            <span className="ml-2 px-3 py-1 text-sm font-semibold rounded-full bg-japandi-accent-primary text-white">
+              {board.changeEnds ? "Interval • Change ends" : "Interval"}
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 flex flex-col sm:flex-row gap-3">
+        <SideButton team="A" />
+        <SideButton team="B" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <button
+          onClick={handleDiscard}
+          className="px-4 py-3 text-sm bg-japandi-background-card text-japandi-text-secondary border border-japandi-border-light rounded-full active:scale-95 transition-all touch-manipulation"
+        >
+          Discard
+        </button>
+        <button
+          onClick={handleUndo}
+          disabled={live.rallies.length === 0}
+          className="px-4 py-3 text-sm bg-japandi-background-card text-japandi-text-primary border border-japandi-border-light rounded-full disabled:opacity-50 active:scale-95 transition-all touch-manipulation"
+        >
+          Undo
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!board.winningTeam}
+          className="px-4 py-3 text-sm bg-japandi-accent-primary hover:bg-japandi-accent-hover disabled:bg-japandi-text-muted text-white font-semibold rounded-full active:scale-95 transition-all touch-manipulation"
+        >
+          Save Game
+        </button>
+      </div>
+    </div>
+  );
+}
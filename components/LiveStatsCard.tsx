@@ -1,7 +1,7 @@
 "use client";
 
 import { PlayerStats } from "@/lib/calculations";
-import { Player } from "@/types";
+import { CurrencySettings, Player } from "@/types";
 import { formatCurrency } from "@/lib/calculations";
 
 interface LiveStatsCardProps {
@@ -10,6 +10,7 @@ interface LiveStatsCardProps {
   bettingEnabled?: boolean;
   pointsScored?: number;
   pointsConceded?: number;
+  currencySettings?: CurrencySettings;
 }
 
 export default function LiveStatsCard({ 
@@ -18,6 +19,7 @@ export default function LiveStatsCard({
   bettingEnabled = true,
   pointsScored = 0,
   pointsConceded = 0,
+  currencySettings,
 }: LiveStatsCardProps) {
   const isPositive = stats.gamblingNet > 0;
   const isNegative = stats.gamblingNet < 0;
@@ -80,7 +82,7 @@ export default function LiveStatsCard({
               }`}
             >
               {isPositive && "+"}
-              {formatCurrency(stats.gamblingNet)}
+              {formatCurrency(stats.gamblingNet, currencySettings)}
             </div>
             <div className="text-xs sm:text-sm text-japandi-text-muted mt-1">
               Net
@@ -1,12 +1,14 @@
 "use client";
 
 import { useState } from "react";
-import { PlayerDetailedStats, PartnerStats, OpponentStats, ClutchGame, UnluckyGame } from "@/types";
+import { PlayerDetailedStats, PartnerStats, OpponentStats, ClutchGame, UnluckyGame, EloHistoryEntry } from "@/types";
 import { formatPercentage } from "@/lib/calculations";
 import { PlayerMatchupDetailSheet } from "./PlayerMatchupDetailSheet";
+import { EloHistoryChart } from "./EloHistoryChart";
 
 interface PlayerProfileSheetProps {
   stats: PlayerDetailedStats;
+  eloHistory?: EloHistoryEntry[];
   onClose: () => void;
 }
 
@@ -21,7 +23,7 @@ type SelectedMatchup = {
 const INITIAL_GAMES_COUNT = 3;
 const LOAD_MORE_COUNT = 5;
 
-export function PlayerProfileSheet({ stats, onClose }: PlayerProfileSheetProps) {
+export function PlayerProfileSheet({ stats, eloHistory, onClose }: PlayerProfileSheetProps) {
   const [selectedMatchup, setSelectedMatchup] = useState<SelectedMatchup>(null);
   const [visibleGamesCount, setVisibleGamesCount] = useState(INITIAL_GAMES_COUNT);
   const [showUnluckyGames, setShowUnluckyGames] = useState(false);
@@ -138,6 +140,16 @@ export function PlayerProfileSheet({ stats, onClose }: PlayerProfileSheetProps)
             </div>
           </div>
 
+          {/* ELO History */}
+          {eloHistory && (
+            <div>
+              <h3 className="text-sm font-semibold text-japandi-text-muted uppercase tracking-wide mb-3">
+                ELO History
+              </h3>
+              <EloHistoryChart history={eloHistory} />
+            </div>
+          )}
+
           {/* Recent Form */}
           {stats.recentForm.length > 0 && (
             <div>
@@ -1,12 +1,29 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Player, Game } from "@/types";
+import { Player, Game, GameSet } from "@/types";
 import { useSession } from "@/contexts/SessionContext";
-
-// Score constraints
+import { recordCourtQueueResult } from "@/lib/courtQueue";
+import {
+  countSetsWon,
+  getMatchMaxSets,
+  getScoringRule,
+  inferWinningTeam,
+  resolveGameResult,
+  resolveMatchResult,
+} from "@/lib/scoring";
+import { getSavedLiveScore, LiveScore, LiveScoreSetup } from "@/lib/liveScoring";
+import LiveScoreboard from "@/components/LiveScoreboard";
+
+// Score constraints - the top end is the session's scoring rule cap
 const SCORE_MIN = 0;
-const SCORE_MAX = 30;
+
+interface SetScoreInput {
+  teamA: string;
+  teamB: string;
+}
+
+const emptySets = (count: number): SetScoreInput[] => Array.from({ length: count }, () => ({ teamA: "", teamB: "" }));
 
 interface QuickGameFormProps {
   players: Player[];
@@ -23,11 +40,13 @@ export default function QuickGameForm({
   initialTeamB,
   gameToUpdate,
 }: QuickGameFormProps) {
-  const { addGame, updateGame, session } = useSession();
+  const { addGame, updateGame, updateCourtQueue, session, games } = useSession();
   const gameMode = session?.gameMode || "doubles";
   const isSingles = gameMode === "singles";
   const requiredPerTeam = isSingles ? 1 : 2;
   const hasOnlyTwoPlayers = isSingles && players.length === 2;
+  const scoringRule = getScoringRule(session?.scoringRule);
+  const maxSets = getMatchMaxSets(scoringRule);
   
   // Simplified state: arrays instead of tuples with nulls
   const [teamA, setTeamA] = useState<string[]>([]);
@@ -36,8 +55,28 @@ export default function QuickGameForm({
   const [teamAScore, setTeamAScore] = useState<string>("");
   const [teamBScore, setTeamBScore] = useState<string>("");
 
+  // Best of three: the sets of a match are recorded together as one game
+  // Starts the way the game being edited, or else the last game recorded, was played
+  const [isMatch, setIsMatch] = useState(() => {
+    const lastPlayed = games.filter((g) => g.winningTeam !== null).pop();
+    return !!(gameToUpdate?.sets?.length || (!gameToUpdate?.winningTeam && lastPlayed?.sets?.length));
+  });
+  const [setScores, setSetScores] = useState<SetScoreInput[]>(() => emptySets(maxSets));
+
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Live scoring: a game in progress on this device can be resumed
+  const [showScoreboard, setShowScoreboard] = useState(false);
+  const [savedLiveScore, setSavedLiveScore] = useState<LiveScore | null>(null);
+  const [liveResume, setLiveResume] = useState<LiveScore | null>(null);
+  const sessionId = session?.id;
+
+  useEffect(() => {
+    if (sessionId && !showScoreboard) {
+      setSavedLiveScore(getSavedLiveScore(sessionId));
+    }
+  }, [sessionId, showScoreboard]);
+
   // Initialize teams from props or auto-assign for 2-player singles
   useEffect(() => {
     if (initialTeamA && initialTeamB) {
@@ -49,6 +88,40 @@ export default function QuickGameForm({
     }
   }, [initialTeamA, initialTeamB, hasOnlyTwoPlayers, players, gameToUpdate]);
 
+  // One row per set the session's matches can go to - 3, or 5 under 11x5
+  useEffect(() => {
+    setSetScores((current) => (current.length === maxSets ? current : emptySets(maxSets)));
+  }, [maxSets]);
+
+  // Entering both scores picks the winner - choosing the other side then shows an error
+  useEffect(() => {
+    const inferred = inferWinningTeam(parseInt(teamAScore), parseInt(teamBScore));
+    if (inferred) {
+      setWinningTeam(inferred);
+    }
+  }, [teamAScore, teamBScore]);
+
+  // Sets up to the last one with a score - a half-entered set is reported, not skipped
+  const lastEnteredSet = setScores.map((set) => set.teamA !== "" || set.teamB !== "").lastIndexOf(true);
+  const matchRows = setScores.slice(0, lastEnteredSet + 1);
+  const incompleteSet = matchRows.findIndex((set) => set.teamA === "" || set.teamB === "");
+  const enteredSets: GameSet[] = matchRows.map((set) => ({ teamAScore: parseInt(set.teamA), teamBScore: parseInt(set.teamB) }));
+  // Enough rows for the match to be won, and one more for each set the trailing side takes
+  const setsWon = countSetsWon(enteredSets.filter((set) => !isNaN(set.teamAScore) && !isNaN(set.teamBScore)));
+  const visibleSets = Math.min(
+    maxSets,
+    Math.max(lastEnteredSet + 1, scoringRule.setsToWin + Math.min(setsWon.teamA, setsWon.teamB))
+  );
+
+  // A finished match picks its winner too
+  const matchResult = isMatch && enteredSets.length > 0 && incompleteSet < 0 ? resolveMatchResult(scoringRule, enteredSets) : null;
+  const matchWinner = matchResult && !("error" in matchResult) ? matchResult.winningTeam : null;
+  useEffect(() => {
+    if (matchWinner) {
+      setWinningTeam(matchWinner);
+    }
+  }, [matchWinner]);
+
   // Derived state
   const availableForTeamA = players.filter(p => !teamB.includes(p.id));
   const availableForTeamB = players.filter(p => !teamA.includes(p.id));
@@ -104,65 +177,126 @@ export default function QuickGameForm({
     if (isNaN(num)) return;
     if (num < SCORE_MIN) {
       setScore(String(SCORE_MIN));
-    } else if (num > SCORE_MAX) {
-      setScore(String(SCORE_MAX));
+    } else if (num > scoringRule.cap) {
+      setScore(String(scoringRule.cap));
     } else {
       setScore(value);
     }
   };
 
-  // Validate scores: winning team score must be >= losing team score
-  const scoresValid = (): boolean => {
-    if (!teamAScore && !teamBScore) return true;
-    if (!teamAScore || !teamBScore) return true;
-    const scoreA = parseInt(teamAScore);
-    const scoreB = parseInt(teamBScore);
-    if (isNaN(scoreA) || isNaN(scoreB)) return true;
-    
-    if (winningTeam === 'A') return scoreA >= scoreB;
-    if (winningTeam === 'B') return scoreB >= scoreA;
-    return true;
+  const handleSetScoreChange = (index: number, team: keyof SetScoreInput, value: string) => {
+    handleScoreChange(value, (score) =>
+      setSetScores((current) => current.map((set, i) => (i === index ? { ...set, [team]: score } : set)))
+    );
   };
 
-  const scoreValidationError = teamsComplete && winningTeam && teamAScore && teamBScore && !scoresValid()
-    ? "Winner's score must be ≥ loser's score"
-    : null;
+  // Validate scores against the session's rule (win by 2, cap) and the chosen winner
+  const scoreResult: ReturnType<typeof resolveGameResult> = !isMatch
+    ? resolveGameResult(scoringRule, {
+        winningTeam,
+        teamAScore: teamAScore === "" ? undefined : parseInt(teamAScore),
+        teamBScore: teamBScore === "" ? undefined : parseInt(teamBScore),
+      })
+    : incompleteSet >= 0
+      ? { error: `Enter both scores for set ${incompleteSet + 1}` }
+      : resolveGameResult(scoringRule, { winningTeam, sets: enteredSets });
+  const scoresValid = !("error" in scoreResult);
+
+  const scoreValidationError = teamsComplete && "error" in scoreResult ? scoreResult.error : null;
+
+  const canSave = teamsComplete && winningTeam !== null && scoresValid;
+
+  // Save a result for the given teams - a new game, or the game being filled in or edited
+  const saveGame = (
+    teams: { teamA: string[]; teamB: string[] },
+    result: Partial<Game> & { winningTeam: "A" | "B" },
+    target: Game | null | undefined
+  ) => {
+    if (target) {
+      updateGame(target.id, result);
+    } else {
+      addGame({
+        teamA: teams.teamA as [string] | [string, string],
+        teamB: teams.teamB as [string] | [string, string],
+        ...result,
+      });
+    }
+
+    // Advance the court queue if this game was played on one of its courts
+    // (editing an already-recorded game never moves the queue)
+    if (session?.courtQueue && (!target || target.winningTeam === null)) {
+      const winners = result.winningTeam === "A" ? teams.teamA : teams.teamB;
+      const losers = result.winningTeam === "A" ? teams.teamB : teams.teamA;
+      const nextQueue = recordCourtQueueResult(session.courtQueue, winners, losers, gameMode);
+      if (nextQueue) {
+        updateCourtQueue(nextQueue).catch(() => {
+          // Queue stays on the old state; the game itself is already saved
+        });
+      }
+    }
 
-  const canSave = teamsComplete && winningTeam !== null && scoresValid();
+    // Reset form
+    setTeamA([]);
+    setTeamB([]);
+    setWinningTeam(null);
+    setTeamAScore("");
+    setTeamBScore("");
+    setSetScores(emptySets(maxSets));
+    onGameSaved();
+  };
 
   const handleSave = async () => {
     if (!canSave) return;
 
+    // A match is stored with its sets and the points won across them
+    const matchTotals = !("error" in scoreResult) ? scoreResult : null;
+    const scores: Partial<Game> =
+      isMatch && enteredSets.length > 0
+        ? { sets: enteredSets, teamAScore: matchTotals?.teamAScore, teamBScore: matchTotals?.teamBScore }
+        : {
+            teamAScore: teamAScore ? parseInt(teamAScore) : undefined,
+            teamBScore: teamBScore ? parseInt(teamBScore) : undefined,
+          };
+
+    // Recording a match as a single game drops its sets
+    if (gameToUpdate?.sets?.length && !scores.sets) {
+      scores.sets = [];
+    }
+
     setIsSubmitting(true);
     try {
-      if (gameToUpdate) {
-        updateGame(gameToUpdate.id, {
-          winningTeam: winningTeam!,
-          teamAScore: teamAScore ? parseInt(teamAScore) : undefined,
-          teamBScore: teamBScore ? parseInt(teamBScore) : undefined,
-        });
-      } else {
-        addGame({
-          teamA: teamA as [string] | [string, string],
-          teamB: teamB as [string] | [string, string],
-          winningTeam: winningTeam!,
-          teamAScore: teamAScore ? parseInt(teamAScore) : undefined,
-          teamBScore: teamBScore ? parseInt(teamBScore) : undefined,
-        });
-      }
-
-      // Reset form
-      setTeamA([]);
-      setTeamB([]);
-      setWinningTeam(null);
-      setTeamAScore("");
-      setTeamBScore("");
-      onGameSaved();
+      saveGame({ teamA, teamB }, { ...scores, winningTeam: winningTeam! }, gameToUpdate);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Live scoring is for games without a result yet - new ones, or unplayed round robin games
+  const canScoreLive = teamsComplete && !gameToUpdate?.winningTeam;
+
+  const handleStartLive = () => {
+    if (savedLiveScore && !confirm("Start a new live game? The one in progress will be discarded.")) {
+      return;
+    }
+    setLiveResume(null);
+    setShowScoreboard(true);
+  };
+
+  const handleResumeLive = () => {
+    setLiveResume(savedLiveScore);
+    setShowScoreboard(true);
+  };
+
+  const handleLiveFinish = (
+    result: Pick<Game, "teamAScore" | "teamBScore" | "sets" | "rallies"> & { winningTeam: "A" | "B" },
+    setup: LiveScoreSetup
+  ) => {
+    setShowScoreboard(false);
+    // The unplayed game it was filled in for, unless it's been played since
+    const target = setup.gameId ? games.find((g) => g.id === setup.gameId && g.winningTeam === null) : null;
+    saveGame(setup, result, target);
+  };
+
   // Show message if no players exist
   if (players.length === 0) {
     return (
@@ -215,6 +349,32 @@ export default function QuickGameForm({
 
   return (
     <div className="space-y-6">
+      {showScoreboard && sessionId && (
+        <LiveScoreboard
+          sessionId={sessionId}
+          players={players}
+          teamA={liveResume?.setup.teamA ?? teamA}
+          teamB={liveResume?.setup.teamB ?? teamB}
+          isMatch={liveResume?.setup.isMatch ?? isMatch}
+          scoringRule={scoringRule}
+          gameId={liveResume ? liveResume.setup.gameId : gameToUpdate?.id}
+          resumeFrom={liveResume}
+          onFinish={handleLiveFinish}
+          onClose={() => setShowScoreboard(false)}
+        />
+      )}
+
+      {/* Live game in progress on this device */}
+      {savedLiveScore && !showScoreboard && (
+        <button
+          type="button"
+          onClick={handleResumeLive}
+          className="w-full px-4 py-3 bg-japandi-background-card border-2 border-japandi-accent-primary rounded-xl text-sm font-medium text-japandi-text-primary hover:bg-japandi-background-primary transition-all touch-manipulation"
+        >
+          🏸 Resume live game: {getTeamDisplayName(savedLiveScore.setup.teamA)} vs {getTeamDisplayName(savedLiveScore.setup.teamB)}
+        </button>
+      )}
+
       {/* Singles mode with only 2 players - skip selection */}
       {hasOnlyTwoPlayers ? (
         <>
@@ -324,6 +484,17 @@ export default function QuickGameForm({
         </>
       )}
 
+      {/* Live scoring - point by point instead of entering the result afterwards */}
+      {canScoreLive && (
+        <button
+          type="button"
+          onClick={handleStartLive}
+          className="w-full px-4 py-3 bg-japandi-background-card hover:bg-japandi-background-primary text-japandi-text-primary font-semibold rounded-full border border-japandi-border-light active:scale-95 transition-all touch-manipulation"
+        >
+          🏸 Score live{isMatch ? ` (best of ${maxSets})` : ""}
+        </button>
+      )}
+
       {/* Winner Selection - Shows player names */}
       {teamsComplete && (
         <div className="space-y-3 pt-2">
@@ -365,42 +536,87 @@ export default function QuickGameForm({
       {teamsComplete && (
         <div className="space-y-3">
           <h3 className="text-base font-semibold text-japandi-text-primary">
-            Scores <span className="font-normal text-japandi-text-muted">(Optional)</span>
+            Scores <span className="font-normal text-japandi-text-muted">(Optional • {scoringRule.label})</span>
           </h3>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm text-japandi-text-muted mb-2 truncate">
-                {getTeamDisplayName(teamA)}
-              </label>
-              <input
-                type="number"
-                inputMode="numeric"
-                min={SCORE_MIN}
-                max={SCORE_MAX}
-                value={teamAScore}
-                onChange={(e) => handleScoreChange(e.target.value, setTeamAScore)}
-                placeholder="Score"
-                className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
-                aria-label={`${getTeamDisplayName(teamA)} score`}
-              />
+          <div className="flex gap-2">
+            {[false, true].map((match) => (
+              <button
+                key={String(match)}
+                type="button"
+                onClick={() => setIsMatch(match)}
+                className={`px-3 py-1 text-sm font-medium rounded-full border transition-all ${
+                  isMatch === match
+                    ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                    : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary hover:bg-japandi-background-primary"
+                }`}
+              >
+                {match ? `Best of ${maxSets}` : "Single game"}
+              </button>
+            ))}
+          </div>
+          {isMatch ? (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[3.5rem_1fr_1fr] gap-3 text-sm text-japandi-text-muted">
+                <span />
+                <span className="truncate">{getTeamDisplayName(teamA)}</span>
+                <span className="truncate">{getTeamDisplayName(teamB)}</span>
+              </div>
+              {setScores.slice(0, visibleSets).map((set, index) => (
+                <div key={index} className="grid grid-cols-[3.5rem_1fr_1fr] gap-3 items-center">
+                  <span className="text-sm text-japandi-text-muted">Set {index + 1}</span>
+                  {(["teamA", "teamB"] as const).map((team) => (
+                    <input
+                      key={team}
+                      type="number"
+                      inputMode="numeric"
+                      min={SCORE_MIN}
+                      max={scoringRule.cap}
+                      value={set[team]}
+                      onChange={(e) => handleSetScoreChange(index, team, e.target.value)}
+                      placeholder="Score"
+                      className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+                      aria-label={`${getTeamDisplayName(team === "teamA" ? teamA : teamB)} set ${index + 1} score`}
+                    />
+                  ))}
+                </div>
+              ))}
             </div>
-            <div>
-              <label className="block text-sm text-japandi-text-muted mb-2 truncate">
-                {getTeamDisplayName(teamB)}
-              </label>
-              <input
-                type="number"
-                inputMode="numeric"
-                min={SCORE_MIN}
-                max={SCORE_MAX}
-                value={teamBScore}
-                onChange={(e) => handleScoreChange(e.target.value, setTeamBScore)}
-                placeholder="Score"
-                className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
-                aria-label={`${getTeamDisplayName(teamB)} score`}
-              />
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-japandi-text-muted mb-2 truncate">
+                  {getTeamDisplayName(teamA)}
+                </label>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={SCORE_MIN}
+                  max={scoringRule.cap}
+                  value={teamAScore}
+                  onChange={(e) => handleScoreChange(e.target.value, setTeamAScore)}
+                  placeholder="Score"
+                  className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+                  aria-label={`${getTeamDisplayName(teamA)} score`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-japandi-text-muted mb-2 truncate">
+                  {getTeamDisplayName(teamB)}
+                </label>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={SCORE_MIN}
+                  max={scoringRule.cap}
+                  value={teamBScore}
+                  onChange={(e) => handleScoreChange(e.target.value, setTeamBScore)}
+                  placeholder="Score"
+                  className="w-full px-4 py-3 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all"
+                  aria-label={`${getTeamDisplayName(teamB)} score`}
+                />
+              </div>
             </div>
-          </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { GroupRatingSettings, RatingEngineName } from "@/types";
+
+interface RatingSettingsCardProps {
+  settings: GroupRatingSettings;
+  onSave: (settings: GroupRatingSettings) => Promise<void>;
+}
+
+const ENGINE_LABELS: Record<RatingEngineName, string> = {
+  elo: "ELO",
+  glicko2: "Glicko-2",
+};
+
+const inputClassName =
+  "w-full px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all";
+
+/**
+ * Collapsible editor for a group's ELO settings
+ * Saving replays every game in the group, so it asks for confirmation first
+ */
+export function RatingSettingsCard({ settings, onSave }: RatingSettingsCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState<GroupRatingSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the form in sync when the saved settings change
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const isElo = draft.engine === "elo";
+  const isDirty =
+    draft.engine !== settings.engine ||
+    draft.kFactor !== settings.kFactor ||
+    draft.startingRating !== settings.startingRating ||
+    draft.ratingFloor !== settings.ratingFloor ||
+    draft.marginOfVictory !== settings.marginOfVictory;
+
+  const handleNumberChange = (field: "kFactor" | "startingRating" | "ratingFloor", value: string) => {
+    setDraft({ ...draft, [field]: value === "" ? 0 : parseInt(value, 10) });
+  };
+
+  const handleSave = async () => {
+    if (!confirm("Changing rating settings recalculates every player's ELO from the full game history. Continue?")) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update rating settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-japandi-background-card border border-japandi-border-light rounded-xl shadow-soft">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <h3 className="font-semibold text-japandi-text-primary">Rating Settings</h3>
+          <p className="text-xs text-japandi-text-muted">
+            {ENGINE_LABELS[settings.engine]}
+            {settings.engine === "elo" ? ` • K ${settings.kFactor}` : ""} • Start {settings.startingRating} • Floor {settings.ratingFloor}
+            {settings.engine === "elo" && settings.marginOfVictory ? " • Margin of victory" : ""}
+          </p>
+        </div>
+        <span className="text-japandi-text-muted">{isExpanded ? "▲" : "▼"}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex gap-2">
+            {(Object.keys(ENGINE_LABELS) as RatingEngineName[]).map((engine) => (
+              <button
+                key={engine}
+                onClick={() => setDraft({ ...draft, engine })}
+                className={`flex-1 px-3 py-2 text-sm font-medium rounded-card border transition-all ${
+                  draft.engine === engine
+                    ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                    : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary"
+                }`}
+              >
+                {ENGINE_LABELS[engine]}
+              </button>
+            ))}
+          </div>
+          {!isElo && (
+            <p className="text-xs text-japandi-text-muted">
+              Glicko-2 also tracks how certain each rating is. Players who haven&apos;t played in a while
+              show a wider ± range on the leaderboard.
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-japandi-text-muted space-y-1">
+              <span>K-factor</span>
+              <input
+                type="number"
+                min={1}
+                max={200}
+                value={draft.kFactor}
+                onChange={(e) => handleNumberChange("kFactor", e.target.value)}
+                disabled={!isElo}
+                className={`${inputClassName} disabled:opacity-50`}
+              />
+            </label>
+            <label className="text-xs text-japandi-text-muted space-y-1">
+              <span>Starting rating</span>
+              <input
+                type="number"
+                min={100}
+                max={3000}
+                value={draft.startingRating}
+                onChange={(e) => handleNumberChange("startingRating", e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs text-japandi-text-muted space-y-1">
+              <span>Rating floor</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.ratingFloor}
+                onChange={(e) => handleNumberChange("ratingFloor", e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-japandi-text-primary">
+            <input
+              type="checkbox"
+              checked={draft.marginOfVictory}
+              onChange={(e) => setDraft({ ...draft, marginOfVictory: e.target.checked })}
+              disabled={!isElo}
+              className="mt-1"
+            />
+            <span>
+              Margin of victory
+              <span className="block text-xs text-japandi-text-muted">
+                Blowouts move ratings more than close games (ELO only, needs scores to be recorded)
+              </span>
+            </span>
+          </label>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving}
+              className="px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover disabled:bg-japandi-text-muted text-white text-sm font-semibold rounded-card transition-all"
+            >
+              {isSaving ? "Recalculating..." : "Save & Recalculate"}
+            </button>
+            {isDirty && !isSaving && (
+              <button
+                onClick={() => setDraft(settings)}
+                className="px-4 py-2 text-sm text-japandi-text-muted hover:text-japandi-text-primary transition-colors"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { Season } from "@/types";
+import { formatSeasonDates, hasSeasonEnded, isSeasonActive, SEASON_RATING_MODE_LABELS } from "@/lib/seasons";
+
+interface SeasonPickerProps {
+  seasons: Season[];
+  value: string; // "" for all time, "current", or a season ID
+  onChange: (value: string) => void;
+}
+
+/**
+ * Switches the leaderboard, pairings and overview between all time, the running season
+ * and finished seasons. Hidden until the group has a season to pick.
+ */
+export default function SeasonPicker({ seasons, value, onChange }: SeasonPickerProps) {
+  const currentSeason = seasons.find((season) => isSeasonActive(season)) ?? null;
+  const pastSeasons = seasons.filter((season) => hasSeasonEnded(season));
+
+  if (!currentSeason && pastSeasons.length === 0) {
+    return null;
+  }
+
+  const options = [
+    { value: "", label: "All time" },
+    ...(currentSeason ? [{ value: "current", label: "This season" }] : []),
+    ...pastSeasons.map((season) => ({ value: season.id, label: season.name })),
+  ];
+  const selected = value === "current" ? currentSeason : seasons.find((season) => season.id === value) ?? null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {options.map((option) => (
+          <button
+            key={option.value || "all"}
+            onClick={() => onChange(option.value)}
+            className={`px-3 py-1 text-sm font-medium rounded-full border whitespace-nowrap transition-all ${
+              value === option.value
+                ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary hover:bg-japandi-background-primary"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {selected && (
+        <p className="text-xs text-japandi-text-muted">
+          {selected.name} • {formatSeasonDates(selected)} • {SEASON_RATING_MODE_LABELS[selected.ratingMode]}
+          {selected.finalStandings ? " • Final standings" : ""}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { Season, SeasonInput, SeasonRatingMode } from "@/types";
+import {
+  formatSeasonDates,
+  getTodayDateString,
+  hasSeasonEnded,
+  isSeasonActive,
+  SEASON_RATING_MODE_LABELS,
+  SEASON_RATING_MODES,
+  validateSeasonInput,
+} from "@/lib/seasons";
+
+interface SeasonsCardProps {
+  seasons: Season[];
+  canManage: boolean; // Deleting and archiving need the admin PIN once the group has one
+  onCreate: (input: SeasonInput) => Promise<void>;
+  onUpdate: (seasonId: string, input: SeasonInput) => Promise<void>;
+  onDelete: (seasonId: string) => Promise<void>;
+  onArchive: (seasonId: string) => Promise<void>;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all";
+
+const RATING_MODE_HINTS: Record<SeasonRatingMode, string> = {
+  carry_over: "Everyone starts the season at the rating they finished the last games with",
+  reset: "Everyone starts the season at the group's starting rating",
+};
+
+function emptyDraft(): SeasonInput {
+  return { name: "", startDate: getTodayDateString(), endDate: null, ratingMode: "carry_over" };
+}
+
+/**
+ * Collapsible list and editor for a group's seasons
+ * Finished seasons can be archived, which freezes their final standings
+ */
+export function SeasonsCard({ seasons, canManage, onCreate, onUpdate, onDelete, onArchive }: SeasonsCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [draft, setDraft] = useState<SeasonInput>(emptyDraft);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentSeason = seasons.find((season) => isSeasonActive(season)) ?? null;
+
+  const startEditing = (season: Season | null) => {
+    setError(null);
+    setEditingId(season ? season.id : "new");
+    setDraft(
+      season
+        ? { name: season.name, startDate: season.startDate, endDate: season.endDate, ratingMode: season.ratingMode }
+        : emptyDraft()
+    );
+  };
+
+  const run = async (id: string, action: () => Promise<void>, fallback: string) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const input = { ...draft, name: draft.name.trim(), endDate: draft.endDate || null };
+    const validationError = validateSeasonInput(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const saved = await run(
+      editingId ?? "new",
+      () => (editingId && editingId !== "new" ? onUpdate(editingId, input) : onCreate(input)),
+      "Failed to save season"
+    );
+    if (saved) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (season: Season) => {
+    if (!confirm(`Delete "${season.name}"? Its games stay in the group's history.`)) {
+      return;
+    }
+    await run(season.id, () => onDelete(season.id), "Failed to delete season");
+  };
+
+  const handleArchive = async (season: Season) => {
+    const message = season.finalStandings
+      ? `Take a fresh snapshot of "${season.name}"'s final standings?`
+      : `Archive "${season.name}"? Its leaderboard is frozen at the current final standings.`;
+    if (!confirm(message)) {
+      return;
+    }
+    await run(season.id, () => onArchive(season.id), "Failed to archive season");
+  };
+
+  return (
+    <div className="bg-japandi-background-card border border-japandi-border-light rounded-xl shadow-soft">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <h3 className="font-semibold text-japandi-text-primary">Seasons</h3>
+          <p className="text-xs text-japandi-text-muted">
+            {currentSeason ? `${currentSeason.name} is running` : "No season running"}
+            {seasons.length > 0 ? ` • ${seasons.length} season${seasons.length !== 1 ? "s" : ""}` : ""}
+          </p>
+        </div>
+        <span className="text-japandi-text-muted">{isExpanded ? "▲" : "▼"}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-3">
+          {seasons.length > 0 && (
+            <div className="divide-y divide-japandi-border-light">
+              {seasons.map((season) => (
+                <div key={season.id} className="flex items-center justify-between gap-2 py-2 first:pt-0">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-japandi-text-primary truncate">{season.name}</div>
+                    <div className="text-xs text-japandi-text-muted">
+                      {formatSeasonDates(season)} • {SEASON_RATING_MODE_LABELS[season.ratingMode]}
+                      {season.finalStandings ? " • Archived" : ""}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0 text-xs font-medium">
+                    <button
+                      onClick={() => startEditing(season)}
+                      disabled={busyId !== null}
+                      className="text-japandi-accent-primary hover:text-japandi-accent-hover disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    {canManage && hasSeasonEnded(season) && (
+                      <button
+                        onClick={() => handleArchive(season)}
+                        disabled={busyId !== null}
+                        className="text-japandi-accent-primary hover:text-japandi-accent-hover disabled:opacity-50"
+                      >
+                        {busyId === season.id ? "..." : season.finalStandings ? "Re-archive" : "Archive"}
+                      </button>
+                    )}
+                    {canManage && (
+                      <button
+                        onClick={() => handleDelete(season)}
+                        disabled={busyId !== null}
+                        className="text-red-500 hover:text-red-600 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {editingId ? (
+            <div className="space-y-3 pt-1">
+              <label className="block text-xs text-japandi-text-muted space-y-1">
+                <span>Name</span>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Spring 2025"
+                  maxLength={100}
+                  className={inputClassName}
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-japandi-text-muted space-y-1">
+                  <span>Starts</span>
+                  <input
+                    type="date"
+                    value={draft.startDate}
+                    onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                    className={inputClassName}
+                  />
+                </label>
+                <label className="text-xs text-japandi-text-muted space-y-1">
+                  <span>Ends (optional)</span>
+                  <input
+                    type="date"
+                    value={draft.endDate ?? ""}
+                    onChange={(e) => setDraft({ ...draft, endDate: e.target.value || null })}
+                    className={inputClassName}
+                  />
+                </label>
+              </div>
+              <div className="flex gap-2">
+                {SEASON_RATING_MODES.map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setDraft({ ...draft, ratingMode: mode })}
+                    className={`flex-1 px-3 py-2 text-sm font-medium rounded-card border transition-all ${
+                      draft.ratingMode === mode
+                        ? "bg-japandi-accent-primary border-japandi-accent-primary text-white"
+                        : "bg-japandi-background-card border-japandi-border-light text-japandi-text-primary"
+                    }`}
+                  >
+                    {SEASON_RATING_MODE_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-japandi-text-muted">{RATING_MODE_HINTS[draft.ratingMode]}</p>
+
+              {error && <p className="text-sm text-red-500">{error}</p>}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setEditingId(null);
+                    setError(null);
+                  }}
+                  disabled={busyId !== null}
+                  className="flex-1 px-4 py-2 bg-japandi-background-card hover:bg-japandi-background-primary text-japandi-text-primary font-semibold rounded-full border border-japandi-border-light transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={busyId !== null || !draft.name.trim()}
+                  className="flex-1 px-4 py-2 bg-japandi-accent-primary hover:bg-japandi-accent-hover disabled:bg-japandi-text-muted disabled:cursor-not-allowed text-white font-semibold rounded-full transition-all"
+                >
+                  {busyId !== null ? "Saving..." : editingId === "new" ? "Add season" : "Save"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+              <button
+                onClick={() => startEditing(null)}
+                className="w-full px-4 py-2 bg-japandi-background-card hover:bg-japandi-background-primary text-japandi-text-primary font-semibold rounded-full border border-japandi-border-light transition-all"
+              >
+                + New season
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
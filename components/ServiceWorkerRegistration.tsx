@@ -0,0 +1,19 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registers public/sw.js so the app opens without a connection
+ * Production only - in development it would serve stale hot-reloaded chunks
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error('[ServiceWorker] Registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from "react";
 import Link from "next/link";
 import { Session } from "@/types";
 import { formatCurrency } from "@/lib/calculations";
+import { getCurrencySettings } from "@/lib/currency";
 import { useSession } from "@/contexts/SessionContext";
 import { useRouter } from "next/navigation";
 import { ApiClient } from "@/lib/api/client";
@@ -14,7 +15,7 @@ interface SessionHeaderProps {
 
 export default function SessionHeader({ session }: SessionHeaderProps) {
   const router = useRouter();
-  const { clearSession } = useSession();
+  const { clearSession, syncStatus, syncGames, dismissSyncConflicts } = useSession();
   const [groupName, setGroupName] = useState<string | null>(null);
   const navigationTimerRef = useRef<NodeJS.Timeout | null>(null);
   
@@ -50,11 +51,24 @@ export default function SessionHeader({ session }: SessionHeaderProps) {
     day: "numeric",
   });
 
+  // Where this device's game changes stand against the server
+  const pendingLabel = `${syncStatus.pendingCount} change${syncStatus.pendingCount === 1 ? "" : "s"}`;
+  const syncLabel =
+    syncStatus.state === "syncing" ? "Syncing…"
+    : syncStatus.state === "offline" ? `Offline · ${pendingLabel} saved on this device`
+    : syncStatus.state === "pending" ? `${pendingLabel} waiting to sync`
+    : "All games saved";
+  const syncDotClass =
+    syncStatus.state === "synced" ? "bg-green-500"
+    : syncStatus.state === "syncing" ? "bg-japandi-accent-primary animate-pulse"
+    : syncStatus.state === "offline" ? "bg-japandi-text-muted"
+    : "bg-yellow-500";
+
   const handleDeleteSession = async () => {
     const confirmed = window.confirm("Are you sure you want to delete this session? This action cannot be undone.");
     if (!confirmed) return;
     try {
-      await ApiClient.deleteSession(session.id);
+      await ApiClient.deleteSession(session.id, session.groupId);
       clearSession();
       navigationTimerRef.current = setTimeout(() => {
         // Redirect to group page for group sessions, home for standalone
@@ -115,17 +129,58 @@ export default function SessionHeader({ session }: SessionHeaderProps) {
                 •
               </span>
               <span className="text-sm text-japandi-text-muted">
-                {formatCurrency(session.betPerPlayer)} per game
+                {formatCurrency(session.betPerPlayer, getCurrencySettings(session))} per game
               </span>
             </div>
+            <div className="flex items-center gap-1.5 mt-2 text-xs text-japandi-text-muted">
+              <span className={`w-2 h-2 rounded-full ${syncDotClass}`} />
+              <span>{syncLabel}</span>
+              {(syncStatus.state === "pending" || syncStatus.state === "offline") && (
+                <button
+                  type="button"
+                  onClick={() => syncGames()}
+                  className="ml-1 text-japandi-accent-primary hover:text-japandi-accent-hover active:opacity-70 transition-all touch-manipulation"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <Link
+              href={`/session/${session.id}/summary`}
+              className="px-4 sm:px-5 py-2 sm:py-2.5 bg-japandi-accent-primary hover:bg-japandi-accent-hover text-white text-xs sm:text-sm font-semibold rounded-full transition-colors shadow-button whitespace-nowrap"
+            >
+              View Summary
+            </Link>
+            <Link
+              href={`/session/${session.id}/bracket`}
+              className="text-xs sm:text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors whitespace-nowrap"
+            >
+              {session.tournament ? "Tournament Bracket" : "Start Tournament"}
+            </Link>
           </div>
-          <Link
-            href={`/session/${session.id}/summary`}
-            className="px-4 sm:px-5 py-2 sm:py-2.5 bg-japandi-accent-primary hover:bg-japandi-accent-hover text-white text-xs sm:text-sm font-semibold rounded-full transition-colors shadow-button whitespace-nowrap"
-          >
-            View Summary
-          </Link>
         </div>
+
+        {/* Changes the server turned down because another device got there first */}
+        {syncStatus.conflicts.length > 0 && (
+          <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-card text-sm text-yellow-800">
+            <div className="flex items-start justify-between gap-3">
+              <ul className="space-y-1">
+                {syncStatus.conflicts.map((conflict, index) => (
+                  <li key={`${conflict.gameId}-${index}`}>{conflict.message}</li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={dismissSyncConflicts}
+                className="text-xs font-medium text-yellow-900 hover:opacity-70 whitespace-nowrap touch-manipulation"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,177 @@
+"use client";
+
+import { Game, Player, Tournament, TournamentStage } from "@/types";
+import { formatGameScore } from "@/lib/scoring";
+import {
+  BYE,
+  TournamentMatchState,
+  TournamentSide,
+  describeTournamentSlot,
+  getTournamentRoundName,
+  resolveTournament,
+} from "@/lib/tournament";
+
+interface TournamentBracketProps {
+  sessionId: string;
+  tournament: Tournament;
+  players: Player[];
+  games: Game[];
+}
+
+const STAGE_TITLES: Record<Exclude<TournamentStage, "pool">, string> = {
+  winners: "Winners bracket",
+  losers: "Losers bracket",
+  final: "Grand final",
+};
+
+/**
+ * Read-only view of a tournament: pool tables, then the bracket round by round
+ * Everything is worked out from the session's games, so results recorded on any phone show
+ * up here as they come in
+ */
+export default function TournamentBracket({ sessionId, tournament, players, games }: TournamentBracketProps) {
+  const state = resolveTournament(sessionId, tournament, games);
+  const entries = new Map(tournament.entries.map((entry) => [entry.id, entry]));
+
+  const getPlayerName = (playerId: string): string => players.find((p) => p.id === playerId)?.name || "Unknown";
+  const getEntryName = (entryId: string): string =>
+    entries.get(entryId)?.playerIds.map(getPlayerName).join(" & ") ?? "Unknown";
+
+  const knockoutStages = (["winners", "losers", "final"] as const).filter((stage) =>
+    state.matches.some((m) => m.match.stage === stage && m.status !== "skipped")
+  );
+
+  const Side = ({ matchState, side }: { matchState: TournamentMatchState; side: "A" | "B" }) => {
+    const entryId: TournamentSide = side === "A" ? matchState.entryA : matchState.entryB;
+    const slot = side === "A" ? matchState.match.slotA : matchState.match.slotB;
+    const isWinner = entryId !== null && entryId === matchState.winner;
+
+    if (entryId === null || entryId === BYE) {
+      return (
+        <div className="flex items-center gap-2 px-3 py-1.5 text-xs italic text-japandi-text-muted">
+          {entryId === BYE ? "Bye" : describeTournamentSlot(slot)}
+        </div>
+      );
+    }
+    return (
+      <div
+        className={`flex items-center gap-2 px-3 py-1.5 text-sm ${
+          isWinner ? "font-semibold text-japandi-text-primary" : "text-japandi-text-secondary"
+        } ${matchState.loser === entryId ? "opacity-60" : ""}`}
+      >
+        <span className="w-5 text-xs text-japandi-text-muted">{entries.get(entryId)?.seed}</span>
+        <span className="flex-1 min-w-0 truncate">{getEntryName(entryId)}</span>
+        {isWinner && <span className="text-japandi-accent-primary">✓</span>}
+      </div>
+    );
+  };
+
+  const MatchCard = ({ matchState }: { matchState: TournamentMatchState }) => {
+    const score = matchState.game ? formatGameScore(matchState.game) : null;
+    const label =
+      matchState.status === "played" ? score || "Played"
+      : matchState.status === "walkover" ? "Walkover"
+      : matchState.status === "ready" ? `Game ${matchState.game?.gameNumber ?? ""} • To play`
+      : "Waiting";
+
+    return (
+      <div
+        className={`w-56 bg-japandi-background-card border rounded-card shadow-soft ${
+          matchState.status === "ready" ? "border-japandi-accent-primary" : "border-japandi-border-light"
+        }`}
+      >
+        <div className="flex items-center justify-between px-3 pt-2 text-xs text-japandi-text-muted">
+          <span>{matchState.match.id}</span>
+          <span>{label}</span>
+        </div>
+        <Side matchState={matchState} side="A" />
+        <div className="border-t border-japandi-border-light mx-3" />
+        <Side matchState={matchState} side="B" />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {state.champion && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-card text-center">
+          <div className="text-xs uppercase tracking-wide text-green-700">Champion</div>
+          <div className="text-lg font-bold text-green-800">🏆 {getEntryName(state.champion)}</div>
+        </div>
+      )}
+
+      {state.pools.map((pool) => (
+        <div key={pool.name} className="bg-japandi-background-card border border-japandi-border-light rounded-card p-4 shadow-soft">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-base font-semibold text-japandi-text-primary">Pool {pool.name}</h3>
+            {pool.complete && <span className="text-xs text-japandi-text-muted">Final standings</span>}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-japandi-text-muted">
+                <th className="text-left font-medium pb-1">#</th>
+                <th className="text-left font-medium pb-1">Entry</th>
+                <th className="text-right font-medium pb-1">P</th>
+                <th className="text-right font-medium pb-1">W</th>
+                <th className="text-right font-medium pb-1">L</th>
+                <th className="text-right font-medium pb-1">+/-</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pool.standings.map((standing, index) => (
+                <tr
+                  key={standing.entryId}
+                  className={index < (tournament.advancePerPool ?? 0) ? "text-japandi-text-primary" : "text-japandi-text-secondary"}
+                >
+                  <td className="py-1">{index + 1}</td>
+                  <td className="py-1">
+                    {getEntryName(standing.entryId)}
+                    <span className="ml-1 text-xs text-japandi-text-muted">({entries.get(standing.entryId)?.seed})</span>
+                  </td>
+                  <td className="py-1 text-right">{standing.played}</td>
+                  <td className="py-1 text-right">{standing.wins}</td>
+                  <td className="py-1 text-right">{standing.losses}</td>
+                  <td className="py-1 text-right">{standing.pointsFor - standing.pointsAgainst}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-3 grid gap-2 sm:grid-cols-2">
+            {state.matches
+              .filter((m) => m.match.stage === "pool" && m.match.pool === pool.name)
+              .map((m) => (
+                <MatchCard key={m.match.id} matchState={m} />
+              ))}
+          </div>
+        </div>
+      ))}
+
+      {knockoutStages.map((stage) => {
+        const stageMatches = state.matches.filter((m) => m.match.stage === stage && m.status !== "skipped");
+        const rounds = Array.from(new Set(stageMatches.map((m) => m.match.round))).sort((a, b) => a - b);
+        return (
+          <div key={stage}>
+            {tournament.format === "double_elimination" && (
+              <h3 className="text-base font-semibold text-japandi-text-primary mb-3">{STAGE_TITLES[stage]}</h3>
+            )}
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {rounds.map((round) => {
+                const roundMatches = stageMatches.filter((m) => m.match.round === round);
+                return (
+                  <div key={round} className="flex flex-col justify-around gap-3 shrink-0">
+                    <div className="text-xs font-medium text-japandi-text-muted">
+                      {getTournamentRoundName(tournament, roundMatches[0].match)}
+                    </div>
+                    {roundMatches.map((m) => (
+                      <MatchCard key={m.match.id} matchState={m} />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
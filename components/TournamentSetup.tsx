@@ -0,0 +1,265 @@
+"use client";
+
+import { useState } from "react";
+import { Tournament, TournamentFormat, TournamentInput } from "@/types";
+import { useSession } from "@/contexts/SessionContext";
+import { ApiClient } from "@/lib/api/client";
+import {
+  MAX_TOURNAMENT_POOLS,
+  TOURNAMENT_FORMAT_LABELS,
+  TOURNAMENT_FORMATS,
+  validateTournamentInput,
+} from "@/lib/tournament";
+
+const selectClassName =
+  "w-full px-3 py-2 border border-japandi-border-light rounded-card bg-japandi-background-card text-japandi-text-primary text-base focus:ring-2 focus:ring-japandi-accent-primary focus:border-transparent transition-all";
+
+const FORMAT_DESCRIPTIONS: Record<TournamentFormat, string> = {
+  single_elimination: "One loss and you're out.",
+  double_elimination: "A first loss drops you into the losers bracket - two losses and you're out.",
+  pools_knockout: "Everyone plays their pool, then the top of each pool goes into a knockout.",
+};
+
+/**
+ * Starting a tournament on the session
+ * Entries are seeded by group rating on the server; the preview shows the seeding before
+ * anything is saved. Doubles pairs are drawn strongest with weakest unless chosen here.
+ */
+export default function TournamentSetup() {
+  const { session, startTournament } = useSession();
+  const [format, setFormat] = useState<TournamentFormat>("single_elimination");
+  const [poolCount, setPoolCount] = useState(2);
+  const [advancePerPool, setAdvancePerPool] = useState(2);
+  const [choosePairs, setChoosePairs] = useState(false);
+  const [pairs, setPairs] = useState<string[][]>([]);
+  const [pickedPlayerId, setPickedPlayerId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<Tournament | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!session) return null;
+  const isDoubles = session.gameMode === "doubles";
+  const getPlayerName = (playerId: string): string =>
+    session.players.find((p) => p.id === playerId)?.name || "Unknown";
+
+  const input: TournamentInput = {
+    format,
+    entries: isDoubles && choosePairs ? pairs : undefined,
+    poolCount: format === "pools_knockout" ? poolCount : undefined,
+    advancePerPool: format === "pools_knockout" ? advancePerPool : undefined,
+  };
+  const inputError = validateTournamentInput(input, session);
+  const pairedPlayerIds = new Set(pairs.flat());
+  const unpairedPlayers = session.players.filter((p) => !pairedPlayerIds.has(p.id));
+
+  // Any change makes the preview stale
+  const change = (apply: () => void) => {
+    apply();
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePickPlayer = (playerId: string) => {
+    if (!pickedPlayerId) {
+      setPickedPlayerId(playerId);
+    } else if (pickedPlayerId === playerId) {
+      setPickedPlayerId(null);
+    } else {
+      change(() => setPairs(pairs.concat([[pickedPlayerId, playerId]])));
+      setPickedPlayerId(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { tournament } = await ApiClient.startTournament(session.id, input, true);
+      setPreview(tournament);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to seed the tournament");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await startTournament(input);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start the tournament");
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-japandi-background-card border border-japandi-border-light rounded-card p-4 sm:p-5 shadow-soft space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-japandi-text-primary mb-2">Format</label>
+          <select
+            value={format}
+            onChange={(e) => change(() => setFormat(e.target.value as TournamentFormat))}
+            className={selectClassName}
+          >
+            {TOURNAMENT_FORMATS.map((value) => (
+              <option key={value} value={value}>
+                {TOURNAMENT_FORMAT_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-japandi-text-muted mt-1">{FORMAT_DESCRIPTIONS[format]}</p>
+        </div>
+
+        {format === "pools_knockout" && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-japandi-text-primary mb-2">Pools</label>
+              <select
+                value={poolCount}
+                onChange={(e) => change(() => setPoolCount(parseInt(e.target.value, 10)))}
+                className={selectClassName}
+              >
+                {Array.from({ length: MAX_TOURNAMENT_POOLS }, (_, index) => index + 1).map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-japandi-text-primary mb-2">Through from each pool</label>
+              <select
+                value={advancePerPool}
+                onChange={(e) => change(() => setAdvancePerPool(parseInt(e.target.value, 10)))}
+                className={selectClassName}
+              >
+                {[1, 2, 3, 4].map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {isDoubles && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-japandi-text-primary">Pairs</span>
+              <button
+                type="button"
+                onClick={() =>
+                  change(() => {
+                    setChoosePairs(!choosePairs);
+                    setPairs([]);
+                    setPickedPlayerId(null);
+                  })
+                }
+                className="text-xs sm:text-sm text-japandi-accent-primary hover:text-japandi-accent-hover transition-colors touch-manipulation"
+              >
+                {choosePairs ? "Pair by rating instead" : "Choose pairs"}
+              </button>
+            </div>
+            {!choosePairs ? (
+              <p className="text-xs text-japandi-text-muted">
+                Pairs are drawn by rating - the strongest player with the weakest, and so on.
+              </p>
+            ) : (
+              <>
+                {pairs.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {pairs.map((pair) => (
+                      <button
+                        key={pair.join("-")}
+                        type="button"
+                        onClick={() => change(() => setPairs(pairs.filter((p) => p !== pair)))}
+                        className="px-3 py-1.5 text-sm bg-japandi-accent-primary/10 text-japandi-accent-primary rounded-full touch-manipulation"
+                        title="Split this pair"
+                      >
+                        {pair.map(getPlayerName).join(" & ")} ×
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {unpairedPlayers.length > 0 && (
+                  <>
+                    <p className="text-xs text-japandi-text-muted">
+                      {pickedPlayerId ? `Pick ${getPlayerName(pickedPlayerId)}'s partner` : "Tap two players to pair them"}
+                      {" - anyone left unpaired sits the tournament out."}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {unpairedPlayers.map((player) => (
+                        <button
+                          key={player.id}
+                          type="button"
+                          onClick={() => handlePickPlayer(player.id)}
+                          className={`px-3 py-1.5 text-sm rounded-full border transition-colors touch-manipulation ${
+                            pickedPlayerId === player.id
+                              ? "bg-japandi-accent-primary text-white border-japandi-accent-primary"
+                              : "bg-japandi-background-card text-japandi-text-primary border-japandi-border-light hover:border-japandi-accent-primary"
+                          }`}
+                        >
+                          {player.name}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {(error || inputError) && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-card text-sm text-red-700">{error || inputError}</div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={isBusy || !!inputError}
+            className="flex-1 px-4 py-2.5 text-sm bg-japandi-background-card text-japandi-text-primary border border-japandi-border-light rounded-full disabled:opacity-50 active:scale-95 transition-all touch-manipulation"
+          >
+            Preview Seeding
+          </button>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isBusy || !!inputError}
+            className="flex-1 px-4 py-2.5 text-sm bg-japandi-accent-primary hover:bg-japandi-accent-hover disabled:bg-japandi-text-muted text-white font-semibold rounded-full active:scale-95 transition-all shadow-button touch-manipulation"
+          >
+            Start Tournament
+          </button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="bg-japandi-background-card border border-japandi-border-light rounded-card p-4 sm:p-5 shadow-soft">
+          <h3 className="text-base font-semibold text-japandi-text-primary mb-3">Seeding</h3>
+          <ol className="space-y-1.5">
+            {preview.entries.map((entry) => {
+              const pool = preview.pools?.find((p) => p.entryIds.includes(entry.id));
+              return (
+                <li key={entry.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-japandi-text-primary">
+                    <span className="inline-block w-6 text-japandi-text-muted">{entry.seed}</span>
+                    {entry.playerIds.map(getPlayerName).join(" & ")}
+                  </span>
+                  <span className="text-japandi-text-muted whitespace-nowrap">
+                    {pool ? `Pool ${pool.name} • ` : ""}
+                    {entry.rating}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React, { createContext, useContext, useState, useCallback, useEffect } from "react";
+import { AuthStatus, User } from "@/types";
+import { ApiClient } from "@/lib/api/client";
+
+interface AuthContextType {
+  user: User | null;
+  isEnabled: boolean; // A sign-in provider is configured - accounts are optional either way
+  isLoading: boolean;
+  refreshAuth: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+const SIGNED_OUT: AuthStatus = { enabled: false, provider: null, user: null };
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<AuthStatus>(SIGNED_OUT);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshAuth = useCallback(async () => {
+    try {
+      setStatus(await ApiClient.getAuthStatus());
+    } catch (error) {
+      // Offline or no database - carry on signed out
+      console.error("[AuthContext] Failed to load auth status:", error);
+      setStatus(SIGNED_OUT);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await ApiClient.signOut();
+    setStatus((current) => ({ ...current, user: null }));
+  }, []);
+
+  useEffect(() => {
+    refreshAuth();
+  }, [refreshAuth]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: status.user,
+        isEnabled: status.enabled,
+        isLoading,
+        refreshAuth,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
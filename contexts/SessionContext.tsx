@@ -1,8 +1,19 @@
 "use client";
 
-import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from "react";
-import { Session, Game, Group } from "@/types";
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { Session, Game, Group, CourtQueue, SessionLiveEvent, TournamentInput } from "@/types";
 import { ApiClient } from "@/lib/api/client";
+import { QueuedGameOperation, getCachedSession, getQueuedGameOperations, saveCachedSession } from "@/lib/offlineStore";
+import {
+  GameSyncStatus,
+  applyQueuedOperations,
+  createGameId,
+  queueGameCreate,
+  queueGameDelete,
+  queueGameUpdate,
+  syncQueuedGames,
+} from "@/lib/gameSync";
+import { getSavedAdminPin } from "@/lib/adminPins";
 
 interface SessionContextType {
   session: Session | null;
@@ -14,10 +25,19 @@ interface SessionContextType {
   addGames: (games: Omit<Game, "id" | "sessionId" | "gameNumber">[]) => void;
   updateGame: (gameId: string, updates: Partial<Game>) => void;
   removeLastGame: () => void;
+  updateCourtQueue: (queue: CourtQueue | null) => Promise<void>;
+  startTournament: (input: TournamentInput) => Promise<void>;
+  endTournament: () => Promise<void>;
+  updateSessionDetails: (updates: Partial<Session>) => Promise<void>;
   clearSession: () => void;
   loadSession: (sessionId: string) => Promise<void>;
   refreshGroups: () => Promise<void>;
   ensureSessionsAndGroupsLoaded: () => Promise<void>;
+  syncStatus: GameSyncStatus;
+  isLive: boolean; // Receiving other phones' changes as they happen
+  canChangeGames: boolean; // Editing or undoing recorded games - false in a PIN-protected group this device hasn't unlocked
+  syncGames: () => Promise<void>;
+  dismissSyncConflicts: () => void;
 }
 
 const SessionContext = createContext<SessionContextType | undefined>(undefined);
@@ -29,11 +49,30 @@ const CURRENT_SESSION_ID_KEY = "current_session_id";
 const MAX_CACHED_SESSIONS = 50;
 const MAX_CACHED_GROUPS = 20;
 
+// How often queued game changes are retried while some are still waiting
+const SYNC_RETRY_INTERVAL_MS = 30_000;
+
+const INITIAL_SYNC_STATUS: GameSyncStatus = {
+  state: "synced",
+  pendingCount: 0,
+  conflicts: [],
+  lastSyncedAt: null,
+};
+
 export function SessionProvider({ children }: { children: React.ReactNode }) {
   const [session, setSessionState] = useState<Session | null>(null);
-  const [games, setGames] = useState<Game[]>([]);
+  // Games as the server last reported them, and this device's changes not yet on it
+  const [serverGames, setServerGames] = useState<Game[]>([]);
+  const [queuedOperations, setQueuedOperations] = useState<QueuedGameOperation[]>([]);
+  const games = useMemo(
+    () => applyQueuedOperations(serverGames, queuedOperations),
+    [serverGames, queuedOperations]
+  );
   const [allSessions, setAllSessions] = useState<Session[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
+  const [syncStatus, setSyncStatus] = useState<GameSyncStatus>(INITIAL_SYNC_STATUS);
+  const [isLive, setIsLive] = useState(false);
+  const [canChangeGames, setCanChangeGames] = useState(true);
   
   // Track loading state to prevent duplicate calls
   const loadingGamesRef = useRef<Set<string>>(new Set());
@@ -42,6 +81,9 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
   const hasLoadedSessionsRef = useRef(false);
   const hasLoadedGroupsRef = useRef(false);
 
+  // Session whose games are shown - syncs that finish after switching away are ignored
+  const currentSessionIdRef = useRef<string | null>(null);
+
   // Cleanup on unmount to prevent memory leaks
   useEffect(() => {
     return () => {
@@ -72,6 +114,132 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     }
   }, [session?.id]);
 
+  useEffect(() => {
+    currentSessionIdRef.current = session?.id ?? null;
+  }, [session?.id]);
+
+  // Keep a copy of the session so it opens without a connection (the queue is stored separately)
+  useEffect(() => {
+    if (!session) return;
+    saveCachedSession(session, serverGames).catch((error) => {
+      console.error('[SessionContext] Failed to cache session for offline use:', error);
+    });
+  }, [session, serverGames]);
+
+  // Live updates: games recorded, edited or deleted on other phones show up as they happen
+  useEffect(() => {
+    if (!session?.id || typeof EventSource === "undefined") return;
+    const sessionId = session.id;
+
+    const unsubscribe = ApiClient.subscribeToSession(sessionId, (event: SessionLiveEvent) => {
+      if (currentSessionIdRef.current !== sessionId) return;
+      if (event.type === "snapshot") {
+        setServerGames(event.games);
+      } else if (event.type === "game_deleted") {
+        setServerGames((prev) => prev.filter((g) => g.id !== event.gameId));
+      } else {
+        setServerGames((prev) => {
+          const others = prev.filter((g) => g.id !== event.game.id);
+          return [...others, event.game].sort((a, b) => a.gameNumber - b.gameNumber);
+        });
+      }
+    }, setIsLive);
+
+    return () => {
+      unsubscribe();
+      setIsLive(false);
+    };
+  }, [session?.id]);
+
+  // Group sessions with an admin PIN only let devices that have it change recorded games
+  // Unknown while offline - the server still checks, and a refused change shows as a conflict
+  useEffect(() => {
+    const groupId = session?.groupId;
+    if (!groupId || getSavedAdminPin(groupId)) {
+      setCanChangeGames(true);
+      return;
+    }
+
+    let cancelled = false;
+    ApiClient.getGroup(groupId)
+      .then((group) => {
+        if (!cancelled) setCanChangeGames(!group.hasAdminPin);
+      })
+      .catch(() => {
+        if (!cancelled) setCanChangeGames(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session?.groupId]);
+
+  /**
+   * Send queued game changes, then show the server's games with anything still queued on top
+   * The server's version wins conflicts, so the reload also undoes rejected changes
+   */
+  const syncSessionGames = useCallback(async (sessionId: string) => {
+    setSyncStatus((prev) => ({ ...prev, state: "syncing" }));
+    try {
+      const result = await syncQueuedGames(sessionId);
+      if (currentSessionIdRef.current !== sessionId) return;
+
+      const latestGames = result.sent > 0 ? await ApiClient.getGames(sessionId) : null;
+      const queued = await getQueuedGameOperations(sessionId);
+      if (currentSessionIdRef.current !== sessionId) return;
+      if (latestGames) {
+        setServerGames(latestGames);
+      }
+      setQueuedOperations(queued);
+
+      const pendingCount = queued.length;
+      setSyncStatus((prev) => ({
+        state: pendingCount === 0 ? "synced" : result.offline ? "offline" : "pending",
+        pendingCount,
+        conflicts: [...prev.conflicts, ...result.conflicts],
+        lastSyncedAt: pendingCount === 0 ? new Date() : prev.lastSyncedAt,
+      }));
+    } catch (error) {
+      console.error('[SessionContext] Failed to sync games:', error);
+      const pendingCount = await getQueuedGameOperations(sessionId).then((ops) => ops.length, () => 0);
+      setSyncStatus((prev) => ({
+        ...prev,
+        state: pendingCount === 0 ? "synced" : navigator.onLine ? "pending" : "offline",
+        pendingCount,
+      }));
+    }
+  }, []);
+
+  const syncGames = useCallback(async () => {
+    if (session) {
+      await syncSessionGames(session.id);
+    }
+  }, [session, syncSessionGames]);
+
+  const dismissSyncConflicts = useCallback(() => {
+    setSyncStatus((prev) => ({ ...prev, conflicts: [] }));
+  }, []);
+
+  // Retry when the connection comes back, and every so often while changes are waiting
+  useEffect(() => {
+    if (!session?.id) return;
+    const sessionId = session.id;
+
+    const handleOnline = () => {
+      void syncSessionGames(sessionId);
+    };
+    window.addEventListener("online", handleOnline);
+
+    const retryTimer = syncStatus.pendingCount > 0
+      ? window.setInterval(handleOnline, SYNC_RETRY_INTERVAL_MS)
+      : undefined;
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      if (retryTimer !== undefined) window.clearInterval(retryTimer);
+    };
+  }, [session?.id, syncStatus.pendingCount, syncSessionGames]);
+
   const setSession = useCallback(async (newSession: Session, initialGames?: Omit<Game, "id" | "sessionId" | "gameNumber">[]) => {
     const sessionWithDefaults = {
       ...newSession,
@@ -91,10 +259,11 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
         gameNumber: index + 1,
         ...gameData,
       }));
-      setGames(tempGames);
+      setServerGames(tempGames);
     } else {
-      setGames([]);
+      setServerGames([]);
     }
+    setQueuedOperations([]);
 
     // Sync to API
     try {
@@ -104,7 +273,7 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
       // Reload games from API to get proper IDs
       if (initialGames && initialGames.length > 0) {
         const dbGames = await ApiClient.getGames(sessionWithDefaults.id);
-        setGames(dbGames);
+        setServerGames(dbGames);
       }
       
       // Update allSessions cache with limit enforcement
@@ -126,124 +295,171 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  /**
+   * Queue a game change on this device, show it, and try to send it
+   */
+  const queueChange = useCallback(
+    async (sessionId: string, queue: () => Promise<void>) => {
+      await queue();
+      const queued = await getQueuedGameOperations(sessionId);
+      if (currentSessionIdRef.current === sessionId) {
+        setQueuedOperations(queued);
+      }
+      void syncSessionGames(sessionId);
+    },
+    [syncSessionGames]
+  );
+
   const addGame = useCallback(
     async (gameData: Omit<Game, "id" | "sessionId" | "gameNumber">) => {
       if (!session) return;
 
-      // Optimistically update UI
-      const tempId = `game-${Date.now()}-${Math.random()}`;
+      // The ID is final, so the queued create can be retried safely
       const newGame: Game = {
-        id: tempId,
+        id: createGameId(),
         sessionId: session.id,
         gameNumber: games.length + 1,
         ...gameData,
       };
-      setGames((prev) => [...prev, newGame]);
 
-      // Sync to API
       try {
-        const createdGame = await ApiClient.createGame(session.id, gameData);
-        // Replace temp game with real one from API
-        setGames((prev) => prev.map(g => g.id === tempId ? createdGame : g));
+        await queueChange(session.id, () => queueGameCreate(newGame));
       } catch (error) {
-        console.error('[SessionContext] Failed to create game:', error);
-        // Rollback optimistic update
-        setGames((prev) => prev.filter(g => g.id !== tempId));
+        console.error('[SessionContext] Failed to queue game:', error);
         throw error;
       }
     },
-    [session, games.length]
+    [session, games.length, queueChange]
   );
 
   const addGames = useCallback(
     async (gamesData: Omit<Game, "id" | "sessionId" | "gameNumber">[]) => {
       if (!session) return;
 
-      // Optimistically update UI
-      const timestamp = Date.now();
       const newGames: Game[] = gamesData.map((gameData, index) => ({
-        id: `game-${timestamp}-${index}-${Math.random()}`,
+        id: createGameId(),
         sessionId: session.id,
         gameNumber: games.length + index + 1,
         ...gameData,
       }));
-      setGames((prev) => [...prev, ...newGames]);
 
-      // Sync to API
+      // Queued in order, so the server numbers them as shown
       try {
-        const createdGames = await Promise.all(
-          gamesData.map((gameData) => ApiClient.createGame(session.id, gameData))
-        );
-        // Replace temp games with real ones from API
-        setGames((prev) => {
-          const updated = [...prev];
-          newGames.forEach((tempGame, index) => {
-            const realGame = createdGames[index];
-            const tempIndex = updated.findIndex((g) => g.id === tempGame.id);
-            if (tempIndex >= 0 && realGame) {
-              updated[tempIndex] = realGame;
-            }
-          });
-          return updated;
+        await queueChange(session.id, async () => {
+          for (const newGame of newGames) {
+            await queueGameCreate(newGame);
+          }
         });
       } catch (error) {
-        console.error('[SessionContext] Failed to create games:', error);
-        // Rollback optimistic updates
-        const tempIds = new Set(newGames.map(g => g.id));
-        setGames((prev) => prev.filter(g => !tempIds.has(g.id)));
+        console.error('[SessionContext] Failed to queue games:', error);
         throw error;
       }
     },
-    [session, games.length]
+    [session, games.length, queueChange]
   );
 
   const updateGame = useCallback(
     async (gameId: string, updates: Partial<Game>) => {
       if (!session) return;
 
-      // Store old game for rollback
       const oldGame = games.find(g => g.id === gameId);
+      if (!oldGame) return;
 
-      // Optimistically update UI
-      setGames((prev) =>
-        prev.map((game) => (game.id === gameId ? { ...game, ...updates } : game))
-      );
-
-      // Sync to API
+      // Queued with the version this edit is based on
       try {
-        await ApiClient.updateGame(session.id, gameId, updates);
+        await queueChange(session.id, () => queueGameUpdate(oldGame, updates));
       } catch (error) {
-        console.error('[SessionContext] Failed to update game:', error);
-        // Rollback to old game
-        if (oldGame) {
-          setGames((prev) =>
-            prev.map((game) => (game.id === gameId ? oldGame : game))
-          );
-        }
+        console.error('[SessionContext] Failed to queue game update:', error);
         throw error;
       }
     },
-    [session, games]
+    [session, games, queueChange]
   );
 
   const removeLastGame = useCallback(async () => {
     if (games.length === 0 || !session) return;
 
     const lastGame = games[games.length - 1];
-    
-    // Optimistically update UI
-    setGames((prev) => prev.slice(0, -1));
 
-    // Delete from API
     try {
-      await ApiClient.deleteGame(session.id, lastGame.id);
+      await queueChange(session.id, () => queueGameDelete(lastGame));
     } catch (error) {
-      console.error('[SessionContext] Failed to delete game:', error);
-      // Rollback - add game back
-      setGames((prev) => [...prev, lastGame]);
+      console.error('[SessionContext] Failed to queue game delete:', error);
       throw error;
     }
-  }, [games, session]);
+  }, [games, session, queueChange]);
+
+  const updateCourtQueue = useCallback(
+    async (queue: CourtQueue | null) => {
+      if (!session) return;
+
+      const oldQueue = session.courtQueue;
+
+      // Optimistically update UI
+      setSessionState((prev) => (prev ? { ...prev, courtQueue: queue ?? undefined } : prev));
+
+      // Sync to API
+      try {
+        await ApiClient.updateCourtQueue(session.id, queue);
+      } catch (error) {
+        console.error('[SessionContext] Failed to update court queue:', error);
+        // Rollback to old queue
+        setSessionState((prev) => (prev ? { ...prev, courtQueue: oldQueue } : prev));
+        throw error;
+      }
+    },
+    [session]
+  );
+
+  // Not optimistic - the server seeds the bracket and creates its first games
+  const startTournament = useCallback(
+    async (input: TournamentInput) => {
+      if (!session) return;
+      const sessionId = session.id;
+
+      const { tournament } = await ApiClient.startTournament(sessionId, input);
+      const dbGames = await ApiClient.getGames(sessionId);
+      if (currentSessionIdRef.current !== sessionId) return;
+      setSessionState((prev) => (prev ? { ...prev, tournament } : prev));
+      setServerGames(dbGames);
+    },
+    [session]
+  );
+
+  const endTournament = useCallback(async () => {
+    if (!session) return;
+    const sessionId = session.id;
+
+    await ApiClient.endTournament(sessionId, session.groupId ? getSavedAdminPin(session.groupId) : null);
+    const dbGames = await ApiClient.getGames(sessionId);
+    if (currentSessionIdRef.current !== sessionId) return;
+    setSessionState((prev) => (prev ? { ...prev, tournament: undefined } : prev));
+    setServerGames(dbGames);
+  }, [session]);
+
+  const updateSessionDetails = useCallback(
+    async (updates: Partial<Session>) => {
+      if (!session) return;
+
+      const oldSession = session;
+      const updatedSession = { ...session, ...updates };
+
+      // Optimistically update UI
+      setSessionState(updatedSession);
+
+      // Sync to API
+      try {
+        await ApiClient.updateSession(updatedSession);
+        setAllSessions((prev) => prev.map((s) => (s.id === updatedSession.id ? updatedSession : s)));
+      } catch (error) {
+        console.error('[SessionContext] Failed to update session:', error);
+        // Rollback to old session
+        setSessionState(oldSession);
+        throw error;
+      }
+    },
+    [session]
+  );
 
   const loadSession = useCallback(async (sessionId: string) => {
     // Prevent duplicate simultaneous calls
@@ -251,9 +467,28 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
       return;
     }
     
+    let sessionToLoad: Session;
     try {
       // Always fetch fresh from API
-      const sessionToLoad = await ApiClient.getSession(sessionId);
+      sessionToLoad = await ApiClient.getSession(sessionId);
+    } catch (error) {
+      // Offline (no HTTP status) - open the copy kept on this device, if there is one
+      const reachedServer = (error as { status?: number }).status !== undefined;
+      const cached = reachedServer ? null : await getCachedSession(sessionId).catch(() => null);
+      if (!cached) {
+        console.error('[SessionContext] Failed to load session:', error);
+        throw error;
+      }
+      const queued = await getQueuedGameOperations(sessionId).catch(() => []);
+      currentSessionIdRef.current = sessionId;
+      setSessionState(cached.session);
+      setServerGames(cached.games);
+      setQueuedOperations(queued);
+      setSyncStatus((prev) => ({ ...prev, state: "offline", pendingCount: queued.length }));
+      return;
+    }
+
+    try {
       setSessionState(sessionToLoad);
       
       // Update allSessions cache with limit enforcement
@@ -273,26 +508,38 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
       // Load games
       loadingGamesRef.current.add(sessionId);
       const dbGames = await ApiClient.getGames(sessionId);
-      setGames(dbGames);
+      const queued = await getQueuedGameOperations(sessionId).catch(() => []);
+      currentSessionIdRef.current = sessionId;
+      setServerGames(dbGames);
+      setQueuedOperations(queued);
+
+      // Changes queued on an earlier visit go out now
+      if (queued.length > 0) {
+        void syncSessionGames(sessionId);
+      } else {
+        setSyncStatus(INITIAL_SYNC_STATUS);
+      }
     } catch (error) {
       console.error('[SessionContext] Failed to load session:', error);
       throw error;
     } finally {
       loadingGamesRef.current.delete(sessionId);
     }
-  }, []);
+  }, [syncSessionGames]);
 
   const clearSession = useCallback(async () => {
     const currentSessionId = session?.id;
+    const currentGroupId = session?.groupId;
     
     // Clear local state
     setSessionState(null);
-    setGames([]);
+    setServerGames([]);
+    setQueuedOperations([]);
     
     // Delete from database
     if (currentSessionId) {
       try {
-        await ApiClient.deleteSession(currentSessionId);
+        await ApiClient.deleteSession(currentSessionId, currentGroupId);
         // Remove from allSessions
         setAllSessions((prev) => prev.filter((s) => s.id !== currentSessionId));
       } catch (error) {
@@ -376,10 +623,19 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
         addGames,
         updateGame,
         removeLastGame,
+        updateCourtQueue,
+        startTournament,
+        endTournament,
+        updateSessionDetails,
         clearSession,
         loadSession,
         refreshGroups,
         ensureSessionsAndGroupsLoaded,
+        syncStatus,
+        isLive,
+        canChangeGames,
+        syncGames,
+        dismissSyncConflicts,
       }}
     >
       {children}
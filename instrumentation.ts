@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts: a missing database setting fails startup here with the
+ * reason, rather than surfacing later as failed game saves
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { checkDatabaseConfig } = await import('@/lib/db/config');
+    checkDatabaseConfig();
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Admin PINs this device has unlocked, kept in localStorage per group
+ * Sent with group deletes, player removals and game edits - see lib/groupAccess.ts
+ */
+
+// Header the API reads the PIN from
+export const ADMIN_PIN_HEADER = "X-Group-Admin-Pin";
+
+// localStorage key for unlocked admin PINs (group ID -> PIN)
+const STORAGE_KEY_ADMIN_PINS = "poweredbypace_admin_pins";
+
+/**
+ * Admin PINs are 4-8 digits - short enough to type courtside, and the API limits wrong guesses
+ */
+export function isValidAdminPin(pin: unknown): pin is string {
+  return typeof pin === "string" && /^\d{4,8}$/.test(pin);
+}
+
+function loadAdminPins(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_ADMIN_PINS);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to load admin PINs:", e);
+    return {};
+  }
+}
+
+export function getSavedAdminPin(groupId: string): string | null {
+  return loadAdminPins()[groupId] ?? null;
+}
+
+/**
+ * Remember a group's admin PIN on this device
+ * Called after the PIN is set or checked against the API
+ */
+export function saveAdminPin(groupId: string, pin: string) {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY_ADMIN_PINS, JSON.stringify({ ...loadAdminPins(), [groupId]: pin }));
+  } catch (e) {
+    console.error("Failed to save admin PIN:", e);
+  }
+}
+
+export function forgetAdminPin(groupId: string) {
+  if (typeof window === "undefined") return;
+
+  try {
+    const pins = loadAdminPins();
+    delete pins[groupId];
+    localStorage.setItem(STORAGE_KEY_ADMIN_PINS, JSON.stringify(pins));
+  } catch (e) {
+    console.error("Failed to forget admin PIN:", e);
+  }
+}
@@ -1,4 +1,8 @@
-import { Session, Game, Group, GroupPlayer, LeaderboardEntry, PlayerDetailedStats, PairingStats, PairingDetailedStats } from '@/types';
+import { Session, Game, Group, GroupPlayer, LeaderboardEntry, PlayerDetailedStats, PairingStats, PairingDetailedStats, EloHistoryEntry, GroupRatingSettings, CourtQueue, GroupLedger, CurrencySettings, SessionLiveEvent, GroupLiveEvent, GroupSpectatorView, AuthStatus, UserDashboard, AuditEntry, GroupExportFormat, GroupImportFormat, GroupImportPreview, GroupImportResult, Season, SeasonInput, StatsWindowQuery, Tournament, TournamentInput } from '@/types';
+import { LedgerObligationKey } from '@/lib/ledger';
+import { ADMIN_PIN_HEADER, getSavedAdminPin } from '@/lib/adminPins';
+import { DEVICE_ID_HEADER, getDeviceId } from '@/lib/deviceId';
+import { toStatsWindowSearch } from '@/lib/seasons';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE || '/api';
 
@@ -20,12 +24,16 @@ export class ApiClient {
       const cacheOptions = isGetRequest 
         ? { cache: 'no-store' as RequestCache }
         : {};
-      
+
+      // Lets the group history show which device made a change
+      const deviceId = getDeviceId();
+
       const response = await fetch(`${API_BASE}${endpoint}`, {
         ...options,
         ...cacheOptions,
         headers: {
           'Content-Type': 'application/json',
+          ...(deviceId ? { [DEVICE_ID_HEADER]: deviceId } : {}),
           ...options?.headers,
         },
       });
@@ -33,7 +41,8 @@ export class ApiClient {
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
         // Create error with message but preserve full response data
-        const error = new Error(errorData.error || `HTTP ${response.status}`) as Error & { existingPlayer?: unknown };
+        const error = new Error(errorData.error || `HTTP ${response.status}`) as Error & { existingPlayer?: unknown; status?: number };
+        error.status = response.status;
         if (errorData.existingPlayer) {
           error.existingPlayer = errorData.existingPlayer;
         }
@@ -62,16 +71,76 @@ export class ApiClient {
     return this.fetch<Group>(`/groups/shareable/${link}`);
   }
 
-  static async createGroup(name: string): Promise<{ success: boolean; group: Group }> {
+  /**
+   * Read-only view of a group for its spectator link
+   */
+  static async getGroupBySpectatorLink(link: string): Promise<GroupSpectatorView> {
+    return this.fetch<GroupSpectatorView>(`/groups/spectate/${link}`);
+  }
+
+  static async createGroup(
+    name: string,
+    currencySettings: CurrencySettings | undefined,
+    adminPin: string
+  ): Promise<{ success: boolean; group: Group }> {
     return this.fetch<{ success: boolean; group: Group }>('/groups', {
       method: 'POST',
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({ name, currencySettings, adminPin }),
     });
   }
 
+  // Needs the group's admin PIN (saved on this device)
   static async deleteGroup(groupId: string): Promise<{ success: boolean }> {
     return this.fetch<{ success: boolean }>(`/groups/${groupId}`, {
       method: 'DELETE',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+    });
+  }
+
+  /**
+   * Group admin PIN API
+   * checkAdminPin fails with 403 for a wrong PIN; setAdminPin sends the PIN saved on this device as the current one
+   */
+  static async checkAdminPin(groupId: string, pin: string): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>(`/groups/${groupId}/admin`, {
+      method: 'POST',
+      headers: this.adminHeaders(pin),
+    });
+  }
+
+  static async setAdminPin(groupId: string, pin: string): Promise<{ success: boolean; group: Group }> {
+    return this.fetch<{ success: boolean; group: Group }>(`/groups/${groupId}/admin`, {
+      method: 'PUT',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+      body: JSON.stringify({ pin }),
+    });
+  }
+
+  /**
+   * Update a group's rating settings (triggers a full ELO recalculation; admin PIN)
+   */
+  static async updateGroupRatingSettings(
+    groupId: string,
+    ratingSettings: GroupRatingSettings
+  ): Promise<{ group: Group; recalculation: { playersReset: number; gamesProcessed: number; playersUpdated: string[] } }> {
+    return this.fetch<{ group: Group; recalculation: { playersReset: number; gamesProcessed: number; playersUpdated: string[] } }>(`/groups/${groupId}/settings`, {
+      method: 'PUT',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+      body: JSON.stringify({ ratingSettings }),
+    });
+  }
+
+  /**
+   * Update a group's default currency (used by sessions created afterwards; admin PIN)
+   */
+  static async updateGroupCurrencySettings(
+    groupId: string,
+    currencySettings: CurrencySettings
+  ): Promise<{ group: Group }> {
+    return this.fetch<{ group: Group }>(`/groups/${groupId}/currency`, {
+      method: 'PUT',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+      body: JSON.stringify({ currencySettings }),
     });
   }
 
@@ -96,9 +165,11 @@ export class ApiClient {
     });
   }
 
+  // Needs the group's admin PIN (saved on this device)
   static async removeGroupPlayer(groupId: string, playerId: string): Promise<{ success: boolean }> {
     return this.fetch<{ success: boolean }>(`/groups/${groupId}/players`, {
       method: 'DELETE',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
       body: JSON.stringify({ playerId }),
     });
   }
@@ -143,15 +214,16 @@ export class ApiClient {
 
   /**
    * Group Stats API (Leaderboard)
+   * window limits it to a season or date range (default all time)
    */
-  static async getGroupLeaderboard(groupId: string): Promise<LeaderboardEntry[]> {
-    return this.fetch<LeaderboardEntry[]>(`/groups/${groupId}/stats`);
+  static async getGroupLeaderboard(groupId: string, window?: StatsWindowQuery): Promise<LeaderboardEntry[]> {
+    return this.fetch<LeaderboardEntry[]>(`/groups/${groupId}/stats${toStatsWindowSearch(window)}`);
   }
 
   /**
    * Group Overview Stats API
    */
-  static async getGroupOverviewStats(groupId: string): Promise<{
+  static async getGroupOverviewStats(groupId: string, window?: StatsWindowQuery): Promise<{
     totalGames: number;
     totalSessions: number;
     totalPlayers: number;
@@ -183,7 +255,7 @@ export class ApiClient {
     firstSessionDate: Date | null;
     daysSinceFirstSession: number | null;
   }> {
-    return this.fetch(`/groups/${groupId}/overview`);
+    return this.fetch(`/groups/${groupId}/overview${toStatsWindowSearch(window)}`);
   }
 
   /**
@@ -193,11 +265,18 @@ export class ApiClient {
     return this.fetch<PlayerDetailedStats>(`/groups/${groupId}/players/${playerId}/stats`);
   }
 
+  /**
+   * Player ELO History API
+   */
+  static async getPlayerEloHistory(groupId: string, playerId: string): Promise<EloHistoryEntry[]> {
+    return this.fetch<EloHistoryEntry[]>(`/groups/${groupId}/players/${playerId}/elo-history`);
+  }
+
   /**
    * Pairing Stats API (doubles team combinations)
    */
-  static async getPairingLeaderboard(groupId: string): Promise<PairingStats[]> {
-    return this.fetch<PairingStats[]>(`/groups/${groupId}/pairings`);
+  static async getPairingLeaderboard(groupId: string, window?: StatsWindowQuery): Promise<PairingStats[]> {
+    return this.fetch<PairingStats[]>(`/groups/${groupId}/pairings${toStatsWindowSearch(window)}`);
   }
 
   static async getPairingDetailedStats(
@@ -208,6 +287,111 @@ export class ApiClient {
     return this.fetch<PairingDetailedStats>(`/groups/${groupId}/pairings/${player1Id}/${player2Id}`);
   }
 
+  /**
+   * Group Seasons API
+   * Deleting and archiving need the group's admin PIN (saved on this device)
+   */
+  static async getSeasons(groupId: string): Promise<Season[]> {
+    return this.fetch<Season[]>(`/groups/${groupId}/seasons`);
+  }
+
+  static async createSeason(groupId: string, input: SeasonInput): Promise<Season> {
+    return this.fetch<Season>(`/groups/${groupId}/seasons`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async updateSeason(groupId: string, seasonId: string, input: SeasonInput): Promise<Season> {
+    return this.fetch<Season>(`/groups/${groupId}/seasons/${seasonId}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async deleteSeason(groupId: string, seasonId: string): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>(`/groups/${groupId}/seasons/${seasonId}`, {
+      method: 'DELETE',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+    });
+  }
+
+  static async archiveSeason(groupId: string, seasonId: string): Promise<Season> {
+    return this.fetch<Season>(`/groups/${groupId}/seasons/${seasonId}/archive`, {
+      method: 'POST',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+    });
+  }
+
+  /**
+   * Group Debt Ledger API
+   */
+  static async getGroupLedger(groupId: string): Promise<GroupLedger> {
+    return this.fetch<GroupLedger>(`/groups/${groupId}/ledger`);
+  }
+
+  /**
+   * Mark obligations as paid or unpaid (admin PIN)
+   */
+  static async setLedgerObligationsPaid(
+    groupId: string,
+    obligations: LedgerObligationKey[],
+    paid: boolean
+  ): Promise<{ success: boolean; ledger: GroupLedger }> {
+    return this.fetch<{ success: boolean; ledger: GroupLedger }>(`/groups/${groupId}/ledger`, {
+      method: 'PUT',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+      body: JSON.stringify({ obligations, paid }),
+    });
+  }
+
+  /**
+   * Group History API (audit log)
+   * before pages back from the oldest entry already loaded
+   */
+  static async getGroupHistory(
+    groupId: string,
+    before?: string
+  ): Promise<{ entries: AuditEntry[]; hasMore: boolean }> {
+    const query = before ? `?before=${encodeURIComponent(before)}` : '';
+    return this.fetch<{ entries: AuditEntry[]; hasMore: boolean }>(`/groups/${groupId}/history${query}`);
+  }
+
+  // Needs the group's admin PIN (saved on this device)
+  static async revertGroupChange(groupId: string, auditId: string): Promise<{ success: boolean; entry: AuditEntry }> {
+    return this.fetch<{ success: boolean; entry: AuditEntry }>(`/groups/${groupId}/history/${auditId}/revert`, {
+      method: 'POST',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+    });
+  }
+
+  /**
+   * Group Export API
+   * Returns a URL rather than fetching, so the browser downloads the file itself
+   */
+  static getGroupExportUrl(groupId: string, format: GroupExportFormat): string {
+    return `${API_BASE}/groups/${groupId}/export?format=${format}`;
+  }
+
+  /**
+   * Group Import API
+   * Preview first - importing needs the group's admin PIN (saved on this device)
+   */
+  static async previewGroupImport(groupId: string, format: GroupImportFormat, content: string): Promise<{ preview: GroupImportPreview }> {
+    return this.fetch<{ preview: GroupImportPreview }>(`/groups/${groupId}/import?dryRun=true`, {
+      method: 'POST',
+      body: JSON.stringify({ format, content }),
+    });
+  }
+
+  static async importGroupData(groupId: string, format: GroupImportFormat, content: string): Promise<GroupImportResult> {
+    return this.fetch<GroupImportResult>(`/groups/${groupId}/import`, {
+      method: 'POST',
+      headers: this.adminHeaders(getSavedAdminPin(groupId)),
+      body: JSON.stringify({ format, content }),
+    });
+  }
+
   /**
    * Sessions API
    */
@@ -237,9 +421,13 @@ export class ApiClient {
     return this.fetch<Session>(`/sessions/${sessionId}`);
   }
 
+  /**
+   * Update a session - group sessions need the group's admin PIN
+   */
   static async updateSession(session: Session): Promise<{ success: boolean; session: Session }> {
     return this.fetch<{ success: boolean; session: Session }>(`/sessions/${session.id}`, {
       method: 'PUT',
+      headers: this.adminHeaders(session.groupId ? getSavedAdminPin(session.groupId) : null),
       body: JSON.stringify({ session }),
     });
   }
@@ -259,9 +447,51 @@ export class ApiClient {
     });
   }
 
-  static async deleteSession(sessionId: string): Promise<{ success: boolean }> {
+  /**
+   * Save the live court queue for a session (null ends the queue)
+   */
+  static async updateCourtQueue(
+    sessionId: string,
+    queue: CourtQueue | null
+  ): Promise<{ success: boolean; queue: CourtQueue | null }> {
+    return this.fetch<{ success: boolean; queue: CourtQueue | null }>(`/sessions/${sessionId}/queue`, {
+      method: 'PUT',
+      body: JSON.stringify({ queue }),
+    });
+  }
+
+  /**
+   * Seed and start a tournament on a session - with dryRun the bracket is only previewed
+   */
+  static async startTournament(
+    sessionId: string,
+    input: TournamentInput,
+    dryRun = false
+  ): Promise<{ tournament: Tournament }> {
+    return this.fetch<{ tournament: Tournament }>(`/sessions/${sessionId}/tournament${dryRun ? '?dryRun=true' : ''}`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  /**
+   * End a session's tournament (played games are kept)
+   * Once a tournament game has been played, a group session needs its admin PIN
+   */
+  static async endTournament(sessionId: string, adminPin?: string | null): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>(`/sessions/${sessionId}/tournament`, {
+      method: 'DELETE',
+      headers: this.adminHeaders(adminPin),
+    });
+  }
+
+  /**
+   * Delete a session and its games - pass groupId for group sessions, which need the admin PIN
+   */
+  static async deleteSession(sessionId: string, groupId?: string | null): Promise<{ success: boolean }> {
     return this.fetch<{ success: boolean }>(`/sessions/${sessionId}`, {
       method: 'DELETE',
+      headers: this.adminHeaders(groupId ? getSavedAdminPin(groupId) : null),
     });
   }
 
@@ -272,39 +502,144 @@ export class ApiClient {
     return this.fetch<Game[]>(`/sessions/${sessionId}/games`);
   }
 
+  /**
+   * Create a game - pass a client-generated gameId to make retries safe (offline sync)
+   */
   static async createGame(
     sessionId: string,
     game: Omit<Game, 'id' | 'sessionId' | 'gameNumber'>,
-    gameNumber?: number
+    gameNumber?: number,
+    gameId?: string
   ): Promise<Game> {
     return this.fetch<Game>(`/sessions/${sessionId}/games`, {
       method: 'POST',
-      body: JSON.stringify({ game, gameNumber }),
+      body: JSON.stringify({ game, gameNumber, gameId }),
     });
   }
 
+  /**
+   * Update a game - with expectedUpdatedAt, fails with 409 if another device changed it since
+   * Changing a recorded result in a group session needs the group's admin PIN (401/403 without it)
+   */
   static async updateGame(
     sessionId: string,
     gameId: string,
-    updates: Partial<Game>
+    updates: Partial<Game>,
+    expectedUpdatedAt?: string,
+    adminPin?: string | null
   ): Promise<Game> {
-    return this.fetch<Game>(`/sessions/${sessionId}/games/${gameId}`, {
+    return this.fetch<Game>(`/sessions/${sessionId}/games/${gameId}${this.versionQuery(expectedUpdatedAt)}`, {
       method: 'PUT',
+      headers: this.adminHeaders(adminPin),
       body: JSON.stringify(updates),
     });
   }
 
   static async deleteGame(
     sessionId: string,
-    gameId: string
+    gameId: string,
+    expectedUpdatedAt?: string,
+    adminPin?: string | null
   ): Promise<{ success: boolean }> {
     return this.fetch<{ success: boolean }>(
-      `/sessions/${sessionId}/games/${gameId}`,
+      `/sessions/${sessionId}/games/${gameId}${this.versionQuery(expectedUpdatedAt)}`,
       {
         method: 'DELETE',
+        headers: this.adminHeaders(adminPin),
       }
     );
   }
+
+  /**
+   * Accounts API (optional sign-in)
+   * The session is an httpOnly cookie, so these only work against the same origin
+   */
+  static async getAuthStatus(): Promise<AuthStatus> {
+    return this.fetch<AuthStatus>('/auth/session');
+  }
+
+  // devLink is only returned by the local (development) provider
+  static async requestSignInLink(email: string, next?: string): Promise<{ success: boolean; devLink?: string }> {
+    return this.fetch<{ success: boolean; devLink?: string }>('/auth/sign-in', {
+      method: 'POST',
+      body: JSON.stringify({ email, next }),
+    });
+  }
+
+  static async signOut(): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>('/auth/sign-out', {
+      method: 'POST',
+    });
+  }
+
+  static async getMyDashboard(): Promise<UserDashboard> {
+    return this.fetch<UserDashboard>('/me');
+  }
+
+  static async claimGroupPlayer(groupId: string, playerId: string): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>(`/groups/${groupId}/players/${playerId}/claim`, {
+      method: 'POST',
+    });
+  }
+
+  // Releases the signed-in user's own claim, or with the admin PIN anyone's
+  static async releaseGroupPlayerClaim(
+    groupId: string,
+    playerId: string,
+    adminPin?: string | null
+  ): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>(`/groups/${groupId}/players/${playerId}/claim`, {
+      method: 'DELETE',
+      headers: this.adminHeaders(adminPin),
+    });
+  }
+
+  private static versionQuery(expectedUpdatedAt?: string): string {
+    return expectedUpdatedAt ? `?expectedUpdatedAt=${encodeURIComponent(expectedUpdatedAt)}` : '';
+  }
+
+  private static adminHeaders(adminPin?: string | null): Record<string, string> {
+    return adminPin ? { [ADMIN_PIN_HEADER]: adminPin } : {};
+  }
+
+  /**
+   * Live updates (Server-Sent Events)
+   * Returns a function that closes the stream - until then EventSource reconnects by itself
+   * onConnectionChange reports whether the stream is currently open
+   */
+  static subscribeToSession(
+    sessionId: string,
+    onEvent: (event: SessionLiveEvent) => void,
+    onConnectionChange?: (connected: boolean) => void
+  ): () => void {
+    return this.subscribe<SessionLiveEvent>(`/sessions/${sessionId}/events`, onEvent, onConnectionChange);
+  }
+
+  static subscribeToGroup(
+    groupId: string,
+    onEvent: (event: GroupLiveEvent) => void,
+    onConnectionChange?: (connected: boolean) => void
+  ): () => void {
+    return this.subscribe<GroupLiveEvent>(`/groups/${groupId}/events`, onEvent, onConnectionChange);
+  }
+
+  private static subscribe<T>(
+    endpoint: string,
+    onEvent: (event: T) => void,
+    onConnectionChange?: (connected: boolean) => void
+  ): () => void {
+    const source = new EventSource(`${API_BASE}${endpoint}`);
+    source.onopen = () => onConnectionChange?.(true);
+    source.onerror = () => onConnectionChange?.(false);
+    source.onmessage = (message) => {
+      try {
+        onEvent(JSON.parse(message.data) as T);
+      } catch (error) {
+        console.error(`[ApiClient] Error handling event from ${endpoint}:`, error);
+      }
+    };
+    return () => source.close();
+  }
 }
 
 /**
@@ -0,0 +1,61 @@
+/**
+ * Who made a change, for the audit log (server only)
+ *
+ * Route handlers wrap their service calls in withAuditActor() so every entry the services
+ * record (see AuditService) carries the signed-in user, if any, and the device: the ID the
+ * browser sends in X-Device-Id plus a short label from its user agent.
+ */
+
+import { NextRequest } from 'next/server';
+import { AuditActor } from '@/types';
+import { AuditService } from '@/lib/services/auditService';
+import { getSignedInUser } from '@/lib/auth';
+import { DEVICE_ID_HEADER } from '@/lib/deviceId';
+
+/**
+ * "Safari on iPhone", "Chrome on Android", ... - enough to recognise a phone, nothing more
+ */
+export function describeUserAgent(userAgent: string | null): string | undefined {
+  if (!userAgent) {
+    return undefined;
+  }
+
+  const platform =
+    /iPhone/.test(userAgent) ? 'iPhone' :
+    /iPad/.test(userAgent) ? 'iPad' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'Mac' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\/|FxiOS/.test(userAgent) ? 'Firefox' :
+    /Chrome\/|CriOS/.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+
+  if (!platform && !browser) {
+    return userAgent.slice(0, 100);
+  }
+  return [browser, platform].filter(Boolean).join(' on ');
+}
+
+export async function getAuditActor(request: NextRequest): Promise<AuditActor> {
+  // A missing or broken account lookup never blocks the change itself
+  const user = await getSignedInUser(request).catch(() => null);
+  const deviceId = request.headers.get(DEVICE_ID_HEADER);
+
+  return {
+    userId: user?.id,
+    deviceId: deviceId ? deviceId.slice(0, 64) : undefined,
+    deviceLabel: describeUserAgent(request.headers.get('user-agent')),
+  };
+}
+
+/**
+ * Run a route's service calls with their audit entries attributed to the request's user and device
+ */
+export async function withAuditActor<T>(request: NextRequest, fn: () => Promise<T>): Promise<T> {
+  return AuditService.runAs(await getAuditActor(request), fn);
+}
@@ -0,0 +1,140 @@
+/**
+ * Optional sign-in (server only)
+ *
+ * Accounts are optional: groups are still shared by link and work the same signed out.
+ * Signing in lets someone claim their player in each group and see their stats across groups.
+ *
+ * AUTH_PROVIDER picks how sign-in links are sent:
+ * - 'supabase': Supabase Auth emails a magic link (see docs/SETUP_BACKEND.md for the email template)
+ * - 'local': development stand-in - the link is returned to the page and logged instead of emailed
+ * - unset: sign-in is turned off
+ *
+ * Either way the link lands on /api/auth/callback, which starts our own session: an httpOnly
+ * cookie holding a random token whose hash is stored in user_sessions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthProviderName, User } from '@/types';
+import { createSupabaseClient } from '@/lib/supabase';
+import { UserService } from '@/lib/services/userService';
+
+export const SESSION_COOKIE = 'pbp_session';
+
+export function getAuthProvider(): AuthProviderName | null {
+  const provider = process.env.AUTH_PROVIDER;
+
+  if (provider === 'supabase') {
+    return 'supabase';
+  }
+  if (provider === 'local') {
+    // The local provider signs anyone in as any email, so it never runs in production
+    if (process.env.NODE_ENV === 'production') {
+      console.warn('[Auth] AUTH_PROVIDER=local is ignored in production - sign-in is disabled');
+      return null;
+    }
+    return 'local';
+  }
+  return null;
+}
+
+/**
+ * Send a sign-in link for an email
+ * callbackUrl is /api/auth/callback on this site (with ?next= if set)
+ * The local provider returns the link as devLink instead of sending it
+ */
+export async function sendSignInLink(
+  email: string,
+  callbackUrl: string
+): Promise<{ devLink?: string }> {
+  const provider = getAuthProvider();
+
+  if (provider === 'local') {
+    const token = await UserService.createLoginToken(email);
+    const url = new URL(callbackUrl);
+    url.searchParams.set('token', token);
+    console.log(`[Auth] Sign-in link for ${email}: ${url.toString()}`);
+    return { devLink: url.toString() };
+  }
+
+  if (provider === 'supabase') {
+    const supabase = createSupabaseClient();
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: callbackUrl },
+    });
+    if (error) {
+      console.error('[Auth] Supabase sign-in error:', error);
+      throw new Error('Failed to send sign-in link');
+    }
+    return {};
+  }
+
+  throw new Error('Sign-in is not enabled');
+}
+
+/**
+ * Check the token on a sign-in link
+ * Returns the email it was sent to, or null if the link is invalid, expired or already used
+ */
+export async function verifySignInLink(params: URLSearchParams): Promise<string | null> {
+  const provider = getAuthProvider();
+
+  if (provider === 'local') {
+    const token = params.get('token');
+    return token ? UserService.consumeLoginToken(token) : null;
+  }
+
+  if (provider === 'supabase') {
+    const tokenHash = params.get('token_hash');
+    if (!tokenHash) {
+      return null;
+    }
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: 'email' });
+    if (error) {
+      console.warn('[Auth] Supabase link verification failed:', error.message);
+      return null;
+    }
+    return data.user?.email ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Get the signed-in user for a request, or null when signed out
+ */
+export async function getSignedInUser(request: NextRequest): Promise<User | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token || !getAuthProvider()) {
+    return null;
+  }
+  return UserService.getUserBySessionToken(token);
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+/**
+ * Only follow relative paths after sign-in, so a link can't bounce people to another site
+ */
+export function safeRedirectPath(next: string | null): string {
+  return next && /^\/(?![/\\])/.test(next) ? next : '/me';
+}
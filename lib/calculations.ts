@@ -1,4 +1,12 @@
-import { Player, Game, Session } from "@/types";
+import { Player, Game, Session, SessionExpense, CostSplitMode, CurrencySettings } from "@/types";
+import {
+  DEFAULT_CURRENCY_SETTINGS,
+  fromMinorUnits,
+  getCurrencySettings,
+  getMinorUnits,
+  hasValidMinorUnits,
+  toMinorUnits,
+} from "@/lib/currency";
 
 export interface PlayerStats {
   playerId: string;
@@ -31,10 +39,24 @@ export interface FinalSettlement {
   pointDifferential: number;
   gamblingNet: number;
   evenSharePerPlayer: number;
-  fairTotal: number;
-  amountToPayOrganizer: number;
+  expenseShare: number; // This player's part of the expenses they shared
+  costWeight: number; // Weight used to split costs (1 for even, attendance or games played otherwise)
+  amountPaid: number; // Expenses this player paid up front
+  fairTotal: number; // What the session cost this player: expense share minus gambling net
+  netBalance: number; // Positive = is owed money, negative = owes money
 }
 
+export interface SettlementTransfer {
+  fromPlayerId: string;
+  fromPlayerName: string;
+  toPlayerId: string;
+  toPlayerName: string;
+  amount: number;
+}
+
+// Above this many unsettled players, transfers fall back to the greedy match
+const MAX_EXACT_SETTLEMENT_PLAYERS = 16;
+
 /**
  * Calculate wins, losses, and gambling net for each player
  */
@@ -155,22 +177,134 @@ export function calculateNonBettingStats(
 }
 
 /**
- * Calculate total shared cost
+ * Get the session's itemised expenses
+ * Sessions created before itemised expenses have none, so their court and bird
+ * costs become expenses paid by the organizer and shared by everyone
  */
-export function calculateTotalSharedCost(session: Session): number {
-  let courtCostTotal: number;
+export function getSessionExpenses(session: Session): SessionExpense[] {
+  if (session.expenses && session.expenses.length > 0) {
+    return session.expenses;
+  }
 
-  if (session.courtCostType === "per_person") {
-    courtCostTotal = session.courtCostValue * session.players.length;
-  } else {
-    courtCostTotal = session.courtCostValue;
+  const courtCostTotal = session.courtCostType === "per_person"
+    ? session.courtCostValue * session.players.length
+    : session.courtCostValue;
+
+  const expenses: SessionExpense[] = [];
+  if (courtCostTotal > 0) {
+    expenses.push({ id: "court", description: "Court", amount: courtCostTotal, paidBy: session.organizerId });
+  }
+  if (session.birdCostTotal > 0) {
+    expenses.push({ id: "birds", description: "Birds/Shuttles", amount: session.birdCostTotal, paidBy: session.organizerId });
+  }
+  return expenses;
+}
+
+/**
+ * Weight each player's share of the costs by the session's split mode
+ */
+export function getCostSplitWeights(session: Session, games: Game[]): Map<string, number> {
+  const mode: CostSplitMode = session.costSplitMode ?? "even";
+
+  if (mode === "games") {
+    const stats = calculateNonBettingStats(games, session.players);
+    return new Map(stats.map((s) => [s.playerId, s.gamesPlayed]));
   }
 
-  return courtCostTotal + session.birdCostTotal;
+  return new Map(
+    session.players.map((p) => [
+      p.id,
+      mode === "attendance" ? Math.min(1, Math.max(0, p.attendanceWeight ?? 1)) : 1,
+    ])
+  );
+}
+
+/**
+ * Split an amount in minor units (e.g. cents) by weight so the parts always add back up to the total
+ * Leftover units go to the largest fractional parts (largest remainder method).
+ * If every weight is zero (e.g. nobody played a game yet) the split is even.
+ */
+function splitMinorUnits(totalUnits: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const effectiveWeights = totalWeight > 0 ? weights : weights.map(() => 1);
+  const weightSum = totalWeight > 0 ? totalWeight : weights.length;
+
+  const exact = effectiveWeights.map((w) => (totalUnits * w) / weightSum);
+  const parts = exact.map((value) => Math.floor(value));
+  let remainder = totalUnits - parts.reduce((sum, part) => sum + part, 0);
+
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (let i = 0; remainder > 0; i = (i + 1) % byFraction.length, remainder--) {
+    parts[byFraction[i].index] += 1;
+  }
+
+  return parts;
+}
+
+/**
+ * Validate a session's cost split mode and attendance weights
+ * Returns an error message, or null if they are usable
+ */
+export function validateCostSplit(session: Session): string | null {
+  const mode = session.costSplitMode ?? "even";
+  if (mode !== "even" && mode !== "attendance" && mode !== "games") {
+    return "Cost split mode must be 'even', 'attendance' or 'games'";
+  }
+
+  const invalidPlayer = session.players.find(
+    (p) => p.attendanceWeight !== undefined &&
+      (typeof p.attendanceWeight !== "number" || p.attendanceWeight < 0 || p.attendanceWeight > 1)
+  );
+  if (invalidPlayer) {
+    return `Attendance for ${invalidPlayer.name} must be between 0 and 1`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate itemised expenses against the session's players
+ * Returns an error message, or null if the expenses are usable
+ */
+export function validateSessionExpenses(session: Session): string | null {
+  const playerIds = new Set(session.players.map((p) => p.id));
+  const { currency } = getCurrencySettings(session);
+
+  for (const expense of session.expenses || []) {
+    if (typeof expense.amount !== "number" || !isFinite(expense.amount) || expense.amount < 0) {
+      return `Expense "${expense.description}" must have an amount of 0 or more`;
+    }
+    if (!hasValidMinorUnits(expense.amount, currency)) {
+      const minorUnits = getMinorUnits(currency);
+      return minorUnits === 0
+        ? `Expense "${expense.description}" must be a whole amount in ${currency}`
+        : `Expense "${expense.description}" can have at most ${minorUnits} decimal places in ${currency}`;
+    }
+    if (!playerIds.has(expense.paidBy)) {
+      return `Expense "${expense.description}" must be paid by a player in this session`;
+    }
+    if (expense.sharedBy && expense.sharedBy.some((id) => !playerIds.has(id))) {
+      return `Expense "${expense.description}" can only be shared by players in this session`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Calculate total shared cost
+ */
+export function calculateTotalSharedCost(session: Session): number {
+  return getSessionExpenses(session).reduce((sum, expense) => sum + expense.amount, 0);
 }
 
 /**
  * Calculate final settlement for all players (includes both betting and non-betting stats)
+ * Each expense is split (to the currency's minor unit, e.g. the cent) between the players
+ * sharing it, weighted by the session's cost split mode, so a player's balance is what they paid, minus their
+ * shares, plus their gambling net
  */
 export function calculateFinalSettlement(
   session: Session,
@@ -185,12 +319,36 @@ export function calculateFinalSettlement(
   );
   const nonBettingStats = calculateNonBettingStats(games, session.players);
 
+  const { currency } = getCurrencySettings(session);
+  const playerIds = session.players.map((p) => p.id);
+  const weights = getCostSplitWeights(session, games);
+  const shareUnits = new Map<string, number>(playerIds.map((id) => [id, 0]));
+  const paidUnits = new Map<string, number>(playerIds.map((id) => [id, 0]));
+
+  getSessionExpenses(session).forEach((expense) => {
+    const sharers = (expense.sharedBy && expense.sharedBy.length > 0 ? expense.sharedBy : playerIds)
+      .filter((id) => shareUnits.has(id));
+    // Skip expenses nobody in the session can settle, so balances always net to zero
+    if (sharers.length === 0 || !paidUnits.has(expense.paidBy)) return;
+
+    const totalUnits = toMinorUnits(expense.amount, currency);
+    const parts = splitMinorUnits(totalUnits, sharers.map((id) => weights.get(id) ?? 1));
+    sharers.forEach((id, index) => {
+      shareUnits.set(id, shareUnits.get(id)! + parts[index]);
+    });
+    paidUnits.set(expense.paidBy, paidUnits.get(expense.paidBy)! + totalUnits);
+  });
+
   return session.players.map((player) => {
     const stats = playerStats.find((s) => s.playerId === player.id)!;
     const nbStats = nonBettingStats.find((s) => s.playerId === player.id)!;
-    const fairTotal = evenSharePerPlayer - stats.gamblingNet;
-    const amountToPayOrganizer =
-      player.id === session.organizerId ? 0 : fairTotal;
+    const expenseShare = fromMinorUnits(shareUnits.get(player.id)!, currency);
+    const amountPaid = fromMinorUnits(paidUnits.get(player.id)!, currency);
+    const fairTotal = expenseShare - stats.gamblingNet;
+    const netBalance = fromMinorUnits(
+      paidUnits.get(player.id)! - shareUnits.get(player.id)! + toMinorUnits(stats.gamblingNet, currency),
+      currency
+    );
 
     return {
       playerId: player.id,
@@ -204,19 +362,115 @@ export function calculateFinalSettlement(
       pointDifferential: nbStats.pointDifferential,
       gamblingNet: stats.gamblingNet,
       evenSharePerPlayer,
+      expenseShare,
+      costWeight: weights.get(player.id) ?? 1,
+      amountPaid,
       fairTotal,
-      amountToPayOrganizer,
+      netBalance,
     };
   });
 }
 
 /**
- * Format currency value
+ * Work out who pays whom, using as few transfers as possible
+ * Players whose balances cancel out within a subgroup can settle among themselves,
+ * so the fewest transfers is (players with a balance) - (most zero-sum subgroups).
+ * The subgroups are found with a DP over subsets; each subgroup is then settled by
+ * repeatedly matching its largest debtor with its largest creditor.
+ */
+export function calculateSettlementTransfers(
+  settlement: Pick<FinalSettlement, "playerId" | "playerName" | "netBalance">[],
+  currency: string = DEFAULT_CURRENCY_SETTINGS.currency
+): SettlementTransfer[] {
+  const balances = settlement
+    .map((s) => ({ playerId: s.playerId, playerName: s.playerName, units: toMinorUnits(s.netBalance, currency) }))
+    .filter((b) => b.units !== 0);
+
+  const groups = balances.length <= MAX_EXACT_SETTLEMENT_PLAYERS
+    ? findZeroSumGroups(balances.map((b) => b.units)).map((group) => group.map((i) => balances[i]))
+    : [balances];
+
+  const transfers: SettlementTransfer[] = [];
+  groups.forEach((group) => {
+    const remaining = group.map((b) => ({ ...b }));
+    for (;;) {
+      const debtor = remaining.reduce((min, b) => (b.units < min.units ? b : min), remaining[0]);
+      const creditor = remaining.reduce((max, b) => (b.units > max.units ? b : max), remaining[0]);
+      if (!debtor || !creditor || debtor.units >= 0 || creditor.units <= 0) break;
+
+      const amount = Math.min(-debtor.units, creditor.units);
+      transfers.push({
+        fromPlayerId: debtor.playerId,
+        fromPlayerName: debtor.playerName,
+        toPlayerId: creditor.playerId,
+        toPlayerName: creditor.playerName,
+        amount: fromMinorUnits(amount, currency),
+      });
+      debtor.units += amount;
+      creditor.units -= amount;
+    }
+  });
+
+  return transfers.sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Split balances (indices) into the most subgroups that each sum to zero
+ * best[mask] is the most zero-sum subgroups the players in mask can be split into,
+ * counting a trailing group that doesn't sum to zero yet
  */
-export function formatCurrency(value: number): string {
-  return new Intl.NumberFormat("en-US", {
+function findZeroSumGroups(units: number[]): number[][] {
+  const n = units.length;
+  const full = (1 << n) - 1;
+  const sum = new Array<number>(1 << n).fill(0);
+  const best = new Array<number>(1 << n).fill(0);
+  const lastAdded = new Array<number>(1 << n).fill(-1);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sum[mask] = sum[mask ^ low] + units[Math.log2(low)];
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const candidate = best[mask ^ (1 << i)];
+      if (lastAdded[mask] === -1 || candidate > best[mask]) {
+        best[mask] = candidate;
+        lastAdded[mask] = i;
+      }
+    }
+    if (sum[mask] === 0) best[mask] += 1;
+  }
+
+  // Walk back through the order players were added; a zero-sum prefix closes a group
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let mask = full;
+  while (mask) {
+    if (sum[mask] === 0 && current.length > 0) {
+      groups.push(current);
+      current = [];
+    }
+    const i = lastAdded[mask];
+    current.push(i);
+    mask ^= 1 << i;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+/**
+ * Format currency value in the group's or session's currency
+ * Shows exactly the decimals the currency is paid in (e.g. none for TWD)
+ */
+export function formatCurrency(
+  value: number,
+  settings: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): string {
+  const minorUnits = getMinorUnits(settings.currency);
+  return new Intl.NumberFormat(settings.locale, {
     style: "currency",
-    currency: "USD",
+    currency: settings.currency,
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
   }).format(value);
 }
 
@@ -237,6 +491,7 @@ export interface ShareableTextOptions {
   games?: Game[];
   players?: Player[];
   costPerPerson?: number;
+  currencySettings?: CurrencySettings;
 }
 
 interface ClutchUnluckyResult {
@@ -377,11 +632,17 @@ export function generateShareableText(
     lines.push('');
   }
 
+  const currencySettings = options.currencySettings ?? DEFAULT_CURRENCY_SETTINGS;
+  const transfers = calculateSettlementTransfers(settlement, currencySettings.currency);
+
   // Player results
   if (bettingEnabled) {
     lines.push('💰 Settlement:');
-    settlement.forEach(s => {
-      lines.push(`${s.playerName} → ${formatCurrency(s.amountToPayOrganizer)}`);
+    if (transfers.length === 0) {
+      lines.push('Everyone is square');
+    }
+    transfers.forEach(t => {
+      lines.push(`${t.fromPlayerName} → ${t.toPlayerName}: ${formatCurrency(t.amount, currencySettings)}`);
     });
   } else {
     lines.push('📈 Results:');
@@ -392,7 +653,15 @@ export function generateShareableText(
     // Show cost breakdown if betting is disabled but there are costs
     if (options.costPerPerson !== undefined && options.costPerPerson > 0) {
       lines.push('');
-      lines.push(`💵 Cost: ${formatCurrency(options.costPerPerson)} per person`);
+      lines.push(`💵 Cost: ${formatCurrency(options.costPerPerson, currencySettings)} per person`);
+    }
+
+    if (transfers.length > 0) {
+      lines.push('');
+      lines.push('💸 Payments:');
+      transfers.forEach(t => {
+        lines.push(`${t.fromPlayerName} → ${t.toPlayerName}: ${formatCurrency(t.amount, currencySettings)}`);
+      });
     }
   }
 
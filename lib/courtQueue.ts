@@ -0,0 +1,206 @@
+import { CourtQueue, CourtQueueRule, QueueCourt, QueuedPlayer } from "@/types";
+
+type GameMode = "doubles" | "singles";
+
+/**
+ * Live court queue ("who's up next")
+ *
+ * Players check in to a waiting list. Whenever a court is free, the players who have
+ * waited longest are put on it. When a game on a court finishes, the queue rule decides
+ * who stays on: the winners (king of the court), the losers, or nobody. Everyone who
+ * comes off goes to the back of the waiting list.
+ *
+ * All functions are pure and return a new queue, so the result can be saved straight
+ * onto the session.
+ */
+
+export const DEFAULT_MAX_CONSECUTIVE_GAMES = 3;
+
+export const COURT_QUEUE_RULE_LABELS: Record<CourtQueueRule, string> = {
+  winners_stay: "Winners stay on",
+  losers_stay: "Losers stay on",
+  everyone_off: "Everyone off",
+};
+
+function getPlayersPerTeam(gameMode: GameMode): number {
+  return gameMode === "singles" ? 1 : 2;
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+function toQueuedPlayers(playerIds: string[], now: Date): QueuedPlayer[] {
+  return playerIds.map((playerId) => ({ playerId, waitingSince: now.toISOString() }));
+}
+
+/**
+ * Create an empty queue
+ */
+export function createCourtQueue(
+  courtCount: number = 1,
+  rule: CourtQueueRule = "winners_stay",
+  maxConsecutiveGames: number = DEFAULT_MAX_CONSECUTIVE_GAMES
+): CourtQueue {
+  return {
+    courtCount,
+    rule,
+    maxConsecutiveGames,
+    courts: Array.from({ length: courtCount }, () => null),
+    waiting: [],
+  };
+}
+
+/**
+ * Player IDs currently on any court
+ */
+export function getPlayersOnCourt(queue: CourtQueue): Set<string> {
+  const onCourt = new Set<string>();
+  queue.courts.forEach((court) => {
+    court?.teamA.forEach((id) => onCourt.add(id));
+    court?.teamB.forEach((id) => onCourt.add(id));
+  });
+  return onCourt;
+}
+
+/**
+ * Whether a court has both teams and the game can be played
+ */
+export function isCourtReady(court: QueueCourt | null, gameMode: GameMode): boolean {
+  const perTeam = getPlayersPerTeam(gameMode);
+  return !!court && court.teamA.length === perTeam && court.teamB.length === perTeam;
+}
+
+/**
+ * Put the longest-waiting players on every free court
+ * A court holding a staying team only needs challengers; an empty court takes a full game.
+ * For doubles, the four longest waiters are split 1st & 4th vs 2nd & 3rd to keep teams mixed.
+ */
+export function fillCourts(queue: CourtQueue, gameMode: GameMode, now: Date = new Date()): CourtQueue {
+  const perTeam = getPlayersPerTeam(gameMode);
+  const waiting = [...queue.waiting].sort(
+    (a, b) => new Date(a.waitingSince).getTime() - new Date(b.waitingSince).getTime()
+  );
+
+  const courts = queue.courts.map((court) => {
+    if (court && court.teamA.length === perTeam && court.teamB.length === 0) {
+      if (waiting.length < perTeam) return court;
+      const challengers = waiting.splice(0, perTeam).map((p) => p.playerId);
+      return { ...court, teamB: challengers, startedAt: now.toISOString() };
+    }
+
+    if (!court) {
+      if (waiting.length < perTeam * 2) return null;
+      const next = waiting.splice(0, perTeam * 2).map((p) => p.playerId);
+      const [teamA, teamB] = perTeam === 2 ? [[next[0], next[3]], [next[1], next[2]]] : [[next[0]], [next[1]]];
+      return { teamA, teamB, startedAt: now.toISOString(), consecutiveGames: 0 };
+    }
+
+    return court;
+  });
+
+  return { ...queue, courts, waiting };
+}
+
+/**
+ * Add a player to the back of the waiting list
+ */
+export function checkInPlayer(
+  queue: CourtQueue,
+  playerId: string,
+  gameMode: GameMode,
+  now: Date = new Date()
+): CourtQueue {
+  if (queue.waiting.some((p) => p.playerId === playerId) || getPlayersOnCourt(queue).has(playerId)) {
+    return queue;
+  }
+  return fillCourts({ ...queue, waiting: [...queue.waiting, ...toQueuedPlayers([playerId], now)] }, gameMode, now);
+}
+
+/**
+ * Remove a waiting player (players on court finish their game first)
+ */
+export function checkOutPlayer(queue: CourtQueue, playerId: string): CourtQueue {
+  return { ...queue, waiting: queue.waiting.filter((p) => p.playerId !== playerId) };
+}
+
+/**
+ * Send everyone on a court back to the waiting list without recording a result
+ * Players go back to the front of the queue since their game never happened
+ */
+export function clearCourt(
+  queue: CourtQueue,
+  courtIndex: number,
+  gameMode: GameMode,
+  now: Date = new Date()
+): CourtQueue {
+  const court = queue.courts[courtIndex];
+  if (!court) return queue;
+
+  const earliest = queue.waiting.reduce(
+    (min, p) => Math.min(min, new Date(p.waitingSince).getTime()),
+    now.getTime()
+  );
+  const returning = toQueuedPlayers([...court.teamA, ...court.teamB], new Date(earliest - 1));
+  const courts = queue.courts.map((c, i) => (i === courtIndex ? null : c));
+
+  return fillCourts({ ...queue, courts, waiting: [...returning, ...queue.waiting] }, gameMode, now);
+}
+
+/**
+ * Change the number of courts or the queue rule
+ * Players on courts that are removed go back to the waiting list
+ */
+export function updateCourtQueueSettings(
+  queue: CourtQueue,
+  settings: Pick<CourtQueue, "courtCount" | "rule" | "maxConsecutiveGames">,
+  gameMode: GameMode,
+  now: Date = new Date()
+): CourtQueue {
+  const removedCourts = queue.courts.slice(settings.courtCount);
+  const returning = removedCourts.flatMap((court) => (court ? [...court.teamA, ...court.teamB] : []));
+  const courts = Array.from({ length: settings.courtCount }, (_, i) => queue.courts[i] ?? null);
+
+  return fillCourts(
+    { ...queue, ...settings, courts, waiting: [...queue.waiting, ...toQueuedPlayers(returning, now)] },
+    gameMode,
+    now
+  );
+}
+
+/**
+ * Feed a finished game back into the queue
+ * Finds the court the two teams were playing on, keeps the staying team on (per the rule
+ * and the consecutive game limit), sends everyone else to the back of the waiting list and
+ * refills free courts.
+ * Returns null if the game wasn't played on a queue court (e.g. a manually entered game).
+ */
+export function recordCourtQueueResult(
+  queue: CourtQueue,
+  winners: string[],
+  losers: string[],
+  gameMode: GameMode,
+  now: Date = new Date()
+): CourtQueue | null {
+  const courtIndex = queue.courts.findIndex(
+    (court) =>
+      !!court &&
+      ((sameMembers(court.teamA, winners) && sameMembers(court.teamB, losers)) ||
+        (sameMembers(court.teamA, losers) && sameMembers(court.teamB, winners)))
+  );
+  if (courtIndex === -1) return null;
+
+  const court = queue.courts[courtIndex]!;
+  const stayers = queue.rule === "winners_stay" ? winners : queue.rule === "losers_stay" ? losers : [];
+  // Incumbent team extends its run; a challenger team that stays starts a new one
+  const streak = stayers.length > 0 && sameMembers(court.teamA, stayers) ? court.consecutiveGames + 1 : 1;
+  const staying = stayers.length > 0 && (queue.maxConsecutiveGames === 0 || streak < queue.maxConsecutiveGames);
+
+  const leaving = staying ? [...winners, ...losers].filter((id) => !stayers.includes(id)) : [...losers, ...winners];
+  const nextCourt: QueueCourt | null = staying
+    ? { teamA: stayers, teamB: [], startedAt: now.toISOString(), consecutiveGames: streak }
+    : null;
+  const courts = queue.courts.map((c, i) => (i === courtIndex ? nextCourt : c));
+
+  return fillCourts({ ...queue, courts, waiting: [...queue.waiting, ...toQueuedPlayers(leaving, now)] }, gameMode, now);
+}
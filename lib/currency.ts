@@ -0,0 +1,137 @@
+import { CurrencySettings } from "@/types";
+
+/**
+ * Currency helpers
+ *
+ * Every money amount in a group or standalone session is in one currency. Amounts are
+ * settled in the currency's minor units (cents for USD, whole dollars for TWD) so shares
+ * and transfers are rounded the same way everywhere and always add up.
+ */
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: "USD",
+  locale: "en-US",
+};
+
+// Currencies offered in the pickers, each with the locale it's usually written in
+export const CURRENCY_OPTIONS: Array<CurrencySettings & { label: string }> = [
+  { currency: "USD", locale: "en-US", label: "US Dollar" },
+  { currency: "CAD", locale: "en-CA", label: "Canadian Dollar" },
+  { currency: "TWD", locale: "zh-TW", label: "New Taiwan Dollar" },
+  { currency: "EUR", locale: "en-IE", label: "Euro" },
+  { currency: "GBP", locale: "en-GB", label: "British Pound" },
+  { currency: "AUD", locale: "en-AU", label: "Australian Dollar" },
+  { currency: "NZD", locale: "en-NZ", label: "New Zealand Dollar" },
+  { currency: "SGD", locale: "en-SG", label: "Singapore Dollar" },
+  { currency: "HKD", locale: "zh-HK", label: "Hong Kong Dollar" },
+  { currency: "MYR", locale: "ms-MY", label: "Malaysian Ringgit" },
+  { currency: "JPY", locale: "ja-JP", label: "Japanese Yen" },
+  { currency: "KRW", locale: "ko-KR", label: "South Korean Won" },
+  { currency: "INR", locale: "en-IN", label: "Indian Rupee" },
+];
+
+// Intl uses the ISO 4217 minor units, but these currencies are only ever paid in whole units
+const MINOR_UNIT_OVERRIDES: Record<string, number> = {
+  TWD: 0,
+  HUF: 0,
+};
+
+/**
+ * Currency settings for a group or session, falling back to USD for older records
+ */
+export function getCurrencySettings(source?: { currencySettings?: CurrencySettings } | null): CurrencySettings {
+  return source?.currencySettings ?? DEFAULT_CURRENCY_SETTINGS;
+}
+
+/**
+ * Settings to show amounts in a currency, keeping the preferred settings' locale when they
+ * are for the same currency (a group's TWD written zh-TW) and otherwise the picker's locale
+ */
+export function getSettingsForCurrency(
+  currency: string,
+  preferred: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): CurrencySettings {
+  if (preferred.currency === currency) {
+    return preferred;
+  }
+  return CURRENCY_OPTIONS.find((option) => option.currency === currency) ?? { currency, locale: preferred.locale };
+}
+
+/**
+ * Number of decimal places amounts in this currency are paid in
+ */
+export function getMinorUnits(currency: string): number {
+  if (currency in MINOR_UNIT_OVERRIDES) {
+    return MINOR_UNIT_OVERRIDES[currency];
+  }
+  try {
+    return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Convert an amount to whole minor units (e.g. dollars to cents)
+ */
+export function toMinorUnits(value: number, currency: string): number {
+  return Math.round(value * 10 ** getMinorUnits(currency));
+}
+
+/**
+ * Convert whole minor units back to an amount
+ */
+export function fromMinorUnits(units: number, currency: string): number {
+  return units / 10 ** getMinorUnits(currency);
+}
+
+/**
+ * Whether an amount can be paid exactly in this currency (no fractions of a cent, no cents in TWD)
+ */
+export function hasValidMinorUnits(value: number, currency: string): boolean {
+  const scaled = value * 10 ** getMinorUnits(currency);
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+}
+
+/**
+ * Step for amount inputs, e.g. "0.01" for USD and "1" for TWD
+ */
+export function getAmountInputStep(currency: string): string {
+  const minorUnits = getMinorUnits(currency);
+  return minorUnits === 0 ? "1" : (1 / 10 ** minorUnits).toFixed(minorUnits);
+}
+
+/**
+ * Currency symbol as written in the settings' locale, e.g. "$" for TWD in zh-TW
+ */
+export function getCurrencySymbol(settings: CurrencySettings): string {
+  try {
+    const parts = new Intl.NumberFormat(settings.locale, { style: "currency", currency: settings.currency }).formatToParts(0);
+    return parts.find((part) => part.type === "currency")?.value ?? settings.currency;
+  } catch {
+    return settings.currency;
+  }
+}
+
+/**
+ * Validate a currency settings payload
+ * Returns an error message, or null if the settings are usable
+ */
+export function validateCurrencySettings(settings: Partial<CurrencySettings> | undefined): string | null {
+  if (!settings) {
+    return "Currency settings are required";
+  }
+  if (typeof settings.currency !== "string" || !/^[A-Z]{3}$/.test(settings.currency)) {
+    return "Currency must be a 3-letter ISO 4217 code, e.g. 'USD'";
+  }
+  if (typeof settings.locale !== "string" || settings.locale.length > 35) {
+    return "Locale is required, e.g. 'en-US'";
+  }
+  try {
+    new Intl.NumberFormat(settings.locale, { style: "currency", currency: settings.currency });
+  } catch {
+    return `Locale '${settings.locale}' is not supported`;
+  }
+
+  return null;
+}
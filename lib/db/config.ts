@@ -0,0 +1,23 @@
+import { getPostgresConnectionString } from './postgresAdapter';
+import { DatabaseBackend } from './types';
+
+export function getDatabaseBackend(): DatabaseBackend {
+  const backend = (process.env.DATABASE_BACKEND || 'supabase').trim().toLowerCase();
+  if (backend !== 'supabase' && backend !== 'postgres' && backend !== 'memory') {
+    throw new Error(`Unknown DATABASE_BACKEND "${backend}". Use supabase, postgres or memory.`);
+  }
+  return backend;
+}
+
+/**
+ * Check the database settings when the server starts (see instrumentation.ts)
+ * The supabase backend saves games in transactions over POSTGRES_URL, so without it the app
+ * would seem to work and then fail every game write - it fails at startup with the reason instead
+ */
+export function checkDatabaseConfig(): void {
+  if (getDatabaseBackend() === 'supabase' && !getPostgresConnectionString()) {
+    throw new Error(
+      'POSTGRES_URL is not set - the supabase backend needs a direct database connection (the one the migrations use) to save games in a transaction. Set POSTGRES_URL, or DATABASE_BACKEND=memory to run without a database.'
+    );
+  }
+}
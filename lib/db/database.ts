@@ -0,0 +1,219 @@
+import {
+  DatabaseAdapter,
+  DatabaseBackend,
+  DatabaseRow,
+  FilterOperator,
+  Query,
+  QueryAction,
+  QueryResult,
+  TransactionOptions,
+} from './types';
+
+// PostgREST's code for .single() matching zero or several rows - services treat it as "not found"
+export const NO_SINGLE_ROW_CODE = 'PGRST116';
+
+/**
+ * Chainable query with the same surface as the Supabase query builder
+ * (from/select/insert/update/upsert/delete, filters, order, limit, single),
+ * so services read the same whichever backend runs the query
+ * Rows are untyped like an untyped Supabase client: any[] by default, any after single()
+ */
+export class QueryBuilder<T = any[]> implements PromiseLike<QueryResult<T>> {
+  private query: Query;
+
+  constructor(private adapter: DatabaseAdapter, table: string) {
+    this.query = {
+      table,
+      action: 'select',
+      columns: '*',
+      returning: false,
+      filters: [],
+      orders: [],
+    };
+  }
+
+  select(columns: string = '*', options?: { count?: 'exact'; head?: boolean }): this {
+    this.query.columns = parseColumns(columns);
+    if (this.query.action === 'select') {
+      this.query.count = options?.count === 'exact';
+      this.query.head = options?.head ?? false;
+    } else {
+      this.query.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: DatabaseRow | DatabaseRow[]): this {
+    return this.setMutation('insert', Array.isArray(values) ? values : [values]);
+  }
+
+  update(values: DatabaseRow): this {
+    return this.setMutation('update', [values]);
+  }
+
+  upsert(
+    values: DatabaseRow | DatabaseRow[],
+    options?: { onConflict?: string; ignoreDuplicates?: boolean }
+  ): this {
+    this.setMutation('upsert', Array.isArray(values) ? values : [values]);
+    this.query.onConflict = options?.onConflict
+      ? options.onConflict.split(',').map((c) => c.trim())
+      : undefined;
+    this.query.ignoreDuplicates = options?.ignoreDuplicates ?? false;
+    return this;
+  }
+
+  delete(): this {
+    return this.setMutation('delete');
+  }
+
+  eq(column: string, value: any): this {
+    return this.addFilter(column, 'eq', value);
+  }
+
+  neq(column: string, value: any): this {
+    return this.addFilter(column, 'neq', value);
+  }
+
+  gt(column: string, value: any): this {
+    return this.addFilter(column, 'gt', value);
+  }
+
+  gte(column: string, value: any): this {
+    return this.addFilter(column, 'gte', value);
+  }
+
+  lt(column: string, value: any): this {
+    return this.addFilter(column, 'lt', value);
+  }
+
+  lte(column: string, value: any): this {
+    return this.addFilter(column, 'lte', value);
+  }
+
+  in(column: string, values: readonly any[]): this {
+    return this.addFilter(column, 'in', [...values]);
+  }
+
+  is(column: string, value: boolean | null): this {
+    return this.addFilter(column, 'is', value);
+  }
+
+  ilike(column: string, pattern: string): this {
+    return this.addFilter(column, 'ilike', pattern);
+  }
+
+  not(column: string, operator: FilterOperator, value: any): this {
+    return this.addFilter(column, operator, value, true);
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.query.orders.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.query.limit = count;
+    return this;
+  }
+
+  single(): QueryBuilder<any> {
+    this.query.single = 'single';
+    return this;
+  }
+
+  maybeSingle(): QueryBuilder<any> {
+    this.query.single = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult<T>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private async execute(): Promise<QueryResult<T>> {
+    try {
+      return await this.adapter.execute(this.query);
+    } catch (error) {
+      // Backends report errors in the result; anything thrown is unexpected (e.g. connection lost)
+      const err = error as { message?: string; code?: string };
+      return { data: null, error: { message: err?.message || 'Unknown database error', code: err?.code }, count: null };
+    }
+  }
+
+  private setMutation(action: QueryAction, values?: DatabaseRow[]): this {
+    this.query.action = action;
+    this.query.values = values;
+    return this;
+  }
+
+  private addFilter(column: string, operator: FilterOperator, value: any, negated: boolean = false): this {
+    this.query.filters.push({ column, operator, value, negated });
+    return this;
+  }
+}
+
+/**
+ * Entry point services use in place of the Supabase client
+ */
+export class Database {
+  constructor(private adapter: DatabaseAdapter) {}
+
+  get backend(): DatabaseBackend {
+    return this.adapter.backend;
+  }
+
+  from(table: string): QueryBuilder {
+    return new QueryBuilder(this.adapter, table);
+  }
+
+  /**
+   * Run fn against a database whose queries commit together; anything fn throws rolls them back
+   * Services normally go through runInTransaction() so nested calls share the transaction
+   */
+  transaction<T>(fn: (database: Database) => Promise<T>, options?: TransactionOptions): Promise<T> {
+    return this.adapter.transaction((adapter) => fn(new Database(adapter)), options);
+  }
+}
+
+/**
+ * Parse a select list like "id, name" ('*' or empty = all columns)
+ */
+export function parseColumns(columns: string): string[] | '*' {
+  const parsed = columns.split(',').map((c) => c.trim()).filter(Boolean);
+  return parsed.length === 0 || parsed.includes('*') ? '*' : parsed;
+}
+
+/**
+ * Shape rows into the result for a query, applying single()/maybeSingle() and head counts
+ */
+export function toQueryResult(query: Query, rows: DatabaseRow[], count: number | null = null): QueryResult {
+  if (query.head) {
+    return { data: null, error: null, count };
+  }
+  const isMutation = query.action !== 'select';
+  if (isMutation && !query.returning) {
+    return { data: null, error: null, count };
+  }
+  if (query.single) {
+    if (rows.length === 1) {
+      return { data: rows[0], error: null, count };
+    }
+    if (rows.length === 0 && query.single === 'maybeSingle') {
+      return { data: null, error: null, count };
+    }
+    return {
+      data: null,
+      error: {
+        code: NO_SINGLE_ROW_CODE,
+        message: 'JSON object requested, multiple (or no) rows returned',
+        details: `The result contains ${rows.length} rows`,
+      },
+      count,
+    };
+  }
+  return { data: rows, error: null, count };
+}
@@ -0,0 +1,100 @@
+import 'server-only';
+import { AsyncLocalStorage } from 'async_hooks';
+import { getDatabaseBackend } from './config';
+import { Database } from './database';
+import { createMemoryAdapter } from './memoryAdapter';
+import { createPostgresAdapter } from './postgresAdapter';
+import { createSupabaseAdapter } from './supabaseAdapter';
+import { DatabaseBackend, DatabaseRow, TransactionOptions } from './types';
+
+/**
+ * Data-access layer
+ *
+ * Services query through getDatabase() with the Supabase-style builder and never see
+ * which backend answers. DATABASE_BACKEND picks it:
+ * - supabase (default): Supabase REST API, see lib/supabase.ts
+ * - postgres: direct connection with the same POSTGRES_URL the migrations use
+ * - memory: in-process tables, no database needed (tests, demos, offline work)
+ *
+ * Inside runInTransaction(), getDatabase() returns the transaction's database, so service
+ * calls made from the callback commit or roll back together without passing it around.
+ * runWithDatabase() points the same calls at another database, e.g. an in-memory copy.
+ *
+ * Server only: importing this (or a service) from a client component fails the build.
+ * Outside Next.js, run with `--conditions=react-server` (as `npm test` does).
+ */
+
+export { checkDatabaseConfig, getDatabaseBackend } from './config';
+export { Database, QueryBuilder } from './database';
+export type { DatabaseBackend, DatabaseError, DatabaseRow, QueryResult, TransactionOptions } from './types';
+
+// Kept on globalThis so hot reloads and separately bundled routes share one pool / memory store
+const globalForDatabase = globalThis as unknown as { database?: Database };
+
+// Database the current async call chain is bound to (a transaction's, or one given to runWithDatabase)
+interface DatabaseScope {
+  database: Database;
+  inTransaction: boolean;
+}
+
+const databaseScope = new AsyncLocalStorage<DatabaseScope>();
+
+/**
+ * The database for the configured backend (or the one the current call chain is bound to)
+ */
+export function getDatabase(): Database {
+  const scope = databaseScope.getStore();
+  if (scope) {
+    return scope.database;
+  }
+  if (!globalForDatabase.database) {
+    globalForDatabase.database = createDatabase(getDatabaseBackend());
+  }
+  return globalForDatabase.database;
+}
+
+/**
+ * Replace the shared database, e.g. with a seeded in-memory one for a test (null resets it)
+ */
+export function setDatabase(database: Database | null): void {
+  globalForDatabase.database = database ?? undefined;
+}
+
+/**
+ * Run fn in one transaction: if it throws, none of its writes are kept
+ * Calls made while a transaction is already running join it (and its lock)
+ */
+export async function runInTransaction<T>(fn: () => Promise<T>, options?: TransactionOptions): Promise<T> {
+  if (databaseScope.getStore()?.inTransaction) {
+    return fn();
+  }
+  return getDatabase().transaction(
+    (database) => databaseScope.run({ database, inTransaction: true }, fn),
+    options
+  );
+}
+
+/**
+ * Run fn with getDatabase() returning the given database
+ */
+export async function runWithDatabase<T>(database: Database, fn: () => Promise<T>): Promise<T> {
+  return databaseScope.run({ database, inTransaction: false }, fn);
+}
+
+export function createDatabase(backend: DatabaseBackend): Database {
+  switch (backend) {
+    case 'postgres':
+      return new Database(createPostgresAdapter());
+    case 'memory':
+      return new Database(createMemoryAdapter());
+    default:
+      return new Database(createSupabaseAdapter());
+  }
+}
+
+/**
+ * A fresh in-memory database, optionally pre-filled with rows per table
+ */
+export function createMemoryDatabase(seed?: Record<string, DatabaseRow[]>): Database {
+  return new Database(createMemoryAdapter(seed));
+}
@@ -0,0 +1,257 @@
+import { toQueryResult } from './database';
+import { MEMORY_SCHEMA, TableSchema } from './memorySchema';
+import { DatabaseAdapter, DatabaseError, DatabaseRow, Query, QueryFilter, QueryResult } from './types';
+
+/**
+ * Keeps every table in process memory - for tests, demos and working offline
+ * Data lasts until the server restarts. Values are stored as JSON (the way they'd
+ * travel to Supabase), so dates come back as ISO strings.
+ * Transactions run one at a time and restore a snapshot of all tables if they fail;
+ * queries outside a transaction aren't isolated from one in progress.
+ */
+export function createMemoryAdapter(seed: Record<string, DatabaseRow[]> = {}): DatabaseAdapter {
+  const tables = new Map<string, DatabaseRow[]>(
+    Object.keys(MEMORY_SCHEMA).map((table) => [
+      table,
+      (seed[table] || []).map((row) => withDefaults(MEMORY_SCHEMA[table], toJson(row))),
+    ])
+  );
+
+  const fail = (error: DatabaseError): QueryResult => ({ data: null, error, count: null });
+
+  // Tail of the transaction queue - each transaction starts once the previous one settles
+  let transactionQueue: Promise<unknown> = Promise.resolve();
+
+  const deleteRows = (table: string, rowsToDelete: DatabaseRow[]) => {
+    const schema = MEMORY_SCHEMA[table];
+    tables.set(table, tables.get(table)!.filter((row) => !rowsToDelete.includes(row)));
+
+    // Apply ON DELETE rules of every table pointing at the deleted rows
+    const deletedKeys = new Set(rowsToDelete.map((row) => String(row[schema.primaryKey])));
+    Object.entries(MEMORY_SCHEMA).forEach(([childTable, childSchema]) => {
+      (childSchema.references || [])
+        .filter((ref) => ref.table === table)
+        .forEach((ref) => {
+          const children = tables.get(childTable)!.filter((row) => row[ref.column] != null && deletedKeys.has(String(row[ref.column])));
+          if (children.length === 0) return;
+          if (ref.onDelete === 'cascade') {
+            deleteRows(childTable, children);
+          } else {
+            children.forEach((row) => { row[ref.column] = null; });
+          }
+        });
+    });
+  };
+
+  const adapter: DatabaseAdapter = {
+    backend: 'memory',
+
+    transaction<T>(fn: (transactionAdapter: DatabaseAdapter) => Promise<T>): Promise<T> {
+      // Nested calls join the running transaction instead of waiting behind it
+      const transactionAdapter: DatabaseAdapter = {
+        ...adapter,
+        transaction: (nestedFn) => nestedFn(transactionAdapter),
+      };
+
+      const run = async () => {
+        const snapshot = new Map(Array.from(tables.entries()).map(([table, rows]) => [table, toJson(rows)]));
+        try {
+          return await fn(transactionAdapter);
+        } catch (error) {
+          snapshot.forEach((rows, table) => tables.set(table, rows));
+          throw error;
+        }
+      };
+
+      const result = transactionQueue.then(run, run);
+      transactionQueue = result.catch(() => undefined);
+      return result;
+    },
+
+    async execute(query: Query): Promise<QueryResult> {
+      const schema = MEMORY_SCHEMA[query.table];
+      const rows = tables.get(query.table);
+      if (!schema || !rows) {
+        return fail({ code: '42P01', message: `relation "${query.table}" does not exist` });
+      }
+
+      const project = (row: DatabaseRow): DatabaseRow => {
+        if (query.columns === '*') return toJson(row);
+        return Object.fromEntries(query.columns.map((c) => [c, c in row ? toJson(row[c]) : null]));
+      };
+
+      switch (query.action) {
+        case 'select': {
+          let matched = rows.filter((row) => matchesFilters(row, query.filters));
+          const count = matched.length;
+          query.orders
+            .slice()
+            .reverse()
+            .forEach(({ column, ascending }) => {
+              matched = matched.slice().sort((a, b) => compareForOrder(a[column], b[column], ascending));
+            });
+          if (query.limit !== undefined) {
+            matched = matched.slice(0, Math.max(0, query.limit));
+          }
+          return toQueryResult(query, matched.map(project), query.count ? count : null);
+        }
+
+        case 'insert':
+        case 'upsert': {
+          const conflictColumns = query.action === 'upsert' ? query.onConflict || [schema.primaryKey] : null;
+          const written: DatabaseRow[] = [];
+          const pending: DatabaseRow[] = [];
+
+          for (const values of query.values || []) {
+            const patch = toJson(values);
+            const existing = conflictColumns
+              ? [...rows, ...pending].find((row) => conflictColumns.every((c) => sameValue(row[c], patch[c])))
+              : undefined;
+
+            if (existing) {
+              if (query.ignoreDuplicates) continue;
+              Object.assign(existing, patch);
+              written.push(existing);
+              continue;
+            }
+
+            const row = withDefaults(schema, patch);
+            if (row[schema.primaryKey] == null) {
+              return fail({ code: '23502', message: `null value in column "${schema.primaryKey}" of relation "${query.table}" violates not-null constraint` });
+            }
+            const violated = [[schema.primaryKey], ...(schema.unique || [])].find((columns) =>
+              [...rows, ...pending].some((other) => columns.every((c) => sameValue(other[c], row[c])))
+            );
+            if (violated) {
+              return fail({
+                code: '23505',
+                message: `duplicate key value violates unique constraint on "${query.table}"`,
+                details: `Key (${violated.join(', ')}) already exists.`,
+              });
+            }
+            pending.push(row);
+            written.push(row);
+          }
+
+          rows.push(...pending);
+          return toQueryResult(query, written.map(project));
+        }
+
+        case 'update': {
+          const patch = toJson(query.values?.[0] || {});
+          if (Object.keys(patch).length === 0) {
+            return fail({ message: 'No fields to update' });
+          }
+          const matched = rows.filter((row) => matchesFilters(row, query.filters));
+          const updated = matched.map((row) => ({ ...row, ...patch }));
+          const others = rows.filter((row) => matched.indexOf(row) === -1);
+          const violated = (schema.unique || []).find((columns) =>
+            updated.some((row, i) =>
+              [...others, ...updated.slice(0, i)].some((other) => columns.every((c) => sameValue(other[c], row[c])))
+            )
+          );
+          if (violated) {
+            return fail({
+              code: '23505',
+              message: `duplicate key value violates unique constraint on "${query.table}"`,
+              details: `Key (${violated.join(', ')}) already exists.`,
+            });
+          }
+          matched.forEach((row) => Object.assign(row, patch));
+          return toQueryResult(query, matched.map(project));
+        }
+
+        case 'delete': {
+          const matched = rows.filter((row) => matchesFilters(row, query.filters));
+          const result = matched.map(project);
+          deleteRows(query.table, matched);
+          return toQueryResult(query, result);
+        }
+      }
+    },
+  };
+
+  return adapter;
+}
+
+function withDefaults(schema: TableSchema, values: DatabaseRow): DatabaseRow {
+  const row: DatabaseRow = {};
+  Object.entries(schema.defaults).forEach(([column, getDefault]) => {
+    if (values[column] === undefined) {
+      row[column] = getDefault();
+    }
+  });
+  return { ...row, ...values };
+}
+
+function toJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * SQL-style filtering: comparisons against NULL never match (use .is() for that)
+ */
+function matchesFilters(row: DatabaseRow, filters: QueryFilter[]): boolean {
+  return filters.every(({ column, operator, value, negated }) => {
+    const cell = row[column];
+    let matches: boolean;
+    switch (operator) {
+      case 'is':
+        matches = value === null ? cell == null : cell === value;
+        break;
+      case 'in':
+        if (cell == null) return false;
+        matches = (value as any[]).some((v) => sameValue(cell, v));
+        break;
+      case 'ilike':
+        if (cell == null) return false;
+        matches = likeToRegExp(String(value)).test(String(cell));
+        break;
+      default: {
+        if (cell == null || value == null) return false;
+        const comparison = compareValues(cell, value);
+        matches =
+          operator === 'eq' ? comparison === 0
+          : operator === 'neq' ? comparison !== 0
+          : operator === 'gt' ? comparison > 0
+          : operator === 'gte' ? comparison >= 0
+          : operator === 'lt' ? comparison < 0
+          : comparison <= 0;
+      }
+    }
+    return negated ? !matches : matches;
+  });
+}
+
+function sameValue(a: any, b: any): boolean {
+  return a != null && b != null && compareValues(a, b) === 0;
+}
+
+function compareValues(a: any, b: any): number {
+  const bothNumeric =
+    (typeof a === 'number' || typeof b === 'number') && !isNaN(Number(a)) && !isNaN(Number(b));
+  if (bothNumeric) {
+    return Number(a) - Number(b);
+  }
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Postgres puts NULLs last when ascending and first when descending
+function compareForOrder(a: any, b: any, ascending: boolean): number {
+  if (a == null || b == null) {
+    if (a == null && b == null) return 0;
+    return (a == null ? 1 : -1) * (ascending ? 1 : -1);
+  }
+  const comparison = compareValues(a, b);
+  return ascending ? comparison : -comparison;
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,238 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Table definitions for the in-memory backend
+ *
+ * Mirrors the parts of scripts/init-db-schema.sql and scripts/migrations/ the services
+ * rely on: column defaults, unique constraints and ON DELETE behaviour. Other columns
+ * are stored as given. Keep this in step when a migration adds a table or a default.
+ */
+
+export interface TableReference {
+  column: string;
+  table: string;
+  onDelete: 'cascade' | 'set null';
+}
+
+export interface TableSchema {
+  primaryKey: string;
+  defaults: Record<string, () => unknown>;
+  unique?: string[][];
+  references?: TableReference[];
+}
+
+const now = () => new Date().toISOString();
+const uuid = () => randomUUID();
+const value = (v: unknown) => () => v;
+
+export const MEMORY_SCHEMA: Record<string, TableSchema> = {
+  groups: {
+    primaryKey: 'id',
+    defaults: {
+      rating_engine: value('elo'),
+      elo_k_factor: value(64),
+      elo_starting_rating: value(1500),
+      elo_rating_floor: value(100),
+      elo_margin_of_victory: value(false),
+      currency: value('USD'),
+      currency_locale: value('en-US'),
+      admin_pin_hash: value(null),
+      admin_pin_failed_attempts: value(0),
+      admin_pin_failed_since: value(null),
+      spectator_link: value(null),
+      created_at: now,
+      updated_at: now,
+    },
+    unique: [['shareable_link'], ['spectator_link']],
+  },
+  group_players: {
+    primaryKey: 'id',
+    defaults: {
+      elo_rating: value(1500),
+      rating_deviation: value(350),
+      rating_volatility: value(0.06),
+      last_played_at: value(null),
+      wins: value(0),
+      losses: value(0),
+      total_games: value(0),
+      current_streak: value(0),
+      best_win_streak: value(0),
+      sessions_attended: value(0),
+      is_active: value(true),
+      user_id: value(null),
+      created_at: now,
+    },
+    unique: [['group_id', 'user_id']],
+    references: [
+      { column: 'group_id', table: 'groups', onDelete: 'cascade' },
+      { column: 'user_id', table: 'users', onDelete: 'set null' },
+    ],
+  },
+  sessions: {
+    primaryKey: 'id',
+    defaults: {
+      name: value(null),
+      court_cost_value: value(0),
+      bird_cost_total: value(0),
+      bet_per_player: value(0),
+      game_mode: value('doubles'),
+      round_robin_count: value(null),
+      group_id: value(null),
+      betting_enabled: value(true),
+      court_queue: value(null),
+      expenses: value(null),
+      cost_split_mode: value('even'),
+      currency: value('USD'),
+      currency_locale: value('en-US'),
+      scoring_rule: value('rally_21'),
+      tournament: value(null),
+      created_at: now,
+      updated_at: now,
+    },
+    references: [{ column: 'group_id', table: 'groups', onDelete: 'cascade' }],
+  },
+  players: {
+    primaryKey: 'id',
+    defaults: {
+      group_player_id: value(null),
+      attendance_weight: value(1),
+      created_at: now,
+    },
+    references: [
+      { column: 'session_id', table: 'sessions', onDelete: 'cascade' },
+      { column: 'group_player_id', table: 'group_players', onDelete: 'set null' },
+    ],
+  },
+  games: {
+    primaryKey: 'id',
+    defaults: {
+      winning_team: value(null),
+      team_a_score: value(null),
+      team_b_score: value(null),
+      sets: value(null),
+      rallies: value(null),
+      created_at: now,
+      updated_at: now,
+    },
+    unique: [['session_id', 'game_number']],
+    references: [{ column: 'session_id', table: 'sessions', onDelete: 'cascade' }],
+  },
+  partner_stats: {
+    primaryKey: 'id',
+    defaults: {
+      id: uuid,
+      wins: value(0),
+      losses: value(0),
+      total_games: value(0),
+      elo_rating: value(1500),
+      current_streak: value(0),
+      best_win_streak: value(0),
+      points_for: value(0),
+      points_against: value(0),
+      created_at: now,
+      updated_at: now,
+    },
+    unique: [['group_id', 'player1_id', 'player2_id']],
+    references: [
+      { column: 'group_id', table: 'groups', onDelete: 'cascade' },
+      { column: 'player1_id', table: 'group_players', onDelete: 'cascade' },
+      { column: 'player2_id', table: 'group_players', onDelete: 'cascade' },
+    ],
+  },
+  pairing_matchups: {
+    primaryKey: 'id',
+    defaults: {
+      id: uuid,
+      team1_wins: value(0),
+      team1_losses: value(0),
+      total_games: value(0),
+      created_at: now,
+      updated_at: now,
+    },
+    unique: [['group_id', 'team1_player1_id', 'team1_player2_id', 'team2_player1_id', 'team2_player2_id']],
+    references: [
+      { column: 'group_id', table: 'groups', onDelete: 'cascade' },
+      { column: 'team1_player1_id', table: 'group_players', onDelete: 'cascade' },
+      { column: 'team1_player2_id', table: 'group_players', onDelete: 'cascade' },
+      { column: 'team2_player1_id', table: 'group_players', onDelete: 'cascade' },
+      { column: 'team2_player2_id', table: 'group_players', onDelete: 'cascade' },
+    ],
+  },
+  elo_history: {
+    primaryKey: 'id',
+    defaults: {
+      id: uuid,
+      game_id: value(null),
+      reason: value('game'),
+      created_at: now,
+    },
+    references: [
+      { column: 'group_id', table: 'groups', onDelete: 'cascade' },
+      { column: 'group_player_id', table: 'group_players', onDelete: 'cascade' },
+    ],
+  },
+  ledger_payments: {
+    primaryKey: 'id',
+    defaults: {
+      id: uuid,
+      paid_at: now,
+    },
+    unique: [['session_id', 'from_player_id', 'to_player_id']],
+    references: [
+      { column: 'group_id', table: 'groups', onDelete: 'cascade' },
+      { column: 'session_id', table: 'sessions', onDelete: 'cascade' },
+    ],
+  },
+  users: {
+    primaryKey: 'id',
+    defaults: {
+      display_name: value(null),
+      created_at: now,
+      last_sign_in_at: value(null),
+    },
+    unique: [['email']],
+  },
+  user_sessions: {
+    primaryKey: 'token_hash',
+    defaults: {
+      created_at: now,
+    },
+    references: [{ column: 'user_id', table: 'users', onDelete: 'cascade' }],
+  },
+  login_tokens: {
+    primaryKey: 'token_hash',
+    defaults: {
+      created_at: now,
+      used_at: value(null),
+    },
+  },
+  audit_log: {
+    primaryKey: 'id',
+    defaults: {
+      group_id: value(null),
+      session_id: value(null),
+      before_data: value(null),
+      after_data: value(null),
+      actor_user_id: value(null),
+      actor_device_id: value(null),
+      actor_device_label: value(null),
+      reverts_audit_id: value(null),
+      created_at: now,
+    },
+    references: [
+      { column: 'group_id', table: 'groups', onDelete: 'cascade' },
+      { column: 'actor_user_id', table: 'users', onDelete: 'set null' },
+    ],
+  },
+  seasons: {
+    primaryKey: 'id',
+    defaults: {
+      end_date: value(null),
+      rating_mode: value('carry_over'),
+      final_standings: value(null),
+      archived_at: value(null),
+      created_at: now,
+    },
+    references: [{ column: 'group_id', table: 'groups', onDelete: 'cascade' }],
+  },
+};
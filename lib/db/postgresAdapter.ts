@@ -0,0 +1,257 @@
+import type { Pool, PoolConfig } from 'pg';
+import { toQueryResult } from './database';
+import { DatabaseAdapter, Query, QueryFilter, QueryResult, TransactionOptions } from './types';
+
+// A pool or a single checked-out client - both run SQL the same way
+interface SqlRunner {
+  query(text: string, values?: any[]): Promise<{ rows: any[] }>;
+}
+
+// Postgres type OIDs parsed to match what the Supabase REST API returns
+const NUMERIC_OID = 1700;
+const INT8_OID = 20;
+const TIMESTAMP_OID = 1114;
+const TIMESTAMPTZ_OID = 1184;
+const DATE_OID = 1082;
+
+const COMPARISON_SQL: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  ilike: 'ILIKE',
+};
+
+/**
+ * Postgres connection string from the environment (pooler-free URLs preferred)
+ */
+export function getPostgresConnectionString(): string | undefined {
+  return (
+    process.env.POSTGRES_URL_NON_POOLING ||
+    process.env.VERCEL_POSTGRES_URL_NON_POOLING ||
+    process.env.POSTGRES_URL ||
+    process.env.VERCEL_POSTGRES_URL ||
+    process.env.DATABASE_URL
+  );
+}
+
+/**
+ * Pool settings for a connection string
+ * Strips SSL and pooler query params that node-postgres doesn't understand and
+ * accepts the hosted database's certificate for anything but localhost
+ */
+export function getPostgresPoolConfig(connectionString: string): PoolConfig {
+  const isLocalhost = connectionString.includes('localhost') || connectionString.includes('127.0.0.1');
+
+  const cleanConnectionString = connectionString
+    .replace(/[?&]sslmode=[^&]*/gi, '')
+    .replace(/[?&]ssl=[^&]*/gi, '')
+    .replace(/[?&]sslcert=[^&]*/gi, '')
+    .replace(/[?&]sslkey=[^&]*/gi, '')
+    .replace(/[?&]sslrootcert=[^&]*/gi, '')
+    .replace(/[?&]supa=[^&]*/gi, '')
+    .replace(/[?&]pgbouncer=[^&]*/gi, '')
+    .replace(/[?&]$/, '');
+
+  return {
+    connectionString: cleanConnectionString,
+    ssl: !isLocalhost ? { rejectUnauthorized: false } : undefined,
+    connectionTimeoutMillis: 10000, // 10 second timeout
+    query_timeout: 30000, // 30 second query timeout
+  };
+}
+
+/**
+ * Runs queries as SQL over a direct Postgres connection (node-postgres)
+ */
+export function createPostgresAdapter(): DatabaseAdapter {
+  let poolPromise: Promise<Pool> | null = null;
+
+  const getPool = () => {
+    if (!poolPromise) {
+      poolPromise = (async () => {
+        const connectionString = getPostgresConnectionString();
+        if (!connectionString) {
+          throw new Error('Missing POSTGRES_URL, POSTGRES_URL_NON_POOLING, DATABASE_URL, or VERCEL_POSTGRES_URL environment variable');
+        }
+        // Dynamically import pg to avoid bundling issues
+        const { Pool, types } = await import('pg');
+        return new Pool({
+          ...getPostgresPoolConfig(connectionString),
+          types: {
+            getTypeParser: (oid: number, format?: 'text' | 'binary') => {
+              if (oid === NUMERIC_OID) return (value: string) => parseFloat(value);
+              if (oid === INT8_OID) return (value: string) => parseInt(value, 10);
+              if (oid === TIMESTAMP_OID) return (value: string) => value.replace(' ', 'T');
+              if (oid === TIMESTAMPTZ_OID) return (value: string) => new Date(value).toISOString();
+              if (oid === DATE_OID) return (value: string) => value;
+              return types.getTypeParser(oid, format);
+            },
+          },
+        });
+      })().catch((error) => {
+        poolPromise = null;
+        throw error;
+      });
+    }
+    return poolPromise;
+  };
+
+  return {
+    backend: 'postgres',
+
+    async execute(query: Query): Promise<QueryResult> {
+      return runQuery(await getPool(), query);
+    },
+
+    async transaction<T>(fn: (adapter: DatabaseAdapter) => Promise<T>, options?: TransactionOptions): Promise<T> {
+      const client = await (await getPool()).connect();
+      // Queries inside the transaction all go over its one connection; nested calls join it
+      const transactionAdapter: DatabaseAdapter = {
+        backend: 'postgres',
+        execute: (query) => runQuery(client, query),
+        transaction: (nestedFn) => nestedFn(transactionAdapter),
+      };
+
+      try {
+        await client.query('BEGIN');
+        if (options?.lockKey) {
+          // Held until COMMIT/ROLLBACK, so transactions with the same key queue up here
+          await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [options.lockKey]);
+        }
+        const result = await fn(transactionAdapter);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK').catch((rollbackError) => {
+          console.error('[Database] Rollback failed:', rollbackError);
+        });
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
+
+async function runQuery(runner: SqlRunner, query: Query): Promise<QueryResult> {
+  let sql: { text: string; values: any[] };
+  try {
+    sql = buildSql(query);
+  } catch (error) {
+    return { data: null, error: { message: (error as Error).message }, count: null };
+  }
+
+  try {
+    const result = await runner.query(sql.text, sql.values);
+    if (query.head) {
+      return toQueryResult(query, [], result.rows[0]?.count ?? 0);
+    }
+    return toQueryResult(query, result.rows, query.count ? result.rows.length : null);
+  } catch (error) {
+    const err = error as { message: string; code?: string; detail?: string; hint?: string };
+    return { data: null, error: { message: err.message, code: err.code, details: err.detail, hint: err.hint }, count: null };
+  }
+}
+
+/**
+ * Translate a query into parameterised SQL
+ */
+function buildSql(query: Query): { text: string; values: any[] } {
+  const values: any[] = [];
+  const param = (value: any) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  const table = quoteIdentifier(query.table);
+  const columns = query.columns === '*' ? '*' : query.columns.map(quoteIdentifier).join(', ');
+  const returning = query.returning ? ` RETURNING ${columns}` : '';
+
+  switch (query.action) {
+    case 'select': {
+      if (query.head) {
+        return { text: `SELECT COUNT(*) AS count FROM ${table}${buildWhere(query.filters, param)}`, values };
+      }
+      let text = `SELECT ${columns} FROM ${table}${buildWhere(query.filters, param)}`;
+      if (query.orders.length > 0) {
+        text += ` ORDER BY ${query.orders
+          .map((o) => `${quoteIdentifier(o.column)} ${o.ascending ? 'ASC' : 'DESC'}`)
+          .join(', ')}`;
+      }
+      if (query.limit !== undefined) {
+        text += ` LIMIT ${Math.max(0, Math.floor(query.limit))}`;
+      }
+      return { text, values };
+    }
+    case 'insert':
+    case 'upsert': {
+      const rows = query.values || [];
+      if (rows.length === 0) {
+        throw new Error(`No rows to ${query.action}`);
+      }
+      // Columns missing from a row fall back to their defaults
+      const insertColumns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+      const rowsSql = rows
+        .map((row) => `(${insertColumns.map((c) => (c in row ? param(toSqlValue(row[c])) : 'DEFAULT')).join(', ')})`)
+        .join(', ');
+      let text = `INSERT INTO ${table} (${insertColumns.map(quoteIdentifier).join(', ')}) VALUES ${rowsSql}`;
+      if (query.action === 'upsert') {
+        const conflictColumns = query.onConflict || ['id'];
+        const updateColumns = insertColumns.filter((c) => !conflictColumns.includes(c));
+        text += ` ON CONFLICT (${conflictColumns.map(quoteIdentifier).join(', ')})`;
+        text += query.ignoreDuplicates || updateColumns.length === 0
+          ? ' DO NOTHING'
+          : ` DO UPDATE SET ${updateColumns.map((c) => `${quoteIdentifier(c)} = EXCLUDED.${quoteIdentifier(c)}`).join(', ')}`;
+      }
+      return { text: text + returning, values };
+    }
+    case 'update': {
+      const patch = query.values?.[0] || {};
+      const assignments = Object.keys(patch).map((c) => `${quoteIdentifier(c)} = ${param(toSqlValue(patch[c]))}`);
+      if (assignments.length === 0) {
+        throw new Error('No fields to update');
+      }
+      return { text: `UPDATE ${table} SET ${assignments.join(', ')}${buildWhere(query.filters, param)}${returning}`, values };
+    }
+    case 'delete':
+      return { text: `DELETE FROM ${table}${buildWhere(query.filters, param)}${returning}`, values };
+  }
+}
+
+function buildWhere(filters: QueryFilter[], param: (value: any) => string): string {
+  if (filters.length === 0) return '';
+  const conditions = filters.map(({ column, operator, value, negated }) => {
+    const col = quoteIdentifier(column);
+    let condition: string;
+    if (operator === 'is') {
+      condition = `${col} IS ${value === null ? 'NULL' : value ? 'TRUE' : 'FALSE'}`;
+    } else if (operator === 'in') {
+      condition = `${col} = ANY(${param(value)})`;
+    } else {
+      condition = `${col} ${COMPARISON_SQL[operator]} ${param(value)}`;
+    }
+    return negated ? `NOT (${condition})` : condition;
+  });
+  return ` WHERE ${conditions.join(' AND ')}`;
+}
+
+/**
+ * Only plain snake_case identifiers are accepted - they're interpolated into the SQL
+ */
+function quoteIdentifier(name: string): string {
+  if (!/^[a-z_][a-z0-9_]*$/i.test(name)) {
+    throw new Error(`Invalid identifier: ${name}`);
+  }
+  return `"${name}"`;
+}
+
+// JSON columns (team lists, expenses, the court queue) are sent as JSON text
+function toSqlValue(value: any): any {
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
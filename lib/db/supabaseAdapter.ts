@@ -0,0 +1,80 @@
+import { createSupabaseClient } from '@/lib/supabase';
+import { createPostgresAdapter, getPostgresConnectionString } from './postgresAdapter';
+import { DatabaseAdapter, Query, QueryResult, TransactionOptions } from './types';
+
+/**
+ * Runs queries through the Supabase REST API (the default backend)
+ * The REST API can't hold a transaction open across requests, so transactions go over a
+ * direct connection to the same database (POSTGRES_URL). The server fails at startup without one
+ * (checkDatabaseConfig); outside it a transaction fails rather than writing query by query
+ * with nothing to roll back.
+ */
+export function createSupabaseAdapter(): DatabaseAdapter {
+  let client: ReturnType<typeof createSupabaseClient> | null = null;
+  let transactionAdapter: DatabaseAdapter | null = null;
+
+  const adapter: DatabaseAdapter = {
+    backend: 'supabase',
+
+    transaction<T>(fn: (adapter: DatabaseAdapter) => Promise<T>, options?: TransactionOptions): Promise<T> {
+      if (getPostgresConnectionString()) {
+        transactionAdapter = transactionAdapter || createPostgresAdapter();
+        return transactionAdapter.transaction(fn, options);
+      }
+      const message = 'POSTGRES_URL is not set - the supabase backend needs a direct database connection to save changes in a transaction';
+      console.error(`[Database] ${message}`);
+      return Promise.reject(new Error(message));
+    },
+
+    async execute(query: Query): Promise<QueryResult> {
+      // Created on first use so a missing key surfaces as a query error, not at import
+      client = client || createSupabaseClient();
+      const columns = query.columns === '*' ? '*' : query.columns.join(', ');
+
+      let builder: any = client.from(query.table);
+      switch (query.action) {
+        case 'select':
+          builder = builder.select(columns, query.count ? { count: 'exact', head: query.head } : undefined);
+          break;
+        case 'insert':
+          builder = builder.insert(query.values);
+          break;
+        case 'update':
+          builder = builder.update(query.values![0]);
+          break;
+        case 'upsert':
+          builder = builder.upsert(query.values, {
+            onConflict: query.onConflict?.join(','),
+            ignoreDuplicates: query.ignoreDuplicates,
+          });
+          break;
+        case 'delete':
+          builder = builder.delete();
+          break;
+      }
+      if (query.action !== 'select' && query.returning) {
+        builder = builder.select(columns);
+      }
+
+      query.filters.forEach(({ column, operator, value, negated }) => {
+        builder = negated
+          ? builder.not(column, operator, operator === 'in' ? `(${value.join(',')})` : value)
+          : builder[operator](column, value);
+      });
+      query.orders.forEach(({ column, ascending }) => {
+        builder = builder.order(column, { ascending });
+      });
+      if (query.limit !== undefined) {
+        builder = builder.limit(query.limit);
+      }
+      if (query.single) {
+        builder = builder[query.single]();
+      }
+
+      const { data, error, count } = await builder;
+      return { data: data ?? null, error: error ?? null, count: count ?? null };
+    },
+  };
+
+  return adapter;
+}
@@ -0,0 +1,72 @@
+/**
+ * Types shared by the data-access layer and its backends
+ */
+
+// A table row as stored: snake_case columns, JSON-compatible values
+export type DatabaseRow = Record<string, any>;
+
+// Error shape returned by every backend (same fields Postgres and PostgREST use)
+export interface DatabaseError {
+  message: string;
+  code?: string;
+  details?: string;
+  hint?: string;
+}
+
+export interface QueryResult<T = any> {
+  data: T | null;
+  error: DatabaseError | null;
+  count: number | null;
+}
+
+export type QueryAction = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'is' | 'ilike';
+
+export interface QueryFilter {
+  column: string;
+  operator: FilterOperator;
+  value: any;
+  negated: boolean;
+}
+
+export interface QueryOrder {
+  column: string;
+  ascending: boolean;
+}
+
+/**
+ * A query as built by the services, before a backend runs it
+ */
+export interface Query {
+  table: string;
+  action: QueryAction;
+  columns: string[] | '*'; // Columns to return ('*' = all)
+  returning: boolean; // Mutations only return rows when .select() is chained
+  values?: DatabaseRow[]; // insert/upsert rows, or the single update patch
+  onConflict?: string[]; // upsert conflict columns (default: primary key)
+  ignoreDuplicates?: boolean;
+  filters: QueryFilter[];
+  orders: QueryOrder[];
+  limit?: number;
+  single?: 'single' | 'maybeSingle';
+  count?: boolean;
+  head?: boolean; // Count only, no rows
+}
+
+export type DatabaseBackend = 'supabase' | 'postgres' | 'memory';
+
+export interface TransactionOptions {
+  // Transactions with the same key run one at a time (e.g. one group's game results)
+  lockKey?: string;
+}
+
+/**
+ * A storage backend: runs a built query and reports errors instead of throwing
+ */
+export interface DatabaseAdapter {
+  backend: DatabaseBackend;
+  execute(query: Query): Promise<QueryResult>;
+  // Runs fn with an adapter whose queries all commit, or all roll back if fn throws
+  transaction<T>(fn: (adapter: DatabaseAdapter) => Promise<T>, options?: TransactionOptions): Promise<T>;
+}
@@ -0,0 +1,26 @@
+/**
+ * A random ID for this browser, kept in localStorage
+ * Sent with every API request so the group history can tell devices apart - see lib/audit.ts
+ */
+
+// Header the API reads the device ID from
+export const DEVICE_ID_HEADER = "X-Device-Id";
+
+// localStorage key for this browser's device ID
+const STORAGE_KEY_DEVICE_ID = "poweredbypace_device_id";
+
+export function getDeviceId(): string | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    let deviceId = localStorage.getItem(STORAGE_KEY_DEVICE_ID);
+    if (!deviceId) {
+      deviceId = `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+      localStorage.setItem(STORAGE_KEY_DEVICE_ID, deviceId);
+    }
+    return deviceId;
+  } catch (e) {
+    console.error("Failed to load device ID:", e);
+    return null;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * ELO math shared by the server (EloService) and the browser (round robin predictions)
+ * Kept free of database imports so client components can use it.
+ */
+
+// Rating of a team with no players - the default starting rating
+const DEFAULT_TEAM_RATING = 1500;
+
+/**
+ * Calculate expected score (probability of winning)
+ * E = 1 / (1 + 10^((opponentRating - playerRating) / 400))
+ */
+export function calculateExpectedScore(playerRating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - playerRating) / 400));
+}
+
+/**
+ * Calculate team rating (average for doubles)
+ */
+export function calculateTeamRating(ratings: number[]): number {
+  if (ratings.length === 0) return DEFAULT_TEAM_RATING;
+  return ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+}
@@ -0,0 +1,104 @@
+/**
+ * Server-Sent Events response for the live session and group pages (server only)
+ *
+ * poll() is called when the stream opens, every intervalMs, and straight away when
+ * subscribe()'s wake callback fires; whatever events it returns are sent as `data:` lines.
+ * The stream ends after maxDurationMs (serverless functions can't stay open forever) and
+ * the browser's EventSource reconnects by itself, getting a fresh snapshot.
+ */
+
+export interface EventStreamOptions<T> {
+  poll: () => Promise<T[]>;
+  subscribe?: (wake: () => void) => () => void;
+  intervalMs?: number;
+  maxDurationMs?: number;
+}
+
+const DEFAULT_INTERVAL_MS = 3000;
+const DEFAULT_MAX_DURATION_MS = 5 * 60 * 1000;
+const KEEPALIVE_MS = 15000; // Proxies drop connections that stay silent too long
+const RECONNECT_MS = 2000;
+
+export function createEventStream<T>(request: Request, options: EventStreamOptions<T>): Response {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const endAt = Date.now() + (options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS);
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let woken = false;
+  let wakeSleep: (() => void) | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const wake = () => {
+    woken = true;
+    wakeSleep?.();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        wakeSleep?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', close);
+      unsubscribe = options.subscribe?.(wake) ?? null;
+      send(`retry: ${RECONNECT_MS}\n\n`);
+
+      let lastSentAt = Date.now();
+      try {
+        while (!closed && Date.now() < endAt) {
+          woken = false;
+          const events = await options.poll();
+          if (closed) break;
+
+          events.forEach((event) => send(`data: ${JSON.stringify(event)}\n\n`));
+          if (events.length > 0) {
+            lastSentAt = Date.now();
+          } else if (Date.now() - lastSentAt >= KEEPALIVE_MS) {
+            send(': keepalive\n\n');
+            lastSentAt = Date.now();
+          }
+
+          // Sleep until the next check, unless a change was published while polling
+          if (!woken) {
+            await new Promise<void>((resolve) => {
+              const timer = setTimeout(resolve, intervalMs);
+              wakeSleep = () => {
+                clearTimeout(timer);
+                resolve();
+              };
+            });
+            wakeSleep = null;
+          }
+        }
+      } catch (error) {
+        console.error('[EventStream] Error polling for changes:', error);
+      } finally {
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+      unsubscribe?.();
+      wakeSleep?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Don't let nginx-style proxies buffer the stream
+    },
+  });
+}
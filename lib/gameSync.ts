@@ -0,0 +1,309 @@
+/**
+ * Offline-first game recording for the session page
+ *
+ * Game changes show up straight away, are queued in IndexedDB (lib/offlineStore.ts) and
+ * replayed to /api/sessions/[id]/games in order once the server can be reached:
+ * - New games get their ID on the device, so re-sending a create that already arrived is harmless
+ * - Edits and deletes carry the updatedAt the device last saw; if another device changed or
+ *   deleted the game since, the server's version wins and the change is reported as a conflict
+ * - Changing a game that's still queued folds the change into its queued entry
+ */
+
+import { Game } from "@/types";
+import { ApiClient } from "@/lib/api/client";
+import { getSavedAdminPin } from "@/lib/adminPins";
+import {
+  NewGame,
+  NewQueuedGameOperation,
+  QueuedGameOperation,
+  addQueuedGameOperation,
+  deleteQueuedGameOperation,
+  getCachedSession,
+  getQueuedGameOperation,
+  getQueuedGameOperations,
+  putQueuedGameOperation,
+} from "@/lib/offlineStore";
+
+export interface GameSyncConflict {
+  gameId: string;
+  gameNumber: number;
+  message: string;
+}
+
+export interface GameSyncStatus {
+  state: "synced" | "syncing" | "pending" | "offline";
+  pendingCount: number; // Queued changes not yet on the server
+  conflicts: GameSyncConflict[]; // Changes the server rejected since the user last dismissed them
+  lastSyncedAt: Date | null;
+}
+
+export interface GameSyncResult {
+  sent: number; // Operations the server accepted or rejected - either way they left the queue
+  remaining: number;
+  offline: boolean; // Stopped because the server couldn't be reached
+  conflicts: GameSyncConflict[];
+}
+
+// Operations being sent right now - new changes must not be folded into them
+const inFlight = new Set<number>();
+
+// Queue reads and writes run one at a time so folding a change never races a send
+let queueLock: Promise<unknown> = Promise.resolve();
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const result = queueLock.then(fn, fn);
+  queueLock = result.catch(() => undefined);
+  return result;
+}
+
+// Running replay per session, so triggers that arrive mid-sync share it
+const activeSyncs = new Map<string, Promise<GameSyncResult>>();
+
+/**
+ * ID for a game recorded on this device
+ */
+export function createGameId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `game-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export async function queueGameCreate(game: Game): Promise<void> {
+  await withQueueLock(() =>
+    addQueuedGameOperation({
+      kind: "create",
+      sessionId: game.sessionId,
+      gameId: game.id,
+      gameNumber: game.gameNumber,
+      game: {
+        teamA: game.teamA,
+        teamB: game.teamB,
+        winningTeam: game.winningTeam,
+        teamAScore: game.teamAScore,
+        teamBScore: game.teamBScore,
+        sets: game.sets,
+        rallies: game.rallies,
+      },
+      queuedAt: new Date().toISOString(),
+    })
+  );
+}
+
+/**
+ * Queue an edit - game is the version being edited, before the updates
+ */
+export async function queueGameUpdate(game: Game, updates: Partial<Game>): Promise<void> {
+  await withQueueLock(async () => {
+    const queued = await findQueuedOperation(game);
+    if (queued?.kind === "delete") return;
+
+    if (queued?.kind === "create") {
+      await putQueuedGameOperation({ ...queued, game: { ...queued.game, ...toGameFields(updates) } });
+    } else if (queued?.kind === "update") {
+      await putQueuedGameOperation({ ...queued, updates: { ...queued.updates, ...updates } });
+    } else {
+      await addQueuedGameOperation({
+        kind: "update",
+        sessionId: game.sessionId,
+        gameId: game.id,
+        gameNumber: game.gameNumber,
+        updates,
+        baseUpdatedAt: toVersion(game.updatedAt),
+        queuedAt: new Date().toISOString(),
+      });
+    }
+  });
+}
+
+export async function queueGameDelete(game: Game): Promise<void> {
+  await withQueueLock(async () => {
+    const queued = await findQueuedOperation(game);
+    if (queued?.kind === "delete") return;
+
+    if (queued?.kind === "create") {
+      // Never reached the server - dropping the create is the whole delete
+      await deleteQueuedGameOperation(queued.seq);
+    } else if (queued?.kind === "update") {
+      // Keep the version the edit was based on, so a change made elsewhere still blocks the delete
+      const deletion: QueuedGameOperation = {
+        kind: "delete",
+        seq: queued.seq,
+        sessionId: queued.sessionId,
+        gameId: queued.gameId,
+        gameNumber: queued.gameNumber,
+        baseUpdatedAt: queued.baseUpdatedAt,
+        queuedAt: queued.queuedAt,
+      };
+      await putQueuedGameOperation(deletion);
+    } else {
+      const deletion: NewQueuedGameOperation = {
+        kind: "delete",
+        sessionId: game.sessionId,
+        gameId: game.id,
+        gameNumber: game.gameNumber,
+        baseUpdatedAt: toVersion(game.updatedAt),
+        queuedAt: new Date().toISOString(),
+      };
+      await addQueuedGameOperation(deletion);
+    }
+  });
+}
+
+/**
+ * Show queued changes on top of the games from the server (or the cached copy)
+ * Queued creates the server already has are left alone
+ */
+export function applyQueuedOperations(games: Game[], operations: QueuedGameOperation[]): Game[] {
+  let result = [...games];
+
+  operations.forEach((operation) => {
+    const index = result.findIndex((g) => g.id === operation.gameId);
+    if (operation.kind === "create") {
+      if (index >= 0) return;
+      // Numbered after the games already on the server, the way the server will number it
+      result.push({
+        id: operation.gameId,
+        sessionId: operation.sessionId,
+        gameNumber: result.reduce((max, g) => Math.max(max, g.gameNumber), 0) + 1,
+        ...operation.game,
+      });
+    } else if (operation.kind === "update") {
+      if (index < 0) return;
+      result[index] = { ...result[index], ...toGameFields(operation.updates) };
+    } else {
+      result = result.filter((g) => g.id !== operation.gameId);
+    }
+  });
+
+  return result.sort((a, b) => a.gameNumber - b.gameNumber);
+}
+
+/**
+ * Send a session's queued changes to the server, oldest first
+ * Stops at the first change the server can't take right now (offline, server error)
+ * and leaves it and everything after it queued for the next attempt
+ */
+export function syncQueuedGames(sessionId: string): Promise<GameSyncResult> {
+  let sync = activeSyncs.get(sessionId);
+  if (!sync) {
+    sync = replayQueue(sessionId).finally(() => activeSyncs.delete(sessionId));
+    activeSyncs.set(sessionId, sync);
+  }
+  return sync;
+}
+
+async function replayQueue(sessionId: string): Promise<GameSyncResult> {
+  const conflicts: GameSyncConflict[] = [];
+  let sent = 0;
+
+  const seqs = (await withQueueLock(() => getQueuedGameOperations(sessionId))).map((op) => op.seq);
+
+  // Edits and deletes in a group session are sent with the group's admin PIN, if this device has it
+  const cached = seqs.length > 0 ? await getCachedSession(sessionId) : null;
+  const adminPin = cached?.session.groupId ? getSavedAdminPin(cached.session.groupId) : null;
+
+  for (let i = 0; i < seqs.length; i++) {
+    // Re-read under the lock: the entry may have been folded into or dropped since the list was read
+    const operation = await withQueueLock(async () => {
+      const current = await getQueuedGameOperation(seqs[i]);
+      if (current) inFlight.add(current.seq);
+      return current;
+    });
+    if (!operation) continue;
+
+    try {
+      const outcome = await sendOperation(operation, adminPin);
+      if (outcome === "retry" || outcome === "offline") {
+        return {
+          sent,
+          remaining: seqs.length - i,
+          offline: outcome === "offline",
+          conflicts,
+        };
+      }
+      if (outcome) conflicts.push(outcome);
+      await withQueueLock(() => deleteQueuedGameOperation(operation.seq));
+      sent++;
+    } finally {
+      inFlight.delete(operation.seq);
+    }
+  }
+
+  return { sent, remaining: 0, offline: false, conflicts };
+}
+
+/**
+ * Send one queued change
+ * Returns null when the server took it, a conflict when it refused it for good,
+ * or "offline"/"retry" when it should be sent again later
+ */
+async function sendOperation(
+  operation: QueuedGameOperation,
+  adminPin: string | null
+): Promise<GameSyncConflict | "offline" | "retry" | null> {
+  try {
+    if (operation.kind === "create") {
+      // The server numbers it - another device may have recorded games offline too
+      await ApiClient.createGame(operation.sessionId, operation.game, undefined, operation.gameId);
+    } else if (operation.kind === "update") {
+      await ApiClient.updateGame(operation.sessionId, operation.gameId, operation.updates, operation.baseUpdatedAt, adminPin);
+    } else {
+      await ApiClient.deleteGame(operation.sessionId, operation.gameId, operation.baseUpdatedAt, adminPin);
+    }
+    return null;
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === undefined) return "offline";
+    if (status >= 500 || status === 429) return "retry";
+    // Deleting a game someone else already deleted is what we wanted anyway
+    if (operation.kind === "delete" && status === 404) return null;
+
+    return {
+      gameId: operation.gameId,
+      gameNumber: operation.gameNumber,
+      message: describeConflict(operation, status, error instanceof Error ? error.message : String(error)),
+    };
+  }
+}
+
+function describeConflict(operation: QueuedGameOperation, status: number, reason: string): string {
+  const game = `Game ${operation.gameNumber}`;
+  if (operation.kind === "update" && status === 404) {
+    return `${game} was deleted on another device - your edit was discarded`;
+  }
+  if (operation.kind === "update" && status === 409) {
+    return `${game} was changed on another device - kept their version`;
+  }
+  if (operation.kind === "delete" && status === 409) {
+    return `${game} was changed on another device, so it wasn't deleted`;
+  }
+  if (status === 401 || status === 403) {
+    const change = operation.kind === "delete" ? "deleting" : "changing";
+    return `${game} needs the group's admin PIN for ${change} it - your change was discarded`;
+  }
+  return `${game} couldn't be saved: ${reason}`;
+}
+
+async function findQueuedOperation(game: Game): Promise<QueuedGameOperation | undefined> {
+  const operations = await getQueuedGameOperations(game.sessionId);
+  return operations.find((op) => op.gameId === game.id && !inFlight.has(op.seq));
+}
+
+// Only the recorded result can be edited - identity and timestamps stay with the server
+function toGameFields(updates: Partial<Game>): Partial<NewGame> {
+  const fields: Partial<NewGame> = {};
+  if (updates.teamA !== undefined) fields.teamA = updates.teamA;
+  if (updates.teamB !== undefined) fields.teamB = updates.teamB;
+  if (updates.winningTeam !== undefined) fields.winningTeam = updates.winningTeam;
+  if ("teamAScore" in updates) fields.teamAScore = updates.teamAScore;
+  if ("teamBScore" in updates) fields.teamBScore = updates.teamBScore;
+  if (updates.sets !== undefined) fields.sets = updates.sets;
+  if (updates.rallies !== undefined) fields.rallies = updates.rallies;
+  return fields;
+}
+
+// updatedAt arrives as an ISO string from the API even though Game types it as a Date
+function toVersion(updatedAt: Date | string | undefined): string | undefined {
+  return updatedAt ? new Date(updatedAt).toISOString() : undefined;
+}
@@ -0,0 +1,154 @@
+import { GroupRatingSettings } from "@/types";
+import { PlayerRatingState, RatedGame, RatingEngine } from "./ratingEngine";
+
+/**
+ * Glicko-2 rating engine
+ * Based on Mark Glickman's "Example of the Glicko-2 system" (2013)
+ *
+ * - Every game is treated as its own rating period
+ * - Inactivity grows RD by one period per day since the player's last game,
+ *   so a regular who disappears for months comes back with a wide confidence band
+ * - For doubles: the expected result uses the team averages (same as ELO), the
+ *   opponent's uncertainty is the RMS of their RDs, and each player's change is
+ *   scaled by their own RD (uncertain players move more)
+ */
+
+const GLICKO_SCALE = 173.7178; // Converts between Glicko and Glicko-2 scales
+const RATING_CENTER = 1500;
+const TAU = 0.5; // Constrains volatility change; 0.3-1.2 per Glickman
+const CONVERGENCE_TOLERANCE = 0.000001;
+const RATING_PERIOD_MS = 24 * 60 * 60 * 1000; // 1 day
+
+export const GLICKO2_DEFAULT_DEVIATION = 350;
+export const GLICKO2_DEFAULT_VOLATILITY = 0.06;
+const MIN_DEVIATION = 30; // Keeps long-time regulars responsive to new results
+
+function toMu(rating: number): number {
+  return (rating - RATING_CENTER) / GLICKO_SCALE;
+}
+
+function toPhi(deviation: number): number {
+  return deviation / GLICKO_SCALE;
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+/**
+ * Grow phi for the periods a player sat out (capped at a new player's RD)
+ */
+function phiAfterInactivity(state: PlayerRatingState, asOf: Date): number {
+  const phi = toPhi(state.deviation);
+  if (!state.lastPlayedAt) return phi;
+
+  const periods = Math.max(0, (asOf.getTime() - state.lastPlayedAt.getTime()) / RATING_PERIOD_MS);
+  const grown = Math.sqrt(phi * phi + periods * state.volatility * state.volatility);
+  return Math.min(grown, toPhi(GLICKO2_DEFAULT_DEVIATION));
+}
+
+/**
+ * Step 5 of the Glicko-2 algorithm: find the new volatility (Illinois algorithm)
+ */
+function updateVolatility(phi: number, sigma: number, delta: number, v: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+/**
+ * Rate one team against the other
+ */
+function rateTeam(
+  team: PlayerRatingState[],
+  opponents: PlayerRatingState[],
+  won: boolean,
+  playedAt: Date,
+  settings: GroupRatingSettings
+): PlayerRatingState[] {
+  const teamMu = team.reduce((sum, p) => sum + toMu(p.rating), 0) / team.length;
+  const opponentMu = opponents.reduce((sum, p) => sum + toMu(p.rating), 0) / opponents.length;
+  const opponentPhi = Math.sqrt(
+    opponents.reduce((sum, p) => sum + Math.pow(phiAfterInactivity(p, playedAt), 2), 0) / opponents.length
+  );
+
+  const gPhi = g(opponentPhi);
+  const expected = expectedScore(teamMu, opponentMu, opponentPhi);
+  const score = won ? 1 : 0;
+  const v = 1 / (gPhi * gPhi * expected * (1 - expected));
+  const delta = v * gPhi * (score - expected);
+
+  return team.map((player) => {
+    const phi = phiAfterInactivity(player, playedAt);
+    const newVolatility = updateVolatility(phi, player.volatility, delta, v);
+    const phiStar = Math.sqrt(phi * phi + newVolatility * newVolatility);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+    const newMu = toMu(player.rating) + newPhi * newPhi * gPhi * (score - expected);
+
+    return {
+      rating: Math.max(settings.ratingFloor, Math.round(newMu * GLICKO_SCALE + RATING_CENTER)),
+      deviation: Math.min(GLICKO2_DEFAULT_DEVIATION, Math.max(MIN_DEVIATION, newPhi * GLICKO_SCALE)),
+      volatility: newVolatility,
+      lastPlayedAt: playedAt,
+    };
+  });
+}
+
+export const glicko2Engine: RatingEngine = {
+  initialState(settings) {
+    return {
+      rating: settings.startingRating,
+      deviation: GLICKO2_DEFAULT_DEVIATION,
+      volatility: GLICKO2_DEFAULT_VOLATILITY,
+    };
+  },
+
+  currentDeviation(state, asOf) {
+    return phiAfterInactivity(state, asOf) * GLICKO_SCALE;
+  },
+
+  rateGame(game: RatedGame, settings) {
+    if (game.teamA.length === 0 || game.teamB.length === 0) {
+      return { teamA: game.teamA, teamB: game.teamB };
+    }
+
+    return {
+      teamA: rateTeam(game.teamA, game.teamB, game.winningTeam === "A", game.playedAt, settings),
+      teamB: rateTeam(game.teamB, game.teamA, game.winningTeam === "B", game.playedAt, settings),
+    };
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * Admin PIN checks for group routes (server only)
+ *
+ * Groups are shared by link, so anyone holding it can record games. Deleting the group,
+ * removing players and changing or deleting recorded games also need the group's admin PIN
+ * in the X-Group-Admin-Pin header. Groups without a PIN (created before PINs existed) stay
+ * open until someone sets one.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { GroupService } from '@/lib/services/groupService';
+import { ADMIN_PIN_HEADER, isValidAdminPin } from '@/lib/adminPins';
+
+const KEY_LENGTH = 32;
+
+// Wrong PINs per group before it is locked for a while - PINs are short, so guesses are limited
+// The count is kept on the group row, so every server instance sees the same lockout
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+function deriveKey(pin: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(pin, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a PIN for groups.admin_pin_hash ("scrypt:<salt>:<key>", hex)
+ */
+export async function hashAdminPin(pin: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(pin, salt);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifyAdminPin(pin: string, hash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = hash.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) {
+    return false;
+  }
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await deriveKey(pin, Buffer.from(saltHex, 'hex'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check the request's admin PIN for a group
+ * Returns an error response (404 no group, 401 no PIN, 403 wrong PIN, 429 too many wrong PINs),
+ * or null to go ahead
+ */
+export async function requireGroupAdmin(
+  request: NextRequest,
+  groupId: string
+): Promise<NextResponse | null> {
+  const pin = request.headers.get(ADMIN_PIN_HEADER);
+  let adminPinHash: string | null = null;
+
+  // Every try is counted before the PIN is checked, and the count only goes up if nobody
+  // else changed it in between - otherwise it's read again. Wrong PINs sent at the same
+  // time each get their own count, so they can't all slip in under the limit.
+  for (;;) {
+    const access = await GroupService.getGroupAdminPinHash(groupId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+    if (!access.adminPinHash) {
+      return null;
+    }
+
+    // Tries in the current window - an expired window counts as none
+    const now = Date.now();
+    const failedSince = access.failedSince ? new Date(access.failedSince).getTime() : null;
+    const failures =
+      failedSince !== null && access.failedAttempts > 0 && now - failedSince < LOCKOUT_MS
+        ? { count: access.failedAttempts, firstAt: failedSince }
+        : null;
+    if (failures && failures.count >= MAX_FAILED_ATTEMPTS) {
+      const waitMinutes = Math.ceil((LOCKOUT_MS - (now - failures.firstAt)) / 60000);
+      return NextResponse.json(
+        {
+          error: `Too many incorrect PINs. Please wait ${waitMinutes} minute(s) before trying again.`,
+          retryAfter: waitMinutes * 60
+        },
+        { status: 429 }
+      );
+    }
+
+    if (!pin) {
+      return NextResponse.json(
+        { error: 'Admin PIN required' },
+        { status: 401 }
+      );
+    }
+
+    const claimed = await GroupService.claimAdminPinAttempt(
+      groupId,
+      access.failedAttempts,
+      failures ? failures.count + 1 : 1,
+      new Date(failures ? failures.firstAt : now).toISOString()
+    );
+    if (claimed) {
+      adminPinHash = access.adminPinHash;
+      break;
+    }
+  }
+
+  if (!isValidAdminPin(pin) || !(await verifyAdminPin(pin, adminPinHash))) {
+    return NextResponse.json(
+      { error: 'Incorrect admin PIN' },
+      { status: 403 }
+    );
+  }
+
+  // The right PIN clears the count, including the try just counted
+  await GroupService.setAdminPinFailures(groupId, 0, null);
+  return null;
+}
@@ -0,0 +1,520 @@
+import {
+  CostSplitMode,
+  CurrencySettings,
+  GameSet,
+  GroupExport,
+  GroupImportIssue,
+  RallyWinner,
+  ScoringRuleName,
+  SessionExpense,
+} from "@/types";
+import { countSetsWon, DEFAULT_SCORING_RULE, isScoringRuleName } from "@/lib/scoring";
+
+/**
+ * Group import
+ *
+ * Turns a spreadsheet CSV or a JSON export (see docs/engineering/export-format.md) into
+ * plain sessions, players and games. Matching names to the group's players and writing
+ * anything happens in ImportService; this only reads the file and reports what's wrong with it.
+ */
+
+// Large enough for years of weekly sessions, small enough to import in one request
+export const MAX_IMPORT_GAMES = 10000;
+
+export interface ImportedPlayer {
+  key: string; // Unique within the session - what games, expenses and the organizer refer to
+  name: string; // Name for the session
+  groupPlayerName: string | null; // Group player to match by name, or null for a guest
+  attendanceWeight: number;
+}
+
+export interface ImportedGame {
+  row?: number; // CSV line, for error messages
+  teamA: string[]; // Player keys
+  teamB: string[];
+  winningTeam: "A" | "B" | null;
+  teamAScore: number | null;
+  teamBScore: number | null;
+  sets: GameSet[] | null; // Best-of-three match - the scores are then its totals
+  rallies: RallyWinner[][] | null; // Rally log of a live-scored game (JSON only)
+  playedAt: string; // ISO timestamp - games are replayed for ratings in this order
+}
+
+// Cost and betting settings carried over from a JSON export (CSV sessions use the defaults)
+export interface ImportedSessionSettings {
+  organizerKey: string | null;
+  roundRobinCount: number | null;
+  courtCostType: "per_person" | "total";
+  courtCostValue: number;
+  birdCostTotal: number;
+  betPerPlayer: number;
+  bettingEnabled: boolean;
+  expenses: SessionExpense[] | null; // paidBy/sharedBy are player keys
+  costSplitMode: CostSplitMode;
+  currencySettings?: CurrencySettings; // Unset = the group's currency
+  scoringRule: ScoringRuleName;
+}
+
+export interface ImportedSession {
+  date: string; // ISO timestamp
+  name: string | null;
+  gameMode: "doubles" | "singles";
+  players: ImportedPlayer[];
+  games: ImportedGame[];
+  settings: ImportedSessionSettings;
+}
+
+export interface ParsedImport {
+  sessions: ImportedSession[]; // Oldest first
+  errors: GroupImportIssue[];
+  warnings: GroupImportIssue[];
+}
+
+const DEFAULT_IMPORTED_SETTINGS: ImportedSessionSettings = {
+  organizerKey: null,
+  roundRobinCount: null,
+  courtCostType: "per_person",
+  courtCostValue: 0,
+  birdCostTotal: 0,
+  betPerPlayer: 0,
+  bettingEnabled: false,
+  expenses: null,
+  costSplitMode: "even",
+  scoringRule: DEFAULT_SCORING_RULE,
+};
+
+// ----------------------------------------------------------------------------
+// CSV
+// ----------------------------------------------------------------------------
+
+// Header names accepted for each column, compared without case, spaces, dashes or underscores
+// (includes the column names of the export's games.csv, so an export can be imported again)
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ["date", "sessiondate", "played", "playedon"],
+  session: ["session", "sessionname"],
+  teamA: ["teama", "teamaplayers", "team1", "team1players", "playersa"],
+  teamB: ["teamb", "teambplayers", "team2", "team2players", "playersb"],
+  score: ["score", "scores", "result"],
+  teamAScore: ["teamascore", "team1score", "scorea"],
+  teamBScore: ["teambscore", "team2score", "scoreb"],
+  sets: ["sets", "setscores"],
+  winningTeam: ["winningteam"],
+  winner: ["winner", "won", "winners"],
+};
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas, quotes and newlines)
+ * Each row keeps the line it started on
+ */
+function parseCsvRows(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  // Drop blank lines (including a trailing newline)
+  return rows.filter((row) => row.fields.some((f) => f.trim() !== ""));
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-.]/g, "");
+}
+
+/**
+ * "Ann & Bob", "Ann / Bob", "Ann and Bob", "Ann, Bob" -> ["Ann", "Bob"]
+ * A leading ' (added by the export so spreadsheets don't run formulas) is dropped
+ */
+function splitTeam(value: string): string[] {
+  return value
+    .split(/\s*(?:&|\+|\/|,|;|\band\b)\s*/i)
+    .map((name) => name.trim().replace(/^'(?=[=+\-@])/, ""))
+    .filter((name) => name !== "");
+}
+
+/**
+ * "2024-03-05", "2024-03-05T19:00:00Z", "3/5/2024" or "3/5/24" (month first, as Google Sheets writes it)
+ * Date-only values are taken as midday UTC so they land on the same day in any timezone
+ */
+function parseImportDate(value: string): Date | null {
+  const trimmed = value.trim();
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  if (iso) {
+    return validDate(+iso[1], +iso[2], +iso[3]);
+  }
+
+  const slashed = /^(\d{1,2})[/.](\d{1,2})[/.](\d{2}|\d{4})$/.exec(trimmed);
+  if (slashed) {
+    const year = slashed[3].length === 2 ? 2000 + +slashed[3] : +slashed[3];
+    return validDate(year, +slashed[1], +slashed[2]);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+function parseScore(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  const score = Number(value.trim());
+  return Number.isInteger(score) && score >= 0 ? score : NaN;
+}
+
+const SET_SCORE_PATTERN = /(\d+)\s*[-–:]\s*(\d+)/g;
+
+/**
+ * "21-15, 18-21 21-17" as set scores, team A first - null unless the text is only scores
+ */
+function parseSetScores(value: string): GameSet[] | null {
+  const sets = Array.from(value.matchAll(SET_SCORE_PATTERN)).map((match) => ({ teamAScore: +match[1], teamBScore: +match[2] }));
+  const rest = value.replace(SET_SCORE_PATTERN, "").replace(/[\s,;/|]+/g, "");
+  return sets.length > 0 && rest === "" ? sets : null;
+}
+
+/**
+ * Read a spreadsheet of games: one row per game with a date, both teams and the score
+ * Rows on the same date (and session name, if there's a column for it) become one session
+ */
+export function parseCsvImport(content: string): ParsedImport {
+  const errors: GroupImportIssue[] = [];
+  const warnings: GroupImportIssue[] = [];
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ""));
+
+  if (rows.length === 0) {
+    return { sessions: [], errors: [{ message: "The file is empty" }], warnings };
+  }
+
+  const [header, ...dataRows] = rows;
+  const columns: Record<string, number> = {};
+  header.fields.forEach((name, index) => {
+    const normalized = normalizeHeader(name);
+    Object.keys(CSV_COLUMNS).forEach((column) => {
+      if (columns[column] === undefined && CSV_COLUMNS[column].includes(normalized)) {
+        columns[column] = index;
+      }
+    });
+  });
+
+  const missing = ["date", "teamA", "teamB"].filter((column) => columns[column] === undefined);
+  if (missing.length > 0) {
+    return {
+      sessions: [],
+      errors: [{ row: header.line, message: "The first row must be a header with date, team A and team B columns (and a score)" }],
+      warnings,
+    };
+  }
+  const hasScores =
+    columns.score !== undefined || columns.sets !== undefined || (columns.teamAScore !== undefined && columns.teamBScore !== undefined);
+  if (!hasScores && columns.winningTeam === undefined && columns.winner === undefined) {
+    errors.push({ row: header.line, message: "Add a score column (like 21-15) or a winner column so each game has a result" });
+  }
+  if (dataRows.length > MAX_IMPORT_GAMES) {
+    errors.push({ message: `Too many games - import at most ${MAX_IMPORT_GAMES} at a time` });
+    return { sessions: [], errors, warnings };
+  }
+
+  const sessionsByKey = new Map<string, ImportedSession>();
+  const gamesByDay = new Map<string, number>();
+  const cell = (fields: string[], column: string) =>
+    columns[column] === undefined ? undefined : (fields[columns[column]] ?? "").trim();
+
+  dataRows.forEach(({ line, fields }) => {
+    const rowError = (message: string) => errors.push({ row: line, message });
+
+    const date = parseImportDate(cell(fields, "date") || "");
+    if (!date) {
+      rowError(`"${cell(fields, "date")}" isn't a date - use YYYY-MM-DD or M/D/YYYY`);
+      return;
+    }
+
+    const teamA = splitTeam(cell(fields, "teamA") || "");
+    const teamB = splitTeam(cell(fields, "teamB") || "");
+    if (teamA.length === 0 || teamB.length === 0) {
+      rowError("Both teams need at least one player");
+      return;
+    }
+    if (teamA.length > 2 || teamB.length > 2 || teamA.length !== teamB.length) {
+      rowError("Teams must both be one player (singles) or both two players (doubles)");
+      return;
+    }
+    const allNames = teamA.concat(teamB).map((name) => name.toLowerCase());
+    if (new Set(allNames).size !== allNames.length) {
+      rowError("The same player is listed twice in one game");
+      return;
+    }
+
+    // Scores: "21-15" in one column, or a column per team - or a match's set scores
+    let teamAScore: number | null = null;
+    let teamBScore: number | null = null;
+    let sets: GameSet[] | null = null;
+    const score = cell(fields, "score");
+    const setsText = cell(fields, "sets") || score || "";
+    const setScores = parseSetScores(setsText);
+    if (setScores && setScores.length > 1) {
+      sets = setScores;
+      teamAScore = sets.reduce((sum, set) => sum + set.teamAScore, 0);
+      teamBScore = sets.reduce((sum, set) => sum + set.teamBScore, 0);
+    } else if (cell(fields, "sets")) {
+      rowError(`"${cell(fields, "sets")}" isn't a list of set scores - use team A's score first, like 21-15, 18-21, 21-17`);
+      return;
+    } else if (score) {
+      const match = /^(\d+)\s*[-–:]\s*(\d+)$/.exec(score);
+      if (!match) {
+        rowError(`"${score}" isn't a score - use team A's score first, like 21-15`);
+        return;
+      }
+      teamAScore = +match[1];
+      teamBScore = +match[2];
+    } else {
+      teamAScore = parseScore(cell(fields, "teamAScore"));
+      teamBScore = parseScore(cell(fields, "teamBScore"));
+      if (Number.isNaN(teamAScore) || Number.isNaN(teamBScore)) {
+        rowError("Scores must be whole numbers");
+        return;
+      }
+    }
+
+    let winningTeam: "A" | "B" | null = null;
+    const setsWon = sets ? countSetsWon(sets) : null;
+    if (setsWon) {
+      // A match goes to whoever won more sets, whatever the point totals
+      if (setsWon.teamA !== setsWon.teamB) {
+        winningTeam = setsWon.teamA > setsWon.teamB ? "A" : "B";
+      }
+    } else if (teamAScore !== null && teamBScore !== null && teamAScore !== teamBScore) {
+      winningTeam = teamAScore > teamBScore ? "A" : "B";
+    } else {
+      // A or B, 1 or 2, or the winning team's names
+      const winner = splitTeam(cell(fields, "winningTeam") || cell(fields, "winner") || "").join(" & ").toLowerCase();
+      const teamAText = teamA.join(" & ").toLowerCase();
+      const teamBText = teamB.join(" & ").toLowerCase();
+      if (winner === "a" || winner === "1" || (winner !== "" && winner === teamAText)) {
+        winningTeam = "A";
+      } else if (winner === "b" || winner === "2" || (winner !== "" && winner === teamBText)) {
+        winningTeam = "B";
+      }
+    }
+    if (!winningTeam) {
+      rowError("Can't tell who won - add the score or a winner (A or B)");
+      return;
+    }
+
+    const sessionName = cell(fields, "session") || null;
+    const dayKey = date.toISOString().slice(0, 10);
+    const sessionKey = `${dayKey}\n${sessionName ?? ""}`;
+    let session = sessionsByKey.get(sessionKey);
+    if (!session) {
+      session = {
+        date: date.toISOString(),
+        name: sessionName,
+        gameMode: teamA.length === 1 ? "singles" : "doubles",
+        players: [],
+        games: [],
+        settings: { ...DEFAULT_IMPORTED_SETTINGS },
+      };
+      sessionsByKey.set(sessionKey, session);
+    }
+    if ((teamA.length === 1) !== (session.gameMode === "singles")) {
+      rowError(`Mixes singles and doubles in the session on ${dayKey} - use a session column to split them`);
+      return;
+    }
+
+    // A minute apart in file order - across the day, not just the session, since sessions
+    // on the same day all start at midday - so ratings replay the games in the order they were played
+    const gameOfDay = gamesByDay.get(dayKey) ?? 0;
+    gamesByDay.set(dayKey, gameOfDay + 1);
+
+    // Players are matched within the session by name, ignoring case
+    const keyFor = (name: string) => {
+      const key = name.toLowerCase();
+      if (!session!.players.some((p) => p.key === key)) {
+        session!.players.push({ key, name, groupPlayerName: name, attendanceWeight: 1 });
+      }
+      return key;
+    };
+
+    session.games.push({
+      row: line,
+      teamA: teamA.map(keyFor),
+      teamB: teamB.map(keyFor),
+      winningTeam,
+      teamAScore,
+      teamBScore,
+      sets,
+      rallies: null,
+      playedAt: new Date(date.getTime() + gameOfDay * 60000).toISOString(),
+    });
+  });
+
+  const sessions = Array.from(sessionsByKey.values()).sort((a, b) => a.date.localeCompare(b.date));
+  sessions.forEach((session) => {
+    session.settings.organizerKey = session.players[0]?.key ?? null;
+  });
+
+  return { sessions, errors, warnings };
+}
+
+// ----------------------------------------------------------------------------
+// JSON (export bundle)
+// ----------------------------------------------------------------------------
+
+// Set scores of a match - anything unreadable is dropped, leaving the game's scores as they are
+function readExportedSets(value: unknown): GameSet[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const valid = value.every((set) => set && Number.isInteger(set.teamAScore) && Number.isInteger(set.teamBScore));
+  return valid ? value.map((set) => ({ teamAScore: set.teamAScore, teamBScore: set.teamBScore })) : null;
+}
+
+// Rally log of a live-scored game - dropped if it isn't lists of "A" and "B"
+function readExportedRallies(value: unknown): RallyWinner[][] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const valid = value.every((set) => Array.isArray(set) && set.every((rally) => rally === "A" || rally === "B"));
+  return valid ? value : null;
+}
+
+/**
+ * Read a group export (version 1). Guests stay guests; everyone else is matched to the
+ * group's players by name. IDs in the file are only used to connect its parts together.
+ */
+export function parseJsonImport(content: string): ParsedImport {
+  const errors: GroupImportIssue[] = [];
+  const warnings: GroupImportIssue[] = [];
+  const fail = (message: string): ParsedImport => ({ sessions: [], errors: [{ message }], warnings });
+
+  let bundle: GroupExport;
+  try {
+    bundle = JSON.parse(content);
+  } catch {
+    return fail("The file isn't valid JSON");
+  }
+
+  if (!bundle || bundle.format !== "poweredbypace-group-export") {
+    return fail("This isn't a group export - download one with the JSON link on a group page");
+  }
+  if (typeof bundle.version !== "number" || bundle.version > 1) {
+    return fail(`This export is format version ${bundle.version}, which this version of the app can't read`);
+  }
+  if (!Array.isArray(bundle.players) || !Array.isArray(bundle.sessions) || !Array.isArray(bundle.sessionPlayers) || !Array.isArray(bundle.games)) {
+    return fail("The export is missing its players, sessions or games");
+  }
+  if (bundle.games.length > MAX_IMPORT_GAMES) {
+    return fail(`Too many games - import at most ${MAX_IMPORT_GAMES} at a time`);
+  }
+
+  const groupPlayerNames = new Map(bundle.players.map((p) => [p.id, p.name]));
+  const sessions: ImportedSession[] = [];
+
+  bundle.sessions.forEach((source) => {
+    const date = source && typeof source.date === "string" ? new Date(source.date) : null;
+    if (!date || isNaN(date.getTime())) {
+      errors.push({ message: `Session ${source?.id ?? "?"} has no valid date` });
+      return;
+    }
+    const label = source.name ? `"${source.name}" (${source.date.slice(0, 10)})` : source.date.slice(0, 10);
+
+    const players: ImportedPlayer[] = bundle.sessionPlayers
+      .filter((p) => p.sessionId === source.id)
+      .map((p) => ({
+        key: p.id,
+        name: p.name,
+        groupPlayerName: p.groupPlayerId ? groupPlayerNames.get(p.groupPlayerId) ?? p.name : null,
+        attendanceWeight: typeof p.attendanceWeight === "number" ? p.attendanceWeight : 1,
+      }));
+    const playerKeys = new Set(players.map((p) => p.key));
+
+    const games: ImportedGame[] = [];
+    bundle.games
+      .filter((g) => g.sessionId === source.id)
+      .forEach((g) => {
+        const teamA = Array.isArray(g.teamA) ? g.teamA : [];
+        const teamB = Array.isArray(g.teamB) ? g.teamB : [];
+        if (teamA.length === 0 || teamB.length === 0 || !teamA.concat(teamB).every((key) => playerKeys.has(key))) {
+          errors.push({ message: `Game ${g.gameNumber} in session ${label} refers to players that aren't in the session` });
+          return;
+        }
+        games.push({
+          teamA,
+          teamB,
+          winningTeam: g.winningTeam === "A" || g.winningTeam === "B" ? g.winningTeam : null,
+          teamAScore: typeof g.teamAScore === "number" ? g.teamAScore : null,
+          teamBScore: typeof g.teamBScore === "number" ? g.teamBScore : null,
+          sets: readExportedSets(g.sets),
+          rallies: readExportedRallies(g.rallies),
+          playedAt: g.createdAt || new Date(date.getTime() + games.length * 60000).toISOString(),
+        });
+      });
+
+    if (players.length === 0) {
+      warnings.push({ message: `Session ${label} has no players and will be skipped` });
+      return;
+    }
+
+    sessions.push({
+      date: date.toISOString(),
+      name: source.name || null,
+      gameMode: source.gameMode === "singles" ? "singles" : "doubles",
+      players,
+      games,
+      settings: {
+        organizerKey: playerKeys.has(source.organizerId) ? source.organizerId : players[0].key,
+        roundRobinCount: source.roundRobinCount ?? null,
+        courtCostType: source.courtCostType === "total" ? "total" : "per_person",
+        courtCostValue: Number(source.courtCostValue) || 0,
+        birdCostTotal: Number(source.birdCostTotal) || 0,
+        betPerPlayer: Number(source.betPerPlayer) || 0,
+        bettingEnabled: source.bettingEnabled ?? true,
+        expenses: Array.isArray(source.expenses) && source.expenses.length > 0 ? source.expenses : null,
+        costSplitMode: source.costSplitMode || "even",
+        currencySettings: source.currencySettings,
+        scoringRule: isScoringRuleName(source.scoringRule) ? source.scoringRule : DEFAULT_SCORING_RULE,
+      },
+    });
+  });
+
+  sessions.sort((a, b) => a.date.localeCompare(b.date));
+  return { sessions, errors, warnings };
+}
@@ -0,0 +1,200 @@
+import { Game, GroupLedger, LedgerBalance, LedgerObligation, LedgerTransfer, Player, Session } from "@/types";
+import { calculateFinalSettlement, calculateSettlementTransfers } from "@/lib/calculations";
+import { DEFAULT_CURRENCY_SETTINGS, fromMinorUnits, getCurrencySettings, toMinorUnits } from "@/lib/currency";
+
+/**
+ * Group debt ledger
+ *
+ * Every session's final settlement produces a handful of "who pays whom" transfers.
+ * The ledger keeps those transfers (obligations) across all of a group's sessions,
+ * remembers what has been paid, and adds up what is still outstanding into one
+ * running balance per person.
+ *
+ * A payment is money one session player gave another, not a tick against a transfer: it
+ * moves both players' session balances before the transfers are worked out. Editing a
+ * session later can change which transfers settle it, but what was paid still counts. Those balances are then netted into the fewest payments,
+ * so a group can play every week and settle up once a month.
+ *
+ * Amounts stay in the currency of the session they came from. A group whose sessions were
+ * played in more than one currency gets a balance and a set of payments per currency -
+ * USD and TWD are never added together.
+ */
+
+// Money one session player paid another towards settling the session
+export interface LedgerPayment {
+  sessionId: string;
+  fromPlayerId: string;
+  toPlayerId: string;
+  amount: number;
+  paidAt: Date;
+}
+
+// Identifies an obligation: a session and the pair of session players
+export type LedgerObligationKey = Pick<LedgerObligation, "sessionId" | "fromPlayerId" | "toPlayerId">;
+
+export function getObligationKey(obligation: LedgerObligationKey): string {
+  return `${obligation.sessionId}:${obligation.fromPlayerId}:${obligation.toPlayerId}`;
+}
+
+/**
+ * ID that links a person across sessions
+ * Group players use their group player ID; guests are matched by name
+ */
+export function getLedgerPlayerId(player: Pick<Player, "name" | "groupPlayerId">): string {
+  return player.groupPlayerId || `guest:${player.name.trim().toLowerCase()}`;
+}
+
+/**
+ * Build a group's ledger from its sessions, their games and the payments recorded so far
+ * Sessions are expected newest first (as returned for the group), so balances use each
+ * person's most recent name. Balances are netted within each currency, the group's first.
+ */
+export function buildGroupLedger(
+  sessions: Session[],
+  gamesBySessionId: Map<string, Game[]>,
+  payments: LedgerPayment[],
+  currency: string = DEFAULT_CURRENCY_SETTINGS.currency
+): GroupLedger {
+  const obligations: LedgerObligation[] = [];
+
+  sessions.forEach((session) => {
+    if (session.players.length === 0) return;
+    obligations.push(
+      ...getSessionObligations(
+        session,
+        gamesBySessionId.get(session.id) || [],
+        payments.filter((payment) => payment.sessionId === session.id)
+      )
+    );
+  });
+
+  // The group's currency first, then any others sessions were played in
+  const currencies = Array.from(new Set([currency, ...obligations.map((o) => o.currency)]));
+  const balances: LedgerBalance[] = [];
+  const netTransfers: LedgerTransfer[] = [];
+
+  currencies.forEach((ledgerCurrency) => {
+    const currencyBalances = calculateLedgerBalances(
+      obligations.filter((o) => o.currency === ledgerCurrency),
+      ledgerCurrency
+    );
+    const transfers = calculateSettlementTransfers(
+      currencyBalances.map((b) => ({ playerId: b.ledgerPlayerId, playerName: b.playerName, netBalance: b.balance })),
+      ledgerCurrency
+    );
+
+    balances.push(...currencyBalances);
+    netTransfers.push(...transfers.map((transfer) => ({ ...transfer, currency: ledgerCurrency })));
+  });
+
+  return { obligations, balances, netTransfers };
+}
+
+/**
+ * A session's obligations: what was paid, and the transfers that settle what is left
+ * Payments are taken off (or, paid to the wrong person, added to) the players' session
+ * balances before the transfers are worked out. A payment and a transfer between the same
+ * two players are one obligation - paid in part after the session changed.
+ */
+function getSessionObligations(session: Session, games: Game[], payments: LedgerPayment[]): LedgerObligation[] {
+  const currency = getCurrencySettings(session).currency;
+  const playersById = new Map(session.players.map((p) => [p.id, p]));
+  const units = new Map(
+    calculateFinalSettlement(session, games).map((s) => [s.playerId, toMinorUnits(s.netBalance, currency)])
+  );
+
+  // Payments involving someone no longer in the session can't be placed, so they're left out
+  const placedPayments = payments.filter((p) => units.has(p.fromPlayerId) && units.has(p.toPlayerId));
+  placedPayments.forEach((payment) => {
+    const paid = toMinorUnits(payment.amount, currency);
+    units.set(payment.fromPlayerId, units.get(payment.fromPlayerId)! + paid);
+    units.set(payment.toPlayerId, units.get(payment.toPlayerId)! - paid);
+  });
+
+  const transfers = calculateSettlementTransfers(
+    session.players.map((p) => ({
+      playerId: p.id,
+      playerName: p.name,
+      netBalance: fromMinorUnits(units.get(p.id) ?? 0, currency),
+    })),
+    currency
+  );
+
+  const obligation = (fromPlayerId: string, toPlayerId: string): LedgerObligation => ({
+    sessionId: session.id,
+    sessionName: session.name,
+    sessionDate: session.date,
+    fromPlayerId,
+    fromGroupPlayerId: playersById.get(fromPlayerId)?.groupPlayerId,
+    fromPlayerName: playersById.get(fromPlayerId)?.name || "Unknown",
+    toPlayerId,
+    toGroupPlayerId: playersById.get(toPlayerId)?.groupPlayerId,
+    toPlayerName: playersById.get(toPlayerId)?.name || "Unknown",
+    amount: 0,
+    currency,
+    amountPaid: 0,
+    outstanding: 0,
+  });
+
+  const paidByKey = new Map(
+    placedPayments.map((payment) => [
+      getObligationKey(payment),
+      {
+        ...obligation(payment.fromPlayerId, payment.toPlayerId),
+        amount: payment.amount,
+        amountPaid: payment.amount,
+        paidAt: payment.paidAt,
+      },
+    ])
+  );
+
+  const outstanding = transfers.map((transfer) => {
+    const key = getObligationKey({ sessionId: session.id, ...transfer });
+    const paid = paidByKey.get(key);
+    paidByKey.delete(key);
+    return {
+      ...(paid ?? obligation(transfer.fromPlayerId, transfer.toPlayerId)),
+      amount: fromMinorUnits(toMinorUnits(transfer.amount + (paid?.amountPaid ?? 0), currency), currency),
+      outstanding: transfer.amount,
+    };
+  });
+
+  return outstanding.concat(Array.from(paidByKey.values()));
+}
+
+/**
+ * Add up outstanding obligations in one currency into one balance per person
+ */
+function calculateLedgerBalances(obligations: LedgerObligation[], currency: string): LedgerBalance[] {
+  const balances = new Map<string, { balance: LedgerBalance; units: number; sessionIds: Set<string> }>();
+
+  const addToBalance = (name: string, groupPlayerId: string | undefined, sessionId: string, units: number) => {
+    const ledgerPlayerId = getLedgerPlayerId({ name, groupPlayerId });
+    if (!balances.has(ledgerPlayerId)) {
+      balances.set(ledgerPlayerId, {
+        balance: { ledgerPlayerId, groupPlayerId, playerName: name, balance: 0, currency, sessionCount: 0 },
+        units: 0,
+        sessionIds: new Set(),
+      });
+    }
+    const entry = balances.get(ledgerPlayerId)!;
+    entry.units += units;
+    entry.sessionIds.add(sessionId);
+  };
+
+  obligations.forEach((obligation) => {
+    const units = toMinorUnits(obligation.outstanding, currency);
+    if (units === 0) return;
+    addToBalance(obligation.fromPlayerName, obligation.fromGroupPlayerId, obligation.sessionId, -units);
+    addToBalance(obligation.toPlayerName, obligation.toGroupPlayerId, obligation.sessionId, units);
+  });
+
+  return Array.from(balances.values())
+    .filter((entry) => entry.units !== 0)
+    .map((entry) => ({
+      ...entry.balance,
+      balance: fromMinorUnits(entry.units, currency),
+      sessionCount: entry.sessionIds.size,
+    }))
+    .sort((a, b) => b.balance - a.balance);
+}
@@ -0,0 +1,310 @@
+import { Game, GameSet, RallyWinner } from "@/types";
+import { getMatchMaxSets, ScoringRule } from "@/lib/scoring";
+
+/**
+ * Point-by-point live scoring
+ *
+ * A live game is its setup (teams, format, who served and received first) plus the list of
+ * rally winners. Everything the scoreboard shows - score, sets, who serves from which
+ * court, the interval, game and match point - comes from replaying the rallies, so undo
+ * just drops the last one.
+ *
+ * Service follows the laws of badminton: the serving side serves from the right court on
+ * an even score and the left on an odd one. Winning a rally on serve swaps the serving
+ * pair's courts; winning it on receive takes the serve without anyone moving, and the
+ * player standing in the court for the new score serves. The winners of a set serve first
+ * in the next one.
+ *
+ * Finished games keep their rallies (one list per set) for stats like the longest run.
+ */
+
+export interface LiveScoreSetup {
+  teamA: string[]; // Player IDs - one each for singles, two each for doubles
+  teamB: string[];
+  isMatch: boolean; // Played as a match - best of three, or five under 11x5
+  firstServer: string;
+  firstReceiver: string; // On the other side - in singles, the opponent
+  gameId?: string; // Unplayed (round robin) game the result fills in
+}
+
+export interface LiveScore {
+  setup: LiveScoreSetup;
+  rallies: RallyWinner[]; // Every rally of the match, in order
+}
+
+export type ServiceCourt = "right" | "left";
+
+export interface LiveScoreboard {
+  score: GameSet; // Set in play (the last set once the match is over)
+  sets: GameSet[]; // Every set so far, including the one in play
+  setsWon: { teamA: number; teamB: number };
+  servingTeam: RallyWinner;
+  server: string;
+  receiver: string;
+  serviceCourt: ServiceCourt;
+  gamePoint: RallyWinner | null; // Side one rally from winning the set
+  matchPoint: RallyWinner | null; // ...and with it the match
+  interval: boolean; // The last rally took the leader to the interval (11 in a 21-point game)
+  changeEnds: boolean; // Interval of the deciding set - the players change ends too
+  winningTeam: RallyWinner | null; // Set once the match is over
+  rallies: RallyWinner[][]; // Split into sets
+}
+
+export interface RallyStats {
+  longestRun: { team: RallyWinner; length: number } | null;
+  comebackDeficit: number; // Most points the winners trailed by in a set they went on to win
+}
+
+// A win from this many points down counts as a comeback
+export const COMEBACK_MIN_DEFICIT = 5;
+
+// localStorage key for live games in progress (session ID -> live game)
+const STORAGE_KEY_LIVE_SCORES = "poweredbypace_live_scores";
+
+function otherTeam(team: RallyWinner): RallyWinner {
+  return team === "A" ? "B" : "A";
+}
+
+function isSetWon(rule: ScoringRule, points: number, opponentPoints: number): boolean {
+  return points >= rule.cap || (points >= rule.pointsToWin && points - opponentPoints >= 2);
+}
+
+/**
+ * Score the leader reaches at the interval - 11 in a 21-point game
+ */
+export function getIntervalPoint(rule: ScoringRule): number {
+  return Math.ceil(rule.pointsToWin / 2);
+}
+
+/**
+ * Replay a live game's rallies into what the scoreboard shows
+ * Rallies after the match is over are ignored
+ */
+export function replayLiveScore(rule: ScoringRule, live: LiveScore): LiveScoreboard {
+  const { setup } = live;
+  const teams: Record<RallyWinner, string[]> = { A: setup.teamA, B: setup.teamB };
+  const partnerOf = (team: RallyWinner, playerId: string) => teams[team].find((id) => id !== playerId) ?? playerId;
+
+  // Who stands in each service court - in singles both are the one player
+  const firstServingTeam: RallyWinner = setup.teamA.includes(setup.firstServer) ? "A" : "B";
+  const firstReceivingTeam = otherTeam(firstServingTeam);
+  const positions: Record<RallyWinner, Record<ServiceCourt, string>> = {
+    A: { right: "", left: "" },
+    B: { right: "", left: "" },
+  };
+  positions[firstServingTeam] = { right: setup.firstServer, left: partnerOf(firstServingTeam, setup.firstServer) };
+  positions[firstReceivingTeam] = { right: setup.firstReceiver, left: partnerOf(firstReceivingTeam, setup.firstReceiver) };
+
+  const intervalPoint = getIntervalPoint(rule);
+  const setRallies: RallyWinner[][] = [[]];
+  const finishedSets: GameSet[] = [];
+  const points: Record<RallyWinner, number> = { A: 0, B: 0 };
+  const setsWon: Record<RallyWinner, number> = { A: 0, B: 0 };
+  let servingTeam = firstServingTeam;
+  let server = setup.firstServer;
+  let interval = false;
+  let winningTeam: RallyWinner | null = null;
+
+  for (const rally of live.rallies) {
+    if (winningTeam) break;
+    const loser = otherTeam(rally);
+    points[rally]++;
+    setRallies[setRallies.length - 1].push(rally);
+
+    if (rally === servingTeam) {
+      const { right, left } = positions[rally];
+      positions[rally] = { right: left, left: right };
+    } else {
+      servingTeam = rally;
+      server = positions[rally][points[rally] % 2 === 0 ? "right" : "left"];
+    }
+    interval = points[rally] === intervalPoint && points[loser] < intervalPoint;
+
+    if (isSetWon(rule, points[rally], points[loser])) {
+      setsWon[rally]++;
+      if (!setup.isMatch || setsWon[rally] === rule.setsToWin) {
+        winningTeam = rally;
+      } else {
+        finishedSets.push({ teamAScore: points.A, teamBScore: points.B });
+        points.A = 0;
+        points.B = 0;
+        setRallies.push([]);
+        interval = false;
+        server = positions[rally].right;
+      }
+    }
+  }
+
+  const serviceCourt: ServiceCourt = points[servingTeam] % 2 === 0 ? "right" : "left";
+  const score = { teamAScore: points.A, teamBScore: points.B };
+
+  // At 29-all both sides are a rally from the cap - the server's side is shown
+  let gamePoint: RallyWinner | null = null;
+  if (!winningTeam) {
+    const candidates: RallyWinner[] = [servingTeam, otherTeam(servingTeam)];
+    gamePoint = candidates.find((team) => isSetWon(rule, points[team] + 1, points[otherTeam(team)])) ?? null;
+  }
+  const matchPoint =
+    gamePoint && (!setup.isMatch || setsWon[gamePoint] === rule.setsToWin - 1) ? gamePoint : null;
+
+  return {
+    score,
+    sets: finishedSets.concat([score]),
+    setsWon: { teamA: setsWon.A, teamB: setsWon.B },
+    servingTeam,
+    server,
+    receiver: positions[otherTeam(servingTeam)][serviceCourt],
+    serviceCourt,
+    gamePoint,
+    matchPoint,
+    interval,
+    changeEnds: interval && setup.isMatch && finishedSets.length === getMatchMaxSets(rule) - 1,
+    winningTeam,
+    rallies: setRallies,
+  };
+}
+
+/**
+ * The game to save for a finished live match: scores (or sets and their totals) and the rally log
+ */
+export function getLiveScoreResult(
+  board: LiveScoreboard
+): Pick<Game, "teamAScore" | "teamBScore" | "sets" | "rallies"> & { winningTeam: RallyWinner } {
+  if (!board.winningTeam) {
+    throw new Error("The match isn't over");
+  }
+  const isMatch = board.sets.length > 1;
+  return {
+    winningTeam: board.winningTeam,
+    teamAScore: board.sets.reduce((sum, set) => sum + set.teamAScore, 0),
+    teamBScore: board.sets.reduce((sum, set) => sum + set.teamBScore, 0),
+    sets: isMatch ? board.sets : undefined,
+    rallies: board.rallies,
+  };
+}
+
+/**
+ * Scores from a stored rally log, so a live-scored game's scores always match its rallies
+ * Each set's rallies must end the moment the set is won. One set is a single game; more are
+ * a match (checked further by resolveMatchResult).
+ */
+export function getRallyLogScores(
+  rule: ScoringRule,
+  rallies: unknown
+): Pick<Game, "teamAScore" | "teamBScore" | "sets"> | { error: string } {
+  if (!Array.isArray(rallies)) {
+    return { error: "The rally log must be a list of sets" };
+  }
+  if (rallies.length === 0) {
+    return { error: "The rally log is empty" };
+  }
+
+  const sets: GameSet[] = [];
+  for (let i = 0; i < rallies.length; i++) {
+    const setRallies = rallies[i];
+    if (!Array.isArray(setRallies) || !setRallies.every((rally) => rally === "A" || rally === "B")) {
+      return { error: "Rallies must be won by A or B" };
+    }
+
+    const points: Record<RallyWinner, number> = { A: 0, B: 0 };
+    for (let r = 0; r < setRallies.length; r++) {
+      if (isSetWon(rule, points.A, points.B) || isSetWon(rule, points.B, points.A)) {
+        return { error: `The rally log carries on after set ${i + 1} was won` };
+      }
+      points[setRallies[r] as RallyWinner]++;
+    }
+    if (!isSetWon(rule, points.A, points.B) && !isSetWon(rule, points.B, points.A)) {
+      return { error: `Set ${i + 1} of the rally log isn't finished` };
+    }
+    sets.push({ teamAScore: points.A, teamBScore: points.B });
+  }
+
+  if (sets.length === 1) {
+    return { teamAScore: sets[0].teamAScore, teamBScore: sets[0].teamBScore, sets: undefined };
+  }
+  return {
+    teamAScore: sets.reduce((sum, set) => sum + set.teamAScore, 0),
+    teamBScore: sets.reduce((sum, set) => sum + set.teamBScore, 0),
+    sets,
+  };
+}
+
+/**
+ * Longest run of rallies won in a row, and the biggest deficit the winners came back from
+ */
+export function getRallyStats(rallies: RallyWinner[][], winningTeam: RallyWinner | null): RallyStats {
+  let longestRun: RallyStats["longestRun"] = null;
+  let comebackDeficit = 0;
+
+  rallies.forEach((setRallies) => {
+    let run = 0;
+    const points: Record<RallyWinner, number> = { A: 0, B: 0 };
+    let deficit: Record<RallyWinner, number> = { A: 0, B: 0 };
+
+    setRallies.forEach((rally, index) => {
+      run = index > 0 && setRallies[index - 1] === rally ? run + 1 : 1;
+      if (!longestRun || run > longestRun.length) {
+        longestRun = { team: rally, length: run };
+      }
+      points[rally]++;
+      deficit = {
+        A: Math.max(deficit.A, points.B - points.A),
+        B: Math.max(deficit.B, points.A - points.B),
+      };
+    });
+
+    const setWinner = setRallies[setRallies.length - 1];
+    if (winningTeam && setWinner === winningTeam) {
+      comebackDeficit = Math.max(comebackDeficit, deficit[winningTeam]);
+    }
+  });
+
+  return { longestRun, comebackDeficit };
+}
+
+function loadLiveScores(): Record<string, LiveScore> {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_LIVE_SCORES);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to load live scores:", e);
+    return {};
+  }
+}
+
+function saveLiveScores(scores: Record<string, LiveScore>) {
+  try {
+    localStorage.setItem(STORAGE_KEY_LIVE_SCORES, JSON.stringify(scores));
+  } catch (e) {
+    console.error("Failed to save live scores:", e);
+  }
+}
+
+/**
+ * The live game in progress on this device for a session, if any
+ * Kept so a locked screen or reload doesn't lose the score
+ */
+export function getSavedLiveScore(sessionId: string): LiveScore | null {
+  const live = loadLiveScores()[sessionId];
+  if (!live) return null;
+  // Saved before matches could be best of five, when the flag was called bestOfThree
+  const legacy = live.setup as LiveScoreSetup & { bestOfThree?: boolean };
+  if (legacy.isMatch === undefined && legacy.bestOfThree !== undefined) {
+    return { ...live, setup: { ...live.setup, isMatch: legacy.bestOfThree } };
+  }
+  return live;
+}
+
+export function saveLiveScore(sessionId: string, live: LiveScore) {
+  if (typeof window === "undefined") return;
+  saveLiveScores({ ...loadLiveScores(), [sessionId]: live });
+}
+
+export function clearLiveScore(sessionId: string) {
+  if (typeof window === "undefined") return;
+  const scores = loadLiveScores();
+  delete scores[sessionId];
+  saveLiveScores(scores);
+}
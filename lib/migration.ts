@@ -5,6 +5,7 @@
 
 import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
+import { getPostgresConnectionString, getPostgresPoolConfig } from './db/postgresAdapter';
 
 export interface MigrationResult {
   success: boolean;
@@ -263,12 +264,7 @@ async function executeMigrationSQL(client: any, sql: string, migrationName: stri
  * Run all pending database migrations
  */
 export async function runMigration(): Promise<MigrationResult> {
-  const connectionString = 
-    process.env.POSTGRES_URL_NON_POOLING ||
-    process.env.VERCEL_POSTGRES_URL_NON_POOLING ||
-    process.env.POSTGRES_URL || 
-    process.env.VERCEL_POSTGRES_URL ||
-    process.env.DATABASE_URL;
+  const connectionString = getPostgresConnectionString();
 
   // Declare pool and client outside try block so they're accessible in catch
   let pool: any = null;
@@ -297,33 +293,8 @@ export async function runMigration(): Promise<MigrationResult> {
     // Dynamically import pg to avoid bundling issues
     const { Pool } = await import('pg');
 
-    // Connect to database
-    const isLocalhost = connectionString.includes('localhost') || 
-                       connectionString.includes('127.0.0.1');
-    
-    // Clean connection string
-    let cleanConnectionString = connectionString
-      .replace(/[?&]sslmode=[^&]*/gi, '')
-      .replace(/[?&]ssl=[^&]*/gi, '')
-      .replace(/[?&]sslcert=[^&]*/gi, '')
-      .replace(/[?&]sslkey=[^&]*/gi, '')
-      .replace(/[?&]sslrootcert=[^&]*/gi, '')
-      .replace(/[?&]supa=[^&]*/gi, '')
-      .replace(/[?&]pgbouncer=[^&]*/gi, '');
-    
-    cleanConnectionString = cleanConnectionString.replace(/[?&]$/, '');
-    
-    const sslConfig = !isLocalhost 
-      ? { rejectUnauthorized: false } 
-      : undefined;
-    
     try {
-      pool = new Pool({
-        connectionString: cleanConnectionString,
-        ssl: sslConfig,
-        connectionTimeoutMillis: 10000, // 10 second timeout
-        query_timeout: 30000, // 30 second query timeout
-      });
+      pool = new Pool(getPostgresPoolConfig(connectionString));
 
       // Add timeout wrapper for connection attempt
       const connectWithTimeout = async (timeoutMs: number = 10000) => {
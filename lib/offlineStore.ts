@@ -0,0 +1,131 @@
+/**
+ * IndexedDB storage for recording games offline
+ * Keeps the last copy of each opened session (with its games) and the queue of game
+ * changes that haven't reached the server yet. Browser only - see lib/gameSync.ts.
+ */
+
+import { Game, Session } from "@/types";
+
+const DB_NAME = "poweredbypace_offline";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const QUEUE_STORE = "game_queue";
+
+export type NewGame = Omit<Game, "id" | "sessionId" | "gameNumber">;
+
+interface QueuedOperationBase {
+  seq: number; // Queue position, assigned by IndexedDB
+  sessionId: string;
+  gameId: string;
+  gameNumber: number; // For conflict messages
+  queuedAt: string;
+}
+
+// A game change waiting to be sent to /api/sessions/[id]/games
+// baseUpdatedAt = the game's updatedAt when it was changed here (undefined if it was never synced)
+export type QueuedGameOperation =
+  | (QueuedOperationBase & { kind: "create"; game: NewGame })
+  | (QueuedOperationBase & { kind: "update"; updates: Partial<Game>; baseUpdatedAt?: string })
+  | (QueuedOperationBase & { kind: "delete"; baseUpdatedAt?: string });
+
+// Operations are queued without a seq; IndexedDB numbers them in order
+export type NewQueuedGameOperation = QueuedGameOperation extends infer T
+  ? T extends unknown
+    ? Omit<T, "seq">
+    : never
+  : never;
+
+export interface CachedSession {
+  session: Session;
+  games: Game[]; // As the server last sent them - queued changes are applied on top
+  cachedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "session.id" });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const queue = db.createObjectStore(QUEUE_STORE, { keyPath: "seq", autoIncrement: true });
+          queue.createIndex("sessionId", "sessionId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run one request in its own transaction and resolve once the transaction commits
+ */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Save the session and its games as the server last sent them, for opening it without a connection
+ */
+export async function saveCachedSession(session: Session, games: Game[]): Promise<void> {
+  const entry: CachedSession = { session, games, cachedAt: new Date().toISOString() };
+  await runRequest(SESSIONS_STORE, "readwrite", (store) => store.put(entry));
+}
+
+export async function getCachedSession(sessionId: string): Promise<CachedSession | null> {
+  const entry = await runRequest<CachedSession | undefined>(SESSIONS_STORE, "readonly", (store) =>
+    store.get(sessionId)
+  );
+  return entry ?? null;
+}
+
+/**
+ * Queued game changes for a session, oldest first
+ */
+export async function getQueuedGameOperations(sessionId: string): Promise<QueuedGameOperation[]> {
+  const operations = await runRequest<QueuedGameOperation[]>(QUEUE_STORE, "readonly", (store) =>
+    store.index("sessionId").getAll(sessionId)
+  );
+  return operations.sort((a, b) => a.seq - b.seq);
+}
+
+export async function getQueuedGameOperation(seq: number): Promise<QueuedGameOperation | null> {
+  const operation = await runRequest<QueuedGameOperation | undefined>(QUEUE_STORE, "readonly", (store) =>
+    store.get(seq)
+  );
+  return operation ?? null;
+}
+
+export async function addQueuedGameOperation(operation: NewQueuedGameOperation): Promise<number> {
+  const seq = await runRequest(QUEUE_STORE, "readwrite", (store) => store.add(operation));
+  return seq as number;
+}
+
+export async function putQueuedGameOperation(operation: QueuedGameOperation): Promise<void> {
+  await runRequest(QUEUE_STORE, "readwrite", (store) => store.put(operation));
+}
+
+export async function deleteQueuedGameOperation(seq: number): Promise<void> {
+  await runRequest(QUEUE_STORE, "readwrite", (store) => store.delete(seq));
+}
@@ -0,0 +1,49 @@
+import { GroupRatingSettings } from "@/types";
+
+/**
+ * Rating state stored per group player (group_players row)
+ * ELO only uses `rating`; Glicko-2 also tracks deviation and volatility
+ */
+export interface PlayerRatingState {
+  rating: number;
+  deviation: number; // Rating deviation (RD) - how uncertain the rating is
+  volatility: number; // Expected fluctuation in the player's rating
+  lastPlayedAt?: Date; // Used to grow RD during inactivity
+}
+
+/**
+ * A single game to be rated, with each player's state before the game
+ */
+export interface RatedGame {
+  teamA: PlayerRatingState[];
+  teamB: PlayerRatingState[];
+  winningTeam: "A" | "B";
+  teamAScore?: number;
+  teamBScore?: number;
+  playedAt: Date;
+}
+
+/**
+ * A pluggable rating system
+ * EloService picks the engine from the group's settings and handles all persistence,
+ * so engines are pure functions over rating state
+ */
+export interface RatingEngine {
+  /**
+   * State a brand new player starts with
+   */
+  initialState(settings: GroupRatingSettings): PlayerRatingState;
+
+  /**
+   * Rating deviation as of a given date, including growth from inactivity
+   */
+  currentDeviation(state: PlayerRatingState, asOf: Date): number;
+
+  /**
+   * Rate a game, returning each player's new state in the same order as the input
+   */
+  rateGame(
+    game: RatedGame,
+    settings: GroupRatingSettings
+  ): { teamA: PlayerRatingState[]; teamB: PlayerRatingState[] };
+}
@@ -1,23 +1,45 @@
 import { Player } from "@/types";
+import { calculateExpectedScore, calculateTeamRating } from "@/lib/elo";
 
 export interface RoundRobinGame {
   teamA: [string, string] | [string]; // player IDs - doubles: [string, string], singles: [string]
   teamB: [string, string] | [string]; // player IDs - doubles: [string, string], singles: [string]
+  round?: number; // 1-based round; games in the same round are played at the same time on different courts
 }
 
+// More games than a session gets through in an evening - also bounds the scheduler's work
+export const MAX_ROUND_ROBIN_GAMES = 100;
+
 /**
  * Generate round robin game combinations for badminton doubles or singles
  * For doubles: Ensures each player plays with every other player as a teammate
  * and against every other player as evenly as possible
  * For singles: Ensures each player plays against every other player
+ * Doubles with 7+ players, or any schedule on more than one court, uses the general
+ * round-based scheduler (see scheduleGames)
  * @param players Array of players
  * @param maxGames Optional maximum number of games to generate. If not specified, generates all possible games.
  * @param gameMode "doubles" or "singles" mode
+ * @param courts Number of courts - games in the same round use different players
  */
-export function generateRoundRobinGames(players: Player[], maxGames?: number, gameMode: "doubles" | "singles" = "doubles"): RoundRobinGame[] {
+export function generateRoundRobinGames(
+  players: Player[],
+  maxGames?: number,
+  gameMode: "doubles" | "singles" = "doubles",
+  courts: number = 1
+): RoundRobinGame[] {
   const playerIds = players.map((p) => p.id);
   let games: RoundRobinGame[] = [];
 
+  if (usesGeneralScheduler(playerIds.length, gameMode, courts)) {
+    return scheduleGames(
+      playerIds,
+      maxGames ?? getDefaultGameCount(playerIds.length, gameMode),
+      gameMode,
+      courts
+    );
+  }
+
   if (gameMode === "singles") {
     // For singles, generate all 1v1 matchups
     if (playerIds.length < 2) {
@@ -198,4 +220,309 @@ export function getRoundRobinPreview(players: Player[], maxGames: number = 5, ga
   return allGames.slice(0, maxGames);
 }
 
+/**
+ * Predicted probability that team A beats team B, from team-average ELO
+ * Players without a rating (guests, standalone sessions) count as defaultRating
+ */
+export function predictWinProbability(
+  teamA: string[],
+  teamB: string[],
+  ratings: Map<string, number>,
+  defaultRating: number = 1500
+): number {
+  const teamARating = calculateTeamRating(teamA.map((id) => ratings.get(id) ?? defaultRating));
+  const teamBRating = calculateTeamRating(teamB.map((id) => ratings.get(id) ?? defaultRating));
+  return calculateExpectedScore(teamARating, teamBRating);
+}
+
+/**
+ * All k-sized combinations of the given IDs (in input order)
+ */
+function combinations(ids: string[], k: number): string[][] {
+  if (k === 0) return [[]];
+  const result: string[][] = [];
+  for (let i = 0; i <= ids.length - k; i++) {
+    for (const rest of combinations(ids.slice(i + 1), k - 1)) {
+      result.push([ids[i], ...rest]);
+    }
+  }
+  return result;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a},${b}` : `${b},${a}`;
+}
+
+/**
+ * Order-independent key for a matchup (same teams in either order give the same key)
+ */
+function getMatchupKey(teamA: string[], teamB: string[]): string {
+  return [[...teamA].sort().join(","), [...teamB].sort().join(",")].sort().join("|");
+}
+
+/**
+ * Default number of games for the general scheduler
+ * Doubles: enough for every pair of players to partner once (each game creates 2 partnerships)
+ * Singles: every pair of players meets once
+ * Either way no more than MAX_ROUND_ROBIN_GAMES, which large groups would otherwise pass
+ */
+function getDefaultGameCount(playerCount: number, gameMode: "doubles" | "singles"): number {
+  const pairs = (playerCount * (playerCount - 1)) / 2;
+  return Math.min(MAX_ROUND_ROBIN_GAMES, gameMode === "singles" ? pairs : Math.ceil(pairs / 2));
+}
+
+/**
+ * Whether a schedule comes from scheduleGames rather than the hand-tuned 4-6 player schedules
+ */
+function usesGeneralScheduler(playerCount: number, gameMode: "doubles" | "singles", courts: number): boolean {
+  return courts > 1 || (gameMode === "doubles" && playerCount > 6);
+}
+
+/**
+ * Rough number of team splits the scheduler weighs to build a schedule
+ * scheduleGames scores every way of filling every game, so the work grows with the number of
+ * games times players^4 for doubles (players^2 for singles); the hand-tuned schedules cost nothing
+ */
+export function estimateRoundRobinWork(
+  playerCount: number,
+  maxGames?: number,
+  gameMode: "doubles" | "singles" = "doubles",
+  courts: number = 1
+): number {
+  if (!usesGeneralScheduler(playerCount, gameMode, courts)) return 0;
+  const gameCount = maxGames ?? getDefaultGameCount(playerCount, gameMode);
+  const pairs = (playerCount * (playerCount - 1)) / 2;
+  const splitsPerGame = gameMode === "singles"
+    ? pairs
+    : ((pairs * (playerCount - 2) * (playerCount - 3)) / 12) * 3; // C(n, 4) groups, 3 ways to split each
+  return gameCount * splitsPerGame;
+}
+
+/**
+ * General round-based scheduler shared by the rotating and ELO-balanced modes
+ * Works for any number of players and courts. Each round fills up to `courts` games with
+ * different players, then games are picked one at a time:
+ * 1. Sit-out fairness is a hard rule - nobody plays while someone with fewer games sits out
+ * 2. Among the fair options, pick the lowest-cost teams: repeated partners, repeated opponents,
+ *    repeated exact matchups and playing back-to-back rounds all add cost, and
+ *    `matchupCost` can add more (e.g. predicted win-probability gap)
+ */
+function scheduleGames(
+  playerIds: string[],
+  gameCount: number,
+  gameMode: "doubles" | "singles",
+  courts: number,
+  matchupCost?: (teamA: string[], teamB: string[]) => number
+): RoundRobinGame[] {
+  const teamSize = gameMode === "singles" ? 1 : 2;
+  const playersPerGame = teamSize * 2;
+  const gamesPerRound = Math.max(1, Math.min(courts, Math.floor(playerIds.length / playersPerGame)));
+  if (playerIds.length < playersPerGame) {
+    return [];
+  }
+
+  // Relative weights - partner variety matters most, then opponents
+  const PARTNER_REPEAT_WEIGHT = 1;
+  const OPPONENT_REPEAT_WEIGHT = 0.25;
+  const MATCHUP_REPEAT_WEIGHT = 2;
+  const BACK_TO_BACK_WEIGHT = 0.1;
+
+  const gamesPlayed = new Map<string, number>(playerIds.map((id) => [id, 0]));
+  const partnerCount = new Map<string, number>();
+  const opponentCount = new Map<string, number>();
+  const matchupCount = new Map<string, number>();
+  let lastRoundPlayers = new Set<string>();
+
+  // Every way to split a group of players into two teams
+  const splits = (group: string[]): [string[], string[]][] => {
+    if (teamSize === 1) return [[[group[0]], [group[1]]]];
+    const [a, b, c, d] = group;
+    return [
+      [[a, b], [c, d]],
+      [[a, c], [b, d]],
+      [[a, d], [b, c]],
+    ];
+  };
+
+  const games: RoundRobinGame[] = [];
+  let round = 0;
+  while (games.length < gameCount) {
+    round++;
+    const gamesThisRound = Math.min(gamesPerRound, gameCount - games.length);
+    let available = [...playerIds];
+    const roundPlayers = new Set<string>();
+
+    for (let court = 0; court < gamesThisRound; court++) {
+      // Fairness across the rest of this round: everyone below the cutoff must get one of the
+      // remaining slots, and nobody above it may take one
+      const remainingSlots = (gamesThisRound - court) * playersPerGame;
+      const sortedCounts = available.map((id) => gamesPlayed.get(id)!).sort((x, y) => x - y);
+      const cutoff = sortedCounts[remainingSlots - 1];
+      const mustPlay = available.filter((id) => gamesPlayed.get(id)! < cutoff);
+      const candidates = available.filter((id) => gamesPlayed.get(id)! <= cutoff);
+      const fairGroups = combinations(candidates, playersPerGame).filter((group) =>
+        mustPlay.filter((id) => !group.includes(id)).length <= remainingSlots - playersPerGame
+      );
+
+      let best: { teamA: string[]; teamB: string[]; cost: number } | null = null;
+      for (const group of fairGroups) {
+        for (const [teamA, teamB] of splits(group)) {
+          const partnerRepeats = teamSize === 2
+            ? (partnerCount.get(pairKey(teamA[0], teamA[1])) || 0) + (partnerCount.get(pairKey(teamB[0], teamB[1])) || 0)
+            : 0;
+          let opponentRepeats = 0;
+          teamA.forEach((a) => teamB.forEach((b) => {
+            opponentRepeats += opponentCount.get(pairKey(a, b)) || 0;
+          }));
+          const matchupRepeats = matchupCount.get(getMatchupKey(teamA, teamB)) || 0;
+          const backToBack = group.filter((id) => lastRoundPlayers.has(id)).length;
+
+          const cost =
+            partnerRepeats * PARTNER_REPEAT_WEIGHT +
+            opponentRepeats * OPPONENT_REPEAT_WEIGHT +
+            matchupRepeats * MATCHUP_REPEAT_WEIGHT +
+            backToBack * BACK_TO_BACK_WEIGHT +
+            (matchupCost ? matchupCost(teamA, teamB) : 0);
+
+          if (!best || cost < best.cost) {
+            best = { teamA, teamB, cost };
+          }
+        }
+      }
+
+      if (!best) break;
+
+      const { teamA, teamB } = best;
+      games.push({
+        teamA: teamA as [string, string] | [string],
+        teamB: teamB as [string, string] | [string],
+        round,
+      });
+
+      [...teamA, ...teamB].forEach((id) => {
+        gamesPlayed.set(id, gamesPlayed.get(id)! + 1);
+        roundPlayers.add(id);
+      });
+      available = available.filter((id) => !roundPlayers.has(id));
+      if (teamSize === 2) {
+        [teamA, teamB].forEach(([p1, p2]) => {
+          const key = pairKey(p1, p2);
+          partnerCount.set(key, (partnerCount.get(key) || 0) + 1);
+        });
+      }
+      teamA.forEach((a) => teamB.forEach((b) => {
+        const key = pairKey(a, b);
+        opponentCount.set(key, (opponentCount.get(key) || 0) + 1);
+      }));
+      const matchupKey = getMatchupKey(teamA, teamB);
+      matchupCount.set(matchupKey, (matchupCount.get(matchupKey) || 0) + 1);
+    }
+
+    if (roundPlayers.size === 0) break;
+    lastRoundPlayers = roundPlayers;
+  }
+
+  return games;
+}
+
+/**
+ * Generate an ELO-balanced schedule for doubles or singles
+ * Uses the same fair rotation as the general scheduler, but strongly prefers the teams with
+ * the smallest predicted win-probability gap so strong pairs don't keep ending up together
+ * @param players Array of players
+ * @param ratings Current ELO per session player ID (players without one count as 1500)
+ * @param maxGames Number of games to generate. Defaults to the same count as generateRoundRobinGames
+ * @param gameMode "doubles" or "singles" mode
+ * @param courts Number of courts - games in the same round use different players
+ */
+export function generateBalancedGames(
+  players: Player[],
+  ratings: Map<string, number>,
+  maxGames?: number,
+  gameMode: "doubles" | "singles" = "doubles",
+  courts: number = 1
+): RoundRobinGame[] {
+  const BALANCE_WEIGHT = 10;
+  const gameCount = maxGames ?? (usesGeneralScheduler(players.length, gameMode, courts)
+    ? getDefaultGameCount(players.length, gameMode)
+    : generateRoundRobinGames(players, undefined, gameMode, courts).length);
+
+  return scheduleGames(players.map((p) => p.id), gameCount, gameMode, courts, (teamA, teamB) =>
+    Math.abs(predictWinProbability(teamA, teamB, ratings) - 0.5) * 2 * BALANCE_WEIGHT
+  );
+}
+
+/**
+ * Fairness summary for a generated schedule, shown in the create-session preview
+ */
+export interface RoundRobinFairness {
+  rounds: number;
+  minGamesPerPlayer: number;
+  maxGamesPerPlayer: number;
+  maxSitOutsInARow: number; // Longest run of rounds any player sits out
+  partnerRepeats: number; // Doubles only: partnerships played more than once (extra games beyond the first)
+  unplayedPartnerships: number; // Doubles only: pairs of players who never partner
+  maxTimesFacingSameOpponent: number;
+}
+
+/**
+ * Calculate fairness metrics for a schedule
+ * Games without a round number count as one game per round
+ */
+export function getRoundRobinFairness(
+  games: RoundRobinGame[],
+  players: Player[],
+  gameMode: "doubles" | "singles" = "doubles"
+): RoundRobinFairness {
+  const playerIds = players.map((p) => p.id);
+  const gamesPlayed = new Map<string, number>(playerIds.map((id) => [id, 0]));
+  const partnerCount = new Map<string, number>();
+  const opponentCount = new Map<string, number>();
 
+  const roundOf = (game: RoundRobinGame, index: number) => game.round ?? index + 1;
+  const rounds = games.reduce((max, game, i) => Math.max(max, roundOf(game, i)), 0);
+  const playersByRound = new Map<number, Set<string>>();
+
+  games.forEach((game, i) => {
+    const round = roundOf(game, i);
+    if (!playersByRound.has(round)) playersByRound.set(round, new Set());
+    [...game.teamA, ...game.teamB].forEach((id) => {
+      gamesPlayed.set(id, (gamesPlayed.get(id) || 0) + 1);
+      playersByRound.get(round)!.add(id);
+    });
+    if (gameMode === "doubles") {
+      [game.teamA, game.teamB].forEach((team) => {
+        if (team.length === 2) {
+          const key = pairKey(team[0], team[1]);
+          partnerCount.set(key, (partnerCount.get(key) || 0) + 1);
+        }
+      });
+    }
+    game.teamA.forEach((a) => game.teamB.forEach((b) => {
+      const key = pairKey(a, b);
+      opponentCount.set(key, (opponentCount.get(key) || 0) + 1);
+    }));
+  });
+
+  let maxSitOutsInARow = 0;
+  playerIds.forEach((id) => {
+    let run = 0;
+    for (let round = 1; round <= rounds; round++) {
+      run = playersByRound.get(round)?.has(id) ? 0 : run + 1;
+      maxSitOutsInARow = Math.max(maxSitOutsInARow, run);
+    }
+  });
+
+  const counts = playerIds.map((id) => gamesPlayed.get(id) || 0);
+  const totalPairs = (playerIds.length * (playerIds.length - 1)) / 2;
+
+  return {
+    rounds,
+    minGamesPerPlayer: counts.length > 0 ? Math.min(...counts) : 0,
+    maxGamesPerPlayer: counts.length > 0 ? Math.max(...counts) : 0,
+    maxSitOutsInARow,
+    partnerRepeats: Array.from(partnerCount.values()).reduce((sum, n) => sum + Math.max(0, n - 1), 0),
+    unplayedPartnerships: gameMode === "doubles" ? totalPairs - partnerCount.size : 0,
+    maxTimesFacingSameOpponent: Math.max(0, ...Array.from(opponentCount.values())),
+  };
+}
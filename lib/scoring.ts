@@ -0,0 +1,237 @@
+import { Game, GameSet, ScoringRuleName } from "@/types";
+
+/**
+ * Badminton rally-point scoring rules
+ *
+ * Every rally scores a point. A game is won by the first side to reach the target with a
+ * 2-point lead; from target-1 all it carries on until someone leads by 2, and the cap
+ * point always wins (29-all → 30-29 in a standard game). Shared by the game form, the
+ * games API and the session page, which flags older games that break the session's rule.
+ *
+ * A match is recorded as one game with its set scores: every set follows the rule, and the
+ * game's scores are the points won across the match. The rule says how many sets win a
+ * match - best of three, or best of five for 11x5.
+ */
+
+export interface ScoringRule {
+  label: string;
+  shortLabel: string;
+  pointsToWin: number;
+  cap: number; // Score that wins outright, with no 2-point lead needed
+  setsToWin: number; // Sets that win a match: 2 for best of three, 3 for best of five
+}
+
+export const SCORING_RULES: Record<ScoringRuleName, ScoringRule> = {
+  rally_21: { label: "21 points (cap 30)", shortLabel: "21 points", pointsToWin: 21, cap: 30, setsToWin: 2 },
+  rally_15: { label: "15 points (cap 21)", shortLabel: "15 points", pointsToWin: 15, cap: 21, setsToWin: 2 },
+  rally_11: { label: "11 points (cap 15)", shortLabel: "11 points", pointsToWin: 11, cap: 15, setsToWin: 2 },
+  rally_11x5: { label: "11 points, best of 5 (cap 15)", shortLabel: "11x5", pointsToWin: 11, cap: 15, setsToWin: 3 },
+};
+
+export const SCORING_RULE_NAMES = Object.keys(SCORING_RULES) as ScoringRuleName[];
+
+export const DEFAULT_SCORING_RULE: ScoringRuleName = "rally_21";
+
+function isScore(value: number | null | undefined): value is number {
+  return typeof value === "number" && !isNaN(value);
+}
+
+export function isScoringRuleName(value: unknown): value is ScoringRuleName {
+  return typeof value === "string" && value in SCORING_RULES;
+}
+
+/**
+ * Validate a session's scoring rule (unset means the default)
+ * Returns an error message, or null if the rule is usable
+ */
+export function validateScoringRule(name: unknown): string | null {
+  if (name === undefined || name === null || isScoringRuleName(name)) {
+    return null;
+  }
+  return `Scoring rule must be one of ${SCORING_RULE_NAMES.map((rule) => `'${rule}'`).join(", ")}`;
+}
+
+/**
+ * Most sets a match can go to under a rule - 3 when 2 sets win it, 5 when 3 do
+ */
+export function getMatchMaxSets(rule: ScoringRule): number {
+  return rule.setsToWin * 2 - 1;
+}
+
+/**
+ * The rule a session plays to, falling back to standard 21-point games for older sessions
+ */
+export function getScoringRule(name?: ScoringRuleName | null): ScoringRule {
+  return SCORING_RULES[name && isScoringRuleName(name) ? name : DEFAULT_SCORING_RULE];
+}
+
+/**
+ * Check a final score against a rule
+ * Returns why the score can't happen, or null if it's a finished game
+ */
+export function validateGameScore(rule: ScoringRule, teamAScore: number, teamBScore: number): string | null {
+  if (![teamAScore, teamBScore].every((score) => Number.isInteger(score) && score >= 0)) {
+    return "Scores must be whole numbers";
+  }
+
+  const winner = Math.max(teamAScore, teamBScore);
+  const loser = Math.min(teamAScore, teamBScore);
+  const deuce = rule.pointsToWin - 1;
+
+  if (winner === loser) {
+    return "A game can't end level";
+  }
+  if (winner > rule.cap) {
+    return `Games end at ${rule.cap} points`;
+  }
+  if (winner < rule.pointsToWin) {
+    return `The winner needs at least ${rule.pointsToWin} points`;
+  }
+  if (winner === rule.cap) {
+    // From deuce-all the cap point wins even with a 1-point lead
+    return loser >= rule.cap - 2
+      ? null
+      : `${winner}-${loser} can't happen - past ${deuce}-all the game ends 2 points clear or at ${rule.cap}`;
+  }
+  if (winner === rule.pointsToWin) {
+    return loser <= rule.pointsToWin - 2
+      ? null
+      : `${winner}-${loser} isn't finished - games are won by 2 clear points`;
+  }
+  return winner - loser === 2
+    ? null
+    : `${winner}-${loser} can't happen - past ${deuce}-all the game ends as soon as a side leads by 2`;
+}
+
+/**
+ * The side with more points, or null for a level, missing or unreadable score
+ */
+export function inferWinningTeam(teamAScore?: number | null, teamBScore?: number | null): "A" | "B" | null {
+  if (!isScore(teamAScore) || !isScore(teamBScore) || teamAScore === teamBScore) {
+    return null;
+  }
+  return teamAScore > teamBScore ? "A" : "B";
+}
+
+/**
+ * Sets won by each side of a match
+ */
+export function countSetsWon(sets: GameSet[]): { teamA: number; teamB: number } {
+  return {
+    teamA: sets.filter((set) => set.teamAScore > set.teamBScore).length,
+    teamB: sets.filter((set) => set.teamBScore > set.teamAScore).length,
+  };
+}
+
+/**
+ * A played game's score from the winner's side - "21-15", or each set of a match ("21-15, 18-21, 21-17")
+ * Null when no score was recorded
+ */
+export function formatGameScore(game: Pick<Game, "winningTeam" | "teamAScore" | "teamBScore" | "sets">): string | null {
+  const fromWinner = (teamAScore: number, teamBScore: number) =>
+    game.winningTeam === "B" ? `${teamBScore}-${teamAScore}` : `${teamAScore}-${teamBScore}`;
+
+  if (game.sets && game.sets.length > 0) {
+    return game.sets.map((set) => fromWinner(set.teamAScore, set.teamBScore)).join(", ");
+  }
+  if (typeof game.teamAScore !== "number" || typeof game.teamBScore !== "number") {
+    return null;
+  }
+  return fromWinner(game.teamAScore, game.teamBScore);
+}
+
+/**
+ * Work out a match from its set scores
+ * Every set must follow the rule, and the match ends as soon as a side has won the rule's
+ * setsToWin sets. Returns the winner and the points each side won across the match.
+ */
+export function resolveMatchResult(
+  rule: ScoringRule,
+  sets: GameSet[]
+): { winningTeam: "A" | "B"; teamAScore: number; teamBScore: number } | { error: string } {
+  const maxSets = getMatchMaxSets(rule);
+  if (!Array.isArray(sets) || sets.length < rule.setsToWin || sets.length > maxSets) {
+    return { error: `A best-of-${maxSets} match has ${rule.setsToWin} to ${maxSets} sets` };
+  }
+
+  const won = { A: 0, B: 0 };
+  let teamAScore = 0;
+  let teamBScore = 0;
+  for (let i = 0; i < sets.length; i++) {
+    if (won.A === rule.setsToWin || won.B === rule.setsToWin) {
+      return { error: `The match was over after set ${i}` };
+    }
+    const set = sets[i];
+    const setError = set ? validateGameScore(rule, set.teamAScore, set.teamBScore) : "Scores must be whole numbers";
+    if (setError) {
+      return { error: `Set ${i + 1}: ${setError}` };
+    }
+    won[set.teamAScore > set.teamBScore ? "A" : "B"]++;
+    teamAScore += set.teamAScore;
+    teamBScore += set.teamBScore;
+  }
+
+  if (won.A < rule.setsToWin && won.B < rule.setsToWin) {
+    return { error: `It's ${won.A}-${won.B} in sets - add the next set` };
+  }
+  return { winningTeam: won.A > won.B ? "A" : "B", teamAScore, teamBScore };
+}
+
+/**
+ * Work out a game's result from what was entered
+ * Scores are optional, but when given they must both be there, follow the rule, and agree
+ * with the chosen winner - the winner is taken from them if none was chosen.
+ * With set scores it's a match, and its scores become the match totals.
+ */
+export function resolveGameResult(
+  rule: ScoringRule,
+  result: Pick<Game, "winningTeam" | "sets"> & { teamAScore?: number | null; teamBScore?: number | null }
+): { winningTeam: "A" | "B" | null; teamAScore?: number; teamBScore?: number } | { error: string } {
+  if (result.sets && result.sets.length > 0) {
+    const match = resolveMatchResult(rule, result.sets);
+    if ("error" in match) {
+      return match;
+    }
+    if (result.winningTeam && result.winningTeam !== match.winningTeam) {
+      return { error: `The sets say team ${match.winningTeam} won` };
+    }
+    return match;
+  }
+
+  const hasScoreA = typeof result.teamAScore === "number";
+  const hasScoreB = typeof result.teamBScore === "number";
+
+  if (!hasScoreA && !hasScoreB) {
+    return { winningTeam: result.winningTeam ?? null };
+  }
+  if (!hasScoreA || !hasScoreB) {
+    return { error: "Enter both scores, or neither" };
+  }
+
+  const scoreError = validateGameScore(rule, result.teamAScore!, result.teamBScore!);
+  if (scoreError) {
+    return { error: scoreError };
+  }
+
+  const winningTeam = inferWinningTeam(result.teamAScore, result.teamBScore);
+  if (result.winningTeam && result.winningTeam !== winningTeam) {
+    return { error: `The scores say team ${winningTeam} won` };
+  }
+  return { winningTeam };
+}
+
+/**
+ * Why a recorded game breaks its session's rule, or null if it's fine
+ * Games recorded before scores were checked can have impossible scores or the wrong winner;
+ * games without both scores can't be checked
+ */
+export function findScoringIssue(rule: ScoringRule, game: Game): string | null {
+  if (game.winningTeam === null) {
+    return null;
+  }
+  if (!game.sets?.length && (typeof game.teamAScore !== "number" || typeof game.teamBScore !== "number")) {
+    return null;
+  }
+  const resolved = resolveGameResult(rule, game);
+  return "error" in resolved ? resolved.error : null;
+}
@@ -0,0 +1,157 @@
+import { Season, SeasonInput, SeasonRatingMode, StatsWindowQuery } from "@/types";
+
+/**
+ * Seasons: named date ranges a group's stats can be limited to
+ *
+ * Dates are calendar days (YYYY-MM-DD) in UTC, and both ends are inclusive. A session
+ * belongs to the season its date falls in, so all of a session's games count together.
+ * Shared by the API (validation, query parsing) and the group page (labels, "this season").
+ */
+
+export const SEASON_RATING_MODES: SeasonRatingMode[] = ["carry_over", "reset"];
+
+export const SEASON_RATING_MODE_LABELS: Record<SeasonRatingMode, string> = {
+  carry_over: "Carry over ratings",
+  reset: "Reset ratings",
+};
+
+const MAX_SEASON_NAME_LENGTH = 100;
+
+/**
+ * A real calendar day in YYYY-MM-DD form (rejects 2025-02-30)
+ */
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Today's date in UTC, YYYY-MM-DD
+ */
+export function getTodayDateString(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Start of a day as an ISO timestamp; with dayAfter, the start of the following day
+ * (so "to 2025-03-31" covers everything before 2025-04-01T00:00Z)
+ */
+export function toWindowBoundary(date: string, dayAfter = false): string {
+  const boundary = new Date(`${date}T00:00:00.000Z`);
+  if (dayAfter) boundary.setUTCDate(boundary.getUTCDate() + 1);
+  return boundary.toISOString();
+}
+
+/**
+ * Is the season running on the given day?
+ */
+export function isSeasonActive(season: Pick<Season, "startDate" | "endDate">, today: string = getTodayDateString()): boolean {
+  return season.startDate <= today && (season.endDate === null || season.endDate >= today);
+}
+
+/**
+ * Has the season's last day passed?
+ */
+export function hasSeasonEnded(season: Pick<Season, "endDate">, today: string = getTodayDateString()): boolean {
+  return season.endDate !== null && season.endDate < today;
+}
+
+/**
+ * Do two seasons share at least one day? Open-ended seasons run forever
+ */
+export function seasonsOverlap(
+  a: Pick<Season, "startDate" | "endDate">,
+  b: Pick<Season, "startDate" | "endDate">
+): boolean {
+  return (b.endDate === null || a.startDate <= b.endDate) && (a.endDate === null || b.startDate <= a.endDate);
+}
+
+/**
+ * "Mar 1 – May 31, 2025", "Mar 1, 2025 onwards"
+ */
+export function formatSeasonDates(season: Pick<Season, "startDate" | "endDate">): string {
+  const format = (date: string, withYear: boolean) =>
+    new Date(`${date}T00:00:00.000Z`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      ...(withYear ? { year: "numeric" } : {}),
+      timeZone: "UTC",
+    });
+
+  if (season.endDate === null) {
+    return `${format(season.startDate, true)} onwards`;
+  }
+  const sameYear = season.startDate.slice(0, 4) === season.endDate.slice(0, 4);
+  return `${format(season.startDate, !sameYear)} – ${format(season.endDate, true)}`;
+}
+
+/**
+ * Validate a season create/update body
+ * Returns an error message, or null if the season is usable
+ */
+export function validateSeasonInput(input: Partial<SeasonInput> | undefined): string | null {
+  if (!input) {
+    return "Season details are required";
+  }
+
+  const { name, startDate, endDate, ratingMode } = input;
+
+  if (typeof name !== "string" || name.trim().length === 0) {
+    return "Season name is required";
+  }
+  if (name.trim().length > MAX_SEASON_NAME_LENGTH) {
+    return `Season name must be ${MAX_SEASON_NAME_LENGTH} characters or less`;
+  }
+  if (!isValidDateString(startDate)) {
+    return "Start date must be a date (YYYY-MM-DD)";
+  }
+  if (endDate !== null && endDate !== undefined && !isValidDateString(endDate)) {
+    return "End date must be a date (YYYY-MM-DD) or empty";
+  }
+  if (endDate && endDate < startDate) {
+    return "End date can't be before the start date";
+  }
+  if (!SEASON_RATING_MODES.includes(ratingMode as SeasonRatingMode)) {
+    return "Rating rule must be 'carry_over' or 'reset'";
+  }
+
+  return null;
+}
+
+/**
+ * Read ?season= or ?from=&to= from a stats request
+ * Returns the query (empty for all time), or an error message
+ */
+export function parseStatsWindowQuery(searchParams: URLSearchParams): StatsWindowQuery | string {
+  const season = searchParams.get("season") || undefined;
+  const from = searchParams.get("from") || undefined;
+  const to = searchParams.get("to") || undefined;
+
+  if (season && (from || to)) {
+    return "Use either season or from/to, not both";
+  }
+  if (from !== undefined && !isValidDateString(from)) {
+    return "from must be a date (YYYY-MM-DD)";
+  }
+  if (to !== undefined && !isValidDateString(to)) {
+    return "to must be a date (YYYY-MM-DD)";
+  }
+  if (from && to && to < from) {
+    return "to can't be before from";
+  }
+
+  return { season, from, to };
+}
+
+/**
+ * Query string for a stats window ("" for all time)
+ */
+export function toStatsWindowSearch(query?: StatsWindowQuery): string {
+  const params = new URLSearchParams();
+  if (query?.season) params.set("season", query.season);
+  if (query?.from) params.set("from", query.from);
+  if (query?.to) params.set("to", query.to);
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
@@ -0,0 +1,661 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { DatabaseRow, getDatabase, runInTransaction } from '@/lib/db';
+import { AuditAction, AuditActor, AuditEntityType, AuditEntry, GameSet } from '@/types';
+import { StatsRebuildService } from './statsRebuildService';
+
+// One change to record - before/after are database rows (sessions also carry their players,
+// and a deleted session its games, so a revert can put everything back)
+export interface AuditChange {
+  groupId: string | null;
+  sessionId?: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  summary: string;
+  before: DatabaseRow | null;
+  after: DatabaseRow | null;
+  revertsAuditId?: string;
+}
+
+// Outcome of AuditService.revertChange - the revert route maps these to 404/400/409
+export type RevertResult =
+  | 'reverted'
+  | 'not_found'
+  | 'not_revertable'
+  | 'already_reverted'
+  | 'changed_since'
+  | 'in_tournament';
+
+// What a revert compares and restores for each kind of change. Other columns (ratings, records)
+// are derived from the games and rebuilt afterwards. Admin PIN changes can't be reverted
+const REVERTABLE: Partial<Record<AuditEntityType, { table: string; columns: string[] }>> = {
+  game: {
+    table: 'games',
+    columns: ['game_number', 'team_a', 'team_b', 'winning_team', 'team_a_score', 'team_b_score', 'sets', 'rallies'],
+  },
+  session: {
+    table: 'sessions',
+    columns: [
+      'name',
+      'date',
+      'court_cost_type',
+      'court_cost_value',
+      'bird_cost_total',
+      'bet_per_player',
+      'game_mode',
+      'betting_enabled',
+      'expenses',
+      'cost_split_mode',
+      'currency',
+      'currency_locale',
+    ],
+  },
+  group_player: {
+    table: 'group_players',
+    columns: ['name', 'is_active'],
+  },
+  group_settings: {
+    table: 'groups',
+    columns: [
+      'rating_engine',
+      'elo_k_factor',
+      'elo_starting_rating',
+      'elo_rating_floor',
+      'elo_margin_of_victory',
+      'currency',
+      'currency_locale',
+    ],
+  },
+};
+
+const SETTING_LABELS: Record<string, string> = {
+  rating_engine: 'rating engine',
+  elo_k_factor: 'K-factor',
+  elo_starting_rating: 'starting rating',
+  elo_rating_floor: 'rating floor',
+  elo_margin_of_victory: 'margin of victory',
+  currency: 'currency',
+  currency_locale: 'currency format',
+};
+
+// Who is making changes in the current request - set by withAuditActor() in lib/audit.ts
+const actorScope = new AsyncLocalStorage<AuditActor>();
+
+/**
+ * Compare column values the way they came back from the database (dates, JSON, numbers)
+ */
+function sameColumns(a: DatabaseRow, b: DatabaseRow, columns: string[]): boolean {
+  return columns.every((column) => JSON.stringify(a[column] ?? null) === JSON.stringify(b[column] ?? null));
+}
+
+function pick(row: DatabaseRow, columns: string[]): DatabaseRow {
+  const picked: DatabaseRow = {};
+  columns.forEach((column) => {
+    picked[column] = row[column] ?? null;
+  });
+  return picked;
+}
+
+function parseTeam(value: unknown): string[] {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+}
+
+function parseSets(value: unknown): GameSet[] {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Service layer for the audit log: an append-only record of every change to games, sessions,
+ * group players and group settings, with before/after snapshots and who made the change
+ * Services call the record helpers inside the same transaction as the change itself
+ */
+export class AuditService {
+  /**
+   * Run fn with every change it records attributed to actor
+   */
+  static runAs<T>(actor: AuditActor, fn: () => Promise<T>): Promise<T> {
+    return actorScope.run(actor, fn);
+  }
+
+  /**
+   * Append an entry to the log
+   * Throws on failure so the surrounding transaction rolls back with the change
+   */
+  static async record(change: AuditChange): Promise<string> {
+    const db = getDatabase();
+    const actor = actorScope.getStore() || {};
+    const id = `audit-${randomUUID()}`;
+
+    const { error } = await db
+      .from('audit_log')
+      .insert({
+        id,
+        group_id: change.groupId,
+        session_id: change.sessionId ?? null,
+        entity_type: change.entityType,
+        entity_id: change.entityId,
+        action: change.action,
+        summary: change.summary,
+        before_data: change.before,
+        after_data: change.after,
+        actor_user_id: actor.userId ?? null,
+        actor_device_id: actor.deviceId ?? null,
+        actor_device_label: actor.deviceLabel ?? null,
+        reverts_audit_id: change.revertsAuditId ?? null,
+      });
+
+    if (error) {
+      throw error;
+    }
+    return id;
+  }
+
+  /**
+   * Record a game being created, edited or deleted
+   * Player names are looked up now so the summary still reads well after the session is gone
+   */
+  static async recordGameChange(
+    sessionId: string,
+    action: AuditAction,
+    before: DatabaseRow | null,
+    after: DatabaseRow | null
+  ): Promise<void> {
+    const db = getDatabase();
+
+    const [{ data: session, error: sessionError }, { data: players, error: playersError }] = await Promise.all([
+      db.from('sessions').select('group_id').eq('id', sessionId).maybeSingle(),
+      db.from('players').select('id, name').eq('session_id', sessionId),
+    ]);
+    if (sessionError) throw sessionError;
+    if (playersError) throw playersError;
+
+    const names = new Map<string, string>((players || []).map((p: DatabaseRow) => [p.id, p.name]));
+    const game = (after || before)!;
+    const summary =
+      action === 'create'
+        ? `Game ${game.game_number} recorded: ${this.describeGame(after!, names)}`
+        : action === 'delete'
+          ? `Game ${game.game_number} deleted: ${this.describeGame(before!, names)}`
+          : `Game ${game.game_number} changed: ${this.describeGame(before!, names)} → ${this.describeGame(after!, names)}`;
+
+    await this.record({
+      groupId: session?.group_id ?? null,
+      sessionId,
+      entityType: 'game',
+      entityId: game.id,
+      action,
+      summary,
+      before,
+      after,
+    });
+  }
+
+  /**
+   * Record a session being created, edited or deleted
+   * Snapshots carry the session's players (and, for a delete, its games) - see snapshotSession()
+   * Saving a session without changing anything records nothing
+   */
+  static async recordSessionChange(
+    action: AuditAction,
+    before: DatabaseRow | null,
+    after: DatabaseRow | null
+  ): Promise<void> {
+    if (action === 'update' && before && after) {
+      const playerColumns = ['id', 'name', 'group_player_id', 'attendance_weight'];
+      const players = (row: DatabaseRow) =>
+        JSON.stringify(
+          (row.players || [])
+            .map((p: DatabaseRow) => pick(p, playerColumns))
+            .sort((a: DatabaseRow, b: DatabaseRow) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        );
+      if (sameColumns(before, after, REVERTABLE.session!.columns) && players(before) === players(after)) {
+        return;
+      }
+    }
+
+    const session = (after || before)!;
+    const label = this.describeSession(session);
+    const playerCount = (after?.players || []).length;
+    const gameCount = (before?.games || []).length;
+    const summary =
+      action === 'create'
+        ? `Session ${label} created with ${playerCount} player${playerCount !== 1 ? 's' : ''}`
+        : action === 'delete'
+          ? `Session ${label} deleted (${gameCount} game${gameCount !== 1 ? 's' : ''})`
+          : `Session ${label} edited`;
+
+    await this.record({
+      groupId: session.group_id ?? null,
+      sessionId: session.id,
+      entityType: 'session',
+      entityId: session.id,
+      action,
+      summary,
+      before,
+      after,
+    });
+  }
+
+  /**
+   * Record a group player being added, removed (soft-deleted) or re-added
+   */
+  static async recordGroupPlayerChange(before: DatabaseRow | null, after: DatabaseRow): Promise<void> {
+    const summary = !before
+      ? `Added player ${after.name}`
+      : before.is_active && !after.is_active
+        ? `Removed player ${after.name}`
+        : !before.is_active && after.is_active
+          ? `Re-added player ${after.name}`
+          : `Player ${before.name} renamed to ${after.name}`;
+
+    await this.record({
+      groupId: after.group_id,
+      entityType: 'group_player',
+      entityId: after.id,
+      action: before ? 'update' : 'create',
+      summary,
+      before,
+      after,
+    });
+  }
+
+  /**
+   * Record a change to a group's rating or currency settings (no entry if nothing changed)
+   */
+  static async recordGroupSettingsChange(before: DatabaseRow, after: DatabaseRow): Promise<void> {
+    const changes = REVERTABLE.group_settings!.columns
+      .filter((column) => JSON.stringify(before[column] ?? null) !== JSON.stringify(after[column] ?? null))
+      .map((column) => `${SETTING_LABELS[column]} ${before[column]} → ${after[column]}`);
+    if (changes.length === 0) {
+      return;
+    }
+
+    await this.record({
+      groupId: after.id,
+      entityType: 'group_settings',
+      entityId: after.id,
+      action: 'update',
+      summary: `Settings changed: ${changes.join(', ')}`,
+      before: pick(before, REVERTABLE.group_settings!.columns),
+      after: pick(after, REVERTABLE.group_settings!.columns),
+    });
+  }
+
+  /**
+   * Record an admin PIN being set or changed - only whether there was one, never the hash
+   */
+  static async recordAdminPinChange(groupId: string, hadPin: boolean): Promise<void> {
+    await this.record({
+      groupId,
+      entityType: 'admin_pin',
+      entityId: groupId,
+      action: hadPin ? 'update' : 'create',
+      summary: hadPin ? 'Admin PIN changed' : 'Admin PIN set',
+      before: hadPin ? { has_admin_pin: true } : null,
+      after: { has_admin_pin: true },
+    });
+  }
+
+  /**
+   * Get a group's change history, newest first
+   * before (an ISO timestamp) pages back through older entries
+   */
+  static async getGroupHistory(
+    groupId: string,
+    options: { limit?: number; before?: string } = {}
+  ): Promise<AuditEntry[]> {
+    try {
+      const db = getDatabase();
+
+      let query = db
+        .from('audit_log')
+        .select('*')
+        .eq('group_id', groupId);
+      if (options.before) {
+        query = query.lt('created_at', options.before);
+      }
+      const { data: rows, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 50);
+
+      if (error) throw error;
+      if (!rows || rows.length === 0) return [];
+
+      const ids = rows.map((row: DatabaseRow) => row.id);
+      const userIds = Array.from(new Set(rows.map((row: DatabaseRow) => row.actor_user_id).filter(Boolean))) as string[];
+
+      const [{ data: reverts, error: revertsError }, { data: users, error: usersError }] = await Promise.all([
+        db.from('audit_log').select('id, reverts_audit_id').in('reverts_audit_id', ids),
+        userIds.length > 0
+          ? db.from('users').select('id, email').in('id', userIds)
+          : Promise.resolve({ data: [] as DatabaseRow[], error: null }),
+      ]);
+      if (revertsError) throw revertsError;
+      if (usersError) throw usersError;
+
+      const revertedBy = new Map<string, string>((reverts || []).map((r: DatabaseRow) => [r.reverts_audit_id, r.id]));
+      const emails = new Map<string, string>((users || []).map((u: DatabaseRow) => [u.id, u.email]));
+
+      return rows.map((row: DatabaseRow) => this.mapRowToEntry(row, revertedBy.get(row.id), emails));
+    } catch (error) {
+      console.error('[AuditService] Error fetching group history:', error);
+      throw new Error('Failed to fetch group history');
+    }
+  }
+
+  /**
+   * Undo one change from a group's history, then rebuild the group's derived stats
+   * Only goes ahead while the thing it changed still looks the way the change left it -
+   * otherwise later changes would be silently lost, so those have to be reverted first
+   * The revert is itself logged (with revertsAuditId), so it can be undone the same way
+   */
+  static async revertChange(groupId: string, auditId: string): Promise<{ result: RevertResult; entry?: AuditEntry }> {
+    try {
+      return await runInTransaction(async () => {
+        const db = getDatabase();
+
+        const { data: row, error } = await db
+          .from('audit_log')
+          .select('*')
+          .eq('id', auditId)
+          .eq('group_id', groupId)
+          .maybeSingle();
+        if (error) throw error;
+        if (!row) return { result: 'not_found' as const };
+
+        const config = REVERTABLE[row.entity_type as AuditEntityType];
+        if (!config) return { result: 'not_revertable' as const };
+
+        const { data: existingRevert, error: revertError } = await db
+          .from('audit_log')
+          .select('id')
+          .eq('reverts_audit_id', auditId)
+          .limit(1);
+        if (revertError) throw revertError;
+        if (existingRevert && existingRevert.length > 0) return { result: 'already_reverted' as const };
+
+        // A tournament's games move its bracket on (GameService) - a revert written straight to
+        // the games table would leave the bracket out of step, so those go through the session page
+        if (row.entity_type === 'game' && (await this.isTournamentSession(row.session_id))) {
+          return { result: 'in_tournament' as const };
+        }
+
+        const restored = await this.restore(row, config);
+        if (!restored) return { result: 'changed_since' as const };
+
+        const revertId = await this.record({
+          groupId,
+          sessionId: row.session_id,
+          entityType: row.entity_type,
+          entityId: row.entity_id,
+          action: restored.action,
+          summary: `Reverted: ${row.summary}`,
+          before: restored.before,
+          after: restored.after,
+          revertsAuditId: auditId,
+        });
+
+        // Every rating and record depends on the games in order, so replay the whole group
+        if (row.entity_type !== 'group_player') {
+          await StatsRebuildService.rebuildGroupStats(groupId);
+        }
+
+        const { data: revertRow, error: revertRowError } = await db
+          .from('audit_log')
+          .select('*')
+          .eq('id', revertId)
+          .single();
+        if (revertRowError) throw revertRowError;
+
+        return { result: 'reverted' as const, entry: this.mapRowToEntry(revertRow, undefined, new Map()) };
+      }, { lockKey: `group:${groupId}` });
+    } catch (error) {
+      console.error('[AuditService] Error reverting change:', error);
+      throw new Error('Failed to revert change');
+    }
+  }
+
+  /**
+   * Put an entity back the way it was before a logged change
+   * Returns the revert's own before/after, or null if the entity has changed since
+   */
+  private static async restore(
+    row: DatabaseRow,
+    config: { table: string; columns: string[] }
+  ): Promise<{ action: AuditAction; before: DatabaseRow | null; after: DatabaseRow | null } | null> {
+    const db = getDatabase();
+    const entityType = row.entity_type as AuditEntityType;
+    const loggedBefore: DatabaseRow | null = row.before_data;
+    const loggedAfter: DatabaseRow | null = row.after_data;
+
+    const current = await this.readEntity(entityType, row.entity_id);
+
+    if (row.action === 'delete') {
+      if (current || !loggedBefore) return null;
+      if (!(await this.insertSnapshot(entityType, loggedBefore))) return null;
+      return { action: 'create', before: null, after: await this.readEntity(entityType, row.entity_id) };
+    }
+
+    if (!current || !loggedAfter || !sameColumns(current, loggedAfter, config.columns)) {
+      return null;
+    }
+
+    if (row.action === 'create') {
+      if (entityType === 'group_player') {
+        // Players are never hard-deleted - their games still point at them
+        await this.updateEntity(config.table, row.entity_id, { is_active: false });
+        return { action: 'update', before: current, after: await this.readEntity(entityType, row.entity_id) };
+      }
+      if (entityType === 'session' && (current.games || []).some((g: DatabaseRow) => g.winning_team)) {
+        // Results were recorded in it since - those have to be reverted first
+        return null;
+      }
+      const { error } = await db.from(config.table).delete().eq('id', row.entity_id);
+      if (error) throw error;
+      return { action: 'delete', before: current, after: null };
+    }
+
+    // update: put the logged columns back
+    const patch = pick(loggedBefore || {}, config.columns);
+    if (entityType === 'game') {
+      patch.updated_at = new Date().toISOString();
+    }
+    await this.updateEntity(config.table, row.entity_id, patch);
+    if (entityType === 'session' && loggedBefore?.players?.length) {
+      const { error } = await db
+        .from('players')
+        .upsert(
+          loggedBefore.players.map((p: DatabaseRow) => pick(p, ['id', 'session_id', 'name', 'group_player_id', 'attendance_weight'])),
+          { onConflict: 'id' }
+        );
+      if (error) throw error;
+    }
+    return { action: 'update', before: current, after: await this.readEntity(entityType, row.entity_id) };
+  }
+
+  private static async isTournamentSession(sessionId: string | null): Promise<boolean> {
+    if (!sessionId) return false;
+    const { data, error } = await getDatabase()
+      .from('sessions')
+      .select('tournament')
+      .eq('id', sessionId)
+      .maybeSingle();
+    if (error) throw error;
+    return !!data?.tournament;
+  }
+
+  /**
+   * Current state of an entity in the same shape the log stores it (null if it doesn't exist)
+   */
+  private static async readEntity(entityType: AuditEntityType, entityId: string): Promise<DatabaseRow | null> {
+    const db = getDatabase();
+    const table = REVERTABLE[entityType]!.table;
+
+    const { data, error } = await db.from(table).select('*').eq('id', entityId).maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    if (entityType === 'group_settings') {
+      return pick(data, REVERTABLE.group_settings!.columns);
+    }
+    if (entityType === 'session') {
+      return this.snapshotSession(data, { withGames: true });
+    }
+    return data;
+  }
+
+  /**
+   * A session row with its players (and games) attached, as sessions are logged
+   */
+  static async snapshotSession(session: DatabaseRow, options: { withGames?: boolean } = {}): Promise<DatabaseRow> {
+    const db = getDatabase();
+
+    const { data: players, error } = await db
+      .from('players')
+      .select('*')
+      .eq('session_id', session.id);
+    if (error) throw error;
+
+    const snapshot: DatabaseRow = { ...session, players: players || [] };
+    if (options.withGames) {
+      const { data: games, error: gamesError } = await db
+        .from('games')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('game_number', { ascending: true });
+      if (gamesError) throw gamesError;
+      snapshot.games = games || [];
+    }
+    return snapshot;
+  }
+
+  /**
+   * Re-insert a deleted game or session from its snapshot
+   * Returns false if something now in the way makes that impossible (the session is gone,
+   * or its game number has been reused)
+   */
+  private static async insertSnapshot(entityType: AuditEntityType, snapshot: DatabaseRow): Promise<boolean> {
+    const db = getDatabase();
+
+    if (entityType === 'game') {
+      const { data: session, error: sessionError } = await db
+        .from('sessions')
+        .select('id')
+        .eq('id', snapshot.session_id)
+        .maybeSingle();
+      if (sessionError) throw sessionError;
+
+      const { data: sameNumber, error: numberError } = await db
+        .from('games')
+        .select('id')
+        .eq('session_id', snapshot.session_id)
+        .eq('game_number', snapshot.game_number)
+        .limit(1);
+      if (numberError) throw numberError;
+      if (!session || (sameNumber && sameNumber.length > 0)) return false;
+
+      const { error } = await db.from('games').insert({ ...snapshot, updated_at: new Date().toISOString() });
+      if (error) throw error;
+      return true;
+    }
+
+    if (entityType === 'session') {
+      const { players, games, ...session } = snapshot;
+      const { error } = await db.from('sessions').insert(session);
+      if (error) throw error;
+      if (players?.length) {
+        const { error: playersError } = await db.from('players').insert(players);
+        if (playersError) throw playersError;
+      }
+      if (games?.length) {
+        const { error: gamesError } = await db.from('games').insert(games);
+        if (gamesError) throw gamesError;
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  private static async updateEntity(table: string, id: string, patch: DatabaseRow): Promise<void> {
+    const { error } = await getDatabase().from(table).update(patch).eq('id', id);
+    if (error) throw error;
+  }
+
+  /**
+   * "Alice & Bob beat Cara & Dan 21-15" ("... 21-15, 18-21, 21-17" for a match),
+   * or "... vs ... (no result)" for unplayed games
+   */
+  private static describeGame(row: DatabaseRow, names: Map<string, string>): string {
+    const team = (value: unknown) => parseTeam(value).map((id) => names.get(id) || 'Unknown').join(' & ');
+    const teamA = team(row.team_a);
+    const teamB = team(row.team_b);
+
+    if (!row.winning_team) {
+      return `${teamA} vs ${teamB} (no result)`;
+    }
+    const [winners, losers] = row.winning_team === 'A' ? [teamA, teamB] : [teamB, teamA];
+    const sets = parseSets(row.sets);
+    if (sets.length > 0) {
+      const setScores = sets.map((set) =>
+        row.winning_team === 'A' ? `${set.teamAScore}-${set.teamBScore}` : `${set.teamBScore}-${set.teamAScore}`
+      );
+      return `${winners} beat ${losers} ${setScores.join(', ')}`;
+    }
+    const [winnerScore, loserScore] =
+      row.winning_team === 'A' ? [row.team_a_score, row.team_b_score] : [row.team_b_score, row.team_a_score];
+    const score = winnerScore != null && loserScore != null ? ` ${winnerScore}-${loserScore}` : '';
+    return `${winners} beat ${losers}${score}`;
+  }
+
+  private static describeSession(row: DatabaseRow): string {
+    if (row.name) {
+      return `"${row.name}"`;
+    }
+    const date = row.date ? new Date(row.date) : null;
+    return date && !isNaN(date.getTime()) ? `of ${date.toISOString().slice(0, 10)}` : row.id;
+  }
+
+  /**
+   * Map database row to AuditEntry type
+   */
+  private static mapRowToEntry(row: DatabaseRow, revertedByAuditId: string | undefined, emails: Map<string, string>): AuditEntry {
+    const entityType = row.entity_type as AuditEntityType;
+    return {
+      id: row.id,
+      groupId: row.group_id || undefined,
+      sessionId: row.session_id || undefined,
+      entityType,
+      entityId: row.entity_id,
+      action: row.action,
+      summary: row.summary,
+      before: row.before_data ?? null,
+      after: row.after_data ?? null,
+      actor: {
+        userId: row.actor_user_id || undefined,
+        userEmail: row.actor_user_id ? emails.get(row.actor_user_id) : undefined,
+        deviceId: row.actor_device_id || undefined,
+        deviceLabel: row.actor_device_label || undefined,
+      },
+      revertsAuditId: row.reverts_audit_id || undefined,
+      revertedByAuditId,
+      canRevert: !revertedByAuditId && REVERTABLE[entityType] !== undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -1,25 +1,87 @@
-import { createSupabaseClient } from '@/lib/supabase';
+import { DatabaseRow, getDatabase } from '@/lib/db';
+import { EloHistoryEntry, GroupRatingSettings, RatingEngineName } from '@/types';
+import { PlayerRatingState, RatingEngine } from '@/lib/ratingEngine';
+import { calculateExpectedScore, calculateTeamRating } from '@/lib/elo';
+import { glicko2Engine, GLICKO2_DEFAULT_DEVIATION, GLICKO2_DEFAULT_VOLATILITY } from '@/lib/glicko2';
 import { PairingStatsService } from './pairingStatsService';
 
+/**
+ * Identifies the game a rating change belongs to, for ELO history rows
+ */
+export interface EloGameContext {
+  groupId: string;
+  gameId?: string;
+  recordedAt?: Date; // Defaults to now; recalculation passes the game's original timestamp
+  teamAScore?: number; // Used for the margin-of-victory multiplier when enabled
+  teamBScore?: number;
+  settings?: GroupRatingSettings; // Preloaded by recalculation to avoid a lookup per game
+}
+
+// A group player's win/loss record - streaks are positive for wins, negative for losses
+interface PlayerRecord {
+  wins: number;
+  losses: number;
+  currentStreak: number;
+  bestWinStreak: number;
+}
+
+const EMPTY_RECORD: PlayerRecord = { wins: 0, losses: 0, currentStreak: 0, bestWinStreak: 0 };
+
+// elo_history rows written per insert when a group is replayed
+const HISTORY_BATCH_SIZE = 500;
+
+/**
+ * A record after one more game
+ * A win continues a win streak (or starts one at 1), a loss continues a loss streak (or starts one at -1)
+ */
+function addResult(record: PlayerRecord, won: boolean): PlayerRecord {
+  const currentStreak = won
+    ? (record.currentStreak >= 0 ? record.currentStreak + 1 : 1)
+    : (record.currentStreak <= 0 ? record.currentStreak - 1 : -1);
+  return {
+    wins: won ? record.wins + 1 : record.wins,
+    losses: won ? record.losses : record.losses + 1,
+    currentStreak,
+    bestWinStreak: Math.max(record.bestWinStreak, currentStreak),
+  };
+}
+
+/**
+ * Rating settings used when a group hasn't customised them
+ */
+export const DEFAULT_RATING_SETTINGS: GroupRatingSettings = {
+  engine: 'elo',
+  kFactor: 64,
+  startingRating: 1500,
+  ratingFloor: 100,
+  marginOfVictory: false,
+};
+
 /**
  * ELO Rating Service
  * 
  * Implements the ELO rating system for badminton players.
- * - Starting rating: 1500
- * - K-factor: 64 (higher for faster skill differentiation in casual groups)
+ * Groups can switch to Glicko-2 instead (see lib/glicko2.ts) - the rating math is
+ * delegated to the group's RatingEngine, this service handles persistence and history.
+ *
+ * ELO engine:
+ * - Starting rating: 1500 (configurable per group)
+ * - K-factor: 64 (higher for faster skill differentiation in casual groups, configurable per group)
+ * - Rating floor: 100 (configurable per group)
+ * - Optional margin-of-victory multiplier: blowouts move ratings more than close games
  * - For doubles: team rating = average of both players' ELO
  * - Both teammates receive the same rating change
  */
 export class EloService {
-  private static readonly DEFAULT_ELO = 1500;
-  private static readonly K_FACTOR = 64;
+  private static readonly DEFAULT_ELO = DEFAULT_RATING_SETTINGS.startingRating;
+  private static readonly K_FACTOR = DEFAULT_RATING_SETTINGS.kFactor;
+  private static readonly RATING_FLOOR = DEFAULT_RATING_SETTINGS.ratingFloor;
 
   /**
-   * Calculate expected score (probability of winning)
-   * E = 1 / (1 + 10^((opponentRating - playerRating) / 400))
+   * Calculate expected score (probability of winning) - see lib/elo.ts
    */
   static calculateExpectedScore(playerRating: number, opponentRating: number): number {
-    return 1 / (1 + Math.pow(10, (opponentRating - playerRating) / 400));
+    return calculateExpectedScore(playerRating, opponentRating);
   }
 
   /**
@@ -30,35 +92,104 @@ export class EloService {
   static calculateNewRating(
     currentRating: number,
     opponentRating: number,
-    won: boolean
+    won: boolean,
+    kFactor: number = this.K_FACTOR,
+    ratingFloor: number = this.RATING_FLOOR
   ): number {
     const expectedScore = this.calculateExpectedScore(currentRating, opponentRating);
     const actualScore = won ? 1 : 0;
-    const newRating = Math.round(currentRating + this.K_FACTOR * (actualScore - expectedScore));
-    // Ensure rating doesn't go below 100
-    return Math.max(100, newRating);
+    const newRating = Math.round(currentRating + kFactor * (actualScore - expectedScore));
+    // Ensure rating doesn't go below the floor
+    return Math.max(ratingFloor, newRating);
+  }
+
+  /**
+   * Calculate the margin-of-victory multiplier applied to the K-factor
+   * multiplier = ln(margin + 1) / ln(3) * 2.2 / (ratingDiff * 0.001 + 2.2)
+   * - A win by 2 (the closest possible finish) gives 1.0, a 21-5 win gives ~2.6
+   * - ratingDiff is winner minus loser, so heavy favourites gain less from blowouts
+   *   (stops strong players from inflating their rating by running up the score)
+   * - Clamped to 0.5-3 so a single game can never swing ratings too far
+   */
+  static calculateMarginMultiplier(
+    winnerScore: number,
+    loserScore: number,
+    winnerRating: number,
+    loserRating: number
+  ): number {
+    const margin = Math.max(1, winnerScore - loserScore);
+    const marginFactor = Math.log(margin + 1) / Math.log(3);
+    const autocorrelation = 2.2 / ((winnerRating - loserRating) * 0.001 + 2.2);
+    return Math.min(3, Math.max(0.5, marginFactor * autocorrelation));
+  }
+
+  /**
+   * Get a group's rating settings
+   * Falls back to defaults if the group can't be read (e.g. settings columns not migrated yet)
+   */
+  static async getRatingSettings(groupId: string): Promise<GroupRatingSettings> {
+    const db = getDatabase();
+
+    const { data, error } = await db
+      .from('groups')
+      .select('rating_engine, elo_k_factor, elo_starting_rating, elo_rating_floor, elo_margin_of_victory')
+      .eq('id', groupId)
+      .single();
+
+    if (error || !data) {
+      if (error && error.code !== 'PGRST116') {
+        console.error('[EloService] Error fetching rating settings:', error);
+      }
+      return { ...DEFAULT_RATING_SETTINGS };
+    }
+
+    return {
+      engine: (data.rating_engine as RatingEngineName) ?? DEFAULT_RATING_SETTINGS.engine,
+      kFactor: data.elo_k_factor ?? DEFAULT_RATING_SETTINGS.kFactor,
+      startingRating: data.elo_starting_rating ?? DEFAULT_RATING_SETTINGS.startingRating,
+      ratingFloor: data.elo_rating_floor ?? DEFAULT_RATING_SETTINGS.ratingFloor,
+      marginOfVictory: data.elo_margin_of_victory ?? DEFAULT_RATING_SETTINGS.marginOfVictory,
+    };
+  }
+
+  /**
+   * Get the rating engine for a group's settings
+   */
+  static getRatingEngine(engine: RatingEngineName): RatingEngine {
+    return engine === 'glicko2' ? glicko2Engine : eloEngine;
+  }
+
+  /**
+   * Resolve the settings to use for a game: preloaded, looked up from the group, or defaults
+   */
+  private static async resolveSettings(context?: EloGameContext): Promise<GroupRatingSettings> {
+    if (context?.settings) return context.settings;
+    if (context?.groupId) return this.getRatingSettings(context.groupId);
+    return { ...DEFAULT_RATING_SETTINGS };
   }
 
   /**
    * Calculate team rating (average for doubles)
    */
   static calculateTeamRating(ratings: number[]): number {
-    if (ratings.length === 0) return this.DEFAULT_ELO;
-    return ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+    return calculateTeamRating(ratings);
   }
 
   /**
    * Get current ELO ratings for group players by their IDs
    */
-  static async getPlayerRatings(groupPlayerIds: string[]): Promise<Map<string, number>> {
-    const supabase = createSupabaseClient();
+  static async getPlayerRatings(
+    groupPlayerIds: string[],
+    startingRating: number = this.DEFAULT_ELO
+  ): Promise<Map<string, number>> {
+    const db = getDatabase();
     const ratings = new Map<string, number>();
 
     if (groupPlayerIds.length === 0) {
       return ratings;
     }
 
-    const { data, error } = await supabase
+    const { data, error } = await db
       .from('group_players')
       .select('id, elo_rating')
       .in('id', groupPlayerIds);
@@ -69,26 +200,65 @@ export class EloService {
     }
 
     (data || []).forEach((player) => {
-      ratings.set(player.id, player.elo_rating || this.DEFAULT_ELO);
+      ratings.set(player.id, player.elo_rating || startingRating);
     });
 
     // Set default rating for any missing players
     groupPlayerIds.forEach((id) => {
       if (!ratings.has(id)) {
-        ratings.set(id, this.DEFAULT_ELO);
+        ratings.set(id, startingRating);
       }
     });
 
     return ratings;
   }
 
+  /**
+   * Get the full rating state (rating, RD, volatility, last played) for group players
+   * Players without a row get the engine's initial state
+   */
+  private static async getPlayerRatingStates(
+    groupPlayerIds: string[],
+    initialState: PlayerRatingState
+  ): Promise<Map<string, PlayerRatingState>> {
+    const db = getDatabase();
+    const states = new Map<string, PlayerRatingState>();
+
+    const { data, error } = await db
+      .from('group_players')
+      .select('id, elo_rating, rating_deviation, rating_volatility, last_played_at')
+      .in('id', groupPlayerIds);
+
+    if (error) {
+      console.error('[EloService] Error fetching rating state:', error);
+      throw new Error('Failed to fetch player ratings');
+    }
+
+    (data || []).forEach((player) => {
+      states.set(player.id, {
+        rating: player.elo_rating || initialState.rating,
+        deviation: player.rating_deviation ?? initialState.deviation,
+        volatility: player.rating_volatility ?? initialState.volatility,
+        lastPlayedAt: player.last_played_at ? new Date(player.last_played_at) : undefined,
+      });
+    });
+
+    groupPlayerIds.forEach((id) => {
+      if (!states.has(id)) {
+        states.set(id, { ...initialState });
+      }
+    });
+
+    return states;
+  }
+
   /**
    * Update ELO ratings for a single player
    */
   static async updatePlayerRating(groupPlayerId: string, newRating: number): Promise<void> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
-    const { error } = await supabase
+    const { error } = await db
       .from('group_players')
       .update({ elo_rating: newRating })
       .eq('id', groupPlayerId);
@@ -103,18 +273,18 @@ export class EloService {
    * Update ELO ratings for multiple players
    */
   static async updatePlayerRatings(updates: { groupPlayerId: string; newRating: number }[]): Promise<void> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     // Batch update using upsert with conflict handling
     for (const update of updates) {
-      const { error } = await supabase
+      const { error } = await db
         .from('group_players')
         .update({ elo_rating: update.newRating })
         .eq('id', update.groupPlayerId);
 
       if (error) {
         console.error('[EloService] Error updating rating for', update.groupPlayerId, error);
-        // Continue with other updates even if one fails
+        throw new Error('Failed to update player ratings');
       }
     }
   }
@@ -126,12 +296,15 @@ export class EloService {
    * @param teamAGroupPlayerIds - Group player IDs for team A
    * @param teamBGroupPlayerIds - Group player IDs for team B
    * @param winningTeam - 'A' or 'B'
+   * @param context - When provided, the group's rating settings are applied and each
+   *                  rating change is written to elo_history
    * @returns Object with old and new ratings for each player
    */
   static async processGameResult(
     teamAGroupPlayerIds: string[],
     teamBGroupPlayerIds: string[],
-    winningTeam: 'A' | 'B'
+    winningTeam: 'A' | 'B',
+    context?: EloGameContext
   ): Promise<{
     updates: { groupPlayerId: string; oldRating: number; newRating: number; change: number }[];
   }> {
@@ -144,60 +317,115 @@ export class EloService {
       return { updates: [] };
     }
 
-    // Get current ratings
+    const settings = await this.resolveSettings(context);
+    const engine = this.getRatingEngine(settings.engine);
+
+    // Get current rating state and let the group's engine rate the game
     const allIds = [...validTeamA, ...validTeamB];
-    const currentRatings = await this.getPlayerRatings(allIds);
+    const currentStates = await this.getPlayerRatingStates(allIds, engine.initialState(settings));
+    const rated = engine.rateGame({
+      teamA: validTeamA.map(id => currentStates.get(id)!),
+      teamB: validTeamB.map(id => currentStates.get(id)!),
+      winningTeam,
+      teamAScore: context?.teamAScore,
+      teamBScore: context?.teamBScore,
+      playedAt: context?.recordedAt || new Date(),
+    }, settings);
+
+    const newStates = new Map<string, PlayerRatingState>();
+    validTeamA.forEach((id, i) => newStates.set(id, rated.teamA[i]));
+    validTeamB.forEach((id, i) => newStates.set(id, rated.teamB[i]));
+
+    const updates = allIds.map(id => {
+      const oldRating = currentStates.get(id)!.rating;
+      const newRating = newStates.get(id)!.rating;
+      return { groupPlayerId: id, oldRating, newRating, change: newRating - oldRating };
+    });
 
-    // Calculate team ratings
-    const teamARatings = validTeamA.map(id => currentRatings.get(id) || this.DEFAULT_ELO);
-    const teamBRatings = validTeamB.map(id => currentRatings.get(id) || this.DEFAULT_ELO);
-    
-    const teamARating = this.calculateTeamRating(teamARatings);
-    const teamBRating = this.calculateTeamRating(teamBRatings);
+    // Apply the rating updates and win/loss stats
+    await this.updatePlayerRatingsAndStats(allIds.map(id => {
+      const state = newStates.get(id)!;
+      return {
+        groupPlayerId: id,
+        newRating: state.rating,
+        ratingDeviation: state.deviation,
+        ratingVolatility: state.volatility,
+        lastPlayedAt: state.lastPlayedAt,
+      };
+    }), winningTeam, validTeamA, validTeamB);
+
+    if (context) {
+      await this.recordHistory(context, updates.map(u => ({
+        groupPlayerId: u.groupPlayerId,
+        oldRating: u.oldRating,
+        newRating: u.newRating,
+        reason: 'game' as const,
+      })));
+    }
 
-    const updates: { groupPlayerId: string; oldRating: number; newRating: number; change: number }[] = [];
+    return { updates };
+  }
 
-    // Calculate new ratings for team A
-    for (const playerId of validTeamA) {
-      const oldRating = currentRatings.get(playerId) || this.DEFAULT_ELO;
-      const won = winningTeam === 'A';
-      const newRating = this.calculateNewRating(teamARating, teamBRating, won);
-      // Adjust for individual - add the change to their personal rating
-      const ratingChange = newRating - teamARating;
-      const personalNewRating = Math.max(100, oldRating + ratingChange);
-      
-      updates.push({
-        groupPlayerId: playerId,
-        oldRating,
-        newRating: personalNewRating,
-        change: personalNewRating - oldRating,
-      });
-    }
+  /**
+   * Write rating changes to elo_history
+   * A failed write fails the game result too, so the timeline never misses a game
+   */
+  private static async recordHistory(
+    context: EloGameContext,
+    entries: { groupPlayerId: string; oldRating: number; newRating: number; reason: 'game' }[]
+  ): Promise<void> {
+    if (entries.length === 0) return;
+
+    const db = getDatabase();
+    const createdAt = (context.recordedAt || new Date()).toISOString();
+
+    const { error } = await db
+      .from('elo_history')
+      .insert(entries.map(e => ({
+        group_id: context.groupId,
+        group_player_id: e.groupPlayerId,
+        game_id: context.gameId || null,
+        old_rating: e.oldRating,
+        new_rating: e.newRating,
+        rating_change: e.newRating - e.oldRating,
+        reason: e.reason,
+        created_at: createdAt,
+      })));
 
-    // Calculate new ratings for team B
-    for (const playerId of validTeamB) {
-      const oldRating = currentRatings.get(playerId) || this.DEFAULT_ELO;
-      const won = winningTeam === 'B';
-      const newRating = this.calculateNewRating(teamBRating, teamARating, won);
-      // Adjust for individual - add the change to their personal rating
-      const ratingChange = newRating - teamBRating;
-      const personalNewRating = Math.max(100, oldRating + ratingChange);
-      
-      updates.push({
-        groupPlayerId: playerId,
-        oldRating,
-        newRating: personalNewRating,
-        change: personalNewRating - oldRating,
-      });
+    if (error) {
+      console.error('[EloService] Error recording ELO history:', error);
+      throw new Error('Failed to record ELO history');
     }
+  }
 
-    // Apply the ELO updates and win/loss stats
-    await this.updatePlayerRatingsAndStats(updates.map(u => ({
-      groupPlayerId: u.groupPlayerId,
-      newRating: u.newRating,
-    })), winningTeam, validTeamA, validTeamB);
+  /**
+   * Get the rating timeline for a player (oldest first)
+   */
+  static async getEloHistory(groupId: string, groupPlayerId: string): Promise<EloHistoryEntry[]> {
+    const db = getDatabase();
 
-    return { updates };
+    const { data, error } = await db
+      .from('elo_history')
+      .select('game_id, old_rating, new_rating, rating_change, reason, created_at')
+      .eq('group_id', groupId)
+      .eq('group_player_id', groupPlayerId)
+      .eq('reason', 'game')
+      .order('created_at', { ascending: true })
+      .limit(1000);
+
+    if (error) {
+      console.error('[EloService] Error fetching ELO history:', error);
+      throw new Error('Failed to fetch ELO history');
+    }
+
+    return (data || []).map(row => ({
+      gameId: row.game_id || undefined,
+      oldRating: row.old_rating,
+      newRating: row.new_rating,
+      change: row.rating_change,
+      reason: 'game',
+      createdAt: new Date(row.created_at),
+    }));
   }
 
   /**
@@ -205,152 +433,61 @@ export class EloService {
    * Also tracks current streak and best win streak
    */
   static async updatePlayerRatingsAndStats(
-    updates: { groupPlayerId: string; newRating: number }[],
+    updates: {
+      groupPlayerId: string;
+      newRating: number;
+      ratingDeviation?: number;
+      ratingVolatility?: number;
+      lastPlayedAt?: Date;
+    }[],
     winningTeam: 'A' | 'B',
     teamAIds: string[],
     teamBIds: string[]
   ): Promise<void> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     for (const update of updates) {
       // Determine if player won based on which team they were on
       const isTeamA = teamAIds.includes(update.groupPlayerId);
       const won = isTeamA ? winningTeam === 'A' : winningTeam === 'B';
 
-      try {
-        // Get current stats - handle case where record doesn't exist or columns are null
-        const { data: player, error: fetchError } = await supabase
-          .from('group_players')
-          .select('wins, losses, total_games, current_streak, best_win_streak')
-          .eq('id', update.groupPlayerId)
-          .single();
-
-        if (fetchError) {
-          console.error('[EloService] Error fetching player stats for', update.groupPlayerId, fetchError);
-          // Try to update ELO only if we can't get current stats
-          await supabase
-            .from('group_players')
-            .update({ elo_rating: update.newRating })
-            .eq('id', update.groupPlayerId);
-          continue;
-        }
-
-        // Ensure we have valid numbers (handle null/undefined from DB)
-        const currentWins = typeof player?.wins === 'number' ? player.wins : 0;
-        const currentLosses = typeof player?.losses === 'number' ? player.losses : 0;
-        const currentStreak = typeof player?.current_streak === 'number' ? player.current_streak : 0;
-        const bestWinStreak = typeof player?.best_win_streak === 'number' ? player.best_win_streak : 0;
-
-        const newWins = won ? currentWins + 1 : currentWins;
-        const newLosses = won ? currentLosses : currentLosses + 1;
-        const newTotalGames = newWins + newLosses;
-
-        // Update streak: positive = win streak, negative = loss streak
-        // Win continues win streak (or starts new), loss resets to -1
-        // Loss continues loss streak (or starts new), win resets to +1
-        let newStreak: number;
-        if (won) {
-          newStreak = currentStreak >= 0 ? currentStreak + 1 : 1;
-        } else {
-          newStreak = currentStreak <= 0 ? currentStreak - 1 : -1;
-        }
-
-        // Update best win streak if current win streak exceeds it
-        const newBestWinStreak = newStreak > bestWinStreak ? newStreak : bestWinStreak;
-
-        const { error: updateError } = await supabase
-          .from('group_players')
-          .update({ 
-            elo_rating: update.newRating,
-            wins: newWins,
-            losses: newLosses,
-            total_games: newTotalGames,
-            current_streak: newStreak,
-            best_win_streak: newBestWinStreak,
-          })
-          .eq('id', update.groupPlayerId);
-
-        if (updateError) {
-          console.error('[EloService] Error updating rating/stats for', update.groupPlayerId, updateError);
-        }
-      } catch (err) {
-        console.error('[EloService] Exception updating stats for', update.groupPlayerId, err);
-      }
-    }
-  }
+      // Rating columns - RD/volatility/last played are only written when the engine provided them
+      const ratingFields: Record<string, number | string> = { elo_rating: update.newRating };
+      if (update.ratingDeviation !== undefined) ratingFields.rating_deviation = update.ratingDeviation;
+      if (update.ratingVolatility !== undefined) ratingFields.rating_volatility = update.ratingVolatility;
+      if (update.lastPlayedAt) ratingFields.last_played_at = update.lastPlayedAt.toISOString();
 
-  /**
-   * Reverse ELO and stats changes when a game is deleted or result changes
-   * Also properly handles streak resets: best_win_streak can never exceed total wins
-   */
-  static async reverseGameResult(
-    teamAGroupPlayerIds: string[],
-    teamBGroupPlayerIds: string[],
-    wasWinningTeam: 'A' | 'B'
-  ): Promise<void> {
-    const supabase = createSupabaseClient();
-
-    // Filter out null/undefined IDs
-    const validTeamA = teamAGroupPlayerIds.filter(id => id != null);
-    const validTeamB = teamBGroupPlayerIds.filter(id => id != null);
-
-    // Reverse stats for team A
-    for (const playerId of validTeamA) {
-      const { data: player } = await supabase
+      // Get current stats - columns can be null on older rows
+      const { data: player, error: fetchError } = await db
         .from('group_players')
-        .select('wins, losses, total_games, best_win_streak')
-        .eq('id', playerId)
+        .select('wins, losses, total_games, current_streak, best_win_streak')
+        .eq('id', update.groupPlayerId)
         .single();
 
-      if (player) {
-        const wasWin = wasWinningTeam === 'A';
-        const newWins = wasWin ? Math.max(0, (player.wins || 0) - 1) : player.wins || 0;
-        const newLosses = wasWin ? player.losses || 0 : Math.max(0, (player.losses || 0) - 1);
-        // Cap best_win_streak to never exceed new wins count (fixes bug where streak > wins)
-        const cappedBestWinStreak = Math.min(player.best_win_streak || 0, newWins);
-        
-        await supabase
-          .from('group_players')
-          .update({
-            wins: newWins,
-            losses: newLosses,
-            total_games: Math.max(0, (player.total_games || 0) - 1),
-            // Reset current_streak to 0 since we can't accurately track after deletion
-            current_streak: 0,
-            // Cap best_win_streak to never exceed total wins
-            best_win_streak: cappedBestWinStreak,
-          })
-          .eq('id', playerId);
+      if (fetchError) {
+        console.error('[EloService] Error fetching player stats for', update.groupPlayerId, fetchError);
+        throw new Error('Failed to update player stats');
       }
-    }
 
-    // Reverse stats for team B
-    for (const playerId of validTeamB) {
-      const { data: player } = await supabase
+      // Ensure we have valid numbers (handle null/undefined from DB)
+      const record = addResult({
+        wins: typeof player?.wins === 'number' ? player.wins : 0,
+        losses: typeof player?.losses === 'number' ? player.losses : 0,
+        currentStreak: typeof player?.current_streak === 'number' ? player.current_streak : 0,
+        bestWinStreak: typeof player?.best_win_streak === 'number' ? player.best_win_streak : 0,
+      }, won);
+
+      const { error: updateError } = await db
         .from('group_players')
-        .select('wins, losses, total_games, best_win_streak')
-        .eq('id', playerId)
-        .single();
+        .update({ 
+          ...ratingFields,
+          ...this.recordColumns(record),
+        })
+        .eq('id', update.groupPlayerId);
 
-      if (player) {
-        const wasWin = wasWinningTeam === 'B';
-        const newWins = wasWin ? Math.max(0, (player.wins || 0) - 1) : player.wins || 0;
-        const newLosses = wasWin ? player.losses || 0 : Math.max(0, (player.losses || 0) - 1);
-        // Cap best_win_streak to never exceed new wins count (fixes bug where streak > wins)
-        const cappedBestWinStreak = Math.min(player.best_win_streak || 0, newWins);
-        
-        await supabase
-          .from('group_players')
-          .update({
-            wins: newWins,
-            losses: newLosses,
-            total_games: Math.max(0, (player.total_games || 0) - 1),
-            // Reset current_streak to 0 since we can't accurately track after deletion
-            current_streak: 0,
-            // Cap best_win_streak to never exceed total wins
-            best_win_streak: cappedBestWinStreak,
-          })
-          .eq('id', playerId);
+      if (updateError) {
+        console.error('[EloService] Error updating rating/stats for', update.groupPlayerId, updateError);
+        throw new Error('Failed to update player stats');
       }
     }
   }
@@ -358,21 +495,30 @@ export class EloService {
   /**
    * Recalculate all ELO ratings and stats for a group from game history
    * Useful for fixing data or retroactive calculations
+   * startingStates replaces the starting rating for those players (seasons that carry ratings over)
    * Returns summary of what was recalculated
    */
-  static async recalculateGroupElo(groupId: string): Promise<{
+  static async recalculateGroupElo(
+    groupId: string,
+    options: { startingStates?: Map<string, PlayerRatingState> } = {}
+  ): Promise<{
     playersReset: number;
     gamesProcessed: number;
     playersUpdated: string[];
   }> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     const result = { playersReset: 0, gamesProcessed: 0, playersUpdated: [] as string[] };
+    const settings = await this.getRatingSettings(groupId);
+    const initialState = this.getRatingEngine(settings.engine).initialState(settings);
 
-    // Reset all players to default ELO and zero stats
-    const { data: resetPlayers, error: resetError } = await supabase
+    // Reset all players to the group's starting rating and zero stats
+    const { data: resetPlayers, error: resetError } = await db
       .from('group_players')
       .update({ 
-        elo_rating: this.DEFAULT_ELO,
+        elo_rating: initialState.rating,
+        rating_deviation: initialState.deviation,
+        rating_volatility: initialState.volatility,
+        last_played_at: null,
         wins: 0,
         losses: 0,
         total_games: 0,
@@ -389,8 +535,19 @@ export class EloService {
 
     result.playersReset = resetPlayers?.length || 0;
 
+    // History is rebuilt from scratch by replaying the games below
+    const { error: historyError } = await db
+      .from('elo_history')
+      .delete()
+      .eq('group_id', groupId);
+
+    if (historyError) {
+      console.error('[EloService] Error clearing ELO history:', historyError);
+      throw new Error('Failed to clear ELO history');
+    }
+
     // Get all sessions in the group ordered by date
-    const { data: sessions, error: sessionsError } = await supabase
+    const { data: sessions, error: sessionsError } = await db
       .from('sessions')
       .select('id')
       .eq('group_id', groupId)
@@ -403,26 +560,32 @@ export class EloService {
     // Get all games from these sessions, ordered by creation time
     const sessionIds = sessions.map(s => s.id);
     if (sessionIds.length === 0) {
+      await this.writeReplayedPlayers(new Map(), new Map(), options.startingStates);
       return result;
     }
 
-    const { data: games, error: gamesError } = await supabase
+    const { data: games, error: gamesError } = await db
       .from('games')
       .select('*')
       .in('session_id', sessionIds)
       .not('winning_team', 'is', null)
-      .order('created_at', { ascending: true });
+      .order('created_at', { ascending: true })
+      .order('game_number', { ascending: true });
 
     if (gamesError || !games) {
       throw new Error('Failed to fetch games');
     }
 
     // Get all group players for auto-linking by name
-    const { data: groupPlayersData } = await supabase
+    const { data: groupPlayersData, error: groupPlayersError } = await db
       .from('group_players')
       .select('id, name')
       .eq('group_id', groupId);
 
+    if (groupPlayersError) {
+      throw new Error('Failed to fetch group players');
+    }
+
     const groupPlayersByName = new Map<string, string>();
     const groupPlayerNames = new Map<string, string>();
     (groupPlayersData || []).forEach(gp => {
@@ -431,7 +594,7 @@ export class EloService {
     });
 
     // Get player mappings (session player ID -> group player ID)
-    const { data: players, error: playersError } = await supabase
+    const { data: players, error: playersError } = await db
       .from('players')
       .select('id, group_player_id, name')
       .in('session_id', sessionIds);
@@ -459,17 +622,26 @@ export class EloService {
     // Update players with missing group_player_id links
     if (playersToUpdate.length > 0) {
       for (const update of playersToUpdate) {
-        await supabase
+        const { error: linkError } = await db
           .from('players')
           .update({ group_player_id: update.groupPlayerId })
           .eq('id', update.id);
+
+        if (linkError) {
+          throw new Error('Failed to link players');
+        }
       }
     }
 
-    // Track which group players get updated
-    const updatedGroupPlayers = new Set<string>();
+    // Replay the games in memory, the way processGameResult rates them one at a time, then
+    // write each player once. A few queries per game and player would hold the group's lock
+    // for as long as its history is long.
+    const engine = this.getRatingEngine(settings.engine);
+    const states = new Map<string, PlayerRatingState>(options.startingStates ?? []);
+    const records = new Map<string, PlayerRecord>();
+    const stateOf = (id: string) => states.get(id) ?? initialState;
+    const history: DatabaseRow[] = [];
 
-    // Process each game in order
     for (const game of games) {
       const teamA = this.parseJsonArray(game.team_a);
       const teamB = this.parseJsonArray(game.team_b);
@@ -478,18 +650,101 @@ export class EloService {
       const teamBGroupIds = teamB.map(id => playerToGroupPlayer.get(id)).filter(Boolean) as string[];
 
       if (teamAGroupIds.length > 0 || teamBGroupIds.length > 0) {
-        await this.processGameResult(teamAGroupIds, teamBGroupIds, game.winning_team as 'A' | 'B');
+        const winningTeam = game.winning_team as 'A' | 'B';
+        const playedAt = game.created_at ? new Date(game.created_at) : new Date();
+        const rated = engine.rateGame({
+          teamA: teamAGroupIds.map(stateOf),
+          teamB: teamBGroupIds.map(stateOf),
+          winningTeam,
+          teamAScore: game.team_a_score ?? undefined,
+          teamBScore: game.team_b_score ?? undefined,
+          playedAt,
+        }, settings);
+
+        const allIds = [...teamAGroupIds, ...teamBGroupIds];
+        const newStates = [...rated.teamA, ...rated.teamB];
+        allIds.forEach((id, i) => {
+          const oldRating = stateOf(id).rating;
+          history.push({
+            group_id: groupId,
+            group_player_id: id,
+            game_id: game.id,
+            old_rating: oldRating,
+            new_rating: newStates[i].rating,
+            rating_change: newStates[i].rating - oldRating,
+            reason: 'game',
+            created_at: playedAt.toISOString(),
+          });
+        });
+        allIds.forEach((id, i) => {
+          states.set(id, newStates[i]);
+          const won = i < teamAGroupIds.length ? winningTeam === 'A' : winningTeam === 'B';
+          records.set(id, addResult(records.get(id) ?? EMPTY_RECORD, won));
+        });
         result.gamesProcessed++;
-        teamAGroupIds.forEach(id => updatedGroupPlayers.add(id));
-        teamBGroupIds.forEach(id => updatedGroupPlayers.add(id));
       }
     }
 
-    result.playersUpdated = Array.from(updatedGroupPlayers).map(id => groupPlayerNames.get(id) || id);
+    await this.writeReplayedPlayers(states, records, options.startingStates);
+
+    for (let i = 0; i < history.length; i += HISTORY_BATCH_SIZE) {
+      const { error: historyInsertError } = await db
+        .from('elo_history')
+        .insert(history.slice(i, i + HISTORY_BATCH_SIZE));
+
+      if (historyInsertError) {
+        console.error('[EloService] Error recording ELO history:', historyInsertError);
+        throw new Error('Failed to record ELO history');
+      }
+    }
+
+    result.playersUpdated = Array.from(records.keys()).map(id => groupPlayerNames.get(id) || id);
 
     return result;
   }
 
+  /**
+   * Write the replayed rating and record of every player who played, or who started from
+   * a carried-over rating - everyone else keeps the reset values
+   */
+  private static async writeReplayedPlayers(
+    states: Map<string, PlayerRatingState>,
+    records: Map<string, PlayerRecord>,
+    startingStates?: Map<string, PlayerRatingState>
+  ): Promise<void> {
+    const db = getDatabase();
+    const groupPlayerIds = new Set([...Array.from(records.keys()), ...Array.from(startingStates?.keys() ?? [])]);
+
+    for (const groupPlayerId of Array.from(groupPlayerIds)) {
+      const state = states.get(groupPlayerId) ?? startingStates!.get(groupPlayerId)!;
+      const { error } = await db
+        .from('group_players')
+        .update({
+          elo_rating: state.rating,
+          rating_deviation: state.deviation,
+          rating_volatility: state.volatility,
+          last_played_at: state.lastPlayedAt ? state.lastPlayedAt.toISOString() : null,
+          ...this.recordColumns(records.get(groupPlayerId) ?? EMPTY_RECORD),
+        })
+        .eq('id', groupPlayerId);
+
+      if (error) {
+        console.error('[EloService] Error saving replayed rating for', groupPlayerId, error);
+        throw new Error('Failed to update player stats');
+      }
+    }
+  }
+
+  private static recordColumns(record: PlayerRecord): DatabaseRow {
+    return {
+      wins: record.wins,
+      losses: record.losses,
+      total_games: record.wins + record.losses,
+      current_streak: record.currentStreak,
+      best_win_streak: record.bestWinStreak,
+    };
+  }
+
   /**
    * Parse JSON array from database (handles both string and array formats)
    */
@@ -501,3 +756,54 @@ export class EloService {
   }
 }
 
+/**
+ * Classic ELO engine (the default)
+ * Team rating = average of the players' ratings; both teammates get the team's rating change
+ * RD and volatility are carried through untouched so switching engines keeps them sensible
+ */
+const eloEngine: RatingEngine = {
+  initialState(settings) {
+    return {
+      rating: settings.startingRating,
+      deviation: GLICKO2_DEFAULT_DEVIATION,
+      volatility: GLICKO2_DEFAULT_VOLATILITY,
+    };
+  },
+
+  currentDeviation(state) {
+    return state.deviation;
+  },
+
+  rateGame(game, settings) {
+    const teamARating = EloService.calculateTeamRating(game.teamA.map(p => p.rating));
+    const teamBRating = EloService.calculateTeamRating(game.teamB.map(p => p.rating));
+
+    // Scale K by the score margin when enabled and both scores are known
+    let kFactor = settings.kFactor;
+    if (settings.marginOfVictory && game.teamAScore != null && game.teamBScore != null) {
+      const aWon = game.winningTeam === 'A';
+      kFactor *= EloService.calculateMarginMultiplier(
+        aWon ? game.teamAScore : game.teamBScore,
+        aWon ? game.teamBScore : game.teamAScore,
+        aWon ? teamARating : teamBRating,
+        aWon ? teamBRating : teamARating
+      );
+    }
+
+    const rateTeam = (team: PlayerRatingState[], teamRating: number, opponentRating: number, won: boolean) => {
+      const newTeamRating = EloService.calculateNewRating(teamRating, opponentRating, won, kFactor, settings.ratingFloor);
+      // Adjust for individual - add the change to their personal rating
+      const ratingChange = newTeamRating - teamRating;
+      return team.map(player => ({
+        ...player,
+        rating: Math.max(settings.ratingFloor, player.rating + ratingChange),
+        lastPlayedAt: game.playedAt,
+      }));
+    };
+
+    return {
+      teamA: rateTeam(game.teamA, teamARating, teamBRating, game.winningTeam === 'A'),
+      teamB: rateTeam(game.teamB, teamBRating, teamARating, game.winningTeam === 'B'),
+    };
+  },
+};
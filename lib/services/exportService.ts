@@ -0,0 +1,266 @@
+import { getDatabase, DatabaseRow } from '@/lib/db';
+import {
+  GroupExport,
+  GroupExportGame,
+  GroupExportPlayer,
+  GroupExportSession,
+  GroupExportSessionPlayer,
+  GameSet,
+  RallyWinner,
+} from '@/types';
+import { DEFAULT_CURRENCY_SETTINGS, getCurrencySettings } from '@/lib/currency';
+import { ZipFile } from '@/lib/zip';
+import { DEFAULT_SCORING_RULE, isScoringRuleName } from '@/lib/scoring';
+import { DEFAULT_RATING_SETTINGS } from './eloService';
+import { GroupService } from './groupService';
+import { StatsService } from './statsService';
+import { LedgerService } from './ledgerService';
+
+// Bump only for changes an older reader couldn't ignore - see docs/engineering/export-format.md
+export const GROUP_EXPORT_VERSION = 1;
+
+function toIsoString(value: unknown): string | null {
+  return value ? new Date(value as string).toISOString() : null;
+}
+
+function parseTeam(value: unknown): string[] {
+  return typeof value === 'string' ? JSON.parse(value) : (value as string[]) || [];
+}
+
+function parseSets(value: unknown): GameSet[] | null {
+  const sets = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(sets) && sets.length > 0 ? sets : null;
+}
+
+function parseRallies(value: unknown): RallyWinner[][] | null {
+  const rallies = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(rallies) && rallies.length > 0 ? rallies : null;
+}
+
+/**
+ * One CSV field: quoted when needed, and text a spreadsheet would run as a formula is prefixed with '
+ */
+function csvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Service layer for group exports
+ * The JSON bundle is the complete, versioned archive; the CSVs are read-only views of it for spreadsheets
+ */
+export class ExportService {
+  /**
+   * Build the JSON export of a group, or null if the group doesn't exist
+   * Reads stored rows directly so removed players and every session setting are included
+   */
+  static async getGroupExport(groupId: string): Promise<GroupExport | null> {
+    try {
+      const db = getDatabase();
+
+      const group = await GroupService.getGroupById(groupId);
+      if (!group) {
+        return null;
+      }
+
+      const [{ data: playerRows, error: playersError }, { data: sessionRows, error: sessionsError }] = await Promise.all([
+        db.from('group_players').select('*').eq('group_id', groupId).order('created_at', { ascending: true }),
+        db.from('sessions').select('*').eq('group_id', groupId).order('date', { ascending: true }),
+      ]);
+      if (playersError) throw playersError;
+      if (sessionsError) throw sessionsError;
+
+      const sessionIds = (sessionRows || []).map((row: DatabaseRow) => row.id);
+      let sessionPlayerRows: DatabaseRow[] = [];
+      let gameRows: DatabaseRow[] = [];
+      if (sessionIds.length > 0) {
+        const [{ data: sessionPlayersData, error: sessionPlayersError }, { data: gamesData, error: gamesError }] = await Promise.all([
+          db.from('players').select('*').in('session_id', sessionIds),
+          db.from('games').select('*').in('session_id', sessionIds).order('game_number', { ascending: true }),
+        ]);
+        if (sessionPlayersError) throw sessionPlayersError;
+        if (gamesError) throw gamesError;
+        sessionPlayerRows = sessionPlayersData || [];
+        gameRows = gamesData || [];
+      }
+
+      // Keep games grouped by session, in the same order as the sessions
+      const sessionOrder = new Map<string, number>(sessionIds.map((id: string, index: number) => [id, index]));
+      gameRows.sort((a, b) =>
+        sessionOrder.get(a.session_id)! - sessionOrder.get(b.session_id)! || a.game_number - b.game_number
+      );
+      sessionPlayerRows.sort((a, b) => sessionOrder.get(a.session_id)! - sessionOrder.get(b.session_id)!);
+
+      return {
+        format: 'poweredbypace-group-export',
+        version: GROUP_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        group: {
+          id: group.id,
+          name: group.name,
+          createdAt: group.createdAt ? group.createdAt.toISOString() : null,
+          ratingSettings: group.ratingSettings ?? DEFAULT_RATING_SETTINGS,
+          currencySettings: getCurrencySettings(group),
+        },
+        players: (playerRows || []).map((row: DatabaseRow) => this.mapRowToExportPlayer(row)),
+        sessions: (sessionRows || []).map((row: DatabaseRow) => this.mapRowToExportSession(row)),
+        sessionPlayers: sessionPlayerRows.map((row) => this.mapRowToExportSessionPlayer(row)),
+        games: gameRows.map((row) => this.mapRowToExportGame(row)),
+      };
+    } catch (error) {
+      console.error('[ExportService] Error building group export:', error);
+      throw new Error('Failed to export group');
+    }
+  }
+
+  /**
+   * Build the spreadsheet files for a group export:
+   * games.csv (names and scores), settlements.csv (who pays whom per session) and leaderboard.csv
+   */
+  static async getGroupExportCsvFiles(bundle: GroupExport): Promise<ZipFile[]> {
+    try {
+      const [leaderboard, ledger] = await Promise.all([
+        StatsService.getLeaderboard(bundle.group.id),
+        LedgerService.getGroupLedger(bundle.group.id),
+      ]);
+
+      const sessionsById = new Map(bundle.sessions.map((s) => [s.id, s]));
+      const playerNames = new Map(bundle.sessionPlayers.map((p) => [p.id, p.name]));
+      const teamNames = (team: string[]) => team.map((id) => playerNames.get(id) || 'Unknown').join(' & ');
+      const sessionDate = (sessionId: string) => sessionsById.get(sessionId)?.date.slice(0, 10) ?? '';
+
+      const games = toCsv(
+        ['session_date', 'session_name', 'game_number', 'team_a', 'team_b', 'team_a_score', 'team_b_score', 'sets', 'winner', 'winning_team', 'session_id', 'game_id'],
+        bundle.games.map((game) => [
+          sessionDate(game.sessionId),
+          sessionsById.get(game.sessionId)?.name,
+          game.gameNumber,
+          teamNames(game.teamA),
+          teamNames(game.teamB),
+          game.teamAScore,
+          game.teamBScore,
+          game.sets ? game.sets.map((set) => `${set.teamAScore}-${set.teamBScore}`).join(', ') : null,
+          game.winningTeam ? teamNames(game.winningTeam === 'A' ? game.teamA : game.teamB) : null,
+          game.winningTeam,
+          game.sessionId,
+          game.id,
+        ])
+      );
+
+      // Oldest session first, like the rest of the export
+      const obligations = ledger.obligations.slice().reverse();
+      const settlements = toCsv(
+        ['session_date', 'session_name', 'from', 'to', 'amount', 'currency', 'amount_paid', 'outstanding', 'paid_at', 'session_id'],
+        obligations.map((o) => [
+          sessionDate(o.sessionId),
+          o.sessionName,
+          o.fromPlayerName,
+          o.toPlayerName,
+          o.amount,
+          o.currency,
+          o.amountPaid,
+          o.outstanding,
+          o.paidAt ? new Date(o.paidAt).toISOString() : null,
+          o.sessionId,
+        ])
+      );
+
+      const leaderboardCsv = toCsv(
+        ['rank', 'player', 'rating', 'wins', 'losses', 'games', 'win_rate', 'player_id'],
+        leaderboard.map((entry) => [
+          entry.rank,
+          entry.playerName,
+          Math.round(entry.eloRating),
+          entry.wins,
+          entry.losses,
+          entry.totalGames,
+          entry.winRate.toFixed(1),
+          entry.groupPlayerId,
+        ])
+      );
+
+      return [
+        { name: 'games.csv', content: games },
+        { name: 'settlements.csv', content: settlements },
+        { name: 'leaderboard.csv', content: leaderboardCsv },
+      ];
+    } catch (error) {
+      console.error('[ExportService] Error building CSV export:', error);
+      throw new Error('Failed to export group');
+    }
+  }
+
+  private static mapRowToExportPlayer(row: DatabaseRow): GroupExportPlayer {
+    return {
+      id: row.id,
+      name: row.name,
+      isActive: row.is_active ?? true,
+      eloRating: row.elo_rating ?? DEFAULT_RATING_SETTINGS.startingRating,
+      wins: row.wins || 0,
+      losses: row.losses || 0,
+      totalGames: row.total_games || 0,
+      createdAt: toIsoString(row.created_at),
+    };
+  }
+
+  private static mapRowToExportSession(row: DatabaseRow): GroupExportSession {
+    return {
+      id: row.id,
+      name: row.name || null,
+      date: new Date(row.date).toISOString(),
+      organizerId: row.organizer_id,
+      gameMode: row.game_mode,
+      roundRobinCount: row.round_robin_count ?? null,
+      courtCostType: row.court_cost_type,
+      courtCostValue: parseFloat(String(row.court_cost_value || 0)),
+      birdCostTotal: parseFloat(String(row.bird_cost_total || 0)),
+      betPerPlayer: parseFloat(String(row.bet_per_player || 0)),
+      bettingEnabled: row.betting_enabled ?? true,
+      expenses: row.expenses || null,
+      costSplitMode: row.cost_split_mode || 'even',
+      currencySettings: {
+        currency: row.currency || DEFAULT_CURRENCY_SETTINGS.currency,
+        locale: row.currency_locale || DEFAULT_CURRENCY_SETTINGS.locale,
+      },
+      scoringRule: isScoringRuleName(row.scoring_rule) ? row.scoring_rule : DEFAULT_SCORING_RULE,
+      createdAt: toIsoString(row.created_at),
+    };
+  }
+
+  private static mapRowToExportSessionPlayer(row: DatabaseRow): GroupExportSessionPlayer {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      name: row.name,
+      groupPlayerId: row.group_player_id ?? null,
+      attendanceWeight: parseFloat(String(row.attendance_weight ?? 1)),
+    };
+  }
+
+  private static mapRowToExportGame(row: DatabaseRow): GroupExportGame {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      gameNumber: row.game_number,
+      teamA: parseTeam(row.team_a),
+      teamB: parseTeam(row.team_b),
+      winningTeam: row.winning_team ?? null,
+      teamAScore: row.team_a_score ?? null,
+      teamBScore: row.team_b_score ?? null,
+      sets: parseSets(row.sets),
+      rallies: parseRallies(row.rallies),
+      createdAt: toIsoString(row.created_at),
+      updatedAt: toIsoString(row.updated_at),
+    };
+  }
+}
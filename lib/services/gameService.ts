@@ -1,8 +1,18 @@
-import { createSupabaseClient } from '@/lib/supabase';
-import { Game } from '@/types';
+import { getDatabase, runInTransaction } from '@/lib/db';
+import { Game, GameSet, RallyWinner, Tournament } from '@/types';
+import { planTournamentGames } from '@/lib/tournament';
+import { AuditService } from './auditService';
 import { EloService } from './eloService';
+import { LiveUpdateService } from './liveUpdateService';
 import { PairingStatsService } from './pairingStatsService';
 
+// Postgres unique_violation - here, another game took the same game number first
+const UNIQUE_VIOLATION_CODE = '23505';
+const MAX_GAME_NUMBER_ATTEMPTS = 5;
+
+// Columns a game's stats are worked out from - editing any of them on a result changes the stats
+const RESULT_COLUMNS = ['team_a', 'team_b', 'winning_team', 'team_a_score', 'team_b_score', 'sets'] as const;
+
 export interface GameRow {
   id: string;
   session_id: string;
@@ -12,6 +22,8 @@ export interface GameRow {
   winning_team: string | null;
   team_a_score: number | null;
   team_b_score: number | null;
+  sets: unknown; // jsonb - null for a single game
+  rallies: unknown; // jsonb - null unless scored live
   created_at: Date;
   updated_at: Date;
 }
@@ -25,9 +37,9 @@ export class GameService {
    */
   static async getGamesBySessionId(sessionId: string): Promise<Game[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
-      const { data: gamesData, error: gamesError } = await supabase
+      const { data: gamesData, error: gamesError } = await db
         .from('games')
         .select('*')
         .eq('session_id', sessionId)
@@ -44,65 +56,163 @@ export class GameService {
     }
   }
 
+  /**
+   * Get all games for several sessions in a single query
+   */
+  static async getGamesBySessionIds(sessionIds: string[]): Promise<Game[]> {
+    if (sessionIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = getDatabase();
+
+      const { data: gamesData, error: gamesError } = await db
+        .from('games')
+        .select('*')
+        .in('session_id', sessionIds)
+        .order('game_number', { ascending: true });
+
+      if (gamesError) {
+        throw gamesError;
+      }
+
+      return (gamesData || []).map((row) => this.mapRowToGame(row as any));
+    } catch (error) {
+      console.error('[GameService] Error fetching games for sessions:', error);
+      throw new Error('Failed to fetch games');
+    }
+  }
+
+  /**
+   * Get a single game (null if it doesn't exist in the session)
+   */
+  static async getGame(sessionId: string, gameId: string): Promise<Game | null> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('games')
+        .select('*')
+        .eq('id', gameId)
+        .eq('session_id', sessionId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data ? this.mapRowToGame(data) : null;
+    } catch (error) {
+      console.error('[GameService] Error fetching game:', error);
+      throw new Error('Failed to fetch game');
+    }
+  }
+
   /**
    * Create a new game
+   * The game and every stat it feeds (ratings, streaks, pairings) are saved in one transaction
+   * clientGameId lets an offline device pick the ID; replaying the same create returns the
+   * existing game instead of recording it twice
    */
   static async createGame(
     sessionId: string,
     game: Omit<Game, 'id' | 'sessionId' | 'gameNumber'>,
-    gameNumber?: number
+    gameNumber?: number,
+    clientGameId?: string
   ): Promise<Game> {
     try {
-      const supabase = createSupabaseClient();
+      return await this.runGameTransaction(sessionId, async () => {
+        const db = getDatabase();
+
+        if (clientGameId) {
+          const { data: existingGame, error: existingError } = await db
+            .from('games')
+            .select('*')
+            .eq('id', clientGameId)
+            .maybeSingle();
+
+          if (existingError) {
+            throw existingError;
+          }
+          if (existingGame) {
+            if (existingGame.session_id !== sessionId) {
+              throw new Error('Game ID is already used by another session');
+            }
+            return this.mapRowToGame(existingGame);
+          }
+        }
       
-      // Get current max game number if not provided
-      let nextGameNumber = gameNumber;
-      if (!nextGameNumber) {
-        const { data: maxData, error: maxError } = await supabase
-          .from('games')
-          .select('game_number')
-          .eq('session_id', sessionId)
-          .order('game_number', { ascending: false })
-          .limit(1)
-          .single();
+        // Get current max game number if not provided
+        let nextGameNumber: number;
+        if (gameNumber) {
+          nextGameNumber = gameNumber;
+        } else {
+          const { data: maxData, error: maxError } = await db
+            .from('games')
+            .select('game_number')
+            .eq('session_id', sessionId)
+            .order('game_number', { ascending: false })
+            .limit(1)
+            .single();
+
+          if (maxError && maxError.code !== 'PGRST116') {
+            // PGRST116 is "no rows returned", which is fine
+            throw maxError;
+          }
 
-        if (maxError && maxError.code !== 'PGRST116') {
-          // PGRST116 is "no rows returned", which is fine
-          throw maxError;
+          nextGameNumber = (maxData?.game_number || 0) + 1;
         }
 
-        nextGameNumber = (maxData?.game_number || 0) + 1;
-      }
-
-      const gameId = `${sessionId}-game-${nextGameNumber}`;
-
-      const { data: insertedGame, error: insertError } = await supabase
-        .from('games')
-        .insert({
-          id: gameId,
-          session_id: sessionId,
-          game_number: nextGameNumber,
-          team_a: game.teamA,
-          team_b: game.teamB,
-          winning_team: game.winningTeam || null,
-          team_a_score: game.teamAScore || null,
-          team_b_score: game.teamBScore || null,
-        })
-        .select()
-        .single();
+        // The group lock keeps numbers apart; should two inserts still take the same number,
+        // the unique index rejects one and it moves to the next number
+        let insertedGame: GameRow;
+        for (let attempt = 1; ; attempt++) {
+          const { data, error: insertError } = await db
+            .from('games')
+            .insert({
+              id: clientGameId || `${sessionId}-game-${nextGameNumber}`,
+              session_id: sessionId,
+              game_number: nextGameNumber,
+              team_a: game.teamA,
+              team_b: game.teamB,
+              winning_team: game.winningTeam || null,
+              team_a_score: game.teamAScore ?? null,
+              team_b_score: game.teamBScore ?? null,
+              sets: game.sets?.length ? game.sets : null,
+              rallies: game.rallies?.length ? game.rallies : null,
+            })
+            .select()
+            .single();
+
+          if (!insertError) {
+            insertedGame = data;
+            break;
+          }
+          if (insertError.code !== UNIQUE_VIOLATION_CODE || gameNumber || attempt >= MAX_GAME_NUMBER_ATTEMPTS) {
+            throw insertError;
+          }
 
-      if (insertError) {
-        throw insertError;
-      }
+          // The same create may have arrived twice at once - the copy that won is the game
+          if (clientGameId) {
+            const existingGame = await this.getGame(sessionId, clientGameId);
+            if (existingGame) {
+              return existingGame;
+            }
+          }
+          nextGameNumber++;
+        }
 
-      const createdGame = this.mapRowToGame(insertedGame as any);
+        const createdGame = this.mapRowToGame(insertedGame);
+        await AuditService.recordGameChange(sessionId, 'create', null, insertedGame);
 
-      // Update ELO if game has a winner
-      if (game.winningTeam) {
-        await this.updateEloForGame(sessionId, createdGame);
-      }
+        // Update ELO if game has a winner
+        if (game.winningTeam) {
+          await this.updateEloForGame(sessionId, createdGame);
+        }
 
-      return createdGame;
+        return createdGame;
+      });
     } catch (error) {
       console.error('[GameService] Error creating game:', error);
       throw new Error('Failed to create game');
@@ -117,44 +227,51 @@ export class GameService {
     games: Omit<Game, 'id' | 'sessionId' | 'gameNumber'>[]
   ): Promise<Game[]> {
     try {
-      const supabase = createSupabaseClient();
+      return await this.runGameTransaction(sessionId, async () => {
+        const db = getDatabase();
       
-      const gamesData = games.map((game, i) => {
-        const gameNumber = i + 1;
-        const gameId = `${sessionId}-game-${gameNumber}`;
-        return {
-          id: gameId,
-          session_id: sessionId,
-          game_number: gameNumber,
-          team_a: game.teamA,
-          team_b: game.teamB,
-          winning_team: game.winningTeam || null,
-          team_a_score: game.teamAScore || null,
-          team_b_score: game.teamBScore || null,
-        };
-      });
-
-      const { data: insertedGames, error: insertError } = await supabase
-        .from('games')
-        .upsert(gamesData, {
-          onConflict: 'id',
-        })
-        .select();
+        const gamesData = games.map((game, i) => {
+          const gameNumber = i + 1;
+          const gameId = `${sessionId}-game-${gameNumber}`;
+          return {
+            id: gameId,
+            session_id: sessionId,
+            game_number: gameNumber,
+            team_a: game.teamA,
+            team_b: game.teamB,
+            winning_team: game.winningTeam || null,
+            team_a_score: game.teamAScore ?? null,
+            team_b_score: game.teamBScore ?? null,
+            sets: game.sets?.length ? game.sets : null,
+            rallies: game.rallies?.length ? game.rallies : null,
+          };
+        });
+
+        const { data: insertedGames, error: insertError } = await db
+          .from('games')
+          .upsert(gamesData, {
+            onConflict: 'id',
+          })
+          .select();
 
-      if (insertError) {
-        throw insertError;
-      }
+        if (insertError) {
+          throw insertError;
+        }
 
-      const createdGames = (insertedGames || []).map((row) => this.mapRowToGame(row as any));
+        const createdGames = (insertedGames || []).map((row) => this.mapRowToGame(row as any));
+        for (const row of insertedGames || []) {
+          await AuditService.recordGameChange(sessionId, 'create', null, row);
+        }
 
-      // Update ELO for games with winners
-      for (const game of createdGames) {
-        if (game.winningTeam) {
-          await this.updateEloForGame(sessionId, game);
+        // Update ELO for games with winners
+        for (const game of createdGames) {
+          if (game.winningTeam) {
+            await this.updateEloForGame(sessionId, game);
+          }
         }
-      }
 
-      return createdGames;
+        return createdGames;
+      });
     } catch (error) {
       console.error('[GameService] Error creating games:', error);
       throw new Error('Failed to create games');
@@ -170,76 +287,86 @@ export class GameService {
     updates: Partial<Game>
   ): Promise<Game> {
     try {
-      const supabase = createSupabaseClient();
+      return await this.runGameTransaction(sessionId, async () => {
+        const db = getDatabase();
       
-      // First, get the current game state to check if winning_team is changing
-      const { data: currentGame, error: fetchError } = await supabase
-        .from('games')
-        .select('*')
-        .eq('id', gameId)
-        .eq('session_id', sessionId)
-        .single();
+        // First, get the current game state to see whether the edit touches its result
+        const { data: currentGame, error: fetchError } = await db
+          .from('games')
+          .select('*')
+          .eq('id', gameId)
+          .eq('session_id', sessionId)
+          .single();
 
-      if (fetchError) {
-        throw fetchError;
-      }
+        if (fetchError) {
+          throw fetchError;
+        }
 
-      const previousWinningTeam = currentGame?.winning_team;
+        const updateData: any = {};
       
-      const updateData: any = {};
-      
-      if (updates.teamA !== undefined) {
-        updateData.team_a = updates.teamA;
-      }
-      if (updates.teamB !== undefined) {
-        updateData.team_b = updates.teamB;
-      }
-      if (updates.winningTeam !== undefined) {
-        updateData.winning_team = updates.winningTeam;
-      }
-      if (updates.teamAScore !== undefined) {
-        updateData.team_a_score = updates.teamAScore;
-      }
-      if (updates.teamBScore !== undefined) {
-        updateData.team_b_score = updates.teamBScore;
-      }
+        if (updates.teamA !== undefined) {
+          updateData.team_a = updates.teamA;
+        }
+        if (updates.teamB !== undefined) {
+          updateData.team_b = updates.teamB;
+        }
+        if (updates.winningTeam !== undefined) {
+          updateData.winning_team = updates.winningTeam;
+        }
+        if (updates.teamAScore !== undefined) {
+          updateData.team_a_score = updates.teamAScore;
+        }
+        if (updates.teamBScore !== undefined) {
+          updateData.team_b_score = updates.teamBScore;
+        }
+        if (updates.sets !== undefined) {
+          updateData.sets = updates.sets.length > 0 ? updates.sets : null;
+          // A match's scores are its set totals, so they go with the sets unless new ones are given
+          if (updates.sets.length === 0 && currentGame?.sets && updates.teamAScore === undefined && updates.teamBScore === undefined) {
+            updateData.team_a_score = null;
+            updateData.team_b_score = null;
+          }
+        }
+        if (updates.rallies !== undefined) {
+          updateData.rallies = updates.rallies.length > 0 ? updates.rallies : null;
+        }
 
-      if (Object.keys(updateData).length === 0) {
-        throw new Error('No fields to update');
-      }
+        if (Object.keys(updateData).length === 0) {
+          throw new Error('No fields to update');
+        }
 
-      const { data: updatedGame, error: updateError } = await supabase
-        .from('games')
-        .update(updateData)
-        .eq('id', gameId)
-        .eq('session_id', sessionId)
-        .select()
-        .single();
+        // No trigger maintains updated_at; devices compare it to detect edits made elsewhere
+        updateData.updated_at = new Date().toISOString();
 
-      if (updateError) {
-        throw updateError;
-      }
+        const { data: updatedGame, error: updateError } = await db
+          .from('games')
+          .update(updateData)
+          .eq('id', gameId)
+          .eq('session_id', sessionId)
+          .select()
+          .single();
 
-      const game = this.mapRowToGame(updatedGame as any);
-
-      // Handle ELO and stats updates based on winning team changes
-      if (updates.winningTeam !== undefined) {
-        if (!previousWinningTeam && updates.winningTeam) {
-          // New result: apply stats
-          await this.updateEloForGame(sessionId, game);
-        } else if (previousWinningTeam && !updates.winningTeam) {
-          // Result cleared: reverse stats
-          const previousGame = this.mapRowToGame(currentGame as any);
-          await this.reverseStatsForGame(sessionId, previousGame);
-        } else if (previousWinningTeam && updates.winningTeam && previousWinningTeam !== updates.winningTeam) {
-          // Result changed: reverse old, apply new
-          const previousGame = this.mapRowToGame(currentGame as any);
-          await this.reverseStatsForGame(sessionId, previousGame);
-          await this.updateEloForGame(sessionId, game);
+        if (updateError) {
+          throw updateError;
+        }
+
+        const game = this.mapRowToGame(updatedGame as any);
+        await AuditService.recordGameChange(sessionId, 'update', currentGame, updatedGame);
+
+        // A first result on the group's latest game is applied on top of the stats; any other
+        // change to a result replays the games, since everything played after it depends on it
+        const resultChanged = (currentGame.winning_team || updatedGame.winning_team) &&
+          RESULT_COLUMNS.some((column) => JSON.stringify(currentGame[column]) !== JSON.stringify(updatedGame[column]));
+        if (resultChanged) {
+          if (!currentGame.winning_team && await this.isLatestResult(sessionId, updatedGame)) {
+            await this.updateEloForGame(sessionId, game);
+          } else {
+            await this.replayGroupStats(sessionId);
+          }
         }
-      }
 
-      return game;
+        return game;
+      });
     } catch (error) {
       console.error('[GameService] Error updating game:', error);
       throw new Error('Failed to update game');
@@ -251,10 +378,125 @@ export class GameService {
    */
   static async deleteGame(sessionId: string, gameId: string): Promise<void> {
     try {
-      const supabase = createSupabaseClient();
+      return await this.runGameTransaction(sessionId, async () => {
+        const db = getDatabase();
       
-      // First, get the game to reverse stats if it had a result
-      const { data: game, error: fetchError } = await supabase
+        // First, get the game to know whether its result counted towards the stats
+        const { data: game, error: fetchError } = await db
+          .from('games')
+          .select('*')
+          .eq('id', gameId)
+          .eq('session_id', sessionId)
+          .single();
+
+        if (fetchError && fetchError.code !== 'PGRST116') {
+          throw fetchError;
+        }
+
+        const { error: deleteError } = await db
+          .from('games')
+          .delete()
+          .eq('id', gameId)
+          .eq('session_id', sessionId);
+
+        if (deleteError) {
+          throw deleteError;
+        }
+
+        if (game) {
+          await AuditService.recordGameChange(sessionId, 'delete', game, null);
+        }
+
+        if (game?.winning_team) {
+          await this.replayGroupStats(sessionId);
+        }
+      });
+    } catch (error) {
+      console.error('[GameService] Error deleting game:', error);
+      throw new Error('Failed to delete game');
+    }
+  }
+
+  /**
+   * Bring a tournament session's bracket games up to date with its results
+   * Used when a tournament starts; after that, every game write does it (see runGameTransaction)
+   */
+  static async syncTournamentGames(sessionId: string): Promise<void> {
+    try {
+      await this.runGameTransaction(sessionId, async () => undefined);
+    } catch (error) {
+      console.error('[GameService] Error syncing tournament games:', error);
+      throw new Error('Failed to sync tournament games');
+    }
+  }
+
+  /**
+   * Run a game write and its stat updates as one transaction
+   * Ratings are shared by every session of a group, so the lock is per group (per session
+   * for standalone ones): results submitted at the same moment are applied one after another
+   * In a tournament session the bracket moves on in the same transaction, so a result and
+   * the next round's game are saved together
+   */
+  private static async runGameTransaction<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+    const db = getDatabase();
+
+    const { data: session, error: sessionError } = await db
+      .from('sessions')
+      .select('group_id, tournament')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError) {
+      throw sessionError;
+    }
+
+    const lockKey = session?.group_id ? `group:${session.group_id}` : `session:${sessionId}`;
+    const result = await runInTransaction(async () => {
+      const value = await fn();
+      if (session?.tournament) {
+        await this.applyTournamentChanges(sessionId, session.tournament);
+      }
+      return value;
+    }, { lockKey });
+
+    // Open session and group pages pick the change up now rather than at their next check
+    LiveUpdateService.publish(sessionId, session?.group_id);
+    return result;
+  }
+
+  /**
+   * Create the bracket games whose sides are now known, and re-team or remove unplayed ones
+   * an edited result has changed (see planTournamentGames). None of these games has a result,
+   * so no stats are touched.
+   */
+  private static async applyTournamentChanges(sessionId: string, tournament: Tournament): Promise<void> {
+    const db = getDatabase();
+    const games = await this.getGamesBySessionId(sessionId);
+    const changes = planTournamentGames(sessionId, tournament, games);
+    let nextGameNumber = games.reduce((max, game) => Math.max(max, game.gameNumber), 0) + 1;
+
+    for (const { gameId, teamA, teamB } of changes.create) {
+      const { data: insertedGame, error: insertError } = await db
+        .from('games')
+        .insert({
+          id: gameId,
+          session_id: sessionId,
+          game_number: nextGameNumber++,
+          team_a: teamA,
+          team_b: teamB,
+          winning_team: null,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw insertError;
+      }
+      await AuditService.recordGameChange(sessionId, 'create', null, insertedGame);
+    }
+
+    for (const { gameId, teamA, teamB } of changes.update) {
+      const { data: currentGame, error: fetchError } = await db
         .from('games')
         .select('*')
         .eq('id', gameId)
@@ -262,15 +504,36 @@ export class GameService {
         .single();
 
       if (fetchError) {
-        console.error('[GameService] Error fetching game for deletion:', fetchError);
+        throw fetchError;
+      }
+
+      const { data: updatedGame, error: updateError } = await db
+        .from('games')
+        .update({ team_a: teamA, team_b: teamB, updated_at: new Date().toISOString() })
+        .eq('id', gameId)
+        .eq('session_id', sessionId)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw updateError;
       }
+      await AuditService.recordGameChange(sessionId, 'update', currentGame, updatedGame);
+    }
+
+    for (const gameId of changes.remove) {
+      const { data: game, error: fetchError } = await db
+        .from('games')
+        .select('*')
+        .eq('id', gameId)
+        .eq('session_id', sessionId)
+        .single();
 
-      // Reverse stats if game had a winner
-      if (game?.winning_team) {
-        await this.reverseStatsForGame(sessionId, this.mapRowToGame(game as any));
+      if (fetchError) {
+        throw fetchError;
       }
 
-      const { error: deleteError } = await supabase
+      const { error: deleteError } = await db
         .from('games')
         .delete()
         .eq('id', gameId)
@@ -279,195 +542,225 @@ export class GameService {
       if (deleteError) {
         throw deleteError;
       }
-    } catch (error) {
-      console.error('[GameService] Error deleting game:', error);
-      throw new Error('Failed to delete game');
+      await AuditService.recordGameChange(sessionId, 'delete', game, null);
     }
   }
 
   /**
-   * Reverse ELO and stats for a game (when deleting or changing result)
+   * Whether no other result in the game's group comes after it in replay order
+   * (created_at, then game_number - see EloService.recalculateGroupElo)
    */
-  private static async reverseStatsForGame(sessionId: string, game: Game): Promise<void> {
-    try {
-      if (!game.winningTeam) return;
+  private static async isLatestResult(sessionId: string, game: GameRow): Promise<boolean> {
+    const sessionIds = await this.getGroupSessionIds(sessionId);
+    if (sessionIds.length === 0) return true;
+
+    const { data: laterGames, error } = await getDatabase()
+      .from('games')
+      .select('id, game_number, created_at')
+      .in('session_id', sessionIds)
+      .not('winning_team', 'is', null)
+      .gte('created_at', game.created_at)
+      .neq('id', game.id);
+
+    if (error) {
+      throw error;
+    }
 
-      const supabase = createSupabaseClient();
+    const playedAt = new Date(game.created_at).getTime();
+    return !(laterGames || []).some(other => {
+      const otherPlayedAt = new Date(other.created_at).getTime();
+      return otherPlayedAt > playedAt || (otherPlayedAt === playedAt && other.game_number > game.game_number);
+    });
+  }
 
-      // Check if this session belongs to a group
-      const { data: session, error: sessionError } = await supabase
-        .from('sessions')
-        .select('group_id')
-        .eq('id', sessionId)
-        .single();
+  /**
+   * Replay every game in the session's group to bring its stats in line after an edit or delete
+   * A result can't be taken back in place: streaks, and the ratings of every game played
+   * after it, depend on it. Runs in the caller's transaction, like StatsRebuildService.
+   */
+  private static async replayGroupStats(sessionId: string): Promise<void> {
+    const { data: session, error: sessionError } = await getDatabase()
+      .from('sessions')
+      .select('group_id')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError) {
+      throw sessionError;
+    }
 
-      if (sessionError || !session?.group_id) {
-        // Not a group session, no stats to reverse
-        return;
-      }
+    if (!session?.group_id) {
+      // Not a group session, no stats to replay
+      return;
+    }
 
-      const groupId = session.group_id;
+    await EloService.recalculateGroupElo(session.group_id);
+    await PairingStatsService.recalculatePairingStats(session.group_id);
+  }
 
-      // Get player mappings (session player ID -> group player ID)
-      const allPlayerIds = [...game.teamA, ...game.teamB];
-      const { data: players, error: playersError } = await supabase
-        .from('players')
-        .select('id, group_player_id')
-        .in('id', allPlayerIds);
+  /**
+   * IDs of every session in the session's group (none for a standalone session)
+   */
+  private static async getGroupSessionIds(sessionId: string): Promise<string[]> {
+    const db = getDatabase();
 
-      if (playersError || !players) {
-        console.error('[GameService] Error fetching player mappings for reversal:', playersError);
-        return;
-      }
+    const { data: session, error: sessionError } = await db
+      .from('sessions')
+      .select('group_id')
+      .eq('id', sessionId)
+      .maybeSingle();
 
-      const playerToGroupPlayer = new Map<string, string>();
-      players.forEach(p => {
-        if (p.group_player_id) {
-          playerToGroupPlayer.set(p.id, p.group_player_id);
-        }
-      });
+    if (sessionError) {
+      throw sessionError;
+    }
 
-      // Map team player IDs to group player IDs
-      const teamAGroupIds = game.teamA
-        .map(id => playerToGroupPlayer.get(id))
-        .filter(Boolean) as string[];
-      const teamBGroupIds = game.teamB
-        .map(id => playerToGroupPlayer.get(id))
-        .filter(Boolean) as string[];
-
-      // Reverse ELO and individual stats
-      if (teamAGroupIds.length > 0 || teamBGroupIds.length > 0) {
-        await EloService.reverseGameResult(teamAGroupIds, teamBGroupIds, game.winningTeam);
-        
-        // Reverse pairing stats for doubles games
-        if (teamAGroupIds.length === 2 && teamBGroupIds.length === 2) {
-          await PairingStatsService.reversePartnerStats(groupId, teamAGroupIds, game.winningTeam === 'A');
-          await PairingStatsService.reversePartnerStats(groupId, teamBGroupIds, game.winningTeam === 'B');
-          await PairingStatsService.reversePairingMatchup(groupId, teamAGroupIds, teamBGroupIds, game.winningTeam);
-        }
-      }
-    } catch (error) {
-      console.error('[GameService] Error reversing stats:', error);
+    if (!session?.group_id) {
+      return [];
     }
+
+    const { data: sessions, error: sessionsError } = await db
+      .from('sessions')
+      .select('id')
+      .eq('group_id', session.group_id);
+
+    if (sessionsError) {
+      throw sessionsError;
+    }
+
+    return (sessions || []).map(s => s.id);
   }
 
   /**
    * Update ELO ratings for players in a completed game
+   * Throws on failure so the surrounding transaction rolls back
    */
   private static async updateEloForGame(sessionId: string, game: Game): Promise<void> {
-    try {
-      if (!game.winningTeam) return;
+    if (!game.winningTeam) return;
 
-      const supabase = createSupabaseClient();
+    const db = getDatabase();
 
-      // Check if this session belongs to a group
-      const { data: session, error: sessionError } = await supabase
-        .from('sessions')
-        .select('group_id')
-        .eq('id', sessionId)
-        .single();
+    // Check if this session belongs to a group
+    const { data: session, error: sessionError } = await db
+      .from('sessions')
+      .select('group_id')
+      .eq('id', sessionId)
+      .single();
 
-      if (sessionError || !session?.group_id) {
-        // Not a group session, no ELO to update
-        return;
-      }
+    if (sessionError && sessionError.code !== 'PGRST116') {
+      throw sessionError;
+    }
 
-      const groupId = session.group_id;
+    if (!session?.group_id) {
+      // Not a group session, no ELO to update
+      return;
+    }
 
-      // Get player mappings (session player ID -> group player ID)
-      const allPlayerIds = [...game.teamA, ...game.teamB];
-      const { data: players, error: playersError } = await supabase
-        .from('players')
-        .select('id, name, group_player_id')
-        .in('id', allPlayerIds);
+    const groupId = session.group_id;
 
-      if (playersError || !players) {
-        console.error('[GameService] Error fetching player mappings:', playersError);
-        return;
-      }
+    // Get player mappings (session player ID -> group player ID)
+    const allPlayerIds = [...game.teamA, ...game.teamB];
+    const { data: players, error: playersError } = await db
+      .from('players')
+      .select('id, name, group_player_id')
+      .in('id', allPlayerIds);
 
-      // Get all group players for this group (for auto-linking by name)
-      const { data: groupPlayers } = await supabase
-        .from('group_players')
-        .select('id, name')
-        .eq('group_id', groupId);
+    if (playersError) {
+      throw playersError;
+    }
 
-      const groupPlayersByName = new Map<string, string>();
-      (groupPlayers || []).forEach(gp => {
-        groupPlayersByName.set(gp.name.toLowerCase().trim(), gp.id);
-      });
+    // Get all group players for this group (for auto-linking by name)
+    const { data: groupPlayers, error: groupPlayersError } = await db
+      .from('group_players')
+      .select('id, name')
+      .eq('group_id', groupId);
 
-      const playerToGroupPlayer = new Map<string, string>();
-      const playersToUpdate: { id: string; groupPlayerId: string }[] = [];
+    if (groupPlayersError) {
+      throw groupPlayersError;
+    }
 
-      players.forEach(p => {
-        if (p.group_player_id) {
-          playerToGroupPlayer.set(p.id, p.group_player_id);
-        } else {
-          // Try to auto-link by name match
-          const matchedGroupPlayerId = groupPlayersByName.get(p.name.toLowerCase().trim());
-          if (matchedGroupPlayerId) {
-            playerToGroupPlayer.set(p.id, matchedGroupPlayerId);
-            playersToUpdate.push({ id: p.id, groupPlayerId: matchedGroupPlayerId });
-          }
+    const groupPlayersByName = new Map<string, string>();
+    (groupPlayers || []).forEach(gp => {
+      groupPlayersByName.set(gp.name.toLowerCase().trim(), gp.id);
+    });
+
+    const playerToGroupPlayer = new Map<string, string>();
+    const playersToUpdate: { id: string; groupPlayerId: string }[] = [];
+
+    (players || []).forEach(p => {
+      if (p.group_player_id) {
+        playerToGroupPlayer.set(p.id, p.group_player_id);
+      } else {
+        // Try to auto-link by name match
+        const matchedGroupPlayerId = groupPlayersByName.get(p.name.toLowerCase().trim());
+        if (matchedGroupPlayerId) {
+          playerToGroupPlayer.set(p.id, matchedGroupPlayerId);
+          playersToUpdate.push({ id: p.id, groupPlayerId: matchedGroupPlayerId });
         }
-      });
+      }
+    });
+
+    // Update players with missing group_player_id links
+    for (const update of playersToUpdate) {
+      const { error: linkError } = await db
+        .from('players')
+        .update({ group_player_id: update.groupPlayerId })
+        .eq('id', update.id);
 
-      // Update players with missing group_player_id links
-      for (const update of playersToUpdate) {
-        await supabase
-          .from('players')
-          .update({ group_player_id: update.groupPlayerId })
-          .eq('id', update.id);
+      if (linkError) {
+        throw linkError;
       }
+    }
 
-      // Map team player IDs to group player IDs
-      const teamAGroupIds = game.teamA
-        .map(id => playerToGroupPlayer.get(id))
-        .filter(Boolean) as string[];
-      const teamBGroupIds = game.teamB
-        .map(id => playerToGroupPlayer.get(id))
-        .filter(Boolean) as string[];
-
-      // Update ELO ratings and individual stats
-      if (teamAGroupIds.length > 0 || teamBGroupIds.length > 0) {
-        await EloService.processGameResult(teamAGroupIds, teamBGroupIds, game.winningTeam);
+    // Map team player IDs to group player IDs
+    const teamAGroupIds = game.teamA
+      .map(id => playerToGroupPlayer.get(id))
+      .filter(Boolean) as string[];
+    const teamBGroupIds = game.teamB
+      .map(id => playerToGroupPlayer.get(id))
+      .filter(Boolean) as string[];
+
+    // Update ELO ratings and individual stats
+    if (teamAGroupIds.length > 0 || teamBGroupIds.length > 0) {
+      await EloService.processGameResult(teamAGroupIds, teamBGroupIds, game.winningTeam, {
+        groupId,
+        gameId: game.id,
+        // Stamped with when the game was recorded, as a rebuild does, so the two agree
+        recordedAt: game.createdAt,
+        teamAScore: game.teamAScore,
+        teamBScore: game.teamBScore,
+      });
+      
+      // Update pairing stats for doubles games
+      if (teamAGroupIds.length === 2 && teamBGroupIds.length === 2) {
+        // Get current pairing ELOs before updating (for ELO calculation)
+        const teamAElo = await PairingStatsService.getPairingElo(groupId, teamAGroupIds[0], teamAGroupIds[1]);
+        const teamBElo = await PairingStatsService.getPairingElo(groupId, teamBGroupIds[0], teamBGroupIds[1]);
         
-        // Update pairing stats for doubles games
-        if (teamAGroupIds.length === 2 && teamBGroupIds.length === 2) {
-          // Get current pairing ELOs before updating (for ELO calculation)
-          const teamAElo = await PairingStatsService.getPairingElo(groupId, teamAGroupIds[0], teamAGroupIds[1]);
-          const teamBElo = await PairingStatsService.getPairingElo(groupId, teamBGroupIds[0], teamBGroupIds[1]);
-          
-          // Get scores if available
-          const teamAScore = game.teamAScore;
-          const teamBScore = game.teamBScore;
-          
-          // Update partner stats for both teams with opponent ELO and scores
-          await PairingStatsService.updatePartnerStats(
-            groupId, 
-            teamAGroupIds, 
-            game.winningTeam === 'A',
-            teamBElo,
-            teamAScore,
-            teamBScore
-          );
-          await PairingStatsService.updatePartnerStats(
-            groupId, 
-            teamBGroupIds, 
-            game.winningTeam === 'B',
-            teamAElo,
-            teamBScore,
-            teamAScore
-          );
-          
-          // Update head-to-head pairing matchup
-          await PairingStatsService.updatePairingMatchup(groupId, teamAGroupIds, teamBGroupIds, game.winningTeam);
-        }
+        // Get scores if available
+        const teamAScore = game.teamAScore;
+        const teamBScore = game.teamBScore;
+        
+        // Update partner stats for both teams with opponent ELO and scores
+        await PairingStatsService.updatePartnerStats(
+          groupId, 
+          teamAGroupIds, 
+          game.winningTeam === 'A',
+          teamBElo,
+          teamAScore,
+          teamBScore
+        );
+        await PairingStatsService.updatePartnerStats(
+          groupId, 
+          teamBGroupIds, 
+          game.winningTeam === 'B',
+          teamAElo,
+          teamBScore,
+          teamAScore
+        );
+        
+        // Update head-to-head pairing matchup
+        await PairingStatsService.updatePairingMatchup(groupId, teamAGroupIds, teamBGroupIds, game.winningTeam);
       }
-    } catch (error) {
-      // Log but don't throw - ELO update failure shouldn't fail the game update
-      console.error('[GameService] Error updating ELO:', error);
     }
   }
 
@@ -489,8 +782,10 @@ export class GameService {
       teamA: parseJson<[string, string] | [string]>(row.team_a),
       teamB: parseJson<[string, string] | [string]>(row.team_b),
       winningTeam: row.winning_team as 'A' | 'B' | null,
-      teamAScore: row.team_a_score || undefined,
-      teamBScore: row.team_b_score || undefined,
+      teamAScore: row.team_a_score ?? undefined,
+      teamBScore: row.team_b_score ?? undefined,
+      sets: row.sets ? parseJson<GameSet[]>(row.sets) : undefined,
+      rallies: row.rallies ? parseJson<RallyWinner[][]>(row.rallies) : undefined,
       createdAt: row.created_at ? new Date(row.created_at) : undefined,
       updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
     };
@@ -1,40 +1,57 @@
-import { createSupabaseClient } from '@/lib/supabase';
-import { Group, GroupPlayer, Session } from '@/types';
+import { getDatabase, runInTransaction } from '@/lib/db';
+import { CurrencySettings, Group, GroupPlayer, GroupRatingSettings, Session } from '@/types';
+import { DEFAULT_CURRENCY_SETTINGS } from '@/lib/currency';
+import { isScoringRuleName } from '@/lib/scoring';
+import { EloService, DEFAULT_RATING_SETTINGS } from './eloService';
+import { AuditService } from './auditService';
 
 /**
  * Generate a short shareable link code
  * Uses 6 characters from an unambiguous character set
  * (removed 0/O/l/1/I to avoid confusion when sharing verbally)
+ * Spectator links are longer since they are only shared as links
  */
-function generateShareableLink(): string {
+function generateShareableLink(length: number = 6): string {
   const chars = 'abcdefghjkmnpqrstuvwxyz23456789';
   let result = '';
-  for (let i = 0; i < 6; i++) {
+  for (let i = 0; i < length; i++) {
     result += chars.charAt(Math.floor(Math.random() * chars.length));
   }
   return result;
 }
 
+// Outcome of GroupService.claimGroupPlayer - the claim route maps these to 404/409
+export type ClaimResult = 'claimed' | 'not_found' | 'claimed_by_other' | 'already_has_player';
+
 /**
  * Service layer for group database operations
  */
 export class GroupService {
   /**
    * Create a new group
+   * adminPinHash comes from hashAdminPin() in lib/groupAccess.ts
    */
-  static async createGroup(name: string): Promise<Group> {
+  static async createGroup(
+    name: string,
+    currencySettings: CurrencySettings = DEFAULT_CURRENCY_SETTINGS,
+    adminPinHash: string | null = null
+  ): Promise<Group> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       const groupId = `group-${Date.now()}`;
       const shareableLink = generateShareableLink();
       
-      const { data, error } = await supabase
+      const { data, error } = await db
         .from('groups')
         .insert({
           id: groupId,
           name,
           shareable_link: shareableLink,
+          spectator_link: generateShareableLink(10),
+          admin_pin_hash: adminPinHash,
+          currency: currencySettings.currency,
+          currency_locale: currencySettings.locale,
         })
         .select()
         .single();
@@ -55,9 +72,9 @@ export class GroupService {
    */
   static async getAllGroups(): Promise<Group[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
-      const { data, error } = await supabase
+      const { data, error } = await db
         .from('groups')
         .select('*')
         .order('created_at', { ascending: false });
@@ -78,12 +95,12 @@ export class GroupService {
    */
   static async getGroupById(groupId: string): Promise<Group | null> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Only select the columns we need for better performance
-      const { data, error } = await supabase
+      const { data, error } = await db
         .from('groups')
-        .select('id, name, shareable_link, created_at')
+        .select('id, name, shareable_link, spectator_link, admin_pin_hash, created_at, rating_engine, elo_k_factor, elo_starting_rating, elo_rating_floor, elo_margin_of_victory')
         .eq('id', groupId)
         .single();
 
@@ -106,9 +123,9 @@ export class GroupService {
    */
   static async getGroupByShareableLink(shareableLink: string): Promise<Group | null> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
-      const { data, error } = await supabase
+      const { data, error } = await db
         .from('groups')
         .select('*')
         .eq('shareable_link', shareableLink)
@@ -128,15 +145,230 @@ export class GroupService {
     }
   }
 
+  /**
+   * Get a group by its read-only spectator link
+   */
+  static async getGroupBySpectatorLink(spectatorLink: string): Promise<Group | null> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('groups')
+        .select('*')
+        .eq('spectator_link', spectatorLink)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        throw error;
+      }
+
+      return this.mapRowToGroup(data);
+    } catch (error) {
+      console.error('[GroupService] Error fetching group by spectator link:', error);
+      throw new Error('Failed to fetch group');
+    }
+  }
+
+  /**
+   * Get the hash of a group's admin PIN (null if no PIN is set)
+   * Returns null if the group doesn't exist
+   */
+  static async getGroupAdminPinHash(groupId: string): Promise<{
+    adminPinHash: string | null;
+    failedAttempts: number;
+    failedSince: string | null;
+  } | null> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('groups')
+        .select('id, admin_pin_hash, admin_pin_failed_attempts, admin_pin_failed_since')
+        .eq('id', groupId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        throw error;
+      }
+
+      return {
+        adminPinHash: data.admin_pin_hash ?? null,
+        failedAttempts: data.admin_pin_failed_attempts ?? 0,
+        failedSince: data.admin_pin_failed_since ?? null,
+      };
+    } catch (error) {
+      console.error('[GroupService] Error fetching group admin PIN:', error);
+      throw new Error('Failed to fetch group');
+    }
+  }
+
+  /**
+   * Count an admin PIN try, but only if the count is still the one the caller read
+   * Returns false when another request changed it first, so parallel tries can't share a count
+   */
+  static async claimAdminPinAttempt(
+    groupId: string,
+    expectedAttempts: number,
+    failedAttempts: number,
+    failedSince: string
+  ): Promise<boolean> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('groups')
+        .update({ admin_pin_failed_attempts: failedAttempts, admin_pin_failed_since: failedSince })
+        .eq('id', groupId)
+        .eq('admin_pin_failed_attempts', expectedAttempts)
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('[GroupService] Error saving admin PIN attempts:', error);
+      throw new Error('Failed to save admin PIN attempts');
+    }
+  }
+
+  /**
+   * Save the wrong admin PIN count for a group's lockout (0 and null clear it)
+   */
+  static async setAdminPinFailures(groupId: string, failedAttempts: number, failedSince: string | null): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      const { error } = await db
+        .from('groups')
+        .update({ admin_pin_failed_attempts: failedAttempts, admin_pin_failed_since: failedSince })
+        .eq('id', groupId);
+
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      console.error('[GroupService] Error saving admin PIN attempts:', error);
+      throw new Error('Failed to save admin PIN attempts');
+    }
+  }
+
+  /**
+   * Set or change a group's admin PIN (already hashed)
+   */
+  static async setAdminPinHash(groupId: string, adminPinHash: string): Promise<Group> {
+    try {
+      return await runInTransaction(async () => {
+        const db = getDatabase();
+
+        const before = await this.getGroupAdminPinHash(groupId);
+
+        const { data, error } = await db
+          .from('groups')
+          .update({ admin_pin_hash: adminPinHash, admin_pin_failed_attempts: 0, admin_pin_failed_since: null })
+          .eq('id', groupId)
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+
+        await AuditService.recordAdminPinChange(groupId, !!before?.adminPinHash);
+
+        return this.mapRowToGroup(data);
+      });
+    } catch (error) {
+      console.error('[GroupService] Error setting admin PIN:', error);
+      throw new Error('Failed to set admin PIN');
+    }
+  }
+
+  /**
+   * Update a group's rating settings
+   * Callers should recalculate the group's ELO afterwards so existing ratings reflect the new settings
+   */
+  static async updateRatingSettings(groupId: string, settings: GroupRatingSettings): Promise<Group> {
+    try {
+      return await this.updateGroupSettings(groupId, {
+        rating_engine: settings.engine,
+        elo_k_factor: settings.kFactor,
+        elo_starting_rating: settings.startingRating,
+        elo_rating_floor: settings.ratingFloor,
+        elo_margin_of_victory: settings.marginOfVictory,
+      });
+    } catch (error) {
+      console.error('[GroupService] Error updating rating settings:', error);
+      throw new Error('Failed to update rating settings');
+    }
+  }
+
+  /**
+   * Update a group's default currency
+   * Only sessions created afterwards use it; existing sessions keep the currency they were played in
+   */
+  static async updateCurrencySettings(groupId: string, settings: CurrencySettings): Promise<Group> {
+    try {
+      return await this.updateGroupSettings(groupId, {
+        currency: settings.currency,
+        currency_locale: settings.locale,
+      });
+    } catch (error) {
+      console.error('[GroupService] Error updating currency settings:', error);
+      throw new Error('Failed to update currency settings');
+    }
+  }
+
+  /**
+   * Update settings columns on a group and log the change to the audit log
+   */
+  private static async updateGroupSettings(groupId: string, patch: Record<string, unknown>): Promise<Group> {
+    return runInTransaction(async () => {
+      const db = getDatabase();
+
+      const { data: before, error: fetchError } = await db
+        .from('groups')
+        .select('*')
+        .eq('id', groupId)
+        .single();
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const { data, error } = await db
+        .from('groups')
+        .update(patch)
+        .eq('id', groupId)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      await AuditService.recordGroupSettingsChange(before, data);
+
+      return this.mapRowToGroup(data);
+    });
+  }
+
   /**
    * Delete a group
    */
   static async deleteGroup(groupId: string): Promise<void> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // First check if group exists
-      const { data: existingGroup, error: fetchError } = await supabase
+      const { data: existingGroup, error: fetchError } = await db
         .from('groups')
         .select('id, name')
         .eq('id', groupId)
@@ -149,13 +381,13 @@ export class GroupService {
 
       console.log('[GroupService] Deleting group:', existingGroup);
       
-      const { error } = await supabase
+      const { error } = await db
         .from('groups')
         .delete()
         .eq('id', groupId);
 
       if (error) {
-        console.error('[GroupService] Supabase delete error:', error);
+        console.error('[GroupService] Delete error:', error);
         throw error;
       }
 
@@ -176,12 +408,12 @@ export class GroupService {
    */
   static async getGroupPlayers(groupId: string): Promise<GroupPlayer[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Get all ACTIVE group players (soft-deleted players are excluded)
-      const { data: groupPlayers, error } = await supabase
+      const { data: groupPlayers, error } = await db
         .from('group_players')
-        .select('id, group_id, name, elo_rating, created_at, is_active')
+        .select('id, group_id, name, elo_rating, user_id, created_at, is_active')
         .eq('group_id', groupId)
         .eq('is_active', true)
         .order('name', { ascending: true });
@@ -195,7 +427,7 @@ export class GroupService {
       }
 
       // Get all sessions for this group
-      const { data: sessions } = await supabase
+      const { data: sessions } = await db
         .from('sessions')
         .select('id')
         .eq('group_id', groupId);
@@ -212,12 +444,13 @@ export class GroupService {
           wins: 0,
           losses: 0,
           totalGames: 0,
+          userId: row.user_id ?? undefined,
           createdAt: row.created_at ? new Date(row.created_at) : undefined,
         }));
       }
 
       // Get player mappings (session player ID -> group player ID)
-      const { data: players } = await supabase
+      const { data: players } = await db
         .from('players')
         .select('id, group_player_id, name')
         .in('session_id', sessionIds)
@@ -232,7 +465,7 @@ export class GroupService {
 
 
       // Get all completed games (limited to prevent memory issues)
-      const { data: games } = await supabase
+      const { data: games } = await db
         .from('games')
         .select('team_a, team_b, winning_team')
         .in('session_id', sessionIds)
@@ -278,6 +511,7 @@ export class GroupService {
           wins: stats.wins,
           losses: stats.losses,
           totalGames: stats.wins + stats.losses,
+          userId: row.user_id ?? undefined,
           createdAt: row.created_at ? new Date(row.created_at) : undefined,
         };
       });
@@ -293,54 +527,62 @@ export class GroupService {
    */
   static async addGroupPlayer(groupId: string, name: string): Promise<GroupPlayer> {
     try {
-      const supabase = createSupabaseClient();
-      
-      // Check if a soft-deleted player with the same name exists (case-insensitive)
-      const { data: existingPlayers } = await supabase
-        .from('group_players')
-        .select('id, group_id, name, elo_rating, created_at, is_active')
-        .eq('group_id', groupId)
-        .eq('is_active', false)
-        .ilike('name', name);
-      
-      // If found, reactivate the existing player (preserves ID and all stats)
-      if (existingPlayers && existingPlayers.length > 0) {
-        const existingPlayer = existingPlayers[0];
-        
-        const { data: reactivated, error: reactivateError } = await supabase
+      return await runInTransaction(async () => {
+        const db = getDatabase();
+
+        // Check if a soft-deleted player with the same name exists (case-insensitive)
+        const { data: existingPlayers } = await db
           .from('group_players')
-          .update({ is_active: true })
-          .eq('id', existingPlayer.id)
+          .select('*')
+          .eq('group_id', groupId)
+          .eq('is_active', false)
+          .ilike('name', name);
+
+        // If found, reactivate the existing player (preserves ID and all stats)
+        if (existingPlayers && existingPlayers.length > 0) {
+          const existingPlayer = existingPlayers[0];
+
+          const { data: reactivated, error: reactivateError } = await db
+            .from('group_players')
+            .update({ is_active: true })
+            .eq('id', existingPlayer.id)
+            .select()
+            .single();
+
+          if (reactivateError) {
+            throw reactivateError;
+          }
+
+          await AuditService.recordGroupPlayerChange(existingPlayer, reactivated);
+
+          console.log(`[GroupService] Reactivated soft-deleted player "${name}" with preserved stats`);
+          return this.mapRowToGroupPlayer(reactivated);
+        }
+
+        // No existing player found, create a new one at the group's starting rating
+        const playerId = `gp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const { startingRating } = await EloService.getRatingSettings(groupId);
+
+        const { data, error } = await db
+          .from('group_players')
+          .insert({
+            id: playerId,
+            group_id: groupId,
+            name,
+            elo_rating: startingRating,
+            is_active: true,
+          })
           .select()
           .single();
-        
-        if (reactivateError) {
-          throw reactivateError;
+
+        if (error) {
+          throw error;
         }
-        
-        console.log(`[GroupService] Reactivated soft-deleted player "${name}" with preserved stats`);
-        return this.mapRowToGroupPlayer(reactivated);
-      }
-      
-      // No existing player found, create a new one
-      const playerId = `gp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      
-      const { data, error } = await supabase
-        .from('group_players')
-        .insert({
-          id: playerId,
-          group_id: groupId,
-          name,
-          is_active: true,
-        })
-        .select()
-        .single();
 
-      if (error) {
-        throw error;
-      }
+        await AuditService.recordGroupPlayerChange(null, data);
 
-      return this.mapRowToGroupPlayer(data);
+        return this.mapRowToGroupPlayer(data);
+      });
     } catch (error) {
       console.error('[GroupService] Error adding group player:', error);
       throw new Error('Failed to add group player');
@@ -353,105 +595,248 @@ export class GroupService {
    */
   static async addGroupPlayers(groupId: string, names: string[]): Promise<GroupPlayer[]> {
     try {
-      const supabase = createSupabaseClient();
-      
-      // Check for existing soft-deleted players with matching names
-      const { data: existingInactive } = await supabase
-        .from('group_players')
-        .select('id, group_id, name, elo_rating, created_at, is_active')
-        .eq('group_id', groupId)
-        .eq('is_active', false);
-      
-      type InactivePlayer = { id: string; group_id: string; name: string; elo_rating: number | null; created_at: string | null; is_active: boolean };
-      const inactiveByName = new Map<string, InactivePlayer>();
-      (existingInactive || []).forEach((p: InactivePlayer) => {
-        inactiveByName.set(p.name.toLowerCase().trim(), p);
-      });
-      
-      const toReactivate: string[] = [];
-      const newNames: string[] = [];
-      
-      names.forEach(name => {
-        const normalizedName = name.toLowerCase().trim();
-        const existing = inactiveByName.get(normalizedName);
-        if (existing) {
-          toReactivate.push(existing.id);
-        } else {
-          newNames.push(name);
+      return await runInTransaction(async () => {
+        const db = getDatabase();
+
+        // Check for existing soft-deleted players with matching names
+        const { data: existingInactive } = await db
+          .from('group_players')
+          .select('*')
+          .eq('group_id', groupId)
+          .eq('is_active', false);
+
+        type InactivePlayer = { id: string; group_id: string; name: string; elo_rating: number | null; created_at: string | null; is_active: boolean };
+        const inactiveByName = new Map<string, InactivePlayer>();
+        (existingInactive || []).forEach((p: InactivePlayer) => {
+          inactiveByName.set(p.name.toLowerCase().trim(), p);
+        });
+
+        const toReactivate: InactivePlayer[] = [];
+        const newNames: string[] = [];
+
+        names.forEach(name => {
+          const normalizedName = name.toLowerCase().trim();
+          const existing = inactiveByName.get(normalizedName);
+          if (existing) {
+            toReactivate.push(existing);
+          } else {
+            newNames.push(name);
+          }
+        });
+
+        const results: GroupPlayer[] = [];
+
+        // Reactivate existing soft-deleted players
+        if (toReactivate.length > 0) {
+          const { data: reactivated } = await db
+            .from('group_players')
+            .update({ is_active: true })
+            .in('id', toReactivate.map((p) => p.id))
+            .select();
+
+          if (reactivated) {
+            for (const row of reactivated) {
+              await AuditService.recordGroupPlayerChange(toReactivate.find((p) => p.id === row.id) || null, row);
+            }
+            results.push(...reactivated.map((row) => this.mapRowToGroupPlayer(row)));
+          }
+          console.log(`[GroupService] Reactivated ${toReactivate.length} soft-deleted players`);
+        }
+
+        // Create new players for names that don't have existing records
+        if (newNames.length > 0) {
+          const { startingRating } = await EloService.getRatingSettings(groupId);
+          const playersData = newNames.map((name) => ({
+            id: `gp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            group_id: groupId,
+            name,
+            elo_rating: startingRating,
+            is_active: true,
+          }));
+
+          const { data, error } = await db
+            .from('group_players')
+            .insert(playersData)
+            .select();
+
+          if (error) {
+            throw error;
+          }
+
+          if (data) {
+            for (const row of data) {
+              await AuditService.recordGroupPlayerChange(null, row);
+            }
+            results.push(...data.map((row) => this.mapRowToGroupPlayer(row)));
+          }
         }
+
+        return results;
       });
-      
-      const results: GroupPlayer[] = [];
-      
-      // Reactivate existing soft-deleted players
-      if (toReactivate.length > 0) {
-        const { data: reactivated } = await supabase
+    } catch (error) {
+      console.error('[GroupService] Error adding group players:', error);
+      throw new Error('Failed to add group players');
+    }
+  }
+
+  /**
+   * Remove a player from a group's player pool (soft-delete)
+   * The player is marked as inactive but their data is preserved
+   * This allows stats to be restored if the player is re-added later
+   * Scoped to the group so an admin PIN for one group can't remove another group's players
+   */
+  static async removeGroupPlayer(groupId: string, groupPlayerId: string): Promise<void> {
+    try {
+      await runInTransaction(async () => {
+        const db = getDatabase();
+
+        const { data: before, error: fetchError } = await db
           .from('group_players')
-          .update({ is_active: true })
-          .in('id', toReactivate)
-          .select();
-        
-        if (reactivated) {
-          results.push(...reactivated.map((row) => this.mapRowToGroupPlayer(row)));
+          .select('*')
+          .eq('id', groupPlayerId)
+          .eq('group_id', groupId)
+          .maybeSingle();
+
+        if (fetchError) {
+          throw fetchError;
         }
-        console.log(`[GroupService] Reactivated ${toReactivate.length} soft-deleted players`);
-      }
-      
-      // Create new players for names that don't have existing records
-      if (newNames.length > 0) {
-        const playersData = newNames.map((name) => ({
-          id: `gp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          group_id: groupId,
-          name,
-          is_active: true,
-        }));
-        
-        const { data, error } = await supabase
+
+        // Soft-delete: mark as inactive instead of deleting
+        // This preserves the group_player_id, stats, and session player links
+        const { data: after, error } = await db
           .from('group_players')
-          .insert(playersData)
+          .update({ is_active: false })
+          .eq('id', groupPlayerId)
+          .eq('group_id', groupId)
           .select();
 
         if (error) {
+          console.error('[GroupService] Soft-delete error:', error);
           throw error;
         }
-        
-        if (data) {
-          results.push(...data.map((row) => this.mapRowToGroupPlayer(row)));
+
+        if (before && before.is_active && after && after.length > 0) {
+          await AuditService.recordGroupPlayerChange(before, after[0]);
         }
-      }
 
-      return results;
+        console.log(`[GroupService] Soft-deleted group player ${groupPlayerId}`);
+      });
     } catch (error) {
-      console.error('[GroupService] Error adding group players:', error);
-      throw new Error('Failed to add group players');
+      console.error('[GroupService] Error removing group player:', error);
+      throw new Error('Failed to remove group player');
     }
   }
 
   /**
-   * Remove a player from a group's player pool (soft-delete)
-   * The player is marked as inactive but their data is preserved
-   * This allows stats to be restored if the player is re-added later
+   * Claim a group player for a signed-in user ("this is me")
+   * An account can hold one player per group, and a player can only be claimed once
    */
-  static async removeGroupPlayer(groupPlayerId: string): Promise<void> {
+  static async claimGroupPlayer(
+    groupId: string,
+    groupPlayerId: string,
+    userId: string
+  ): Promise<ClaimResult> {
     try {
-      const supabase = createSupabaseClient();
-      
-      // Soft-delete: mark as inactive instead of deleting
-      // This preserves the group_player_id, stats, and session player links
-      const { error } = await supabase
+      const db = getDatabase();
+
+      const { data: player, error: fetchError } = await db
         .from('group_players')
-        .update({ is_active: false })
-        .eq('id', groupPlayerId);
+        .select('id, user_id, is_active')
+        .eq('id', groupPlayerId)
+        .eq('group_id', groupId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      if (!player || !player.is_active) return 'not_found';
+      if (player.user_id === userId) return 'claimed';
+      if (player.user_id) return 'claimed_by_other';
+
+      // Only claim while still unclaimed, so two people claiming at once can't both win
+      const { data: claimed, error } = await db
+        .from('group_players')
+        .update({ user_id: userId })
+        .eq('id', groupPlayerId)
+        .eq('group_id', groupId)
+        .is('user_id', null)
+        .select('id');
 
       if (error) {
-        console.error('[GroupService] Soft-delete error:', error);
+        // idx_group_players_group_user: this account already has a player in the group
+        if (error.code === '23505') return 'already_has_player';
         throw error;
       }
-      
-      console.log(`[GroupService] Soft-deleted group player ${groupPlayerId}`);
+      if (!claimed || claimed.length === 0) return 'claimed_by_other';
+
+      return 'claimed';
     } catch (error) {
-      console.error('[GroupService] Error removing group player:', error);
-      throw new Error('Failed to remove group player');
+      console.error('[GroupService] Error claiming group player:', error);
+      throw new Error('Failed to claim group player');
+    }
+  }
+
+  /**
+   * Undo a claim
+   * With a userId only that account's claim is released; without one (group admin) any claim is
+   * Returns false if there was no matching claim
+   */
+  static async releaseGroupPlayer(
+    groupId: string,
+    groupPlayerId: string,
+    userId: string | null
+  ): Promise<boolean> {
+    try {
+      const db = getDatabase();
+
+      let query = db
+        .from('group_players')
+        .update({ user_id: null })
+        .eq('id', groupPlayerId)
+        .eq('group_id', groupId);
+      query = userId ? query.eq('user_id', userId) : query.not('user_id', 'is', null);
+
+      const { data, error } = await query.select('id');
+
+      if (error) throw error;
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('[GroupService] Error releasing group player:', error);
+      throw new Error('Failed to release group player');
+    }
+  }
+
+  /**
+   * Get the players a user has claimed, one per group, with their groups
+   */
+  static async getClaimedGroupPlayers(userId: string): Promise<{ group: Group; player: GroupPlayer }[]> {
+    try {
+      const db = getDatabase();
+
+      const { data: players, error } = await db
+        .from('group_players')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true);
+
+      if (error) throw error;
+      if (!players || players.length === 0) return [];
+
+      const { data: groups, error: groupsError } = await db
+        .from('groups')
+        .select('*')
+        .in('id', players.map((p: any) => p.group_id))
+        .order('created_at', { ascending: false });
+
+      if (groupsError) throw groupsError;
+
+      const playerByGroupId = new Map<string, any>(players.map((p: any) => [p.group_id, p]));
+      return (groups || []).map((row: any) => ({
+        group: this.mapRowToGroup(row),
+        player: this.mapRowToGroupPlayer(playerByGroupId.get(row.id)),
+      }));
+    } catch (error) {
+      console.error('[GroupService] Error fetching claimed group players:', error);
+      throw new Error('Failed to fetch claimed group players');
     }
   }
 
@@ -460,10 +845,10 @@ export class GroupService {
    */
   static async getGroupSessions(groupId: string): Promise<Session[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Primary query - try direct filter first (fastest)
-      let { data: sessionsData, error: sessionsError } = await supabase
+      let { data: sessionsData, error: sessionsError } = await db
         .from('sessions')
         .select('*')
         .eq('group_id', groupId)
@@ -474,7 +859,7 @@ export class GroupService {
       if (sessionsError || !sessionsData || sessionsData.length === 0) {
         // Fallback: Fetch recent sessions and filter in memory
         // This is more reliable but slightly slower - only used as fallback
-        const { data: allRecentSessions } = await supabase
+        const { data: allRecentSessions } = await db
           .from('sessions')
           .select('id, name, group_id, created_at')
           .order('created_at', { ascending: false })
@@ -489,7 +874,7 @@ export class GroupService {
           if (filtered.length > 0) {
             // Fetch full data for matching sessions
             const filteredIds = filtered.map(s => s.id);
-            const { data: fullSessionsData } = await supabase
+            const { data: fullSessionsData } = await db
               .from('sessions')
               .select('*')
               .in('id', filteredIds)
@@ -529,9 +914,9 @@ export class GroupService {
 
       // Batch fetch all players for all sessions in a single query (optimize N+1 problem)
       const sessionIds = uniqueSessions.map(s => s.id);
-      const { data: allPlayersData, error: playersError } = await supabase
+      const { data: allPlayersData, error: playersError } = await db
         .from('players')
-        .select('id, name, group_player_id, session_id')
+        .select('id, name, group_player_id, attendance_weight, session_id')
         .in('session_id', sessionIds)
         .order('created_at', { ascending: true });
 
@@ -548,6 +933,7 @@ export class GroupService {
           id: player.id,
           name: player.name,
           groupPlayerId: player.group_player_id || undefined,
+          attendanceWeight: player.attendance_weight ?? undefined,
         });
       });
 
@@ -567,6 +953,12 @@ export class GroupService {
           gameMode: session.game_mode as 'doubles' | 'singles',
           groupId: session.group_id || undefined,
           bettingEnabled: session.betting_enabled ?? true,
+          expenses: session.expenses || undefined,
+          costSplitMode: session.cost_split_mode || undefined,
+          currencySettings: session.currency
+            ? { currency: session.currency, locale: session.currency_locale || DEFAULT_CURRENCY_SETTINGS.locale }
+            : undefined,
+          scoringRule: isScoringRuleName(session.scoring_rule) ? session.scoring_rule : undefined,
         } as Session;
       });
 
@@ -592,7 +984,20 @@ export class GroupService {
       id: row.id,
       name: row.name,
       shareableLink: row.shareable_link,
+      spectatorLink: row.spectator_link ?? undefined,
+      hasAdminPin: !!row.admin_pin_hash, // The hash itself never leaves the server
       createdAt: row.created_at ? new Date(row.created_at) : undefined,
+      ratingSettings: {
+        engine: row.rating_engine ?? DEFAULT_RATING_SETTINGS.engine,
+        kFactor: row.elo_k_factor ?? DEFAULT_RATING_SETTINGS.kFactor,
+        startingRating: row.elo_starting_rating ?? DEFAULT_RATING_SETTINGS.startingRating,
+        ratingFloor: row.elo_rating_floor ?? DEFAULT_RATING_SETTINGS.ratingFloor,
+        marginOfVictory: row.elo_margin_of_victory ?? DEFAULT_RATING_SETTINGS.marginOfVictory,
+      },
+      currencySettings: {
+        currency: row.currency ?? DEFAULT_CURRENCY_SETTINGS.currency,
+        locale: row.currency_locale ?? DEFAULT_CURRENCY_SETTINGS.locale,
+      },
     };
   }
 
@@ -608,6 +1013,7 @@ export class GroupService {
       wins: row.wins || 0,
       losses: row.losses || 0,
       totalGames: row.total_games || 0,
+      userId: row.user_id ?? undefined,
       createdAt: row.created_at ? new Date(row.created_at) : undefined,
     };
   }
@@ -620,24 +1026,23 @@ export class GroupService {
     won: boolean
   ): Promise<void> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Get current stats
-      const { data: player, error: fetchError } = await supabase
+      const { data: player, error: fetchError } = await db
         .from('group_players')
         .select('wins, losses, total_games')
         .eq('id', groupPlayerId)
         .single();
 
       if (fetchError) {
-        console.error('[GroupService] Error fetching player for stats update:', fetchError);
-        return;
+        throw fetchError;
       }
 
       const currentWins = player?.wins || 0;
       const currentLosses = player?.losses || 0;
 
-      const { error: updateError } = await supabase
+      const { error: updateError } = await db
         .from('group_players')
         .update({
           wins: won ? currentWins + 1 : currentWins,
@@ -647,10 +1052,11 @@ export class GroupService {
         .eq('id', groupPlayerId);
 
       if (updateError) {
-        console.error('[GroupService] Error updating player stats:', updateError);
+        throw updateError;
       }
     } catch (error) {
       console.error('[GroupService] Error in updatePlayerStats:', error);
+      throw new Error('Failed to update player stats');
     }
   }
 
@@ -662,24 +1068,23 @@ export class GroupService {
     wasWin: boolean
   ): Promise<void> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Get current stats
-      const { data: player, error: fetchError } = await supabase
+      const { data: player, error: fetchError } = await db
         .from('group_players')
         .select('wins, losses, total_games')
         .eq('id', groupPlayerId)
         .single();
 
       if (fetchError) {
-        console.error('[GroupService] Error fetching player for stats reversal:', fetchError);
-        return;
+        throw fetchError;
       }
 
       const currentWins = player?.wins || 0;
       const currentLosses = player?.losses || 0;
 
-      const { error: updateError } = await supabase
+      const { error: updateError } = await db
         .from('group_players')
         .update({
           wins: wasWin ? Math.max(0, currentWins - 1) : currentWins,
@@ -689,10 +1094,11 @@ export class GroupService {
         .eq('id', groupPlayerId);
 
       if (updateError) {
-        console.error('[GroupService] Error reversing player stats:', updateError);
+        throw updateError;
       }
     } catch (error) {
       console.error('[GroupService] Error in reversePlayerStats:', error);
+      throw new Error('Failed to reverse player stats');
     }
   }
 
@@ -747,7 +1153,7 @@ export class GroupService {
     firstSessionDate: Date | null;
     daysSinceFirstSession: number | null;
   }> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     try {
       // Run all independent queries in parallel
@@ -757,22 +1163,22 @@ export class GroupService {
         playersResult,
         partnerStatsResult
       ] = await Promise.all([
-        supabase
+        db
           .from('sessions')
           .select('id, date, created_at')
           .eq('group_id', groupId)
           .order('date', { ascending: true }),
-        supabase
+        db
           .from('pairing_matchups')
           .select('team1_player1_id, team1_player2_id, team2_player1_id, team2_player2_id, team1_wins, team1_losses, total_games')
           .eq('group_id', groupId)
           .gte('total_games', 3),
-        supabase
+        db
           .from('group_players')
           .select('id, name, elo_rating, wins, losses, total_games, best_win_streak, is_active')
           .eq('group_id', groupId)
           .eq('is_active', true),  // Only count active players in group stats
-        supabase
+        db
           .from('partner_stats')
           .select('player1_id, player2_id, wins, losses, total_games, elo_rating, best_win_streak')
           .eq('group_id', groupId)
@@ -806,7 +1212,7 @@ export class GroupService {
 
       if (sessionIds.length > 0) {
         // Get all games with scores for analysis (limited to prevent memory issues)
-        const { data: allGames } = await supabase
+        const { data: allGames } = await db
           .from('games')
           .select('team_a, team_b, winning_team, team_a_score, team_b_score')
           .in('session_id', sessionIds)
@@ -825,7 +1231,7 @@ export class GroupService {
           const pairingClutchMap = new Map<string, number>(); // "p1:p2" sorted key -> clutch count
 
           // Get player mappings
-          const { data: sessionPlayers } = await supabase
+          const { data: sessionPlayers } = await db
             .from('players')
             .select('id, group_player_id')
             .in('session_id', sessionIds)
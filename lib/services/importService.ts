@@ -0,0 +1,277 @@
+import { DatabaseRow, getDatabase, runInTransaction } from '@/lib/db';
+import {
+  CurrencySettings,
+  GroupImportFormat,
+  GroupImportIssue,
+  GroupImportPlayerMatch,
+  GroupImportPreview,
+  GroupImportResult,
+} from '@/types';
+import { getCurrencySettings } from '@/lib/currency';
+import { ImportedSession, ParsedImport, parseCsvImport, parseJsonImport } from '@/lib/groupImport';
+import { GroupService } from './groupService';
+import { EloService } from './eloService';
+import { PairingStatsService } from './pairingStatsService';
+import { AuditService } from './auditService';
+
+// Long files list the first problems and a count of the rest
+const MAX_LISTED_ERRORS = 100;
+
+// Rows per insert, so a large import doesn't become one enormous request
+const INSERT_BATCH_SIZE = 500;
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// What an import will do, worked out against the group's current players and sessions
+interface ImportPlan {
+  preview: GroupImportPreview;
+  sessions: ImportedSession[];
+  groupPlayerIds: Map<string, string>; // Normalized name -> existing group player ID
+  newPlayerNames: string[];
+}
+
+/**
+ * Service layer for importing sessions and games into a group
+ * Files are read by lib/groupImport.ts; this matches names to the group's players, previews
+ * the result, and writes everything in one transaction before rebuilding the group's stats
+ */
+export class ImportService {
+  /**
+   * Check a file against the group without writing anything
+   */
+  static async previewImport(groupId: string, format: GroupImportFormat, content: string): Promise<GroupImportPreview> {
+    try {
+      const plan = await this.planImport(groupId, format, content);
+      return plan.preview;
+    } catch (error) {
+      console.error('[ImportService] Error previewing import:', error);
+      throw new Error('Failed to preview import');
+    }
+  }
+
+  /**
+   * Import a file into the group: add missing players, create the sessions and games,
+   * then replay every game so ratings, records and pairing stats include the imported history
+   * Nothing is written if the file has errors - check preview.canImport on the result
+   */
+  static async importGroupData(groupId: string, format: GroupImportFormat, content: string): Promise<GroupImportResult> {
+    try {
+      return await runInTransaction(async () => {
+        const plan = await this.planImport(groupId, format, content);
+        if (!plan.preview.canImport) {
+          return { preview: plan.preview, sessionsCreated: 0, gamesCreated: 0, playersCreated: 0 };
+        }
+
+        const groupPlayerIds = new Map(plan.groupPlayerIds);
+        if (plan.newPlayerNames.length > 0) {
+          const created = await GroupService.addGroupPlayers(groupId, plan.newPlayerNames);
+          created.forEach((player) => groupPlayerIds.set(normalizeName(player.name), player.id));
+        }
+
+        const group = await GroupService.getGroupById(groupId);
+        const gamesCreated = await this.insertSessions(groupId, plan.sessions, groupPlayerIds, getCurrencySettings(group));
+
+        // Imported games are older than most of what's there, so replay the whole group
+        await EloService.recalculateGroupElo(groupId);
+        await PairingStatsService.recalculatePairingStats(groupId);
+
+        return {
+          preview: plan.preview,
+          sessionsCreated: plan.sessions.length,
+          gamesCreated,
+          playersCreated: plan.newPlayerNames.length,
+        };
+      }, { lockKey: `group:${groupId}` });
+    } catch (error) {
+      console.error('[ImportService] Error importing group data:', error);
+      throw new Error('Failed to import group data');
+    }
+  }
+
+  /**
+   * Parse the file, match its names to the group's players and collect everything worth showing
+   */
+  private static async planImport(groupId: string, format: GroupImportFormat, content: string): Promise<ImportPlan> {
+    const db = getDatabase();
+    const parsed: ParsedImport = format === 'json' ? parseJsonImport(content) : parseCsvImport(content);
+
+    const [{ data: playerRows, error: playersError }, { data: sessionRows, error: sessionsError }] = await Promise.all([
+      db.from('group_players').select('id, name, is_active').eq('group_id', groupId),
+      db.from('sessions').select('date').eq('group_id', groupId),
+    ]);
+    if (playersError) throw playersError;
+    if (sessionsError) throw sessionsError;
+
+    // Active players win over removed ones with the same name; removed players are linked, not re-added
+    const groupPlayers = new Map<string, DatabaseRow>();
+    (playerRows || [])
+      .slice()
+      .sort((a: DatabaseRow, b: DatabaseRow) => Number(a.is_active) - Number(b.is_active))
+      .forEach((row: DatabaseRow) => groupPlayers.set(normalizeName(row.name), row));
+    const groupPlayerIds = new Map(Array.from(groupPlayers.entries()).map(([key, row]) => [key, row.id as string]));
+
+    const players = new Map<string, GroupImportPlayerMatch>();
+    let guestCount = 0;
+    parsed.sessions.forEach((session) => {
+      const gameCounts = new Map<string, number>();
+      session.games.forEach((game) => {
+        game.teamA.concat(game.teamB).forEach((key) => gameCounts.set(key, (gameCounts.get(key) || 0) + 1));
+      });
+
+      session.players.forEach((player) => {
+        if (player.groupPlayerName === null) {
+          guestCount++;
+          return;
+        }
+        const key = normalizeName(player.groupPlayerName);
+        const existing = groupPlayers.get(key);
+        const match = players.get(key) || {
+          name: existing ? existing.name : player.groupPlayerName.trim(),
+          groupPlayerId: existing?.id,
+          isNew: !existing,
+          gameCount: 0,
+        };
+        match.gameCount += gameCounts.get(player.key) || 0;
+        players.set(key, match);
+      });
+    });
+
+    const warnings: GroupImportIssue[] = parsed.warnings.slice();
+    const existingDays = new Set((sessionRows || []).map((row: DatabaseRow) => new Date(row.date).toISOString().slice(0, 10)));
+    const clashes = parsed.sessions.filter((session) => existingDays.has(session.date.slice(0, 10)));
+    if (clashes.length > 0) {
+      warnings.push({
+        message: `${clashes.length} session${clashes.length !== 1 ? 's are' : ' is'} on a date that already has a session in this group (first: ${clashes[0].date.slice(0, 10)}) - check this file hasn't been imported before`,
+      });
+    }
+
+    const errors = parsed.errors.length > MAX_LISTED_ERRORS
+      ? parsed.errors.slice(0, MAX_LISTED_ERRORS).concat([{ message: `...and ${parsed.errors.length - MAX_LISTED_ERRORS} more` }])
+      : parsed.errors;
+    const gameCount = parsed.sessions.reduce((sum, session) => sum + session.games.length, 0);
+    const matches = Array.from(players.values()).sort((a, b) => Number(b.isNew) - Number(a.isNew) || a.name.localeCompare(b.name));
+
+    return {
+      preview: {
+        format,
+        canImport: errors.length === 0 && gameCount > 0,
+        sessions: parsed.sessions.map((session) => ({
+          date: session.date,
+          name: session.name,
+          gameMode: session.gameMode,
+          playerCount: session.players.length,
+          gameCount: session.games.length,
+        })),
+        players: matches,
+        guestCount,
+        gameCount,
+        errors: errors.length === 0 && gameCount === 0 ? [{ message: 'There are no games in this file' }] : errors,
+        warnings,
+      },
+      sessions: parsed.sessions,
+      groupPlayerIds,
+      newPlayerNames: matches.filter((m) => m.isNew).map((m) => m.name),
+    };
+  }
+
+  /**
+   * Write the sessions, their players and games, and log each session to the audit log
+   * Returns how many games were written
+   */
+  private static async insertSessions(
+    groupId: string,
+    sessions: ImportedSession[],
+    groupPlayerIds: Map<string, string>,
+    groupCurrency: CurrencySettings
+  ): Promise<number> {
+    const sessionRows: DatabaseRow[] = [];
+    const playerRows: DatabaseRow[] = [];
+    const gameRows: DatabaseRow[] = [];
+    const playersBySession = new Map<string, DatabaseRow[]>();
+
+    sessions.forEach((session) => {
+      const sessionId = generateId('session');
+      const playerIds = new Map(session.players.map((player) => [player.key, generateId('player')]));
+      const toPlayerId = (key: string) => playerIds.get(key)!;
+      const currency = session.settings.currencySettings ?? groupCurrency;
+
+      sessionRows.push({
+        id: sessionId,
+        name: session.name,
+        date: session.date,
+        organizer_id: session.settings.organizerKey ? toPlayerId(session.settings.organizerKey) : null,
+        court_cost_type: session.settings.courtCostType,
+        court_cost_value: session.settings.courtCostValue,
+        bird_cost_total: session.settings.birdCostTotal,
+        bet_per_player: session.settings.betPerPlayer,
+        game_mode: session.gameMode,
+        round_robin_count: session.settings.roundRobinCount,
+        group_id: groupId,
+        betting_enabled: session.settings.bettingEnabled,
+        expenses: session.settings.expenses
+          ? session.settings.expenses.map((expense) => ({
+              ...expense,
+              paidBy: playerIds.get(expense.paidBy) ?? expense.paidBy,
+              sharedBy: expense.sharedBy?.map((key) => playerIds.get(key) ?? key),
+            }))
+          : null,
+        cost_split_mode: session.settings.costSplitMode,
+        currency: currency.currency,
+        currency_locale: currency.locale,
+        scoring_rule: session.settings.scoringRule,
+        created_at: session.date,
+      });
+
+      const rows = session.players.map((player) => ({
+        id: toPlayerId(player.key),
+        session_id: sessionId,
+        name: player.name,
+        group_player_id: player.groupPlayerName === null ? null : groupPlayerIds.get(normalizeName(player.groupPlayerName)) ?? null,
+        attendance_weight: player.attendanceWeight,
+      }));
+      playerRows.push(...rows);
+      playersBySession.set(sessionId, rows);
+
+      session.games.forEach((game, index) => {
+        gameRows.push({
+          id: `${sessionId}-game-${index + 1}`,
+          session_id: sessionId,
+          game_number: index + 1,
+          team_a: game.teamA.map(toPlayerId),
+          team_b: game.teamB.map(toPlayerId),
+          winning_team: game.winningTeam,
+          team_a_score: game.teamAScore,
+          team_b_score: game.teamBScore,
+          sets: game.sets,
+          rallies: game.rallies,
+          created_at: game.playedAt,
+          updated_at: game.playedAt,
+        });
+      });
+    });
+
+    await this.insertInBatches('sessions', sessionRows);
+    await this.insertInBatches('players', playerRows);
+    await this.insertInBatches('games', gameRows);
+
+    for (const row of sessionRows) {
+      await AuditService.recordSessionChange('create', null, { ...row, players: playersBySession.get(row.id) || [] });
+    }
+
+    return gameRows.length;
+  }
+
+  private static async insertInBatches(table: string, rows: DatabaseRow[]): Promise<void> {
+    const db = getDatabase();
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const { error } = await db.from(table).insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+      if (error) throw error;
+    }
+  }
+}
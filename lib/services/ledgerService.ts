@@ -0,0 +1,122 @@
+import { getDatabase } from '@/lib/db';
+import { Game, GroupLedger } from '@/types';
+import { buildGroupLedger, getObligationKey, LedgerObligationKey, LedgerPayment } from '@/lib/ledger';
+import { getCurrencySettings } from '@/lib/currency';
+import { GroupService } from './groupService';
+import { GameService } from './gameService';
+
+/**
+ * Service layer for the group debt ledger
+ * Obligations are recomputed from each session's settlement; only payments are stored
+ */
+export class LedgerService {
+  /**
+   * Get the ledger for a group: every session obligation, running balances and net transfers
+   */
+  static async getGroupLedger(groupId: string): Promise<GroupLedger> {
+    try {
+      const group = await GroupService.getGroupById(groupId);
+      const sessions = await GroupService.getGroupSessions(groupId);
+      const games = await GameService.getGamesBySessionIds(sessions.map((s) => s.id));
+      const payments = await this.getPayments(groupId);
+
+      const gamesBySessionId = new Map<string, Game[]>();
+      games.forEach((game) => {
+        if (!gamesBySessionId.has(game.sessionId)) {
+          gamesBySessionId.set(game.sessionId, []);
+        }
+        gamesBySessionId.get(game.sessionId)!.push(game);
+      });
+
+      return buildGroupLedger(sessions, gamesBySessionId, payments, getCurrencySettings(group).currency);
+    } catch (error) {
+      console.error('[LedgerService] Error building group ledger:', error);
+      throw new Error('Failed to fetch group ledger');
+    }
+  }
+
+  /**
+   * Mark obligations as paid (or unpaid) and return the updated ledger
+   * Returns null if any obligation isn't part of the group's current ledger
+   */
+  static async setObligationsPaid(
+    groupId: string,
+    obligations: LedgerObligationKey[],
+    paid: boolean
+  ): Promise<GroupLedger | null> {
+    const ledger = await this.getGroupLedger(groupId);
+    const ledgerObligations = new Map(ledger.obligations.map((o) => [getObligationKey(o), o]));
+    const matched = obligations.map((o) => ledgerObligations.get(getObligationKey(o)));
+    if (matched.some((o) => !o)) {
+      return null;
+    }
+
+    try {
+      const db = getDatabase();
+
+      if (paid) {
+        const paidAt = new Date().toISOString();
+        const { error } = await db
+          .from('ledger_payments')
+          .upsert(
+            matched.map((o) => ({
+              group_id: groupId,
+              session_id: o!.sessionId,
+              from_player_id: o!.fromPlayerId,
+              to_player_id: o!.toPlayerId,
+              amount: o!.amount,
+              paid_at: paidAt,
+            })),
+            { onConflict: 'session_id,from_player_id,to_player_id' }
+          );
+
+        if (error) {
+          throw error;
+        }
+      } else {
+        for (const o of matched) {
+          const { error } = await db
+            .from('ledger_payments')
+            .delete()
+            .eq('group_id', groupId)
+            .eq('session_id', o!.sessionId)
+            .eq('from_player_id', o!.fromPlayerId)
+            .eq('to_player_id', o!.toPlayerId);
+
+          if (error) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[LedgerService] Error updating ledger payments:', error);
+      throw new Error('Failed to update ledger payments');
+    }
+
+    return this.getGroupLedger(groupId);
+  }
+
+  /**
+   * Get every recorded payment for a group
+   */
+  private static async getPayments(groupId: string): Promise<LedgerPayment[]> {
+    const db = getDatabase();
+
+    const { data, error } = await db
+      .from('ledger_payments')
+      .select('session_id, from_player_id, to_player_id, amount, paid_at')
+      .eq('group_id', groupId);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((row: any) => ({
+      sessionId: row.session_id,
+      fromPlayerId: row.from_player_id,
+      toPlayerId: row.to_player_id,
+      amount: parseFloat(String(row.amount || 0)),
+      paidAt: new Date(row.paid_at),
+    }));
+  }
+}
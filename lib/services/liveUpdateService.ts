@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { getDatabase } from '@/lib/db';
+import { Game, SessionLiveEvent } from '@/types';
+import { GameService } from './gameService';
+
+// Kept on globalThis so separately bundled routes in one process share the emitter
+const globalForLiveUpdates = globalThis as unknown as { liveUpdates?: EventEmitter };
+
+function getEmitter(): EventEmitter {
+  if (!globalForLiveUpdates.liveUpdates) {
+    globalForLiveUpdates.liveUpdates = new EventEmitter();
+    // One listener per open page - there's no fixed limit
+    globalForLiveUpdates.liveUpdates.setMaxListeners(0);
+  }
+  return globalForLiveUpdates.liveUpdates;
+}
+
+/**
+ * Service behind the live session and group pages
+ * Open pages keep a Server-Sent Events stream that re-reads the games and sends what changed.
+ * Reading from the database means a change made through any server instance shows up;
+ * publish() only wakes the streams in this process so they don't wait for their next check.
+ */
+export class LiveUpdateService {
+  /**
+   * Tell open streams that a session's games changed
+   */
+  static publish(sessionId: string, groupId?: string | null): void {
+    const emitter = getEmitter();
+    emitter.emit(`session:${sessionId}`);
+    if (groupId) {
+      emitter.emit(`group:${groupId}`);
+    }
+  }
+
+  /**
+   * Call listener whenever the channel ("session:<id>" or "group:<id>") is published
+   * Returns the unsubscribe function
+   */
+  static subscribe(channel: string, listener: () => void): () => void {
+    const emitter = getEmitter();
+    emitter.on(channel, listener);
+    return () => {
+      emitter.off(channel, listener);
+    };
+  }
+
+  static async getSessionGames(sessionId: string): Promise<Game[]> {
+    return GameService.getGamesBySessionId(sessionId);
+  }
+
+  /**
+   * Events that turn the previous copy of a session's games into the current one
+   * With no previous copy (stream just opened) the whole list is sent as a snapshot
+   */
+  static diffSessionGames(sessionId: string, previous: Game[] | null, current: Game[]): SessionLiveEvent[] {
+    if (!previous) {
+      return [{ type: 'snapshot', sessionId, games: current }];
+    }
+
+    const previousById = new Map(previous.map((game) => [game.id, game]));
+    const currentIds = new Set(current.map((game) => game.id));
+    const events: SessionLiveEvent[] = [];
+
+    current.forEach((game) => {
+      const before = previousById.get(game.id);
+      if (!before) {
+        events.push({ type: 'game_created', sessionId, game });
+      } else if (JSON.stringify(before) !== JSON.stringify(game)) {
+        events.push({ type: 'game_updated', sessionId, game });
+      }
+    });
+    previous.forEach((game) => {
+      if (!currentIds.has(game.id)) {
+        events.push({ type: 'game_deleted', sessionId, gameId: game.id });
+      }
+    });
+
+    return events;
+  }
+
+  /**
+   * A value that changes whenever a group's sessions or games are added, edited or removed
+   * Cheap enough to check every few seconds: session IDs, a game count and the latest edit
+   */
+  static async getGroupVersion(groupId: string): Promise<string> {
+    try {
+      const db = getDatabase();
+
+      const { data: sessions, error: sessionsError } = await db
+        .from('sessions')
+        .select('id')
+        .eq('group_id', groupId);
+
+      if (sessionsError) {
+        throw sessionsError;
+      }
+
+      const sessionIds = (sessions || []).map((s) => s.id as string).sort();
+      if (sessionIds.length === 0) {
+        return 'empty';
+      }
+
+      const { count, error: countError } = await db
+        .from('games')
+        .select('id', { count: 'exact', head: true })
+        .in('session_id', sessionIds);
+
+      if (countError) {
+        throw countError;
+      }
+
+      const { data: latest, error: latestError } = await db
+        .from('games')
+        .select('updated_at')
+        .in('session_id', sessionIds)
+        .not('updated_at', 'is', null)
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) {
+        throw latestError;
+      }
+
+      return createHash('sha1')
+        .update([sessionIds.join(','), count ?? 0, latest?.updated_at ?? ''].join('|'))
+        .digest('hex');
+    } catch (error) {
+      console.error('[LiveUpdateService] Error reading group version:', error);
+      throw new Error('Failed to check group for changes');
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { createSupabaseClient } from '@/lib/supabase';
+import { DatabaseRow, getDatabase } from '@/lib/db';
 import { PairingStats, PairingMatchup, PairingDetailedStats, RecentGame, UnluckyGame, ClutchGame } from '@/types';
 
 /**
@@ -35,15 +35,67 @@ export class PairingStatsService {
     return id1 < id2 ? [id1, id2] : [id2, id1];
   }
 
+  /**
+   * A pairing's stats after one more game - existing is null for the pairing's first game
+   */
+  private static addPartnerResult(
+    existing: DatabaseRow | null,
+    won: boolean,
+    opponentPairingElo?: number,
+    pointsFor?: number,
+    pointsAgainst?: number
+  ): DatabaseRow {
+    // Calculate new ELO if opponent ELO is provided
+    const currentElo = existing?.elo_rating ?? this.DEFAULT_PAIRING_ELO;
+    const newElo = opponentPairingElo
+      ? this.calculateNewRating(currentElo, opponentPairingElo, won)
+      : currentElo;
+
+    // Calculate new streak
+    const currentStreak = existing?.current_streak ?? 0;
+    let newStreak: number;
+    if (won) {
+      newStreak = currentStreak >= 0 ? currentStreak + 1 : 1;
+    } else {
+      newStreak = currentStreak <= 0 ? currentStreak - 1 : -1;
+    }
+
+    // Update best win streak if exceeded
+    const bestWinStreak = existing?.best_win_streak ?? 0;
+    const newBestWinStreak = newStreak > bestWinStreak ? newStreak : bestWinStreak;
+
+    return {
+      wins: (existing?.wins ?? 0) + (won ? 1 : 0),
+      losses: (existing?.losses ?? 0) + (won ? 0 : 1),
+      total_games: (existing?.total_games ?? 0) + 1,
+      elo_rating: newElo,
+      current_streak: newStreak,
+      best_win_streak: newBestWinStreak,
+      points_for: (existing?.points_for ?? 0) + (pointsFor ?? 0),
+      points_against: (existing?.points_against ?? 0) + (pointsAgainst ?? 0),
+    };
+  }
+
+  /**
+   * A matchup's stats after one more game - existing is null for the matchup's first game
+   */
+  private static addMatchupResult(existing: DatabaseRow | null, team1Won: boolean): DatabaseRow {
+    return {
+      team1_wins: (existing?.team1_wins ?? 0) + (team1Won ? 1 : 0),
+      team1_losses: (existing?.team1_losses ?? 0) + (team1Won ? 0 : 1),
+      total_games: (existing?.total_games ?? 0) + 1,
+    };
+  }
+
   /**
    * Get the ELO rating for a pairing (returns default if no record exists)
    */
   static async getPairingElo(groupId: string, player1Id: string, player2Id: string): Promise<number> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     const [orderedP1, orderedP2] = this.getOrderedPair(player1Id, player2Id);
 
     try {
-      const { data } = await supabase
+      const { data } = await db
         .from('partner_stats')
         .select('elo_rating')
         .eq('group_id', groupId)
@@ -91,12 +143,12 @@ export class PairingStatsService {
     // Only applicable for doubles (2 players)
     if (teamGroupPlayerIds.length !== 2) return;
 
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     const [player1Id, player2Id] = this.getOrderedPair(teamGroupPlayerIds[0], teamGroupPlayerIds[1]);
 
     try {
       // Try to get existing record
-      const { data: existing } = await supabase
+      const { data: existing, error: fetchError } = await db
         .from('partner_stats')
         .select('id, wins, losses, total_games, elo_rating, current_streak, best_win_streak, points_for, points_against')
         .eq('group_id', groupId)
@@ -104,70 +156,43 @@ export class PairingStatsService {
         .eq('player2_id', player2Id)
         .single();
 
-      if (existing) {
-        // Calculate new ELO if opponent ELO is provided
-        const currentElo = existing.elo_rating ?? this.DEFAULT_PAIRING_ELO;
-        const newElo = opponentPairingElo 
-          ? this.calculateNewRating(currentElo, opponentPairingElo, won)
-          : currentElo;
-
-        // Calculate new streak
-        const currentStreak = existing.current_streak ?? 0;
-        let newStreak: number;
-        if (won) {
-          newStreak = currentStreak >= 0 ? currentStreak + 1 : 1;
-        } else {
-          newStreak = currentStreak <= 0 ? currentStreak - 1 : -1;
-        }
-
-        // Update best win streak if exceeded
-        const bestWinStreak = existing.best_win_streak ?? 0;
-        const newBestWinStreak = newStreak > bestWinStreak ? newStreak : bestWinStreak;
+      if (fetchError && fetchError.code !== 'PGRST116') {
+        throw fetchError;
+      }
 
-        // Calculate points
-        const newPointsFor = (existing.points_for ?? 0) + (pointsFor ?? 0);
-        const newPointsAgainst = (existing.points_against ?? 0) + (pointsAgainst ?? 0);
+      const stats = this.addPartnerResult(existing ?? null, won, opponentPairingElo, pointsFor, pointsAgainst);
 
+      if (existing) {
         // Update existing record
-        await supabase
+        const { error: updateError } = await db
           .from('partner_stats')
           .update({
-            wins: won ? existing.wins + 1 : existing.wins,
-            losses: won ? existing.losses : existing.losses + 1,
-            total_games: existing.total_games + 1,
-            elo_rating: newElo,
-            current_streak: newStreak,
-            best_win_streak: newBestWinStreak,
-            points_for: newPointsFor,
-            points_against: newPointsAgainst,
+            ...stats,
             updated_at: new Date().toISOString(),
           })
           .eq('id', existing.id);
-      } else {
-        // Create new record with default ELO
-        // For new pairings, calculate ELO change from default if opponent ELO provided
-        const newElo = opponentPairingElo 
-          ? this.calculateNewRating(this.DEFAULT_PAIRING_ELO, opponentPairingElo, won)
-          : this.DEFAULT_PAIRING_ELO;
 
-        await supabase
+        if (updateError) {
+          throw updateError;
+        }
+      } else {
+        // Create new record, rated from the default ELO
+        const { error: insertError } = await db
           .from('partner_stats')
           .insert({
             group_id: groupId,
             player1_id: player1Id,
             player2_id: player2Id,
-            wins: won ? 1 : 0,
-            losses: won ? 0 : 1,
-            total_games: 1,
-            elo_rating: newElo,
-            current_streak: won ? 1 : -1,
-            best_win_streak: won ? 1 : 0,
-            points_for: pointsFor ?? 0,
-            points_against: pointsAgainst ?? 0,
+            ...stats,
           });
+
+        if (insertError) {
+          throw insertError;
+        }
       }
     } catch (error) {
       console.error('[PairingStatsService] Error updating partner stats:', error);
+      throw new Error('Failed to update partner stats');
     }
   }
 
@@ -184,7 +209,7 @@ export class PairingStatsService {
     // Only applicable for doubles (2v2)
     if (teamAGroupPlayerIds.length !== 2 || teamBGroupPlayerIds.length !== 2) return;
 
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     // Get ordered pairs for each team
     const teamAPair = this.getOrderedPair(teamAGroupPlayerIds[0], teamAGroupPlayerIds[1]);
@@ -199,7 +224,7 @@ export class PairingStatsService {
 
     try {
       // Try to get existing record
-      const { data: existing } = await supabase
+      const { data: existing, error: fetchError } = await db
         .from('pairing_matchups')
         .select('id, team1_wins, team1_losses, total_games')
         .eq('group_id', groupId)
@@ -209,20 +234,28 @@ export class PairingStatsService {
         .eq('team2_player2_id', team2[1])
         .single();
 
+      if (fetchError && fetchError.code !== 'PGRST116') {
+        throw fetchError;
+      }
+
+      const stats = this.addMatchupResult(existing ?? null, team1Won);
+
       if (existing) {
         // Update existing record
-        await supabase
+        const { error: updateError } = await db
           .from('pairing_matchups')
           .update({
-            team1_wins: team1Won ? existing.team1_wins + 1 : existing.team1_wins,
-            team1_losses: team1Won ? existing.team1_losses : existing.team1_losses + 1,
-            total_games: existing.total_games + 1,
+            ...stats,
             updated_at: new Date().toISOString(),
           })
           .eq('id', existing.id);
+
+        if (updateError) {
+          throw updateError;
+        }
       } else {
         // Create new record
-        await supabase
+        const { error: insertError } = await db
           .from('pairing_matchups')
           .insert({
             group_id: groupId,
@@ -230,96 +263,16 @@ export class PairingStatsService {
             team1_player2_id: team1[1],
             team2_player1_id: team2[0],
             team2_player2_id: team2[1],
-            team1_wins: team1Won ? 1 : 0,
-            team1_losses: team1Won ? 0 : 1,
-            total_games: 1,
+            ...stats,
           });
-      }
-    } catch (error) {
-      console.error('[PairingStatsService] Error updating pairing matchup:', error);
-    }
-  }
-
-  /**
-   * Reverse partner stats when a game is deleted or result changes
-   */
-  static async reversePartnerStats(
-    groupId: string,
-    teamGroupPlayerIds: string[],
-    wasWin: boolean
-  ): Promise<void> {
-    if (teamGroupPlayerIds.length !== 2) return;
-
-    const supabase = createSupabaseClient();
-    const [player1Id, player2Id] = this.getOrderedPair(teamGroupPlayerIds[0], teamGroupPlayerIds[1]);
-
-    try {
-      const { data: existing } = await supabase
-        .from('partner_stats')
-        .select('id, wins, losses, total_games')
-        .eq('group_id', groupId)
-        .eq('player1_id', player1Id)
-        .eq('player2_id', player2Id)
-        .single();
-
-      if (existing) {
-        await supabase
-          .from('partner_stats')
-          .update({
-            wins: wasWin ? Math.max(0, existing.wins - 1) : existing.wins,
-            losses: wasWin ? existing.losses : Math.max(0, existing.losses - 1),
-            total_games: Math.max(0, existing.total_games - 1),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', existing.id);
-      }
-    } catch (error) {
-      console.error('[PairingStatsService] Error reversing partner stats:', error);
-    }
-  }
 
-  /**
-   * Reverse pairing matchup stats when a game is deleted or result changes
-   */
-  static async reversePairingMatchup(
-    groupId: string,
-    teamAGroupPlayerIds: string[],
-    teamBGroupPlayerIds: string[],
-    wasWinningTeam: 'A' | 'B'
-  ): Promise<void> {
-    if (teamAGroupPlayerIds.length !== 2 || teamBGroupPlayerIds.length !== 2) return;
-
-    const supabase = createSupabaseClient();
-
-    const teamAPair = this.getOrderedPair(teamAGroupPlayerIds[0], teamAGroupPlayerIds[1]);
-    const teamBPair = this.getOrderedPair(teamBGroupPlayerIds[0], teamBGroupPlayerIds[1]);
-    const { team1, team2, isSwapped } = this.getOrderedTeams(teamAPair, teamBPair);
-    const team1Won = isSwapped ? wasWinningTeam === 'B' : wasWinningTeam === 'A';
-
-    try {
-      const { data: existing } = await supabase
-        .from('pairing_matchups')
-        .select('id, team1_wins, team1_losses, total_games')
-        .eq('group_id', groupId)
-        .eq('team1_player1_id', team1[0])
-        .eq('team1_player2_id', team1[1])
-        .eq('team2_player1_id', team2[0])
-        .eq('team2_player2_id', team2[1])
-        .single();
-
-      if (existing) {
-        await supabase
-          .from('pairing_matchups')
-          .update({
-            team1_wins: team1Won ? Math.max(0, existing.team1_wins - 1) : existing.team1_wins,
-            team1_losses: team1Won ? existing.team1_losses : Math.max(0, existing.team1_losses - 1),
-            total_games: Math.max(0, existing.total_games - 1),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', existing.id);
+        if (insertError) {
+          throw insertError;
+        }
       }
     } catch (error) {
-      console.error('[PairingStatsService] Error reversing pairing matchup:', error);
+      console.error('[PairingStatsService] Error updating pairing matchup:', error);
+      throw new Error('Failed to update pairing matchup');
     }
   }
 
@@ -328,11 +281,11 @@ export class PairingStatsService {
    * Computes stats from actual games for accuracy (stored stats may be stale)
    */
   static async getPairingLeaderboard(groupId: string): Promise<PairingStats[]> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     try {
       // Get all group players (include soft-deleted for historical name lookups)
-      const { data: groupPlayers } = await supabase
+      const { data: groupPlayers } = await db
         .from('group_players')
         .select('id, name, is_active')
         .eq('group_id', groupId);
@@ -347,7 +300,7 @@ export class PairingStatsService {
       });
 
       // Get all sessions for this group
-      const { data: sessions } = await supabase
+      const { data: sessions } = await db
         .from('sessions')
         .select('id')
         .eq('group_id', groupId);
@@ -356,7 +309,7 @@ export class PairingStatsService {
       if (sessionIds.length === 0) return [];
 
       // Get player mappings (session player ID -> group player ID)
-      const { data: sessionPlayers } = await supabase
+      const { data: sessionPlayers } = await db
         .from('players')
         .select('id, group_player_id')
         .in('session_id', sessionIds)
@@ -370,7 +323,7 @@ export class PairingStatsService {
       });
 
       // Get all completed doubles games (limited to prevent memory issues)
-      const { data: games } = await supabase
+      const { data: games } = await db
         .from('games')
         .select('team_a, team_b, winning_team')
         .in('session_id', sessionIds)
@@ -414,7 +367,7 @@ export class PairingStatsService {
       });
 
       // Get stored ELO ratings (these are calculated properly during game recording)
-      const { data: storedStats } = await supabase
+      const { data: storedStats } = await db
         .from('partner_stats')
         .select('player1_id, player2_id, elo_rating')
         .eq('group_id', groupId);
@@ -472,12 +425,12 @@ export class PairingStatsService {
     player1Id: string,
     player2Id: string
   ): Promise<PairingDetailedStats | null> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     const [orderedP1, orderedP2] = this.getOrderedPair(player1Id, player2Id);
 
     try {
       // Get stored partner stats for ELO and streaks (computed values)
-      const { data: partnerStat } = await supabase
+      const { data: partnerStat } = await db
         .from('partner_stats')
         .select('elo_rating, current_streak, best_win_streak, points_for, points_against')
         .eq('group_id', groupId)
@@ -487,7 +440,7 @@ export class PairingStatsService {
 
       // Get player names from group_players (include soft-deleted for historical lookups)
       // Note: We don't filter by is_active here because we need names for historical stats
-      const { data: players } = await supabase
+      const { data: players } = await db
         .from('group_players')
         .select('id, name')
         .eq('group_id', groupId);
@@ -498,7 +451,7 @@ export class PairingStatsService {
       // If player names not found in group_players, try to find them from session players
       // This handles cases where players were removed but their historical data exists
       if (!playerNames.has(orderedP1) || !playerNames.has(orderedP2)) {
-        const { data: sessions } = await supabase
+        const { data: sessions } = await db
           .from('sessions')
           .select('id')
           .eq('group_id', groupId);
@@ -508,7 +461,7 @@ export class PairingStatsService {
           
           // Look for session players that were linked to the requested group player IDs
           // These would have been unlinked (group_player_id set to null) when player was removed
-          const { data: sessionPlayers } = await supabase
+          const { data: sessionPlayers } = await db
             .from('players')
             .select('id, name, group_player_id')
             .in('session_id', sessionIds);
@@ -589,11 +542,11 @@ export class PairingStatsService {
     player2Id: string,
     playerNames: Map<string, string>
   ): Promise<PairingMatchup[]> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     try {
       // Get sessions in group
-      const { data: sessions } = await supabase
+      const { data: sessions } = await db
         .from('sessions')
         .select('id')
         .eq('group_id', groupId);
@@ -602,7 +555,7 @@ export class PairingStatsService {
       if (sessionIds.length === 0) return [];
 
       // Get player mappings
-      const { data: sessionPlayers } = await supabase
+      const { data: sessionPlayers } = await db
         .from('players')
         .select('id, group_player_id, name')
         .in('session_id', sessionIds)
@@ -623,7 +576,7 @@ export class PairingStatsService {
       });
 
       // Get all completed doubles games with scores (limited to prevent memory issues)
-      const { data: games } = await supabase
+      const { data: games } = await db
         .from('games')
         .select('team_a, team_b, winning_team, team_a_score, team_b_score, created_at')
         .in('session_id', sessionIds)
@@ -747,11 +700,11 @@ export class PairingStatsService {
     pointsAgainst: number;
     bestWinStreak: number;
   }> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
 
     try {
       // Get sessions in group
-      const { data: sessions } = await supabase
+      const { data: sessions } = await db
         .from('sessions')
         .select('id')
         .eq('group_id', groupId);
@@ -760,7 +713,7 @@ export class PairingStatsService {
       if (sessionIds.length === 0) return { recentForm: [], recentGames: [], unluckyGames: [], clutchGames: [], wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0, bestWinStreak: 0 };
 
       // Get player mappings
-      const { data: sessionPlayers } = await supabase
+      const { data: sessionPlayers } = await db
         .from('players')
         .select('id, group_player_id')
         .in('session_id', sessionIds)
@@ -778,7 +731,7 @@ export class PairingStatsService {
       });
 
       // Get completed games (limited to prevent memory issues while still capturing recent history)
-      const { data: games } = await supabase
+      const { data: games } = await db
         .from('games')
         .select('team_a, team_b, winning_team, team_a_score, team_b_score, created_at')
         .in('session_id', sessionIds)
@@ -940,30 +893,36 @@ export class PairingStatsService {
     matchupsCreated: number;
     gamesProcessed: number;
   }> {
-    const supabase = createSupabaseClient();
+    const db = getDatabase();
     const result = { partnerStatsCreated: 0, matchupsCreated: 0, gamesProcessed: 0 };
 
     try {
       // Clear existing stats for this group
-      await supabase.from('partner_stats').delete().eq('group_id', groupId);
-      await supabase.from('pairing_matchups').delete().eq('group_id', groupId);
+      const { error: partnerDeleteError } = await db.from('partner_stats').delete().eq('group_id', groupId);
+      if (partnerDeleteError) throw partnerDeleteError;
+      const { error: matchupDeleteError } = await db.from('pairing_matchups').delete().eq('group_id', groupId);
+      if (matchupDeleteError) throw matchupDeleteError;
 
       // Get all sessions in group
-      const { data: sessions } = await supabase
+      const { data: sessions, error: sessionsError } = await db
         .from('sessions')
         .select('id')
         .eq('group_id', groupId);
 
+      if (sessionsError) throw sessionsError;
+
       const sessionIds = (sessions || []).map(s => s.id);
       if (sessionIds.length === 0) return result;
 
       // Get player mappings
-      const { data: players } = await supabase
+      const { data: players, error: playersError } = await db
         .from('players')
         .select('id, group_player_id')
         .in('session_id', sessionIds)
         .not('group_player_id', 'is', null);
 
+      if (playersError) throw playersError;
+
       const playerToGroupPlayer = new Map<string, string>();
       (players || []).forEach(p => {
         if (p.group_player_id) {
@@ -972,14 +931,23 @@ export class PairingStatsService {
       });
 
       // Get all completed games
-      const { data: games } = await supabase
+      const { data: games, error: gamesError } = await db
         .from('games')
         .select('*')
         .in('session_id', sessionIds)
         .not('winning_team', 'is', null)
-        .order('created_at', { ascending: true });
+        .order('created_at', { ascending: true })
+        .order('game_number', { ascending: true });
+
+      if (gamesError) throw gamesError;
+
+      // Replay in memory and insert each pairing and matchup once - a fetch and a write per
+      // game would hold the group's lock for as long as its history is long
+      const partnerStats = new Map<string, DatabaseRow>();
+      const matchups = new Map<string, DatabaseRow>();
+      const pairingElo = (ids: string[]) =>
+        partnerStats.get(this.getOrderedPair(ids[0], ids[1]).join(':'))?.elo_rating ?? this.DEFAULT_PAIRING_ELO;
 
-      // Process each game
       for (const game of (games || [])) {
         const teamA = typeof game.team_a === 'string' ? JSON.parse(game.team_a) : game.team_a;
         const teamB = typeof game.team_b === 'string' ? JSON.parse(game.team_b) : game.team_b;
@@ -997,36 +965,56 @@ export class PairingStatsService {
         const winningTeam = game.winning_team as 'A' | 'B';
         
         // Get current pairing ELOs before update (for ELO calculation)
-        const teamAElo = await this.getPairingElo(groupId, teamAGroupIds[0], teamAGroupIds[1]);
-        const teamBElo = await this.getPairingElo(groupId, teamBGroupIds[0], teamBGroupIds[1]);
+        const teamAElo = pairingElo(teamAGroupIds);
+        const teamBElo = pairingElo(teamBGroupIds);
         
         // Get scores if available
         const teamAScore = game.team_a_score ?? undefined;
         const teamBScore = game.team_b_score ?? undefined;
 
         // Update partner stats for both teams with opponent ELO and scores
-        await this.updatePartnerStats(groupId, teamAGroupIds, winningTeam === 'A', teamBElo, teamAScore, teamBScore);
-        await this.updatePartnerStats(groupId, teamBGroupIds, winningTeam === 'B', teamAElo, teamBScore, teamAScore);
+        const teamAPair = this.getOrderedPair(teamAGroupIds[0], teamAGroupIds[1]);
+        const teamBPair = this.getOrderedPair(teamBGroupIds[0], teamBGroupIds[1]);
+        for (const [pair, won, elo, pointsFor, pointsAgainst] of [
+          [teamAPair, winningTeam === 'A', teamBElo, teamAScore, teamBScore],
+          [teamBPair, winningTeam === 'B', teamAElo, teamBScore, teamAScore],
+        ] as const) {
+          const key = pair.join(':');
+          partnerStats.set(key, {
+            player1_id: pair[0],
+            player2_id: pair[1],
+            ...this.addPartnerResult(partnerStats.get(key) ?? null, won, elo, pointsFor, pointsAgainst),
+          });
+        }
 
         // Update pairing matchup
-        await this.updatePairingMatchup(groupId, teamAGroupIds, teamBGroupIds, winningTeam);
+        const { team1, team2, isSwapped } = this.getOrderedTeams(teamAPair, teamBPair);
+        const team1Won = isSwapped ? winningTeam === 'B' : winningTeam === 'A';
+        const matchupKey = [...team1, ...team2].join(':');
+        matchups.set(matchupKey, {
+          team1_player1_id: team1[0],
+          team1_player2_id: team1[1],
+          team2_player1_id: team2[0],
+          team2_player2_id: team2[1],
+          ...this.addMatchupResult(matchups.get(matchupKey) ?? null, team1Won),
+        });
 
         result.gamesProcessed++;
       }
 
-      // Count created records
-      const { count: partnerCount } = await supabase
-        .from('partner_stats')
-        .select('*', { count: 'exact', head: true })
-        .eq('group_id', groupId);
-
-      const { count: matchupCount } = await supabase
-        .from('pairing_matchups')
-        .select('*', { count: 'exact', head: true })
-        .eq('group_id', groupId);
+      for (const [table, rows] of [
+        ['partner_stats', Array.from(partnerStats.values())],
+        ['pairing_matchups', Array.from(matchups.values())],
+      ] as const) {
+        if (rows.length === 0) continue;
+        const { error: insertError } = await db
+          .from(table)
+          .insert(rows.map(row => ({ group_id: groupId, ...row })));
+        if (insertError) throw insertError;
+      }
 
-      result.partnerStatsCreated = partnerCount || 0;
-      result.matchupsCreated = matchupCount || 0;
+      result.partnerStatsCreated = partnerStats.size;
+      result.matchupsCreated = matchups.size;
 
       return result;
     } catch (error) {
@@ -0,0 +1,485 @@
+import { createHash } from 'crypto';
+import { createMemoryDatabase, Database, DatabaseRow, getDatabase, runInTransaction, runWithDatabase } from '@/lib/db';
+import { LeaderboardEntry, PairingStats, Season, SeasonInput, SeasonRatingMode, StatsWindowQuery } from '@/types';
+import { PlayerRatingState } from '@/lib/ratingEngine';
+import { getTodayDateString, hasSeasonEnded, isSeasonActive, seasonsOverlap, toWindowBoundary } from '@/lib/seasons';
+import { EloService } from './eloService';
+import { PairingStatsService } from './pairingStatsService';
+import { StatsService } from './statsService';
+import { GroupService } from './groupService';
+import { LiveUpdateService } from './liveUpdateService';
+
+/**
+ * The games a stats request covers: sessions dated from..to (inclusive days, UTC)
+ * from/to are null for an open start or end
+ */
+export interface StatsWindow {
+  from: string | null;
+  to: string | null;
+  ratingMode: SeasonRatingMode; // Ad-hoc from/to windows carry ratings over
+  season: Season | null;
+}
+
+export type SeasonChangeResult =
+  | { result: 'saved'; season: Season }
+  | { result: 'not_found' }
+  | { result: 'overlaps'; conflict: Season };
+
+type GroupOverview = Awaited<ReturnType<typeof GroupService.getGroupStats>>;
+
+// Derived tables start empty in a window copy - the replay fills them from the window's games
+const DERIVED_TABLES = ['partner_stats', 'pairing_matchups', 'elo_history'];
+
+// Replayed window copies kept per server process; the oldest is dropped past this many
+const MAX_CACHED_WINDOWS = 20;
+
+interface CachedWindow {
+  fingerprint: string;
+  database: Promise<Database>;
+}
+
+// Kept on globalThis so separately bundled routes in one process share the cache
+const globalForSeasons = globalThis as unknown as { seasonWindows?: Map<string, CachedWindow> };
+
+function getWindowCache(): Map<string, CachedWindow> {
+  if (!globalForSeasons.seasonWindows) {
+    globalForSeasons.seasonWindows = new Map();
+  }
+  return globalForSeasons.seasonWindows;
+}
+
+/**
+ * TIMESTAMP columns can come back without a zone; they're written as UTC
+ */
+function toTime(value: unknown): number {
+  const text = String(value);
+  return new Date(/(Z|[+-]\d\d:?\d\d)$/.test(text) || !text.includes('T') ? text : `${text}Z`).getTime();
+}
+
+/**
+ * Service layer for seasons and time-windowed stats
+ *
+ * Stored ratings and records cover all time. A window (a season, or any from/to range) is
+ * served from an in-memory copy of the group holding only the window's sessions: ratings are
+ * seeded by the season's rule, the window's games are replayed, and the usual leaderboard,
+ * pairings and overview queries run against the copy - the same approach as a rebuild dry run.
+ * The replayed copy is reused until the group's games, sessions or players change, so a
+ * season's leaderboard, pairings and overview share one replay.
+ */
+export class SeasonService {
+  /**
+   * A group's seasons, newest first
+   */
+  static async getSeasons(groupId: string): Promise<Season[]> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('seasons')
+        .select('*')
+        .eq('group_id', groupId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map((row: DatabaseRow) => this.mapRowToSeason(row));
+    } catch (error) {
+      console.error('[SeasonService] Error fetching seasons:', error);
+      throw new Error('Failed to fetch seasons');
+    }
+  }
+
+  static async getSeason(groupId: string, seasonId: string): Promise<Season | null> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('seasons')
+        .select('*')
+        .eq('id', seasonId)
+        .eq('group_id', groupId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.mapRowToSeason(data) : null;
+    } catch (error) {
+      console.error('[SeasonService] Error fetching season:', error);
+      throw new Error('Failed to fetch season');
+    }
+  }
+
+  /**
+   * Create a season - refused if its dates overlap another season's
+   */
+  static async createSeason(groupId: string, input: SeasonInput): Promise<SeasonChangeResult> {
+    try {
+      return await runInTransaction(async () => {
+        const db = getDatabase();
+
+        const conflict = await this.findOverlap(groupId, input);
+        if (conflict) {
+          return { result: 'overlaps' as const, conflict };
+        }
+
+        const { data, error } = await db
+          .from('seasons')
+          .insert({
+            id: `season-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            group_id: groupId,
+            name: input.name.trim(),
+            start_date: input.startDate,
+            end_date: input.endDate || null,
+            rating_mode: input.ratingMode,
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+        return { result: 'saved' as const, season: this.mapRowToSeason(data) };
+      }, { lockKey: `group:${groupId}` });
+    } catch (error) {
+      console.error('[SeasonService] Error creating season:', error);
+      throw new Error('Failed to create season');
+    }
+  }
+
+  /**
+   * Update a season's name, dates or rating rule
+   * Changing the dates or rule drops the archived standings - they no longer describe the season
+   */
+  static async updateSeason(groupId: string, seasonId: string, input: SeasonInput): Promise<SeasonChangeResult> {
+    try {
+      return await runInTransaction(async () => {
+        const db = getDatabase();
+
+        const existing = await this.getSeason(groupId, seasonId);
+        if (!existing) {
+          return { result: 'not_found' as const };
+        }
+
+        const conflict = await this.findOverlap(groupId, input, seasonId);
+        if (conflict) {
+          return { result: 'overlaps' as const, conflict };
+        }
+
+        const endDate = input.endDate || null;
+        const update: DatabaseRow = {
+          name: input.name.trim(),
+          start_date: input.startDate,
+          end_date: endDate,
+          rating_mode: input.ratingMode,
+        };
+        if (existing.startDate !== input.startDate || existing.endDate !== endDate || existing.ratingMode !== input.ratingMode) {
+          update.final_standings = null;
+          update.archived_at = null;
+        }
+
+        const { data, error } = await db
+          .from('seasons')
+          .update(update)
+          .eq('id', seasonId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return { result: 'saved' as const, season: this.mapRowToSeason(data) };
+      }, { lockKey: `group:${groupId}` });
+    } catch (error) {
+      console.error('[SeasonService] Error updating season:', error);
+      throw new Error('Failed to update season');
+    }
+  }
+
+  /**
+   * Delete a season (its games are untouched)
+   * Returns false if there was no such season
+   */
+  static async deleteSeason(groupId: string, seasonId: string): Promise<boolean> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('seasons')
+        .delete()
+        .eq('id', seasonId)
+        .eq('group_id', groupId)
+        .select();
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('[SeasonService] Error deleting season:', error);
+      throw new Error('Failed to delete season');
+    }
+  }
+
+  /**
+   * Snapshot a finished season's final standings
+   * From then on the season's leaderboard is the snapshot, so later edits to old games don't
+   * rewrite it. Archiving again takes a fresh snapshot.
+   */
+  static async archiveSeason(
+    groupId: string,
+    seasonId: string
+  ): Promise<{ result: 'archived'; season: Season } | { result: 'not_found' | 'not_ended' }> {
+    try {
+      const season = await this.getSeason(groupId, seasonId);
+      if (!season) {
+        return { result: 'not_found' };
+      }
+      if (!hasSeasonEnded(season)) {
+        return { result: 'not_ended' };
+      }
+
+      const standings = await this.computeLeaderboard(groupId, this.getSeasonWindow(season));
+
+      const db = getDatabase();
+      const { data, error } = await db
+        .from('seasons')
+        .update({ final_standings: standings, archived_at: new Date().toISOString() })
+        .eq('id', seasonId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { result: 'archived', season: this.mapRowToSeason(data) };
+    } catch (error) {
+      console.error('[SeasonService] Error archiving season:', error);
+      throw new Error('Failed to archive season');
+    }
+  }
+
+  /**
+   * Turn a stats request's ?season= / ?from=&to= into a window (null = all time)
+   */
+  static async resolveStatsWindow(
+    groupId: string,
+    query: StatsWindowQuery
+  ): Promise<{ result: 'ok'; window: StatsWindow | null } | { result: 'season_not_found' | 'no_current_season' }> {
+    if (query.season === 'current') {
+      const today = getTodayDateString();
+      const current = (await this.getSeasons(groupId)).find((season) => isSeasonActive(season, today));
+      return current ? { result: 'ok', window: this.getSeasonWindow(current) } : { result: 'no_current_season' };
+    }
+
+    if (query.season) {
+      const season = await this.getSeason(groupId, query.season);
+      return season ? { result: 'ok', window: this.getSeasonWindow(season) } : { result: 'season_not_found' };
+    }
+
+    if (query.from || query.to) {
+      return {
+        result: 'ok',
+        window: { from: query.from ?? null, to: query.to ?? null, ratingMode: 'carry_over', season: null },
+      };
+    }
+
+    return { result: 'ok', window: null };
+  }
+
+  static getSeasonWindow(season: Season): StatsWindow {
+    return { from: season.startDate, to: season.endDate, ratingMode: season.ratingMode, season };
+  }
+
+  /**
+   * Leaderboard for a window: players who played in it, ranked by their rating at its end
+   * An archived season returns its snapshot
+   */
+  static async getWindowLeaderboard(groupId: string, window: StatsWindow): Promise<LeaderboardEntry[]> {
+    if (window.season?.finalStandings) {
+      return window.season.finalStandings;
+    }
+    try {
+      return await this.computeLeaderboard(groupId, window);
+    } catch (error) {
+      console.error('[SeasonService] Error fetching window leaderboard:', error);
+      throw new Error('Failed to fetch leaderboard');
+    }
+  }
+
+  /**
+   * Pairings for a window (pair ratings start fresh at the window's start)
+   */
+  static async getWindowPairings(groupId: string, window: StatsWindow): Promise<PairingStats[]> {
+    try {
+      return await this.runInWindow(groupId, window, () => PairingStatsService.getPairingLeaderboard(groupId));
+    } catch (error) {
+      console.error('[SeasonService] Error fetching window pairings:', error);
+      throw new Error('Failed to fetch pairings');
+    }
+  }
+
+  /**
+   * Group overview (totals, records, closest rivalries) for a window
+   */
+  static async getWindowOverview(groupId: string, window: StatsWindow): Promise<GroupOverview> {
+    try {
+      return await this.runInWindow(groupId, window, () => GroupService.getGroupStats(groupId));
+    } catch (error) {
+      console.error('[SeasonService] Error fetching window overview:', error);
+      throw new Error('Failed to fetch group overview');
+    }
+  }
+
+  private static async computeLeaderboard(groupId: string, window: StatsWindow): Promise<LeaderboardEntry[]> {
+    const entries = await this.runInWindow(groupId, window, () => StatsService.getLeaderboard(groupId));
+    // Players who sat the window out would just show their starting rating
+    return entries
+      .filter((entry) => entry.totalGames > 0)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  /**
+   * Run fn against a copy of the group that only holds the window's sessions, with derived stats
+   * replayed from the window's games
+   */
+  private static async runInWindow<T>(groupId: string, window: StatsWindow, fn: () => Promise<T>): Promise<T> {
+    const copy = await this.getWindowDatabase(groupId, window);
+    return runWithDatabase(copy, fn);
+  }
+
+  /**
+   * The replayed copy for a window, built once and reused while the group is unchanged
+   * The fingerprint covers the group's settings, players, sessions (with their player links) and
+   * games; anything else that changes makes the next request replay the window again
+   */
+  private static async getWindowDatabase(groupId: string, window: StatsWindow): Promise<Database> {
+    const db = getDatabase();
+
+    const fetchRows = async (table: string, column: string, values: string[], columns = '*'): Promise<DatabaseRow[]> => {
+      if (values.length === 0) return [];
+      const { data, error } = await db.from(table).select(columns).in(column, values);
+      if (error) throw error;
+      return data || [];
+    };
+
+    const [groups, groupPlayers, sessions] = await Promise.all([
+      fetchRows('groups', 'id', [groupId]),
+      fetchRows('group_players', 'group_id', [groupId]),
+      fetchRows('sessions', 'group_id', [groupId]),
+    ]);
+    const [playerLinks, gamesVersion] = await Promise.all([
+      fetchRows('players', 'session_id', sessions.map((s) => s.id), 'id, group_player_id'),
+      LiveUpdateService.getGroupVersion(groupId),
+    ]);
+
+    const key = [groupId, window.from, window.to, window.ratingMode].join('|');
+    const fingerprint = createHash('sha1')
+      .update(JSON.stringify([groups, groupPlayers, sessions, playerLinks, gamesVersion]))
+      .digest('hex');
+
+    const cache = getWindowCache();
+    const cached = cache.get(key);
+    if (cached?.fingerprint === fingerprint) {
+      return cached.database;
+    }
+
+    const database = this.replayWindow(groupId, window, groups, groupPlayers, sessions, fetchRows);
+    cache.delete(key);
+    cache.set(key, { fingerprint, database });
+    if (cache.size > MAX_CACHED_WINDOWS) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    // A failed replay isn't kept - the next request tries again
+    database.catch(() => {
+      if (cache.get(key)?.database === database) cache.delete(key);
+    });
+    return database;
+  }
+
+  private static async replayWindow(
+    groupId: string,
+    window: StatsWindow,
+    groups: DatabaseRow[],
+    groupPlayers: DatabaseRow[],
+    sessions: DatabaseRow[],
+    fetchRows: (table: string, column: string, values: string[]) => Promise<DatabaseRow[]>
+  ): Promise<Database> {
+    const start = window.from ? toTime(toWindowBoundary(window.from)) : -Infinity;
+    const end = window.to ? toTime(toWindowBoundary(window.to, true)) : Infinity;
+    const windowSessions = sessions.filter((s) => toTime(s.date) >= start && toTime(s.date) < end);
+    const earlierSessions = sessions.filter((s) => toTime(s.date) < start);
+
+    // Carrying over means starting from each player's rating when the window opens
+    let startingStates: Map<string, PlayerRatingState> | undefined;
+    if (window.ratingMode === 'carry_over' && earlierSessions.length > 0) {
+      const earlier = await this.copyGroup(groups, groupPlayers, earlierSessions, fetchRows);
+      startingStates = await runWithDatabase(earlier, async () => {
+        await EloService.recalculateGroupElo(groupId);
+        return this.readRatingStates(groupId);
+      });
+    }
+
+    const copy = await this.copyGroup(groups, groupPlayers, windowSessions, fetchRows);
+    await runWithDatabase(copy, async () => {
+      await EloService.recalculateGroupElo(groupId, { startingStates });
+      await PairingStatsService.recalculatePairingStats(groupId);
+    });
+    return copy;
+  }
+
+  private static async copyGroup(
+    groups: DatabaseRow[],
+    groupPlayers: DatabaseRow[],
+    sessions: DatabaseRow[],
+    fetchRows: (table: string, column: string, values: string[]) => Promise<DatabaseRow[]>
+  ): Promise<Database> {
+    const sessionIds = sessions.map((s) => s.id);
+    const [players, games] = await Promise.all([
+      fetchRows('players', 'session_id', sessionIds),
+      fetchRows('games', 'session_id', sessionIds),
+    ]);
+
+    const seed: Record<string, DatabaseRow[]> = {
+      groups,
+      group_players: groupPlayers.map((row) => ({ ...row })),
+      sessions,
+      players: players.map((row) => ({ ...row })),
+      games,
+    };
+    DERIVED_TABLES.forEach((table) => {
+      seed[table] = [];
+    });
+    return createMemoryDatabase(seed);
+  }
+
+  private static async readRatingStates(groupId: string): Promise<Map<string, PlayerRatingState>> {
+    const db = getDatabase();
+
+    const { data, error } = await db
+      .from('group_players')
+      .select('id, elo_rating, rating_deviation, rating_volatility, last_played_at')
+      .eq('group_id', groupId);
+    if (error) throw error;
+
+    return new Map((data || []).map((row: DatabaseRow) => [row.id as string, {
+      rating: row.elo_rating,
+      deviation: row.rating_deviation,
+      volatility: row.rating_volatility,
+      lastPlayedAt: row.last_played_at ? new Date(toTime(row.last_played_at)) : undefined,
+    }]));
+  }
+
+  /**
+   * Another season sharing a day with this one, if any
+   */
+  private static async findOverlap(groupId: string, input: SeasonInput, ignoreSeasonId?: string): Promise<Season | null> {
+    const candidate = { startDate: input.startDate, endDate: input.endDate || null };
+    const seasons = await this.getSeasons(groupId);
+    return seasons.find((season) => season.id !== ignoreSeasonId && seasonsOverlap(season, candidate)) || null;
+  }
+
+  private static mapRowToSeason(row: DatabaseRow): Season {
+    const standings = typeof row.final_standings === 'string' ? JSON.parse(row.final_standings) : row.final_standings;
+    return {
+      id: row.id,
+      groupId: row.group_id,
+      name: row.name,
+      startDate: String(row.start_date).slice(0, 10),
+      endDate: row.end_date ? String(row.end_date).slice(0, 10) : null,
+      ratingMode: row.rating_mode,
+      finalStandings: standings ?? null,
+      archivedAt: row.archived_at ? new Date(toTime(row.archived_at)) : null,
+      createdAt: row.created_at ? new Date(toTime(row.created_at)) : undefined,
+    };
+  }
+}
@@ -1,5 +1,8 @@
-import { createSupabaseClient } from '@/lib/supabase';
-import { Session, Player } from '@/types';
+import { getDatabase, runInTransaction } from '@/lib/db';
+import { Session, Player, CourtQueue, SessionExpense, ScoringRuleName, Tournament } from '@/types';
+import { DEFAULT_CURRENCY_SETTINGS } from '@/lib/currency';
+import { DEFAULT_SCORING_RULE, isScoringRuleName } from '@/lib/scoring';
+import { AuditService } from './auditService';
 
 export interface SessionRow {
   id: string;
@@ -14,6 +17,13 @@ export interface SessionRow {
   round_robin_count: number | null;
   group_id: string | null;
   betting_enabled: boolean;
+  court_queue: CourtQueue | null;
+  expenses: SessionExpense[] | null;
+  cost_split_mode: string;
+  currency: string;
+  currency_locale: string;
+  scoring_rule: string;
+  tournament: Tournament | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -23,6 +33,7 @@ export interface PlayerRow {
   session_id: string;
   name: string;
   group_player_id: string | null;
+  attendance_weight: number;
   created_at: Date;
 }
 
@@ -38,10 +49,10 @@ export class SessionService {
    */
   static async getAllSessions(): Promise<Session[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Fetch all sessions first
-      const { data: sessionsData, error: sessionsError } = await supabase
+      const { data: sessionsData, error: sessionsError } = await db
         .from('sessions')
         .select('*')
         .order('created_at', { ascending: false });
@@ -56,9 +67,9 @@ export class SessionService {
 
       // Batch fetch all players for all sessions in a single query
       const sessionIds = sessionsData.map(s => s.id);
-      const { data: allPlayersData, error: playersError } = await supabase
+      const { data: allPlayersData, error: playersError } = await db
         .from('players')
-        .select('id, name, group_player_id, session_id')
+        .select('id, name, group_player_id, attendance_weight, session_id')
         .in('session_id', sessionIds)
         .order('created_at', { ascending: true });
 
@@ -77,6 +88,7 @@ export class SessionService {
           id: player.id,
           name: player.name,
           groupPlayerId: player.group_player_id || undefined,
+          attendanceWeight: player.attendance_weight ?? undefined,
         });
       });
 
@@ -98,9 +110,9 @@ export class SessionService {
    */
   static async getSessionById(sessionId: string): Promise<Session | null> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
-      const { data: sessionData, error: sessionError } = await supabase
+      const { data: sessionData, error: sessionError } = await db
         .from('sessions')
         .select('*')
         .eq('id', sessionId)
@@ -126,86 +138,266 @@ export class SessionService {
     }
   }
 
+  /**
+   * Get the group a session belongs to (null for standalone or unknown sessions)
+   * Lighter than getSessionById when only the group is needed, e.g. for admin PIN checks
+   */
+  static async getSessionGroupId(sessionId: string): Promise<string | null> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('sessions')
+        .select('group_id')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data?.group_id ?? null;
+    } catch (error) {
+      console.error('[SessionService] Error fetching session group:', error);
+      throw new Error('Failed to fetch session');
+    }
+  }
+
+  /**
+   * Get the scoring rule a session's games are played to (the default for unknown sessions)
+   * Lighter than getSessionById when only the rule is needed, e.g. to check a new score
+   */
+  static async getSessionScoringRule(sessionId: string): Promise<ScoringRuleName> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('sessions')
+        .select('scoring_rule')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return isScoringRuleName(data?.scoring_rule) ? data.scoring_rule : DEFAULT_SCORING_RULE;
+    } catch (error) {
+      console.error('[SessionService] Error fetching session scoring rule:', error);
+      throw new Error('Failed to fetch session');
+    }
+  }
+
+  /**
+   * Get a session's tournament (null if it isn't running one, or doesn't exist)
+   * Lighter than getSessionById when only the tournament is needed, e.g. to check a game edit
+   */
+  static async getSessionTournament(sessionId: string): Promise<Tournament | null> {
+    try {
+      const db = getDatabase();
+
+      const { data, error } = await db
+        .from('sessions')
+        .select('tournament')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data?.tournament || null;
+    } catch (error) {
+      console.error('[SessionService] Error fetching session tournament:', error);
+      throw new Error('Failed to fetch session');
+    }
+  }
+
   /**
    * Create or update a session with players (upsert)
+   * Logged to the audit log in the same transaction
    */
   static async createSession(
     session: Session,
     roundRobinCount?: number | null
   ): Promise<Session> {
     try {
-      const supabase = createSupabaseClient();
+      return await runInTransaction(() => this.saveSession(session, roundRobinCount));
+    } catch (error) {
+      console.error('[SessionService] Error creating session:', error);
+      throw new Error('Failed to create session');
+    }
+  }
 
-      // Upsert session (insert or update if exists)
-      const sessionData = {
-        id: session.id,
-        name: session.name || null,
-        date: session.date.toISOString(),
-        organizer_id: session.organizerId,
-        court_cost_type: session.courtCostType,
-        court_cost_value: session.courtCostValue,
-        bird_cost_total: session.birdCostTotal,
-        bet_per_player: session.betPerPlayer,
-        game_mode: session.gameMode,
-        round_robin_count: roundRobinCount || null,
-        group_id: session.groupId || null,
-        betting_enabled: session.bettingEnabled ?? true,
-      };
-
-      const { error: sessionError } = await supabase
-        .from('sessions')
-        .upsert(sessionData, {
+  /**
+   * Body of createSession, run inside its transaction
+   */
+  private static async saveSession(
+    session: Session,
+    roundRobinCount?: number | null
+  ): Promise<Session> {
+    const db = getDatabase();
+
+    const { data: existingRow, error: existingError } = await db
+      .from('sessions')
+      .select('*')
+      .eq('id', session.id)
+      .maybeSingle();
+
+    if (existingError) {
+      throw existingError;
+    }
+    const before = existingRow ? await AuditService.snapshotSession(existingRow) : null;
+
+    // Upsert session (insert or update if exists)
+    const sessionData = {
+      id: session.id,
+      name: session.name || null,
+      date: session.date.toISOString(),
+      organizer_id: session.organizerId,
+      court_cost_type: session.courtCostType,
+      court_cost_value: session.courtCostValue,
+      bird_cost_total: session.birdCostTotal,
+      bet_per_player: session.betPerPlayer,
+      game_mode: session.gameMode,
+      round_robin_count: roundRobinCount || null,
+      group_id: session.groupId || null,
+      betting_enabled: session.bettingEnabled ?? true,
+      expenses: session.expenses && session.expenses.length > 0 ? session.expenses : null,
+      cost_split_mode: session.costSplitMode ?? 'even',
+      currency: (session.currencySettings ?? DEFAULT_CURRENCY_SETTINGS).currency,
+      currency_locale: (session.currencySettings ?? DEFAULT_CURRENCY_SETTINGS).locale,
+      scoring_rule: session.scoringRule ?? DEFAULT_SCORING_RULE,
+    };
+
+    const { error: sessionError } = await db
+      .from('sessions')
+      .upsert(sessionData, {
+        onConflict: 'id',
+      })
+      .select();
+
+    if (sessionError) {
+      throw sessionError;
+    }
+
+    // Upsert players (insert or update if exists)
+    if (session.players.length > 0) {
+      // Ensure all players have names (assign defaults if missing)
+      const playersData = session.players.map((player, index) => ({
+        id: player.id,
+        session_id: session.id,
+        name: (player.name && player.name.trim()) || `Player ${index + 1}`,
+        group_player_id: player.groupPlayerId || null,
+        attendance_weight: player.attendanceWeight ?? 1,
+      }));
+
+      const { error: playersError } = await db
+        .from('players')
+        .upsert(playersData, {
           onConflict: 'id',
-        })
-        .select();
+        });
 
-      if (sessionError) {
-        throw sessionError;
+      if (playersError) {
+        throw playersError;
       }
+    }
 
-      // Upsert players (insert or update if exists)
-      if (session.players.length > 0) {
-        // Ensure all players have names (assign defaults if missing)
-        const playersData = session.players.map((player, index) => ({
-          id: player.id,
-          session_id: session.id,
-          name: (player.name && player.name.trim()) || `Player ${index + 1}`,
-          group_player_id: player.groupPlayerId || null,
-        }));
-
-        const { error: playersError } = await supabase
-          .from('players')
-          .upsert(playersData, {
-            onConflict: 'id',
-          });
-
-        if (playersError) {
-          throw playersError;
-        }
-      }
+    const { data: savedRow, error: savedError } = await db
+      .from('sessions')
+      .select('*')
+      .eq('id', session.id)
+      .single();
+
+    if (savedError) {
+      throw savedError;
+    }
+    await AuditService.recordSessionChange(
+      before ? 'update' : 'create',
+      before,
+      await AuditService.snapshotSession(savedRow)
+    );
 
-      return session;
+    return session;
+  }
+
+  /**
+   * Save the session's live court queue (null ends the queue)
+   * Kept separate from createSession so session edits never overwrite the queue
+   */
+  static async updateCourtQueue(sessionId: string, queue: CourtQueue | null): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      const { error } = await db
+        .from('sessions')
+        .update({ court_queue: queue })
+        .eq('id', sessionId);
+
+      if (error) {
+        throw error;
+      }
     } catch (error) {
-      console.error('[SessionService] Error creating session:', error);
-      throw new Error('Failed to create session');
+      console.error('[SessionService] Error updating court queue:', error);
+      throw new Error('Failed to update court queue');
     }
   }
 
   /**
-   * Delete a session (cascade will delete players and games)
+   * Save the session's tournament (null ends it)
+   * Kept separate from createSession so session edits never overwrite the bracket
    */
-  static async deleteSession(sessionId: string): Promise<void> {
+  static async updateTournament(sessionId: string, tournament: Tournament | null): Promise<void> {
     try {
-      const supabase = createSupabaseClient();
-      
-      const { error } = await supabase
+      const db = getDatabase();
+
+      const { error } = await db
         .from('sessions')
-        .delete()
+        .update({ tournament })
         .eq('id', sessionId);
 
       if (error) {
         throw error;
       }
+    } catch (error) {
+      console.error('[SessionService] Error updating tournament:', error);
+      throw new Error('Failed to update tournament');
+    }
+  }
+
+  /**
+   * Delete a session (cascade will delete players and games)
+   * The audit log keeps a snapshot with its players and games so the delete can be reverted
+   */
+  static async deleteSession(sessionId: string): Promise<void> {
+    try {
+      await runInTransaction(async () => {
+        const db = getDatabase();
+
+        const { data: existingRow, error: existingError } = await db
+          .from('sessions')
+          .select('*')
+          .eq('id', sessionId)
+          .maybeSingle();
+
+        if (existingError) {
+          throw existingError;
+        }
+        const before = existingRow ? await AuditService.snapshotSession(existingRow, { withGames: true }) : null;
+
+        const { error } = await db
+          .from('sessions')
+          .delete()
+          .eq('id', sessionId);
+
+        if (error) {
+          throw error;
+        }
+
+        if (before) {
+          await AuditService.recordSessionChange('delete', before, null);
+        }
+      });
     } catch (error) {
       console.error('[SessionService] Error deleting session:', error);
       throw new Error('Failed to delete session');
@@ -217,11 +409,11 @@ export class SessionService {
    */
   static async getPlayersBySessionId(sessionId: string): Promise<Player[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
-      const { data: playersData, error: playersError } = await supabase
+      const { data: playersData, error: playersError } = await db
         .from('players')
-        .select('id, name, group_player_id')
+        .select('id, name, group_player_id, attendance_weight')
         .eq('session_id', sessionId)
         .order('created_at', { ascending: true });
 
@@ -233,6 +425,7 @@ export class SessionService {
         id: row.id,
         name: row.name,
         groupPlayerId: row.group_player_id || undefined,
+        attendanceWeight: row.attendance_weight ?? undefined,
       }));
     } catch (error) {
       console.error('[SessionService] Error fetching players:', error);
@@ -245,9 +438,9 @@ export class SessionService {
    */
   static async getSessionsByGroupId(groupId: string): Promise<Session[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
-      const { data: sessionsData, error: sessionsError } = await supabase
+      const { data: sessionsData, error: sessionsError } = await db
         .from('sessions')
         .select('*')
         .eq('group_id', groupId)
@@ -289,10 +482,10 @@ export class SessionService {
     groupId: string | null;
   }>> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Fetch all sessions
-      const { data: sessionsData, error: sessionsError } = await supabase
+      const { data: sessionsData, error: sessionsError } = await db
         .from('sessions')
         .select('id, name, date, game_mode, group_id')
         .order('created_at', { ascending: false });
@@ -307,7 +500,7 @@ export class SessionService {
 
       // Batch fetch player counts for all sessions in a single query
       const sessionIds = sessionsData.map(s => s.id);
-      const { data: allPlayersData, error: playersError } = await supabase
+      const { data: allPlayersData, error: playersError } = await db
         .from('players')
         .select('session_id')
         .in('session_id', sessionIds);
@@ -358,6 +551,14 @@ export class SessionService {
       gameMode: row.game_mode as 'doubles' | 'singles',
       groupId: row.group_id || undefined,
       bettingEnabled: row.betting_enabled ?? true,
+      courtQueue: row.court_queue || undefined,
+      expenses: row.expenses || undefined,
+      costSplitMode: row.cost_split_mode || undefined,
+      currencySettings: row.currency
+        ? { currency: row.currency, locale: row.currency_locale || DEFAULT_CURRENCY_SETTINGS.locale }
+        : undefined,
+      scoringRule: isScoringRuleName(row.scoring_rule) ? row.scoring_rule : undefined,
+      tournament: row.tournament || undefined,
     };
   }
 }
@@ -0,0 +1,227 @@
+import { createMemoryDatabase, Database, DatabaseRow, getDatabase, runInTransaction, runWithDatabase } from '@/lib/db';
+import { GroupStatsRebuild, StatChange, StatRowDiff } from '@/types';
+import { EloService } from './eloService';
+import { PairingStatsService } from './pairingStatsService';
+
+// Columns each derived table gets from replaying the games log
+const PLAYER_STAT_COLUMNS = [
+  'elo_rating',
+  'rating_deviation',
+  'rating_volatility',
+  'last_played_at',
+  'wins',
+  'losses',
+  'total_games',
+  'current_streak',
+  'best_win_streak',
+];
+const PARTNER_STAT_COLUMNS = [
+  'wins',
+  'losses',
+  'total_games',
+  'elo_rating',
+  'current_streak',
+  'best_win_streak',
+  'points_for',
+  'points_against',
+];
+const MATCHUP_STAT_COLUMNS = ['team1_wins', 'team1_losses', 'total_games'];
+const MATCHUP_KEY_COLUMNS = ['team1_player1_id', 'team1_player2_id', 'team2_player1_id', 'team2_player2_id'];
+
+// REAL columns only keep ~7 significant digits, so they're compared with a tolerance
+const REAL_STAT_COLUMNS = ['rating_deviation', 'rating_volatility'];
+const REAL_TOLERANCE = 1e-4;
+
+// Tables copied for a dry run - everything the replay reads or rewrites
+const GROUP_TABLES = ['group_players', 'sessions', 'partner_stats', 'pairing_matchups', 'elo_history'];
+const SESSION_TABLES = ['players', 'games'];
+
+interface GroupStats {
+  players: Map<string, DatabaseRow>;
+  partnerStats: Map<string, DatabaseRow>;
+  pairingMatchups: Map<string, DatabaseRow>;
+  playerNames: Map<string, string>;
+}
+
+/**
+ * Service for rebuilding a group's derived stats from its games
+ * group_players ratings/records, elo_history, partner_stats and pairing_matchups are all
+ * projections of the games table: the rebuild throws them away and replays every game in order
+ */
+export class StatsRebuildService {
+  /**
+   * Replay every game in the group and report what changes
+   * Rebuilding from scratch is idempotent - a second run reports no changes
+   * With dryRun the replay runs on an in-memory copy of the group, so drift is detected without writing
+   */
+  static async rebuildGroupStats(
+    groupId: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<GroupStatsRebuild> {
+    const dryRun = options.dryRun ?? false;
+
+    try {
+      const replay = dryRun
+        ? await runWithDatabase(await this.copyGroup(groupId), () => this.replayGames(groupId))
+        : await runInTransaction(() => this.replayGames(groupId), { lockKey: `group:${groupId}` });
+
+      const { before, after, gamesReplayed } = replay;
+      const names = new Map(Array.from(before.playerNames.entries()).concat(Array.from(after.playerNames.entries())));
+      const nameOf = (id: string) => names.get(id) || id;
+
+      const players = this.diffRows(before.players, after.players, PLAYER_STAT_COLUMNS, nameOf);
+      const partnerStats = this.diffRows(before.partnerStats, after.partnerStats, PARTNER_STAT_COLUMNS, (key) =>
+        key.split(':').map(nameOf).join(' & ')
+      );
+      const pairingMatchups = this.diffRows(before.pairingMatchups, after.pairingMatchups, MATCHUP_STAT_COLUMNS, (key) => {
+        const [a1, a2, b1, b2] = key.split(':').map(nameOf);
+        return `${a1} & ${a2} vs ${b1} & ${b2}`;
+      });
+
+      return {
+        dryRun,
+        inSync: players.length === 0 && partnerStats.length === 0 && pairingMatchups.length === 0,
+        gamesReplayed,
+        players,
+        partnerStats,
+        pairingMatchups,
+      };
+    } catch (error) {
+      console.error('[StatsRebuildService] Error rebuilding group stats:', error);
+      throw new Error('Failed to rebuild group stats');
+    }
+  }
+
+  /**
+   * Read the stored stats, rebuild them from the games, and read them again
+   * Runs against whichever database the caller bound (transaction or dry-run copy)
+   */
+  private static async replayGames(
+    groupId: string
+  ): Promise<{ before: GroupStats; after: GroupStats; gamesReplayed: number }> {
+    const before = await this.readStats(groupId);
+
+    const eloResult = await EloService.recalculateGroupElo(groupId);
+    await PairingStatsService.recalculatePairingStats(groupId);
+
+    const after = await this.readStats(groupId);
+    return { before, after, gamesReplayed: eloResult.gamesProcessed };
+  }
+
+  /**
+   * Copy the group's rows into a fresh in-memory database for a dry run
+   */
+  private static async copyGroup(groupId: string): Promise<Database> {
+    const db = getDatabase();
+
+    const fetchRows = async (table: string, column: string, values: string[]): Promise<DatabaseRow[]> => {
+      if (values.length === 0) return [];
+      const { data, error } = await db.from(table).select('*').in(column, values);
+      if (error) throw error;
+      return data || [];
+    };
+
+    const seed: Record<string, DatabaseRow[]> = {
+      groups: await fetchRows('groups', 'id', [groupId]),
+    };
+    for (const table of GROUP_TABLES) {
+      seed[table] = await fetchRows(table, 'group_id', [groupId]);
+    }
+    const sessionIds = seed.sessions.map((s) => s.id);
+    for (const table of SESSION_TABLES) {
+      seed[table] = await fetchRows(table, 'session_id', sessionIds);
+    }
+
+    return createMemoryDatabase(seed);
+  }
+
+  /**
+   * Current derived stats for a group, keyed by group player / pair / matchup
+   */
+  private static async readStats(groupId: string): Promise<GroupStats> {
+    const db = getDatabase();
+
+    const { data: players, error: playersError } = await db
+      .from('group_players')
+      .select(['id', 'name', ...PLAYER_STAT_COLUMNS].join(', '))
+      .eq('group_id', groupId);
+    if (playersError) throw playersError;
+
+    const { data: partners, error: partnersError } = await db
+      .from('partner_stats')
+      .select(['player1_id', 'player2_id', ...PARTNER_STAT_COLUMNS].join(', '))
+      .eq('group_id', groupId);
+    if (partnersError) throw partnersError;
+
+    const { data: matchups, error: matchupsError } = await db
+      .from('pairing_matchups')
+      .select([...MATCHUP_KEY_COLUMNS, ...MATCHUP_STAT_COLUMNS].join(', '))
+      .eq('group_id', groupId);
+    if (matchupsError) throw matchupsError;
+
+    return {
+      players: new Map((players || []).map((row) => [row.id, row])),
+      partnerStats: new Map((partners || []).map((row) => [`${row.player1_id}:${row.player2_id}`, row])),
+      pairingMatchups: new Map((matchups || []).map((row) => [MATCHUP_KEY_COLUMNS.map((c) => row[c]).join(':'), row])),
+      playerNames: new Map((players || []).map((row) => [row.id, row.name])),
+    };
+  }
+
+  /**
+   * Compare stored rows with replayed rows, column by column
+   */
+  private static diffRows(
+    before: Map<string, DatabaseRow>,
+    after: Map<string, DatabaseRow>,
+    columns: string[],
+    label: (key: string) => string
+  ): StatRowDiff[] {
+    const keys = Array.from(before.keys()).concat(Array.from(after.keys()).filter((key) => !before.has(key)));
+    const diffs: StatRowDiff[] = [];
+
+    keys.forEach((key) => {
+      const stored = before.get(key);
+      const replayed = after.get(key);
+      const changes: StatChange[] = [];
+
+      columns.forEach((column) => {
+        const oldValue = stored ? normalizeStat(column, stored[column]) : null;
+        const newValue = replayed ? normalizeStat(column, replayed[column]) : null;
+        if (stored && replayed && sameStat(column, oldValue, newValue)) return;
+        changes.push({ column, before: oldValue, after: newValue });
+      });
+
+      if (changes.length > 0) {
+        diffs.push({
+          key,
+          label: label(key),
+          status: !stored ? 'added' : !replayed ? 'removed' : 'changed',
+          changes,
+        });
+      }
+    });
+
+    return diffs;
+  }
+}
+
+/**
+ * Put a stored value in a comparable form: counters and ratings as numbers, timestamps as ISO strings
+ */
+function normalizeStat(column: string, value: unknown): number | string | null {
+  if (value == null) return null;
+  if (column === 'last_played_at') {
+    // TIMESTAMP columns come back without a zone; they're written as UTC
+    const text = String(value);
+    return new Date(/(Z|[+-]\d\d:?\d\d)$/.test(text) ? text : `${text}Z`).toISOString();
+  }
+  const numeric = Number(value);
+  return isNaN(numeric) ? String(value) : numeric;
+}
+
+function sameStat(column: string, a: number | string | null, b: number | string | null): boolean {
+  if (REAL_STAT_COLUMNS.includes(column) && typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= REAL_TOLERANCE * Math.max(1, Math.abs(a));
+  }
+  return a === b;
+}
@@ -1,5 +1,6 @@
-import { createSupabaseClient } from '@/lib/supabase';
+import { getDatabase } from '@/lib/db';
 import { LeaderboardEntry, PlayerDetailedStats, PartnerStats, OpponentStats, RecentGame, UnluckyGame, ClutchGame } from '@/types';
+import { EloService } from './eloService';
 
 export interface GroupPlayerStats {
   groupPlayerId: string;
@@ -34,20 +35,21 @@ export class StatsService {
    */
   static async getLeaderboard(groupId: string): Promise<LeaderboardEntry[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Run independent queries in parallel for better performance
-      const [groupPlayersResult, sessionsResult] = await Promise.all([
-        supabase
+      const [groupPlayersResult, sessionsResult, ratingSettings] = await Promise.all([
+        db
           .from('group_players')
-          .select('id, name, elo_rating')
+          .select('id, name, elo_rating, rating_deviation, rating_volatility, last_played_at')
           .eq('group_id', groupId)
           .eq('is_active', true)  // Only show active players in leaderboard
           .order('elo_rating', { ascending: false }),
-        supabase
+        db
           .from('sessions')
           .select('id')
-          .eq('group_id', groupId)
+          .eq('group_id', groupId),
+        EloService.getRatingSettings(groupId),
       ]);
 
       const { data: groupPlayers, error: gpError } = groupPlayersResult;
@@ -56,6 +58,19 @@ export class StatsService {
       if (gpError) throw gpError;
       if (!groupPlayers || groupPlayers.length === 0) return [];
 
+      // Confidence bands are only meaningful for Glicko-2 (ELO has no rating deviation)
+      const engine = EloService.getRatingEngine(ratingSettings.engine);
+      const now = new Date();
+      const getRatingDeviation = (gp: typeof groupPlayers[number]): number | undefined => {
+        if (ratingSettings.engine !== 'glicko2') return undefined;
+        return Math.round(engine.currentDeviation({
+          rating: gp.elo_rating || ratingSettings.startingRating,
+          deviation: gp.rating_deviation ?? 350,
+          volatility: gp.rating_volatility ?? 0.06,
+          lastPlayedAt: gp.last_played_at ? new Date(gp.last_played_at) : undefined,
+        }, now));
+      };
+
       const sessionIds = (sessions || []).map(s => s.id);
       if (sessionIds.length === 0) {
         // No sessions = no games, return empty stats for all players
@@ -63,6 +78,7 @@ export class StatsService {
           groupPlayerId: gp.id,
           playerName: gp.name,
           eloRating: gp.elo_rating || 1500,
+          ratingDeviation: getRatingDeviation(gp),
           rank: index + 1,
           totalGames: 0,
           wins: 0,
@@ -75,12 +91,12 @@ export class StatsService {
       
       // Run player mappings and games queries in parallel (limited to prevent memory issues)
       const [playersResult, allGamesResult] = await Promise.all([
-        supabase
+        db
           .from('players')
           .select('id, group_player_id')
           .in('session_id', sessionIds)
           .not('group_player_id', 'is', null),
-        supabase
+        db
           .from('games')
           .select('team_a, team_b, winning_team, created_at')
           .in('session_id', sessionIds)
@@ -165,6 +181,7 @@ export class StatsService {
           groupPlayerId: gp.id,
           playerName: gp.name,
           eloRating: gp.elo_rating || 1500,
+          ratingDeviation: getRatingDeviation(gp),
           rank: 0, // Will be set after sorting
           totalGames,
           wins: stats.wins,
@@ -193,22 +210,22 @@ export class StatsService {
    */
   static async getPlayerDetailedStats(groupId: string, groupPlayerId: string): Promise<PlayerDetailedStats | null> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Run first batch of independent queries in parallel
       const [playerResult, allPlayersResult, sessionsResult] = await Promise.all([
-        supabase
+        db
           .from('group_players')
           .select('id, name, elo_rating')
           .eq('id', groupPlayerId)
           .eq('group_id', groupId)
           .single(),
-        supabase
+        db
           .from('group_players')
           .select('id, elo_rating')
           .eq('group_id', groupId)
           .order('elo_rating', { ascending: false }),
-        supabase
+        db
           .from('sessions')
           .select('id')
           .eq('group_id', groupId)
@@ -230,11 +247,11 @@ export class StatsService {
 
       // Run second batch of queries in parallel (limited to prevent memory issues)
       const [sessionPlayersResult, gamesResult] = await Promise.all([
-        supabase
+        db
           .from('players')
           .select('id, session_id, group_player_id, name')
           .in('session_id', sessionIds),
-        supabase
+        db
           .from('games')
           .select('*')
           .in('session_id', sessionIds)
@@ -523,10 +540,10 @@ export class StatsService {
    */
   static async getGroupPlayersStats(groupId: string): Promise<GroupPlayerStats[]> {
     try {
-      const supabase = createSupabaseClient();
+      const db = getDatabase();
       
       // Get all active group players
-      const { data: groupPlayers, error: gpError } = await supabase
+      const { data: groupPlayers, error: gpError } = await db
         .from('group_players')
         .select('id, name')
         .eq('group_id', groupId)
@@ -541,7 +558,7 @@ export class StatsService {
       }
 
       // Get all sessions in the group
-      const { data: sessions, error: sessionsError } = await supabase
+      const { data: sessions, error: sessionsError } = await db
         .from('sessions')
         .select('id')
         .eq('group_id', groupId);
@@ -567,7 +584,7 @@ export class StatsService {
       const sessionIds = sessions.map((s) => s.id);
 
       // Get all games from these sessions (limited to prevent memory issues)
-      const { data: games, error: gamesError } = await supabase
+      const { data: games, error: gamesError } = await db
         .from('games')
         .select('*')
         .in('session_id', sessionIds)
@@ -579,7 +596,7 @@ export class StatsService {
       }
 
       // Get all players from these sessions (to map session player IDs to group player IDs)
-      const { data: players, error: playersError } = await supabase
+      const { data: players, error: playersError } = await db
         .from('players')
         .select('id, session_id, group_player_id')
         .in('session_id', sessionIds)
@@ -0,0 +1,183 @@
+import { runInTransaction } from '@/lib/db';
+import { Game, Session, Tournament, TournamentInput } from '@/types';
+import {
+  buildTournament,
+  getTournamentEditError,
+  getTournamentGameId,
+  pairPlayersByRating,
+  seedTournamentEntries,
+} from '@/lib/tournament';
+import { SessionService } from './sessionService';
+import { GameService } from './gameService';
+import { GroupService } from './groupService';
+import { DEFAULT_RATING_SETTINGS, EloService } from './eloService';
+
+export type TournamentStartResult =
+  | { result: 'started'; tournament: Tournament }
+  | { result: 'in_progress' };
+
+function sameTeam(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+/**
+ * Service layer for session tournaments
+ * The bracket itself is built and worked out by lib/tournament.ts; this seeds it from the
+ * group's ratings, saves it on the session and creates its first games. Later games follow
+ * results automatically (GameService).
+ */
+export class TournamentService {
+  /**
+   * Seed and start a tournament on a session (input already checked by validateTournamentInput)
+   * A tournament that hasn't had a result yet is replaced; one under way is left alone.
+   * With dryRun nothing is saved - the seeded bracket is returned as a preview.
+   */
+  static async startTournament(
+    session: Session,
+    input: TournamentInput,
+    options: { dryRun?: boolean } = {}
+  ): Promise<TournamentStartResult> {
+    try {
+      const { ratings, defaultRating } = await this.getPlayerRatings(session);
+      const withDefault = new Map(session.players.map((p) => [p.id, ratings.get(p.id) ?? defaultRating]));
+      const playerIds = session.players.map((p) => p.id);
+      const entries = input.entries
+        ?? (session.gameMode === 'singles' ? playerIds.map((id) => [id]) : pairPlayersByRating(playerIds, withDefault));
+
+      const tournament = buildTournament(input.format, seedTournamentEntries(entries, ratings, defaultRating), {
+        poolCount: input.poolCount,
+        advancePerPool: input.advancePerPool,
+      });
+      if (options.dryRun) {
+        return { result: 'started', tournament };
+      }
+
+      const lockKey = session.groupId ? `group:${session.groupId}` : `session:${session.id}`;
+      return await runInTransaction(async () => {
+        const previous = await SessionService.getSessionTournament(session.id);
+        if (previous) {
+          const games = await GameService.getGamesBySessionId(session.id);
+          if (this.getBracketGames(session.id, previous, games).some((game) => game.winningTeam !== null)) {
+            return { result: 'in_progress' as const };
+          }
+          // Cleared first, or removing its games would bring them straight back
+          await SessionService.updateTournament(session.id, null);
+          await this.removeUnplayedBracketGames(session.id, previous, games);
+        }
+
+        await SessionService.updateTournament(session.id, tournament);
+        await GameService.syncTournamentGames(session.id);
+        return { result: 'started' as const, tournament };
+      }, { lockKey });
+    } catch (error) {
+      console.error('[TournamentService] Error starting tournament:', error);
+      throw new Error('Failed to start tournament');
+    }
+  }
+
+  /**
+   * End a session's tournament: unplayed bracket games go, played ones stay as ordinary games
+   * Returns false if the session had no tournament
+   */
+  static async endTournament(session: Session): Promise<boolean> {
+    try {
+      const lockKey = session.groupId ? `group:${session.groupId}` : `session:${session.id}`;
+      return await runInTransaction(async () => {
+        const tournament = await SessionService.getSessionTournament(session.id);
+        if (!tournament) {
+          return false;
+        }
+
+        await SessionService.updateTournament(session.id, null);
+        await this.removeUnplayedBracketGames(session.id, tournament, await GameService.getGamesBySessionId(session.id));
+        return true;
+      }, { lockKey });
+    } catch (error) {
+      console.error('[TournamentService] Error ending tournament:', error);
+      throw new Error('Failed to end tournament');
+    }
+  }
+
+  /**
+   * Has any of the tournament's games been played?
+   */
+  static async hasResults(session: Session): Promise<boolean> {
+    if (!session.tournament) {
+      return false;
+    }
+    const games = await GameService.getGamesBySessionId(session.id);
+    return this.getBracketGames(session.id, session.tournament, games).some((game) => game.winningTeam !== null);
+  }
+
+  /**
+   * Why a change to a game would break the session's bracket (null if it wouldn't, or the
+   * game isn't a tournament game) - see getTournamentEditError
+   * updates is the change about to be saved, or null for a delete
+   */
+  static async getGameEditError(sessionId: string, gameId: string, updates: Partial<Game> | null): Promise<string | null> {
+    try {
+      const tournament = await SessionService.getSessionTournament(sessionId);
+      if (!tournament) {
+        return null;
+      }
+
+      const games = await GameService.getGamesBySessionId(sessionId);
+      const current = games.find((game) => game.id === gameId);
+      if (!current) {
+        return null;
+      }
+
+      if (updates === null) {
+        return getTournamentEditError(sessionId, tournament, games, gameId, { deleting: true });
+      }
+      return getTournamentEditError(sessionId, tournament, games, gameId, {
+        teamsChanged:
+          (updates.teamA !== undefined && !sameTeam(updates.teamA, current.teamA)) ||
+          (updates.teamB !== undefined && !sameTeam(updates.teamB, current.teamB)),
+        winnerChanged: updates.winningTeam !== undefined && updates.winningTeam !== current.winningTeam,
+        scoresChanged:
+          (updates.teamAScore !== undefined && updates.teamAScore !== current.teamAScore) ||
+          (updates.teamBScore !== undefined && updates.teamBScore !== current.teamBScore),
+      });
+    } catch (error) {
+      console.error('[TournamentService] Error checking tournament game edit:', error);
+      throw new Error('Failed to check tournament game');
+    }
+  }
+
+  /**
+   * Group ratings of the session's players, and the rating anyone without one counts as
+   * Guests and standalone sessions have no rating, so they're seeded at the starting rating
+   */
+  private static async getPlayerRatings(session: Session): Promise<{ ratings: Map<string, number>; defaultRating: number }> {
+    const ratings = new Map<string, number>();
+    if (!session.groupId) {
+      return { ratings, defaultRating: DEFAULT_RATING_SETTINGS.startingRating };
+    }
+
+    const [groupPlayers, settings] = await Promise.all([
+      GroupService.getGroupPlayers(session.groupId),
+      EloService.getRatingSettings(session.groupId),
+    ]);
+    session.players.forEach((player) => {
+      const groupPlayer = groupPlayers.find((gp) => gp.id === player.groupPlayerId);
+      if (groupPlayer?.eloRating !== undefined) {
+        ratings.set(player.id, groupPlayer.eloRating);
+      }
+    });
+    return { ratings, defaultRating: settings.startingRating };
+  }
+
+  private static getBracketGames(sessionId: string, tournament: Tournament, games: Game[]): Game[] {
+    const gameIds = new Set(tournament.matches.map((match) => getTournamentGameId(sessionId, match.id)));
+    return games.filter((game) => gameIds.has(game.id));
+  }
+
+  private static async removeUnplayedBracketGames(sessionId: string, tournament: Tournament, games: Game[]): Promise<void> {
+    for (const game of this.getBracketGames(sessionId, tournament, games)) {
+      if (game.winningTeam === null) {
+        await GameService.deleteGame(sessionId, game.id);
+      }
+    }
+  }
+}
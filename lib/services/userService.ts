@@ -0,0 +1,269 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { getDatabase } from '@/lib/db';
+import { User, UserDashboard, UserGroupMembership } from '@/types';
+import { GroupService } from './groupService';
+import { StatsService } from './statsService';
+
+// How long a signed-in browser stays signed in, and how long a sign-in link works
+export const USER_SESSION_DAYS = 30;
+const LOGIN_TOKEN_MINUTES = 15;
+
+/**
+ * Tokens are only stored as SHA-256 hashes, so a leaked table can't be used to sign in
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Service layer for user accounts, signed-in sessions and the personal dashboard
+ * Accounts are optional - see lib/auth.ts for how people sign in
+ */
+export class UserService {
+  /**
+   * Get the account for an email, creating it on first sign-in
+   */
+  static async findOrCreateUserByEmail(email: string): Promise<User> {
+    try {
+      const db = getDatabase();
+      const normalizedEmail = email.trim().toLowerCase();
+
+      const { data: existing, error: fetchError } = await db
+        .from('users')
+        .select('*')
+        .eq('email', normalizedEmail)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      if (existing) return this.mapRowToUser(existing);
+
+      const { data, error } = await db
+        .from('users')
+        .insert({
+          id: `user-${randomUUID()}`,
+          email: normalizedEmail,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Signed in twice at once - the other request created the account
+        if (error.code === '23505') {
+          const { data: created, error: refetchError } = await db
+            .from('users')
+            .select('*')
+            .eq('email', normalizedEmail)
+            .single();
+          if (refetchError) throw refetchError;
+          return this.mapRowToUser(created);
+        }
+        throw error;
+      }
+
+      return this.mapRowToUser(data);
+    } catch (error) {
+      console.error('[UserService] Error finding or creating user:', error);
+      throw new Error('Failed to find or create user');
+    }
+  }
+
+  /**
+   * Start a signed-in session for a user
+   * Returns the raw token for the session cookie (only its hash is stored)
+   */
+  static async createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    try {
+      const db = getDatabase();
+      const token = generateToken();
+      const expiresAt = new Date(Date.now() + USER_SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+      const { error } = await db
+        .from('user_sessions')
+        .insert({
+          token_hash: hashToken(token),
+          user_id: userId,
+          expires_at: expiresAt.toISOString(),
+        });
+
+      if (error) throw error;
+
+      await db
+        .from('users')
+        .update({ last_sign_in_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      return { token, expiresAt };
+    } catch (error) {
+      console.error('[UserService] Error creating user session:', error);
+      throw new Error('Failed to create user session');
+    }
+  }
+
+  /**
+   * Get the user for a session cookie's token, or null if it is unknown or expired
+   */
+  static async getUserBySessionToken(token: string): Promise<User | null> {
+    try {
+      const db = getDatabase();
+
+      const { data: session, error } = await db
+        .from('user_sessions')
+        .select('user_id, expires_at')
+        .eq('token_hash', hashToken(token))
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!session || new Date(session.expires_at).getTime() <= Date.now()) return null;
+
+      const { data: user, error: userError } = await db
+        .from('users')
+        .select('*')
+        .eq('id', session.user_id)
+        .maybeSingle();
+
+      if (userError) throw userError;
+
+      return user ? this.mapRowToUser(user) : null;
+    } catch (error) {
+      console.error('[UserService] Error fetching user by session:', error);
+      throw new Error('Failed to fetch user session');
+    }
+  }
+
+  /**
+   * Sign out - forget a session cookie's token
+   */
+  static async deleteSession(token: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      const { error } = await db
+        .from('user_sessions')
+        .delete()
+        .eq('token_hash', hashToken(token));
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('[UserService] Error deleting user session:', error);
+      throw new Error('Failed to delete user session');
+    }
+  }
+
+  /**
+   * Issue a one-time sign-in token for an email (local auth provider)
+   */
+  static async createLoginToken(email: string): Promise<string> {
+    try {
+      const db = getDatabase();
+      const token = generateToken();
+
+      const { error } = await db
+        .from('login_tokens')
+        .insert({
+          token_hash: hashToken(token),
+          email: email.trim().toLowerCase(),
+          expires_at: new Date(Date.now() + LOGIN_TOKEN_MINUTES * 60 * 1000).toISOString(),
+        });
+
+      if (error) throw error;
+
+      return token;
+    } catch (error) {
+      console.error('[UserService] Error creating login token:', error);
+      throw new Error('Failed to create login token');
+    }
+  }
+
+  /**
+   * Use up a sign-in token
+   * Returns its email, or null if the token is unknown, expired or already used
+   */
+  static async consumeLoginToken(token: string): Promise<string | null> {
+    try {
+      const db = getDatabase();
+
+      // Mark it used only if it wasn't already, so a link can't be opened twice
+      const { data, error } = await db
+        .from('login_tokens')
+        .update({ used_at: new Date().toISOString() })
+        .eq('token_hash', hashToken(token))
+        .is('used_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .select('email');
+
+      if (error) throw error;
+
+      return data && data.length > 0 ? data[0].email : null;
+    } catch (error) {
+      console.error('[UserService] Error consuming login token:', error);
+      throw new Error('Failed to consume login token');
+    }
+  }
+
+  /**
+   * Build the personal dashboard: each group the user has claimed a player in,
+   * with their leaderboard position, and their record added up across groups
+   */
+  static async getUserDashboard(user: User): Promise<UserDashboard> {
+    try {
+      const claimed = await GroupService.getClaimedGroupPlayers(user.id);
+
+      // Wins and losses come from the leaderboard, which counts actual games
+      const groups: UserGroupMembership[] = await Promise.all(
+        claimed.map(async ({ group, player }) => {
+          const leaderboard = await StatsService.getLeaderboard(group.id);
+          const entry = leaderboard.find((e) => e.groupPlayerId === player.id);
+          return {
+            groupId: group.id,
+            groupName: group.name,
+            shareableLink: group.shareableLink,
+            player: entry
+              ? { ...player, eloRating: entry.eloRating, wins: entry.wins, losses: entry.losses, totalGames: entry.totalGames }
+              : player,
+            rank: entry && entry.totalGames > 0 ? entry.rank : null,
+            winRate: entry?.winRate ?? 0,
+          };
+        })
+      );
+
+      const wins = groups.reduce((sum, g) => sum + (g.player.wins || 0), 0);
+      const losses = groups.reduce((sum, g) => sum + (g.player.losses || 0), 0);
+      const totalGames = wins + losses;
+      const ratings = groups
+        .filter((g) => (g.player.totalGames || 0) > 0)
+        .map((g) => g.player.eloRating || 0);
+
+      return {
+        user,
+        groups,
+        totals: {
+          groups: groups.length,
+          totalGames,
+          wins,
+          losses,
+          winRate: totalGames > 0 ? (wins / totalGames) * 100 : 0,
+          bestRating: ratings.length > 0 ? Math.max(...ratings) : null,
+        },
+      };
+    } catch (error) {
+      console.error('[UserService] Error building user dashboard:', error);
+      throw new Error('Failed to build user dashboard');
+    }
+  }
+
+  /**
+   * Map database row to User type
+   */
+  private static mapRowToUser(row: any): User {
+    return {
+      id: row.id,
+      email: row.email,
+      displayName: row.display_name || undefined,
+      createdAt: row.created_at ? new Date(row.created_at) : undefined,
+    };
+  }
+}
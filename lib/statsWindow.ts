@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseStatsWindowQuery } from '@/lib/seasons';
+import { SeasonService, StatsWindow } from '@/lib/services/seasonService';
+
+const WINDOW_ERRORS = {
+  season_not_found: { error: 'Season not found', status: 404 },
+  no_current_season: { error: 'No season is running', status: 404 },
+};
+
+/**
+ * Read the stats window a request asks for (?season=<id>|current, or ?from=&to=)
+ * Returns the window (null = all time), or an error response (400 bad query, 404 no such season)
+ */
+export async function getRequestStatsWindow(
+  request: NextRequest,
+  groupId: string
+): Promise<{ window: StatsWindow | null; errorResponse: NextResponse | null }> {
+  const query = parseStatsWindowQuery(request.nextUrl.searchParams);
+  if (typeof query === 'string') {
+    return { window: null, errorResponse: NextResponse.json({ error: query }, { status: 400 }) };
+  }
+
+  const resolved = await SeasonService.resolveStatsWindow(groupId, query);
+  if (resolved.result !== 'ok') {
+    const { error, status } = WINDOW_ERRORS[resolved.result];
+    return { window: null, errorResponse: NextResponse.json({ error }, { status }) };
+  }
+
+  return { window: resolved.window, errorResponse: null };
+}
@@ -0,0 +1,671 @@
+import {
+  Game,
+  Session,
+  Tournament,
+  TournamentEntry,
+  TournamentFormat,
+  TournamentInput,
+  TournamentMatch,
+  TournamentPool,
+  TournamentSlot,
+} from "@/types";
+
+/**
+ * Tournaments: seeded brackets played within a session
+ *
+ * A tournament is stored as its entries (players, or fixed pairs in doubles, seeded by group
+ * rating) and its matches, each side of a match saying where its player comes from - a seed,
+ * a bye, the winner or loser of an earlier match, or a finishing place in a pool. Nothing
+ * about results is stored: every match is played as one of the session's games with a fixed
+ * ID (getTournamentGameId), and who has advanced is worked out from those games. Recording a
+ * result is all it takes to move the bracket on.
+ *
+ * Brackets are sized to the next power of two, with byes going to the top seeds. A side that
+ * is a bye gives the other side a walkover, so byes work the same way in both brackets of a
+ * double elimination.
+ */
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ["single_elimination", "double_elimination", "pools_knockout"];
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: "Single elimination",
+  double_elimination: "Double elimination",
+  pools_knockout: "Pools into knockout",
+};
+
+// Fewest entries each format can be played with
+export const MIN_TOURNAMENT_ENTRIES: Record<TournamentFormat, number> = {
+  single_elimination: 2,
+  double_elimination: 3,
+  pools_knockout: 4,
+};
+
+export const MAX_TOURNAMENT_ENTRIES = 64;
+export const MAX_TOURNAMENT_POOLS = 8;
+
+// A side with no one in it - the other side gets a walkover
+export const BYE = "bye";
+
+// Entry ID, BYE, or null while the side isn't known yet
+export type TournamentSide = string | null;
+
+// - waiting: a side isn't known yet
+// - ready: both sides known, game not played yet
+// - played: the game has a result
+// - walkover: one side is a bye, so the other goes through without playing
+// - skipped: both sides are byes (or a reset final that isn't needed)
+export type TournamentMatchStatus = "waiting" | "ready" | "played" | "walkover" | "skipped";
+
+export interface TournamentMatchState {
+  match: TournamentMatch;
+  gameId: string;
+  game: Game | null;
+  entryA: TournamentSide;
+  entryB: TournamentSide;
+  status: TournamentMatchStatus;
+  winner: TournamentSide;
+  loser: TournamentSide;
+}
+
+export interface TournamentPoolStanding {
+  entryId: string;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+export interface TournamentPoolState {
+  name: string;
+  standings: TournamentPoolStanding[]; // Wins, then points difference, then points scored, then seed
+  complete: boolean; // Every pool game played - its places are final
+}
+
+export interface TournamentState {
+  matches: TournamentMatchState[]; // Same order as tournament.matches
+  pools: TournamentPoolState[];
+  champion: string | null; // Entry ID once the last match is decided
+}
+
+// Games the bracket needs created, re-teamed or removed to match the results so far
+export interface TournamentGameChanges {
+  create: { gameId: string; teamA: string[]; teamB: string[] }[];
+  update: { gameId: string; teamA: string[]; teamB: string[] }[];
+  remove: string[];
+}
+
+// What an edit to a game does, for getTournamentEditError
+export interface TournamentGameEdit {
+  deleting?: boolean;
+  teamsChanged?: boolean;
+  winnerChanged?: boolean;
+  scoresChanged?: boolean; // Only matters in pools, where points break ties
+}
+
+/**
+ * ID of the game a match is played as
+ */
+export function getTournamentGameId(sessionId: string, matchId: string): string {
+  return `${sessionId}-bracket-${matchId}`;
+}
+
+/**
+ * The match a game is played for, if it's one of the tournament's games
+ */
+export function getTournamentMatch(sessionId: string, tournament: Tournament, gameId: string): TournamentMatch | null {
+  return tournament.matches.find((match) => getTournamentGameId(sessionId, match.id) === gameId) ?? null;
+}
+
+/**
+ * Seeds in bracket order, so 1 and 2 can only meet in the final: 1, 8, 4, 5, 2, 7, 3, 6 for 8
+ */
+export function getBracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.reduce<number[]>((seeds, seed) => seeds.concat([seed, next - seed]), []);
+  }
+  return order;
+}
+
+/**
+ * Pair players for doubles: the strongest with the weakest, the second strongest with the
+ * second weakest, and so on - so the pairs come out close in strength
+ */
+export function pairPlayersByRating(playerIds: string[], ratings: Map<string, number>): string[][] {
+  const sorted = playerIds
+    .map((id, index) => ({ id, index, rating: ratings.get(id) ?? 0 }))
+    .sort((a, b) => b.rating - a.rating || a.index - b.index)
+    .map((player) => player.id);
+  const pairs: string[][] = [];
+  for (let i = 0; i < sorted.length / 2; i++) {
+    pairs.push([sorted[i], sorted[sorted.length - 1 - i]]);
+  }
+  return pairs;
+}
+
+/**
+ * Seed entries by the average rating of their players (best first; ties keep the given order)
+ * Players without a rating - guests, standalone sessions - count as defaultRating
+ */
+export function seedTournamentEntries(
+  entries: string[][],
+  ratings: Map<string, number>,
+  defaultRating: number
+): TournamentEntry[] {
+  return entries
+    .map((playerIds, index) => ({
+      playerIds,
+      index,
+      rating: Math.round(
+        playerIds.reduce((sum, id) => sum + (ratings.get(id) ?? defaultRating), 0) / playerIds.length
+      ),
+    }))
+    .sort((a, b) => b.rating - a.rating || a.index - b.index)
+    .map((entry, index) => ({
+      id: `E${index + 1}`,
+      seed: index + 1,
+      playerIds: entry.playerIds,
+      rating: entry.rating,
+    }));
+}
+
+/**
+ * Check a tournament request against the session
+ * Without entries, every player takes part - which in doubles needs an even number to pair up
+ */
+export function validateTournamentInput(
+  input: Partial<TournamentInput> | undefined,
+  session: Pick<Session, "players" | "gameMode">
+): string | null {
+  if (!input) {
+    return "Tournament details are required";
+  }
+  if (!TOURNAMENT_FORMATS.includes(input.format as TournamentFormat)) {
+    return "Format must be 'single_elimination', 'double_elimination' or 'pools_knockout'";
+  }
+
+  const format = input.format as TournamentFormat;
+  const teamSize = session.gameMode === "singles" ? 1 : 2;
+  let entryCount: number;
+
+  if (input.entries !== undefined) {
+    if (!Array.isArray(input.entries) || !input.entries.every((entry) => Array.isArray(entry))) {
+      return "Entries must be a list of player ID lists";
+    }
+    if (input.entries.some((entry) => entry.length !== teamSize)) {
+      return teamSize === 1 ? "Each singles entry is one player" : "Each doubles entry is a pair of players";
+    }
+    const sessionPlayerIds = new Set(session.players.map((p) => p.id));
+    const seen = new Set<string>();
+    for (const playerId of input.entries.flat()) {
+      if (!sessionPlayerIds.has(playerId)) {
+        return "Entries contain a player who is not in this session";
+      }
+      if (seen.has(playerId)) {
+        return "A player can only be in one entry";
+      }
+      seen.add(playerId);
+    }
+    entryCount = input.entries.length;
+  } else {
+    if (teamSize === 2 && session.players.length % 2 !== 0) {
+      return "Doubles needs an even number of players - choose the pairs";
+    }
+    entryCount = session.players.length / teamSize;
+  }
+
+  const noun = teamSize === 1 ? "players" : "pairs";
+  if (entryCount < MIN_TOURNAMENT_ENTRIES[format]) {
+    return `${TOURNAMENT_FORMAT_LABELS[format]} needs at least ${MIN_TOURNAMENT_ENTRIES[format]} ${noun}`;
+  }
+  if (entryCount > MAX_TOURNAMENT_ENTRIES) {
+    return `A tournament can have at most ${MAX_TOURNAMENT_ENTRIES} ${noun}`;
+  }
+
+  if (format === "pools_knockout") {
+    const { poolCount, advancePerPool } = input;
+    if (!Number.isInteger(poolCount) || poolCount! < 1 || poolCount! > MAX_TOURNAMENT_POOLS) {
+      return `Pool count must be a whole number between 1 and ${MAX_TOURNAMENT_POOLS}`;
+    }
+    const smallestPool = Math.floor(entryCount / poolCount!);
+    if (smallestPool < 2) {
+      return `${poolCount} pools need at least ${poolCount! * 2} ${noun}`;
+    }
+    if (!Number.isInteger(advancePerPool) || advancePerPool! < 1 || advancePerPool! > smallestPool) {
+      return `Between 1 and ${smallestPool} from each pool can go through`;
+    }
+    if (poolCount! * advancePerPool! < 2) {
+      return "At least 2 must go through to the knockout";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Single elimination bracket over the given sides, best seed first
+ * Byes fill the bracket up to a power of two and fall to the top seeds
+ */
+function buildKnockout(sides: TournamentSlot[]): TournamentMatch[] {
+  let size = 2;
+  while (size < sides.length) size *= 2;
+  const order = getBracketSeedOrder(size);
+  const slotFor = (seed: number): TournamentSlot => sides[seed - 1] ?? { type: "bye" };
+
+  const matches: TournamentMatch[] = [];
+  for (let i = 0; i < size / 2; i++) {
+    matches.push({ id: `W1-${i + 1}`, stage: "winners", round: 1, slotA: slotFor(order[i * 2]), slotB: slotFor(order[i * 2 + 1]) });
+  }
+  for (let round = 2, count = size / 4; count >= 1; round++, count /= 2) {
+    for (let i = 1; i <= count; i++) {
+      matches.push({
+        id: `W${round}-${i}`,
+        stage: "winners",
+        round,
+        slotA: { type: "winner", matchId: `W${round - 1}-${i * 2 - 1}` },
+        slotB: { type: "winner", matchId: `W${round - 1}-${i * 2}` },
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Losers bracket and grand final for a winners bracket of the given size (4 or more)
+ * Losers round 1 pairs up the first round's losers; after that, rounds alternate between
+ * taking in the losers of the next winners round (in reverse order, to put off rematches)
+ * and halving the field
+ */
+function buildLosersBracket(size: number): TournamentMatch[] {
+  const winnersRounds = Math.log2(size);
+  const matches: TournamentMatch[] = [];
+  const loserOf = (matchId: string): TournamentSlot => ({ type: "loser", matchId });
+  const winnerOf = (matchId: string): TournamentSlot => ({ type: "winner", matchId });
+
+  for (let i = 1; i <= size / 4; i++) {
+    matches.push({ id: `L1-${i}`, stage: "losers", round: 1, slotA: loserOf(`W1-${i * 2 - 1}`), slotB: loserOf(`W1-${i * 2}`) });
+  }
+
+  let round = 1;
+  for (let winnersRound = 2; winnersRound <= winnersRounds; winnersRound++) {
+    const count = size / Math.pow(2, winnersRound);
+    round++;
+    for (let i = 1; i <= count; i++) {
+      matches.push({
+        id: `L${round}-${i}`,
+        stage: "losers",
+        round,
+        slotA: winnerOf(`L${round - 1}-${i}`),
+        slotB: loserOf(`W${winnersRound}-${count - i + 1}`),
+      });
+    }
+    if (count > 1) {
+      round++;
+      for (let i = 1; i <= count / 2; i++) {
+        matches.push({
+          id: `L${round}-${i}`,
+          stage: "losers",
+          round,
+          slotA: winnerOf(`L${round - 1}-${i * 2 - 1}`),
+          slotB: winnerOf(`L${round - 1}-${i * 2}`),
+        });
+      }
+    }
+  }
+
+  matches.push({ id: "GF", stage: "final", round: 1, slotA: winnerOf(`W${winnersRounds}-1`), slotB: winnerOf(`L${round}-1`) });
+  matches.push({ id: "GF2", stage: "final", round: 2, slotA: winnerOf("GF"), slotB: loserOf("GF"), ifNeeded: true });
+  return matches;
+}
+
+/**
+ * Every pairing in a pool, spread into rounds so nobody plays twice in a round (circle method)
+ */
+function buildPoolRounds(entryIds: string[]): [string, string][][] {
+  const circle: (string | null)[] = entryIds.slice();
+  if (circle.length % 2 !== 0) circle.push(null);
+  const rounds: [string, string][][] = [];
+  for (let round = 0; round < circle.length - 1; round++) {
+    const pairs: [string, string][] = [];
+    for (let i = 0; i < circle.length / 2; i++) {
+      const a = circle[i];
+      const b = circle[circle.length - 1 - i];
+      if (a && b) pairs.push([a, b]);
+    }
+    rounds.push(pairs);
+    circle.splice(1, 0, circle.pop()!);
+  }
+  return rounds;
+}
+
+/**
+ * Swap same-place qualifiers between first round knockout matches so nobody opens against
+ * someone from their own pool, where the numbers allow it
+ */
+function separatePoolMates(matches: TournamentMatch[]): void {
+  const poolOf = (slot: TournamentSlot) => (slot.type === "pool" ? slot.pool : null);
+  const placeOf = (slot: TournamentSlot) => (slot.type === "pool" ? slot.place : null);
+  const clashes = (a: TournamentSlot, b: TournamentSlot) => poolOf(a) !== null && poolOf(a) === poolOf(b);
+  const firstRound = matches.filter((match) => match.round === 1);
+
+  firstRound.forEach((match) => {
+    if (!clashes(match.slotA, match.slotB)) return;
+    const swap = firstRound.find(
+      (other) =>
+        other !== match &&
+        placeOf(other.slotB) === placeOf(match.slotB) &&
+        !clashes(match.slotA, other.slotB) &&
+        !clashes(other.slotA, match.slotB)
+    );
+    if (swap) {
+      const slotB = match.slotB;
+      match.slotB = swap.slotB;
+      swap.slotB = slotB;
+    }
+  });
+}
+
+/**
+ * Build a tournament for seeded entries (best seed first)
+ * Pools are filled in a snake (A B B A ...) so each gets a fair share of the seeds. Their
+ * qualifiers are seeded into the knockout by place - pool winners first - and kept apart
+ * from their pool mates in the first round.
+ */
+export function buildTournament(
+  format: TournamentFormat,
+  entries: TournamentEntry[],
+  options: { poolCount?: number; advancePerPool?: number } = {},
+  createdAt: string = new Date().toISOString()
+): Tournament {
+  const seedSlots: TournamentSlot[] = entries.map((entry) => ({ type: "entry", entryId: entry.id }));
+
+  if (format === "single_elimination") {
+    return { format, entries, matches: buildKnockout(seedSlots), createdAt };
+  }
+
+  if (format === "double_elimination") {
+    const winners = buildKnockout(seedSlots);
+    return { format, entries, matches: winners.concat(buildLosersBracket(winners.length + 1)), createdAt };
+  }
+
+  const poolCount = options.poolCount ?? 1;
+  const advancePerPool = options.advancePerPool ?? 1;
+  const pools: TournamentPool[] = Array.from({ length: poolCount }, (_, index) => ({
+    name: String.fromCharCode(65 + index),
+    entryIds: [],
+  }));
+  entries.forEach((entry, index) => {
+    const row = Math.floor(index / poolCount);
+    const column = index % poolCount;
+    pools[row % 2 === 0 ? column : poolCount - 1 - column].entryIds.push(entry.id);
+  });
+
+  // Pool games go round by round across all pools, so every pool moves along together
+  const poolRounds = pools.map((pool) => buildPoolRounds(pool.entryIds));
+  const matches: TournamentMatch[] = [];
+  const poolMatchCounts = pools.map(() => 0);
+  const roundCount = Math.max(...poolRounds.map((rounds) => rounds.length));
+  for (let round = 0; round < roundCount; round++) {
+    pools.forEach((pool, poolIndex) => {
+      (poolRounds[poolIndex][round] || []).forEach(([a, b]) => {
+        poolMatchCounts[poolIndex]++;
+        matches.push({
+          id: `${pool.name}-${poolMatchCounts[poolIndex]}`,
+          stage: "pool",
+          round: round + 1,
+          pool: pool.name,
+          slotA: { type: "entry", entryId: a },
+          slotB: { type: "entry", entryId: b },
+        });
+      });
+    });
+  }
+
+  const qualifiers: TournamentSlot[] = [];
+  for (let place = 1; place <= advancePerPool; place++) {
+    pools.forEach((pool) => qualifiers.push({ type: "pool", pool: pool.name, place }));
+  }
+
+  const knockout = buildKnockout(qualifiers);
+  separatePoolMates(knockout);
+  return { format, entries, pools, advancePerPool, matches: matches.concat(knockout), createdAt };
+}
+
+function comparePoolStandings(seeds: Map<string, number>) {
+  return (a: TournamentPoolStanding, b: TournamentPoolStanding) =>
+    b.wins - a.wins ||
+    b.pointsFor - b.pointsAgainst - (a.pointsFor - a.pointsAgainst) ||
+    b.pointsFor - a.pointsFor ||
+    (seeds.get(a.entryId) ?? 0) - (seeds.get(b.entryId) ?? 0);
+}
+
+/**
+ * Work out every match from the session's games: who is in it, whether it has been played
+ * or is a walkover, and who won - plus pool standings and the champion
+ */
+export function resolveTournament(sessionId: string, tournament: Tournament, games: Game[]): TournamentState {
+  const gamesById = new Map(games.map((game) => [game.id, game]));
+  const seeds = new Map(tournament.entries.map((entry) => [entry.id, entry.seed]));
+  const resolved = new Map<string, TournamentMatchState>();
+  const pools = new Map<string, TournamentPoolState>();
+
+  const resolveMatch = (match: TournamentMatch): TournamentMatchState => {
+    const gameId = getTournamentGameId(sessionId, match.id);
+    const game = gamesById.get(gameId) ?? null;
+    const sideOf = (slot: TournamentSlot): TournamentSide => {
+      switch (slot.type) {
+        case "entry":
+          return slot.entryId;
+        case "bye":
+          return BYE;
+        case "pool": {
+          const pool = pools.get(slot.pool);
+          if (!pool || !pool.complete) return null;
+          return pool.standings[slot.place - 1]?.entryId ?? BYE;
+        }
+        default: {
+          const source = resolved.get(slot.matchId);
+          if (!source) return null;
+          return slot.type === "winner" ? source.winner : source.loser;
+        }
+      }
+    };
+
+    let entryA = sideOf(match.slotA);
+    let entryB = sideOf(match.slotB);
+    if (match.ifNeeded) {
+      // Reset final: only if the losers bracket champion (side B of the first final) won it
+      const final = match.slotA.type === "winner" ? resolved.get(match.slotA.matchId) : undefined;
+      if (!final || final.winner === null) {
+        entryA = entryB = null;
+      } else if (final.winner === final.entryA) {
+        entryA = entryB = BYE;
+      }
+    }
+
+    const state: TournamentMatchState = { match, gameId, game, entryA, entryB, status: "waiting", winner: null, loser: null };
+    if (entryA === null || entryB === null) {
+      return state;
+    }
+    if (entryA === BYE || entryB === BYE) {
+      const bothByes = entryA === BYE && entryB === BYE;
+      return {
+        ...state,
+        status: bothByes ? "skipped" : "walkover",
+        winner: entryA === BYE ? entryB : entryA,
+        loser: BYE,
+      };
+    }
+    if (game?.winningTeam) {
+      return {
+        ...state,
+        status: "played",
+        winner: game.winningTeam === "A" ? entryA : entryB,
+        loser: game.winningTeam === "A" ? entryB : entryA,
+      };
+    }
+    return { ...state, status: "ready" };
+  };
+
+  // Pool games first - the knockout's sides depend on the final standings
+  const poolMatches = tournament.matches.filter((match) => match.stage === "pool");
+  poolMatches.forEach((match) => resolved.set(match.id, resolveMatch(match)));
+  (tournament.pools || []).forEach((pool) => {
+    const standings = new Map<string, TournamentPoolStanding>(
+      pool.entryIds.map((entryId) => [entryId, { entryId, played: 0, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0 }])
+    );
+    const matches = poolMatches.filter((match) => match.pool === pool.name).map((match) => resolved.get(match.id)!);
+    matches
+      .filter((state) => state.status === "played")
+      .forEach((state) => {
+        const game = state.game!;
+        const sides: [string, number | undefined, number | undefined][] = [
+          [state.entryA!, game.teamAScore, game.teamBScore],
+          [state.entryB!, game.teamBScore, game.teamAScore],
+        ];
+        sides.forEach(([entryId, scored, conceded]) => {
+          const standing = standings.get(entryId);
+          if (!standing) return;
+          standing.played++;
+          if (state.winner === entryId) standing.wins++;
+          else standing.losses++;
+          standing.pointsFor += scored ?? 0;
+          standing.pointsAgainst += conceded ?? 0;
+        });
+      });
+    pools.set(pool.name, {
+      name: pool.name,
+      standings: Array.from(standings.values()).sort(comparePoolStandings(seeds)),
+      complete: matches.every((state) => state.status === "played"),
+    });
+  });
+
+  tournament.matches
+    .filter((match) => match.stage !== "pool")
+    .forEach((match) => resolved.set(match.id, resolveMatch(match)));
+
+  const matches = tournament.matches.map((match) => resolved.get(match.id)!);
+  const decider = matches.filter((state) => state.match.stage !== "pool" && state.status !== "skipped").pop();
+  const champion = decider && decider.winner !== null && decider.winner !== BYE ? decider.winner : null;
+
+  return { matches, pools: Array.from(pools.values()), champion };
+}
+
+function sameTeam(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+/**
+ * Games to create, re-team or remove so the session's games match the bracket
+ * A match gets its game once both sides are known. If an earlier result is changed or
+ * cleared, games not played yet follow it - their sides change, or they go until known again.
+ */
+export function planTournamentGames(sessionId: string, tournament: Tournament, games: Game[]): TournamentGameChanges {
+  const state = resolveTournament(sessionId, tournament, games);
+  const playersOf = new Map(tournament.entries.map((entry) => [entry.id, entry.playerIds]));
+  const changes: TournamentGameChanges = { create: [], update: [], remove: [] };
+
+  state.matches.forEach(({ gameId, game, entryA, entryB, status }) => {
+    if (status === "ready") {
+      const teamA = playersOf.get(entryA!)!;
+      const teamB = playersOf.get(entryB!)!;
+      if (!game) {
+        changes.create.push({ gameId, teamA, teamB });
+      } else if (!sameTeam(game.teamA, teamA) || !sameTeam(game.teamB, teamB)) {
+        changes.update.push({ gameId, teamA, teamB });
+      }
+    } else if (status !== "played" && game && game.winningTeam === null) {
+      changes.remove.push(gameId);
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Why an edit to a tournament game can't be made, or null if it can (or isn't a tournament game)
+ * The bracket picks who plays, so sides can't be swapped and games can't be deleted. A result
+ * can change until a later match it fed into has been played.
+ */
+export function getTournamentEditError(
+  sessionId: string,
+  tournament: Tournament,
+  games: Game[],
+  gameId: string,
+  edit: TournamentGameEdit
+): string | null {
+  const match = getTournamentMatch(sessionId, tournament, gameId);
+  if (!match) {
+    return null;
+  }
+  if (edit.deleting) {
+    return "Tournament games can't be deleted - clear the result instead";
+  }
+  if (edit.teamsChanged) {
+    return "The bracket decides who plays in a tournament game";
+  }
+  if (!edit.winnerChanged && !(edit.scoresChanged && match.stage === "pool")) {
+    return null;
+  }
+
+  // Everything this result feeds into, directly or through walkovers
+  const feeds = (later: TournamentMatch, earlier: Set<string>) =>
+    [later.slotA, later.slotB].some((slot) =>
+      slot.type === "winner" || slot.type === "loser"
+        ? earlier.has(slot.matchId)
+        : slot.type === "pool" && earlier.has(`pool:${slot.pool}`)
+    );
+  const affected = new Set([match.stage === "pool" ? `pool:${match.pool}` : match.id]);
+  tournament.matches.forEach((later) => {
+    if (feeds(later, affected)) affected.add(later.id);
+  });
+
+  const state = resolveTournament(sessionId, tournament, games);
+  const played = state.matches.find((m) => m.match.id !== match.id && affected.has(m.match.id) && m.status === "played");
+  if (played) {
+    return `${getTournamentRoundName(tournament, played.match)} (game ${played.game!.gameNumber}) has already been played with this result - clear that result first`;
+  }
+  return null;
+}
+
+/**
+ * Name of a match's round, e.g. "Quarterfinals", "Losers round 2", "Pool A"
+ */
+export function getTournamentRoundName(tournament: Tournament, match: TournamentMatch): string {
+  if (match.stage === "pool") {
+    return `Pool ${match.pool}`;
+  }
+  if (match.stage === "final") {
+    return match.ifNeeded ? "Grand final reset" : "Grand final";
+  }
+
+  const lastRound = Math.max(...tournament.matches.filter((m) => m.stage === match.stage).map((m) => m.round));
+  if (match.stage === "losers") {
+    return match.round === lastRound ? "Losers final" : `Losers round ${match.round}`;
+  }
+  if (tournament.format === "double_elimination") {
+    return match.round === lastRound ? "Winners final" : `Winners round ${match.round}`;
+  }
+  const fromEnd = lastRound - match.round;
+  return fromEnd === 0 ? "Final" : fromEnd === 1 ? "Semifinals" : fromEnd === 2 ? "Quarterfinals" : `Round ${match.round}`;
+}
+
+/**
+ * Where a side that isn't known yet will come from, e.g. "Winner of W2-1", "2nd in Pool B"
+ */
+export function describeTournamentSlot(slot: TournamentSlot): string {
+  switch (slot.type) {
+    case "entry":
+      return "";
+    case "bye":
+      return "Bye";
+    case "pool": {
+      const suffix = slot.place === 1 ? "st" : slot.place === 2 ? "nd" : slot.place === 3 ? "rd" : "th";
+      return `${slot.place}${suffix} in Pool ${slot.pool}`;
+    }
+    default:
+      return `${slot.type === "winner" ? "Winner" : "Loser"} of ${slot.matchId}`;
+  }
+}
@@ -1,5 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Runs instrumentation.ts at startup to check the database settings
+    instrumentationHook: true,
+  },
+};
 
 export default nextConfig;
 
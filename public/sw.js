@@ -0,0 +1,88 @@
+/**
+ * Service worker - keeps the app shell and opened sessions available offline
+ * Game changes made offline are queued by the page itself (lib/gameSync.ts); this only
+ * answers GET requests from cache when the network can't.
+ * Bump CACHE_VERSION when the caching rules change so old caches are dropped.
+ */
+
+const CACHE_VERSION = "v1";
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const SESSION_CACHE = `sessions-${CACHE_VERSION}`;
+
+// The current session and its games - what the session page loads
+const SESSION_API_PATTERN = /^\/api\/sessions\/[^/]+(\/games)?$/;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.add("/"))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, SESSION_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => !current.includes(name)).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Build output is content-hashed, so a cached copy is always right
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (url.pathname.startsWith("/api/")) {
+    if (SESSION_API_PATTERN.test(url.pathname)) {
+      event.respondWith(networkFirst(request, SESSION_CACHE));
+    }
+    return;
+  }
+
+  // Pages and the RSC payloads client-side navigation fetches
+  if (request.mode === "navigate" || request.headers.get("RSC") === "1") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, request.mode === "navigate" ? "/" : undefined));
+  }
+});
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Fresh from the network when possible, otherwise the last copy (or the fallback page)
+ */
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+-- Migration: Add per-game ELO history
+-- Version: 008
+-- Description: Records every rating change (game processed or reversed) so we can
+--              show each player's rating timeline instead of only the current value
+
+-- ============================================================================
+-- Table: elo_history
+-- One row per player per rating change
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS elo_history (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  group_id VARCHAR(255) NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  group_player_id VARCHAR(255) NOT NULL REFERENCES group_players(id) ON DELETE CASCADE,
+  -- Soft reference: history is kept even after the game itself is deleted
+  game_id VARCHAR(255),
+  old_rating INTEGER NOT NULL,
+  new_rating INTEGER NOT NULL,
+  rating_change INTEGER NOT NULL,
+  -- 'game' = result applied, 'reversal' = result undone (game deleted or changed)
+  reason VARCHAR(20) NOT NULL DEFAULT 'game',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for timeline lookups
+CREATE INDEX IF NOT EXISTS idx_elo_history_player ON elo_history(group_player_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_elo_history_group ON elo_history(group_id);
+CREATE INDEX IF NOT EXISTS idx_elo_history_game ON elo_history(game_id);
+
+-- ============================================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================================
+ALTER TABLE elo_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON elo_history;
+DROP POLICY IF EXISTS "Allow public insert access" ON elo_history;
+DROP POLICY IF EXISTS "Allow public update access" ON elo_history;
+DROP POLICY IF EXISTS "Allow public delete access" ON elo_history;
+
+CREATE POLICY "Allow public read access" ON elo_history FOR SELECT USING (true);
+CREATE POLICY "Allow public insert access" ON elo_history FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public update access" ON elo_history FOR UPDATE USING (true);
+CREATE POLICY "Allow public delete access" ON elo_history FOR DELETE USING (true);
@@ -0,0 +1,17 @@
+-- Migration: Add per-group rating settings
+-- Version: 009
+-- Description: Lets each group tune its ELO system (K-factor, starting rating, rating floor
+--              and an optional margin-of-victory multiplier). Defaults match the previous
+--              hard-coded values so existing groups are unaffected.
+
+-- Maximum rating swing per game
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS elo_k_factor INTEGER NOT NULL DEFAULT 64;
+
+-- Rating new players start at (and are reset to on recalculation)
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS elo_starting_rating INTEGER NOT NULL DEFAULT 1500;
+
+-- Ratings never drop below this value
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS elo_rating_floor INTEGER NOT NULL DEFAULT 100;
+
+-- When true, rating changes are scaled by the score margin (blowouts count for more)
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS elo_margin_of_victory BOOLEAN NOT NULL DEFAULT false;
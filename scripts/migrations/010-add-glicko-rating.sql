@@ -0,0 +1,17 @@
+-- Migration: Add Glicko-2 rating engine support
+-- Version: 010
+-- Description: Lets a group rate players with Glicko-2 instead of ELO. Glicko-2 tracks how
+--              certain each rating is (rating deviation) and grows that uncertainty while a
+--              player is inactive. The rating itself stays in group_players.elo_rating.
+
+-- Which engine the group uses: 'elo' (default) or 'glicko2'
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS rating_engine VARCHAR(20) NOT NULL DEFAULT 'elo';
+
+-- Rating deviation (RD): 350 = brand new / unknown, lower = more confident
+ALTER TABLE group_players ADD COLUMN IF NOT EXISTS rating_deviation REAL NOT NULL DEFAULT 350;
+
+-- Volatility: how erratic the player's results are
+ALTER TABLE group_players ADD COLUMN IF NOT EXISTS rating_volatility REAL NOT NULL DEFAULT 0.06;
+
+-- Time of the player's last rated game (RD grows from here while inactive)
+ALTER TABLE group_players ADD COLUMN IF NOT EXISTS last_played_at TIMESTAMP;
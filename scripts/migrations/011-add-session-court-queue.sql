@@ -0,0 +1,7 @@
+-- Migration: Add live court queue to sessions
+-- Version: 011
+-- Description: Stores the "who's up next" court queue for a session: which players are on
+--              each court, who is waiting (and since when) and the queue rule. Kept as JSON
+--              because it is only ever read and written as a whole by the session page.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS court_queue JSONB;
@@ -0,0 +1,8 @@
+-- Migration: Add itemised expenses to sessions
+-- Version: 012
+-- Description: Lets several players prepay different costs (court, shuttles, drinks...).
+--              Each expense records who paid it, the amount and which players share it.
+--              Sessions without expenses keep using court_cost_value + bird_cost_total,
+--              paid by the organizer and shared by everyone.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS expenses JSONB;
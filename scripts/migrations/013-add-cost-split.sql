@@ -0,0 +1,10 @@
+-- Migration: Add prorated cost splitting
+-- Version: 013
+-- Description: Lets a session split its costs by attendance or games played instead of
+--              evenly, for players who arrive late or leave early.
+
+-- How costs are divided: 'even' (default), 'attendance' or 'games'
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS cost_split_mode VARCHAR(20) NOT NULL DEFAULT 'even';
+
+-- Share of the session each player attended: 1 = whole session, 0.5 = half
+ALTER TABLE players ADD COLUMN IF NOT EXISTS attendance_weight REAL NOT NULL DEFAULT 1;
@@ -0,0 +1,39 @@
+-- Migration: Add group debt ledger payments
+-- Version: 014
+-- Description: Records which session settlement transfers have been paid, so a group can
+--              track what is still owed across sessions and settle up in one go.
+
+-- ============================================================================
+-- Table: ledger_payments
+-- One row per paid obligation (session + payer + payee)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS ledger_payments (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  group_id VARCHAR(255) NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  session_id VARCHAR(255) NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  -- Session player IDs of the obligation being paid
+  from_player_id VARCHAR(255) NOT NULL,
+  to_player_id VARCHAR(255) NOT NULL,
+  -- Obligation amount when it was marked paid (a later edit to the session can leave a remainder)
+  amount DECIMAL(10, 2) NOT NULL,
+  paid_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (session_id, from_player_id, to_player_id)
+);
+
+-- Indexes for ledger lookups
+CREATE INDEX IF NOT EXISTS idx_ledger_payments_group ON ledger_payments(group_id);
+
+-- ============================================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================================
+ALTER TABLE ledger_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON ledger_payments;
+DROP POLICY IF EXISTS "Allow public insert access" ON ledger_payments;
+DROP POLICY IF EXISTS "Allow public update access" ON ledger_payments;
+DROP POLICY IF EXISTS "Allow public delete access" ON ledger_payments;
+
+CREATE POLICY "Allow public read access" ON ledger_payments FOR SELECT USING (true);
+CREATE POLICY "Allow public insert access" ON ledger_payments FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public update access" ON ledger_payments FOR UPDATE USING (true);
+CREATE POLICY "Allow public delete access" ON ledger_payments FOR DELETE USING (true);
@@ -0,0 +1,12 @@
+-- Migration: Add currency settings
+-- Version: 015
+-- Description: Lets groups and standalone sessions use a currency other than USD. Group
+--              sessions copy the group's currency when they are created.
+
+-- Group default currency (ISO 4217) and the locale amounts are formatted in
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS currency_locale VARCHAR(35) NOT NULL DEFAULT 'en-US';
+
+-- Currency every amount in the session is in
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS currency_locale VARCHAR(35) NOT NULL DEFAULT 'en-US';
@@ -0,0 +1,20 @@
+-- Migration: Add unique game numbers per session
+-- Version: 016
+-- Description: Two phones recording for the same session at the same moment could both take
+--              the next game number. Renumbers sessions that already have duplicates, then
+--              makes (session_id, game_number) unique so the second insert is retried.
+
+-- Renumber only the sessions with duplicates, keeping their order (number, then recording time)
+UPDATE games
+SET game_number = renumbered.new_number
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY session_id ORDER BY game_number, created_at, id) AS new_number
+  FROM games
+  WHERE session_id IN (
+    SELECT session_id FROM games GROUP BY session_id, game_number HAVING COUNT(*) > 1
+  )
+) AS renumbered
+WHERE games.id = renumbered.id
+  AND games.game_number <> renumbered.new_number;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_games_session_game_number ON games(session_id, game_number);
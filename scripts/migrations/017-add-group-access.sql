@@ -0,0 +1,25 @@
+-- Migration: Add group admin PIN and spectator links
+-- Version: 017
+-- Description: Anyone with a group's shareable link could delete the group, remove players and
+--              edit or delete games. Adds an admin PIN (stored hashed) that the API asks for
+--              before those actions, and a separate read-only link for spectators.
+
+-- scrypt hash of the group's admin PIN - NULL until someone sets one (existing groups)
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS admin_pin_hash TEXT;
+
+-- Read-only link code, separate from shareable_link so spectators never see the group itself
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS spectator_link VARCHAR(20);
+
+UPDATE groups
+SET spectator_link = SUBSTRING(MD5(RANDOM()::TEXT || id) FROM 1 FOR 10)
+WHERE spectator_link IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_groups_spectator_link ON groups(spectator_link);
+
+-- The PIN is only checked by the API routes. Supabase projects whose browser (anon) key can
+-- reach the tables directly should serve the API with SUPABASE_SERVICE_ROLE_KEY and then drop
+-- the public write policies, e.g.:
+--   DROP POLICY IF EXISTS "Allow public delete access" ON groups;
+--   DROP POLICY IF EXISTS "Allow public delete access" ON group_players;
+--   DROP POLICY IF EXISTS "Allow public update access" ON games;
+--   DROP POLICY IF EXISTS "Allow public delete access" ON games;
@@ -0,0 +1,43 @@
+-- Migration: Add optional user accounts
+-- Version: 018
+-- Description: Lets people sign in (email magic link) and claim the group player that is
+--              them in each of their groups, so their stats can be shown across groups.
+--              Accounts are optional - groups, sessions and games work the same without them.
+
+CREATE TABLE IF NOT EXISTS users (
+  id VARCHAR(255) PRIMARY KEY,
+  email VARCHAR(255) UNIQUE NOT NULL, -- Stored lowercased
+  display_name VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_sign_in_at TIMESTAMP
+);
+
+-- Signed-in browsers. Only a SHA-256 hash of the cookie's token is stored
+CREATE TABLE IF NOT EXISTS user_sessions (
+  token_hash VARCHAR(64) PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+
+-- One-time sign-in links issued by the local (development) auth provider
+CREATE TABLE IF NOT EXISTS login_tokens (
+  token_hash VARCHAR(64) PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP
+);
+
+-- The account that claimed this group player (one player per account per group)
+ALTER TABLE group_players ADD COLUMN IF NOT EXISTS user_id VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_players_group_user ON group_players(group_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_group_players_user_id ON group_players(user_id);
+
+-- No public policies: only the API (service role key) reads accounts and sign-in tokens
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE login_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,30 @@
+-- Migration: Add audit log
+-- Version: 019
+-- Description: Games, sessions, group players and group settings could be changed or deleted
+--              without a trace. Records every change with before/after snapshots and who made
+--              it, so a group can see its history and revert a specific change.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id VARCHAR(255) PRIMARY KEY,
+  group_id VARCHAR(255) REFERENCES groups(id) ON DELETE CASCADE, -- NULL for standalone sessions
+  session_id VARCHAR(255), -- No foreign key: entries outlive the session they describe
+  entity_type VARCHAR(20) NOT NULL, -- 'game', 'session', 'group_player', 'group_settings', 'admin_pin'
+  entity_id VARCHAR(255) NOT NULL,
+  action VARCHAR(10) NOT NULL, -- 'create', 'update' or 'delete'
+  summary TEXT NOT NULL,
+  before_data JSONB, -- Row before the change (NULL for creates)
+  after_data JSONB, -- Row after the change (NULL for deletes)
+  actor_user_id VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  actor_device_id VARCHAR(64),
+  actor_device_label VARCHAR(100),
+  reverts_audit_id VARCHAR(255), -- Set on the entry a revert writes
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_group_created ON audit_log(group_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_session_id ON audit_log(session_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_reverts ON audit_log(reverts_audit_id);
+
+-- Append-only: reverting writes a new entry rather than changing the old one.
+-- No public policies - only the API (service role key) reads or writes the log
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
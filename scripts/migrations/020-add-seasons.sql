@@ -0,0 +1,26 @@
+-- Migration: Add seasons
+-- Version: 020
+-- Description: Leaderboards only covered all time. Groups can now define named seasons with
+--              start and end dates; each season either resets ratings or carries them over,
+--              and keeps a snapshot of its final standings once archived.
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id VARCHAR(255) PRIMARY KEY,
+  group_id VARCHAR(255) NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE, -- Inclusive; NULL while the season has no planned end
+  rating_mode VARCHAR(20) NOT NULL DEFAULT 'carry_over', -- 'reset' or 'carry_over'
+  final_standings JSONB, -- Leaderboard snapshot written when the season is archived
+  archived_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT seasons_dates_check CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT seasons_rating_mode_check CHECK (rating_mode IN ('reset', 'carry_over'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_seasons_group_start ON seasons(group_id, start_date);
+
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON seasons;
+CREATE POLICY "Allow public read access" ON seasons FOR SELECT USING (true);
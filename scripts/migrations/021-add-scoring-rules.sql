@@ -0,0 +1,12 @@
+-- Migration: Add scoring rules
+-- Version: 021
+-- Description: Scores were only clamped to 0-30, so impossible results like 21-20 were
+--              accepted. Sessions now record the rally-point rule their games are played
+--              to, and new scores are checked against it.
+
+-- 'rally_21' (21 points, cap 30), 'rally_15' (15, cap 21) or 'rally_11' (11, cap 15)
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS scoring_rule VARCHAR(20) NOT NULL DEFAULT 'rally_21';
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_scoring_rule_check;
+ALTER TABLE sessions ADD CONSTRAINT sessions_scoring_rule_check
+  CHECK (scoring_rule IN ('rally_21', 'rally_15', 'rally_11'));
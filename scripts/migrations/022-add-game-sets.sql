@@ -0,0 +1,8 @@
+-- Migration: Add best-of-three set scores to games
+-- Version: 022
+-- Description: Best-of-three nights were logged as one game per set, so each match moved
+--              ratings up to three times. A match is now one game with its set scores;
+--              team_a_score/team_b_score hold the points won across the match.
+
+-- [{ "teamAScore": 21, "teamBScore": 15 }, ...] in the order played, or NULL for a single game
+ALTER TABLE games ADD COLUMN IF NOT EXISTS sets JSONB;
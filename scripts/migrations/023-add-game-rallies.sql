@@ -0,0 +1,8 @@
+-- Migration: Add rally logs to games
+-- Version: 023
+-- Description: Games scored live on the courtside scoreboard keep who won each rally, so
+--              stats like the longest run and comeback wins can be worked out later. The
+--              scores are still stored as usual and always match the log.
+
+-- [["A", "B", "A", ...], ...] - one list per set, or NULL for games not scored live
+ALTER TABLE games ADD COLUMN IF NOT EXISTS rallies JSONB;
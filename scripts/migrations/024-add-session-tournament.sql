@@ -0,0 +1,8 @@
+-- Migration: Add tournaments to sessions
+-- Version: 024
+-- Description: A session can run a seeded tournament - single or double elimination, or
+--              pools into a knockout. The entries (players or fixed pairs, with their seeds)
+--              and the bracket's matches are kept as JSON; results live in the session's
+--              games, so the bracket is always worked out from them.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS tournament JSONB;
@@ -0,0 +1,11 @@
+-- Migration: Keep wrong admin PIN attempts on the group
+-- Version: 025
+-- Description: The lockout after too many wrong admin PINs was counted in server memory, so on
+--              serverless hosting each instance kept its own count and the limit did little.
+--              The count and the start of its window now live on the group row.
+
+-- Wrong PINs since admin_pin_failed_since (reset by a correct PIN or once the window passes)
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS admin_pin_failed_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- When the first of those wrong PINs was tried - NULL when there are none
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS admin_pin_failed_since TIMESTAMPTZ;
@@ -0,0 +1,8 @@
+-- Migration: Add the 11x5 scoring rule
+-- Version: 026
+-- Description: Matches were always best of three. Sessions can now play 11x5 - games to 11
+--              (capped at 15) with matches best of five - so the scoring_rule check allows it.
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_scoring_rule_check;
+ALTER TABLE sessions ADD CONSTRAINT sessions_scoring_rule_check
+  CHECK (scoring_rule IN ('rally_21', 'rally_15', 'rally_11', 'rally_11x5'));
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Game, Session } from '@/types';
+import { calculateFinalSettlement, calculateSettlementTransfers } from '@/lib/calculations';
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 's1',
+    date: new Date('2025-01-02T19:00:00.000Z'),
+    players: ['ann', 'ben', 'cat'].map((id) => ({ id, name: id })),
+    organizerId: 'ann',
+    courtCostType: 'total',
+    courtCostValue: 0,
+    birdCostTotal: 0,
+    betPerPlayer: 0,
+    gameMode: 'singles',
+    bettingEnabled: false,
+    ...overrides,
+  };
+}
+
+const sharesOf = (session: Session, games: Game[] = []) =>
+  calculateFinalSettlement(session, games).map((s) => s.expenseShare);
+const balanceTotal = (session: Session, games: Game[] = []) =>
+  calculateFinalSettlement(session, games).reduce((sum, s) => sum + Math.round(s.netBalance * 100), 0);
+
+test('leftover cents go to the largest remainders', () => {
+  const session = makeSession({ courtCostValue: 10 });
+  assert.deepEqual(sharesOf(session), [3.34, 3.33, 3.33]);
+  assert.equal(balanceTotal(session), 0);
+
+  // 11 cents split 1 : 1 : 0.5 is 4.4, 4.4 and 2.2 - the spare cent goes to the first of the tied largest fractions
+  const weighted = makeSession({
+    costSplitMode: 'attendance',
+    courtCostValue: 0.11,
+    players: [{ id: 'ann', name: 'ann' }, { id: 'ben', name: 'ben' }, { id: 'cat', name: 'cat', attendanceWeight: 0.5 }],
+  });
+  assert.deepEqual(sharesOf(weighted), [0.05, 0.04, 0.02]);
+  assert.equal(balanceTotal(weighted), 0);
+});
+
+test('currencies without minor units split in whole amounts', () => {
+  const session = makeSession({ courtCostValue: 100, currencySettings: { currency: 'TWD', locale: 'zh-TW' } });
+  assert.deepEqual(sharesOf(session), [34, 33, 33]);
+  assert.equal(balanceTotal(session), 0);
+});
+
+test('a zero-weight player shares none of the costs', () => {
+  const session = makeSession({
+    costSplitMode: 'attendance',
+    courtCostValue: 9,
+    players: [{ id: 'ann', name: 'ann' }, { id: 'ben', name: 'ben' }, { id: 'cat', name: 'cat', attendanceWeight: 0 }],
+  });
+  const settlement = calculateFinalSettlement(session, []);
+  assert.deepEqual(settlement.map((s) => s.expenseShare), [4.5, 4.5, 0]);
+  assert.equal(settlement[2].costWeight, 0);
+  assert.equal(settlement[2].netBalance, 0);
+});
+
+test('splitting by games played falls back to even before anyone has played', () => {
+  const session = makeSession({ costSplitMode: 'games', courtCostValue: 9 });
+  assert.deepEqual(sharesOf(session), [3, 3, 3]);
+
+  const games: Game[] = [
+    { id: 'g1', sessionId: 's1', gameNumber: 1, teamA: ['ann'], teamB: ['ben'], winningTeam: 'A' },
+    { id: 'g2', sessionId: 's1', gameNumber: 2, teamA: ['ann'], teamB: ['ben'], winningTeam: 'B' },
+  ];
+  assert.deepEqual(sharesOf(session, games), [4.5, 4.5, 0]);
+});
+
+test('players whose balances cancel out settle among themselves', () => {
+  const balances = [4, 3, -3, -2, -2].map((netBalance, i) => ({ playerId: `p${i}`, playerName: `p${i}`, netBalance }));
+
+  // Largest debtor to largest creditor alone would take four transfers
+  const transfers = calculateSettlementTransfers(balances);
+  assert.equal(transfers.length, 3);
+  assert.deepEqual(
+    transfers.find((t) => t.toPlayerId === 'p1'),
+    { fromPlayerId: 'p2', fromPlayerName: 'p2', toPlayerId: 'p1', toPlayerName: 'p1', amount: 3 }
+  );
+  const received = new Map<string, number>();
+  transfers.forEach((t) => {
+    received.set(t.toPlayerId, (received.get(t.toPlayerId) || 0) + t.amount);
+    received.set(t.fromPlayerId, (received.get(t.fromPlayerId) || 0) - t.amount);
+  });
+  balances.forEach((b) => assert.equal(received.get(b.playerId), b.netBalance));
+});
@@ -0,0 +1,96 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkDatabaseConfig, createDatabase, createMemoryDatabase, getDatabase, runInTransaction, runWithDatabase } from '@/lib/db';
+
+const seed = {
+  groups: [{ id: 'g1', name: 'Thursday', shareable_link: 'abc' }],
+  sessions: [{ id: 's1', group_id: 'g1', date: '2025-01-02T19:00:00.000Z', game_mode: 'doubles' }],
+  games: [
+    { id: 'gm2', session_id: 's1', game_number: 2, team_a: ['a', 'b'], team_b: ['c', 'd'] },
+    { id: 'gm1', session_id: 's1', game_number: 1, team_a: ['a', 'c'], team_b: ['b', 'd'] },
+  ],
+};
+
+test('queries filter, order and return single rows', async () => {
+  const db = createMemoryDatabase(seed);
+
+  const { data: games } = await db.from('games').select('id, game_number').eq('session_id', 's1').order('game_number');
+  assert.deepEqual(games, [{ id: 'gm1', game_number: 1 }, { id: 'gm2', game_number: 2 }]);
+
+  const { data: missing, error } = await db.from('games').select('*').eq('id', 'nope').maybeSingle();
+  assert.equal(missing, null);
+  assert.equal(error, null);
+});
+
+test('a failed transaction keeps none of its writes', async () => {
+  const db = createMemoryDatabase(seed);
+
+  await runWithDatabase(db, async () => {
+    await assert.rejects(
+      runInTransaction(async () => {
+        await getDatabase().from('games').update({ winning_team: 'A' }).eq('id', 'gm1');
+        await getDatabase().from('games').delete().eq('id', 'gm2');
+        throw new Error('stat update failed');
+      }),
+      /stat update failed/
+    );
+  });
+
+  const { data: games } = await db.from('games').select('id, winning_team').order('game_number');
+  assert.deepEqual(games, [{ id: 'gm1', winning_team: null }, { id: 'gm2', winning_team: null }]);
+});
+
+test('nested transactions join the running one', async () => {
+  const db = createMemoryDatabase(seed);
+
+  await runWithDatabase(db, () =>
+    runInTransaction(async () => {
+      await runInTransaction(async () => {
+        await getDatabase().from('games').update({ winning_team: 'B' }).eq('id', 'gm1');
+      });
+      const { data } = await getDatabase().from('games').select('winning_team').eq('id', 'gm1').single();
+      assert.equal(data.winning_team, 'B');
+    })
+  );
+});
+
+test('deleting a group cascades to its sessions and games', async () => {
+  const db = createMemoryDatabase(seed);
+
+  await db.from('groups').delete().eq('id', 'g1');
+
+  const { data: sessions } = await db.from('sessions').select('id');
+  const { data: games } = await db.from('games').select('id');
+  assert.deepEqual(sessions, []);
+  assert.deepEqual(games, []);
+});
+
+// Clears the direct connection settings (and DATABASE_BACKEND) for the rest of the test
+function withoutDirectConnection(t: TestContext): void {
+  const names = ['POSTGRES_URL_NON_POOLING', 'VERCEL_POSTGRES_URL_NON_POOLING', 'POSTGRES_URL', 'VERCEL_POSTGRES_URL', 'DATABASE_URL', 'DATABASE_BACKEND'];
+  const saved = names.map((name) => process.env[name]);
+  names.forEach((name) => delete process.env[name]);
+  t.after(() => names.forEach((name, i) => {
+    if (saved[i] !== undefined) process.env[name] = saved[i];
+  }));
+}
+
+test('the supabase backend refuses to start without a direct connection', (t) => {
+  withoutDirectConnection(t);
+  assert.throws(() => checkDatabaseConfig(), /POSTGRES_URL is not set/);
+
+  process.env.DATABASE_BACKEND = 'memory';
+  assert.doesNotThrow(() => checkDatabaseConfig());
+});
+
+test('supabase transactions fail without a direct connection', async (t) => {
+  withoutDirectConnection(t);
+  t.mock.method(console, 'error', () => {});
+
+  let ran = false;
+  await assert.rejects(
+    runWithDatabase(createDatabase('supabase'), () => runInTransaction(async () => { ran = true; })),
+    /POSTGRES_URL is not set/
+  );
+  assert.equal(ran, false);
+});
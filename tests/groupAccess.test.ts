@@ -0,0 +1,97 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { createMemoryDatabase, setDatabase } from '@/lib/db';
+import { ADMIN_PIN_HEADER } from '@/lib/adminPins';
+import * as groupsRoute from '@/app/api/groups/route';
+import * as sessionsRoute from '@/app/api/sessions/route';
+import * as sessionRoute from '@/app/api/sessions/[id]/route';
+import * as settingsRoute from '@/app/api/groups/[id]/settings/route';
+
+const PIN = '1234';
+
+function request(method: string, body?: unknown, pin?: string): NextRequest {
+  return new NextRequest('http://localhost/api', {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+    headers: pin ? { [ADMIN_PIN_HEADER]: pin } : {},
+  });
+}
+
+const sessionParams = { params: Promise.resolve({ id: 's1' }) };
+
+async function createGroupSession(): Promise<string> {
+  const response = await groupsRoute.POST(request('POST', { name: 'Thursday', adminPin: PIN }));
+  const { group } = await response.json();
+  await sessionsRoute.POST(
+    request('POST', {
+      session: {
+        id: 's1',
+        date: '2025-01-02T19:00:00.000Z',
+        players: ['p1', 'p2', 'p3', 'p4'].map((id) => ({ id, name: id })),
+        organizerId: 'p1',
+        courtCostType: 'total',
+        courtCostValue: 0,
+        birdCostTotal: 0,
+        betPerPlayer: 0,
+        gameMode: 'doubles',
+        groupId: group.id,
+      },
+      groupId: group.id,
+    })
+  );
+  return group.id;
+}
+
+beforeEach(() => {
+  setDatabase(createMemoryDatabase());
+});
+
+test('deleting a group session needs the admin PIN', async () => {
+  await createGroupSession();
+
+  assert.equal((await sessionRoute.DELETE(request('DELETE'), sessionParams)).status, 401);
+  assert.equal((await sessionRoute.DELETE(request('DELETE', undefined, '9999'), sessionParams)).status, 403);
+  assert.equal((await sessionRoute.GET(request('GET'), sessionParams)).status, 200);
+
+  assert.equal((await sessionRoute.DELETE(request('DELETE', undefined, PIN), sessionParams)).status, 200);
+  assert.equal((await sessionRoute.GET(request('GET'), sessionParams)).status, 404);
+});
+
+test('updating a group session needs the admin PIN', async () => {
+  await createGroupSession();
+  const session = await (await sessionRoute.GET(request('GET'), sessionParams)).json();
+
+  const renamed = { session: { ...session, name: 'Renamed' } };
+  assert.equal((await sessionRoute.PUT(request('PUT', renamed), sessionParams)).status, 401);
+  assert.equal((await sessionRoute.PUT(request('PUT', renamed, PIN), sessionParams)).status, 200);
+});
+
+test('changing rating settings needs the admin PIN', async () => {
+  const groupId = await createGroupSession();
+  const params = { params: Promise.resolve({ id: groupId }) };
+  const body = { ratingSettings: { engine: 'elo', kFactor: 32, startingRating: 1500, ratingFloor: 100, marginOfVictory: false } };
+
+  assert.equal((await settingsRoute.PUT(request('PUT', body), params)).status, 401);
+  assert.equal((await settingsRoute.PUT(request('PUT', body, PIN), params)).status, 200);
+});
+
+test('too many wrong PINs lock the group, even for the right PIN', async () => {
+  await createGroupSession();
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    assert.equal((await sessionRoute.DELETE(request('DELETE', undefined, '9999'), sessionParams)).status, 403);
+  }
+  assert.equal((await sessionRoute.DELETE(request('DELETE', undefined, PIN), sessionParams)).status, 429);
+});
+
+test('wrong PINs sent at the same time are each counted', async () => {
+  await createGroupSession();
+
+  const responses = await Promise.all(
+    Array.from({ length: 10 }, () => sessionRoute.DELETE(request('DELETE', undefined, '9999'), sessionParams))
+  );
+  const statuses = responses.map((response) => response.status).sort();
+  assert.deepEqual(statuses, [403, 403, 403, 403, 403, 429, 429, 429, 429, 429]);
+  assert.equal((await sessionRoute.DELETE(request('DELETE', undefined, PIN), sessionParams)).status, 429);
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryDatabase, getDatabase, setDatabase } from '@/lib/db';
+import { parseCsvImport, parseJsonImport } from '@/lib/groupImport';
+import { ImportService } from '@/lib/services/importService';
+
+test('spreadsheet rows are read into sessions by date', () => {
+  const csv = [
+    'Played On,Team 1,Team 2,Score,Winner',
+    '3/5/2024,Ann and Bob,Cat / Dan,21-15,',
+    '2024-03-05,ann & bob,cat & dan,,B',
+    '2024-03-06,Ann,Cat,"21-15, 18-21, 21-17",',
+    '2024-03-07,Ann,Bob & Cat,21-3,',
+    'yesterday,Ann,Bob,21-3,',
+    '2024-03-08,Ann,Bob,21-21,',
+  ].join('\n');
+  const { sessions, errors } = parseCsvImport(csv);
+
+  assert.deepEqual(
+    sessions.map((s) => [s.date, s.gameMode, s.players.map((p) => p.name).join(', ')]),
+    [
+      ['2024-03-05T12:00:00.000Z', 'doubles', 'Ann, Bob, Cat, Dan'],
+      ['2024-03-06T12:00:00.000Z', 'singles', 'Ann, Cat'],
+    ]
+  );
+  assert.deepEqual(
+    sessions.flatMap((s) => s.games).map((g) => [g.teamA.join('+'), g.teamB.join('+'), g.winningTeam, g.teamAScore, g.teamBScore, g.sets?.length ?? 0]),
+    [
+      ['ann+bob', 'cat+dan', 'A', 21, 15, 0],
+      ['ann+bob', 'cat+dan', 'B', null, null, 0],
+      // A match goes to whoever won more sets - its scores are the point totals
+      ['ann', 'cat', 'A', 60, 53, 3],
+    ]
+  );
+  assert.deepEqual(
+    errors.map((e) => e.row),
+    [5, 6, 7]
+  );
+  assert.match(errors[0].message, /both be one player/);
+  assert.match(errors[1].message, /isn't a date/);
+  assert.match(errors[2].message, /Can't tell who won/);
+});
+
+test('a spreadsheet without team columns is refused', () => {
+  const { sessions, errors } = parseCsvImport('date,players,score\n2024-03-05,Ann v Bob,21-15');
+  assert.equal(sessions.length, 0);
+  assert.match(errors[0].message, /header with date, team A and team B/);
+});
+
+// A one-session export with the given games (ann and ben play singles)
+function exportWith(games: Array<{ gameNumber: number; winningTeam: 'A' | 'B'; createdAt: string | null }>): string {
+  return JSON.stringify({
+    format: 'poweredbypace-group-export',
+    version: 1,
+    players: [],
+    sessions: [{ id: 's1', name: null, date: '2024-03-05T19:00:00.000Z', organizerId: 'p-ann', gameMode: 'singles' }],
+    sessionPlayers: ['ann', 'ben'].map((name) => ({ id: `p-${name}`, sessionId: 's1', name, groupPlayerId: null })),
+    games: games.map((game) => ({ ...game, id: `g${game.gameNumber}`, sessionId: 's1', teamA: ['p-ann'], teamB: ['p-ben'] })),
+  });
+}
+
+test('exported games keep when they were played', () => {
+  const { sessions, errors } = parseJsonImport(
+    exportWith([
+      { gameNumber: 1, winningTeam: 'A', createdAt: '2024-03-05T19:40:00.000Z' },
+      { gameNumber: 2, winningTeam: 'B', createdAt: null },
+      { gameNumber: 3, winningTeam: 'B', createdAt: null },
+    ])
+  );
+
+  assert.deepEqual(errors, []);
+  // Games without a time are a minute apart from the session's start, in file order
+  assert.deepEqual(
+    sessions[0].games.map((g) => g.playedAt),
+    ['2024-03-05T19:40:00.000Z', '2024-03-05T19:01:00.000Z', '2024-03-05T19:02:00.000Z']
+  );
+
+  assert.match(parseJsonImport('{"format":"something-else"}').errors[0].message, /isn't a group export/);
+  assert.match(parseJsonImport('not json').errors[0].message, /isn't valid JSON/);
+});
+
+test('imported games are replayed in the order they were played', async () => {
+  setDatabase(createMemoryDatabase({ groups: [{ id: 'g1', name: 'Thursday', shareable_link: 'abc' }] }));
+  // Two sessions on one day: ann wins twice in the first, then loses in the second
+  const csv = [
+    'date,session,team a,team b,score',
+    '2024-03-05,Morning,Ann,Ben,21-15',
+    '2024-03-05,Morning,Ann,Ben,21-17',
+    '2024-03-05,Evening,Ann,Ben,12-21',
+  ].join('\n');
+
+  const result = await ImportService.importGroupData('g1', 'csv', csv);
+  assert.equal(result.gamesCreated, 3);
+
+  const db = getDatabase();
+  const { data: games } = await db.from('games').select('team_a_score, created_at').order('created_at', { ascending: true });
+  assert.deepEqual(
+    (games || []).map((g: { team_a_score: number }) => g.team_a_score),
+    [21, 21, 12]
+  );
+  const { data: ann } = await db.from('group_players').select('wins, losses, current_streak').eq('name', 'Ann').single();
+  assert.deepEqual(ann, { wins: 2, losses: 1, current_streak: -1 });
+});
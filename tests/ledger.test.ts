@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CurrencySettings, Session } from '@/types';
+import { buildGroupLedger, LedgerPayment } from '@/lib/ledger';
+
+const TWD: CurrencySettings = { currency: 'TWD', locale: 'zh-TW' };
+
+// Session where the organizer paid for the court (ann and ben, unless players are given)
+function makeSession(id: string, organizerId: string, courtCostValue: number, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    date: new Date('2025-01-02T19:00:00.000Z'),
+    players: ['ann', 'ben'].map((name) => ({ id: `${id}-${name}`, name, groupPlayerId: `gp-${name}` })),
+    organizerId: `${id}-${organizerId}`,
+    courtCostType: 'total',
+    courtCostValue,
+    birdCostTotal: 0,
+    betPerPlayer: 0,
+    gameMode: 'singles',
+    bettingEnabled: false,
+    ...overrides,
+  };
+}
+
+test('sessions in different currencies are settled separately', () => {
+  const sessions = [makeSession('s2', 'ben', 300, { currencySettings: TWD }), makeSession('s1', 'ann', 10)];
+  const ledger = buildGroupLedger(sessions, new Map(), [], 'USD');
+
+  assert.deepEqual(
+    ledger.obligations.map((o) => [o.sessionId, o.fromPlayerName, o.toPlayerName, o.amount, o.currency]),
+    [
+      ['s2', 'ann', 'ben', 150, 'TWD'],
+      ['s1', 'ben', 'ann', 5, 'USD'],
+    ]
+  );
+  // The group's currency first - 150 TWD and 5 USD don't cancel out
+  assert.deepEqual(
+    ledger.balances.map((b) => [b.playerName, b.balance, b.currency]),
+    [
+      ['ann', 5, 'USD'],
+      ['ben', -5, 'USD'],
+      ['ben', 150, 'TWD'],
+      ['ann', -150, 'TWD'],
+    ]
+  );
+  assert.deepEqual(
+    ledger.netTransfers.map((t) => [t.fromPlayerName, t.toPlayerName, t.amount, t.currency]),
+    [
+      ['ben', 'ann', 5, 'USD'],
+      ['ann', 'ben', 150, 'TWD'],
+    ]
+  );
+});
+
+test('sessions in the same currency are netted together', () => {
+  const sessions = [makeSession('s2', 'ben', 6), makeSession('s1', 'ann', 10)];
+  const ledger = buildGroupLedger(sessions, new Map(), [], 'USD');
+
+  assert.deepEqual(
+    ledger.netTransfers.map((t) => [t.fromPlayerName, t.toPlayerName, t.amount, t.currency]),
+    [['ben', 'ann', 2, 'USD']]
+  );
+});
+
+const THREE_PLAYERS = ['ann', 'ben', 'cat'].map((name) => ({ id: `s1-${name}`, name, groupPlayerId: `gp-${name}` }));
+
+function payment(fromPlayerId: string, toPlayerId: string, amount: number): LedgerPayment {
+  return { sessionId: 's1', fromPlayerId, toPlayerId, amount, paidAt: new Date('2025-01-03T10:00:00.000Z') };
+}
+
+const obligationsOf = (sessions: Session[], payments: LedgerPayment[]) =>
+  buildGroupLedger(sessions, new Map(), payments, 'USD').obligations.map((o) => [
+    o.fromPlayerName,
+    o.toPlayerName,
+    o.amount,
+    o.amountPaid,
+    o.outstanding,
+  ]);
+
+test('a payment clears its obligation', () => {
+  const session = makeSession('s1', 'ann', 12, { players: THREE_PLAYERS });
+  const ledger = buildGroupLedger([session], new Map(), [payment('s1-ben', 's1-ann', 4)], 'USD');
+
+  assert.deepEqual(
+    ledger.obligations.map((o) => [o.fromPlayerName, o.toPlayerName, o.amount, o.amountPaid, o.outstanding]),
+    [
+      ['cat', 'ann', 4, 0, 4],
+      ['ben', 'ann', 4, 4, 0],
+    ]
+  );
+  assert.deepEqual(
+    ledger.balances.map((b) => [b.playerName, b.balance]),
+    [
+      ['ann', 4],
+      ['cat', -4],
+    ]
+  );
+  assert.deepEqual(
+    ledger.netTransfers.map((t) => [t.fromPlayerName, t.toPlayerName, t.amount]),
+    [['cat', 'ann', 4]]
+  );
+});
+
+test('a payment still counts after the session is edited', () => {
+  // ben paid ann, then the session was changed to say cat paid for the court
+  const edited = makeSession('s1', 'cat', 12, { players: THREE_PLAYERS });
+  const ledger = buildGroupLedger([edited], new Map(), [payment('s1-ben', 's1-ann', 4)], 'USD');
+
+  // ben is square - ann now owes cat her own share and the 4 ben gave her
+  assert.deepEqual(
+    ledger.obligations.map((o) => [o.fromPlayerName, o.toPlayerName, o.amount, o.amountPaid, o.outstanding]),
+    [
+      ['ann', 'cat', 8, 0, 8],
+      ['ben', 'ann', 4, 4, 0],
+    ]
+  );
+  assert.deepEqual(
+    ledger.balances.map((b) => [b.playerName, b.balance]),
+    [
+      ['cat', 8],
+      ['ann', -8],
+    ]
+  );
+
+  // A bigger court cost leaves part of a paid obligation outstanding
+  const raised = makeSession('s1', 'ann', 18, { players: THREE_PLAYERS });
+  assert.deepEqual(obligationsOf([raised], [payment('s1-ben', 's1-ann', 4)]), [
+    ['cat', 'ann', 6, 0, 6],
+    ['ben', 'ann', 6, 4, 2],
+  ]);
+
+  // ...and a smaller one leaves ben overpaid - cat's share goes to him instead of ann
+  const lowered = makeSession('s1', 'ann', 6, { players: THREE_PLAYERS });
+  assert.deepEqual(obligationsOf([lowered], [payment('s1-ben', 's1-ann', 4)]), [
+    ['cat', 'ben', 2, 0, 2],
+    ['ben', 'ann', 4, 4, 0],
+  ]);
+});
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RallyWinner } from '@/types';
+import { SCORING_RULES } from '@/lib/scoring';
+import { getLiveScoreResult, LiveScoreSetup, replayLiveScore } from '@/lib/liveScoring';
+
+const RULE = SCORING_RULES.rally_21;
+
+const doubles: LiveScoreSetup = { teamA: ['ann', 'amy'], teamB: ['ben', 'bob'], isMatch: false, firstServer: 'ann', firstReceiver: 'ben' };
+const singlesMatch: LiveScoreSetup = { teamA: ['ann'], teamB: ['ben'], isMatch: true, firstServer: 'ann', firstReceiver: 'ben' };
+
+// Rallies for a score reached by alternating points, then the given extra rallies
+const rallies = (a: number, b: number, ...then: RallyWinner[]): RallyWinner[] => {
+  const list: RallyWinner[] = [];
+  for (let i = 0; i < Math.max(a, b); i++) {
+    if (i < a) list.push('A');
+    if (i < b) list.push('B');
+  }
+  return list.concat(then);
+};
+
+const service = (setup: LiveScoreSetup, played: RallyWinner[]) => {
+  const { servingTeam, server, receiver, serviceCourt } = replayLiveScore(RULE, { setup, rallies: played });
+  return [servingTeam, server, receiver, serviceCourt];
+};
+
+test('the serve follows the rallies around the court', () => {
+  assert.deepEqual(service(doubles, []), ['A', 'ann', 'ben', 'right']);
+  // Won on serve: ann and amy swap courts and ann serves again, from the left on 1
+  assert.deepEqual(service(doubles, ['A']), ['A', 'ann', 'bob', 'left']);
+  // Won on receive: nobody moves, and bob - in the left court for B's 1 - serves
+  assert.deepEqual(service(doubles, ['A', 'B']), ['B', 'bob', 'ann', 'left']);
+  assert.deepEqual(service(doubles, ['A', 'B', 'B']), ['B', 'bob', 'amy', 'right']);
+  assert.deepEqual(service(doubles, ['A', 'B', 'B', 'A']), ['A', 'amy', 'bob', 'right']);
+
+  // In singles the court is just the server's score
+  assert.deepEqual(service(singlesMatch, ['B']), ['B', 'ben', 'ann', 'left']);
+  assert.deepEqual(service(singlesMatch, ['B', 'B']), ['B', 'ben', 'ann', 'right']);
+});
+
+test('the interval, game point and the cap come from the score', () => {
+  const replay = (played: RallyWinner[]) => replayLiveScore(RULE, { setup: doubles, rallies: played });
+
+  assert.equal(replay(rallies(10, 5, 'A')).interval, true);
+  assert.equal(replay(rallies(10, 5, 'A', 'B')).interval, false);
+  // Only the leader reaching 11 first is the interval
+  assert.equal(replay(rallies(11, 10, 'B')).interval, false);
+
+  assert.equal(replay(rallies(19, 20)).gamePoint, 'B');
+  assert.equal(replay(rallies(20, 20)).gamePoint, null);
+  const advantage = replay(rallies(20, 20, 'A'));
+  assert.deepEqual([advantage.gamePoint, advantage.matchPoint], ['A', 'A']);
+  assert.equal(replay(rallies(20, 20, 'A', 'B', 'A', 'A')).winningTeam, 'A');
+
+  // At 29-all both sides are a rally from the cap - the serving side is shown
+  assert.equal(replay(rallies(29, 29)).servingTeam, 'B');
+  assert.equal(replay(rallies(29, 29)).gamePoint, 'B');
+  assert.deepEqual(replay(rallies(29, 29, 'A')).score, { teamAScore: 30, teamBScore: 29 });
+  assert.equal(replay(rallies(29, 29, 'A')).winningTeam, 'A');
+});
+
+test('a match moves on to the next set and changes ends in the decider', () => {
+  const replay = (played: RallyWinner[]) => replayLiveScore(RULE, { setup: singlesMatch, rallies: played });
+  const firstSet = rallies(21, 15);
+
+  // Set point isn't match point yet, and the set's winner serves first in the next one
+  assert.deepEqual([replay(rallies(20, 15)).gamePoint, replay(rallies(20, 15)).matchPoint], ['A', null]);
+  const secondSet = replay(firstSet);
+  assert.deepEqual(secondSet.sets, [{ teamAScore: 21, teamBScore: 15 }, { teamAScore: 0, teamBScore: 0 }]);
+  assert.deepEqual([secondSet.servingTeam, secondSet.server, secondSet.serviceCourt], ['A', 'ann', 'right']);
+
+  const oneAll = firstSet.concat(rallies(10, 21));
+  assert.deepEqual(replay(oneAll).setsWon, { teamA: 1, teamB: 1 });
+  assert.equal(replay(oneAll.concat(rallies(0, 10, 'B'))).changeEnds, true);
+  // The interval of an earlier set is only an interval
+  const firstInterval = replay(rallies(0, 10, 'B'));
+  assert.deepEqual([firstInterval.interval, firstInterval.changeEnds], [true, false]);
+
+  assert.equal(replay(oneAll.concat(rallies(0, 20))).matchPoint, 'B');
+});
+
+test('undo drops the last rally and rallies after the match are ignored', () => {
+  const played = rallies(8, 6, 'B', 'B');
+  const undone = replayLiveScore(RULE, { setup: doubles, rallies: played.slice(0, -1) });
+  assert.deepEqual(undone, replayLiveScore(RULE, { setup: doubles, rallies: rallies(8, 6, 'B') }));
+  assert.deepEqual(undone.score, { teamAScore: 8, teamBScore: 7 });
+
+  const over = replayLiveScore(RULE, { setup: doubles, rallies: rallies(21, 3) });
+  assert.deepEqual(replayLiveScore(RULE, { setup: doubles, rallies: rallies(21, 3, 'B', 'B') }), over);
+});
+
+test('a finished live game becomes its result', () => {
+  const game = getLiveScoreResult(replayLiveScore(RULE, { setup: doubles, rallies: rallies(19, 21) }));
+  assert.deepEqual(
+    [game.winningTeam, game.teamAScore, game.teamBScore, game.sets, game.rallies?.length],
+    ['B', 19, 21, undefined, 1]
+  );
+
+  // A match keeps its sets, with the scores as their totals and the rallies split by set
+  const match = getLiveScoreResult(
+    replayLiveScore(RULE, { setup: singlesMatch, rallies: rallies(21, 15).concat(rallies(10, 21), rallies(21, 19)) })
+  );
+  assert.deepEqual(
+    [match.winningTeam, match.teamAScore, match.teamBScore, match.rallies?.map((set) => set.length)],
+    ['A', 52, 55, [36, 31, 40]]
+  );
+  assert.deepEqual(match.sets, [
+    { teamAScore: 21, teamBScore: 15 },
+    { teamAScore: 10, teamBScore: 21 },
+    { teamAScore: 21, teamBScore: 19 },
+  ]);
+
+  assert.throws(() => getLiveScoreResult(replayLiveScore(RULE, { setup: singlesMatch, rallies: rallies(21, 15) })), /isn't over/);
+});
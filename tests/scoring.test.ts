@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameSet, RallyWinner } from '@/types';
+import { getMatchMaxSets, resolveMatchResult, SCORING_RULES } from '@/lib/scoring';
+import { getIntervalPoint, replayLiveScore } from '@/lib/liveScoring';
+
+const sets = (...scores: [number, number][]): GameSet[] =>
+  scores.map(([teamAScore, teamBScore]) => ({ teamAScore, teamBScore }));
+
+// Rallies for a set won 11-0 by one side
+const setWonBy = (team: RallyWinner): RallyWinner[] => Array(11).fill(team);
+
+test('11x5 matches are best of five', () => {
+  const rule = SCORING_RULES.rally_11x5;
+  assert.equal(getMatchMaxSets(rule), 5);
+  assert.equal(getMatchMaxSets(SCORING_RULES.rally_11), 3);
+
+  assert.deepEqual(resolveMatchResult(rule, sets([11, 5], [11, 7], [11, 9])), {
+    winningTeam: 'A',
+    teamAScore: 33,
+    teamBScore: 21,
+  });
+  assert.deepEqual(resolveMatchResult(rule, sets([11, 5], [5, 11], [11, 9], [9, 11], [9, 11])), {
+    winningTeam: 'B',
+    teamAScore: 45,
+    teamBScore: 47,
+  });
+
+  // Two sets each isn't over, and nothing is played after a side has won three
+  assert.ok('error' in resolveMatchResult(rule, sets([11, 5], [5, 11], [11, 9], [9, 11])));
+  assert.ok('error' in resolveMatchResult(rule, sets([11, 5], [11, 5], [11, 5], [5, 11])));
+  assert.ok('error' in resolveMatchResult(rule, sets([11, 5], [11, 5])));
+
+  // Best-of-three rules still end at two sets
+  assert.ok('error' in resolveMatchResult(SCORING_RULES.rally_11, sets([11, 5], [5, 11], [11, 9], [11, 9])));
+});
+
+test('live 11x5 matches go to a fifth set and change ends in it', () => {
+  const rule = SCORING_RULES.rally_11x5;
+  const setup = { teamA: ['ann'], teamB: ['ben'], isMatch: true, firstServer: 'ann', firstReceiver: 'ben' };
+  const rallies = [...setWonBy('A'), ...setWonBy('B'), ...setWonBy('A'), ...setWonBy('B')];
+
+  const fourSets = replayLiveScore(rule, { setup, rallies });
+  assert.equal(fourSets.winningTeam, null);
+  assert.deepEqual(fourSets.setsWon, { teamA: 2, teamB: 2 });
+
+  const interval = replayLiveScore(rule, { setup, rallies: rallies.concat(Array(getIntervalPoint(rule)).fill('A')) });
+  assert.equal(interval.interval, true);
+  assert.equal(interval.changeEnds, true);
+
+  const finished = replayLiveScore(rule, { setup, rallies: rallies.concat(setWonBy('A')) });
+  assert.equal(finished.winningTeam, 'A');
+  assert.equal(finished.sets.length, 5);
+
+  // Under a best-of-three rule the same rallies end after the third set
+  const bestOfThree = replayLiveScore(SCORING_RULES.rally_11, { setup, rallies });
+  assert.equal(bestOfThree.winningTeam, 'A');
+  assert.equal(bestOfThree.sets.length, 3);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryDatabase, setDatabase } from '@/lib/db';
+import { EloService } from '@/lib/services/eloService';
+import { GameService } from '@/lib/services/gameService';
+import { SeasonService, StatsWindow } from '@/lib/services/seasonService';
+
+const PLAYERS = ['ann', 'ben', 'cat', 'dan'];
+
+test('a window is replayed once until its games change', async (t) => {
+  setDatabase(
+    createMemoryDatabase({
+      groups: [{ id: 'g1', name: 'Thursday', shareable_link: 'abc' }],
+      group_players: PLAYERS.map((name) => ({ id: `gp-${name}`, group_id: 'g1', name })),
+      sessions: [
+        { id: 's0', group_id: 'g1', date: '2024-12-20T19:00:00.000Z', game_mode: 'doubles' },
+        { id: 's1', group_id: 'g1', date: '2025-01-02T19:00:00.000Z', game_mode: 'doubles' },
+      ],
+      players: ['s0', 's1'].flatMap((sessionId) =>
+        PLAYERS.map((name) => ({ id: `${sessionId}-${name}`, session_id: sessionId, name, group_player_id: `gp-${name}` }))
+      ),
+    })
+  );
+  const recordGame = (sessionId: string) =>
+    GameService.createGame(sessionId, {
+      teamA: [`${sessionId}-ann`, `${sessionId}-ben`],
+      teamB: [`${sessionId}-cat`, `${sessionId}-dan`],
+      winningTeam: 'A',
+    });
+  await recordGame('s0');
+  await recordGame('s1');
+
+  const replay = t.mock.method(EloService, 'recalculateGroupElo');
+  const window: StatsWindow = { from: '2025-01-01', to: null, ratingMode: 'carry_over', season: null };
+
+  const leaderboard = await SeasonService.getWindowLeaderboard('g1', window);
+  await SeasonService.getWindowPairings('g1', window);
+  await SeasonService.getWindowOverview('g1', window);
+  // Once for the ratings carried in, once for the window itself
+  assert.equal(replay.mock.callCount(), 2);
+  assert.deepEqual(leaderboard.map((entry) => entry.totalGames), [1, 1, 1, 1]);
+
+  await recordGame('s1');
+  const updated = await SeasonService.getWindowLeaderboard('g1', window);
+  assert.equal(replay.mock.callCount(), 4);
+  assert.deepEqual(updated.map((entry) => entry.totalGames), [2, 2, 2, 2]);
+});
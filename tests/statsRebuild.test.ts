@@ -0,0 +1,106 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryDatabase, Database, getDatabase, setDatabase } from '@/lib/db';
+import { createMemoryAdapter } from '@/lib/db/memoryAdapter';
+import { DatabaseAdapter } from '@/lib/db/types';
+import { GameService } from '@/lib/services/gameService';
+import { StatsRebuildService } from '@/lib/services/statsRebuildService';
+
+const PLAYERS = ['ann', 'ben', 'cat', 'dan'];
+
+const seed = () => ({
+  groups: [{ id: 'g1', name: 'Thursday', shareable_link: 'abc' }],
+  group_players: PLAYERS.map((name) => ({ id: `gp-${name}`, group_id: 'g1', name })),
+  sessions: [{ id: 's1', group_id: 'g1', date: '2025-01-02T19:00:00.000Z', game_mode: 'doubles' }],
+  players: PLAYERS.map((name) => ({ id: name, session_id: 's1', name, group_player_id: `gp-${name}` })),
+});
+
+beforeEach(() => {
+  setDatabase(createMemoryDatabase(seed()));
+});
+
+const pause = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+async function assertInSync(): Promise<void> {
+  const rebuild = await StatsRebuildService.rebuildGroupStats('g1', { dryRun: true });
+  assert.deepEqual([rebuild.players, rebuild.partnerStats, rebuild.pairingMatchups], [[], [], []]);
+  assert.equal(rebuild.inSync, true);
+}
+
+async function streakOf(name: string): Promise<number> {
+  const { data } = await getDatabase().from('group_players').select('current_streak').eq('id', `gp-${name}`).single();
+  return data.current_streak;
+}
+
+test('stats recorded live match a rebuild', async () => {
+  await GameService.createGame('s1', { teamA: ['ann', 'ben'], teamB: ['cat', 'dan'], winningTeam: 'A', teamAScore: 21, teamBScore: 15 });
+  // A game scored courtside gets its result some time after it was created
+  const game = await GameService.createGame('s1', { teamA: ['ann', 'cat'], teamB: ['ben', 'dan'], winningTeam: null });
+  await pause();
+  await GameService.updateGame('s1', game.id, { winningTeam: 'B', teamAScore: 18, teamBScore: 21 });
+
+  await assertInSync();
+});
+
+test('changing an earlier result replays the games after it', async () => {
+  const first = await GameService.createGame('s1', { teamA: ['ann', 'ben'], teamB: ['cat', 'dan'], winningTeam: 'A', teamAScore: 21, teamBScore: 19 });
+  await pause();
+  await GameService.createGame('s1', { teamA: ['ann', 'cat'], teamB: ['ben', 'dan'], winningTeam: 'B', teamAScore: 17, teamBScore: 21 });
+  assert.equal(await streakOf('ann'), -1);
+
+  await GameService.updateGame('s1', first.id, { winningTeam: 'B', teamAScore: 19, teamBScore: 21 });
+  assert.equal(await streakOf('ann'), -2);
+  assert.equal(await streakOf('dan'), 2);
+  await assertInSync();
+});
+
+test('editing only the score of a result updates the stats', async () => {
+  const game = await GameService.createGame('s1', { teamA: ['ann', 'ben'], teamB: ['cat', 'dan'], winningTeam: 'A', teamAScore: 21, teamBScore: 19 });
+
+  await GameService.updateGame('s1', game.id, { teamAScore: 21, teamBScore: 5 });
+  const { data: pair } = await getDatabase().from('partner_stats').select('points_against').eq('player1_id', 'gp-ann').eq('player2_id', 'gp-ben').single();
+  assert.equal(pair.points_against, 5);
+  await assertInSync();
+});
+
+test('deleting an earlier result replays the games after it', async () => {
+  const first = await GameService.createGame('s1', { teamA: ['ann', 'ben'], teamB: ['cat', 'dan'], winningTeam: 'B', teamAScore: 15, teamBScore: 21 });
+  await pause();
+  await GameService.createGame('s1', { teamA: ['ann', 'ben'], teamB: ['cat', 'dan'], winningTeam: 'B', teamAScore: 18, teamBScore: 21 });
+  assert.equal(await streakOf('ann'), -2);
+
+  await GameService.deleteGame('s1', first.id);
+  assert.equal(await streakOf('ann'), -1);
+  await assertInSync();
+});
+
+// Counts the queries run against it, inside transactions too
+function countQueries(adapter: DatabaseAdapter, counter: { queries: number }): DatabaseAdapter {
+  return {
+    backend: adapter.backend,
+    execute: (query) => {
+      counter.queries++;
+      return adapter.execute(query);
+    },
+    transaction: (fn, options) => adapter.transaction((inner) => fn(countQueries(inner, counter)), options),
+  };
+}
+
+test('replaying a longer history takes no more queries', async () => {
+  const counter = { queries: 0 };
+  setDatabase(new Database(countQueries(createMemoryAdapter(seed()), counter)));
+
+  const first = await GameService.createGame('s1', { teamA: ['ann', 'ben'], teamB: ['cat', 'dan'], winningTeam: 'A', teamAScore: 21, teamBScore: 19 });
+  const queriesToEdit = async (games: number): Promise<number> => {
+    for (let i = 0; i < games; i++) {
+      await GameService.createGame('s1', { teamA: ['ann', 'cat'], teamB: ['ben', 'dan'], winningTeam: i % 2 ? 'A' : 'B' });
+    }
+    counter.queries = 0;
+    await GameService.updateGame('s1', first.id, { teamAScore: 21, teamBScore: 19 - games });
+    return counter.queries;
+  };
+
+  const afterFew = await queriesToEdit(2);
+  assert.equal(await queriesToEdit(10), afterFew);
+  await assertInSync();
+});
@@ -0,0 +1,186 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Game, Tournament, TournamentSlot } from '@/types';
+import { createMemoryDatabase, getDatabase, setDatabase } from '@/lib/db';
+import {
+  buildTournament,
+  getBracketSeedOrder,
+  getTournamentEditError,
+  getTournamentGameId,
+  resolveTournament,
+  seedTournamentEntries,
+} from '@/lib/tournament';
+import { AuditService } from '@/lib/services/auditService';
+import { GameService } from '@/lib/services/gameService';
+import { SessionService } from '@/lib/services/sessionService';
+import { TournamentService } from '@/lib/services/tournamentService';
+
+const PLAYERS = ['ann', 'ben', 'cat', 'dan'];
+
+beforeEach(() => {
+  setDatabase(
+    createMemoryDatabase({
+      groups: [{ id: 'g1', name: 'Thursday', shareable_link: 'abc' }],
+      group_players: PLAYERS.map((name) => ({ id: `gp-${name}`, group_id: 'g1', name })),
+      sessions: [{ id: 's1', group_id: 'g1', date: '2025-01-02T19:00:00.000Z', game_mode: 'singles' }],
+      players: PLAYERS.map((name) => ({ id: name, session_id: 's1', name, group_player_id: `gp-${name}` })),
+    })
+  );
+});
+
+async function startTournament(): Promise<void> {
+  const session = await SessionService.getSessionById('s1');
+  const started = await TournamentService.startTournament(session!, { format: 'single_elimination' });
+  assert.equal(started.result, 'started');
+}
+
+async function gameAuditIds(gameId: string): Promise<string[]> {
+  const { data } = await getDatabase()
+    .from('audit_log')
+    .select('id')
+    .eq('entity_type', 'game')
+    .eq('entity_id', gameId)
+    .order('created_at', { ascending: true });
+  return (data || []).map((row: { id: string }) => row.id);
+}
+
+test('tournament games are not reverted behind the bracket', async () => {
+  await startTournament();
+  const gameId = getTournamentGameId('s1', 'W1-1');
+  await GameService.updateGame('s1', gameId, { winningTeam: 'A' });
+
+  const [, result] = await gameAuditIds(gameId);
+  assert.deepEqual(await AuditService.revertChange('g1', result), { result: 'in_tournament' });
+  assert.equal((await GameService.getGame('s1', gameId))?.winningTeam, 'A');
+
+  // Once the tournament is over its games are ordinary games again
+  await TournamentService.endTournament((await SessionService.getSessionById('s1'))!);
+  assert.equal((await AuditService.revertChange('g1', result)).result, 'reverted');
+  assert.equal((await GameService.getGame('s1', gameId))?.winningTeam, null);
+});
+
+// A singles bracket for players p1, p2, ... seeded in that order
+function bracket(format: 'single_elimination' | 'double_elimination', count: number): Tournament {
+  const entries = seedTournamentEntries(Array.from({ length: count }, (_, i) => [`p${i + 1}`]), new Map(), 1500);
+  return buildTournament(format, entries, {}, '2025-01-02T19:00:00.000Z');
+}
+
+// Games with these results, by match ID
+function results(winners: Record<string, 'A' | 'B'>): Game[] {
+  return Object.entries(winners).map(([matchId, winningTeam], index) => ({
+    id: getTournamentGameId('s1', matchId),
+    sessionId: 's1',
+    gameNumber: index + 1,
+    teamA: ['a'],
+    teamB: ['b'],
+    winningTeam,
+  }));
+}
+
+function matchState(tournament: Tournament, games: Game[], matchId: string) {
+  const { entryA, entryB, status, winner } = resolveTournament('s1', tournament, games).matches.find((m) => m.match.id === matchId)!;
+  return { entryA, entryB, status, winner };
+}
+
+test('entries are seeded by rating and placed so the top seeds meet last', () => {
+  assert.deepEqual(getBracketSeedOrder(4), [1, 4, 2, 3]);
+  assert.deepEqual(getBracketSeedOrder(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+
+  // Pairs are seeded by their average rating; players without one count as the default
+  const ratings = new Map([['ann', 1600], ['ben', 1400], ['cat', 1700], ['dan', 1500]]);
+  const entries = seedTournamentEntries([['ann', 'ben'], ['cat', 'dan'], ['eve', 'fay']], ratings, 1500);
+  assert.deepEqual(
+    entries.map((e) => [e.id, e.seed, e.playerIds.join('+'), e.rating]),
+    [
+      ['E1', 1, 'cat+dan', 1600],
+      ['E2', 2, 'ann+ben', 1500],
+      ['E3', 3, 'eve+fay', 1500],
+    ]
+  );
+
+  const firstRound = bracket('single_elimination', 8).matches.filter((m) => m.round === 1);
+  assert.deepEqual(
+    firstRound.map((m) => [m.slotA, m.slotB].map((slot) => (slot.type === 'entry' ? slot.entryId : slot.type)).join(' v ')),
+    ['E1 v E8', 'E4 v E5', 'E2 v E7', 'E3 v E6']
+  );
+});
+
+test('byes go to the top seeds and their winners move on', () => {
+  const tournament = bracket('single_elimination', 5);
+
+  assert.deepEqual(matchState(tournament, [], 'W1-1'), { entryA: 'E1', entryB: 'bye', status: 'walkover', winner: 'E1' });
+  assert.deepEqual(matchState(tournament, [], 'W1-2'), { entryA: 'E4', entryB: 'E5', status: 'ready', winner: null });
+  // Both sides of the other semifinal came through byes, so it can be played straight away
+  assert.deepEqual(matchState(tournament, [], 'W2-2'), { entryA: 'E2', entryB: 'E3', status: 'ready', winner: null });
+  assert.deepEqual(matchState(tournament, [], 'W2-1'), { entryA: 'E1', entryB: null, status: 'waiting', winner: null });
+
+  assert.deepEqual(matchState(tournament, results({ 'W1-2': 'B' }), 'W2-1'), { entryA: 'E1', entryB: 'E5', status: 'ready', winner: null });
+
+  // A bye's "loser" is a bye too, so the losers bracket gets a walkover
+  const double = bracket('double_elimination', 3);
+  assert.deepEqual(matchState(double, [], 'L1-1'), { entryA: 'bye', entryB: null, status: 'waiting', winner: null });
+  assert.deepEqual(matchState(double, results({ 'W1-2': 'A' }), 'L1-1'), { entryA: 'bye', entryB: 'E3', status: 'walkover', winner: 'E3' });
+});
+
+test('losers drop into the losers bracket in reverse order', () => {
+  const tournament = bracket('double_elimination', 8);
+  const describe = (slot: TournamentSlot) => ('matchId' in slot ? `${slot.type} ${slot.matchId}` : slot.type);
+  const losers = tournament.matches
+    .filter((m) => m.stage !== 'winners')
+    .map((m) => `${m.id}: ${describe(m.slotA)} v ${describe(m.slotB)}`);
+
+  assert.deepEqual(losers, [
+    'L1-1: loser W1-1 v loser W1-2',
+    'L1-2: loser W1-3 v loser W1-4',
+    'L2-1: winner L1-1 v loser W2-2',
+    'L2-2: winner L1-2 v loser W2-1',
+    'L3-1: winner L2-1 v winner L2-2',
+    'L4-1: winner L3-1 v loser W3-1',
+    'GF: winner W3-1 v winner L4-1',
+    'GF2: winner GF v loser GF',
+  ]);
+
+  // With every favourite winning, the second round's losers meet survivors from the other half
+  // of the bracket rather than players they have already beaten
+  const games = results({ 'W1-1': 'A', 'W1-2': 'A', 'W1-3': 'A', 'W1-4': 'A', 'W2-1': 'A', 'W2-2': 'A', 'L1-1': 'A', 'L1-2': 'A' });
+  assert.deepEqual(matchState(tournament, games, 'L2-1'), { entryA: 'E8', entryB: 'E3', status: 'ready', winner: null });
+  assert.deepEqual(matchState(tournament, games, 'L2-2'), { entryA: 'E7', entryB: 'E4', status: 'ready', winner: null });
+});
+
+test('the grand final is only replayed when the losers bracket champion wins it', () => {
+  const tournament = bracket('double_elimination', 4);
+  // E1 wins the winners bracket, E2 comes back through the losers bracket
+  const toFinal = { 'W1-1': 'A', 'W1-2': 'A', 'W2-1': 'A', 'L1-1': 'A', 'L2-1': 'B' } as const;
+
+  assert.deepEqual(matchState(tournament, results(toFinal), 'GF'), { entryA: 'E1', entryB: 'E2', status: 'ready', winner: null });
+  assert.equal(matchState(tournament, results(toFinal), 'GF2').status, 'waiting');
+
+  const unbeaten = results({ ...toFinal, GF: 'A' });
+  assert.equal(matchState(tournament, unbeaten, 'GF2').status, 'skipped');
+  assert.equal(resolveTournament('s1', tournament, unbeaten).champion, 'E1');
+
+  // E1's first loss forces a reset final between the same two
+  const reset = results({ ...toFinal, GF: 'B' });
+  assert.deepEqual(matchState(tournament, reset, 'GF2'), { entryA: 'E2', entryB: 'E1', status: 'ready', winner: null });
+  assert.equal(resolveTournament('s1', tournament, reset).champion, null);
+  assert.equal(resolveTournament('s1', tournament, results({ ...toFinal, GF: 'B', GF2: 'B' })).champion, 'E1');
+});
+
+test('a result can change until a match it fed into is played', () => {
+  const tournament = bracket('single_elimination', 4);
+  const semifinal = getTournamentGameId('s1', 'W1-1');
+  const editError = (games: Game[], gameId: string, edit: Parameters<typeof getTournamentEditError>[4]) =>
+    getTournamentEditError('s1', tournament, games, gameId, edit);
+
+  const semifinals = results({ 'W1-1': 'A', 'W1-2': 'A' });
+  assert.equal(editError(semifinals, semifinal, { winnerChanged: true }), null);
+  assert.match(editError(semifinals, semifinal, { deleting: true })!, /can't be deleted/);
+  assert.match(editError(semifinals, semifinal, { teamsChanged: true })!, /bracket decides/);
+
+  const final = results({ 'W1-1': 'A', 'W1-2': 'A', 'W2-1': 'B' });
+  assert.match(editError(final, semifinal, { winnerChanged: true })!, /\(game 3\) has already been played/);
+  // A new score for the same winner doesn't change the bracket
+  assert.equal(editError(final, semifinal, { scoresChanged: true }), null);
+  // Games outside the bracket aren't restricted
+  assert.equal(editError(final, 's1-friendly', { deleting: true }), null);
+});
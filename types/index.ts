@@ -2,7 +2,27 @@ export interface Group {
   id: string;
   name: string;
   shareableLink: string;
+  spectatorLink?: string; // Read-only link - see GroupSpectatorView
+  hasAdminPin?: boolean; // Deleting the group, removing players and changing recorded games need the PIN
   createdAt?: Date;
+  ratingSettings?: GroupRatingSettings;
+  currencySettings?: CurrencySettings; // Default currency for the group's sessions
+}
+
+export type RatingEngineName = 'elo' | 'glicko2';
+
+export interface GroupRatingSettings {
+  engine: RatingEngineName; // Rating system used for this group
+  kFactor: number; // Maximum rating swing per game (ELO only)
+  startingRating: number; // Rating new players start at
+  ratingFloor: number; // Ratings never drop below this
+  marginOfVictory: boolean; // Scale rating changes by the score margin (ELO only)
+}
+
+// Currency every money amount is shown and settled in
+export interface CurrencySettings {
+  currency: string; // ISO 4217 code, e.g. "USD", "CAD", "TWD"
+  locale: string; // BCP 47 locale used to format amounts, e.g. "en-CA", "zh-TW"
 }
 
 export interface GroupPlayer {
@@ -13,6 +33,7 @@ export interface GroupPlayer {
   wins?: number; // Total wins across all sessions
   losses?: number; // Total losses across all sessions
   totalGames?: number; // Total games played (wins + losses)
+  userId?: string; // Account that claimed this player - see User
   createdAt?: Date;
 }
 
@@ -21,6 +42,7 @@ export interface Player {
   name: string;
   groupPlayerId?: string; // Links to group player pool
   isGuest?: boolean; // True if explicitly added as guest (one-time player)
+  attendanceWeight?: number; // Share of the session attended (0-1, default 1) - used when costs are split by attendance
 }
 
 export interface Session {
@@ -36,6 +58,57 @@ export interface Session {
   gameMode: "doubles" | "singles";
   groupId?: string; // Optional - null for standalone sessions
   bettingEnabled: boolean; // Per-session toggle
+  courtQueue?: CourtQueue; // Live court queue - only set once the queue has been started
+  expenses?: SessionExpense[]; // Itemised costs - sessions without them fall back to court + bird cost paid by the organizer
+  costSplitMode?: CostSplitMode; // How shared costs are divided (default: even)
+  currencySettings?: CurrencySettings; // Copied from the group when created in one (default: USD)
+  scoringRule?: ScoringRuleName; // Points a game is played to (default: rally_21)
+  tournament?: Tournament; // Seeded bracket or pools - only set once a tournament has been started
+}
+
+// Rally-point scoring a session's games are played to - lib/scoring.ts has the targets and caps
+// - rally_21: standard 21 points, win by 2, capped at 30
+// - rally_15 / rally_11: shorter games (15 capped at 21, 11 capped at 15)
+// - rally_11x5: 11-point games, with matches played best of five
+export type ScoringRuleName = "rally_21" | "rally_15" | "rally_11" | "rally_11x5";
+
+// How a session's costs are divided between the players sharing them
+// - even: everyone pays the same
+// - attendance: by each player's attendanceWeight (e.g. 0.5 for leaving halfway)
+// - games: by games played
+export type CostSplitMode = "even" | "attendance" | "games";
+
+// A cost someone paid up front, split evenly between the players who share it
+export interface SessionExpense {
+  id: string;
+  description: string;
+  amount: number;
+  paidBy: string; // Player ID
+  sharedBy?: string[]; // Player IDs splitting this expense - omitted means everyone in the session
+}
+
+// What happens to the players on court when a queued game finishes
+export type CourtQueueRule = "winners_stay" | "losers_stay" | "everyone_off";
+
+export interface QueuedPlayer {
+  playerId: string;
+  waitingSince: string; // ISO timestamp - the longest wait goes on court first
+}
+
+export interface QueueCourt {
+  teamA: string[]; // Team kept on from the previous game always sits in teamA
+  teamB: string[]; // Empty until enough players are waiting
+  startedAt: string; // ISO timestamp
+  consecutiveGames: number; // Games teamA has already played on this court in a row
+}
+
+// Live "who's up next" queue, stored as JSON on the session
+export interface CourtQueue {
+  courtCount: number;
+  rule: CourtQueueRule;
+  maxConsecutiveGames: number; // Staying team comes off after this many games in a row (0 = no limit)
+  courts: (QueueCourt | null)[]; // One entry per court, null when the court is free
+  waiting: QueuedPlayer[];
 }
 
 export interface Game {
@@ -45,17 +118,29 @@ export interface Game {
   teamA: [string, string] | [string]; // player IDs - doubles: [string, string], singles: [string]
   teamB: [string, string] | [string]; // player IDs - doubles: [string, string], singles: [string]
   winningTeam: "A" | "B" | null; // null for unplayed round robin games
-  teamAScore?: number;
+  teamAScore?: number; // For a match, the points won across all its sets
   teamBScore?: number;
+  sets?: GameSet[]; // A match (best of three, or five under 11x5): each set's score, in the order played
+  rallies?: RallyWinner[][]; // Scored live: who won each rally, one list per set
   createdAt?: Date; // When the game was recorded
   updatedAt?: Date; // When the game was last updated
 }
 
+// One set of a match
+export interface GameSet {
+  teamAScore: number;
+  teamBScore: number;
+}
+
+// Side that won a rally in a live-scored game
+export type RallyWinner = "A" | "B";
+
 // Leaderboard entry for group stats
 export interface LeaderboardEntry {
   groupPlayerId: string;
   playerName: string;
   eloRating: number;
+  ratingDeviation?: number; // Glicko-2 only: RD as of now, including growth from inactivity
   rank: number;
   totalGames: number;
   wins: number;
@@ -65,6 +150,16 @@ export interface LeaderboardEntry {
   trend: 'up' | 'down' | 'stable'; // ELO trend direction
 }
 
+// One rating change in a player's ELO timeline
+export interface EloHistoryEntry {
+  gameId?: string; // Game that caused the change (kept even if the game is later deleted)
+  oldRating: number;
+  newRating: number;
+  change: number;
+  reason: 'game';
+  createdAt: Date;
+}
+
 // Partner statistics
 export interface PartnerStats {
   partnerId: string;
@@ -281,3 +376,427 @@ export interface PairingDetailedStats {
   clutchGames?: ClutchGame[];
   clutchCount?: number;
 }
+
+// ============================================================================
+// Debt Ledger Types (money owed across a group's sessions)
+// ============================================================================
+
+// One "who pays whom" transfer from a session's final settlement
+// Player IDs are the session's player IDs; group player IDs link them across sessions
+export interface LedgerObligation {
+  sessionId: string;
+  sessionName?: string;
+  sessionDate: Date;
+  fromPlayerId: string;
+  fromGroupPlayerId?: string;
+  fromPlayerName: string;
+  toPlayerId: string;
+  toGroupPlayerId?: string;
+  toPlayerName: string;
+  amount: number;
+  currency: string; // The session's currency - amount, amountPaid and outstanding are in it
+  amountPaid: number; // Recorded when the obligation was marked paid
+  outstanding: number; // amount - amountPaid, never negative
+  paidAt?: Date;
+}
+
+// Running balance for one person across every session in the group
+// Guests (no group player) are matched across sessions by name
+export interface LedgerBalance {
+  ledgerPlayerId: string; // Group player ID, or "guest:<name>" for guests
+  groupPlayerId?: string;
+  playerName: string;
+  balance: number; // Positive = is owed money, negative = owes money
+  currency: string; // Someone with sessions in two currencies has a balance in each
+  sessionCount: number; // Sessions with something still outstanding
+}
+
+// One payment in the netted settle-up across all sessions
+export interface LedgerTransfer {
+  fromPlayerId: string; // ledgerPlayerId
+  fromPlayerName: string;
+  toPlayerId: string; // ledgerPlayerId
+  toPlayerName: string;
+  amount: number;
+  currency: string;
+}
+
+export interface GroupLedger {
+  obligations: LedgerObligation[]; // Newest session first
+  balances: LedgerBalance[]; // Per currency (the group's first), largest creditor first
+  netTransfers: LedgerTransfer[]; // Fewest payments that clear every outstanding obligation, netted within each currency
+}
+
+// ============================================================================
+// Stats Rebuild Types (derived stats replayed from the games log)
+// ============================================================================
+
+// One stored column that differs from the value the replay produced
+export interface StatChange {
+  column: string;
+  before: number | string | null; // null = row didn't exist
+  after: number | string | null; // null = row no longer produced by the replay
+}
+
+// A derived row (group player, partner pair or pairing matchup) the replay changes
+export interface StatRowDiff {
+  key: string; // Group player ID, or the pair/matchup's group player IDs joined with ":"
+  label: string; // Player names for display, e.g. "Alice & Bob vs Carol & Dan"
+  status: 'changed' | 'added' | 'removed';
+  changes: StatChange[];
+}
+
+export interface GroupStatsRebuild {
+  dryRun: boolean; // True = differences were only detected, nothing was written
+  inSync: boolean; // Stored stats already matched the games log
+  gamesReplayed: number;
+  players: StatRowDiff[];
+  partnerStats: StatRowDiff[];
+  pairingMatchups: StatRowDiff[];
+}
+
+// ============================================================================
+// Season Types (named date ranges for leaderboards, pairings and the overview)
+// ============================================================================
+
+// Where ratings start when a season begins
+// - reset: everyone starts at the group's starting rating
+// - carry_over: everyone starts from their rating when the season began
+export type SeasonRatingMode = 'reset' | 'carry_over';
+
+export interface Season {
+  id: string;
+  groupId: string;
+  name: string; // e.g. "Spring Ladder 2025"
+  startDate: string; // YYYY-MM-DD, inclusive (UTC)
+  endDate: string | null; // YYYY-MM-DD, inclusive; null = no planned end
+  ratingMode: SeasonRatingMode;
+  finalStandings: LeaderboardEntry[] | null; // Snapshot taken when the season is archived
+  archivedAt: Date | null;
+  createdAt?: Date;
+}
+
+// Body for POST /api/groups/[id]/seasons and PUT /api/groups/[id]/seasons/[seasonId]
+export interface SeasonInput {
+  name: string;
+  startDate: string;
+  endDate: string | null;
+  ratingMode: SeasonRatingMode;
+}
+
+// Which games the stats endpoints cover - leave everything unset for all time
+// season is a season ID or "current"; from/to are YYYY-MM-DD (inclusive) and can't be combined with season
+export interface StatsWindowQuery {
+  season?: string;
+  from?: string;
+  to?: string;
+}
+
+// ============================================================================
+// Tournament Types (seeded brackets played within a session)
+// ============================================================================
+// lib/tournament.ts builds the bracket and works out who has advanced from the session's games
+
+// - single_elimination: one loss and you're out
+// - double_elimination: losers drop into a second bracket; its champion must beat the winners
+//   bracket champion twice in the final
+// - pools_knockout: round robin pools, then the top finishers of each pool play a single elimination knockout
+export type TournamentFormat = "single_elimination" | "double_elimination" | "pools_knockout";
+
+// A player (singles) or fixed pair (doubles) in the tournament
+export interface TournamentEntry {
+  id: string; // "E1", "E2", ... in seed order
+  seed: number; // 1 = top seed
+  playerIds: string[]; // Session player IDs
+  rating: number; // Average group rating when the tournament started - what the seeding is based on
+}
+
+export interface TournamentPool {
+  name: string; // "A", "B", ...
+  entryIds: string[];
+}
+
+// Where one side of a match comes from
+export type TournamentSlot =
+  | { type: "entry"; entryId: string }
+  | { type: "bye" }
+  | { type: "winner" | "loser"; matchId: string }
+  | { type: "pool"; pool: string; place: number }; // 1-based finishing place in the pool
+
+// - pool: pool play; winners and losers: the two brackets (single elimination only has winners)
+// - final: double elimination grand final, and its reset if the losers bracket champion wins it
+export type TournamentStage = "pool" | "winners" | "losers" | "final";
+
+export interface TournamentMatch {
+  id: string; // e.g. "W1-2" (winners round 1, match 2), "L3-1", "GF", "A-4" (pool A, match 4)
+  stage: TournamentStage;
+  round: number; // 1-based within the stage
+  pool?: string; // Pool matches only
+  slotA: TournamentSlot;
+  slotB: TournamentSlot;
+  ifNeeded?: boolean; // Reset final - only played if the losers bracket champion wins the first one
+}
+
+// Stored as JSON on the session. Each match is played as one of the session's games
+// (ID from getTournamentGameId), created once both sides are known.
+export interface Tournament {
+  format: TournamentFormat;
+  entries: TournamentEntry[]; // Seed order
+  pools?: TournamentPool[]; // pools_knockout only
+  advancePerPool?: number; // pools_knockout only - how many of each pool go through to the knockout
+  matches: TournamentMatch[]; // In playing order - every slot refers to an earlier match
+  createdAt: string; // ISO timestamp
+}
+
+// Body for POST /api/sessions/[id]/tournament
+export interface TournamentInput {
+  format: TournamentFormat;
+  entries?: string[][]; // Player IDs per entry (pairs in doubles) - defaults to every player, paired strongest with weakest in doubles
+  poolCount?: number; // pools_knockout only
+  advancePerPool?: number; // pools_knockout only
+}
+
+// ============================================================================
+// Live Update Types (Server-Sent Events for open session and group pages)
+// ============================================================================
+
+// Sent by /api/sessions/[id]/events: a snapshot when the stream opens, then each change
+export type SessionLiveEvent =
+  | { type: 'snapshot'; sessionId: string; games: Game[] }
+  | { type: 'game_created' | 'game_updated'; sessionId: string; game: Game }
+  | { type: 'game_deleted'; sessionId: string; gameId: string };
+
+// Sent by /api/groups/[id]/events when the stream opens and whenever the group's sessions or games change
+export interface GroupLiveEvent {
+  type: 'group_changed';
+  groupId: string;
+  version: string; // Changes whenever a session or game is added, edited or removed
+}
+
+// ============================================================================
+// Group Access Types (admin PIN and read-only spectator links)
+// ============================================================================
+
+// What /api/groups/spectate/[link] shows - no group ID, session IDs or shareable link,
+// so a spectator can't open the group's pages that record or change anything
+export interface GroupSpectatorView {
+  name: string;
+  ratingSettings?: GroupRatingSettings;
+  leaderboard: LeaderboardEntry[];
+  recentSessions: SpectatorSessionSummary[];
+}
+
+export interface SpectatorSessionSummary {
+  name?: string;
+  date: Date;
+  gameMode: 'doubles' | 'singles';
+  playerCount: number;
+}
+
+// ============================================================================
+// User Account Types (optional sign-in and claimed group players)
+// ============================================================================
+
+export type AuthProviderName = 'local' | 'supabase';
+
+export interface User {
+  id: string;
+  email: string;
+  displayName?: string;
+  createdAt?: Date;
+}
+
+// GET /api/auth/session
+export interface AuthStatus {
+  enabled: boolean; // False when no sign-in provider is configured - the app works without accounts
+  provider: AuthProviderName | null;
+  user: User | null;
+}
+
+// A group where the signed-in user has claimed their player
+export interface UserGroupMembership {
+  groupId: string;
+  groupName: string;
+  shareableLink: string;
+  player: GroupPlayer;
+  rank: number | null; // Leaderboard position (null until they have played)
+  winRate: number; // Percentage, as on the leaderboard
+}
+
+// GET /api/me - the signed-in user's groups and their record added up across them
+export interface UserDashboard {
+  user: User;
+  groups: UserGroupMembership[];
+  totals: {
+    groups: number;
+    totalGames: number;
+    wins: number;
+    losses: number;
+    winRate: number; // Percentage
+    bestRating: number | null;
+  };
+}
+
+// ============================================================================
+// Audit Log Types (history of changes, with revert)
+// ============================================================================
+
+export type AuditEntityType = 'game' | 'session' | 'group_player' | 'group_settings' | 'admin_pin';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// Who made a change - any of these can be missing (signed out, older clients)
+export interface AuditActor {
+  userId?: string;
+  userEmail?: string;
+  deviceId?: string; // Random ID each browser keeps in localStorage
+  deviceLabel?: string; // e.g. "Safari on iPhone"
+}
+
+// GET /api/groups/[id]/history
+export interface AuditEntry {
+  id: string;
+  groupId?: string;
+  sessionId?: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  summary: string; // e.g. "Game 3: Alice & Bob beat Cara & Dan 21-15"
+  before: Record<string, unknown> | null; // Database row before the change (null for creates)
+  after: Record<string, unknown> | null; // Database row after the change (null for deletes)
+  actor: AuditActor;
+  revertsAuditId?: string; // Set when this entry is itself a revert
+  revertedByAuditId?: string; // Set once this change has been reverted
+  canRevert: boolean;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Group Export Types (versioned archive of a whole group)
+// ============================================================================
+// The format is documented in docs/engineering/export-format.md. Within a version, fields are
+// only ever added, so archives stay readable; anything else needs a new version.
+
+export type GroupExportFormat = 'json' | 'csv';
+
+// GET /api/groups/[id]/export (format=json)
+export interface GroupExport {
+  format: 'poweredbypace-group-export';
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  group: GroupExportGroup;
+  players: GroupExportPlayer[]; // Group player pool, including removed players
+  sessions: GroupExportSession[]; // Oldest first
+  sessionPlayers: GroupExportSessionPlayer[];
+  games: GroupExportGame[]; // By session, then game number
+}
+
+export interface GroupExportGroup {
+  id: string;
+  name: string;
+  createdAt: string | null;
+  ratingSettings: GroupRatingSettings;
+  currencySettings: CurrencySettings;
+}
+
+// Ratings and records are as of the export - they can be rebuilt from the games
+export interface GroupExportPlayer {
+  id: string;
+  name: string;
+  isActive: boolean; // false = removed from the pool (kept for their past games)
+  eloRating: number;
+  wins: number;
+  losses: number;
+  totalGames: number;
+  createdAt: string | null;
+}
+
+export interface GroupExportSession {
+  id: string;
+  name: string | null;
+  date: string;
+  organizerId: string; // Session player ID
+  gameMode: "doubles" | "singles";
+  roundRobinCount: number | null;
+  courtCostType: "per_person" | "total";
+  courtCostValue: number;
+  birdCostTotal: number;
+  betPerPlayer: number;
+  bettingEnabled: boolean;
+  expenses: SessionExpense[] | null;
+  costSplitMode: CostSplitMode;
+  currencySettings: CurrencySettings;
+  scoringRule: ScoringRuleName; // Added after version 1 shipped - older files don't have it
+  createdAt: string | null;
+}
+
+export interface GroupExportSessionPlayer {
+  id: string;
+  sessionId: string;
+  name: string;
+  groupPlayerId: string | null; // null for guests
+  attendanceWeight: number;
+}
+
+export interface GroupExportGame {
+  id: string;
+  sessionId: string;
+  gameNumber: number;
+  teamA: string[]; // Session player IDs
+  teamB: string[];
+  winningTeam: "A" | "B" | null; // null for unplayed round robin games
+  teamAScore: number | null; // Points across all sets for a match
+  teamBScore: number | null;
+  sets: GameSet[] | null; // A match's set scores, or null for a single game
+  rallies: RallyWinner[][] | null; // Rally log of a live-scored game, one list per set
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+// ============================================================================
+// Group Import Types (sessions and games from a spreadsheet or an export)
+// ============================================================================
+
+export type GroupImportFormat = 'csv' | 'json';
+
+// A problem with the file - row is the CSV line number (the header is line 1)
+export interface GroupImportIssue {
+  row?: number;
+  message: string;
+}
+
+// How a name in the file maps onto the group's player pool
+export interface GroupImportPlayerMatch {
+  name: string;
+  groupPlayerId?: string; // Existing group player - unset when the import will add them
+  isNew: boolean;
+  gameCount: number;
+}
+
+export interface GroupImportSessionPreview {
+  date: string; // ISO timestamp
+  name: string | null;
+  gameMode: "doubles" | "singles";
+  playerCount: number;
+  gameCount: number;
+}
+
+// POST /api/groups/[id]/import?dryRun=true
+export interface GroupImportPreview {
+  format: GroupImportFormat;
+  canImport: boolean; // No errors and at least one game
+  sessions: GroupImportSessionPreview[]; // Oldest first
+  players: GroupImportPlayerMatch[];
+  guestCount: number; // Session players that stay guests (JSON bundles only)
+  gameCount: number;
+  errors: GroupImportIssue[];
+  warnings: GroupImportIssue[]; // Worth a look, but don't block the import
+}
+
+// POST /api/groups/[id]/import
+export interface GroupImportResult {
+  preview: GroupImportPreview;
+  sessionsCreated: number;
+  gamesCreated: number;
+  playersCreated: number;
+}